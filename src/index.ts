@@ -8,16 +8,56 @@ export { ViewportManager } from './lib/core/ViewportManager';
 export { PointCloudLoader } from './lib/loaders/PointCloudLoader';
 export { CopcStreamingLoader } from './lib/loaders/CopcStreamingLoader';
 export { EptStreamingLoader } from './lib/loaders/EptStreamingLoader';
+export { Tiles3DStreamingLoader } from './lib/loaders/Tiles3DStreamingLoader';
+export { PotreeStreamingLoader } from './lib/loaders/PotreeStreamingLoader';
 export { PointCloudManager } from './lib/layers/PointCloudManager';
-export { ColorSchemeProcessor, getClassificationName } from './lib/colorizers/ColorScheme';
+export { EyeDomeLightingEffect, DEFAULT_EDL_OPTIONS } from './lib/layers/EyeDomeLightingEffect';
+export { PointSizeExtension } from './lib/layers/PointSizeExtension';
+export {
+  ColorSchemeProcessor,
+  getClassificationName,
+  parseHexColor,
+  getNormalAngles,
+  NORMAL_COLOR_SCHEMES,
+  ATTRIBUTE_COLOR_SCHEMES,
+  INTENSITY_BLEND_COLOR_SCHEMES,
+  DEFAULT_INTENSITY_BLEND,
+  getAvailableAttributeColorSchemes,
+  getColorSchemeConfig,
+} from './lib/colorizers/ColorScheme';
 export { COLORMAPS, COLORMAP_NAMES, COLORMAP_LABELS, getColormap } from './lib/colorizers/Colormaps';
+export { RasterColorizer } from './lib/colorizers/RasterColorizer';
+export { GeoTiffReader } from './lib/colorizers/GeoTiffReader';
+export type { RasterColorizerOptions } from './lib/colorizers/RasterColorizer';
+export type { RasterChunk } from './lib/colorizers/GeoTiffReader';
+export type { RasterTileColorSource, GeoTiffColorSource, RasterColorSource } from './lib/colorizers/types';
 
 // Tools exports
-export { CrossSectionTool, ElevationProfileExtractor } from './lib/tools';
+export { CrossSectionTool, ElevationProfileExtractor, ClipTool, ClipBoxTool } from './lib/tools';
+
+// Exporters
+export { LasWriter, WGS84_WKT } from './lib/exporters';
+export type { LasWriterOptions } from './lib/exporters';
+
+// Decode workers
+export { WorkerPool, estimateNormals } from './lib/workers';
+export type {
+  PointDecodeTask,
+  CopcChunkDecodeTask,
+  LazFileDecodeTask,
+  DecodedPoints,
+  NormalEstimationTask,
+} from './lib/workers';
+
+// Persistent node cache
+export { PersistentNodeCache } from './lib/cache';
+export type { PersistentCacheOptions, CacheUsage } from './lib/cache';
 
 // GUI exports
 export { MetadataPanel } from './lib/gui/MetadataPanel';
 export { CrossSectionPanel } from './lib/gui/CrossSectionPanel';
+export { ClipPanel } from './lib/gui/ClipPanel';
+export type { ClipPanelCallbacks } from './lib/gui/ClipPanel';
 export { ElevationProfileChart } from './lib/gui/ElevationProfileChart';
 
 // Layer control adapter
@@ -32,9 +72,14 @@ export type {
   LidarEventData,
   PointCloudInfo,
   PointCloudBounds,
+  PointCloudStyle,
+  PointSizeMode,
+  AttributeRange,
   ColorScheme,
   ColorSchemeType,
+  AttributeColorSchemeType,
   ColorSchemeConfig,
+  ColorCategory,
   CopcLoadingMode,
   ColormapName,
   ColorRangeConfig,
@@ -42,28 +87,47 @@ export type {
   DimensionInfo,
   CopcMetadata,
   EptExtendedMetadata,
+  Tiles3DExtendedMetadata,
+  PotreeExtendedMetadata,
   PointCloudFullMetadata,
   // Cross-section types
   CrossSectionLine,
   ProfilePoint,
   ElevationProfile,
+  // Clip types
+  ClipRegion,
+  ClipRegionOptions,
+  ClipMode,
+  ClipShape,
+  ClipBox,
+  // Export types
+  PointCloudExportOptions,
 } from './lib/core/types';
 
 export type {
   PointCloudData,
   LoaderOptions,
+  PointCloudFileFormat,
+  ColumnMapping,
+  PointCloudLoadOptions,
+  RequestKind,
+  RequestParameters,
+  RequestTransformFunction,
 } from './lib/loaders/types';
 
 export type {
   StreamingLoaderOptions,
   StreamingProgressEvent,
   ViewportInfo,
+  ViewportCamera,
   CachedNode,
   NodeKey,
   NodeState,
   StreamingLoaderEvent,
   StreamingLoaderEventHandler,
   StreamingLoadOptions,
+  FailedNodeInfo,
+  PointColorizer,
 } from './lib/loaders/streaming-types';
 
 export type {
@@ -74,9 +138,28 @@ export type {
   EptCachedNode,
 } from './lib/loaders/ept-types';
 
+export type {
+  Tiles3DStreamingLoaderOptions,
+  Tiles3DTileset,
+  Tiles3DTile,
+  Tiles3DBoundingVolume,
+  Tiles3DContent,
+  Tiles3DCachedNode,
+} from './lib/loaders/tiles3d-types';
+
+export type {
+  PotreeStreamingLoaderOptions,
+  Potree1Metadata,
+  Potree2Metadata,
+  Potree2Attribute,
+  PotreeCachedNode,
+} from './lib/loaders/potree-types';
+
 export type {
   PointCloudLayerOptions,
 } from './lib/layers/types';
+export type { EyeDomeLightingOptions } from './lib/layers/EyeDomeLightingEffect';
+export type { PointSizeExtensionProps } from './lib/layers/PointSizeExtension';
 
 // Utility exports
 export {
@@ -88,5 +171,30 @@ export {
   classNames,
   formatNumber,
   formatBytes,
+  formatGpsTime,
   getFilename,
+  isAbortError,
+  getRetryDelay,
+  computeScreenSpaceError,
+  boundsIntersectsFootprint,
+  subsetPointCloudData,
+  getPointSpacing,
+  getAttributeNames,
+  getAttributeValues,
+  createAttributeFilterTest,
+  LAST_RETURN_ATTRIBUTE,
+  parseFilterExpression,
+  getExpressionAttributes,
+  compileFilterExpression,
+  EXPRESSION_POINT_ATTRIBUTES,
+  polygonContains,
+  createGeometryTest,
+  createClipTest,
+  clipRegionsToGeoJSON,
+  lngLatToClipBoxLocal,
+  clipBoxLocalToLngLat,
+  getClipBoxFootprint,
+  createClipBoxTest,
+  fetchWithTransform,
 } from './lib/utils';
+export type { FilterExpressionNode } from './lib/utils';
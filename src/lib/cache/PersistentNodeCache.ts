@@ -0,0 +1,304 @@
+import type { PersistentCacheOptions, CacheUsage, CacheEntry } from './types';
+
+const DB_VERSION = 1;
+const ENTRIES_STORE = 'entries';
+const DATA_STORE = 'data';
+const DEFAULT_DB_NAME = 'maplibre-gl-lidar-cache';
+const DEFAULT_MAX_SIZE_BYTES = 500 * 1024 * 1024;
+
+/**
+ * Wraps an IndexedDB request in a promise.
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolves when an IndexedDB transaction has been committed.
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
+
+/**
+ * Opens the cache database, creating its stores on first use.
+ */
+function openDatabase(name: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const entries = db.createObjectStore(ENTRIES_STORE, { keyPath: 'id' });
+      entries.createIndex('lastAccessed', 'lastAccessed');
+      entries.createIndex('dataset', 'dataset');
+      db.createObjectStore(DATA_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Gets the value identifying a version of a remote resource: its ETag,
+ * or its Last-Modified date if the server sent no ETag.
+ *
+ * @param response - Response of the resource
+ * @returns The validator, or null if the response has neither header
+ */
+export function getResponseValidator(response: Response): string | null {
+  return response.headers.get('ETag') ?? response.headers.get('Last-Modified');
+}
+
+/**
+ * Caches the raw data of streamed octree nodes in IndexedDB, so datasets that are
+ * opened again do not download the same nodes. Nodes are keyed by dataset URL and
+ * node key and are discarded when the dataset's validator (ETag or Last-Modified) changes.
+ * Nodes of datasets without a validator are not cached, as their changes could not be detected.
+ * The least recently used nodes are evicted when the cache exceeds its size quota.
+ *
+ * Cache failures (e.g., IndexedDB unavailable or storage full) never fail a load:
+ * reads are treated as misses and writes are skipped.
+ */
+export class PersistentNodeCache {
+  private _dbName: string;
+  private _maxSizeBytes: number;
+  private _db: Promise<IDBDatabase | null> | null = null;
+  private _sizeBytes: number = 0;
+  private _entries: number = 0;
+  private _evicting: Promise<void> | null = null;
+
+  /**
+   * Creates a new PersistentNodeCache instance. The database is opened on first use.
+   *
+   * @param options - Cache options
+   */
+  constructor(options: PersistentCacheOptions = {}) {
+    this._dbName = options.dbName ?? DEFAULT_DB_NAME;
+    this._maxSizeBytes = options.maxSizeBytes ?? DEFAULT_MAX_SIZE_BYTES;
+  }
+
+  /**
+   * Checks whether IndexedDB is available in this environment.
+   *
+   * @returns True if nodes can be cached
+   */
+  isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Gets the cached data of a node.
+   *
+   * @param dataset - Dataset URL
+   * @param key - Node key
+   * @param validator - Current ETag or Last-Modified of the dataset
+   * @returns The node data, or null if it is not cached, was cached for another version
+   *   or the dataset has no validator
+   */
+  async get(dataset: string, key: string, validator: string | null): Promise<ArrayBuffer | null> {
+    if (validator === null) return null;
+    const db = await this._open();
+    if (!db) return null;
+
+    try {
+      const transaction = db.transaction([ENTRIES_STORE, DATA_STORE], 'readwrite');
+      const entries = transaction.objectStore(ENTRIES_STORE);
+      const data = transaction.objectStore(DATA_STORE);
+      const id = `${dataset}#${key}`;
+
+      const entry = await requestToPromise<CacheEntry | undefined>(entries.get(id));
+      if (!entry) return null;
+
+      if (entry.validator !== validator) {
+        // The dataset changed since the node was cached
+        entries.delete(id);
+        data.delete(id);
+        await transactionDone(transaction);
+        this._sizeBytes -= entry.size;
+        this._entries--;
+        return null;
+      }
+
+      const buffer = await requestToPromise<ArrayBuffer | undefined>(data.get(id));
+      entries.put({ ...entry, lastAccessed: Date.now() });
+      await transactionDone(transaction);
+      return buffer ?? null;
+    } catch (error) {
+      console.warn('Failed to read from the node cache:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Caches the data of a node, evicting least recently used nodes above the size quota.
+   * Nothing is cached without a validator.
+   *
+   * @param dataset - Dataset URL
+   * @param key - Node key
+   * @param validator - Current ETag or Last-Modified of the dataset
+   * @param buffer - Node data
+   */
+  async put(dataset: string, key: string, validator: string | null, buffer: ArrayBuffer): Promise<void> {
+    if (validator === null || buffer.byteLength > this._maxSizeBytes) return;
+    const db = await this._open();
+    if (!db) return;
+
+    try {
+      const transaction = db.transaction([ENTRIES_STORE, DATA_STORE], 'readwrite');
+      const entries = transaction.objectStore(ENTRIES_STORE);
+      const id = `${dataset}#${key}`;
+
+      const previous = await requestToPromise<CacheEntry | undefined>(entries.get(id));
+      const entry: CacheEntry = { id, dataset, validator, size: buffer.byteLength, lastAccessed: Date.now() };
+      entries.put(entry);
+      transaction.objectStore(DATA_STORE).put(buffer, id);
+      await transactionDone(transaction);
+
+      this._sizeBytes += entry.size - (previous?.size ?? 0);
+      if (!previous) this._entries++;
+    } catch (error) {
+      console.warn('Failed to write to the node cache:', error);
+      return;
+    }
+
+    if (this._sizeBytes > this._maxSizeBytes) {
+      await this._evict(db);
+    }
+  }
+
+  /**
+   * Gets the number and total size of cached nodes.
+   *
+   * @returns Cache usage
+   */
+  async getUsage(): Promise<CacheUsage> {
+    await this._open();
+    return { entries: this._entries, sizeBytes: this._sizeBytes, maxSizeBytes: this._maxSizeBytes };
+  }
+
+  /**
+   * Removes cached nodes.
+   *
+   * @param dataset - Dataset URL to remove the nodes of. If not provided, clears the whole cache.
+   */
+  async clear(dataset?: string): Promise<void> {
+    const db = await this._open();
+    if (!db) return;
+
+    try {
+      const transaction = db.transaction([ENTRIES_STORE, DATA_STORE], 'readwrite');
+      const entries = transaction.objectStore(ENTRIES_STORE);
+      const data = transaction.objectStore(DATA_STORE);
+
+      if (dataset === undefined) {
+        entries.clear();
+        data.clear();
+      } else {
+        const ids = await requestToPromise(entries.index('dataset').getAllKeys(dataset));
+        for (const id of ids) {
+          entries.delete(id);
+          data.delete(id);
+        }
+      }
+      await transactionDone(transaction);
+    } catch (error) {
+      console.warn('Failed to clear the node cache:', error);
+    }
+
+    await this._loadUsage(db);
+  }
+
+  /**
+   * Closes the database. It is opened again on next use.
+   */
+  close(): void {
+    this._db?.then((db) => db?.close());
+    this._db = null;
+  }
+
+  /**
+   * Opens the database and computes the cache usage on first use.
+   *
+   * @returns The database, or null if IndexedDB is unavailable
+   */
+  private _open(): Promise<IDBDatabase | null> {
+    if (!this._db) {
+      this._db = this.isAvailable()
+        ? openDatabase(this._dbName)
+          .then(async (db) => {
+            await this._loadUsage(db);
+            return db;
+          })
+          .catch((error) => {
+            console.warn('Node cache unavailable:', error);
+            return null;
+          })
+        : Promise.resolve(null);
+    }
+    return this._db;
+  }
+
+  /**
+   * Computes the number and total size of cached nodes from their metadata.
+   *
+   * @param db - Cache database
+   */
+  private async _loadUsage(db: IDBDatabase): Promise<void> {
+    const transaction = db.transaction(ENTRIES_STORE, 'readonly');
+    const entries = await requestToPromise<CacheEntry[]>(transaction.objectStore(ENTRIES_STORE).getAll());
+    this._entries = entries.length;
+    this._sizeBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+  }
+
+  /**
+   * Evicts least recently used nodes until the cache is within its size quota.
+   *
+   * @param db - Cache database
+   */
+  private _evict(db: IDBDatabase): Promise<void> {
+    if (!this._evicting) {
+      this._evicting = this._evictLeastRecentlyUsed(db)
+        .catch((error) => console.warn('Failed to evict from the node cache:', error))
+        .finally(() => {
+          this._evicting = null;
+        });
+    }
+    return this._evicting;
+  }
+
+  /**
+   * Deletes nodes in order of last access until the cache is within its size quota.
+   *
+   * @param db - Cache database
+   */
+  private async _evictLeastRecentlyUsed(db: IDBDatabase): Promise<void> {
+    const transaction = db.transaction([ENTRIES_STORE, DATA_STORE], 'readwrite');
+    const data = transaction.objectStore(DATA_STORE);
+    const request = transaction.objectStore(ENTRIES_STORE).index('lastAccessed').openCursor();
+
+    await new Promise<void>((resolve, reject) => {
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || this._sizeBytes <= this._maxSizeBytes) {
+          resolve();
+          return;
+        }
+        const entry = cursor.value as CacheEntry;
+        cursor.delete();
+        data.delete(entry.id);
+        this._sizeBytes -= entry.size;
+        this._entries--;
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+    await transactionDone(transaction);
+  }
+}
@@ -0,0 +1,2 @@
+export { PersistentNodeCache, getResponseValidator } from './PersistentNodeCache';
+export type { PersistentCacheOptions, CacheUsage } from './types';
@@ -0,0 +1,45 @@
+/**
+ * Options for the persistent node cache
+ */
+export interface PersistentCacheOptions {
+  /**
+   * Name of the IndexedDB database
+   * @default 'maplibre-gl-lidar-cache'
+   */
+  dbName?: string;
+
+  /**
+   * Maximum size of cached node data in bytes. Least recently used nodes are evicted above it.
+   * @default 524288000 (500 MB)
+   */
+  maxSizeBytes?: number;
+}
+
+/**
+ * Storage used by the persistent node cache
+ */
+export interface CacheUsage {
+  /** Number of cached nodes */
+  entries: number;
+  /** Total size of cached node data in bytes */
+  sizeBytes: number;
+  /** Maximum size of cached node data in bytes */
+  maxSizeBytes: number;
+}
+
+/**
+ * Metadata of a cached node, stored separately from its data so the
+ * cache size can be computed without reading node data
+ */
+export interface CacheEntry {
+  /** Dataset URL and node key */
+  id: string;
+  /** Dataset URL */
+  dataset: string;
+  /** ETag or Last-Modified of the dataset when the node was cached */
+  validator: string;
+  /** Size of the node data in bytes */
+  size: number;
+  /** Time of the last read or write (ms since epoch) */
+  lastAccessed: number;
+}
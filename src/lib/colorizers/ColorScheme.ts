@@ -1,5 +1,12 @@
-import type { PointCloudData } from '../loaders/types';
-import type { ColorScheme, ColorSchemeConfig, ColormapName, ColorRangeConfig } from '../core/types';
+import type { PointCloudData, AttributeArray } from '../loaders/types';
+import type {
+  ColorScheme,
+  ColorSchemeConfig,
+  ColormapName,
+  ColorRangeConfig,
+  ColorCategory,
+  AttributeColorSchemeType,
+} from '../core/types';
 import type { RGBColor, ColorRamp, ClassificationColorMap } from './types';
 import { computePercentileBounds } from '../utils/helpers';
 import { COLORMAPS } from './Colormaps';
@@ -29,6 +36,173 @@ export const CLASSIFICATION_COLORS: ClassificationColorMap = {
   18: [255, 0, 255],    // High Noise
 };
 
+/**
+ * Default palette for categorical color schemes (Tableau 10)
+ */
+const CATEGORY_PALETTE: RGBColor[] = [
+  [31, 119, 180],
+  [255, 127, 14],
+  [44, 160, 44],
+  [214, 39, 40],
+  [148, 103, 189],
+  [140, 86, 75],
+  [227, 119, 194],
+  [127, 127, 127],
+  [188, 189, 34],
+  [23, 190, 207],
+];
+
+/**
+ * Colors of return numbers (ColorBrewer Set1)
+ */
+const RETURN_NUMBER_COLORS = ['#e41a1c', '#377eb8', '#4daf4a', '#984ea3', '#ff7f00', '#ffff33', '#a65628'];
+
+/**
+ * Colors of return counts, from single returns (dark) to many returns (bright)
+ */
+const NUMBER_OF_RETURNS_COLORS = ['#440154', '#3b528b', '#21918c', '#5ec962', '#fde725'];
+
+/**
+ * Assigns colors to the values 1, 2, 3, ...
+ */
+function colorsByValue(colors: string[]): Record<number, string> {
+  return Object.fromEntries(colors.map((color, index) => [index + 1, color]));
+}
+
+/**
+ * Configurations of the preset schemes of standard LAS point attributes.
+ * Return numbers and counts have fixed colors, point source IDs (flight lines) cycle
+ * through the category palette, scan angles use a diverging ramp centered on nadir, and
+ * GPS times use the colormap over the color range.
+ */
+export const ATTRIBUTE_COLOR_SCHEMES: Record<AttributeColorSchemeType, ColorSchemeConfig> = {
+  returnNumber: {
+    type: 'categorical',
+    attribute: 'ReturnNumber',
+    colors: RETURN_NUMBER_COLORS,
+    categoryColors: colorsByValue(RETURN_NUMBER_COLORS),
+    categoryLabels: { 1: 'First', 2: 'Second', 3: 'Third', 4: 'Fourth', 5: 'Fifth' },
+  },
+  numberOfReturns: {
+    type: 'categorical',
+    attribute: 'NumberOfReturns',
+    colors: NUMBER_OF_RETURNS_COLORS,
+    categoryColors: colorsByValue(NUMBER_OF_RETURNS_COLORS),
+    categoryLabels: { 1: '1 return', 2: '2 returns', 3: '3 returns', 4: '4 returns', 5: '5 returns' },
+  },
+  scanAngle: {
+    type: 'gradient',
+    attribute: 'ScanAngle',
+    colors: ['#2166ac', '#67a9cf', '#f7f7f7', '#ef8a62', '#b2182b'],
+  },
+  pointSourceId: {
+    type: 'categorical',
+    attribute: 'PointSourceId',
+  },
+  gpsTime: {
+    type: 'gradient',
+    attribute: 'GpsTime',
+  },
+};
+
+/**
+ * Attributes each attribute color scheme can color by, in order of preference
+ */
+const ATTRIBUTE_COLOR_SCHEME_ATTRIBUTES: Record<AttributeColorSchemeType, string[]> = {
+  returnNumber: ['ReturnNumber'],
+  numberOfReturns: ['NumberOfReturns'],
+  scanAngle: ['ScanAngle', 'ScanAngleRank'],
+  pointSourceId: ['PointSourceId'],
+  gpsTime: ['GpsTime'],
+};
+
+/**
+ * Gets the attribute color schemes that apply to any of the given attributes.
+ *
+ * @param attributeNames - Names of the attributes of the loaded point clouds
+ * @returns Attribute color schemes
+ */
+export function getAvailableAttributeColorSchemes(attributeNames: string[]): AttributeColorSchemeType[] {
+  const names = new Set(attributeNames);
+  return (Object.keys(ATTRIBUTE_COLOR_SCHEME_ATTRIBUTES) as AttributeColorSchemeType[]).filter((scheme) =>
+    ATTRIBUTE_COLOR_SCHEME_ATTRIBUTES[scheme].some((name) => names.has(name))
+  );
+}
+
+/**
+ * Gets the configuration of a custom or attribute color scheme, for legends.
+ *
+ * @param scheme - Color scheme
+ * @returns Scheme configuration, or undefined for the other preset schemes
+ */
+export function getColorSchemeConfig(scheme: ColorScheme): ColorSchemeConfig | undefined {
+  if (typeof scheme !== 'string') return scheme;
+  return Object.prototype.hasOwnProperty.call(ATTRIBUTE_COLOR_SCHEMES, scheme)
+    ? ATTRIBUTE_COLOR_SCHEMES[scheme as AttributeColorSchemeType]
+    : undefined;
+}
+
+/**
+ * Color schemes computed from point normals
+ */
+export const NORMAL_COLOR_SCHEMES: ColorScheme[] = ['normal', 'slope', 'aspect'];
+
+/**
+ * Color schemes shaded by the intensity of the points
+ */
+export const INTENSITY_BLEND_COLOR_SCHEMES: ColorScheme[] = ['rgbIntensity', 'elevationIntensity', 'classificationIntensity'];
+
+/**
+ * Default weight of the intensity shading of the intensity-blended color schemes
+ */
+export const DEFAULT_INTENSITY_BLEND = 0.5;
+
+/**
+ * Slope in degrees from which aspect colors are fully saturated
+ */
+const ASPECT_FULL_SATURATION_SLOPE = 15;
+
+/**
+ * Gets the slope (0-90 degrees from horizontal) or aspect (0-360 degrees clockwise from
+ * north, the direction a surface faces) of point normals.
+ *
+ * @param normals - Unit normals [east, north, up, ...]
+ * @param pointCount - Number of points
+ * @param angle - Angle to compute
+ * @returns Angles in degrees (length = pointCount)
+ */
+export function getNormalAngles(normals: Float32Array, pointCount: number, angle: 'slope' | 'aspect'): Float32Array {
+  const angles = new Float32Array(pointCount);
+  for (let i = 0; i < pointCount; i++) {
+    const nx = normals[i * 3];
+    const ny = normals[i * 3 + 1];
+    const nz = normals[i * 3 + 2];
+    if (angle === 'slope') {
+      angles[i] = (Math.acos(Math.min(1, Math.abs(nz))) * 180) / Math.PI;
+    } else {
+      const aspect = (Math.atan2(nx, ny) * 180) / Math.PI;
+      angles[i] = aspect < 0 ? aspect + 360 : aspect;
+    }
+  }
+  return angles;
+}
+
+/**
+ * Converts a color from HSV to RGB.
+ *
+ * @param hue - Hue in degrees (0-360)
+ * @param saturation - Saturation (0-1)
+ * @param value - Value (0-1)
+ * @returns RGB color
+ */
+function hsvToRgb(hue: number, saturation: number, value: number): RGBColor {
+  const channel = (n: number): number => {
+    const k = (n + hue / 60) % 6;
+    return Math.round((value - value * saturation * Math.max(0, Math.min(k, 4 - k, 1))) * 255);
+  };
+  return [channel(5), channel(3), channel(1)];
+}
+
 /**
  * Options for color generation
  */
@@ -41,6 +215,8 @@ export interface ColorOptions {
   colorRange?: ColorRangeConfig;
   /** Set of classification codes to hide (set alpha to 0) */
   hiddenClassifications?: Set<number>;
+  /** Weight (0-1) of the intensity shading of the intensity-blended schemes (default: 0.5) */
+  intensityBlend?: number;
 }
 
 /**
@@ -51,6 +227,8 @@ export interface ColorResult {
   colors: Uint8Array;
   /** The computed bounds used for coloring */
   bounds?: { min: number; max: number };
+  /** The categories used for coloring (categorical custom schemes only) */
+  categories?: ColorCategory[];
 }
 
 /**
@@ -59,6 +237,8 @@ export interface ColorResult {
 export class ColorSchemeProcessor {
   /** Last computed color bounds (for colorbar display) */
   private _lastComputedBounds?: { min: number; max: number };
+  /** Last computed categories (for legend display) */
+  private _lastComputedCategories?: ColorCategory[];
 
   /**
    * Generates a color array for the point cloud based on the color scheme.
@@ -86,6 +266,7 @@ export class ColorSchemeProcessor {
     const colormap = options.colormap ?? 'viridis';
     const colorRange = options.colorRange;
     const usePercentile = options.usePercentile ?? true;
+    const intensityBlend = options.intensityBlend ?? DEFAULT_INTENSITY_BLEND;
 
     if (typeof scheme === 'string') {
       switch (scheme) {
@@ -97,11 +278,37 @@ export class ColorSchemeProcessor {
           return { colors: this._colorByClassification(data, colors, options.hiddenClassifications) };
         case 'rgb':
           return { colors: this._colorByRGB(data, colors) };
+        case 'rgbIntensity':
+          return this._blendIntensity(data, { colors: this._colorByRGB(data, colors) }, intensityBlend);
+        case 'elevationIntensity':
+          return this._blendIntensity(
+            data,
+            this._colorByElevation(data, colors, colormap, colorRange, usePercentile),
+            intensityBlend
+          );
+        case 'classificationIntensity':
+          return this._blendIntensity(
+            data,
+            { colors: this._colorByClassification(data, colors, options.hiddenClassifications) },
+            intensityBlend
+          );
+        case 'normal':
+          return { colors: this._colorByNormal(data, colors) };
+        case 'slope':
+          return this._colorBySlope(data, colors, colormap);
+        case 'aspect':
+          return { colors: this._colorByAspect(data, colors) };
+        case 'returnNumber':
+        case 'numberOfReturns':
+        case 'scanAngle':
+        case 'pointSourceId':
+        case 'gpsTime':
+          return this._colorByAttributeScheme(data, colors, scheme, colormap, colorRange, usePercentile);
         default:
           return this._colorByElevation(data, colors, colormap, colorRange, usePercentile);
       }
     } else {
-      return { colors: this._colorByCustom(data, colors, scheme, colormap, colorRange, usePercentile) };
+      return this._colorByCustom(data, colors, scheme, colormap, colorRange, usePercentile);
     }
   }
 
@@ -114,6 +321,15 @@ export class ColorSchemeProcessor {
     return this._lastComputedBounds;
   }
 
+  /**
+   * Gets the categories from the last categorical custom scheme (for legend display).
+   *
+   * @returns The last computed categories or undefined
+   */
+  getLastComputedCategories(): ColorCategory[] | undefined {
+    return this._lastComputedCategories;
+  }
+
   /**
    * Computes the color bounds based on the configuration.
    *
@@ -314,28 +530,341 @@ export class ColorSchemeProcessor {
   }
 
   /**
-   * Applies a custom color scheme configuration.
+   * Shades colors by the intensity of the points: the colors of the least intense points are
+   * darkened the most. Intensities are stretched over their 2-98% percentile range, so that
+   * the shading uses the full range on dark surfaces too. Colors are kept without intensities.
+   *
+   * @param data - Point cloud data
+   * @param result - Colors to shade, with their bounds
+   * @param weight - Weight of the shading (0 keeps the colors, 1 scales them by the intensity)
+   * @returns ColorResult with the shaded colors and the bounds of the unshaded ones
+   */
+  private _blendIntensity(data: PointCloudData, result: ColorResult, weight: number): ColorResult {
+    const blend = Math.min(1, Math.max(0, weight));
+    if (!data.hasIntensity || !data.intensities || blend === 0) return result;
+
+    const { colors } = result;
+    const { min, max } = computePercentileBounds(data.intensities.subarray(0, data.pointCount));
+    const range = max - min;
+    for (let i = 0; i < data.pointCount; i++) {
+      const shade = Math.min(1, Math.max(0, (data.intensities[i] - min) / range));
+      const factor = 1 - blend + blend * shade;
+      colors[i * 4] = Math.round(colors[i * 4] * factor);
+      colors[i * 4 + 1] = Math.round(colors[i * 4 + 1] * factor);
+      colors[i * 4 + 2] = Math.round(colors[i * 4 + 2] * factor);
+    }
+    return result;
+  }
+
+  /**
+   * Colors points by the direction of their normals: east, north and up map to red,
+   * green and blue.
+   *
+   * @param data - Point cloud data
+   * @param colors - Output color array
+   * @returns Color array
+   */
+  private _colorByNormal(data: PointCloudData, colors: Uint8Array): Uint8Array {
+    if (!data.normals) {
+      // Fall back to elevation if no normals were estimated
+      const result = this._colorByElevation(data, colors, 'viridis', undefined, true);
+      return result.colors;
+    }
+
+    for (let i = 0; i < data.pointCount; i++) {
+      colors[i * 4] = Math.round((data.normals[i * 3] * 0.5 + 0.5) * 255);
+      colors[i * 4 + 1] = Math.round((data.normals[i * 3 + 1] * 0.5 + 0.5) * 255);
+      colors[i * 4 + 2] = Math.round((data.normals[i * 3 + 2] * 0.5 + 0.5) * 255);
+      colors[i * 4 + 3] = 255;
+    }
+    return colors;
+  }
+
+  /**
+   * Colors points by the slope of their surface, from 0 (flat) to 90 degrees (vertical),
+   * using the specified colormap.
    *
    * @param data - Point cloud data
    * @param colors - Output color array
-   * @param _config - Custom color scheme config
    * @param colormap - Colormap name to use
+   * @returns ColorResult with colors and the slope bounds
+   */
+  private _colorBySlope(data: PointCloudData, colors: Uint8Array, colormap: ColormapName): ColorResult {
+    if (!data.normals) {
+      return this._colorByElevation(data, colors, colormap, undefined, true);
+    }
+
+    const bounds = { min: 0, max: 90 };
+    this._lastComputedBounds = bounds;
+    const slopes = getNormalAngles(data.normals, data.pointCount, 'slope');
+    const ramp = COLORMAPS[colormap] || COLORMAPS.viridis;
+
+    for (let i = 0; i < data.pointCount; i++) {
+      const color = this._interpolateRamp(ramp, slopes[i] / bounds.max);
+      colors[i * 4] = color[0];
+      colors[i * 4 + 1] = color[1];
+      colors[i * 4 + 2] = color[2];
+      colors[i * 4 + 3] = 255;
+    }
+
+    return { colors, bounds };
+  }
+
+  /**
+   * Colors points by the compass direction their surface faces, around the hue circle
+   * (north red, east yellow-green, south cyan, west purple). Colors fade to gray on flat
+   * surfaces, which face no direction.
+   *
+   * @param data - Point cloud data
+   * @param colors - Output color array
+   * @returns Color array
+   */
+  private _colorByAspect(data: PointCloudData, colors: Uint8Array): Uint8Array {
+    if (!data.normals) {
+      const result = this._colorByElevation(data, colors, 'viridis', undefined, true);
+      return result.colors;
+    }
+
+    const aspects = getNormalAngles(data.normals, data.pointCount, 'aspect');
+    const slopes = getNormalAngles(data.normals, data.pointCount, 'slope');
+    for (let i = 0; i < data.pointCount; i++) {
+      const saturation = Math.min(1, slopes[i] / ASPECT_FULL_SATURATION_SLOPE);
+      const color = hsvToRgb(aspects[i], saturation * 0.8, 0.9);
+      colors[i * 4] = color[0];
+      colors[i * 4 + 1] = color[1];
+      colors[i * 4 + 2] = color[2];
+      colors[i * 4 + 3] = 255;
+    }
+    return colors;
+  }
+
+  /**
+   * Colors points by a standard LAS attribute with its preset scheme.
+   * Falls back to elevation coloring if the point cloud does not have the attribute.
+   *
+   * @param data - Point cloud data
+   * @param colors - Output color array
+   * @param scheme - Attribute color scheme
+   * @param colormap - Colormap name to use for the elevation fallback
    * @param colorRange - Color range configuration
    * @param usePercentile - Legacy percentile flag
-   * @returns Color array
+   * @returns ColorResult with colors and computed bounds or categories
+   */
+  private _colorByAttributeScheme(
+    data: PointCloudData,
+    colors: Uint8Array,
+    scheme: AttributeColorSchemeType,
+    colormap: ColormapName,
+    colorRange?: ColorRangeConfig,
+    usePercentile?: boolean
+  ): ColorResult {
+    const attribute = ATTRIBUTE_COLOR_SCHEME_ATTRIBUTES[scheme].find((name) => this._getAttributeValues(data, name));
+    if (!attribute) {
+      this._lastComputedCategories = undefined;
+      return this._colorByElevation(data, colors, colormap, colorRange, usePercentile);
+    }
+
+    const config: ColorSchemeConfig = { ...ATTRIBUTE_COLOR_SCHEMES[scheme], attribute };
+    if (scheme === 'scanAngle') {
+      // Symmetric around nadir, so that both sides of the scan get the same range of colors
+      const values = this._getAttributeValues(data, attribute)!;
+      let extent = 0;
+      for (let i = 0; i < data.pointCount; i++) {
+        extent = Math.max(extent, Math.abs(values[i]));
+      }
+      config.domain = [-(extent || 1), extent || 1];
+    }
+    return this._colorByCustom(data, colors, config, colormap, colorRange, usePercentile);
+  }
+
+  /**
+   * Applies a custom color scheme configuration.
+   * Falls back to elevation coloring if the attribute is not present in the data.
+   *
+   * @param data - Point cloud data
+   * @param colors - Output color array
+   * @param config - Custom color scheme config
+   * @param colormap - Colormap name to use when the config has no colors
+   * @param colorRange - Color range configuration (used when the config has no domain)
+   * @param usePercentile - Legacy percentile flag
+   * @returns ColorResult with colors and computed bounds or categories
    */
   private _colorByCustom(
     data: PointCloudData,
     colors: Uint8Array,
-    _config: ColorSchemeConfig,
+    config: ColorSchemeConfig,
     colormap: ColormapName,
     colorRange?: ColorRangeConfig,
     usePercentile?: boolean
-  ): Uint8Array {
-    // For now, fall back to elevation for custom configs
-    // This can be extended to support custom gradients
-    const result = this._colorByElevation(data, colors, colormap, colorRange, usePercentile);
-    return result.colors;
+  ): ColorResult {
+    const values = this._getAttributeValues(data, config.attribute);
+    if (!values) {
+      console.warn(`Attribute "${config.attribute}" not found, falling back to elevation coloring`);
+      this._lastComputedCategories = undefined;
+      return this._colorByElevation(data, colors, colormap, colorRange, usePercentile);
+    }
+
+    if (config.type === 'categorical') {
+      return this._colorByCategory(data, colors, values, config);
+    }
+    this._lastComputedCategories = undefined;
+
+    let bounds: { min: number; max: number };
+    if (config.domain) {
+      bounds = { min: config.domain[0], max: config.domain[1] };
+    } else {
+      bounds = this._computeAttributeBounds(values, data.pointCount, colorRange, usePercentile);
+    }
+    this._lastComputedBounds = bounds;
+
+    const customRamp = config.colors && config.colors.length >= 2
+      ? config.colors.map(parseHexColor)
+      : null;
+    const ramp = customRamp || COLORMAPS[colormap] || COLORMAPS.viridis;
+    const { min, max } = bounds;
+    const range = max - min || 1;
+
+    for (let i = 0; i < data.pointCount; i++) {
+      const t = (values[i] - min) / range;
+      const color = this._interpolateRamp(ramp, t);
+      colors[i * 4] = color[0];
+      colors[i * 4 + 1] = color[1];
+      colors[i * 4 + 2] = color[2];
+      colors[i * 4 + 3] = 255;
+    }
+
+    return { colors, bounds };
+  }
+
+  /**
+   * Colors points by distinct integer values of an attribute.
+   * Values are sorted and assigned palette colors in order, unless an explicit
+   * color is configured for the value.
+   *
+   * @param data - Point cloud data
+   * @param colors - Output color array
+   * @param values - Attribute values (length = pointCount)
+   * @param config - Custom color scheme config
+   * @returns ColorResult with colors and categories
+   */
+  private _colorByCategory(
+    data: PointCloudData,
+    colors: Uint8Array,
+    values: ArrayLike<number>,
+    config: ColorSchemeConfig
+  ): ColorResult {
+    const distinct = new Set<number>();
+    for (let i = 0; i < data.pointCount; i++) {
+      distinct.add(Math.round(values[i]));
+    }
+
+    const palette = config.colors && config.colors.length > 0
+      ? config.colors.map(parseHexColor)
+      : CATEGORY_PALETTE;
+    const sortedValues = Array.from(distinct).sort((a, b) => a - b);
+    const colorByValue = new Map<number, RGBColor>();
+    const categories: ColorCategory[] = sortedValues.map((value, index) => {
+      const explicit = config.categoryColors?.[value];
+      const color = explicit ? parseHexColor(explicit) : palette[index % palette.length];
+      colorByValue.set(value, color);
+      return {
+        value,
+        color,
+        label: config.categoryLabels?.[value] ?? String(value),
+      };
+    });
+
+    for (let i = 0; i < data.pointCount; i++) {
+      const color = colorByValue.get(Math.round(values[i]))!;
+      colors[i * 4] = color[0];
+      colors[i * 4 + 1] = color[1];
+      colors[i * 4 + 2] = color[2];
+      colors[i * 4 + 3] = 255;
+    }
+
+    this._lastComputedCategories = categories;
+    return { colors, categories };
+  }
+
+  /**
+   * Resolves the values of a named attribute.
+   * Built-in names (elevation, intensity, classification, and slope and aspect of points
+   * with normals) are matched case-insensitively,
+   * then extra attributes are looked up by exact and case-insensitive name.
+   *
+   * @param data - Point cloud data
+   * @param attribute - Attribute name
+   * @returns Attribute values (length = pointCount), or null if not available
+   */
+  private _getAttributeValues(data: PointCloudData, attribute: string): ArrayLike<number> | null {
+    const key = attribute.toLowerCase();
+
+    if (key === 'elevation' || key === 'z') {
+      if (!data.positions || data.positions.length === 0) return null;
+      const zValues = new Float32Array(data.pointCount);
+      for (let i = 0; i < data.pointCount; i++) {
+        zValues[i] = data.positions[i * 3 + 2] ?? 0;
+      }
+      return zValues;
+    }
+    if (key === 'intensity' && data.hasIntensity && data.intensities) {
+      return data.intensities;
+    }
+    if (key === 'classification' && data.hasClassification && data.classifications) {
+      return data.classifications;
+    }
+    if ((key === 'slope' || key === 'aspect') && data.normals) {
+      return getNormalAngles(data.normals, data.pointCount, key);
+    }
+
+    const extra = data.extraAttributes;
+    if (!extra) return null;
+    if (extra[attribute]) return extra[attribute];
+
+    const match = Object.keys(extra).find((name) => name.toLowerCase() === key);
+    return match ? (extra[match] as AttributeArray) : null;
+  }
+
+  /**
+   * Computes color bounds for an arbitrary attribute.
+   * Percentiles are computed on values relative to the data minimum so that
+   * large-magnitude attributes (e.g. GpsTime) keep their precision in Float32.
+   *
+   * @param values - Attribute values
+   * @param pointCount - Number of points
+   * @param colorRange - Color range configuration
+   * @param usePercentile - Legacy percentile flag
+   * @returns Computed min and max bounds
+   */
+  private _computeAttributeBounds(
+    values: ArrayLike<number>,
+    pointCount: number,
+    colorRange?: ColorRangeConfig,
+    usePercentile?: boolean
+  ): { min: number; max: number } {
+    let dataMin = Infinity;
+    let dataMax = -Infinity;
+    for (let i = 0; i < pointCount; i++) {
+      const v = values[i];
+      if (v < dataMin) dataMin = v;
+      if (v > dataMax) dataMax = v;
+    }
+    if (!Number.isFinite(dataMin)) {
+      return { min: 0, max: 1 };
+    }
+    if (colorRange?.mode === 'absolute') {
+      return {
+        min: colorRange.absoluteMin ?? dataMin,
+        max: colorRange.absoluteMax ?? dataMax,
+      };
+    }
+
+    const relative = new Float32Array(pointCount);
+    for (let i = 0; i < pointCount; i++) {
+      relative[i] = values[i] - dataMin;
+    }
+    const bounds = this._computeBounds(relative, { min: 0, max: dataMax - dataMin }, colorRange, usePercentile);
+    return { min: bounds.min + dataMin, max: bounds.max + dataMin };
   }
 
   /**
@@ -366,6 +895,28 @@ export class ColorSchemeProcessor {
   }
 }
 
+/**
+ * Parses a hex color string ('#rgb' or '#rrggbb', '#' optional) into an RGB tuple.
+ * Invalid strings resolve to gray.
+ *
+ * @param hex - Hex color string
+ * @returns RGB color
+ */
+export function parseHexColor(hex: string): RGBColor {
+  let value = hex.trim().replace(/^#/, '');
+  if (value.length === 3) {
+    value = value.split('').map((c) => c + c).join('');
+  }
+  if (!/^[0-9a-fA-F]{6}$/.test(value)) {
+    return [128, 128, 128];
+  }
+  return [
+    parseInt(value.slice(0, 2), 16),
+    parseInt(value.slice(2, 4), 16),
+    parseInt(value.slice(4, 6), 16),
+  ];
+}
+
 /**
  * Gets the name of a classification code.
  */
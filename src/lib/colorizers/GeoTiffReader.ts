@@ -0,0 +1,477 @@
+/**
+ * TIFF and GeoTIFF tags read by the reader
+ */
+const TAGS = {
+  ImageWidth: 256,
+  ImageLength: 257,
+  BitsPerSample: 258,
+  Compression: 259,
+  PhotometricInterpretation: 262,
+  StripOffsets: 273,
+  SamplesPerPixel: 277,
+  RowsPerStrip: 278,
+  StripByteCounts: 279,
+  PlanarConfiguration: 284,
+  Predictor: 317,
+  ColorMap: 320,
+  TileWidth: 322,
+  TileLength: 323,
+  TileOffsets: 324,
+  TileByteCounts: 325,
+  ModelPixelScale: 33550,
+  ModelTiepoint: 33922,
+  ModelTransformation: 34264,
+  GeoKeyDirectory: 34735,
+} as const;
+
+/**
+ * GeoTIFF keys read from the GeoKeyDirectory tag
+ */
+const GEO_KEYS = {
+  RasterType: 1025,
+  GeographicType: 2048,
+  ProjectedCSType: 3072,
+} as const;
+
+/**
+ * Byte sizes of the TIFF field types (by type ID)
+ */
+const FIELD_TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8,
+};
+
+/**
+ * Compression schemes supported by the reader
+ */
+const COMPRESSION_NONE = 1;
+const COMPRESSION_LZW = 5;
+const COMPRESSION_DEFLATE = 8;
+const COMPRESSION_DEFLATE_LEGACY = 32946;
+
+/**
+ * Pixels of a decoded image chunk (a strip or a tile)
+ */
+export interface RasterChunk {
+  /** Chunk width in pixels */
+  width: number;
+  /** Chunk height in pixels */
+  height: number;
+  /** RGBA pixels (length = width * height * 4) */
+  data: Uint8Array | Uint8ClampedArray;
+}
+
+/**
+ * Reads the first image of a GeoTIFF, decoding its strips or tiles on demand.
+ * Supports 8-bit gray, RGB, RGBA and palette images, uncompressed or compressed
+ * with LZW or Deflate (with horizontal differencing), georeferenced by tie point
+ * and pixel scale or by a transformation matrix.
+ */
+export class GeoTiffReader {
+  /** Image width in pixels */
+  readonly width: number;
+  /** Image height in pixels */
+  readonly height: number;
+  /** Width of the strips or tiles in pixels */
+  readonly chunkWidth: number;
+  /** Height of the strips or tiles in pixels */
+  readonly chunkHeight: number;
+  /** EPSG code of the image CRS, or null if not set in the GeoTIFF keys */
+  readonly epsg: number | null;
+
+  private _buffer: ArrayBuffer;
+  private _view: DataView;
+  private _littleEndian: boolean;
+  private _tags: Map<number, number[]> = new Map();
+  private _chunksAcross: number;
+  private _offsets: number[];
+  private _byteCounts: number[];
+  private _samplesPerPixel: number;
+  private _compression: number;
+  private _predictor: number;
+  private _photometric: number;
+  private _colorMap: number[] | null;
+  // Pixel to model transform: x = a * col + b * row + c, y = d * col + e * row + f
+  private _transform: [number, number, number, number, number, number];
+  private _pixelIsPoint: boolean;
+
+  /**
+   * Checks whether a buffer starts with the TIFF byte order and magic number.
+   *
+   * @param buffer - File contents
+   * @returns True if the buffer is a (non-Big) TIFF
+   */
+  static isTiff(buffer: ArrayBuffer): boolean {
+    if (buffer.byteLength < 8) return false;
+    const view = new DataView(buffer);
+    const order = view.getUint16(0);
+    if (order !== 0x4949 && order !== 0x4d4d) return false;
+    return view.getUint16(2, order === 0x4949) === 42;
+  }
+
+  /**
+   * Parses the header and first image directory of a GeoTIFF.
+   *
+   * @param buffer - File contents
+   */
+  constructor(buffer: ArrayBuffer) {
+    if (!GeoTiffReader.isTiff(buffer)) {
+      throw new Error('Not a GeoTIFF file (BigTIFF is not supported)');
+    }
+    this._buffer = buffer;
+    this._view = new DataView(buffer);
+    this._littleEndian = this._view.getUint16(0) === 0x4949;
+    this._readDirectory(this._view.getUint32(4, this._littleEndian));
+
+    this.width = this._getTag(TAGS.ImageWidth);
+    this.height = this._getTag(TAGS.ImageLength);
+    this._samplesPerPixel = this._getTag(TAGS.SamplesPerPixel, 1);
+    this._compression = this._getTag(TAGS.Compression, COMPRESSION_NONE);
+    this._predictor = this._getTag(TAGS.Predictor, 1);
+    this._photometric = this._getTag(TAGS.PhotometricInterpretation, this._samplesPerPixel >= 3 ? 2 : 1);
+    this._colorMap = this._tags.get(TAGS.ColorMap) ?? null;
+
+    const bitsPerSample = this._tags.get(TAGS.BitsPerSample) ?? [1];
+    if (bitsPerSample.some((bits) => bits !== 8)) {
+      throw new Error(`Unsupported GeoTIFF sample size: ${bitsPerSample[0]} bits (only 8-bit images are supported)`);
+    }
+    if (![COMPRESSION_NONE, COMPRESSION_LZW, COMPRESSION_DEFLATE, COMPRESSION_DEFLATE_LEGACY].includes(this._compression)) {
+      throw new Error(`Unsupported GeoTIFF compression: ${this._compression} (only uncompressed, LZW and Deflate are supported)`);
+    }
+    if (this._getTag(TAGS.PlanarConfiguration, 1) !== 1) {
+      throw new Error('Unsupported GeoTIFF planar configuration: only interleaved samples are supported');
+    }
+    if (![0, 1, 2, 3].includes(this._photometric) || (this._photometric === 3 && !this._colorMap)) {
+      throw new Error(`Unsupported GeoTIFF photometric interpretation: ${this._photometric}`);
+    }
+
+    if (this._tags.has(TAGS.TileOffsets)) {
+      this.chunkWidth = this._getTag(TAGS.TileWidth);
+      this.chunkHeight = this._getTag(TAGS.TileLength);
+      this._offsets = this._tags.get(TAGS.TileOffsets)!;
+      this._byteCounts = this._tags.get(TAGS.TileByteCounts) ?? [];
+    } else {
+      this.chunkWidth = this.width;
+      this.chunkHeight = Math.min(this._getTag(TAGS.RowsPerStrip, this.height), this.height);
+      this._offsets = this._tags.get(TAGS.StripOffsets) ?? [];
+      this._byteCounts = this._tags.get(TAGS.StripByteCounts) ?? [];
+    }
+    this._chunksAcross = Math.ceil(this.width / this.chunkWidth);
+
+    this._transform = this._readTransform();
+    const geoKeys = this._readGeoKeys();
+    this._pixelIsPoint = geoKeys.get(GEO_KEYS.RasterType) === 2;
+    const epsg = geoKeys.get(GEO_KEYS.ProjectedCSType) ?? geoKeys.get(GEO_KEYS.GeographicType);
+    // 32767 marks user-defined coordinate systems
+    this.epsg = epsg !== undefined && epsg !== 32767 ? epsg : null;
+  }
+
+  /**
+   * Converts model (CRS) coordinates to pixel coordinates.
+   *
+   * @param x - X coordinate in the image CRS
+   * @param y - Y coordinate in the image CRS
+   * @returns [column, row], fractional (the pixel is the integer part)
+   */
+  modelToPixel(x: number, y: number): [number, number] {
+    const [a, b, c, d, e, f] = this._transform;
+    const det = a * e - b * d;
+    const dx = x - c;
+    const dy = y - f;
+    const col = (e * dx - b * dy) / det;
+    const row = (a * dy - d * dx) / det;
+    // Points of PixelIsPoint images are pixel centers
+    return this._pixelIsPoint ? [col + 0.5, row + 0.5] : [col, row];
+  }
+
+  /**
+   * Gets the index of the strip or tile containing a pixel.
+   *
+   * @param col - Pixel column
+   * @param row - Pixel row
+   * @returns Chunk index
+   */
+  getChunkIndex(col: number, row: number): number {
+    return Math.floor(row / this.chunkHeight) * this._chunksAcross + Math.floor(col / this.chunkWidth);
+  }
+
+  /**
+   * Gets the pixel of the top left corner of a strip or tile.
+   *
+   * @param index - Chunk index
+   * @returns [column, row]
+   */
+  getChunkOrigin(index: number): [number, number] {
+    return [(index % this._chunksAcross) * this.chunkWidth, Math.floor(index / this._chunksAcross) * this.chunkHeight];
+  }
+
+  /**
+   * Decodes a strip or tile to RGBA pixels.
+   *
+   * @param index - Chunk index
+   * @returns Decoded chunk (chunkWidth x chunkHeight pixels)
+   */
+  async readChunk(index: number): Promise<RasterChunk> {
+    const offset = this._offsets[index];
+    const byteCount = this._byteCounts[index];
+    if (offset === undefined || byteCount === undefined) {
+      throw new Error(`GeoTIFF chunk ${index} is out of range`);
+    }
+
+    const spp = this._samplesPerPixel;
+    const size = this.chunkWidth * this.chunkHeight * spp;
+    const compressed = new Uint8Array(this._buffer, offset, Math.min(byteCount, this._buffer.byteLength - offset));
+    let samples: Uint8Array;
+    if (this._compression === COMPRESSION_LZW) {
+      samples = decodeLzw(compressed, size);
+    } else if (this._compression === COMPRESSION_NONE) {
+      samples = compressed;
+    } else {
+      const stream = new Blob([compressed]).stream().pipeThrough(new DecompressionStream('deflate'));
+      samples = new Uint8Array(await new Response(stream).arrayBuffer());
+    }
+    if (samples.length < size) {
+      // The last strip is shorter than the others
+      const padded = new Uint8Array(size);
+      padded.set(samples);
+      samples = padded;
+    } else if (this._predictor === 2) {
+      samples = samples.slice(0, size);
+    }
+
+    if (this._predictor === 2) {
+      // Undo horizontal differencing
+      const rowLength = this.chunkWidth * spp;
+      for (let rowStart = 0; rowStart < size; rowStart += rowLength) {
+        for (let i = rowStart + spp; i < rowStart + rowLength; i++) {
+          samples[i] = (samples[i] + samples[i - spp]) & 0xff;
+        }
+      }
+    }
+
+    const pixelCount = this.chunkWidth * this.chunkHeight;
+    const data = new Uint8Array(pixelCount * 4);
+    const colorMap = this._colorMap;
+    for (let i = 0; i < pixelCount; i++) {
+      const s = i * spp;
+      const o = i * 4;
+      if (this._photometric === 2) {
+        data[o] = samples[s];
+        data[o + 1] = samples[s + 1];
+        data[o + 2] = samples[s + 2];
+        data[o + 3] = spp > 3 ? samples[s + 3] : 255;
+      } else if (this._photometric === 3 && colorMap) {
+        // Palette entries are 16-bit red, then green, then blue values
+        const value = samples[s];
+        data[o] = colorMap[value] >> 8;
+        data[o + 1] = colorMap[256 + value] >> 8;
+        data[o + 2] = colorMap[512 + value] >> 8;
+        data[o + 3] = 255;
+      } else {
+        const gray = this._photometric === 0 ? 255 - samples[s] : samples[s];
+        data[o] = gray;
+        data[o + 1] = gray;
+        data[o + 2] = gray;
+        data[o + 3] = spp > 1 ? samples[s + 1] : 255;
+      }
+    }
+    return { width: this.chunkWidth, height: this.chunkHeight, data };
+  }
+
+  /**
+   * Reads the tags of an image file directory.
+   *
+   * @param offset - Byte offset of the directory
+   */
+  private _readDirectory(offset: number): void {
+    const view = this._view;
+    const entryCount = view.getUint16(offset, this._littleEndian);
+    for (let i = 0; i < entryCount; i++) {
+      const entry = offset + 2 + i * 12;
+      const tag = view.getUint16(entry, this._littleEndian);
+      const type = view.getUint16(entry + 2, this._littleEndian);
+      const count = view.getUint32(entry + 4, this._littleEndian);
+      const size = FIELD_TYPE_SIZES[type];
+      if (!size) continue;
+      // Values that fit in 4 bytes are stored in the entry itself
+      const valueOffset = size * count <= 4 ? entry + 8 : view.getUint32(entry + 8, this._littleEndian);
+      if (valueOffset + size * count > view.byteLength) continue;
+      this._tags.set(tag, this._readValues(type, valueOffset, count));
+    }
+  }
+
+  /**
+   * Reads the values of a tag.
+   *
+   * @param type - TIFF field type
+   * @param offset - Byte offset of the values
+   * @param count - Number of values
+   * @returns Values (rationals as quotients, ASCII as character codes)
+   */
+  private _readValues(type: number, offset: number, count: number): number[] {
+    const view = this._view;
+    const le = this._littleEndian;
+    const values: number[] = new Array(count);
+    for (let i = 0; i < count; i++) {
+      switch (type) {
+        case 3: values[i] = view.getUint16(offset + i * 2, le); break;
+        case 4: values[i] = view.getUint32(offset + i * 4, le); break;
+        case 5: values[i] = view.getUint32(offset + i * 8, le) / view.getUint32(offset + i * 8 + 4, le); break;
+        case 6: values[i] = view.getInt8(offset + i); break;
+        case 8: values[i] = view.getInt16(offset + i * 2, le); break;
+        case 9: values[i] = view.getInt32(offset + i * 4, le); break;
+        case 10: values[i] = view.getInt32(offset + i * 8, le) / view.getInt32(offset + i * 8 + 4, le); break;
+        case 11: values[i] = view.getFloat32(offset + i * 4, le); break;
+        case 12: values[i] = view.getFloat64(offset + i * 8, le); break;
+        default: values[i] = view.getUint8(offset + i);
+      }
+    }
+    return values;
+  }
+
+  /**
+   * Gets the first value of a tag.
+   *
+   * @param tag - Tag ID
+   * @param defaultValue - Value of missing tags; required tags throw when missing
+   * @returns Tag value
+   */
+  private _getTag(tag: number, defaultValue?: number): number {
+    const value = this._tags.get(tag)?.[0] ?? defaultValue;
+    if (value === undefined) {
+      throw new Error(`Invalid GeoTIFF: missing tag ${tag}`);
+    }
+    return value;
+  }
+
+  /**
+   * Reads the pixel to model transform from the transformation matrix,
+   * or from the tie point and pixel scale.
+   *
+   * @returns Affine transform [a, b, c, d, e, f]
+   */
+  private _readTransform(): [number, number, number, number, number, number] {
+    const matrix = this._tags.get(TAGS.ModelTransformation);
+    if (matrix && matrix.length >= 8) {
+      return [matrix[0], matrix[1], matrix[3], matrix[4], matrix[5], matrix[7]];
+    }
+
+    const tiepoint = this._tags.get(TAGS.ModelTiepoint);
+    const scale = this._tags.get(TAGS.ModelPixelScale);
+    if (!tiepoint || tiepoint.length < 6 || !scale || scale.length < 2) {
+      throw new Error('GeoTIFF is not georeferenced: missing tie point and pixel scale');
+    }
+    const [i, j, , x, y] = tiepoint;
+    const [scaleX, scaleY] = scale;
+    // Rows go south, so Y decreases as the row increases
+    return [scaleX, 0, x - i * scaleX, 0, -scaleY, y + j * scaleY];
+  }
+
+  /**
+   * Reads the GeoTIFF keys with short values.
+   *
+   * @returns Key values by key ID
+   */
+  private _readGeoKeys(): Map<number, number> {
+    const keys = new Map<number, number>();
+    const directory = this._tags.get(TAGS.GeoKeyDirectory);
+    if (!directory) return keys;
+
+    const keyCount = directory[3] ?? 0;
+    for (let i = 0; i < keyCount; i++) {
+      const [keyId, location, , value] = directory.slice(4 + i * 4, 8 + i * 4);
+      // Location 0 means the value is stored in the key entry
+      if (location === 0 && value !== undefined) {
+        keys.set(keyId, value);
+      }
+    }
+    return keys;
+  }
+}
+
+/**
+ * Decodes TIFF LZW data (MSB-first codes of 9 to 12 bits, with early change).
+ *
+ * @param input - Compressed bytes
+ * @param size - Expected number of decoded bytes
+ * @returns Decoded bytes
+ */
+function decodeLzw(input: Uint8Array, size: number): Uint8Array {
+  const CLEAR_CODE = 256;
+  const EOI_CODE = 257;
+  const output = new Uint8Array(size);
+  // Table entries are a prefix entry followed by a byte
+  const prefixes = new Int32Array(4096);
+  const suffixes = new Uint8Array(4096);
+  const firstBytes = new Uint8Array(4096);
+  const lengths = new Uint16Array(4096);
+  for (let i = 0; i < 256; i++) {
+    prefixes[i] = -1;
+    suffixes[i] = i;
+    firstBytes[i] = i;
+    lengths[i] = 1;
+  }
+
+  const totalBits = input.length * 8;
+  let bitPosition = 0;
+  let outputPosition = 0;
+  let codeSize = 9;
+  let nextCode = 258;
+  let previous = -1;
+
+  const readCode = (): number => {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++) {
+      const bit = (input[bitPosition >> 3] >> (7 - (bitPosition & 7))) & 1;
+      code = (code << 1) | bit;
+      bitPosition++;
+    }
+    return code;
+  };
+
+  const writeEntry = (code: number): void => {
+    const length = lengths[code];
+    let entry = code;
+    for (let i = length - 1; i >= 0; i--) {
+      if (outputPosition + i < size) output[outputPosition + i] = suffixes[entry];
+      entry = prefixes[entry];
+    }
+    outputPosition += length;
+  };
+
+  const addEntry = (prefix: number, byte: number): void => {
+    if (nextCode >= 4096) return;
+    prefixes[nextCode] = prefix;
+    suffixes[nextCode] = byte;
+    firstBytes[nextCode] = firstBytes[prefix];
+    lengths[nextCode] = lengths[prefix] + 1;
+    nextCode++;
+  };
+
+  while (outputPosition < size && bitPosition + codeSize <= totalBits) {
+    const code = readCode();
+    if (code === EOI_CODE) break;
+    if (code === CLEAR_CODE) {
+      codeSize = 9;
+      nextCode = 258;
+      previous = -1;
+      continue;
+    }
+
+    if (previous === -1) {
+      writeEntry(code);
+    } else if (code < nextCode) {
+      writeEntry(code);
+      addEntry(previous, firstBytes[code]);
+    } else {
+      // The code is being defined: the previous entry followed by its first byte
+      addEntry(previous, firstBytes[previous]);
+      writeEntry(code);
+    }
+    previous = code;
+    // Codes grow one entry early in TIFF LZW
+    if (nextCode >= (1 << codeSize) - 1 && codeSize < 12) {
+      codeSize++;
+    }
+  }
+  return output;
+}
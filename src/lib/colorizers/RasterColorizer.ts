@@ -0,0 +1,485 @@
+import proj4 from 'proj4';
+import type { PointCloudData, RequestTransformFunction } from '../loaders/types';
+import type { PointColorizer } from '../loaders/streaming-types';
+import type { RasterColorSource, RasterTileColorSource, GeoTiffColorSource, RGBColor } from './types';
+import { GeoTiffReader } from './GeoTiffReader';
+import type { RasterChunk } from './GeoTiffReader';
+import { parseHexColor } from './ColorScheme';
+import { fetchWithTransform } from '../utils/request';
+import { isAbortError } from '../utils/helpers';
+
+/**
+ * Maximum number of tiles sampled for one colorization when the zoom level is automatic
+ */
+const MAX_TILES_PER_COLORIZE = 64;
+
+/**
+ * Maximum number of decoded tiles or GeoTIFF chunks kept in memory
+ */
+const MAX_CACHED_CHUNKS = 256;
+
+/**
+ * Default maximum zoom level of tile sources
+ */
+const DEFAULT_TILE_MAXZOOM = 19;
+
+/**
+ * Options for the raster colorizer
+ */
+export interface RasterColorizerOptions {
+  /** Customizes tile and GeoTIFF requests (headers, credentials or signed URLs) */
+  transformRequest?: RequestTransformFunction | null;
+  /**
+   * Color of points outside the raster, on transparent pixels or on tiles that failed to load
+   * @default '#808080'
+   */
+  noDataColor?: string;
+}
+
+/**
+ * GeoTIFF with the projection from WGS84 to its CRS
+ */
+interface GeoTiffRaster {
+  reader: GeoTiffReader;
+  /** Projects [lng, lat] to the image CRS, or null for WGS84 images */
+  project: ((lng: number, lat: number) => [number, number]) | null;
+}
+
+/**
+ * Pixels sampled for points: the chunk (tile or GeoTIFF strip) of each point and its
+ * position in the chunk, in pixels of the nominal chunk size
+ */
+interface PixelLocations {
+  /** Chunk keys, indexed by chunk ID */
+  keys: string[];
+  /** Chunk ID of each point, -1 for points outside the raster */
+  chunkIds: Int32Array;
+  /** Column of each point in its chunk */
+  x: Float64Array;
+  /** Row of each point in its chunk */
+  y: Float64Array;
+  /** Nominal chunk width (decoded tiles may have more pixels, e.g., @2x tiles) */
+  chunkWidth: number;
+  /** Nominal chunk height */
+  chunkHeight: number;
+}
+
+/**
+ * Colors points by sampling a raster at their positions: a raster tile source (XYZ or TMS,
+ * like a MapLibre raster source) or a GeoTIFF. Tiles and GeoTIFF strips are loaded on demand
+ * and cached, so streamed nodes sharing tiles only load them once.
+ */
+export class RasterColorizer implements PointColorizer {
+  private _source: RasterColorSource;
+  private _transformRequest: RequestTransformFunction | null;
+  private _noDataColor: RGBColor;
+  private _chunks: Map<string, Promise<RasterChunk | null>> = new Map();
+  private _geoTiff: Promise<GeoTiffRaster> | null = null;
+
+  /**
+   * Creates a new RasterColorizer instance.
+   *
+   * @param source - Raster sampled at the point positions
+   * @param options - Colorizer options
+   */
+  constructor(source: RasterColorSource, options: RasterColorizerOptions = {}) {
+    if (source.type === 'tiles' && source.tiles.length === 0) {
+      throw new Error('Raster tile source has no tile URLs');
+    }
+    this._source = source;
+    this._transformRequest = options.transformRequest ?? null;
+    this._noDataColor = parseHexColor(options.noDataColor ?? '#808080');
+  }
+
+  /**
+   * Loads the GeoTIFF header, so that invalid or unsupported files fail before points
+   * are colorized. Tile sources need no initialization.
+   *
+   * @returns Promise that resolves when the raster is ready
+   */
+  async initialize(): Promise<void> {
+    if (this._source.type === 'geotiff') {
+      await this._getGeoTiff(this._source);
+    }
+  }
+
+  /**
+   * Computes the colors of points from the raster pixels at their positions.
+   *
+   * @param positions - XYZ positions as offsets from the coordinate origin
+   * @param coordinateOrigin - Coordinate origin [lng, lat, 0]
+   * @param signal - Optional abort signal for tile requests
+   * @returns RGBA colors (length = pointCount * 4)
+   */
+  async colorize(
+    positions: Float32Array,
+    coordinateOrigin: [number, number, number],
+    signal?: AbortSignal
+  ): Promise<Uint8Array> {
+    const pointCount = Math.floor(positions.length / 3);
+    const locations = this._source.type === 'tiles'
+      ? this._locateTilePixels(positions, coordinateOrigin, this._source)
+      : this._locateGeoTiffPixels(positions, coordinateOrigin, await this._getGeoTiff(this._source));
+    const chunks = await Promise.all(locations.keys.map((key) => this._getChunk(key, signal)));
+
+    const colors = new Uint8Array(pointCount * 4);
+    const [noDataR, noDataG, noDataB] = this._noDataColor;
+    for (let i = 0; i < pointCount; i++) {
+      const o = i * 4;
+      colors[o + 3] = 255;
+
+      const chunkId = locations.chunkIds[i];
+      const chunk = chunkId >= 0 ? chunks[chunkId] : null;
+      if (chunk) {
+        const px = Math.min(Math.floor((locations.x[i] * chunk.width) / locations.chunkWidth), chunk.width - 1);
+        const py = Math.min(Math.floor((locations.y[i] * chunk.height) / locations.chunkHeight), chunk.height - 1);
+        const p = (py * chunk.width + px) * 4;
+        if (chunk.data[p + 3] > 0) {
+          colors[o] = chunk.data[p];
+          colors[o + 1] = chunk.data[p + 1];
+          colors[o + 2] = chunk.data[p + 2];
+          continue;
+        }
+      }
+      colors[o] = noDataR;
+      colors[o + 1] = noDataG;
+      colors[o + 2] = noDataB;
+    }
+    return colors;
+  }
+
+  /**
+   * Colorizes a point cloud, so that the 'rgb' color scheme shows the raster colors.
+   *
+   * @param data - Point cloud data
+   * @param signal - Optional abort signal for tile requests
+   * @returns Point cloud data with the raster colors
+   */
+  async colorizePointCloud(data: PointCloudData, signal?: AbortSignal): Promise<PointCloudData> {
+    const colors = await this.colorize(data.positions.subarray(0, data.pointCount * 3), data.coordinateOrigin, signal);
+    return { ...data, colors, hasRGB: true };
+  }
+
+  /**
+   * Finds the tiles and tile pixels of points, at the zoom level of the source or
+   * at the highest zoom level at which the points span few tiles.
+   *
+   * @param positions - XYZ positions as offsets from the coordinate origin
+   * @param coordinateOrigin - Coordinate origin [lng, lat, 0]
+   * @param source - Tile source
+   * @returns Pixel locations
+   */
+  private _locateTilePixels(
+    positions: Float32Array,
+    coordinateOrigin: [number, number, number],
+    source: RasterTileColorSource
+  ): PixelLocations {
+    const pointCount = Math.floor(positions.length / 3);
+    const tileSize = source.tileSize ?? 256;
+
+    // Web Mercator coordinates from 0 to 1 (the size of the zoom 0 tile)
+    const mercatorX = new Float64Array(pointCount);
+    const mercatorY = new Float64Array(pointCount);
+    let minX = Infinity;
+    let maxX = -Infinity;
+    let minY = Infinity;
+    let maxY = -Infinity;
+    for (let i = 0; i < pointCount; i++) {
+      const lng = coordinateOrigin[0] + positions[i * 3];
+      const lat = coordinateOrigin[1] + positions[i * 3 + 1];
+      const sin = Math.min(Math.max(Math.sin((lat * Math.PI) / 180), -0.9999), 0.9999);
+      const x = Math.min(Math.max((lng + 180) / 360, 0), 1 - 1e-12);
+      const y = Math.min(Math.max(0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI), 0), 1 - 1e-12);
+      mercatorX[i] = x;
+      mercatorY[i] = y;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+
+    const minZoom = source.minzoom ?? 0;
+    let zoom = source.zoom ?? source.maxzoom ?? DEFAULT_TILE_MAXZOOM;
+    if (source.zoom === undefined) {
+      while (zoom > minZoom) {
+        const scale = 2 ** zoom;
+        const tileCount =
+          (Math.floor(maxX * scale) - Math.floor(minX * scale) + 1) *
+          (Math.floor(maxY * scale) - Math.floor(minY * scale) + 1);
+        if (tileCount <= MAX_TILES_PER_COLORIZE) break;
+        zoom--;
+      }
+    }
+
+    const scale = 2 ** zoom;
+    const keys: string[] = [];
+    const tileIds = new Map<number, number>();
+    const chunkIds = new Int32Array(pointCount);
+    const x = new Float64Array(pointCount);
+    const y = new Float64Array(pointCount);
+    const firstTileX = Math.floor(minX * scale);
+    const firstTileY = Math.floor(minY * scale);
+    const tilesAcross = Math.floor(maxX * scale) - firstTileX + 1;
+    for (let i = 0; i < pointCount; i++) {
+      const tileX = Math.floor(mercatorX[i] * scale);
+      const tileY = Math.floor(mercatorY[i] * scale);
+      const tileIndex = (tileY - firstTileY) * tilesAcross + (tileX - firstTileX);
+      let chunkId = tileIds.get(tileIndex);
+      if (chunkId === undefined) {
+        chunkId = keys.length;
+        tileIds.set(tileIndex, chunkId);
+        keys.push(`${zoom}/${tileX}/${tileY}`);
+      }
+      chunkIds[i] = chunkId;
+      x[i] = (mercatorX[i] * scale - tileX) * tileSize;
+      y[i] = (mercatorY[i] * scale - tileY) * tileSize;
+    }
+
+    return { keys, chunkIds, x, y, chunkWidth: tileSize, chunkHeight: tileSize };
+  }
+
+  /**
+   * Finds the GeoTIFF strips or tiles and their pixels at the positions of points.
+   *
+   * @param positions - XYZ positions as offsets from the coordinate origin
+   * @param coordinateOrigin - Coordinate origin [lng, lat, 0]
+   * @param raster - GeoTIFF and projection to its CRS
+   * @returns Pixel locations
+   */
+  private _locateGeoTiffPixels(
+    positions: Float32Array,
+    coordinateOrigin: [number, number, number],
+    raster: GeoTiffRaster
+  ): PixelLocations {
+    const { reader, project } = raster;
+    const pointCount = Math.floor(positions.length / 3);
+    const keys: string[] = [];
+    const origins: [number, number][] = [];
+    const chunkIdsByIndex = new Map<number, number>();
+    const chunkIds = new Int32Array(pointCount);
+    const x = new Float64Array(pointCount);
+    const y = new Float64Array(pointCount);
+
+    for (let i = 0; i < pointCount; i++) {
+      const lng = coordinateOrigin[0] + positions[i * 3];
+      const lat = coordinateOrigin[1] + positions[i * 3 + 1];
+      const [modelX, modelY] = project ? project(lng, lat) : [lng, lat];
+      const [col, row] = reader.modelToPixel(modelX, modelY);
+      if (!(col >= 0 && row >= 0 && col < reader.width && row < reader.height)) {
+        chunkIds[i] = -1;
+        continue;
+      }
+
+      const chunkIndex = reader.getChunkIndex(col, row);
+      let chunkId = chunkIdsByIndex.get(chunkIndex);
+      if (chunkId === undefined) {
+        chunkId = keys.length;
+        chunkIdsByIndex.set(chunkIndex, chunkId);
+        keys.push(String(chunkIndex));
+        origins.push(reader.getChunkOrigin(chunkIndex));
+      }
+      chunkIds[i] = chunkId;
+      x[i] = col - origins[chunkId][0];
+      y[i] = row - origins[chunkId][1];
+    }
+
+    return { keys, chunkIds, x, y, chunkWidth: reader.chunkWidth, chunkHeight: reader.chunkHeight };
+  }
+
+  /**
+   * Gets a decoded tile or GeoTIFF chunk from the cache, loading it if needed.
+   *
+   * @param key - Tile key ("z/x/y") or GeoTIFF chunk index
+   * @param signal - Optional abort signal for tile requests
+   * @returns Decoded chunk, or null if it has no data
+   */
+  private _getChunk(key: string, signal?: AbortSignal): Promise<RasterChunk | null> {
+    let chunk = this._chunks.get(key);
+    if (chunk) {
+      // Reinserted to keep the most recently used chunks
+      this._chunks.delete(key);
+    } else {
+      const loading = this._loadChunk(key, signal);
+      // Aborted loads are not cached
+      loading.catch(() => {
+        if (this._chunks.get(key) === loading) this._chunks.delete(key);
+      });
+      chunk = loading;
+    }
+    this._chunks.set(key, chunk);
+    if (this._chunks.size > MAX_CACHED_CHUNKS) {
+      this._chunks.delete(this._chunks.keys().next().value as string);
+    }
+    return chunk;
+  }
+
+  /**
+   * Loads and decodes a tile or GeoTIFF chunk. Failures other than aborts are
+   * logged and the points on the chunk get the no data color.
+   *
+   * @param key - Tile key ("z/x/y") or GeoTIFF chunk index
+   * @param signal - Optional abort signal for tile requests
+   * @returns Decoded chunk, or null if it has no data
+   */
+  private async _loadChunk(key: string, signal?: AbortSignal): Promise<RasterChunk | null> {
+    try {
+      if (this._source.type === 'geotiff') {
+        const { reader } = await this._getGeoTiff(this._source);
+        return await reader.readChunk(Number(key));
+      }
+
+      const [z, x, y] = key.split('/').map(Number);
+      const response = await fetchWithTransform(
+        this._getTileUrl(this._source, z, x, y),
+        'raster',
+        { signal },
+        this._transformRequest
+      );
+      // Tiles outside the coverage of the source are often missing
+      if (response.status === 404 || response.status === 204) return null;
+      if (!response.ok) {
+        throw new Error(`Failed to fetch raster tile: ${response.status}`);
+      }
+      return await decodeImage(await response.blob());
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      console.warn(`Failed to load raster ${this._source.type === 'tiles' ? 'tile' : 'chunk'} ${key}:`, err);
+      return null;
+    }
+  }
+
+  /**
+   * Gets the URL of a tile from the URL templates of the source.
+   *
+   * @param source - Tile source
+   * @param z - Zoom level
+   * @param x - Tile column
+   * @param y - Tile row (from the north)
+   * @returns Tile URL
+   */
+  private _getTileUrl(source: RasterTileColorSource, z: number, x: number, y: number): string {
+    const template = source.tiles[(x + y) % source.tiles.length];
+    const row = source.scheme === 'tms' ? 2 ** z - 1 - y : y;
+
+    let quadkey = '';
+    for (let level = z; level > 0; level--) {
+      const mask = 1 << (level - 1);
+      quadkey += ((x & mask ? 1 : 0) + (y & mask ? 2 : 0)).toString();
+    }
+
+    // Tile bounds in Web Mercator meters
+    const size = (2 * 20037508.342789244) / 2 ** z;
+    const west = -20037508.342789244 + x * size;
+    const north = 20037508.342789244 - y * size;
+    const bbox = [west, north - size, west + size, north].join(',');
+
+    return template
+      .replace(/\{z\}/g, String(z))
+      .replace(/\{x\}/g, String(x))
+      .replace(/\{y\}/g, String(row))
+      .replace(/\{quadkey\}/g, quadkey)
+      .replace(/\{bbox-epsg-3857\}/g, bbox);
+  }
+
+  /**
+   * Gets the GeoTIFF of the source, loading and parsing it once.
+   *
+   * @param source - GeoTIFF source
+   * @returns GeoTIFF and projection to its CRS
+   */
+  private _getGeoTiff(source: GeoTiffColorSource): Promise<GeoTiffRaster> {
+    if (!this._geoTiff) {
+      const loading = this._loadGeoTiff(source);
+      // Failed loads are tried again on the next use
+      loading.catch(() => {
+        if (this._geoTiff === loading) this._geoTiff = null;
+      });
+      this._geoTiff = loading;
+    }
+    return this._geoTiff;
+  }
+
+  /**
+   * Loads and parses a GeoTIFF.
+   *
+   * @param source - GeoTIFF source
+   * @returns GeoTIFF and projection to its CRS
+   */
+  private async _loadGeoTiff(source: GeoTiffColorSource): Promise<GeoTiffRaster> {
+    let buffer: ArrayBuffer;
+    if (typeof source.data === 'string') {
+      const response = await fetchWithTransform(source.data, 'raster', {}, this._transformRequest);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch GeoTIFF: ${response.status}`);
+      }
+      buffer = await response.arrayBuffer();
+    } else if (source.data instanceof ArrayBuffer) {
+      buffer = source.data;
+    } else {
+      buffer = await source.data.arrayBuffer();
+    }
+
+    const reader = new GeoTiffReader(buffer);
+    const crs = source.crs ?? (reader.epsg !== null ? `EPSG:${reader.epsg}` : null);
+    if (!crs) {
+      throw new Error('GeoTIFF has no EPSG code: set the crs option of the source');
+    }
+    return { reader, project: createProjection(crs) };
+  }
+}
+
+/**
+ * Creates the projection from WGS84 to a CRS.
+ *
+ * @param crs - proj4 definition, WKT or EPSG code
+ * @returns Projection function, or null for WGS84
+ */
+function createProjection(crs: string): ((lng: number, lat: number) => [number, number]) | null {
+  const epsgMatch = /^EPSG:(\d+)$/i.exec(crs.trim());
+  const code = epsgMatch ? Number(epsgMatch[1]) : null;
+  if (code === 4326) return null;
+
+  let definition = crs;
+  if (code !== null) {
+    const zone = code % 100;
+    // UTM zones, which proj4 does not define by default
+    if (code >= 32601 && code <= 32660) {
+      definition = `+proj=utm +zone=${zone} +datum=WGS84 +units=m +no_defs`;
+    } else if (code >= 32701 && code <= 32760) {
+      definition = `+proj=utm +zone=${zone} +south +datum=WGS84 +units=m +no_defs`;
+    } else if (code >= 26901 && code <= 26923) {
+      definition = `+proj=utm +zone=${zone} +datum=NAD83 +units=m +no_defs`;
+    } else if (code >= 25828 && code <= 25838) {
+      definition = `+proj=utm +zone=${zone} +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs`;
+    } else if (!proj4.defs(`EPSG:${code}`)) {
+      throw new Error(`Unknown GeoTIFF CRS EPSG:${code}: set the crs option of the source`);
+    } else {
+      definition = `EPSG:${code}`;
+    }
+  }
+
+  const converter = proj4('EPSG:4326', definition);
+  return (lng, lat) => converter.forward([lng, lat]) as [number, number];
+}
+
+/**
+ * Decodes an image to RGBA pixels.
+ *
+ * @param blob - Encoded image (PNG, JPEG, WebP)
+ * @returns Decoded image
+ */
+async function decodeImage(blob: Blob): Promise<RasterChunk> {
+  const bitmap = await createImageBitmap(blob);
+  const { width, height } = bitmap;
+  const canvas = typeof OffscreenCanvas !== 'undefined'
+    ? new OffscreenCanvas(width, height)
+    : Object.assign(document.createElement('canvas'), { width, height });
+  const context = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!context) {
+    bitmap.close();
+    throw new Error('Canvas 2D context is not available');
+  }
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return { width, height, data: context.getImageData(0, 0, width, height).data };
+}
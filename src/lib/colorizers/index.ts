@@ -3,6 +3,26 @@ export {
   getClassificationName,
   getAvailableClassifications,
   CLASSIFICATION_COLORS,
+  parseHexColor,
+  getNormalAngles,
+  NORMAL_COLOR_SCHEMES,
+  ATTRIBUTE_COLOR_SCHEMES,
+  INTENSITY_BLEND_COLOR_SCHEMES,
+  DEFAULT_INTENSITY_BLEND,
+  getAvailableAttributeColorSchemes,
+  getColorSchemeConfig,
 } from './ColorScheme';
-export type { ColorOptions } from './ColorScheme';
-export type { RGBColor, RGBAColor, ColorRamp, ClassificationColorMap } from './types';
+export { RasterColorizer } from './RasterColorizer';
+export { GeoTiffReader } from './GeoTiffReader';
+export type { ColorOptions, ColorResult } from './ColorScheme';
+export type { RasterColorizerOptions } from './RasterColorizer';
+export type { RasterChunk } from './GeoTiffReader';
+export type {
+  RGBColor,
+  RGBAColor,
+  ColorRamp,
+  ClassificationColorMap,
+  RasterTileColorSource,
+  GeoTiffColorSource,
+  RasterColorSource,
+} from './types';
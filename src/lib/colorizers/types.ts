@@ -17,3 +17,57 @@ export type ColorRamp = RGBColor[];
  * Classification color map
  */
 export type ClassificationColorMap = Record<number, RGBColor>;
+
+/**
+ * Raster tile source (XYZ or TMS) sampled to colorize points, like a MapLibre raster source
+ */
+export interface RasterTileColorSource {
+  type: 'tiles';
+  /** Tile URL templates with {z}, {x} and {y} (or {quadkey} or {bbox-epsg-3857}) placeholders */
+  tiles: string[];
+  /**
+   * Tile size in pixels
+   * @default 256
+   */
+  tileSize?: number;
+  /**
+   * Tile row numbering: 'xyz' from the north, 'tms' from the south
+   * @default 'xyz'
+   */
+  scheme?: 'xyz' | 'tms';
+  /**
+   * Minimum zoom level of the tiles
+   * @default 0
+   */
+  minzoom?: number;
+  /**
+   * Maximum zoom level of the tiles
+   * @default 19
+   */
+  maxzoom?: number;
+  /**
+   * Zoom level of the sampled tiles. By default the highest zoom level at which the
+   * points are covered by at most 64 tiles, so coarse streamed nodes use coarser tiles
+   */
+  zoom?: number;
+}
+
+/**
+ * GeoTIFF sampled to colorize points (8-bit gray, RGB, RGBA or palette images;
+ * uncompressed, LZW or Deflate; stripped or tiled)
+ */
+export interface GeoTiffColorSource {
+  type: 'geotiff';
+  /** URL, file or contents of the GeoTIFF */
+  data: string | Blob | ArrayBuffer;
+  /**
+   * CRS of the image as a proj4 definition, WKT or EPSG code (e.g., 'EPSG:25832').
+   * By default read from the GeoTIFF keys
+   */
+  crs?: string;
+}
+
+/**
+ * Raster sampled at the position of each point to colorize point clouds
+ */
+export type RasterColorSource = RasterTileColorSource | GeoTiffColorSource;
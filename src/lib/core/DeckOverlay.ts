@@ -1,6 +1,6 @@
 import { MapboxOverlay } from '@deck.gl/mapbox';
 import type { Map as MapLibreMap } from 'maplibre-gl';
-import type { Layer } from '@deck.gl/core';
+import type { Effect, Layer, PickingInfo } from '@deck.gl/core';
 
 /**
  * Manages the deck.gl overlay integration with MapLibre GL.
@@ -75,6 +75,29 @@ export class DeckOverlay {
     return this._layers.has(id);
   }
 
+  /**
+   * Sets the post-processing effects applied to the overlay.
+   *
+   * @param effects - deck.gl effects
+   */
+  setEffects(effects: Effect[]): void {
+    this._overlay.setProps({ effects });
+    this._map.triggerRepaint();
+  }
+
+  /**
+   * Picks the topmost object of the given layers at a screen position.
+   *
+   * @param x - X position in pixels
+   * @param y - Y position in pixels
+   * @param layerIds - IDs of the layers to pick from
+   * @param radius - Picking radius in pixels
+   * @returns Picking info, or null if no object is at the position
+   */
+  pickObject(x: number, y: number, layerIds: string[], radius: number = 0): PickingInfo | null {
+    return this._overlay.pickObject({ x, y, layerIds, radius });
+  }
+
   /**
    * Clears all layers from the overlay.
    */
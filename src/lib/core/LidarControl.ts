@@ -13,27 +13,74 @@ import type {
   PointCloudFullMetadata,
   ElevationProfile,
   CrossSectionLine,
+  PointCloudExportOptions,
+  PointCloudStyle,
+  AttributeRange,
+  ClipRegion,
+  ClipRegionOptions,
+  ClipMode,
+  ClipShape,
+  ClipBox,
+  PointSizeMode,
 } from './types';
 import type { PickedPointInfo } from '../layers/types';
-import type { StreamingLoaderOptions, ViewportInfo, StreamingProgressEvent } from '../loaders/streaming-types';
+import type { PointCloudData, PointCloudLoadOptions } from '../loaders/types';
+import type { StreamingLoaderOptions, ViewportInfo, StreamingProgressEvent, FailedNodeInfo } from '../loaders/streaming-types';
+import type { Tiles3DStreamingLoaderOptions } from '../loaders/tiles3d-types';
+import type { PotreeStreamingLoaderOptions } from '../loaders/potree-types';
+import type { NormalEstimationTask } from '../workers/types';
+import type { RasterColorSource, RasterTileColorSource } from '../colorizers/types';
 import { DeckOverlay } from './DeckOverlay';
 import { PointCloudLoader } from '../loaders/PointCloudLoader';
 import { CopcStreamingLoader } from '../loaders/CopcStreamingLoader';
 import { EptStreamingLoader } from '../loaders/EptStreamingLoader';
+import { Tiles3DStreamingLoader } from '../loaders/Tiles3DStreamingLoader';
+import { PotreeStreamingLoader } from '../loaders/PotreeStreamingLoader';
 import { PointCloudManager } from '../layers/PointCloudManager';
+import { EyeDomeLightingEffect, DEFAULT_EDL_OPTIONS } from '../layers/EyeDomeLightingEffect';
+import { WorkerPool } from '../workers/WorkerPool';
+import { estimateNormals } from '../workers/NormalEstimator';
 import { ViewportManager } from './ViewportManager';
 import { PanelBuilder } from '../gui/PanelBuilder';
 import { MetadataPanel } from '../gui/MetadataPanel';
 import { CrossSectionPanel } from '../gui/CrossSectionPanel';
 import { CrossSectionTool } from '../tools/CrossSectionTool';
+import { ClipTool } from '../tools/ClipTool';
+import { ClipBoxTool } from '../tools/ClipBoxTool';
+import { ClipPanel } from '../gui/ClipPanel';
 import { ElevationProfileExtractor } from '../tools/ElevationProfileExtractor';
-import { generateId, getFilename, computePercentileBounds } from '../utils/helpers';
-import { getAvailableClassifications } from '../colorizers/ColorScheme';
+import { LasWriter, WGS84_WKT } from '../exporters/LasWriter';
+import {
+  generateId,
+  getFilename,
+  computePercentileBounds,
+  throwIfAborted,
+  isAbortError,
+  formatGpsTime,
+} from '../utils/helpers';
+import {
+  subsetPointCloudData,
+  getAttributeNames,
+  getAttributeValues,
+  createAttributeFilterTest,
+} from '../utils/pointcloud';
+import {
+  parseFilterExpression,
+  getExpressionAttributes,
+  compileFilterExpression,
+  EXPRESSION_POINT_ATTRIBUTES,
+} from '../utils/expression';
+import { createClipTest, createClipBoxTest, clipRegionsToGeoJSON, lngLatToClipBoxLocal } from '../utils/clip';
+import { fetchWithTransform } from '../utils/request';
+import { PersistentNodeCache } from '../cache/PersistentNodeCache';
+import type { CacheUsage } from '../cache/types';
+import { getAvailableClassifications, NORMAL_COLOR_SCHEMES, DEFAULT_INTENSITY_BLEND } from '../colorizers/ColorScheme';
+import { RasterColorizer } from '../colorizers/RasterColorizer';
 
 /**
  * Default options for the LidarControl
  */
-const DEFAULT_OPTIONS: Required<Omit<LidarControlOptions, 'pickInfoFields' | 'copcLoadingMode'>> & Pick<LidarControlOptions, 'pickInfoFields' | 'copcLoadingMode'> = {
+const DEFAULT_OPTIONS: Required<Omit<LidarControlOptions, 'pickInfoFields' | 'copcLoadingMode' | 'workerUrl' | 'transformRequest'>> & Pick<LidarControlOptions, 'pickInfoFields' | 'copcLoadingMode' | 'workerUrl' | 'transformRequest'> = {
   collapsed: true,
   position: 'top-right',
   title: 'LiDAR Viewer',
@@ -41,28 +88,61 @@ const DEFAULT_OPTIONS: Required<Omit<LidarControlOptions, 'pickInfoFields' | 'co
   panelMaxHeight: 600,
   className: '',
   pointSize: 2,
+  pointSizeMode: 'pixels',
+  pointSizeMinPixels: 1,
+  pointSizeMaxPixels: 16,
   opacity: 1.0,
   colorScheme: 'elevation',
   usePercentile: true,
   colormap: 'viridis',
   colorRange: { mode: 'percentile', percentileLow: 2, percentileHigh: 98 },
+  intensityBlend: DEFAULT_INTENSITY_BLEND,
   showColorbar: true,
   pointBudget: 1000000,
   elevationRange: null,
+  attributeFilters: {},
+  filterExpression: null,
   pickable: false,
   autoZoom: true,
   pickInfoFields: undefined, // Show all fields by default
   zOffsetEnabled: false,
   zOffset: 0,
+  normalShading: false,
+  normalNeighborCount: 16,
+  edlEnabled: false,
+  edlStrength: DEFAULT_EDL_OPTIONS.strength,
+  edlRadius: DEFAULT_EDL_OPTIONS.radius,
   autoZOffset: true, // Automatically calculate Z offset from 2nd percentile
   copcLoadingMode: undefined, // Auto-detect: 'dynamic' for COPC URLs, 'full' otherwise
   streamingPointBudget: 5_000_000,
   streamingMaxConcurrentRequests: 4,
   streamingViewportDebounceMs: 150,
+  streamingMaxRetries: 3,
+  streamingRetryDelayMs: 1000,
+  streamingRetryFailedOnView: false,
+  streamingScreenSpaceError: 2,
   terrainEnabled: false,
   terrainExaggeration: 1.0,
+  workerUrl: undefined, // Decode on the main thread by default
+  workerCount: 0,
+  transformRequest: undefined,
+  persistentCache: false,
+  persistentCacheMaxSize: 500 * 1024 * 1024,
 };
 
+// Seconds the GPS time window takes to cross the GPS times of the loaded point clouds at speed 1
+const GPS_TIME_SWEEP_SECONDS = 30;
+
+// Fraction of the GPS times of the loaded point clouds covered by the window when playing without one
+const GPS_TIME_DEFAULT_WINDOW = 0.1;
+
+// Milliseconds to wait before estimating the normals of a point cloud again when its points
+// changed during an estimation, so streamed nodes arriving meanwhile are estimated together
+const NORMAL_ESTIMATION_INTERVAL_MS = 1000;
+
+// Milliseconds between 'stylechange' and 'statechange' events while the GPS time window is playing
+const GPS_TIME_STATE_INTERVAL_MS = 250;
+
 /**
  * Event handlers map type
  */
@@ -90,7 +170,7 @@ export class LidarControl implements IControl {
   private _mapContainer?: HTMLElement;
   private _container?: HTMLElement;
   private _panel?: HTMLElement;
-  private _options: Required<Omit<LidarControlOptions, 'pickInfoFields' | 'copcLoadingMode'>> & Pick<LidarControlOptions, 'pickInfoFields' | 'copcLoadingMode'>;
+  private _options: Required<Omit<LidarControlOptions, 'pickInfoFields' | 'copcLoadingMode' | 'workerUrl' | 'transformRequest'>> & Pick<LidarControlOptions, 'pickInfoFields' | 'copcLoadingMode' | 'workerUrl' | 'transformRequest'>;
   private _state: LidarState;
   private _eventHandlers: EventHandlersMap = new globalThis.Map();
 
@@ -112,6 +192,31 @@ export class LidarControl implements IControl {
   private _viewportManagers: Map<string, ViewportManager> = new Map();
   private _eptViewportRequestIds: Map<string, number> = new Map();
   private _eptLastViewport: Map<string, ViewportInfo> = new Map();
+  private _tilesStreamingLoaders: Map<string, Tiles3DStreamingLoader> = new Map();
+  private _tilesViewportRequestIds: Map<string, number> = new Map();
+  private _tilesLastViewport: Map<string, ViewportInfo> = new Map();
+  private _potreeStreamingLoaders: Map<string, PotreeStreamingLoader> = new Map();
+  private _potreeViewportRequestIds: Map<string, number> = new Map();
+  private _potreeLastViewport: Map<string, ViewportInfo> = new Map();
+  private _failedNodesTimeouts: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+  // IndexedDB cache of streamed COPC/EPT nodes, created on first use
+  private _persistentCache: PersistentNodeCache | null = null;
+
+  // Abort controllers of loads in progress (aborted by cancelLoad or the caller's signal)
+  private _loadControllers: Set<AbortController> = new Set();
+
+  // Workers estimating point normals, created on first use when a worker URL is set
+  private _normalWorkerPool: WorkerPool | null = null;
+  // Normal estimations in progress, by point cloud ID, with the data they estimate
+  private _normalEstimations: Map<string, { data: PointCloudData; promise: Promise<void> }> = new Map();
+
+  // GPS time animation: animation frame, time of the last frame and of the last state events,
+  // and GPS times it moves the window across
+  private _gpsTimeFrame: number | null = null;
+  private _gpsTimeFrameTime: number | null = null;
+  private _gpsTimeStateTime: number | null = null;
+  private _gpsTimeRange: AttributeRange | null = null;
 
   // Metadata and cross-section components
   private _metadataPanel?: MetadataPanel;
@@ -119,6 +224,10 @@ export class LidarControl implements IControl {
   private _crossSectionTool?: CrossSectionTool;
   private _crossSectionPanel?: CrossSectionPanel;
   private _currentProfile: ElevationProfile | null = null;
+  private _clipTool?: ClipTool;
+  private _clipPanel?: ClipPanel;
+  private _clipDrawOptions: ClipRegionOptions = {};
+  private _clipBoxTool?: ClipBoxTool;
 
   /**
    * Creates a new LidarControl instance.
@@ -139,11 +248,17 @@ export class LidarControl implements IControl {
       panelMaxHeight: this._options.panelMaxHeight,
       pointClouds: [],
       activePointCloudId: null,
+      pointCloudStyles: {},
+      styleTargetId: null,
       pointSize: this._options.pointSize,
+      pointSizeMode: this._options.pointSizeMode,
+      pointSizeMinPixels: this._options.pointSizeMinPixels,
+      pointSizeMaxPixels: this._options.pointSizeMaxPixels,
       opacity: this._options.opacity,
       colorScheme: this._options.colorScheme,
       colormap: this._options.colormap ?? 'viridis',
       colorRange: defaultColorRange,
+      intensityBlend: this._options.intensityBlend,
       showColorbar: this._options.showColorbar ?? true,
       usePercentile: this._options.usePercentile,
       elevationRange: this._options.elevationRange,
@@ -154,11 +269,28 @@ export class LidarControl implements IControl {
       pickInfoFields: this._options.pickInfoFields,
       zOffsetEnabled: this._options.zOffsetEnabled ?? false,
       zOffset: this._options.zOffset ?? 0,
+      normalShading: this._options.normalShading ?? false,
+      edlEnabled: this._options.edlEnabled ?? false,
+      edlStrength: this._options.edlStrength ?? DEFAULT_EDL_OPTIONS.strength,
+      edlRadius: this._options.edlRadius ?? DEFAULT_EDL_OPTIONS.radius,
       hiddenClassifications: new Set(),
       availableClassifications: new Set(),
+      attributeFilters: this._options.attributeFilters,
+      availableAttributes: [],
+      filterExpression: this._options.filterExpression,
+      filterExpressionError: null,
+      gpsTimeWindow: null,
+      gpsTimePlaying: false,
+      gpsTimeSpeed: 1,
+      clipRegions: [],
+      clipBox: null,
       terrainEnabled: this._options.terrainEnabled ?? false,
     };
-    this._loader = new PointCloudLoader();
+    this._loader = new PointCloudLoader({
+      workerUrl: this._options.workerUrl,
+      workerCount: this._options.workerCount,
+      transformRequest: this._options.transformRequest,
+    });
   }
 
   /**
@@ -178,14 +310,27 @@ export class LidarControl implements IControl {
     // Initialize point cloud manager
     this._pointCloudManager = new PointCloudManager(this._deckOverlay, {
       pointSize: this._state.pointSize,
+      pointSizeMode: this._state.pointSizeMode,
+      pointSizeMinPixels: this._state.pointSizeMinPixels,
+      pointSizeMaxPixels: this._state.pointSizeMaxPixels,
       opacity: this._state.opacity,
       colorScheme: this._state.colorScheme,
       usePercentile: this._state.usePercentile,
+      intensityBlend: this._state.intensityBlend,
       elevationRange: this._state.elevationRange,
+      attributeFilters: this._state.attributeFilters,
+      gpsTimeWindow: this._state.gpsTimeWindow,
+      filterExpression: this._state.filterExpression,
+      clipRegions: this._state.clipRegions,
+      clipBox: this._state.clipBox,
+      normalShading: this._state.normalShading,
       pickable: this._state.pickable,
       zOffset: this._state.zOffset,
       onHover: (info) => this._handlePointHover(info),
     });
+    if (this._state.edlEnabled) {
+      this._updateEdlEffect();
+    }
 
     // Create tooltip element
     this._tooltip = this._createTooltip();
@@ -223,8 +368,21 @@ export class LidarControl implements IControl {
    * Implements the IControl interface.
    */
   onRemove(): void {
-    // Stop streaming if active
+    // Cancel loads in progress and stop streaming if active
+    this.cancelLoad();
     this.stopStreaming();
+    this._loader.destroy();
+    this._persistentCache?.close();
+    this._normalWorkerPool?.destroy();
+    this._normalWorkerPool = null;
+    this._normalEstimations.clear();
+    this.pauseGpsTime();
+
+    // Stop drawing clip regions and editing the clip box
+    this._clipTool?.destroy();
+    this._clipTool = undefined;
+    this._clipBoxTool?.destroy();
+    this._clipBoxTool = undefined;
 
     // Clean up deck.gl overlay
     this._deckOverlay?.destroy();
@@ -378,14 +536,18 @@ export class LidarControl implements IControl {
    * Loads a point cloud from a URL, File, or ArrayBuffer.
    * For COPC files loaded from URL, defaults to dynamic streaming mode.
    * Non-COPC files or local files use full download mode.
+   * PLY and delimited text files (XYZ, CSV, PTS) are detected by extension or content;
+   * use the format, columns and crs options to override detection and map columns.
+   * Aborting options.signal (or calling cancelLoad) cancels the load, emits 'loadcancel'
+   * and rejects with an AbortError.
    *
    * @param source - URL string, File object, or ArrayBuffer
-   * @param options - Optional loading options including loadingMode override
+   * @param options - Optional loading options including loadingMode override, format, column mapping, CRS hint and abort signal
    * @returns Promise resolving to the point cloud info
    */
   async loadPointCloud(
     source: string | File | ArrayBuffer,
-    options?: { loadingMode?: CopcLoadingMode }
+    options?: { loadingMode?: CopcLoadingMode } & PointCloudLoadOptions
   ): Promise<PointCloudInfo> {
     // Check if this is an EPT dataset (URL ending with ept.json)
     const isEptUrl =
@@ -394,7 +556,26 @@ export class LidarControl implements IControl {
 
     // Route EPT URLs to EPT streaming loader
     if (isEptUrl) {
-      return this.loadPointCloudEptStreaming(source as string);
+      return this.loadPointCloudEptStreaming(source as string, { signal: options?.signal });
+    }
+
+    // Route 3D Tiles tilesets (URL ending with tileset.json) to the 3D Tiles streaming loader
+    const isTilesetUrl =
+      typeof source === 'string' && /\/tileset\.json(\?|$)/i.test(source);
+
+    if (isTilesetUrl) {
+      return this.loadPointCloud3DTilesStreaming(source as string, { signal: options?.signal });
+    }
+
+    // Route Potree octrees (URL ending with metadata.json or cloud.js) to the Potree streaming loader
+    const isPotreeUrl =
+      typeof source === 'string' && /\/(metadata\.json|cloud\.js)(\?|$)/i.test(source);
+
+    if (isPotreeUrl) {
+      return this.loadPointCloudPotreeStreaming(source as string, {
+        projection: options?.crs,
+        signal: options?.signal,
+      });
     }
 
     // Check if this is a COPC file
@@ -420,7 +601,7 @@ export class LidarControl implements IControl {
 
     // Use streaming mode for COPC sources with dynamic mode
     if (mode === 'dynamic' && isCopc) {
-      return this.loadPointCloudStreaming(source);
+      return this.loadPointCloudStreaming(source, { signal: options?.signal });
     }
 
     const id = generateId('pc');
@@ -439,6 +620,8 @@ export class LidarControl implements IControl {
     this.setState({ loading: true, error: null });
     this._emit('loadstart');
 
+    const controller = this._createLoadController(options?.signal);
+
     // Progress callback to update the UI
     const onProgress = (progress: number, message: string) => {
       this._panelBuilder?.updateLoadingProgress(progress, message);
@@ -446,13 +629,22 @@ export class LidarControl implements IControl {
 
     try {
       // Load the point cloud with progress reporting
-      const data = await this._loader.load(source, onProgress);
+      const data = await this._loader.load(source, onProgress, {
+        format: options?.format,
+        columns: options?.columns,
+        crs: options?.crs,
+        delimiter: options?.delimiter,
+        signal: controller.signal,
+      });
+      throwIfAborted(controller.signal);
+      this._loadControllers.delete(controller);
 
       // Report final progress
       onProgress(95, 'Creating visualization layers...');
 
       // Add to manager
       this._pointCloudManager?.addPointCloud(id, data);
+      this._ensureNormals(id);
 
       // Auto Z offset: calculate and apply based on 2nd percentile of elevation
       let zOffsetBase: number | undefined;
@@ -505,6 +697,7 @@ export class LidarControl implements IControl {
         pointClouds,
         activePointCloudId: id,
         availableClassifications: mergedClassifications,
+        availableAttributes: this._mergeAttributeNames(data),
         zOffsetBase,
         zOffset: zOffset ?? this._state.zOffset,
         zOffsetEnabled,
@@ -524,6 +717,11 @@ export class LidarControl implements IControl {
 
       return info;
     } catch (err) {
+      this._loadControllers.delete(controller);
+      if (controller.signal.aborted) {
+        throw this._handleLoadCancelled();
+      }
+
       const error = err instanceof Error ? err : new Error(String(err));
 
       // Check if this is a CORS error and source is a URL - fallback to download
@@ -544,7 +742,7 @@ export class LidarControl implements IControl {
         this._panelBuilder?.updateLoadingProgress(5, 'CORS blocked - downloading file...');
 
         // Fallback to full download
-        return this._loadPointCloudFullDownload(source);
+        return this._loadPointCloudFullDownload(source, options?.signal);
       }
 
       this.setState({
@@ -563,8 +761,8 @@ export class LidarControl implements IControl {
    */
   unloadPointCloud(id?: string): void {
     if (id) {
-      // Check if this is a streaming point cloud (COPC or EPT)
-      if (this._streamingLoaders.has(id) || this._eptStreamingLoaders.has(id)) {
+      // Check if this is a streaming point cloud (COPC, EPT, 3D Tiles or Potree)
+      if (this.isStreaming(id)) {
         this.stopStreaming(id);
         return;
       }
@@ -580,8 +778,10 @@ export class LidarControl implements IControl {
           this._state.activePointCloudId === id
             ? pointClouds[0]?.id || null
             : this._state.activePointCloudId,
+        ...this._removePointCloudStyles([id]),
         availableClassifications: new Set(),
         hiddenClassifications: new Set(),
+        availableAttributes: [],
       };
 
       this.setState(stateUpdate);
@@ -595,8 +795,11 @@ export class LidarControl implements IControl {
       this.setState({
         pointClouds: [],
         activePointCloudId: null,
+        pointCloudStyles: {},
+        styleTargetId: null,
         availableClassifications: new Set(),
         hiddenClassifications: new Set(),
+        availableAttributes: [],
       });
       // Emit unload event for each removed point cloud
       for (const removedId of allIds) {
@@ -605,18 +808,32 @@ export class LidarControl implements IControl {
     }
   }
 
+  /**
+   * Cancels all point cloud loads in progress.
+   * Pending requests are aborted, decoding stops at the next chunk and partially
+   * loaded buffers are released. Each cancelled load emits a 'loadcancel' event
+   * and rejects with an AbortError.
+   */
+  cancelLoad(): void {
+    for (const controller of this._loadControllers) {
+      controller.abort();
+    }
+  }
+
   /**
    * Loads a point cloud using streaming (on-demand) loading.
    * Ideal for large COPC files - supports both URLs and local files.
    * Points are loaded dynamically based on viewport and zoom level.
+   * Aborting options.signal (or calling cancelLoad) before the initial info resolves
+   * cancels the load and emits 'loadcancel'.
    *
    * @param source - URL string, File object, or ArrayBuffer
-   * @param options - Optional streaming options
+   * @param options - Optional streaming options and abort signal
    * @returns Promise resolving to initial point cloud info
    */
   async loadPointCloudStreaming(
     source: string | File | ArrayBuffer,
-    options?: StreamingLoaderOptions
+    options?: StreamingLoaderOptions & { signal?: AbortSignal }
   ): Promise<PointCloudInfo> {
     const id = generateId('pc-stream');
 
@@ -634,6 +851,8 @@ export class LidarControl implements IControl {
     this._emit('loadstart');
     this._emit('streamingstart');
 
+    const controller = this._createLoadController(options?.signal);
+
     try {
       // Create streaming loader with options
       const streamingLoader = new CopcStreamingLoader(source, {
@@ -644,12 +863,26 @@ export class LidarControl implements IControl {
           options?.viewportDebounceMs ?? this._options.streamingViewportDebounceMs,
         minDetailZoom: options?.minDetailZoom ?? 10,
         maxOctreeDepth: options?.maxOctreeDepth ?? 20,
+        workerUrl: options?.workerUrl ?? this._options.workerUrl,
+        workerCount: options?.workerCount ?? this._options.workerCount,
+        transformRequest: options?.transformRequest ?? this._options.transformRequest,
+        maxRetries: options?.maxRetries ?? this._options.streamingMaxRetries,
+        retryDelayMs: options?.retryDelayMs ?? this._options.streamingRetryDelayMs,
+        retryFailedOnView: options?.retryFailedOnView ?? this._options.streamingRetryFailedOnView,
+        persistentCache: options?.persistentCache ?? this._getPersistentCache(),
+        screenSpaceErrorThreshold:
+          options?.screenSpaceErrorThreshold ?? this._options.streamingScreenSpaceError,
       });
 
+      // Destroying the loader aborts its range requests and releases its buffers
+      controller.signal.addEventListener('abort', () => streamingLoader.destroy());
+
       // Initialize - reads header and root hierarchy
       this._panelBuilder?.updateLoadingProgress(10, 'Initializing COPC file...');
       const { bounds, totalPoints, hasRGB, spacing } =
         await streamingLoader.initialize();
+      throwIfAborted(controller.signal);
+      this._loadControllers.delete(controller);
 
       this._panelBuilder?.updateLoadingProgress(20, 'Setting up streaming...');
 
@@ -659,6 +892,7 @@ export class LidarControl implements IControl {
       // Setup callback for when points are loaded
       streamingLoader.setOnPointsLoaded((data) => {
         this._pointCloudManager?.updatePointCloud(id, data);
+        this._ensureNormals(id);
 
         // Auto Z offset: use bounds.minZ from the COPC header (reliable source)
         if (this._options.autoZOffset && !autoZOffsetApplied && data.bounds) {
@@ -690,6 +924,12 @@ export class LidarControl implements IControl {
             this.setState({ availableClassifications: mergedClassifications });
           }
         }
+
+        // Merge the attribute names of streamed data
+        const availableAttributes = this._mergeAttributeNames(data);
+        if (availableAttributes.length > this._state.availableAttributes.length) {
+          this.setState({ availableAttributes });
+        }
       });
 
       // Setup event handlers
@@ -720,6 +960,10 @@ export class LidarControl implements IControl {
         this._emit('budgetreached');
       });
 
+      streamingLoader.on('nodefailed', () => {
+        this._scheduleFailedNodesEvent(id, streamingLoader);
+      });
+
       // Store the streaming loader
       this._streamingLoaders.set(id, streamingLoader);
 
@@ -797,6 +1041,11 @@ export class LidarControl implements IControl {
 
       return info;
     } catch (err) {
+      this._loadControllers.delete(controller);
+      if (controller.signal.aborted) {
+        throw this._handleLoadCancelled();
+      }
+
       const error = err instanceof Error ? err : new Error(String(err));
 
       // Check if this is a CORS error - fallback to downloading the file (only for URL sources)
@@ -835,7 +1084,7 @@ export class LidarControl implements IControl {
         this._panelBuilder?.updateLoadingProgress(5, 'CORS blocked - downloading file...');
 
         // Fallback to full download
-        return this._loadPointCloudFullDownload(source);
+        return this._loadPointCloudFullDownload(source, options?.signal);
       }
 
       this.setState({
@@ -853,12 +1102,12 @@ export class LidarControl implements IControl {
    * Points are loaded dynamically based on viewport and zoom level.
    *
    * @param eptUrl - URL to ept.json file
-   * @param options - Optional streaming options
+   * @param options - Optional streaming options and abort signal
    * @returns Promise resolving to initial point cloud info
    */
   async loadPointCloudEptStreaming(
     eptUrl: string,
-    options?: StreamingLoaderOptions
+    options?: StreamingLoaderOptions & { signal?: AbortSignal }
   ): Promise<PointCloudInfo> {
     const id = generateId('ept-stream');
     const name = getFilename(eptUrl.replace('/ept.json', ''));
@@ -867,6 +1116,8 @@ export class LidarControl implements IControl {
     this._emit('loadstart');
     this._emit('streamingstart');
 
+    const controller = this._createLoadController(options?.signal);
+
     try {
       // Create EPT streaming loader
       const eptLoader = new EptStreamingLoader(eptUrl, {
@@ -877,11 +1128,25 @@ export class LidarControl implements IControl {
           options?.viewportDebounceMs ?? this._options.streamingViewportDebounceMs,
         minDetailZoom: options?.minDetailZoom ?? 10,
         maxOctreeDepth: options?.maxOctreeDepth ?? 20,
+        workerUrl: options?.workerUrl ?? this._options.workerUrl,
+        workerCount: options?.workerCount ?? this._options.workerCount,
+        transformRequest: options?.transformRequest ?? this._options.transformRequest,
+        maxRetries: options?.maxRetries ?? this._options.streamingMaxRetries,
+        retryDelayMs: options?.retryDelayMs ?? this._options.streamingRetryDelayMs,
+        retryFailedOnView: options?.retryFailedOnView ?? this._options.streamingRetryFailedOnView,
+        persistentCache: options?.persistentCache ?? this._getPersistentCache(),
+        screenSpaceErrorThreshold:
+          options?.screenSpaceErrorThreshold ?? this._options.streamingScreenSpaceError,
       });
 
+      // Destroying the loader aborts its requests and releases its buffers
+      controller.signal.addEventListener('abort', () => eptLoader.destroy());
+
       // Initialize - reads ept.json metadata
       this._panelBuilder?.updateLoadingProgress(10, 'Initializing EPT dataset...');
       const { bounds, totalPoints, hasRGB, spacing } = await eptLoader.initialize();
+      throwIfAborted(controller.signal);
+      this._loadControllers.delete(controller);
 
       this._panelBuilder?.updateLoadingProgress(20, 'Setting up streaming...');
 
@@ -891,6 +1156,7 @@ export class LidarControl implements IControl {
       // Setup callback for when points are loaded
       eptLoader.setOnPointsLoaded((data) => {
         this._pointCloudManager?.updatePointCloud(id, data);
+        this._ensureNormals(id);
 
         // Auto Z offset
         if (this._options.autoZOffset && !autoZOffsetApplied && data.bounds) {
@@ -917,6 +1183,12 @@ export class LidarControl implements IControl {
             this.setState({ availableClassifications: mergedClassifications });
           }
         }
+
+        // Merge the attribute names of streamed data
+        const availableAttributes = this._mergeAttributeNames(data);
+        if (availableAttributes.length > this._state.availableAttributes.length) {
+          this.setState({ availableAttributes });
+        }
       });
 
       // Setup event handlers
@@ -947,6 +1219,10 @@ export class LidarControl implements IControl {
         this._emit('budgetreached');
       });
 
+      eptLoader.on('nodefailed', () => {
+        this._scheduleFailedNodesEvent(id, eptLoader);
+      });
+
       // Store the EPT loader
       this._eptStreamingLoaders.set(id, eptLoader);
 
@@ -1024,6 +1300,8 @@ export class LidarControl implements IControl {
 
       return info;
     } catch (err) {
+      this._loadControllers.delete(controller);
+
       const error = err instanceof Error ? err : new Error(String(err));
 
       // Clean up on error
@@ -1040,7 +1318,11 @@ export class LidarControl implements IControl {
         this._viewportManagers.delete(id);
       }
 
-      const hasActiveStreaming = this._streamingLoaders.size > 0 || this._eptStreamingLoaders.size > 0;
+      if (controller.signal.aborted) {
+        throw this._handleLoadCancelled();
+      }
+
+      const hasActiveStreaming = this._hasActiveStreaming();
 
       this.setState({
         loading: false,
@@ -1123,26 +1405,14 @@ export class LidarControl implements IControl {
 
       let nodesToLoad = await eptLoader.selectNodesForViewport(viewport);
 
-      let resetSucceeded = false;
+      // When the point budget is reached, the loader evicts nodes that are no longer visible
       const loadedPoints = eptLoader.getLoadedPointCount();
       const pointBudget = eptLoader.getPointBudget();
       const budgetReached = loadedPoints >= pointBudget * 0.8; // 80% threshold
       const minDepthForCoverage = Math.max(0, viewport.targetDepth - 2);
-
-      // Check coverage ratio - if less than 50% is covered, we need to load more
       const coverageRatio = eptLoader.getViewportCoverageRatio(viewport, minDepthForCoverage);
-      const needsCoverage = coverageRatio < 0.5;
 
       const hasPendingSubtrees = eptLoader.hasPendingSubtrees(viewport);
-      const hasPendingWork = nodesToLoad.length > 0 || hasPendingSubtrees;
-
-      // Reset if budget is reached but we need more coverage in current viewport
-      if (budgetReached && needsCoverage && hasPendingWork) {
-        resetSucceeded = eptLoader.resetLoadedData();
-        if (resetSucceeded) {
-          nodesToLoad = await eptLoader.selectNodesForViewport(viewport);
-        }
-      }
 
       // Also check if we have very low coverage but some budget left -
       // this means we haven't loaded this area's subtrees yet
@@ -1159,15 +1429,6 @@ export class LidarControl implements IControl {
 
       if (this._eptViewportRequestIds.get(datasetId) !== currentRequestId) return;
 
-      // Only retry if we need more coverage AND there's pending work
-      // Don't retry if coverage is already good (>= 50%)
-      if (budgetReached && needsCoverage && nodesToLoad.length > 0 && !resetSucceeded) {
-        setTimeout(() => {
-          this._handleViewportChangeForEptStreaming(viewport, datasetId, currentRequestId);
-        }, 200);
-        return;
-      }
-
       // Continue loading subtrees if there are pending ones
       if (hasPendingSubtrees) {
         setTimeout(() => {
@@ -1180,149 +1441,783 @@ export class LidarControl implements IControl {
   }
 
   /**
-   * Downloads a file from URL and loads it fully.
-   * Used as fallback when streaming fails due to CORS.
+   * Loads a Cesium 3D Tiles point cloud tileset (tileset.json with pnts tiles)
+   * using streaming (on-demand) loading. Tiles are selected by geometric error
+   * and the current viewport.
+   *
+   * @param tilesetUrl - URL to tileset.json
+   * @param options - Optional streaming options and abort signal
+   * @returns Promise resolving to initial point cloud info
    */
-  private async _loadPointCloudFullDownload(url: string): Promise<PointCloudInfo> {
-    const id = generateId('pc');
-    const name = getFilename(url);
+  async loadPointCloud3DTilesStreaming(
+    tilesetUrl: string,
+    options?: Tiles3DStreamingLoaderOptions & { signal?: AbortSignal }
+  ): Promise<PointCloudInfo> {
+    const id = generateId('tiles-stream');
+    const name = getFilename(tilesetUrl.replace(/\/tileset\.json(\?.*)?$/i, ''));
+
+    this.setState({ loading: true, error: null, streamingActive: true });
+    this._emit('loadstart');
+    this._emit('streamingstart');
+
+    const controller = this._createLoadController(options?.signal);
 
     try {
-      this._panelBuilder?.updateLoadingProgress(10, 'Downloading file...');
+      const tilesLoader = new Tiles3DStreamingLoader(tilesetUrl, {
+        pointBudget: options?.pointBudget ?? this._options.streamingPointBudget,
+        maxConcurrentRequests:
+          options?.maxConcurrentRequests ?? this._options.streamingMaxConcurrentRequests,
+        viewportDebounceMs:
+          options?.viewportDebounceMs ?? this._options.streamingViewportDebounceMs,
+        maxOctreeDepth: options?.maxOctreeDepth ?? 20,
+        maxSubtreesPerViewport: options?.maxSubtreesPerViewport,
+        maximumScreenSpaceError: options?.maximumScreenSpaceError,
+        transformRequest: options?.transformRequest ?? this._options.transformRequest,
+        maxRetries: options?.maxRetries ?? this._options.streamingMaxRetries,
+        retryDelayMs: options?.retryDelayMs ?? this._options.streamingRetryDelayMs,
+        retryFailedOnView: options?.retryFailedOnView ?? this._options.streamingRetryFailedOnView,
+      });
 
-      // Download the entire file
-      const response = await fetch(url);
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
+      // Destroying the loader aborts its requests and releases its buffers
+      controller.signal.addEventListener('abort', () => tilesLoader.destroy());
 
-      const contentLength = response.headers.get('content-length');
-      const total = contentLength ? parseInt(contentLength, 10) : 0;
+      // Initialize - reads tileset.json
+      this._panelBuilder?.updateLoadingProgress(10, 'Initializing 3D Tiles tileset...');
+      const { bounds, hasRGB } = await tilesLoader.initialize();
+      throwIfAborted(controller.signal);
+      this._loadControllers.delete(controller);
 
-      // Stream download with progress
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('Failed to get response reader');
-      }
+      this._panelBuilder?.updateLoadingProgress(20, 'Setting up streaming...');
 
-      const chunks: Uint8Array[] = [];
-      let received = 0;
+      // Track if auto Z offset has been applied
+      let autoZOffsetApplied = false;
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
+      // Setup callback for when points are loaded
+      tilesLoader.setOnPointsLoaded((data) => {
+        this._pointCloudManager?.updatePointCloud(id, data);
+        this._ensureNormals(id);
+
+        // Point count and attribute availability are only known once tiles are decoded
+        const info = this._state.pointClouds.find((pc) => pc.id === id);
+        if (info && (
+          info.pointCount !== data.pointCount ||
+          info.hasRGB !== data.hasRGB ||
+          info.hasIntensity !== data.hasIntensity ||
+          info.hasClassification !== data.hasClassification
+        )) {
+          this.setState({
+            pointClouds: this._state.pointClouds.map((pc) =>
+              pc.id === id
+                ? {
+                    ...pc,
+                    pointCount: data.pointCount,
+                    hasRGB: data.hasRGB,
+                    hasIntensity: data.hasIntensity,
+                    hasClassification: data.hasClassification,
+                  }
+                : pc
+            ),
+          });
+        }
 
-        chunks.push(value);
-        received += value.length;
+        // Auto Z offset (tileset heights are ellipsoidal)
+        if (this._options.autoZOffset && !autoZOffsetApplied && data.pointCount > 0) {
+          const zOffsetBase = data.bounds.minZ;
+          const zOffset = -zOffsetBase;
+          this._pointCloudManager?.setZOffset(zOffset);
+          this.setState({
+            zOffsetBase,
+            zOffset,
+            zOffsetEnabled: true,
+          });
+          autoZOffsetApplied = true;
+        }
 
-        if (total > 0) {
-          const percent = Math.round((received / total) * 50); // 0-50% for download
-          this._panelBuilder?.updateLoadingProgress(
-            10 + percent,
-            `Downloading: ${(received / 1024 / 1024).toFixed(1)} MB`
-          );
+        // Extract and merge classifications
+        const newClassifications = getAvailableClassifications(data);
+        if (newClassifications.size > 0) {
+          const mergedClassifications = new Set([
+            ...this._state.availableClassifications,
+            ...newClassifications,
+          ]);
+          if (mergedClassifications.size > this._state.availableClassifications.size) {
+            this.setState({ availableClassifications: mergedClassifications });
+          }
         }
-      }
 
-      // Combine chunks into ArrayBuffer
-      const buffer = new Uint8Array(received);
-      let offset = 0;
-      for (const chunk of chunks) {
-        buffer.set(chunk, offset);
-        offset += chunk.length;
-      }
+        // Merge the attribute names of streamed data
+        const availableAttributes = this._mergeAttributeNames(data);
+        if (availableAttributes.length > this._state.availableAttributes.length) {
+          this.setState({ availableAttributes });
+        }
+      });
 
-      this._panelBuilder?.updateLoadingProgress(60, 'Processing point cloud...');
+      // Setup event handlers
+      tilesLoader.on('progress', (_, data) => {
+        const progress = data as StreamingProgressEvent;
+        this.setState({
+          streamingProgress: {
+            loadedNodes: progress.loadedNodes,
+            loadedPoints: progress.loadedPoints,
+            queueSize: progress.queueSize,
+            isLoading: progress.isLoading,
+          },
+        });
 
-      // Load from buffer using the standard loader
-      const onProgress = (progress: number, message: string) => {
-        // Map 0-100 to 60-100
-        const mappedProgress = 60 + (progress * 0.4);
-        this._panelBuilder?.updateLoadingProgress(mappedProgress, message);
-      };
+        const percent = Math.min(
+          99,
+          20 + Math.round((progress.loadedPoints / progress.pointBudget) * 70)
+        );
+        this._panelBuilder?.updateLoadingProgress(
+          percent,
+          `Streaming 3D Tiles: ${progress.loadedPoints.toLocaleString()} points loaded`
+        );
 
-      const data = await this._loader.load(buffer.buffer, onProgress);
+        this._emit('streamingprogress');
+      });
 
-      this._panelBuilder?.updateLoadingProgress(95, 'Creating visualization layers...');
+      tilesLoader.on('budgetreached', () => {
+        this._emit('budgetreached');
+      });
 
-      // Add to manager
-      this._pointCloudManager?.addPointCloud(id, data);
+      tilesLoader.on('nodefailed', () => {
+        this._scheduleFailedNodesEvent(id, tilesLoader);
+      });
 
-      // Auto Z offset: calculate and apply based on 2nd percentile of elevation
-      let zOffsetBase: number | undefined;
-      let zOffset: number | undefined;
-      let zOffsetEnabled = this._state.zOffsetEnabled;
+      this._tilesStreamingLoaders.set(id, tilesLoader);
 
-      if (this._options.autoZOffset && data.positions && data.pointCount > 0) {
-        const zValues = new Float32Array(data.pointCount);
-        for (let i = 0; i < data.pointCount; i++) {
-          zValues[i] = data.positions[i * 3 + 2] ?? 0;
+      // Create viewport manager for this dataset (tile selection uses geometric error, not targetDepth)
+      const viewportManager = new ViewportManager(
+        this._map!,
+        (viewport) => this._handleViewportChangeFor3DTilesStreaming(viewport, id),
+        {
+          debounceMs:
+            options?.viewportDebounceMs ?? this._options.streamingViewportDebounceMs,
+          maxOctreeDepth: options?.maxOctreeDepth ?? 20,
         }
-        const percentileBounds = computePercentileBounds(zValues, 2, 98);
-        zOffsetBase = percentileBounds.min; // 2% percentile value (ground level)
-        // Apply negative offset to convert absolute elevation to relative height above ground
-        zOffset = -zOffsetBase;
-        zOffsetEnabled = true;
-        this._pointCloudManager?.setZOffset(zOffset);
-        console.log(`Auto Z offset applied (download): ${zOffset.toFixed(1)}m (ground level: ${zOffsetBase.toFixed(1)}m)`);
-      }
+      );
 
-      this._panelBuilder?.updateLoadingProgress(100, 'Complete!');
+      this._viewportManagers.set(id, viewportManager);
 
-      // Create info object
+      // Point count is unknown until tiles are loaded
       const info: PointCloudInfo = {
         id,
-        name,
-        pointCount: data.pointCount,
-        bounds: data.bounds,
-        hasRGB: data.hasRGB,
-        hasIntensity: data.hasIntensity,
-        hasClassification: data.hasClassification,
-        source: url,
-        wkt: data.wkt,
+        name: `${name} (3D Tiles)`,
+        pointCount: 0,
+        bounds,
+        hasRGB,
+        hasIntensity: false,
+        hasClassification: false,
+        source: tilesetUrl,
       };
 
-      // Extract available classifications and merge with existing
-      const newClassifications = getAvailableClassifications(data);
-      const mergedClassifications = new Set([
-        ...this._state.availableClassifications,
-        ...newClassifications,
-      ]);
-
-      // Update state (include z-offset values to trigger panel update)
       const pointClouds = [...this._state.pointClouds, info];
       this.setState({
         loading: false,
         pointClouds,
         activePointCloudId: id,
-        availableClassifications: mergedClassifications,
-        zOffsetBase,
-        zOffset: zOffset ?? this._state.zOffset,
-        zOffsetEnabled,
       });
 
-      // Update computed color bounds for colorbar display
       this._updateComputedColorBounds();
       this._panelBuilder?.updateState(this._state);
 
-      this._emitWithData('load', { pointCloud: info });
+      // Start viewport-based loading
+      viewportManager.start();
 
-      // Auto-zoom
       if (this._options.autoZoom) {
-        this.flyToPointCloud(id);
+        const clampedMinY = Math.max(-90, Math.min(90, bounds.minY));
+        const clampedMaxY = Math.max(-90, Math.min(90, bounds.maxY));
+        const clampedMinX = Math.max(-180, Math.min(180, bounds.minX));
+        const clampedMaxX = Math.max(-180, Math.min(180, bounds.maxX));
+
+        this._map?.fitBounds(
+          [
+            [clampedMinX, clampedMinY],
+            [clampedMaxX, clampedMaxY],
+          ],
+          {
+            padding: 50,
+            duration: 1000,
+          }
+        );
+
+        setTimeout(() => {
+          viewportManager.forceUpdate();
+        }, 1100);
       }
 
+      this._emitWithData('load', { pointCloud: info });
+
       return info;
     } catch (err) {
+      this._loadControllers.delete(controller);
+
       const error = err instanceof Error ? err : new Error(String(err));
 
-      // Check if this is also a CORS error
-      const isCorsError =
-        error.message.includes('CORS') ||
-        error.message === 'Failed to fetch' ||
-        (err instanceof TypeError && error.message === 'Failed to fetch');
+      // Clean up on error
+      const tilesLoader = this._tilesStreamingLoaders.get(id);
+      if (tilesLoader) {
+        tilesLoader.destroy();
+        this._tilesStreamingLoaders.delete(id);
+      }
+      this._tilesViewportRequestIds.delete(id);
+      this._tilesLastViewport.delete(id);
+      const viewportManager = this._viewportManagers.get(id);
+      if (viewportManager) {
+        viewportManager.destroy();
+        this._viewportManagers.delete(id);
+      }
 
-      let errorMessage: string;
+      if (controller.signal.aborted) {
+        throw this._handleLoadCancelled();
+      }
+
+      this.setState({
+        loading: false,
+        streamingActive: this._hasActiveStreaming(),
+        error: `Failed to load 3D Tiles: ${error.message}`,
+      });
+      this._emitWithData('loaderror', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Handles viewport changes for 3D Tiles streaming mode.
+   *
+   * @param viewport - Current viewport information
+   * @param datasetId - ID of the 3D Tiles dataset
+   * @param requestId - Request ID when retrying an earlier viewport change
+   */
+  private async _handleViewportChangeFor3DTilesStreaming(
+    viewport: ViewportInfo,
+    datasetId: string,
+    requestId?: number
+  ): Promise<void> {
+    const tilesLoader = this._tilesStreamingLoaders.get(datasetId);
+    if (!tilesLoader) return;
+
+    try {
+      const currentRequestId = requestId ?? (this._tilesViewportRequestIds.get(datasetId) ?? 0) + 1;
+      if (requestId === undefined) {
+        this._tilesViewportRequestIds.set(datasetId, currentRequestId);
+      }
+
+      if (this._tilesViewportRequestIds.get(datasetId) !== currentRequestId) return;
+
+      const previousViewport = this._tilesLastViewport.get(datasetId);
+      const shouldResetForMove = this._shouldResetEptForViewportChange(previousViewport, viewport);
+      this._tilesLastViewport.set(datasetId, viewport);
+
+      tilesLoader.pruneQueueForViewport(viewport);
+
+      if (shouldResetForMove && !tilesLoader.resetLoadedData()) {
+        setTimeout(() => {
+          this._handleViewportChangeFor3DTilesStreaming(viewport, datasetId, currentRequestId);
+        }, 200);
+        return;
+      }
+
+      let nodesToLoad = await tilesLoader.selectNodesForViewport(viewport);
+      if (this._tilesViewportRequestIds.get(datasetId) !== currentRequestId) return;
+
+      // Reset if the budget is mostly used but the viewport is poorly covered
+      const budgetReached = tilesLoader.getLoadedPointCount() >= tilesLoader.getPointBudget() * 0.8;
+      const needsCoverage = tilesLoader.getViewportCoverageRatio(viewport) < 0.5;
+      if (budgetReached && needsCoverage && nodesToLoad.length > 0 && tilesLoader.resetLoadedData()) {
+        nodesToLoad = await tilesLoader.selectNodesForViewport(viewport);
+      }
+
+      for (const node of nodesToLoad) {
+        tilesLoader.queueNode(node);
+      }
+
+      await tilesLoader.loadQueuedNodes();
+
+      if (this._tilesViewportRequestIds.get(datasetId) !== currentRequestId) return;
+
+      // Continue traversal if external tilesets remain to be loaded
+      if (tilesLoader.hasPendingSubtrees(viewport)) {
+        setTimeout(() => {
+          this._handleViewportChangeFor3DTilesStreaming(viewport, datasetId, currentRequestId);
+        }, 100);
+      }
+    } catch (err) {
+      console.warn('Failed to load 3D Tiles for viewport:', err);
+    }
+  }
+
+  /**
+   * Loads a Potree 1.x (cloud.js) or 2.0 (metadata.json) octree using streaming (on-demand) loading.
+   * Points are loaded dynamically based on viewport and zoom level.
+   *
+   * @param url - URL to metadata.json or cloud.js
+   * @param options - Optional streaming options, including a projection for datasets without one and an abort signal
+   * @returns Promise resolving to initial point cloud info
+   */
+  async loadPointCloudPotreeStreaming(
+    url: string,
+    options?: PotreeStreamingLoaderOptions & { signal?: AbortSignal }
+  ): Promise<PointCloudInfo> {
+    const id = generateId('potree-stream');
+    const name = getFilename(url.replace(/\/(metadata\.json|cloud\.js)(\?.*)?$/i, ''));
+
+    this.setState({ loading: true, error: null, streamingActive: true });
+    this._emit('loadstart');
+    this._emit('streamingstart');
+
+    const controller = this._createLoadController(options?.signal);
+
+    try {
+      // Create Potree streaming loader
+      const potreeLoader = new PotreeStreamingLoader(url, {
+        pointBudget: options?.pointBudget ?? this._options.streamingPointBudget,
+        maxConcurrentRequests:
+          options?.maxConcurrentRequests ?? this._options.streamingMaxConcurrentRequests,
+        viewportDebounceMs:
+          options?.viewportDebounceMs ?? this._options.streamingViewportDebounceMs,
+        minDetailZoom: options?.minDetailZoom ?? 10,
+        maxOctreeDepth: options?.maxOctreeDepth ?? 20,
+        projection: options?.projection,
+        transformRequest: options?.transformRequest ?? this._options.transformRequest,
+        maxRetries: options?.maxRetries ?? this._options.streamingMaxRetries,
+        retryDelayMs: options?.retryDelayMs ?? this._options.streamingRetryDelayMs,
+        retryFailedOnView: options?.retryFailedOnView ?? this._options.streamingRetryFailedOnView,
+      });
+
+      // Destroying the loader aborts its requests and releases its buffers
+      controller.signal.addEventListener('abort', () => potreeLoader.destroy());
+
+      // Initialize - reads metadata.json or cloud.js
+      this._panelBuilder?.updateLoadingProgress(10, 'Initializing Potree dataset...');
+      const { bounds, totalPoints, hasRGB, hasIntensity, hasClassification, spacing } =
+        await potreeLoader.initialize();
+      throwIfAborted(controller.signal);
+      this._loadControllers.delete(controller);
+
+      this._panelBuilder?.updateLoadingProgress(20, 'Setting up streaming...');
+
+      // Track if auto Z offset has been applied
+      let autoZOffsetApplied = false;
+
+      // Setup callback for when points are loaded
+      potreeLoader.setOnPointsLoaded((data) => {
+        this._pointCloudManager?.updatePointCloud(id, data);
+        this._ensureNormals(id);
+
+        // Auto Z offset
+        if (this._options.autoZOffset && !autoZOffsetApplied && data.bounds) {
+          const zOffsetBase = data.bounds.minZ;
+          const zOffset = -zOffsetBase;
+          this._pointCloudManager?.setZOffset(zOffset);
+          console.log(`Auto Z offset applied (Potree streaming): ${zOffset.toFixed(1)}m`);
+          this.setState({
+            zOffsetBase,
+            zOffset,
+            zOffsetEnabled: true,
+          });
+          autoZOffsetApplied = true;
+        }
+
+        // Extract and merge classifications
+        const newClassifications = getAvailableClassifications(data);
+        if (newClassifications.size > 0) {
+          const mergedClassifications = new Set([
+            ...this._state.availableClassifications,
+            ...newClassifications,
+          ]);
+          if (mergedClassifications.size > this._state.availableClassifications.size) {
+            this.setState({ availableClassifications: mergedClassifications });
+          }
+        }
+
+        // Merge the attribute names of streamed data
+        const availableAttributes = this._mergeAttributeNames(data);
+        if (availableAttributes.length > this._state.availableAttributes.length) {
+          this.setState({ availableAttributes });
+        }
+      });
+
+      // Setup event handlers
+      potreeLoader.on('progress', (_, data) => {
+        const progress = data as StreamingProgressEvent;
+        this.setState({
+          streamingProgress: {
+            loadedNodes: progress.loadedNodes,
+            loadedPoints: progress.loadedPoints,
+            queueSize: progress.queueSize,
+            isLoading: progress.isLoading,
+          },
+        });
+
+        const percent = Math.min(
+          99,
+          20 + Math.round((progress.loadedPoints / progress.pointBudget) * 70)
+        );
+        this._panelBuilder?.updateLoadingProgress(
+          percent,
+          `Streaming Potree: ${progress.loadedPoints.toLocaleString()} points loaded`
+        );
+
+        this._emit('streamingprogress');
+      });
+
+      potreeLoader.on('budgetreached', () => {
+        this._emit('budgetreached');
+      });
+
+      potreeLoader.on('nodefailed', () => {
+        this._scheduleFailedNodesEvent(id, potreeLoader);
+      });
+
+      // Store the Potree loader
+      this._potreeStreamingLoaders.set(id, potreeLoader);
+
+      // Create viewport manager for this dataset
+      const viewportManager = new ViewportManager(
+        this._map!,
+        (viewport) => this._handleViewportChangeForPotreeStreaming(viewport, id),
+        {
+          debounceMs:
+            options?.viewportDebounceMs ?? this._options.streamingViewportDebounceMs,
+          minDetailZoom: options?.minDetailZoom ?? 10,
+          maxOctreeDepth: options?.maxOctreeDepth ?? 20,
+          spacing,
+        }
+      );
+
+      this._viewportManagers.set(id, viewportManager);
+
+      // Create initial point cloud info
+      const info: PointCloudInfo = {
+        id,
+        name: `${name} (Potree)`,
+        pointCount: totalPoints,
+        bounds,
+        hasRGB,
+        hasIntensity,
+        hasClassification,
+        source: url,
+        wkt: potreeLoader.getWkt(),
+      };
+
+      // Update state
+      const pointClouds = [...this._state.pointClouds, info];
+      this.setState({
+        loading: false,
+        pointClouds,
+        activePointCloudId: id,
+      });
+
+      // Update computed color bounds for colorbar display
+      this._updateComputedColorBounds();
+      this._panelBuilder?.updateState(this._state);
+
+      // Start viewport-based loading
+      viewportManager.start();
+
+      // Auto-zoom if enabled
+      if (this._options.autoZoom) {
+        // Validate and clamp bounds to valid WGS84 range before calling fitBounds
+        const clampedMinY = Math.max(-90, Math.min(90, bounds.minY));
+        const clampedMaxY = Math.max(-90, Math.min(90, bounds.maxY));
+        const clampedMinX = Math.max(-180, Math.min(180, bounds.minX));
+        const clampedMaxX = Math.max(-180, Math.min(180, bounds.maxX));
+
+        this._map?.fitBounds(
+          [
+            [clampedMinX, clampedMinY],
+            [clampedMaxX, clampedMaxY],
+          ],
+          {
+            padding: 50,
+            duration: 1000,
+          }
+        );
+
+        setTimeout(() => {
+          viewportManager.forceUpdate();
+        }, 1100);
+      }
+
+      this._emitWithData('load', { pointCloud: info });
+
+      return info;
+    } catch (err) {
+      this._loadControllers.delete(controller);
+
+      const error = err instanceof Error ? err : new Error(String(err));
+
+      // Clean up on error
+      const potreeLoader = this._potreeStreamingLoaders.get(id);
+      if (potreeLoader) {
+        potreeLoader.destroy();
+        this._potreeStreamingLoaders.delete(id);
+      }
+      this._potreeViewportRequestIds.delete(id);
+      this._potreeLastViewport.delete(id);
+      const viewportManager = this._viewportManagers.get(id);
+      if (viewportManager) {
+        viewportManager.destroy();
+        this._viewportManagers.delete(id);
+      }
+
+      if (controller.signal.aborted) {
+        throw this._handleLoadCancelled();
+      }
+
+      const hasActiveStreaming = this._hasActiveStreaming();
+
+      this.setState({
+        loading: false,
+        streamingActive: hasActiveStreaming,
+        error: `Failed to load Potree: ${error.message}`,
+      });
+      this._emitWithData('loaderror', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Handles viewport changes for Potree streaming mode.
+   *
+   * @param viewport - Current viewport information
+   * @param datasetId - ID of the Potree dataset
+   * @param requestId - Request ID of a retried viewport change
+   */
+  private async _handleViewportChangeForPotreeStreaming(
+    viewport: ViewportInfo,
+    datasetId: string,
+    requestId?: number
+  ): Promise<void> {
+    const potreeLoader = this._potreeStreamingLoaders.get(datasetId);
+    if (!potreeLoader) return;
+
+    try {
+      const currentRequestId = requestId ?? (this._potreeViewportRequestIds.get(datasetId) ?? 0) + 1;
+      if (requestId === undefined) {
+        this._potreeViewportRequestIds.set(datasetId, currentRequestId);
+      }
+
+      if (this._potreeViewportRequestIds.get(datasetId) !== currentRequestId) return;
+
+      const previousViewport = this._potreeLastViewport.get(datasetId);
+      const shouldResetForMove = this._shouldResetEptForViewportChange(previousViewport, viewport);
+      this._potreeLastViewport.set(datasetId, viewport);
+
+      potreeLoader.pruneQueueForViewport(viewport);
+
+      if (shouldResetForMove && !potreeLoader.resetLoadedData()) {
+        setTimeout(() => {
+          this._handleViewportChangeForPotreeStreaming(viewport, datasetId, currentRequestId);
+        }, 200);
+        return;
+      }
+
+      let nodesToLoad = await potreeLoader.selectNodesForViewport(viewport);
+
+      let resetSucceeded = false;
+      const budgetReached = potreeLoader.getLoadedPointCount() >= potreeLoader.getPointBudget() * 0.8;
+      const minDepthForCoverage = Math.max(0, viewport.targetDepth - 2);
+      const needsCoverage = potreeLoader.getViewportCoverageRatio(viewport, minDepthForCoverage) < 0.5;
+      const hasPendingSubtrees = potreeLoader.hasPendingSubtrees(viewport);
+
+      // Reset if budget is reached but we need more coverage in current viewport
+      if (budgetReached && needsCoverage && (nodesToLoad.length > 0 || hasPendingSubtrees)) {
+        resetSucceeded = potreeLoader.resetLoadedData();
+        if (resetSucceeded) {
+          nodesToLoad = await potreeLoader.selectNodesForViewport(viewport);
+        }
+      }
+
+      for (const node of nodesToLoad) {
+        potreeLoader.queueNode(node);
+      }
+
+      await potreeLoader.loadQueuedNodes();
+
+      if (this._potreeViewportRequestIds.get(datasetId) !== currentRequestId) return;
+
+      if (budgetReached && needsCoverage && nodesToLoad.length > 0 && !resetSucceeded) {
+        setTimeout(() => {
+          this._handleViewportChangeForPotreeStreaming(viewport, datasetId, currentRequestId);
+        }, 200);
+        return;
+      }
+
+      // Continue loading hierarchy chunks if there are pending ones
+      if (hasPendingSubtrees) {
+        setTimeout(() => {
+          this._handleViewportChangeForPotreeStreaming(viewport, datasetId, currentRequestId);
+        }, 100);
+      }
+    } catch (err) {
+      console.warn('Failed to load Potree nodes for viewport:', err);
+    }
+  }
+
+  /**
+   * Downloads a file from URL and loads it fully.
+   * Used as fallback when streaming fails due to CORS.
+   *
+   * @param url - URL of the file
+   * @param signal - Optional signal that cancels the download
+   */
+  private async _loadPointCloudFullDownload(url: string, signal?: AbortSignal): Promise<PointCloudInfo> {
+    const id = generateId('pc');
+    const name = getFilename(url);
+    const controller = this._createLoadController(signal);
+
+    try {
+      this._panelBuilder?.updateLoadingProgress(10, 'Downloading file...');
+
+      // Download the entire file
+      const response = await fetchWithTransform(
+        url,
+        'data',
+        { signal: controller.signal },
+        this._options.transformRequest
+      );
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const contentLength = response.headers.get('content-length');
+      const total = contentLength ? parseInt(contentLength, 10) : 0;
+
+      // Stream download with progress
+      const reader = response.body?.getReader();
+      if (!reader) {
+        throw new Error('Failed to get response reader');
+      }
+
+      const chunks: Uint8Array[] = [];
+      let received = 0;
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        chunks.push(value);
+        received += value.length;
+
+        if (total > 0) {
+          const percent = Math.round((received / total) * 50); // 0-50% for download
+          this._panelBuilder?.updateLoadingProgress(
+            10 + percent,
+            `Downloading: ${(received / 1024 / 1024).toFixed(1)} MB`
+          );
+        }
+      }
+
+      // Combine chunks into ArrayBuffer
+      const buffer = new Uint8Array(received);
+      let offset = 0;
+      for (const chunk of chunks) {
+        buffer.set(chunk, offset);
+        offset += chunk.length;
+      }
+
+      this._panelBuilder?.updateLoadingProgress(60, 'Processing point cloud...');
+
+      // Load from buffer using the standard loader
+      const onProgress = (progress: number, message: string) => {
+        // Map 0-100 to 60-100
+        const mappedProgress = 60 + (progress * 0.4);
+        this._panelBuilder?.updateLoadingProgress(mappedProgress, message);
+      };
+
+      const data = await this._loader.load(buffer.buffer, onProgress, { signal: controller.signal });
+      throwIfAborted(controller.signal);
+      this._loadControllers.delete(controller);
+
+      this._panelBuilder?.updateLoadingProgress(95, 'Creating visualization layers...');
+
+      // Add to manager
+      this._pointCloudManager?.addPointCloud(id, data);
+      this._ensureNormals(id);
+
+      // Auto Z offset: calculate and apply based on 2nd percentile of elevation
+      let zOffsetBase: number | undefined;
+      let zOffset: number | undefined;
+      let zOffsetEnabled = this._state.zOffsetEnabled;
+
+      if (this._options.autoZOffset && data.positions && data.pointCount > 0) {
+        const zValues = new Float32Array(data.pointCount);
+        for (let i = 0; i < data.pointCount; i++) {
+          zValues[i] = data.positions[i * 3 + 2] ?? 0;
+        }
+        const percentileBounds = computePercentileBounds(zValues, 2, 98);
+        zOffsetBase = percentileBounds.min; // 2% percentile value (ground level)
+        // Apply negative offset to convert absolute elevation to relative height above ground
+        zOffset = -zOffsetBase;
+        zOffsetEnabled = true;
+        this._pointCloudManager?.setZOffset(zOffset);
+        console.log(`Auto Z offset applied (download): ${zOffset.toFixed(1)}m (ground level: ${zOffsetBase.toFixed(1)}m)`);
+      }
+
+      this._panelBuilder?.updateLoadingProgress(100, 'Complete!');
+
+      // Create info object
+      const info: PointCloudInfo = {
+        id,
+        name,
+        pointCount: data.pointCount,
+        bounds: data.bounds,
+        hasRGB: data.hasRGB,
+        hasIntensity: data.hasIntensity,
+        hasClassification: data.hasClassification,
+        source: url,
+        wkt: data.wkt,
+      };
+
+      // Extract available classifications and merge with existing
+      const newClassifications = getAvailableClassifications(data);
+      const mergedClassifications = new Set([
+        ...this._state.availableClassifications,
+        ...newClassifications,
+      ]);
+
+      // Update state (include z-offset values to trigger panel update)
+      const pointClouds = [...this._state.pointClouds, info];
+      this.setState({
+        loading: false,
+        pointClouds,
+        activePointCloudId: id,
+        availableClassifications: mergedClassifications,
+        availableAttributes: this._mergeAttributeNames(data),
+        zOffsetBase,
+        zOffset: zOffset ?? this._state.zOffset,
+        zOffsetEnabled,
+      });
+
+      // Update computed color bounds for colorbar display
+      this._updateComputedColorBounds();
+      this._panelBuilder?.updateState(this._state);
+
+      this._emitWithData('load', { pointCloud: info });
+
+      // Auto-zoom
+      if (this._options.autoZoom) {
+        this.flyToPointCloud(id);
+      }
+
+      return info;
+    } catch (err) {
+      this._loadControllers.delete(controller);
+      if (controller.signal.aborted) {
+        throw this._handleLoadCancelled();
+      }
+
+      const error = err instanceof Error ? err : new Error(String(err));
+
+      // Check if this is also a CORS error
+      const isCorsError =
+        error.message.includes('CORS') ||
+        error.message === 'Failed to fetch' ||
+        (err instanceof TypeError && error.message === 'Failed to fetch');
+
+      let errorMessage: string;
       if (isCorsError) {
         const hostname = new URL(url).hostname;
         errorMessage =
@@ -1400,12 +2295,33 @@ export class LidarControl implements IControl {
         this._eptStreamingLoaders.delete(id);
       }
 
+      // Check 3D Tiles streaming loader
+      const tilesLoader = this._tilesStreamingLoaders.get(id);
+      if (tilesLoader) {
+        tilesLoader.destroy();
+        this._tilesStreamingLoaders.delete(id);
+      }
+      this._tilesViewportRequestIds.delete(id);
+      this._tilesLastViewport.delete(id);
+
+      // Check Potree streaming loader
+      const potreeLoader = this._potreeStreamingLoaders.get(id);
+      if (potreeLoader) {
+        potreeLoader.destroy();
+        this._potreeStreamingLoaders.delete(id);
+      }
+      this._potreeViewportRequestIds.delete(id);
+      this._potreeLastViewport.delete(id);
+
+      clearTimeout(this._failedNodesTimeouts.get(id));
+      this._failedNodesTimeouts.delete(id);
+
       // Remove point cloud from manager
       this._pointCloudManager?.removePointCloud(id);
 
       // Remove from state
       const pointClouds = this._state.pointClouds.filter((pc) => pc.id !== id);
-      const hasActiveStreaming = this._streamingLoaders.size > 0 || this._eptStreamingLoaders.size > 0;
+      const hasActiveStreaming = this._hasActiveStreaming();
 
       // Reset classification state when removing datasets
       this.setState({
@@ -1414,19 +2330,23 @@ export class LidarControl implements IControl {
           this._state.activePointCloudId === id
             ? pointClouds[0]?.id || null
             : this._state.activePointCloudId,
+        ...this._removePointCloudStyles([id]),
         streamingActive: hasActiveStreaming,
         streamingProgress: hasActiveStreaming ? this._state.streamingProgress : undefined,
         availableClassifications: new Set(),
         hiddenClassifications: new Set(),
+        availableAttributes: [],
       });
 
       this._emit('streamingstop');
       this._emitWithData('unload', { pointCloud: { id } });
     } else {
-      // Stop all streaming datasets (COPC and EPT)
+      // Stop all streaming datasets (COPC, EPT, 3D Tiles and Potree)
       const streamingIds = [
         ...Array.from(this._streamingLoaders.keys()),
         ...Array.from(this._eptStreamingLoaders.keys()),
+        ...Array.from(this._tilesStreamingLoaders.keys()),
+        ...Array.from(this._potreeStreamingLoaders.keys()),
       ];
 
       // Destroy all viewport managers
@@ -1449,6 +2369,27 @@ export class LidarControl implements IControl {
       this._eptViewportRequestIds.clear();
       this._eptLastViewport.clear();
 
+      // Destroy all 3D Tiles streaming loaders
+      for (const tilesLoader of this._tilesStreamingLoaders.values()) {
+        tilesLoader.destroy();
+      }
+      this._tilesStreamingLoaders.clear();
+      this._tilesViewportRequestIds.clear();
+      this._tilesLastViewport.clear();
+
+      // Destroy all Potree streaming loaders
+      for (const potreeLoader of this._potreeStreamingLoaders.values()) {
+        potreeLoader.destroy();
+      }
+      this._potreeStreamingLoaders.clear();
+      this._potreeViewportRequestIds.clear();
+      this._potreeLastViewport.clear();
+
+      for (const timeout of this._failedNodesTimeouts.values()) {
+        clearTimeout(timeout);
+      }
+      this._failedNodesTimeouts.clear();
+
       // Remove all streaming point clouds from manager
       for (const streamingId of streamingIds) {
         this._pointCloudManager?.removePointCloud(streamingId);
@@ -1466,10 +2407,12 @@ export class LidarControl implements IControl {
           streamingIds.includes(this._state.activePointCloudId || '')
             ? pointClouds[0]?.id || null
             : this._state.activePointCloudId,
+        ...this._removePointCloudStyles(streamingIds),
         streamingActive: false,
         streamingProgress: undefined,
         availableClassifications: new Set(),
         hiddenClassifications: new Set(),
+        availableAttributes: [],
       });
 
       if (streamingIds.length > 0) {
@@ -1490,9 +2433,114 @@ export class LidarControl implements IControl {
    */
   isStreaming(id?: string): boolean {
     if (id) {
-      return this._streamingLoaders.has(id) || this._eptStreamingLoaders.has(id);
+      return this._streamingLoaders.has(id) ||
+        this._eptStreamingLoaders.has(id) ||
+        this._tilesStreamingLoaders.has(id) ||
+        this._potreeStreamingLoaders.has(id);
+    }
+    return this._hasActiveStreaming();
+  }
+
+  /**
+   * Checks if any streaming loader (COPC, EPT, 3D Tiles or Potree) is active.
+   *
+   * @returns True if at least one streaming dataset is loaded
+   */
+  private _hasActiveStreaming(): boolean {
+    return this._streamingLoaders.size > 0 ||
+      this._eptStreamingLoaders.size > 0 ||
+      this._tilesStreamingLoaders.size > 0 ||
+      this._potreeStreamingLoaders.size > 0;
+  }
+
+  /**
+   * Creates the abort controller of a load, aborted by cancelLoad or the caller's signal.
+   * The load removes it from the set once it completes so later aborts have no effect.
+   *
+   * @param signal - Optional signal passed by the caller
+   * @returns The abort controller for the load
+   */
+  private _createLoadController(signal?: AbortSignal): AbortController {
+    const controller = new AbortController();
+    this._loadControllers.add(controller);
+
+    if (signal?.aborted) {
+      controller.abort();
+    } else {
+      signal?.addEventListener('abort', () => {
+        if (this._loadControllers.has(controller)) controller.abort();
+      }, { once: true });
+    }
+
+    return controller;
+  }
+
+  /**
+   * Loads a point cloud chosen in the panel. Failures are shown in the panel by
+   * loadPointCloud, and cancelling with the panel's Cancel button is not a failure.
+   *
+   * @param source - File or URL entered in the panel
+   */
+  private _loadFromPanel(source: File | string): void {
+    this.loadPointCloud(source).catch((err) => {
+      if (!isAbortError(err)) {
+        console.warn('Failed to load point cloud:', err);
+      }
+    });
+  }
+
+  /**
+   * Resets the loading state after a cancelled load and emits 'loadcancel'.
+   *
+   * @returns The AbortError to reject the load with
+   */
+  private _handleLoadCancelled(): DOMException {
+    this.setState({
+      loading: false,
+      streamingActive: this._hasActiveStreaming(),
+      error: null,
+    });
+    this._emit('loadcancel');
+    return new DOMException('The point cloud load was cancelled.', 'AbortError');
+  }
+
+  /**
+   * Gets the storage used by the persistent node cache.
+   *
+   * @returns Number and total size of cached nodes
+   */
+  async getCacheUsage(): Promise<CacheUsage> {
+    return this._getOrCreatePersistentCache().getUsage();
+  }
+
+  /**
+   * Removes nodes from the persistent node cache.
+   *
+   * @param url - Dataset URL (COPC file or EPT directory) to remove the nodes of. If not provided, clears the whole cache.
+   */
+  async clearCache(url?: string): Promise<void> {
+    await this._getOrCreatePersistentCache().clear(url?.replace(/\/ept\.json$/, '').replace(/\/$/, ''));
+  }
+
+  /**
+   * Gets the persistent node cache passed to streaming loaders.
+   *
+   * @returns The cache, or null if the persistentCache option is disabled
+   */
+  private _getPersistentCache(): PersistentNodeCache | null {
+    return this._options.persistentCache ? this._getOrCreatePersistentCache() : null;
+  }
+
+  /**
+   * Gets the persistent node cache, creating it on first use.
+   *
+   * @returns The cache
+   */
+  private _getOrCreatePersistentCache(): PersistentNodeCache {
+    if (!this._persistentCache) {
+      this._persistentCache = new PersistentNodeCache({ maxSizeBytes: this._options.persistentCacheMaxSize });
     }
-    return this._streamingLoaders.size > 0 || this._eptStreamingLoaders.size > 0;
+    return this._persistentCache;
   }
 
   /**
@@ -1507,7 +2555,7 @@ export class LidarControl implements IControl {
   /**
    * Sets the point size.
    *
-   * @param size - Point size in pixels
+   * @param size - Point size in pixels, or relative to the point spacing when sized in meters
    */
   setPointSize(size: number): void {
     this._state.pointSize = size;
@@ -1516,6 +2564,55 @@ export class LidarControl implements IControl {
     this._emit('statechange');
   }
 
+  /**
+   * Sets the units of the point size. In 'meters' mode points are sized relative to the
+   * point spacing of the dataset, so they shrink when zooming out; in 'adaptive' mode the
+   * points of each streamed octree node are sized relative to the spacing of its level.
+   *
+   * @param mode - 'pixels', 'meters' or 'adaptive'
+   */
+  setPointSizeMode(mode: PointSizeMode): void {
+    this._state.pointSizeMode = mode;
+    this._pointCloudManager?.setPointSizeMode(mode);
+    this._emit('stylechange');
+    this._emit('statechange');
+  }
+
+  /**
+   * Gets the units of the point size.
+   *
+   * @returns 'pixels', 'meters' or 'adaptive'
+   */
+  getPointSizeMode(): PointSizeMode {
+    return this._state.pointSizeMode;
+  }
+
+  /**
+   * Sets the range of the point radius in pixels when points are sized in meters.
+   *
+   * @param minPixels - Minimum point radius in pixels
+   * @param maxPixels - Maximum point radius in pixels
+   */
+  setPointSizePixelRange(minPixels: number, maxPixels: number): void {
+    if (minPixels < 0 || maxPixels < minPixels) {
+      throw new Error('Point size pixel range must not be negative and its maximum must not be below its minimum');
+    }
+    this._state.pointSizeMinPixels = minPixels;
+    this._state.pointSizeMaxPixels = maxPixels;
+    this._pointCloudManager?.setPointSizePixelRange(minPixels, maxPixels);
+    this._emit('stylechange');
+    this._emit('statechange');
+  }
+
+  /**
+   * Gets the range of the point radius in pixels when points are sized in meters.
+   *
+   * @returns [min, max] point radius in pixels
+   */
+  getPointSizePixelRange(): [number, number] {
+    return [this._state.pointSizeMinPixels, this._state.pointSizeMaxPixels];
+  }
+
   /**
    * Sets the opacity.
    *
@@ -1523,6 +2620,13 @@ export class LidarControl implements IControl {
    */
   setOpacity(opacity: number): void {
     this._state.opacity = opacity;
+    // Per-point-cloud opacities are cleared so the global opacity takes effect
+    const pointCloudStyles = { ...this._state.pointCloudStyles };
+    for (const [id, style] of Object.entries(pointCloudStyles)) {
+      pointCloudStyles[id] = { ...style };
+      delete pointCloudStyles[id].opacity;
+    }
+    this._state.pointCloudStyles = pointCloudStyles;
     this._pointCloudManager?.setOpacity(opacity);
     this._emit('stylechange');
     this._emit('statechange');
@@ -1535,35 +2639,18 @@ export class LidarControl implements IControl {
    * @param scheme - Color scheme to apply
    */
   setColorScheme(scheme: ColorScheme): void {
-    const previousScheme = this._state.colorScheme;
+    const { colorRange, colormap } = this._getColorSchemeSwitchStyle(this._state.colorScheme, scheme);
     this._state.colorScheme = scheme;
     this._pointCloudManager?.setColorScheme(scheme);
+    this._ensureNormals();
 
-    // Auto-switch colormap and reset color range when changing between elevation and intensity
-    if (typeof scheme === 'string' && typeof previousScheme === 'string') {
-      const isNewElevationOrIntensity = scheme === 'elevation' || scheme === 'intensity';
-      const wasElevationOrIntensity = previousScheme === 'elevation' || previousScheme === 'intensity';
-      const switchedBetweenElevationAndIntensity = isNewElevationOrIntensity && wasElevationOrIntensity && scheme !== previousScheme;
-
-      if (switchedBetweenElevationAndIntensity) {
-        // Reset color range to default percentile mode
-        this._state.colorRange = {
-          mode: 'percentile',
-          percentileLow: 2,
-          percentileHigh: 98,
-        };
-        this._pointCloudManager?.setColorRange(this._state.colorRange);
-      }
-
-      if (scheme === 'intensity' && previousScheme !== 'intensity') {
-        // Switch to grayscale for intensity
-        this._state.colormap = 'gray';
-        this._pointCloudManager?.setColormap('gray');
-      } else if (scheme === 'elevation' && previousScheme === 'intensity') {
-        // Switch back to viridis for elevation
-        this._state.colormap = 'viridis';
-        this._pointCloudManager?.setColormap('viridis');
-      }
+    if (colorRange) {
+      this._state.colorRange = colorRange;
+      this._pointCloudManager?.setColorRange(colorRange);
+    }
+    if (colormap) {
+      this._state.colormap = colormap;
+      this._pointCloudManager?.setColormap(colormap);
     }
 
     // Update computed color bounds for the new scheme
@@ -1574,6 +2661,41 @@ export class LidarControl implements IControl {
     this._emit('statechange');
   }
 
+  /**
+   * Gets the colormap and color range to switch to when changing color schemes.
+   * Switches to grayscale for intensity and back to viridis for elevation, and resets the
+   * color range when changing between elevation and intensity.
+   *
+   * @param previousScheme - Current color scheme
+   * @param scheme - New color scheme
+   * @returns Colormap and color range to apply, if they change
+   */
+  private _getColorSchemeSwitchStyle(
+    previousScheme: ColorScheme,
+    scheme: ColorScheme
+  ): Partial<Pick<PointCloudStyle, 'colormap' | 'colorRange'>> {
+    const style: Partial<Pick<PointCloudStyle, 'colormap' | 'colorRange'>> = {};
+    if (typeof scheme !== 'string' || typeof previousScheme !== 'string') return style;
+
+    const isNewElevationOrIntensity = scheme === 'elevation' || scheme === 'intensity';
+    const wasElevationOrIntensity = previousScheme === 'elevation' || previousScheme === 'intensity';
+    if (isNewElevationOrIntensity && wasElevationOrIntensity && scheme !== previousScheme) {
+      // Reset color range to default percentile mode
+      style.colorRange = {
+        mode: 'percentile',
+        percentileLow: 2,
+        percentileHigh: 98,
+      };
+    }
+
+    if (scheme === 'intensity' && previousScheme !== 'intensity') {
+      style.colormap = 'gray';
+    } else if ((scheme === 'elevation' || scheme === 'elevationIntensity') && previousScheme === 'intensity') {
+      style.colormap = 'viridis';
+    }
+    return style;
+  }
+
   /**
    * Sets the colormap for elevation/intensity coloring.
    *
@@ -1597,6 +2719,29 @@ export class LidarControl implements IControl {
     return this._state.colormap;
   }
 
+  /**
+   * Sets the weight of the intensity shading of the 'rgbIntensity', 'elevationIntensity'
+   * and 'classificationIntensity' color schemes.
+   *
+   * @param weight - Weight from 0 (colors without shading) to 1 (colors scaled by the intensity)
+   */
+  setIntensityBlend(weight: number): void {
+    this._state.intensityBlend = Math.min(1, Math.max(0, weight));
+    this._pointCloudManager?.setIntensityBlend(this._state.intensityBlend);
+    this._panelBuilder?.updateState(this._state);
+    this._emit('stylechange');
+    this._emit('statechange');
+  }
+
+  /**
+   * Gets the weight of the intensity shading of the intensity-blended color schemes.
+   *
+   * @returns Weight from 0 to 1
+   */
+  getIntensityBlend(): number {
+    return this._state.intensityBlend;
+  }
+
   /**
    * Sets the color range configuration.
    *
@@ -1703,6 +2848,7 @@ export class LidarControl implements IControl {
       // Reset offset to 0 when disabled
       this._state.zOffset = 0;
       this._pointCloudManager?.setZOffset(0);
+      this._clipBoxTool?.setZOffset(0);
     }
     this._emit('stylechange');
     this._emit('statechange');
@@ -1716,6 +2862,7 @@ export class LidarControl implements IControl {
   setZOffset(offset: number): void {
     this._state.zOffset = offset;
     this._pointCloudManager?.setZOffset(offset);
+    this._clipBoxTool?.setZOffset(offset);
     this._emit('stylechange');
     this._emit('statechange');
   }
@@ -1729,6 +2876,189 @@ export class LidarControl implements IControl {
     return this._state.zOffset;
   }
 
+  /**
+   * Enables or disables Eye-Dome Lighting, which darkens points that are behind their
+   * neighbors on screen to bring out edges and relief for every color scheme.
+   *
+   * @param enabled - Whether Eye-Dome Lighting should be enabled
+   */
+  setEdlEnabled(enabled: boolean): void {
+    this._state.edlEnabled = enabled;
+    this._updateEdlEffect();
+    this._emit('stylechange');
+    this._emit('statechange');
+  }
+
+  /**
+   * Sets the Eye-Dome Lighting strength.
+   *
+   * @param strength - Strength (0 disables shading, larger values darken edges more)
+   */
+  setEdlStrength(strength: number): void {
+    this._state.edlStrength = Math.max(0, strength);
+    this._updateEdlEffect();
+    this._emit('stylechange');
+    this._emit('statechange');
+  }
+
+  /**
+   * Sets the Eye-Dome Lighting radius.
+   *
+   * @param radius - Distance in pixels to the neighbors compared with each point
+   */
+  setEdlRadius(radius: number): void {
+    this._state.edlRadius = Math.max(0, radius);
+    this._updateEdlEffect();
+    this._emit('stylechange');
+    this._emit('statechange');
+  }
+
+  /**
+   * Gets the Eye-Dome Lighting settings.
+   *
+   * @returns Whether Eye-Dome Lighting is enabled, and its strength and radius
+   */
+  getEdl(): { enabled: boolean; strength: number; radius: number } {
+    return { enabled: this._state.edlEnabled, strength: this._state.edlStrength, radius: this._state.edlRadius };
+  }
+
+  /**
+   * Adds, updates or removes the Eye-Dome Lighting effect of the deck.gl overlay.
+   */
+  private _updateEdlEffect(): void {
+    if (!this._deckOverlay) return;
+
+    if (!this._state.edlEnabled) {
+      this._deckOverlay.setEffects([]);
+      return;
+    }
+
+    // deck.gl keeps the effect in use and takes the settings of the new one
+    this._deckOverlay.setEffects([
+      new EyeDomeLightingEffect({ strength: this._state.edlStrength, radius: this._state.edlRadius }),
+    ]);
+  }
+
+  /**
+   * Enables or disables shading points by the direction of their surface.
+   * Normals are estimated for point clouds that have none.
+   *
+   * @param enabled - Whether points are shaded by their normals
+   */
+  setNormalShading(enabled: boolean): void {
+    this._state.normalShading = enabled;
+    this._pointCloudManager?.setNormalShading(enabled);
+    this._ensureNormals();
+    this._emit('stylechange');
+    this._emit('statechange');
+  }
+
+  /**
+   * Gets whether points are shaded by their normals.
+   *
+   * @returns True if normal shading is enabled
+   */
+  getNormalShading(): boolean {
+    return this._state.normalShading;
+  }
+
+  /**
+   * Estimates the normals of the points by principal component analysis of their nearest
+   * neighbors, on the decode workers when the workerUrl option is set. Normals are estimated
+   * automatically when normal shading or the 'normal', 'slope' or 'aspect' color scheme is
+   * used; as streamed point clouds load new nodes, their normals are estimated again.
+   *
+   * @param id - Point cloud ID, or undefined for all point clouds
+   * @returns Promise that resolves when the normals are applied
+   */
+  async estimateNormals(id?: string): Promise<void> {
+    const ids = id ? [id] : this._state.pointClouds.map((pc) => pc.id);
+    await Promise.all(ids.map((pointCloudId) => this._estimatePointCloudNormals(pointCloudId)));
+  }
+
+  /**
+   * Estimates normals of point clouds without them when normal shading or a color scheme
+   * computed from normals is used.
+   *
+   * @param id - Point cloud ID, or undefined for all point clouds
+   */
+  private _ensureNormals(id?: string): void {
+    const ids = id ? [id] : this._state.pointClouds.map((pc) => pc.id);
+    for (const pointCloudId of ids) {
+      const scheme = this.getPointCloudStyle(pointCloudId).colorScheme;
+      const needsNormals = this._state.normalShading || NORMAL_COLOR_SCHEMES.includes(scheme);
+      const data = this._pointCloudManager?.getPointCloudData(pointCloudId);
+      // A running estimation estimates the points loaded meanwhile once it finishes
+      if (!needsNormals || !data || data.normals || this._normalEstimations.has(pointCloudId)) continue;
+
+      this._estimatePointCloudNormals(pointCloudId).catch((err) => {
+        // Estimations are aborted when the control is removed
+        if (!isAbortError(err)) {
+          console.warn('Failed to estimate point normals:', err);
+        }
+      });
+    }
+  }
+
+  /**
+   * Estimates the normals of a point cloud and applies them, unless its points changed
+   * meanwhile, in which case the normals of the new points are estimated after a delay.
+   * Only one estimation runs per point cloud, so streamed nodes arriving during an
+   * estimation are estimated together rather than each starting an estimation.
+   *
+   * @param id - Point cloud ID
+   * @returns Promise that resolves when the normals are applied
+   */
+  private _estimatePointCloudNormals(id: string): Promise<void> {
+    const data = this._pointCloudManager?.getPointCloudData(id);
+    if (!data) return Promise.resolve();
+    const running = this._normalEstimations.get(id);
+    if (running) return running.promise;
+
+    const task: NormalEstimationTask = {
+      type: 'normals',
+      // Copied so that views of the streaming buffers are not posted whole
+      positions: data.positions.slice(),
+      coordinateOrigin: data.coordinateOrigin,
+      neighborCount: this._options.normalNeighborCount,
+    };
+    if (!this._normalWorkerPool && this._options.workerUrl) {
+      this._normalWorkerPool = new WorkerPool(this._options.workerUrl, this._options.workerCount);
+    }
+    const normals = this._normalWorkerPool
+      ? this._normalWorkerPool.estimateNormals(task)
+      : new Promise<Float32Array>((resolve) => resolve(estimateNormals(task)));
+
+    const finish = () => {
+      if (this._normalEstimations.get(id)?.promise === promise) {
+        this._normalEstimations.delete(id);
+      }
+    };
+    const promise: Promise<void> = normals.then(
+      (result) => {
+        if (this._pointCloudManager?.getPointCloudData(id) !== data) {
+          // Streamed points changed while estimating. The estimation stays registered while
+          // waiting, so nodes arriving meanwhile do not start estimations of their own.
+          return new Promise<void>((resolve) => setTimeout(resolve, NORMAL_ESTIMATION_INTERVAL_MS)).then(() => {
+            finish();
+            return this._estimatePointCloudNormals(id);
+          });
+        }
+        finish();
+        this._pointCloudManager.setPointCloudNormals(id, result);
+        this._updateComputedColorBounds();
+        this._panelBuilder?.updateState(this._state);
+        this._emit('stylechange');
+      },
+      (err) => {
+        finish();
+        throw err;
+      }
+    );
+    this._normalEstimations.set(id, { data, promise });
+    return promise;
+  }
+
   /**
    * Enables or disables 3D terrain visualization.
    *
@@ -1861,24 +3191,55 @@ export class LidarControl implements IControl {
     }
   }
 
+  /**
+   * Emits a nodesfailed event listing the failed nodes of a streaming dataset.
+   * Failures are batched so a burst of failed requests produces a single event.
+   *
+   * @param id - Point cloud ID
+   * @param loader - Streaming loader of the point cloud
+   */
+  private _scheduleFailedNodesEvent(id: string, loader: { getFailedNodes(): FailedNodeInfo[] }): void {
+    if (this._failedNodesTimeouts.has(id)) return;
+
+    this._failedNodesTimeouts.set(id, setTimeout(() => {
+      this._failedNodesTimeouts.delete(id);
+      const failedNodes = loader.getFailedNodes();
+      if (failedNodes.length > 0) {
+        this._emitWithData('nodesfailed', { pointCloud: { id }, failedNodes });
+      }
+    }, 500));
+  }
+
   /**
    * Updates the computed color bounds based on the current color scheme and range settings.
-   * This is used to display accurate min/max values in the colorbar.
+   * This is used to display accurate min/max values in the colorbar and the category legend.
    */
   private _updateComputedColorBounds(): void {
     if (this._state.pointClouds.length === 0) {
       this._state.computedColorBounds = undefined;
+      this._state.computedColorCategories = undefined;
       return;
     }
 
+    // The panel shows the colors of the point cloud whose style it edits
+    const targetId = this._state.styleTargetId;
+
+    // Categories are only produced by categorical custom schemes
+    this._state.computedColorCategories = targetId
+      ? this._pointCloudManager?.getPointCloudColorCategories(targetId)
+      : this._pointCloudManager?.getLastComputedCategories();
+
     // Get the actual computed bounds from PointCloudManager
     // This returns the real bounds used for coloring (including actual percentile calculations)
-    const actualBounds = this._pointCloudManager?.getLastComputedBounds();
+    const actualBounds = targetId
+      ? this._pointCloudManager?.getPointCloudColorBounds(targetId)
+      : this._pointCloudManager?.getLastComputedBounds();
     if (actualBounds) {
       this._state.computedColorBounds = actualBounds;
     } else {
       // Fallback to data bounds if no computed bounds available
-      const colorScheme = typeof this._state.colorScheme === 'string' ? this._state.colorScheme : 'elevation';
+      const scheme = targetId ? this.getPointCloudStyle(targetId).colorScheme : this._state.colorScheme;
+      const colorScheme = typeof scheme === 'string' ? scheme : 'elevation';
       if (colorScheme === 'intensity') {
         this._state.computedColorBounds = this._getIntensityBounds();
       } else {
@@ -1985,24 +3346,81 @@ export class LidarControl implements IControl {
     // Create content area using PanelBuilder
     this._panelBuilder = new PanelBuilder(
       {
-        onFileSelect: (file) => this.loadPointCloud(file),
-        onUrlSubmit: (url) => this.loadPointCloud(url),
-        onPointSizeChange: (size) => this.setPointSize(size),
-        onOpacityChange: (opacity) => this.setOpacity(opacity),
-        onColorSchemeChange: (scheme) => this.setColorScheme(scheme),
-        onColormapChange: (colormap) => this.setColormap(colormap),
-        onColorRangeChange: (config) => this.setColorRange(config),
-        onUsePercentileChange: (usePercentile) => this.setUsePercentile(usePercentile),
+        onFileSelect: (file) => this._loadFromPanel(file),
+        onUrlSubmit: (url) => this._loadFromPanel(url),
+        onPointSizeChange: (size) => this._applyPanelStyle({ pointSize: size }, () => this.setPointSize(size)),
+        onOpacityChange: (opacity) => this._applyPanelStyle({ opacity }, () => this.setOpacity(opacity)),
+        onColorSchemeChange: (scheme) => {
+          const targetId = this._state.styleTargetId;
+          const previousScheme = targetId ? this.getPointCloudStyle(targetId).colorScheme : this._state.colorScheme;
+          this._applyPanelStyle(
+            { colorScheme: scheme, ...this._getColorSchemeSwitchStyle(previousScheme, scheme) },
+            () => this.setColorScheme(scheme)
+          );
+        },
+        onColormapChange: (colormap) => this._applyPanelStyle({ colormap }, () => this.setColormap(colormap)),
+        onColorRangeChange: (config) => this._applyPanelStyle({ colorRange: config }, () => this.setColorRange(config)),
+        onIntensityBlendChange: (weight) =>
+          this._applyPanelStyle({ intensityBlend: weight }, () => this.setIntensityBlend(weight)),
+        onUsePercentileChange: (usePercentile) =>
+          this._applyPanelStyle({ usePercentile }, () => this.setUsePercentile(usePercentile)),
         onElevationRangeChange: (range) => {
-          if (range) {
-            this.setElevationRange(range[0], range[1]);
+          this._applyPanelStyle({ elevationRange: range }, () => {
+            if (range) {
+              this.setElevationRange(range[0], range[1]);
+            } else {
+              this.clearElevationRange();
+            }
+          });
+        },
+        onAttributeFilterChange: (name, range) => {
+          const targetId = this._state.styleTargetId;
+          if (targetId) {
+            const attributeFilters = { ...this.getPointCloudStyle(targetId).attributeFilters };
+            if (range) {
+              attributeFilters[name] = range;
+            } else {
+              delete attributeFilters[name];
+            }
+            this.setPointCloudStyle(targetId, { attributeFilters });
+          } else {
+            this.setAttributeFilter(name, range);
+          }
+        },
+        onFilterExpressionChange: (expression) => {
+          try {
+            this.setFilterExpression(expression);
+          } catch (err) {
+            this.setState({ filterExpressionError: (err as Error).message });
+          }
+        },
+        getAttributeRange: (name) => this.getAttributeRange(name, this._state.styleTargetId ?? undefined),
+        onGpsTimeWindowChange: (window) => {
+          if (window) {
+            this.setGpsTimeWindow(window[0], window[1]);
           } else {
-            this.clearElevationRange();
+            this.clearGpsTimeWindow();
           }
         },
+        onGpsTimePlayingChange: (playing) => (playing ? this.playGpsTime() : this.pauseGpsTime()),
+        onGpsTimeSpeedChange: (speed) => this.setGpsTimeSpeed(speed),
         onPickableChange: (pickable) => this.setPickable(pickable),
-        onZOffsetEnabledChange: (enabled) => this.setZOffsetEnabled(enabled),
-        onZOffsetChange: (offset) => this.setZOffset(offset),
+        onZOffsetEnabledChange: (enabled) => {
+          if (this._state.styleTargetId) {
+            // Only toggles the slider; the offset of the edited point cloud is set by onZOffsetChange
+            this.setState({ zOffsetEnabled: enabled });
+          } else {
+            this.setZOffsetEnabled(enabled);
+          }
+        },
+        onZOffsetChange: (offset) => this._applyPanelStyle({ zOffset: offset }, () => this.setZOffset(offset)),
+        onPointSizeModeChange: (mode) => this.setPointSizeMode(mode),
+        onPointSizePixelRangeChange: (minPixels, maxPixels) => this.setPointSizePixelRange(minPixels, maxPixels),
+        onNormalShadingChange: (enabled) => this.setNormalShading(enabled),
+        onEdlEnabledChange: (enabled) => this.setEdlEnabled(enabled),
+        onEdlStrengthChange: (strength) => this.setEdlStrength(strength),
+        onEdlRadiusChange: (radius) => this.setEdlRadius(radius),
+        onStyleTargetChange: (id) => this.setStyleTarget(id),
         onUnload: (id) => this.unloadPointCloud(id),
         onZoomTo: (id) => this.flyToPointCloud(id),
         onClassificationToggle: (code, visible) => this._toggleClassification(code, visible),
@@ -2010,7 +3428,16 @@ export class LidarControl implements IControl {
         onClassificationHideAll: () => this._hideAllClassifications(),
         onTerrainChange: (enabled) => this.setTerrain(enabled),
         onShowMetadata: (id) => this.showMetadataPanel(id),
+        onExport: (id) => {
+          try {
+            this.downloadPointCloud({ id, applyFilters: true });
+          } catch (err) {
+            this.setState({ error: `Export failed: ${(err as Error).message}` });
+          }
+        },
         onCrossSectionPanel: () => this.getCrossSectionPanel().render(),
+        onClipPanel: () => this.getClipPanel().render(),
+        onCancelLoad: () => this.cancelLoad(),
       },
       this._state
     );
@@ -2048,25 +3475,6 @@ export class LidarControl implements IControl {
     return tooltip;
   }
 
-  /**
-   * Formats a GPS time value (GPS Week Seconds) to a readable string.
-   */
-  private _formatGpsTime(gpsTime: number): string {
-    // GPS epoch is January 6, 1980
-    // GPS time is typically in seconds since GPS epoch or week seconds
-    // We'll detect based on magnitude
-    if (gpsTime > 1e9) {
-      // Likely GPS seconds since epoch - convert to date
-      const gpsEpoch = Date.UTC(1980, 0, 6, 0, 0, 0);
-      const leapSeconds = 18; // Current leap seconds offset (as of 2024)
-      const utcTime = gpsEpoch + (gpsTime - leapSeconds) * 1000;
-      const date = new Date(utcTime);
-      return date.toISOString().replace('T', ' ').slice(0, 19);
-    }
-    // Otherwise return as raw seconds (week seconds format)
-    return gpsTime.toFixed(6);
-  }
-
   /**
    * Formats a value for display in the tooltip.
    */
@@ -2075,7 +3483,7 @@ export class LidarControl implements IControl {
     const lowerName = name.toLowerCase();
 
     if (lowerName === 'gpstime') {
-      return this._formatGpsTime(value);
+      return formatGpsTime(value);
     }
     if (lowerName === 'intensity') {
       // Intensity is already normalized to 0-1
@@ -2166,67 +3574,553 @@ export class LidarControl implements IControl {
         html += `<div>Z: ${info.elevation.toFixed(2)}</div>`;
       }
 
-      // Intensity
-      if (info.intensity !== undefined && this._shouldShowAttribute('Intensity')) {
-        html += `<div>Intensity: ${this._formatAttributeValue('Intensity', info.intensity)}</div>`;
-      }
+      // Intensity
+      if (info.intensity !== undefined && this._shouldShowAttribute('Intensity')) {
+        html += `<div>Intensity: ${this._formatAttributeValue('Intensity', info.intensity)}</div>`;
+      }
+
+      // Classification
+      if (info.classification !== undefined && this._shouldShowAttribute('Classification')) {
+        html += `<div>Classification: ${this._getClassificationName(info.classification)}</div>`;
+      }
+
+      // RGB colors
+      if (info.red !== undefined && this._shouldShowAttribute('Red')) {
+        html += `<div>Red: ${info.red}</div>`;
+      }
+      if (info.green !== undefined && this._shouldShowAttribute('Green')) {
+        html += `<div>Green: ${info.green}</div>`;
+      }
+      if (info.blue !== undefined && this._shouldShowAttribute('Blue')) {
+        html += `<div>Blue: ${info.blue}</div>`;
+      }
+
+      // All extra attributes
+      if (info.attributes) {
+        for (const [name, value] of Object.entries(info.attributes)) {
+          if (this._shouldShowAttribute(name)) {
+            const formattedValue = this._formatAttributeValue(name, value);
+            html += `<div>${name}: ${formattedValue}</div>`;
+          }
+        }
+      }
+
+      this._tooltip.innerHTML = html;
+      this._tooltip.style.display = 'block';
+
+      // Get map container offset for correct positioning in embedded contexts (Jupyter, iframes)
+      const containerRect = this._mapContainer?.getBoundingClientRect();
+      const offsetX = containerRect?.left ?? 0;
+      const offsetY = containerRect?.top ?? 0;
+
+      this._tooltip.style.left = `${info.x + offsetX + 15}px`;
+      this._tooltip.style.top = `${info.y + offsetY + 15}px`;
+    } else {
+      this._tooltip.style.display = 'none';
+    }
+  }
+
+  /**
+   * Sets which fields to display in the pick point info panel.
+   *
+   * @param fields - Array of attribute names to show, or undefined/empty to show all
+   */
+  setPickInfoFields(fields?: string[]): void {
+    this._state.pickInfoFields = fields;
+    this._emit('statechange');
+  }
+
+  /**
+   * Gets the current list of fields shown in pick point info.
+   */
+  getPickInfoFields(): string[] | undefined {
+    return this._state.pickInfoFields;
+  }
+
+  // ==================== Per-Point-Cloud Style API ====================
+
+  /**
+   * Sets style overrides for a specific point cloud, e.g. a different color scheme
+   * or z offset than the other point clouds. Properties that are not overridden
+   * follow the global style set by setPointSize(), setColorScheme(), etc.
+   *
+   * @param id - Point cloud ID
+   * @param style - Style properties to override
+   */
+  setPointCloudStyle(id: string, style: Partial<PointCloudStyle>): void {
+    this._state.pointCloudStyles = {
+      ...this._state.pointCloudStyles,
+      [id]: { ...this._state.pointCloudStyles[id], ...style },
+    };
+    this._pointCloudManager?.setPointCloudStyle(id, style);
+    this._ensureNormals(id);
+    this._updateComputedColorBounds();
+    this._panelBuilder?.updateState(this._state);
+    this._emit('stylechange');
+    this._emit('statechange');
+  }
+
+  /**
+   * Gets the style of a specific point cloud: the global style with the point cloud's overrides.
+   *
+   * @param id - Point cloud ID
+   * @returns The point cloud style
+   */
+  getPointCloudStyle(id: string): PointCloudStyle {
+    return {
+      pointSize: this._state.pointSize,
+      opacity: this._state.opacity,
+      colorScheme: this._state.colorScheme,
+      colormap: this._state.colormap,
+      colorRange: this._state.colorRange,
+      usePercentile: this._state.usePercentile,
+      intensityBlend: this._state.intensityBlend,
+      elevationRange: this._state.elevationRange,
+      zOffset: this._state.zOffset,
+      attributeFilters: this._state.attributeFilters,
+      ...this._state.pointCloudStyles[id],
+    };
+  }
+
+  /**
+   * Clears the style overrides of a point cloud so it follows the global style again.
+   *
+   * @param id - Point cloud ID
+   */
+  clearPointCloudStyle(id: string): void {
+    this._state.pointCloudStyles = this._removePointCloudStyles([id]).pointCloudStyles;
+    this._pointCloudManager?.clearPointCloudStyle(id);
+    this._updateComputedColorBounds();
+    this._panelBuilder?.updateState(this._state);
+    this._emit('stylechange');
+    this._emit('statechange');
+  }
+
+  /**
+   * Sets the point cloud whose style the panel's styling controls edit.
+   * The point cloud also becomes the active point cloud.
+   *
+   * @param id - Point cloud ID, or null to edit the style of all point clouds
+   */
+  setStyleTarget(id: string | null): void {
+    this._state.styleTargetId = id;
+    if (id) {
+      this._state.activePointCloudId = id;
+    }
+    this._updateComputedColorBounds();
+    this._panelBuilder?.updateState(this._state);
+    this._emit('statechange');
+  }
+
+  /**
+   * Gets the point cloud whose style the panel's styling controls edit.
+   *
+   * @returns Point cloud ID, or null if the panel edits the style of all point clouds
+   */
+  getStyleTarget(): string | null {
+    return this._state.styleTargetId;
+  }
+
+  /**
+   * Applies a style change from the panel to the point cloud whose style it edits,
+   * or to all point clouds.
+   *
+   * @param style - Style of the edited point cloud
+   * @param applyGlobal - Applies the change to all point clouds
+   */
+  private _applyPanelStyle(style: Partial<PointCloudStyle>, applyGlobal: () => void): void {
+    const targetId = this._state.styleTargetId;
+    if (targetId) {
+      this.setPointCloudStyle(targetId, style);
+    } else {
+      applyGlobal();
+    }
+  }
+
+  /**
+   * Gets the state update removing the style overrides of unloaded point clouds.
+   *
+   * @param ids - IDs of the unloaded point clouds
+   * @returns Style overrides and style target without the unloaded point clouds
+   */
+  private _removePointCloudStyles(ids: string[]): Pick<LidarState, 'pointCloudStyles' | 'styleTargetId'> {
+    const pointCloudStyles = { ...this._state.pointCloudStyles };
+    for (const id of ids) {
+      delete pointCloudStyles[id];
+    }
+    return {
+      pointCloudStyles,
+      styleTargetId: ids.includes(this._state.styleTargetId ?? '') ? null : this._state.styleTargetId,
+    };
+  }
+
+  // ==================== Attribute Filter API ====================
+
+  /**
+   * Sets a range filter on a point attribute, e.g. 'Intensity', 'ReturnNumber', the derived
+   * 'LastReturn' or any extra attribute of the loaded point clouds (see getAvailableAttributes()).
+   * Points are shown if they are within the ranges of all filtered attributes.
+   * Filters on attributes a point cloud does not have are ignored for that point cloud.
+   *
+   * @param name - Attribute name
+   * @param range - Inclusive range [min, max], or null to remove the filter
+   */
+  setAttributeFilter(name: string, range: [number, number] | null): void {
+    const attributeFilters = { ...this._state.attributeFilters };
+    if (range) {
+      attributeFilters[name] = range;
+    } else {
+      delete attributeFilters[name];
+    }
+    this._state.attributeFilters = attributeFilters;
+    this._pointCloudManager?.setAttributeFilters(attributeFilters);
+    this._panelBuilder?.updateState(this._state);
+    this._emit('stylechange');
+    this._emit('statechange');
+  }
+
+  /**
+   * Gets the attribute range filters.
+   *
+   * @returns Range [min, max] by attribute name
+   */
+  getAttributeFilters(): Record<string, [number, number]> {
+    return { ...this._state.attributeFilters };
+  }
+
+  /**
+   * Removes all attribute range filters.
+   */
+  clearAttributeFilters(): void {
+    this._state.attributeFilters = {};
+    this._pointCloudManager?.setAttributeFilters({});
+    this._panelBuilder?.updateState(this._state);
+    this._emit('stylechange');
+    this._emit('statechange');
+  }
+
+  /**
+   * Gets the names of the filterable attributes present in the loaded point clouds.
+   *
+   * @returns Attribute names
+   */
+  getAvailableAttributes(): string[] {
+    return [...this._state.availableAttributes];
+  }
+
+  /**
+   * Gets the range of values of an attribute in the loaded point clouds.
+   *
+   * @param name - Attribute name
+   * @param id - Point cloud ID. If not provided, covers all loaded point clouds.
+   * @returns Value range and whether the attribute has integer values, or null if no point cloud has it
+   */
+  getAttributeRange(name: string, id?: string): AttributeRange | null {
+    let min = Infinity;
+    let max = -Infinity;
+    let integer = true;
+
+    for (const pc of this._state.pointClouds) {
+      if (id && pc.id !== id) continue;
+      const data = this._pointCloudManager?.getPointCloudData(pc.id);
+      const values = data ? getAttributeValues(data, name) : undefined;
+      if (!data || !values) continue;
+
+      if (values instanceof Float32Array || values instanceof Float64Array) {
+        integer = false;
+      }
+      for (let i = 0; i < data.pointCount; i++) {
+        const value = values[i];
+        if (value < min) min = value;
+        if (value > max) max = value;
+      }
+    }
+
+    return min <= max ? { min, max, integer } : null;
+  }
+
+  /**
+   * Merges the attribute names of loaded data into the available attributes.
+   *
+   * @param data - Loaded point cloud data
+   * @returns The available attributes including those of the data
+   */
+  private _mergeAttributeNames(data: PointCloudData): string[] {
+    return Array.from(new Set([...this._state.availableAttributes, ...getAttributeNames(data)]));
+  }
+
+  // ==================== Filter Expression API ====================
+
+  /**
+   * Sets a filter expression points must pass to be shown, exported and merged, e.g.
+   * `Classification == 2 && ReturnNumber == NumberOfReturns && Intensity > 0.3`.
+   * Expressions are parsed without eval (see parseFilterExpression() for the syntax)
+   * and combine with the other filters.
+   *
+   * @param expression - Filter expression, or null (or an empty string) to remove the filter
+   * @throws Error if the expression is invalid or uses an attribute no loaded point cloud has
+   */
+  setFilterExpression(expression: string | null): void {
+    const trimmed = expression?.trim() || null;
+    if (trimmed) {
+      const known = new Set([...EXPRESSION_POINT_ATTRIBUTES, ...this._state.availableAttributes]);
+      const unknown = getExpressionAttributes(parseFilterExpression(trimmed)).filter((name) => !known.has(name));
+      if (this._state.pointClouds.length > 0 && unknown.length > 0) {
+        throw new Error(`Unknown attribute "${unknown[0]}"`);
+      }
+    }
+
+    this._state.filterExpression = trimmed;
+    this._state.filterExpressionError = null;
+    this._pointCloudManager?.setFilterExpression(trimmed);
+    this._panelBuilder?.updateState(this._state);
+    this._emit('stylechange');
+    this._emit('statechange');
+  }
+
+  /**
+   * Gets the filter expression.
+   *
+   * @returns Filter expression, or null if there is none
+   */
+  getFilterExpression(): string | null {
+    return this._state.filterExpression;
+  }
+
+  /**
+   * Gets the merged data of all loaded point clouds.
+   *
+   * @param applyFilters - Whether to keep only the points passing the filter expression,
+   *   the clip regions and the clip box
+   * @returns Merged point cloud data, or null if no data is loaded
+   */
+  getMergedPointCloudData(applyFilters: boolean = true): PointCloudData | null {
+    return this._pointCloudManager?.getMergedPointCloudData(applyFilters ? {
+      filterExpression: this._state.filterExpression,
+      clipRegions: this._state.clipRegions,
+      clipBox: this._state.clipBox,
+    } : {}) ?? null;
+  }
+
+  // ==================== GPS Time API ====================
+
+  /**
+   * Sets the window of GPS times of the points shown, e.g. to inspect the points of a single
+   * flight line. Point clouds without GpsTime are not filtered.
+   *
+   * @param start - Start of the window (GPS time)
+   * @param end - End of the window (GPS time)
+   */
+  setGpsTimeWindow(start: number, end: number): void {
+    this._applyGpsTimeWindow([Math.min(start, end), Math.max(start, end)]);
+    this._panelBuilder?.updateState(this._state);
+  }
+
+  /**
+   * Clears the GPS time window, showing the points of all GPS times, and stops its animation.
+   */
+  clearGpsTimeWindow(): void {
+    this._stopGpsTimeAnimation();
+    this._applyGpsTimeWindow(null);
+    this._panelBuilder?.updateState(this._state);
+  }
+
+  /**
+   * Gets the GPS time window.
+   *
+   * @returns Window [start, end] of GPS times of the points shown, or null if there is none
+   */
+  getGpsTimeWindow(): [number, number] | null {
+    return this._state.gpsTimeWindow ? [...this._state.gpsTimeWindow] : null;
+  }
+
+  /**
+   * Starts moving the GPS time window through the GPS times of the loaded point clouds,
+   * starting over from the first GPS time after the last one. Without a window, the window
+   * starts at the first GPS time and covers a tenth of the GPS times.
+   */
+  playGpsTime(): void {
+    if (this._state.gpsTimePlaying) return;
+    this._gpsTimeRange = this.getAttributeRange('GpsTime');
+    if (!this._gpsTimeRange) return;
+
+    if (!this._state.gpsTimeWindow) {
+      const { min, max } = this._gpsTimeRange;
+      this._applyGpsTimeWindow([min, min + (max - min) * GPS_TIME_DEFAULT_WINDOW]);
+    }
+    this._state.gpsTimePlaying = true;
+    this._gpsTimeFrameTime = null;
+    this._gpsTimeStateTime = null;
+    this._gpsTimeFrame = requestAnimationFrame((time) => this._stepGpsTime(time));
+    this._panelBuilder?.updateState(this._state);
+    this._emit('statechange');
+  }
+
+  /**
+   * Stops moving the GPS time window, keeping it where it is.
+   */
+  pauseGpsTime(): void {
+    if (!this._state.gpsTimePlaying) return;
+    this._stopGpsTimeAnimation();
+    this._panelBuilder?.updateState(this._state);
+    // The window moved since the last throttled events of the animation
+    this._emit('stylechange');
+    this._emit('statechange');
+  }
+
+  /**
+   * Sets the speed of the GPS time animation.
+   *
+   * @param speed - Speed factor (at 1, the window crosses the GPS times in 30 seconds)
+   */
+  setGpsTimeSpeed(speed: number): void {
+    this._state.gpsTimeSpeed = Math.max(0, speed);
+    this._panelBuilder?.updateState(this._state);
+    this._emit('statechange');
+  }
+
+  /**
+   * Applies a GPS time window to the point clouds and emits 'gpstimechange'.
+   *
+   * @param timeWindow - GPS time window [start, end], or null to show all points
+   * @param emitStateChange - Whether to also emit 'stylechange' and 'statechange'
+   *   (throttled while the window is playing)
+   */
+  private _applyGpsTimeWindow(timeWindow: [number, number] | null, emitStateChange: boolean = true): void {
+    this._state.gpsTimeWindow = timeWindow;
+    this._pointCloudManager?.setGpsTimeWindow(timeWindow);
+    this._emit('gpstimechange');
+    if (emitStateChange) {
+      this._emit('stylechange');
+      this._emit('statechange');
+    }
+  }
+
+  /**
+   * Cancels the animation frame of the GPS time animation.
+   */
+  private _stopGpsTimeAnimation(): void {
+    if (this._gpsTimeFrame !== null) {
+      cancelAnimationFrame(this._gpsTimeFrame);
+      this._gpsTimeFrame = null;
+    }
+    this._state.gpsTimePlaying = false;
+  }
+
+  /**
+   * Moves the GPS time window by the time elapsed since the last animation frame.
+   *
+   * @param time - Time of the animation frame in milliseconds
+   */
+  private _stepGpsTime(time: number): void {
+    const timeWindow = this._state.gpsTimeWindow;
+    if (!timeWindow || !this._gpsTimeRange) {
+      this.pauseGpsTime();
+      return;
+    }
 
-      // Classification
-      if (info.classification !== undefined && this._shouldShowAttribute('Classification')) {
-        html += `<div>Classification: ${this._getClassificationName(info.classification)}</div>`;
-      }
+    const elapsed = this._gpsTimeFrameTime === null ? 0 : (time - this._gpsTimeFrameTime) / 1000;
+    this._gpsTimeFrameTime = time;
+    const { min, max } = this._gpsTimeRange;
+    const width = timeWindow[1] - timeWindow[0];
+    let start = timeWindow[0] + ((max - min) / GPS_TIME_SWEEP_SECONDS) * this._state.gpsTimeSpeed * elapsed;
+    if (start > max) {
+      // Start over, with the GPS times of the points streamed meanwhile
+      this._gpsTimeRange = this.getAttributeRange('GpsTime') ?? this._gpsTimeRange;
+      start = this._gpsTimeRange.min;
+    }
 
-      // RGB colors
-      if (info.red !== undefined && this._shouldShowAttribute('Red')) {
-        html += `<div>Red: ${info.red}</div>`;
-      }
-      if (info.green !== undefined && this._shouldShowAttribute('Green')) {
-        html += `<div>Green: ${info.green}</div>`;
-      }
-      if (info.blue !== undefined && this._shouldShowAttribute('Blue')) {
-        html += `<div>Blue: ${info.blue}</div>`;
-      }
+    // The state is reported a few times per second; 'gpstimechange' follows every frame
+    const emitStateChange =
+      this._gpsTimeStateTime === null || time - this._gpsTimeStateTime >= GPS_TIME_STATE_INTERVAL_MS;
+    if (emitStateChange) {
+      this._gpsTimeStateTime = time;
+    }
+    this._applyGpsTimeWindow([start, start + width], emitStateChange);
+    this._panelBuilder?.updateGpsTimeWindow(this._state.gpsTimeWindow);
+    this._gpsTimeFrame = requestAnimationFrame((frameTime) => this._stepGpsTime(frameTime));
+  }
 
-      // All extra attributes
-      if (info.attributes) {
-        for (const [name, value] of Object.entries(info.attributes)) {
-          if (this._shouldShowAttribute(name)) {
-            const formattedValue = this._formatAttributeValue(name, value);
-            html += `<div>${name}: ${formattedValue}</div>`;
-          }
-        }
-      }
+  // ==================== Raster Colorization API ====================
 
-      this._tooltip.innerHTML = html;
-      this._tooltip.style.display = 'block';
+  /**
+   * Colors point clouds by sampling a raster at each point's position, e.g. an orthophoto
+   * for point clouds without RGB. The raster is a raster tile source of the map (by source ID),
+   * a tile URL template or a GeoTIFF. The colors replace the RGB of the points and are shown
+   * with the 'rgb' color scheme; streamed point clouds colorize their nodes as they load.
+   *
+   * @param source - ID of a raster source of the map, or the raster to sample
+   * @param id - Point cloud ID, or undefined for all point clouds
+   * @returns Promise that resolves when the loaded points are colorized
+   */
+  async colorizeFromRaster(source: string | RasterColorSource, id?: string): Promise<void> {
+    const colorizer = new RasterColorizer(
+      typeof source === 'string' ? this._getMapRasterSource(source) : source,
+      { transformRequest: this._options.transformRequest }
+    );
+    await colorizer.initialize();
 
-      // Get map container offset for correct positioning in embedded contexts (Jupyter, iframes)
-      const containerRect = this._mapContainer?.getBoundingClientRect();
-      const offsetX = containerRect?.left ?? 0;
-      const offsetY = containerRect?.top ?? 0;
+    const ids = id ? [id] : this._state.pointClouds.map((pc) => pc.id);
+    await Promise.all(ids.map((pointCloudId) => this._colorizePointCloud(pointCloudId, colorizer)));
 
-      this._tooltip.style.left = `${info.x + offsetX + 15}px`;
-      this._tooltip.style.top = `${info.y + offsetY + 15}px`;
-    } else {
-      this._tooltip.style.display = 'none';
-    }
+    this.setState({
+      pointClouds: this._state.pointClouds.map((pc) => (ids.includes(pc.id) ? { ...pc, hasRGB: true } : pc)),
+    });
+    this._emit('stylechange');
   }
 
   /**
-   * Sets which fields to display in the pick point info panel.
+   * Gets the tile source of a raster source of the map.
    *
-   * @param fields - Array of attribute names to show, or undefined/empty to show all
+   * @param sourceId - ID of the map source
+   * @returns Raster tile source
    */
-  setPickInfoFields(fields?: string[]): void {
-    this._state.pickInfoFields = fields;
-    this._emit('statechange');
+  private _getMapRasterSource(sourceId: string): RasterTileColorSource {
+    const source = this._map?.getSource(sourceId) as
+      | { type: string; tiles?: string[]; tileSize?: number; scheme?: string; minzoom?: number; maxzoom?: number }
+      | undefined;
+    if (!source) {
+      throw new Error(`Map source "${sourceId}" not found`);
+    }
+    // Sources from a TileJSON URL have their tiles once the TileJSON is loaded
+    if (source.type !== 'raster' || !source.tiles?.length) {
+      throw new Error(`Map source "${sourceId}" is not a loaded raster tile source`);
+    }
+    return {
+      type: 'tiles',
+      tiles: source.tiles,
+      tileSize: source.tileSize,
+      scheme: source.scheme === 'tms' ? 'tms' : 'xyz',
+      minzoom: source.minzoom,
+      maxzoom: source.maxzoom,
+    };
   }
 
   /**
-   * Gets the current list of fields shown in pick point info.
+   * Colorizes a point cloud: streaming loaders colorize their loaded nodes and the nodes
+   * loaded later, fully loaded point clouds are colorized at once.
+   *
+   * @param id - Point cloud ID
+   * @param colorizer - Raster colorizer
    */
-  getPickInfoFields(): string[] | undefined {
-    return this._state.pickInfoFields;
+  private async _colorizePointCloud(id: string, colorizer: RasterColorizer): Promise<void> {
+    const streamingLoader =
+      this._streamingLoaders.get(id) ??
+      this._eptStreamingLoaders.get(id) ??
+      this._tilesStreamingLoaders.get(id) ??
+      this._potreeStreamingLoaders.get(id);
+    if (streamingLoader) {
+      await streamingLoader.setColorizer(colorizer);
+      return;
+    }
+
+    const data = this._pointCloudManager?.getPointCloudData(id);
+    if (!data) return;
+    const colorized = await colorizer.colorizePointCloud(data);
+    // Skipped if the point cloud was removed or replaced while colorizing
+    if (this._pointCloudManager?.getPointCloudData(id) === data) {
+      this._pointCloudManager.updatePointCloud(id, colorized);
+    }
   }
 
   // ==================== Classification Visibility API ====================
@@ -2322,6 +4216,12 @@ export class LidarControl implements IControl {
       if (this._crossSectionTool?.isEnabled() || this._crossSectionTool?.getLine()) {
         return;
       }
+      // Same while drawing clip regions or when there are any regions or a clip box (the click
+      // closing a region has already stopped drawing when it reaches this handler, and clicks
+      // end drags of the box handles)
+      if (this._clipTool?.isEnabled() || this._state.clipRegions.length > 0 || this._state.clipBox) {
+        return;
+      }
 
       const target = e.target as Node;
       if (
@@ -2510,6 +4410,26 @@ export class LidarControl implements IControl {
       };
     }
 
+    // Check if this is a 3D Tiles streaming dataset
+    const tilesLoader = this._tilesStreamingLoaders.get(id);
+    if (tilesLoader) {
+      return {
+        type: '3dtiles',
+        tiles3d: tilesLoader.getExtendedMetadata(),
+        basic,
+      };
+    }
+
+    // Check if this is a Potree streaming dataset
+    const potreeLoader = this._potreeStreamingLoaders.get(id);
+    if (potreeLoader) {
+      return {
+        type: 'potree',
+        potree: potreeLoader.getExtendedMetadata(),
+        basic,
+      };
+    }
+
     // Default to LAS type for non-streaming datasets
     return {
       type: 'las',
@@ -2670,4 +4590,485 @@ export class LidarControl implements IControl {
     }
     return this._crossSectionPanel;
   }
+
+  // ==================== Clip Region API ====================
+
+  /**
+   * Adds a region of the map that clips rendered and exported points. Points are shown if they
+   * are inside one of the enabled 'inside' regions (when there are any) and outside all the
+   * enabled 'outside' regions.
+   *
+   * @param geometry - Polygon or MultiPolygon in WGS84, or a GeoJSON feature with one
+   * @param options - Region options
+   * @returns ID of the region
+   */
+  addClipRegion(
+    geometry: GeoJSON.Polygon | GeoJSON.MultiPolygon | GeoJSON.Feature<GeoJSON.Polygon | GeoJSON.MultiPolygon>,
+    options: ClipRegionOptions = {}
+  ): string {
+    const feature = geometry.type === 'Feature' ? geometry : null;
+    const region: ClipRegion = {
+      id: generateId('clip'),
+      geometry: feature ? feature.geometry : geometry as GeoJSON.Polygon | GeoJSON.MultiPolygon,
+      mode: options.mode ?? 'inside',
+      enabled: options.enabled ?? true,
+      name: options.name ?? feature?.properties?.name ?? `Region ${this._state.clipRegions.length + 1}`,
+    };
+    this._setClipRegions([...this._state.clipRegions, region]);
+    return region.id;
+  }
+
+  /**
+   * Adds the Polygon and MultiPolygon features of GeoJSON as clip regions, e.g. parcels
+   * or regions exported with getClipRegionsGeoJSON(). The mode, enabled and name
+   * properties of features override the options.
+   *
+   * @param geojson - GeoJSON feature collection, feature or geometry
+   * @param options - Options of the regions
+   * @returns IDs of the added regions
+   * @throws Error if the GeoJSON has no Polygon or MultiPolygon
+   */
+  addClipRegionsFromGeoJSON(geojson: GeoJSON.GeoJSON, options: ClipRegionOptions = {}): string[] {
+    const features = geojson.type === 'FeatureCollection'
+      ? geojson.features
+      : [geojson.type === 'Feature' ? geojson : { type: 'Feature' as const, properties: null, geometry: geojson }];
+
+    const ids: string[] = [];
+    for (const feature of features) {
+      const { geometry, properties } = feature;
+      if (geometry?.type !== 'Polygon' && geometry?.type !== 'MultiPolygon') continue;
+
+      ids.push(this.addClipRegion(geometry, {
+        ...options,
+        mode: properties?.mode === 'inside' || properties?.mode === 'outside' ? properties.mode : options.mode,
+        enabled: typeof properties?.enabled === 'boolean' ? properties.enabled : options.enabled,
+        name: typeof properties?.name === 'string' ? properties.name : options.name,
+      }));
+    }
+    if (ids.length === 0) {
+      throw new Error('No Polygon or MultiPolygon in GeoJSON');
+    }
+    return ids;
+  }
+
+  /**
+   * Removes a clip region.
+   *
+   * @param id - Region ID
+   */
+  removeClipRegion(id: string): void {
+    this._setClipRegions(this._state.clipRegions.filter((region) => region.id !== id));
+  }
+
+  /**
+   * Enables or disables clipping by a region, keeping the region.
+   *
+   * @param id - Region ID
+   * @param enabled - Whether the region clips points
+   */
+  setClipRegionEnabled(id: string, enabled: boolean): void {
+    this._setClipRegions(this._state.clipRegions.map((region) => region.id === id ? { ...region, enabled } : region));
+  }
+
+  /**
+   * Sets whether a region keeps or removes the points inside it.
+   *
+   * @param id - Region ID
+   * @param mode - Clip mode
+   */
+  setClipRegionMode(id: string, mode: ClipMode): void {
+    this._setClipRegions(this._state.clipRegions.map((region) => region.id === id ? { ...region, mode } : region));
+  }
+
+  /**
+   * Gets the clip regions.
+   *
+   * @returns Clip regions
+   */
+  getClipRegions(): ClipRegion[] {
+    return [...this._state.clipRegions];
+  }
+
+  /**
+   * Removes all clip regions.
+   */
+  clearClipRegions(): void {
+    this._setClipRegions([]);
+  }
+
+  /**
+   * Gets the clip regions as GeoJSON, with their name, mode and enabled state as feature properties.
+   *
+   * @returns Feature collection of the regions
+   */
+  getClipRegionsGeoJSON(): GeoJSON.FeatureCollection<GeoJSON.Polygon | GeoJSON.MultiPolygon> {
+    return clipRegionsToGeoJSON(this._state.clipRegions);
+  }
+
+  /**
+   * Downloads the clip regions as a GeoJSON file.
+   *
+   * @param filename - Download filename
+   */
+  downloadClipRegions(filename: string = 'clip-regions.geojson'): void {
+    const blob = new Blob([JSON.stringify(this.getClipRegionsGeoJSON())], { type: 'application/geo+json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.style.display = 'none';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Starts drawing a clip region on the map. The region is added when the shape is completed.
+   *
+   * @param shape - Shape to draw
+   * @param options - Options of the drawn region
+   */
+  startClipDrawing(shape: ClipShape, options: ClipRegionOptions = {}): void {
+    if (!this._map) return;
+
+    // Initialize clip tool if needed
+    if (!this._clipTool && this._deckOverlay) {
+      this._clipTool = new ClipTool(this._map, this._deckOverlay);
+      this._clipTool.setRegions(this._state.clipRegions);
+      this._clipTool.setOnDraw((geometry) => {
+        this.addClipRegion(geometry, this._clipDrawOptions);
+        this.stopClipDrawing();
+      });
+    }
+
+    this._clipDrawOptions = options;
+    this._clipTool?.enable(shape);
+    this._clipPanel?.setDrawing(shape);
+  }
+
+  /**
+   * Stops drawing a clip region.
+   */
+  stopClipDrawing(): void {
+    this._clipTool?.disable();
+    this._clipPanel?.setDrawing(null);
+  }
+
+  /**
+   * Checks if a clip region is being drawn.
+   *
+   * @returns True if drawing
+   */
+  isClipDrawing(): boolean {
+    return this._clipTool?.isEnabled() ?? false;
+  }
+
+  /**
+   * Gets the clipping panel for adding to the UI.
+   * Creates the panel if it doesn't exist.
+   *
+   * @returns ClipPanel instance
+   */
+  getClipPanel(): ClipPanel {
+    if (!this._clipPanel) {
+      this._clipPanel = new ClipPanel({
+        onDrawToggle: (shape, mode) => {
+          if (shape) {
+            this.startClipDrawing(shape, { mode });
+          } else {
+            this.stopClipDrawing();
+          }
+        },
+        onRegionToggle: (id, enabled) => this.setClipRegionEnabled(id, enabled),
+        onRegionModeChange: (id, mode) => this.setClipRegionMode(id, mode),
+        onRegionRemove: (id) => this.removeClipRegion(id),
+        onClear: () => this.clearClipRegions(),
+        onExport: () => this.downloadClipRegions(),
+        onBoxAdd: (mode) => {
+          this.setClipBox({ mode });
+          this.enableClipBoxEditing();
+        },
+        onBoxToggle: (enabled) => this.setClipBox({ enabled }),
+        onBoxModeChange: (mode) => this.setClipBox({ mode }),
+        onBoxEditToggle: (editing) => {
+          if (editing) {
+            this.enableClipBoxEditing();
+          } else {
+            this.disableClipBoxEditing();
+          }
+        },
+        onBoxRemove: () => this.clearClipBox(),
+      });
+      this._clipPanel.setRegions(this._state.clipRegions);
+      this._clipPanel.setBox(this._state.clipBox, this.isClipBoxEditing());
+    }
+    return this._clipPanel;
+  }
+
+  /**
+   * Applies new clip regions to the rendered points, the map and the panel.
+   *
+   * @param regions - Clip regions
+   */
+  private _setClipRegions(regions: ClipRegion[]): void {
+    this._state.clipRegions = regions;
+    this._pointCloudManager?.setClipRegions(regions);
+    this._clipTool?.setRegions(regions);
+    this._clipPanel?.setRegions(regions);
+    this._emit('clipchange');
+    this._emit('statechange');
+  }
+
+  // ==================== Clip Box API ====================
+
+  /**
+   * Sets the oriented 3D box that clips rendered, exported and merged points. Points are shown
+   * if they are inside the box ('inside' mode) or outside it ('outside' mode). Properties that
+   * are not given keep their current values or, when there is no box yet, default to a box
+   * over the middle of the loaded point clouds.
+   *
+   * @param box - Clip box properties, or null to remove the box
+   */
+  setClipBox(box: Partial<ClipBox> | null): void {
+    if (!box) {
+      this._setClipBox(null);
+      return;
+    }
+
+    const clipBox: ClipBox = { ...(this._state.clipBox ?? this._getDefaultClipBox()), ...box };
+    if (!(clipBox.width > 0) || !(clipBox.length > 0) || !(clipBox.maxZ >= clipBox.minZ)) {
+      throw new Error('Clip box width and length must be positive and maxZ must not be below minZ');
+    }
+    this._setClipBox(clipBox);
+  }
+
+  /**
+   * Gets the clip box.
+   *
+   * @returns Clip box, or null if there is none
+   */
+  getClipBox(): ClipBox | null {
+    return this._state.clipBox ? { ...this._state.clipBox } : null;
+  }
+
+  /**
+   * Removes the clip box.
+   */
+  clearClipBox(): void {
+    this._setClipBox(null);
+  }
+
+  /**
+   * Shows handles on the map to drag the position, rotation, size, top and bottom of the
+   * clip box. Adds a default box if there is none.
+   */
+  enableClipBoxEditing(): void {
+    if (!this._state.clipBox) this.setClipBox({});
+    this._getClipBoxTool()?.enable();
+    this._clipPanel?.setBox(this._state.clipBox, this.isClipBoxEditing());
+  }
+
+  /**
+   * Hides the handles of the clip box.
+   */
+  disableClipBoxEditing(): void {
+    this._clipBoxTool?.disable();
+    this._clipPanel?.setBox(this._state.clipBox, false);
+  }
+
+  /**
+   * Checks if the clip box is being edited with handles.
+   *
+   * @returns True if the handles are shown
+   */
+  isClipBoxEditing(): boolean {
+    return this._clipBoxTool?.isEnabled() ?? false;
+  }
+
+  /**
+   * Gets the clip box tool, creating it if needed.
+   *
+   * @returns ClipBoxTool instance, or undefined if the control is not on a map
+   */
+  private _getClipBoxTool(): ClipBoxTool | undefined {
+    if (!this._clipBoxTool && this._map && this._deckOverlay) {
+      this._clipBoxTool = new ClipBoxTool(this._map, this._deckOverlay);
+      this._clipBoxTool.setZOffset(this._state.zOffset);
+      this._clipBoxTool.setBox(this._state.clipBox);
+      this._clipBoxTool.setOnChange((box) => this._setClipBox(box));
+    }
+    return this._clipBoxTool;
+  }
+
+  /**
+   * Gets a box over the middle half of the loaded point clouds, spanning their elevations,
+   * or a 100 m box at the map center if none is loaded.
+   *
+   * @returns Default clip box
+   */
+  private _getDefaultClipBox(): ClipBox {
+    const { pointClouds } = this._state;
+    if (pointClouds.length === 0) {
+      const center = this._map?.getCenter();
+      return {
+        center: [center?.lng ?? 0, center?.lat ?? 0],
+        width: 100,
+        length: 100,
+        rotation: 0,
+        minZ: 0,
+        maxZ: 100,
+        mode: 'inside',
+        enabled: true,
+      };
+    }
+
+    const minX = Math.min(...pointClouds.map((pc) => pc.bounds.minX));
+    const maxX = Math.max(...pointClouds.map((pc) => pc.bounds.maxX));
+    const minY = Math.min(...pointClouds.map((pc) => pc.bounds.minY));
+    const maxY = Math.max(...pointClouds.map((pc) => pc.bounds.maxY));
+    const box: ClipBox = {
+      center: [(minX + maxX) / 2, (minY + maxY) / 2],
+      width: 0,
+      length: 0,
+      rotation: 0,
+      minZ: Math.min(...pointClouds.map((pc) => pc.bounds.minZ)),
+      maxZ: Math.max(...pointClouds.map((pc) => pc.bounds.maxZ)),
+      mode: 'inside',
+      enabled: true,
+    };
+    // Half extents of the point clouds in meters are the size of the middle half
+    const [halfWidth, halfLength] = lngLatToClipBoxLocal(box, maxX, maxY);
+    return { ...box, width: Math.max(halfWidth, 1), length: Math.max(halfLength, 1) };
+  }
+
+  /**
+   * Applies a new clip box to the rendered points, the map and the panel.
+   *
+   * @param box - Clip box, or null to remove it
+   */
+  private _setClipBox(box: ClipBox | null): void {
+    this._state.clipBox = box;
+    this._pointCloudManager?.setClipBox(box);
+    if (box) {
+      this._getClipBoxTool()?.setBox(box);
+    } else {
+      this._clipBoxTool?.disable();
+      this._clipBoxTool?.setBox(null);
+    }
+    this._clipPanel?.setBox(box, this.isClipBoxEditing());
+    this._emit('clipchange');
+    this._emit('statechange');
+  }
+
+  // ==================== Export API ====================
+
+  /**
+   * Exports point cloud data as an uncompressed LAS 1.4 file (LAZ output is not supported).
+   * Coordinates are written in the source CRS of the point cloud, or in WGS84 (EPSG:4326)
+   * when point clouds in different source CRSs are merged, and
+   * classifications, RGB and extra attributes are preserved.
+   *
+   * @param options - Export options (point cloud ID and filters to apply)
+   * @returns Blob containing the LAS file
+   */
+  exportPointCloud(options: PointCloudExportOptions = {}): Blob {
+    const manager = this._pointCloudManager;
+    const ids = options.id ? [options.id] : manager?.getPointCloudIds() ?? [];
+    if (!manager || !ids.some((id) => (manager.getPointCloudData(id)?.pointCount ?? 0) > 0)) {
+      throw new Error('No point cloud data to export');
+    }
+
+    let exportData: PointCloudData | null;
+    if (options.id) {
+      const data = manager.getPointCloudData(options.id)!;
+      const indices = this._getExportIndices(options.id, data, options);
+      exportData = indices ? subsetPointCloudData(data, indices) : data;
+    } else {
+      // Each point cloud is filtered with its own style before merging
+      exportData = manager.getMergedPointCloudData({}, (id, data) => this._getExportIndices(id, data, options));
+    }
+    if (!exportData || exportData.pointCount === 0) {
+      throw new Error('No points pass the current filters');
+    }
+
+    // Point clouds in different source CRSs are written in WGS84
+    const wkts = new Set(ids.map((id) => manager.getPointCloudData(id)?.wkt));
+    const buffer = new LasWriter().write(exportData, { wkt: wkts.size > 1 ? WGS84_WKT : undefined });
+    return new Blob([buffer], { type: 'application/vnd.las' });
+  }
+
+  /**
+   * Exports point cloud data as a LAS file and triggers a browser download.
+   *
+   * @param options - Export options (point cloud ID and filters to apply)
+   * @param filename - Download filename. Defaults to the point cloud name with a .las extension.
+   *   Names ending in .laz are rejected, as LAZ output is not supported.
+   */
+  downloadPointCloud(options: PointCloudExportOptions = {}, filename?: string): void {
+    if (filename && /\.laz$/i.test(filename)) {
+      throw new Error('LAZ export is not supported; export to an uncompressed .las file instead');
+    }
+    const blob = this.exportPointCloud(options);
+    const name = options.id ? this._state.pointClouds.find((pc) => pc.id === options.id)?.name : undefined;
+    const baseName = (name ?? 'pointcloud').replace(/\.(copc\.laz|laz|las|json)$/i, '');
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename ?? `${baseName}-export.las`;
+    link.style.display = 'none';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Gets the indices of the points of a point cloud that pass the requested export filters.
+   * The elevation range and attribute filters come from the style of the point cloud.
+   *
+   * @param id - Point cloud ID
+   * @param data - Point cloud data to filter
+   * @param options - Export options
+   * @returns Indices of the points to export, or null if no filter applies
+   */
+  private _getExportIndices(id: string, data: PointCloudData, options: PointCloudExportOptions): Uint32Array | null {
+    const style = options.applyFilters ? this.getPointCloudStyle(id) : null;
+    const elevationRange = style?.elevationRange ?? null;
+    const hidden = options.applyFilters ? this._state.hiddenClassifications : undefined;
+    const filterHidden = !!hidden && hidden.size > 0 && !!data.classifications;
+    const passesAttributeFilters = style ? createAttributeFilterTest(data, style.attributeFilters) : null;
+    const filterExpression = options.applyFilters ? this._state.filterExpression : null;
+    const passesExpression = filterExpression ? compileFilterExpression(filterExpression, data) : null;
+    const inClipRegions = options.applyFilters ? createClipTest(this._state.clipRegions) : null;
+    const inClipBox = options.applyFilters ? createClipBoxTest(this._state.clipBox) : null;
+    const line = options.clipToCrossSection ? this._crossSectionTool?.getLine() ?? null : null;
+    if (options.clipToCrossSection && !line) {
+      throw new Error('No cross-section line drawn');
+    }
+
+    if (!elevationRange && !filterHidden && !passesAttributeFilters && !passesExpression && !inClipRegions && !inClipBox && !line) {
+      return null;
+    }
+
+    const inBuffer = line ? ElevationProfileExtractor.createBufferTest(line) : null;
+    const [originLng, originLat] = data.coordinateOrigin;
+    const indices = new Uint32Array(data.pointCount);
+    let count = 0;
+
+    for (let i = 0; i < data.pointCount; i++) {
+      const z = data.positions[i * 3 + 2];
+      if (elevationRange && (z < elevationRange[0] || z > elevationRange[1])) continue;
+      if (filterHidden && hidden!.has(data.classifications![i])) continue;
+      if (passesAttributeFilters && !passesAttributeFilters(i)) continue;
+      if (passesExpression && !passesExpression(i)) continue;
+      if (inClipRegions && !inClipRegions(data.positions[i * 3] + originLng, data.positions[i * 3 + 1] + originLat)) continue;
+      if (inClipBox && !inClipBox(data.positions[i * 3] + originLng, data.positions[i * 3 + 1] + originLat, z)) continue;
+      if (inBuffer && !inBuffer([data.positions[i * 3] + originLng, data.positions[i * 3 + 1] + originLat])) continue;
+      indices[count++] = i;
+    }
+
+    return indices.subarray(0, count);
+  }
 }
@@ -1,7 +1,10 @@
 import type { Map as MapLibreMap } from 'maplibre-gl';
-import type { ViewportInfo } from '../loaders/streaming-types';
+import type { ViewportInfo, ViewportCamera } from '../loaders/streaming-types';
 import { debounce } from '../utils/helpers';
 
+const EARTH_CIRCUMFERENCE = 40_075_016.686;
+const DEFAULT_FOV = 36.87; // MapLibre's default vertical field of view in degrees
+
 /**
  * Options for the ViewportManager
  */
@@ -121,6 +124,57 @@ export class ViewportManager {
       zoom,
       pitch,
       targetDepth: this._calculateTargetDepth(zoom, pitch),
+      camera: this._getCamera(zoom, pitch),
+    };
+  }
+
+  /**
+   * Computes the camera position, the visible map area and the projection factor
+   * used for screen-space error based node selection.
+   *
+   * @param zoom - Current map zoom level
+   * @param pitch - Current map pitch in degrees
+   * @returns Camera information, or undefined if the map has no size
+   */
+  private _getCamera(zoom: number, pitch: number): ViewportCamera | undefined {
+    const canvas = this._map.getCanvas();
+    const width = canvas.clientWidth;
+    const height = canvas.clientHeight;
+    if (!width || !height) return undefined;
+
+    // getVerticalFieldOfView is not available before MapLibre 5
+    const fov = typeof this._map.getVerticalFieldOfView === 'function'
+      ? this._map.getVerticalFieldOfView()
+      : DEFAULT_FOV;
+    const projectionFactor = height / (2 * Math.tan((fov * Math.PI) / 360));
+
+    // Camera distance to the map center in meters (512 px tiles)
+    const center = this._map.getCenter();
+    const latRadians = (center.lat * Math.PI) / 180;
+    const metersPerPixel = (EARTH_CIRCUMFERENCE * Math.cos(latRadians)) / (512 * Math.pow(2, zoom));
+    const distance = projectionFactor * metersPerPixel;
+
+    // The camera looks at the center along the bearing, tilted by the pitch
+    const pitchRadians = (pitch * Math.PI) / 180;
+    const bearingRadians = (this._map.getBearing() * Math.PI) / 180;
+    const groundOffset = distance * Math.sin(pitchRadians);
+    const metersPerDegreeLng = (EARTH_CIRCUMFERENCE / 360) * Math.cos(latRadians);
+    const metersPerDegreeLat = EARTH_CIRCUMFERENCE / 360;
+
+    const footprint = ([[0, 0], [width, 0], [width, height], [0, height]] as [number, number][])
+      .map((point): [number, number] => {
+        const lngLat = this._map.unproject(point);
+        return [lngLat.lng, lngLat.lat];
+      });
+
+    return {
+      position: [
+        center.lng - (Math.sin(bearingRadians) * groundOffset) / metersPerDegreeLng,
+        center.lat - (Math.cos(bearingRadians) * groundOffset) / metersPerDegreeLat,
+        distance * Math.cos(pitchRadians),
+      ],
+      footprint,
+      projectionFactor,
     };
   }
 
@@ -1,4 +1,6 @@
 import type { Map } from 'maplibre-gl';
+import type { RequestTransformFunction } from '../loaders/types';
+import type { FailedNodeInfo } from '../loaders/streaming-types';
 
 /**
  * COPC loading mode options
@@ -38,18 +40,80 @@ export interface ColorRangeConfig {
 }
 
 /**
- * Color scheme options for point cloud visualization
+ * Preset color schemes of standard LAS point attributes (ReturnNumber, NumberOfReturns,
+ * ScanAngle or ScanAngleRank, PointSourceId and GpsTime)
  */
-export type ColorSchemeType = 'elevation' | 'intensity' | 'classification' | 'rgb';
+export type AttributeColorSchemeType =
+  | 'returnNumber'
+  | 'numberOfReturns'
+  | 'scanAngle'
+  | 'pointSourceId'
+  | 'gpsTime';
+
+/**
+ * Color scheme options for point cloud visualization.
+ * 'normal', 'slope' and 'aspect' color by the estimated point normals
+ * (see LidarControl.estimateNormals) and fall back to elevation without them,
+ * as do the attribute schemes for point clouds without the attribute.
+ * 'rgbIntensity', 'elevationIntensity' and 'classificationIntensity' shade the RGB,
+ * elevation and classification colors by intensity (see PointCloudStyle.intensityBlend).
+ */
+export type ColorSchemeType =
+  | 'elevation'
+  | 'intensity'
+  | 'classification'
+  | 'rgb'
+  | 'rgbIntensity'
+  | 'elevationIntensity'
+  | 'classificationIntensity'
+  | 'normal'
+  | 'slope'
+  | 'aspect'
+  | AttributeColorSchemeType;
 
 /**
  * Custom color scheme configuration
  */
 export interface ColorSchemeConfig {
+  /**
+   * 'gradient' maps a continuous attribute onto a color ramp,
+   * 'categorical' assigns one color per distinct integer value
+   */
   type: 'gradient' | 'categorical';
+  /**
+   * Attribute to color by: 'elevation', 'intensity', 'classification'
+   * or any key of PointCloudData.extraAttributes (e.g. 'GpsTime', 'PointSourceId')
+   */
   attribute: string;
+  /**
+   * Hex colors. For gradients these are the ramp stops (defaults to the active colormap);
+   * for categorical schemes they form the palette cycled over the sorted values.
+   */
   colors?: string[];
+  /**
+   * Value range mapped to the ends of the gradient (defaults to the color range settings)
+   */
   domain?: [number, number];
+  /**
+   * Explicit hex colors for categorical values, taking precedence over `colors`
+   */
+  categoryColors?: Record<number, string>;
+  /**
+   * Display labels for categorical values shown in the legend
+   */
+  categoryLabels?: Record<number, string>;
+}
+
+/**
+ * A single entry of a categorical color scheme legend
+ */
+export interface ColorCategory {
+  /** Attribute value */
+  value: number;
+  /** RGB color assigned to the value */
+  color: [number, number, number];
+  /** Display label */
+  label: string;
 }
 
 /**
@@ -57,6 +121,16 @@ export interface ColorSchemeConfig {
  */
 export type ColorScheme = ColorSchemeType | ColorSchemeConfig;
 
+/**
+ * Units of the point size:
+ * - 'pixels': points have the same size on screen at any zoom
+ * - 'meters': points are sized relative to the point spacing of the dataset, so they
+ *   shrink when zooming out
+ * - 'adaptive': points of each streamed octree node are sized relative to the spacing
+ *   of its level, so coarse nodes close the gaps between their points
+ */
+export type PointSizeMode = 'pixels' | 'meters' | 'adaptive';
+
 /**
  * Point cloud bounding box
  */
@@ -85,6 +159,42 @@ export interface PointCloudInfo {
   wkt?: string;
 }
 
+/**
+ * Style of a single point cloud
+ */
+export interface PointCloudStyle {
+  /** Point size in pixels, or relative to the point spacing when sized in meters */
+  pointSize: number;
+  /** Opacity (0-1) */
+  opacity: number;
+  /** Color scheme for visualization */
+  colorScheme: ColorScheme;
+  /** Colormap to use for elevation/intensity coloring */
+  colormap: ColormapName;
+  /** Configuration for color range mapping */
+  colorRange: ColorRangeConfig;
+  /** Whether to use percentile range (2-98%) for elevation/intensity coloring */
+  usePercentile: boolean;
+  /** Weight (0-1) of the intensity shading of the intensity-blended color schemes */
+  intensityBlend: number;
+  /** Elevation range filter [min, max] or null for no filter */
+  elevationRange: [number, number] | null;
+  /** Z offset in meters */
+  zOffset: number;
+  /** Range filters [min, max] on point attributes, by attribute name */
+  attributeFilters: Record<string, [number, number]>;
+}
+
+/**
+ * Range of the values of a point attribute
+ */
+export interface AttributeRange {
+  min: number;
+  max: number;
+  /** Whether the attribute has integer values */
+  integer: boolean;
+}
+
 /**
  * Options for configuring the LidarControl
  */
@@ -126,11 +236,30 @@ export interface LidarControlOptions {
   className?: string;
 
   /**
-   * Point size in pixels
+   * Point size in pixels, or relative to the point spacing when sized in meters
+   * (at 1, the points of a uniformly spaced cloud touch)
    * @default 2
    */
   pointSize?: number;
 
+  /**
+   * Units of the point size
+   * @default 'pixels'
+   */
+  pointSizeMode?: PointSizeMode;
+
+  /**
+   * Minimum point radius in pixels when sized in meters
+   * @default 1
+   */
+  pointSizeMinPixels?: number;
+
+  /**
+   * Maximum point radius in pixels when sized in meters
+   * @default 16
+   */
+  pointSizeMaxPixels?: number;
+
   /**
    * Point cloud opacity (0-1)
    * @default 1.0
@@ -163,6 +292,13 @@ export interface LidarControlOptions {
    */
   colorRange?: ColorRangeConfig;
 
+  /**
+   * Weight (0-1) of the intensity shading of the 'rgbIntensity', 'elevationIntensity'
+   * and 'classificationIntensity' color schemes
+   * @default 0.5
+   */
+  intensityBlend?: number;
+
   /**
    * Whether to show the colorbar legend
    * @default true
@@ -181,6 +317,19 @@ export interface LidarControlOptions {
    */
   elevationRange?: [number, number] | null;
 
+  /**
+   * Range filters [min, max] on point attributes (e.g. Intensity, ReturnNumber or
+   * any extra attribute), by attribute name. Filters combine with AND.
+   * @default {}
+   */
+  attributeFilters?: Record<string, [number, number]>;
+
+  /**
+   * Filter expression points must pass to be shown, e.g. `Classification == 2 && Intensity > 0.3`
+   * @default null
+   */
+  filterExpression?: string | null;
+
   /**
    * Whether points are pickable (enables hover/click interactions)
    * @default false
@@ -213,6 +362,37 @@ export interface LidarControlOptions {
    */
   zOffset?: number;
 
+  /**
+   * Whether points are shaded by the scene lights using their estimated normals.
+   * Normals are estimated when shading is enabled (see LidarControl.estimateNormals)
+   * @default false
+   */
+  normalShading?: boolean;
+
+  /**
+   * Number of nearest neighbors a plane is fitted to when estimating the normal of a point
+   * @default 16
+   */
+  normalNeighborCount?: number;
+
+  /**
+   * Whether Eye-Dome Lighting shades points by their depth relative to their neighbors
+   * @default false
+   */
+  edlEnabled?: boolean;
+
+  /**
+   * Eye-Dome Lighting strength
+   * @default 1
+   */
+  edlStrength?: number;
+
+  /**
+   * Eye-Dome Lighting radius in pixels
+   * @default 1.4
+   */
+  edlRadius?: number;
+
   /**
    * Whether to automatically calculate and apply Z offset based on the 2nd percentile
    * of elevation values. This brings point clouds down to ground level by offsetting
@@ -256,6 +436,70 @@ export interface LidarControlOptions {
    * @default 150
    */
   streamingViewportDebounceMs?: number;
+
+  /**
+   * Number of times a failed streaming node or hierarchy request is retried, with exponential backoff
+   * @default 3
+   */
+  streamingMaxRetries?: number;
+
+  /**
+   * Delay before the first retry of a failed streaming request (ms), doubled after each attempt
+   * @default 1000
+   */
+  streamingRetryDelayMs?: number;
+
+  /**
+   * Whether nodes that exhausted their retries are retried again when they come back into view
+   * @default false
+   */
+  streamingRetryFailedOnView?: boolean;
+
+  /**
+   * Maximum distance in pixels between points on screen when streaming COPC and EPT datasets.
+   * Nodes are selected by screen-space error, so pitched views load more detail in the
+   * foreground than near the horizon. Lower values load more detail. Set to 0 to select
+   * nodes by a single target depth for the zoom level and pitch.
+   * @default 2
+   */
+  streamingScreenSpaceError?: number;
+
+  /**
+   * URL of the decode worker script (the package's `maplibre-gl-lidar/worker` entry).
+   * When set, LAZ/COPC point data is decoded and reprojected on a Web Worker pool,
+   * falling back to the main thread if workers are unavailable.
+   * @default undefined (decode on the main thread)
+   */
+  workerUrl?: string;
+
+  /**
+   * Number of decode workers, 0 for one less than the available cores (at most 4)
+   * @default 0
+   */
+  workerCount?: number;
+
+  /**
+   * Customizes requests to authenticated point cloud hosts, similar to MapLibre's transformRequest.
+   * Receives the URL and the kind of resource ('metadata', 'hierarchy' or 'data') and can return
+   * a new URL (e.g., with a signature), headers and credentials. It is called again with the
+   * failed response when a request is rejected with 401 or 403, so tokens can be refreshed.
+   * @default undefined
+   */
+  transformRequest?: RequestTransformFunction;
+
+  /**
+   * Whether streamed COPC and EPT nodes are cached in IndexedDB, so datasets that are
+   * opened again load from the cache instead of downloading all nodes. Cached nodes are
+   * discarded when the dataset's ETag or Last-Modified header changes.
+   * @default false
+   */
+  persistentCache?: boolean;
+
+  /**
+   * Maximum size of the persistent node cache in bytes; least recently used nodes are evicted above it
+   * @default 524288000 (500 MB)
+   */
+  persistentCacheMaxSize?: number;
 }
 
 /**
@@ -267,17 +511,31 @@ export interface LidarState {
   panelMaxHeight: number;
   pointClouds: PointCloudInfo[];
   activePointCloudId: string | null;
+  /** Style overrides of individual point clouds, by point cloud ID */
+  pointCloudStyles: Record<string, Partial<PointCloudStyle>>;
+  /** Point cloud whose style the panel edits, or null to edit the style of all point clouds */
+  styleTargetId: string | null;
   pointSize: number;
+  /** Units of the point size */
+  pointSizeMode: PointSizeMode;
+  /** Minimum point radius in pixels when sized in meters */
+  pointSizeMinPixels: number;
+  /** Maximum point radius in pixels when sized in meters */
+  pointSizeMaxPixels: number;
   opacity: number;
   colorScheme: ColorScheme;
   /** Colormap to use for elevation/intensity coloring */
   colormap: ColormapName;
   /** Configuration for color range mapping */
   colorRange: ColorRangeConfig;
+  /** Weight (0-1) of the intensity shading of the intensity-blended color schemes */
+  intensityBlend: number;
   /** Whether to show the colorbar legend */
   showColorbar: boolean;
   /** Computed color bounds for colorbar display */
   computedColorBounds?: { min: number; max: number };
+  /** Categories computed by a categorical custom color scheme, for legend display */
+  computedColorCategories?: ColorCategory[];
   /** Whether to use percentile range (2-98%) for elevation/intensity coloring */
   usePercentile: boolean;
   elevationRange: [number, number] | null;
@@ -293,6 +551,14 @@ export interface LidarState {
   zOffset: number;
   /** Base value for Z offset slider range (2% percentile of elevation) */
   zOffsetBase?: number;
+  /** Whether points are shaded by their estimated normals */
+  normalShading: boolean;
+  /** Whether Eye-Dome Lighting is enabled */
+  edlEnabled: boolean;
+  /** Eye-Dome Lighting strength */
+  edlStrength: number;
+  /** Eye-Dome Lighting radius in pixels */
+  edlRadius: number;
   /** Whether streaming mode is active */
   streamingActive?: boolean;
   /** Current streaming progress */
@@ -306,6 +572,24 @@ export interface LidarState {
   hiddenClassifications: Set<number>;
   /** Set of classification codes present in loaded point cloud data */
   availableClassifications: Set<number>;
+  /** Range filters [min, max] on point attributes, by attribute name. Filters combine with AND. */
+  attributeFilters: Record<string, [number, number]>;
+  /** Names of the filterable attributes present in loaded point cloud data */
+  availableAttributes: string[];
+  /** Filter expression points must pass to be shown, or null for no filter */
+  filterExpression: string | null;
+  /** Error of the last filter expression entered in the panel, or null if it was valid */
+  filterExpressionError: string | null;
+  /** Window [start, end] of GPS times of the points shown, or null to show all points */
+  gpsTimeWindow: [number, number] | null;
+  /** Whether the GPS time window is moving across the GPS times of the loaded point clouds */
+  gpsTimePlaying: boolean;
+  /** Speed of the GPS time animation (at 1, the window crosses the GPS times in 30 seconds) */
+  gpsTimeSpeed: number;
+  /** Regions of the map that clip rendered points */
+  clipRegions: ClipRegion[];
+  /** Oriented 3D box that clips rendered points, or null if there is none */
+  clipBox: ClipBox | null;
   /** Whether 3D terrain is enabled */
   terrainEnabled: boolean;
 }
@@ -320,12 +604,16 @@ export type LidarControlEvent =
   | 'load'
   | 'loadstart'
   | 'loaderror'
+  | 'loadcancel'
   | 'unload'
   | 'stylechange'
   | 'streamingprogress'
   | 'streamingstart'
   | 'streamingstop'
-  | 'budgetreached';
+  | 'budgetreached'
+  | 'nodesfailed'
+  | 'clipchange'
+  | 'gpstimechange';
 
 /**
  * Event data passed to event handlers
@@ -336,6 +624,8 @@ export interface LidarEventData {
   /** Full point cloud info (for load events) or just the id (for unload events) */
   pointCloud?: PointCloudInfo | { id: string };
   error?: Error;
+  /** Nodes of a streaming point cloud that failed to load after all retries (for nodesfailed events) */
+  failedNodes?: FailedNodeInfo[];
 }
 
 /**
@@ -451,16 +741,60 @@ export interface EptExtendedMetadata {
   pointSpacing?: number;
 }
 
+/**
+ * Extended metadata for 3D Tiles point cloud tilesets
+ */
+export interface Tiles3DExtendedMetadata {
+  /** 3D Tiles version */
+  version: string;
+  /** Application-specific tileset version */
+  tilesetVersion?: string;
+  /** Root geometric error in meters */
+  geometricError: number;
+  /** Refinement strategy of the root tile */
+  refine: 'ADD' | 'REPLACE';
+  /** Number of tiles discovered so far */
+  discoveredTiles: number;
+  /** Per-point properties found in loaded tiles */
+  dimensions: DimensionInfo[];
+}
+
+/**
+ * Potree-specific metadata
+ */
+export interface PotreeExtendedMetadata {
+  /** Potree format version (e.g., "1.7", "2.0") */
+  version: string;
+  /** Point data encoding ("DEFAULT", "BROTLI", "BINARY", "LAS" or "LAZ") */
+  encoding: string;
+  /** Point spacing at the root level */
+  spacing: number;
+  /** Coordinate scale */
+  scale: [number, number, number];
+  /** Coordinate offset */
+  offset: [number, number, number];
+  /** Octree bounds in native CRS [minX, minY, minZ, maxX, maxY, maxZ] */
+  nativeBounds: number[];
+  /** Projection (proj4 string or WKT), if defined */
+  projection?: string;
+  /** Point attributes */
+  dimensions: DimensionInfo[];
+}
+
 /**
  * Full metadata container for all point cloud types
  */
 export interface PointCloudFullMetadata {
   /** Source type */
-  type: 'copc' | 'ept' | 'las';
+  type: 'copc' | 'ept' | '3dtiles' | 'potree' | 'las';
   /** COPC-specific metadata (if type is 'copc') */
   copc?: CopcMetadata;
   /** EPT-specific metadata (if type is 'ept') */
   ept?: EptExtendedMetadata;
+  /** 3D Tiles-specific metadata (if type is '3dtiles') */
+  tiles3d?: Tiles3DExtendedMetadata;
+  /** Potree-specific metadata (if type is 'potree') */
+  potree?: PotreeExtendedMetadata;
   /** Basic point cloud info */
   basic: PointCloudInfo;
 }
@@ -479,6 +813,72 @@ export interface CrossSectionLine {
   bufferDistance: number;
 }
 
+/**
+ * Whether a clip region keeps the points inside it ('inside') or removes them ('outside')
+ */
+export type ClipMode = 'inside' | 'outside';
+
+/**
+ * Shape drawn on the map to create a clip region
+ */
+export type ClipShape = 'polygon' | 'rectangle';
+
+/**
+ * Region of the map that clips rendered points.
+ * Points are shown if they are inside one of the enabled 'inside' regions (when there are any)
+ * and outside all the enabled 'outside' regions.
+ */
+export interface ClipRegion {
+  id: string;
+  /** Region in WGS84 [longitude, latitude] coordinates */
+  geometry: GeoJSON.Polygon | GeoJSON.MultiPolygon;
+  mode: ClipMode;
+  /** Whether the region clips points */
+  enabled: boolean;
+  /** Display name */
+  name: string;
+}
+
+/**
+ * Options for adding a clip region
+ */
+export interface ClipRegionOptions {
+  /**
+   * Whether the region keeps or removes the points inside it
+   * @default 'inside'
+   */
+  mode?: ClipMode;
+  /**
+   * Whether the region clips points
+   * @default true
+   */
+  enabled?: boolean;
+  /** Display name. Defaults to the name property of a GeoJSON feature or to "Region N". */
+  name?: string;
+}
+
+/**
+ * Oriented 3D box that clips rendered points, e.g. to isolate a bridge deck or a floor of a building.
+ * Points are shown if they are inside the box ('inside' mode) or outside it ('outside' mode).
+ */
+export interface ClipBox {
+  /** Center of the box in WGS84 [longitude, latitude] */
+  center: [number, number];
+  /** Size of the box across its rotation axis in meters */
+  width: number;
+  /** Size of the box along its rotation axis in meters */
+  length: number;
+  /** Bearing of the length axis in degrees clockwise from north */
+  rotation: number;
+  /** Elevation of the bottom of the box in meters */
+  minZ: number;
+  /** Elevation of the top of the box in meters */
+  maxZ: number;
+  mode: ClipMode;
+  /** Whether the box clips points */
+  enabled: boolean;
+}
+
 /**
  * Profile point extracted from cross-section
  */
@@ -516,3 +916,27 @@ export interface ElevationProfile {
     pointCount: number;
   };
 }
+
+/**
+ * Options for exporting point clouds to LAS
+ */
+export interface PointCloudExportOptions {
+  /**
+   * Point cloud ID to export. If not provided, all loaded point clouds are merged.
+   */
+  id?: string;
+
+  /**
+   * Only export points that pass the current filters: elevation range, hidden classifications,
+   * attribute filters, filter expression and clip regions. The elevation range and attribute
+   * filters of each point cloud's style apply to its points, also when merging.
+   * @default false
+   */
+  applyFilters?: boolean;
+
+  /**
+   * Only export points within the buffer of the current cross-section line
+   * @default false
+   */
+  clipToCrossSection?: boolean;
+}
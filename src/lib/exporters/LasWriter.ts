@@ -0,0 +1,428 @@
+import proj4 from 'proj4';
+import type { PointCloudData, AttributeArray } from '../loaders/types';
+
+/**
+ * Options for writing LAS files
+ */
+export interface LasWriterOptions {
+  /**
+   * WKT of the output coordinate reference system.
+   * Defaults to the source WKT of the data (PointCloudData.wkt).
+   */
+  wkt?: string;
+
+  /**
+   * Coordinate scale factors [x, y, z].
+   * Defaults to millimeters for projected data and 1e-7 degrees for geographic data.
+   */
+  scale?: [number, number, number];
+
+  /**
+   * System identifier written to the header (max 32 characters)
+   * @default 'maplibre-gl-lidar'
+   */
+  systemIdentifier?: string;
+
+  /**
+   * Generating software written to the header (max 32 characters)
+   * @default 'maplibre-gl-lidar'
+   */
+  generatingSoftware?: string;
+}
+
+/**
+ * Gets the LAS extra bytes data type (LAS 1.4 R15, Table 24) for an attribute array
+ */
+function getExtraBytesType(arr: AttributeArray): { type: number; size: number } {
+  if (arr instanceof Uint8Array) return { type: 1, size: 1 };
+  if (arr instanceof Int8Array) return { type: 2, size: 1 };
+  if (arr instanceof Uint16Array) return { type: 3, size: 2 };
+  if (arr instanceof Int16Array) return { type: 4, size: 2 };
+  if (arr instanceof Uint32Array) return { type: 5, size: 4 };
+  if (arr instanceof Int32Array) return { type: 6, size: 4 };
+  if (arr instanceof Float64Array) return { type: 10, size: 8 };
+  return { type: 9, size: 4 };
+}
+
+/**
+ * Extra attributes that map onto fields of point data record formats 6/7.
+ * Everything else is written as extra bytes.
+ */
+const STANDARD_ATTRIBUTES = new Set([
+  'GpsTime',
+  'ReturnNumber',
+  'NumberOfReturns',
+  'ScanDirectionFlag',
+  'EdgeOfFlightLine',
+  'ScanAngleRank',
+  'ScanAngle',
+  'UserData',
+  'PointSourceId',
+  'ScannerChannel',
+  'Synthetic',
+  'KeyPoint',
+  'Withheld',
+  'Overlap',
+  'ClassFlags',
+]);
+
+/**
+ * WKT of WGS84 longitude/latitude (EPSG:4326), the CRS of point positions.
+ * Point clouds in different source CRSs are exported in it.
+ */
+export const WGS84_WKT =
+  'GEOGCS["WGS 84",DATUM["WGS_1984",SPHEROID["WGS 84",6378137,298.257223563,AUTHORITY["EPSG","7030"]],' +
+  'AUTHORITY["EPSG","6326"]],PRIMEM["Greenwich",0,AUTHORITY["EPSG","8901"]],' +
+  'UNIT["degree",0.0174532925199433,AUTHORITY["EPSG","9122"]],AUTHORITY["EPSG","4326"]]';
+
+const HEADER_SIZE = 375;
+const VLR_HEADER_SIZE = 54;
+const EXTRA_BYTES_DESCRIPTOR_SIZE = 192;
+
+/**
+ * Extracts the PROJCS section from a WKT string (handles COMPD_CS)
+ */
+function extractProjcsFromWkt(wkt: string): string {
+  // If it's a compound CS, extract the PROJCS part
+  if (wkt.startsWith('COMPD_CS[')) {
+    const projcsStart = wkt.indexOf('PROJCS[');
+    if (projcsStart === -1) return wkt;
+
+    // Find matching bracket for PROJCS
+    let depth = 0;
+    let projcsEnd = projcsStart;
+    for (let i = projcsStart; i < wkt.length; i++) {
+      if (wkt[i] === '[') depth++;
+      if (wkt[i] === ']') {
+        depth--;
+        if (depth === 0) {
+          projcsEnd = i + 1;
+          break;
+        }
+      }
+    }
+    return wkt.substring(projcsStart, projcsEnd);
+  }
+  return wkt;
+}
+
+/**
+ * Detects if the WKT uses feet as the linear unit
+ * Returns the conversion factor to meters (1.0 if already in meters)
+ */
+function getVerticalUnitConversionFactor(wkt: string): number {
+  const FEET_TO_METERS = 0.3048;
+  const US_SURVEY_FEET_TO_METERS = 0.3048006096012192;
+
+  const wktLower = wkt.toLowerCase();
+
+  if (wktLower.includes('us survey foot') ||
+      wktLower.includes('us_survey_foot') ||
+      wktLower.includes('foot_us')) {
+    return US_SURVEY_FEET_TO_METERS;
+  }
+
+  const footPatterns = [
+    /unit\s*\[\s*"foot/i,
+    /unit\s*\[\s*"international foot/i,
+    /,\s*foot\s*\]/i,
+    /"ft"/i,
+  ];
+
+  for (const pattern of footPatterns) {
+    if (pattern.test(wkt)) {
+      return FEET_TO_METERS;
+    }
+  }
+
+  return 1.0;
+}
+
+/**
+ * Writes a fixed-length, zero-padded ASCII string.
+ */
+function writeString(view: DataView, offset: number, value: string, length: number): void {
+  for (let i = 0; i < length; i++) {
+    view.setUint8(offset + i, i < value.length ? value.charCodeAt(i) & 0x7f : 0);
+  }
+}
+
+/**
+ * Writes point cloud data to LAS 1.4 files (point data record format 6, or 7 with RGB).
+ *
+ * Positions are reprojected from WGS84 back to the source CRS and elevations are
+ * converted back to the source vertical unit. Classifications, intensities, RGB and
+ * standard LAS dimensions found in extraAttributes are written to their native fields;
+ * any other extra attribute is preserved as an Extra Bytes record.
+ *
+ * LAZ output is not available: the bundled laz-perf build only provides decoders.
+ */
+export class LasWriter {
+  /**
+   * Writes point cloud data to a LAS 1.4 file.
+   *
+   * @param data - Point cloud data to write
+   * @param options - Writer options
+   * @returns LAS file contents
+   */
+  write(data: PointCloudData, options: LasWriterOptions = {}): ArrayBuffer {
+    const pointCount = data.pointCount;
+    const wkt = options.wkt ?? data.wkt;
+    const extra = data.extraAttributes ?? {};
+
+    // Project positions back to the output CRS
+    const coords = this._toSourceCoordinates(data, wkt);
+
+    // Header bounds from the projected coordinates
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    for (let i = 0; i < pointCount; i++) {
+      for (let axis = 0; axis < 3; axis++) {
+        const v = coords[i * 3 + axis];
+        if (v < min[axis]) min[axis] = v;
+        if (v > max[axis]) max[axis] = v;
+      }
+    }
+    if (pointCount === 0) {
+      min.fill(0);
+      max.fill(0);
+    }
+
+    // Coordinates are in degrees without a CRS or with a geographic one
+    const isGeographic = (!wkt || /^GEOG(CS|CRS)\[/.test(wkt)) && min[0] >= -180 && max[0] <= 180 && min[1] >= -90 && max[1] <= 90;
+    const scale = options.scale ?? (isGeographic ? [1e-7, 1e-7, 0.001] : [0.001, 0.001, 0.001]);
+    const offset = [Math.floor(min[0]), Math.floor(min[1]), Math.floor(min[2])];
+
+    // Extra bytes layout
+    const extraDims = Object.entries(extra)
+      .filter(([name]) => !STANDARD_ATTRIBUTES.has(name))
+      .map(([name, arr]) => ({ name, array: arr, ...getExtraBytesType(arr) }));
+    const extraBytesSize = extraDims.reduce((sum, dim) => sum + dim.size, 0);
+
+    const hasRGB = data.hasRGB && !!data.colors;
+    const pointFormat = hasRGB ? 7 : 6;
+    const recordLength = (hasRGB ? 36 : 30) + extraBytesSize;
+
+    // VLRs
+    const wktBytes = wkt ? new TextEncoder().encode(`${wkt}\0`) : null;
+    const vlrCount = (wktBytes ? 1 : 0) + (extraDims.length > 0 ? 1 : 0);
+    const vlrSize =
+      (wktBytes ? VLR_HEADER_SIZE + wktBytes.length : 0) +
+      (extraDims.length > 0 ? VLR_HEADER_SIZE + extraDims.length * EXTRA_BYTES_DESCRIPTOR_SIZE : 0);
+    const pointDataOffset = HEADER_SIZE + vlrSize;
+
+    const buffer = new ArrayBuffer(pointDataOffset + pointCount * recordLength);
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+
+    // Point records
+    const get = (name: string): AttributeArray | undefined => extra[name];
+    const gpsTime = get('GpsTime');
+    const returnNumber = get('ReturnNumber');
+    const numberOfReturns = get('NumberOfReturns');
+    const scanDirection = get('ScanDirectionFlag');
+    const edgeOfFlightLine = get('EdgeOfFlightLine');
+    const scanAngle = get('ScanAngle');
+    const scanAngleRank = get('ScanAngleRank');
+    const userData = get('UserData');
+    const pointSourceId = get('PointSourceId');
+    const scannerChannel = get('ScannerChannel');
+    const classFlags = get('ClassFlags');
+    const synthetic = get('Synthetic');
+    const keyPoint = get('KeyPoint');
+    const withheld = get('Withheld');
+    const overlap = get('Overlap');
+
+    const pointsByReturn = new Array<number>(15).fill(0);
+
+    for (let i = 0; i < pointCount; i++) {
+      const p = pointDataOffset + i * recordLength;
+
+      view.setInt32(p, Math.round((coords[i * 3] - offset[0]) / scale[0]), true);
+      view.setInt32(p + 4, Math.round((coords[i * 3 + 1] - offset[1]) / scale[1]), true);
+      view.setInt32(p + 8, Math.round((coords[i * 3 + 2] - offset[2]) / scale[2]), true);
+
+      if (data.intensities) {
+        view.setUint16(p + 12, Math.round(Math.min(1, Math.max(0, data.intensities[i])) * 65535), true);
+      }
+
+      const ret = Math.min(15, Math.max(1, returnNumber ? returnNumber[i] : 1));
+      const numRet = Math.min(15, Math.max(1, numberOfReturns ? numberOfReturns[i] : 1));
+      view.setUint8(p + 14, (ret & 0x0f) | ((numRet & 0x0f) << 4));
+      pointsByReturn[ret - 1]++;
+
+      const flags = classFlags
+        ? classFlags[i] & 0x0f
+        : (synthetic?.[i] ? 1 : 0) | (keyPoint?.[i] ? 2 : 0) | (withheld?.[i] ? 4 : 0) | (overlap?.[i] ? 8 : 0);
+      view.setUint8(
+        p + 15,
+        flags |
+          (((scannerChannel ? scannerChannel[i] : 0) & 0x03) << 4) |
+          ((scanDirection?.[i] ? 1 : 0) << 6) |
+          ((edgeOfFlightLine?.[i] ? 1 : 0) << 7)
+      );
+
+      view.setUint8(p + 16, data.classifications ? data.classifications[i] : 0);
+      view.setUint8(p + 17, userData ? userData[i] : 0);
+
+      // Scan angle is stored in 0.006 degree increments
+      const angle = scanAngle ? scanAngle[i] : scanAngleRank ? scanAngleRank[i] : 0;
+      view.setInt16(p + 18, Math.max(-30000, Math.min(30000, Math.round(angle / 0.006))), true);
+
+      view.setUint16(p + 20, pointSourceId ? pointSourceId[i] : 0, true);
+      view.setFloat64(p + 22, gpsTime ? gpsTime[i] : 0, true);
+
+      if (hasRGB && data.colors) {
+        // Expand 8-bit colors to the full 16-bit range
+        view.setUint16(p + 30, data.colors[i * 4] * 257, true);
+        view.setUint16(p + 32, data.colors[i * 4 + 1] * 257, true);
+        view.setUint16(p + 34, data.colors[i * 4 + 2] * 257, true);
+      }
+
+      let e = p + (hasRGB ? 36 : 30);
+      for (const dim of extraDims) {
+        this._writeValue(view, e, dim.type, dim.array[i]);
+        e += dim.size;
+      }
+    }
+
+    // Public header block
+    writeString(view, 0, 'LASF', 4);
+    // Bit 4: CRS is WKT (required for point formats 6-10)
+    view.setUint16(6, 0x10, true);
+    view.setUint8(24, 1);
+    view.setUint8(25, 4);
+    writeString(view, 26, options.systemIdentifier ?? 'maplibre-gl-lidar', 32);
+    writeString(view, 58, options.generatingSoftware ?? 'maplibre-gl-lidar', 32);
+    const now = new Date();
+    const dayOfYear = Math.floor(
+      (Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()) - Date.UTC(now.getUTCFullYear(), 0, 0)) /
+        86400000
+    );
+    view.setUint16(90, dayOfYear, true);
+    view.setUint16(92, now.getUTCFullYear(), true);
+    view.setUint16(94, HEADER_SIZE, true);
+    view.setUint32(96, pointDataOffset, true);
+    view.setUint32(100, vlrCount, true);
+    view.setUint8(104, pointFormat);
+    view.setUint16(105, recordLength, true);
+    // Legacy point counts (offsets 107-130) must be zero for point formats 6-10
+    view.setFloat64(131, scale[0], true);
+    view.setFloat64(139, scale[1], true);
+    view.setFloat64(147, scale[2], true);
+    view.setFloat64(155, offset[0], true);
+    view.setFloat64(163, offset[1], true);
+    view.setFloat64(171, offset[2], true);
+    view.setFloat64(179, max[0], true);
+    view.setFloat64(187, min[0], true);
+    view.setFloat64(195, max[1], true);
+    view.setFloat64(203, min[1], true);
+    view.setFloat64(211, max[2], true);
+    view.setFloat64(219, min[2], true);
+    view.setBigUint64(247, BigInt(pointCount), true);
+    for (let r = 0; r < 15; r++) {
+      view.setBigUint64(255 + r * 8, BigInt(pointsByReturn[r]), true);
+    }
+
+    // Variable length records
+    let vlrOffset = HEADER_SIZE;
+    if (wktBytes) {
+      this._writeVlrHeader(view, vlrOffset, 'LASF_Projection', 2112, wktBytes.length, 'OGC WKT');
+      bytes.set(wktBytes, vlrOffset + VLR_HEADER_SIZE);
+      vlrOffset += VLR_HEADER_SIZE + wktBytes.length;
+    }
+    if (extraDims.length > 0) {
+      this._writeVlrHeader(
+        view,
+        vlrOffset,
+        'LASF_Spec',
+        4,
+        extraDims.length * EXTRA_BYTES_DESCRIPTOR_SIZE,
+        'Extra Bytes'
+      );
+      let d = vlrOffset + VLR_HEADER_SIZE;
+      for (const dim of extraDims) {
+        view.setUint8(d + 2, dim.type);
+        writeString(view, d + 4, dim.name, 32);
+        writeString(view, d + 160, dim.name, 32);
+        d += EXTRA_BYTES_DESCRIPTOR_SIZE;
+      }
+    }
+
+    return buffer;
+  }
+
+  /**
+   * Converts positions (WGS84 offsets from coordinateOrigin) to absolute
+   * coordinates in the output CRS.
+   *
+   * @param data - Point cloud data
+   * @param wkt - Output CRS WKT, or undefined to keep coordinates as-is
+   * @returns Float64Array of XYZ coordinates (length = pointCount * 3)
+   */
+  private _toSourceCoordinates(data: PointCloudData, wkt: string | undefined): Float64Array {
+    const { positions, coordinateOrigin, pointCount } = data;
+    const coords = new Float64Array(pointCount * 3);
+
+    let converter: proj4.Converter | null = null;
+    let verticalUnitFactor = 1.0;
+    if (wkt) {
+      try {
+        converter = proj4(extractProjcsFromWkt(wkt), 'EPSG:4326');
+        verticalUnitFactor = getVerticalUnitConversionFactor(wkt);
+      } catch (e) {
+        console.warn('Failed to setup coordinate transformation, writing WGS84 coordinates:', e);
+      }
+    }
+
+    for (let i = 0; i < pointCount; i++) {
+      const x = positions[i * 3] + coordinateOrigin[0];
+      const y = positions[i * 3 + 1] + coordinateOrigin[1];
+      if (converter) {
+        const [sx, sy] = converter.inverse([x, y]) as [number, number];
+        coords[i * 3] = sx;
+        coords[i * 3 + 1] = sy;
+      } else {
+        coords[i * 3] = x;
+        coords[i * 3 + 1] = y;
+      }
+      coords[i * 3 + 2] = (positions[i * 3 + 2] + coordinateOrigin[2]) / verticalUnitFactor;
+    }
+
+    return coords;
+  }
+
+  /**
+   * Writes a VLR header.
+   */
+  private _writeVlrHeader(
+    view: DataView,
+    offset: number,
+    userId: string,
+    recordId: number,
+    length: number,
+    description: string
+  ): void {
+    view.setUint16(offset, 0, true);
+    writeString(view, offset + 2, userId, 16);
+    view.setUint16(offset + 18, recordId, true);
+    view.setUint16(offset + 20, length, true);
+    writeString(view, offset + 22, description, 32);
+  }
+
+  /**
+   * Writes a single extra bytes value of the given LAS data type.
+   */
+  private _writeValue(view: DataView, offset: number, type: number, value: number): void {
+    switch (type) {
+      case 1: view.setUint8(offset, value); break;
+      case 2: view.setInt8(offset, value); break;
+      case 3: view.setUint16(offset, value, true); break;
+      case 4: view.setInt16(offset, value, true); break;
+      case 5: view.setUint32(offset, value, true); break;
+      case 6: view.setInt32(offset, value, true); break;
+      case 9: view.setFloat32(offset, value, true); break;
+      case 10: view.setFloat64(offset, value, true); break;
+    }
+  }
+}
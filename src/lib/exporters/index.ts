@@ -0,0 +1,2 @@
+export { LasWriter, WGS84_WKT } from './LasWriter';
+export type { LasWriterOptions } from './LasWriter';
@@ -0,0 +1,118 @@
+import type { ColorCategory } from '../core/types';
+
+/**
+ * Options for creating a category legend
+ */
+export interface CategoryLegendOptions {
+  /** Categories to display */
+  categories: ColorCategory[];
+  /** Optional title shown above the list (e.g., the attribute name) */
+  title?: string;
+}
+
+/**
+ * Creates a read-only legend for categorical color schemes.
+ * Shows a color swatch and label for each distinct attribute value.
+ */
+export class CategoryLegend {
+  private _options: CategoryLegendOptions;
+  private _container?: HTMLElement;
+  private _titleElement?: HTMLElement;
+  private _listContainer?: HTMLElement;
+
+  constructor(options: CategoryLegendOptions) {
+    this._options = options;
+  }
+
+  /**
+   * Renders the legend element.
+   *
+   * @returns The legend container element
+   */
+  render(): HTMLElement {
+    const container = document.createElement('div');
+    container.className = 'lidar-category-legend';
+    this._container = container;
+
+    const title = document.createElement('div');
+    title.className = 'lidar-colorbar-label';
+    this._titleElement = title;
+    container.appendChild(title);
+
+    const list = document.createElement('div');
+    list.className = 'lidar-classification-legend-list';
+    this._listContainer = list;
+    container.appendChild(list);
+
+    this._updateTitle();
+    this._renderItems();
+    return container;
+  }
+
+  /**
+   * Updates the displayed categories.
+   *
+   * @param categories - Categories to display
+   * @param title - Optional title (e.g., the attribute name)
+   */
+  setCategories(categories: ColorCategory[], title?: string): void {
+    this._options.categories = categories;
+    if (title !== undefined) {
+      this._options.title = title;
+    }
+    this._updateTitle();
+    this._renderItems();
+  }
+
+  /**
+   * Gets the container element.
+   *
+   * @returns The container element or undefined if not rendered
+   */
+  getContainer(): HTMLElement | undefined {
+    return this._container;
+  }
+
+  /**
+   * Updates the title element.
+   */
+  private _updateTitle(): void {
+    if (!this._titleElement) return;
+    this._titleElement.textContent = this._options.title ?? '';
+    this._titleElement.style.display = this._options.title ? 'block' : 'none';
+  }
+
+  /**
+   * Re-renders the legend items.
+   */
+  private _renderItems(): void {
+    if (!this._listContainer) return;
+    this._listContainer.innerHTML = '';
+
+    if (this._options.categories.length === 0) {
+      const placeholder = document.createElement('div');
+      placeholder.className = 'lidar-classification-empty';
+      placeholder.textContent = 'No categories found';
+      this._listContainer.appendChild(placeholder);
+      return;
+    }
+
+    for (const category of this._options.categories) {
+      const item = document.createElement('div');
+      item.className = 'lidar-classification-legend-item';
+
+      const swatch = document.createElement('span');
+      swatch.className = 'lidar-classification-swatch';
+      const [r, g, b] = category.color;
+      swatch.style.backgroundColor = `rgb(${r}, ${g}, ${b})`;
+
+      const label = document.createElement('span');
+      label.className = 'lidar-classification-label';
+      label.textContent = category.label;
+
+      item.appendChild(swatch);
+      item.appendChild(label);
+      this._listContainer.appendChild(item);
+    }
+  }
+}
@@ -0,0 +1,359 @@
+import type { ClipRegion, ClipBox, ClipMode, ClipShape } from '../core/types';
+
+/**
+ * Callbacks for ClipPanel interactions
+ */
+export interface ClipPanelCallbacks {
+  /** Called when a draw button is toggled, with the mode of the region to draw (null shape cancels) */
+  onDrawToggle: (shape: ClipShape | null, mode: ClipMode) => void;
+  /** Called when a region is enabled or disabled */
+  onRegionToggle: (id: string, enabled: boolean) => void;
+  /** Called when the mode of a region changes */
+  onRegionModeChange: (id: string, mode: ClipMode) => void;
+  /** Called when a region's remove button is clicked */
+  onRegionRemove: (id: string) => void;
+  /** Called when clear button is clicked */
+  onClear: () => void;
+  /** Called when the GeoJSON export button is clicked */
+  onExport: () => void;
+  /** Called when the add box button is clicked, with the mode of the box */
+  onBoxAdd: (mode: ClipMode) => void;
+  /** Called when the box is enabled or disabled */
+  onBoxToggle: (enabled: boolean) => void;
+  /** Called when the mode of the box changes */
+  onBoxModeChange: (mode: ClipMode) => void;
+  /** Called when editing the box with handles is toggled */
+  onBoxEditToggle: (editing: boolean) => void;
+  /** Called when the box's remove button is clicked */
+  onBoxRemove: () => void;
+}
+
+const MODE_LABELS: Record<ClipMode, string> = {
+  inside: 'Keep inside',
+  outside: 'Remove inside',
+};
+
+/**
+ * UI panel for the clip tools: draw buttons, mode of new regions, the list of regions
+ * and the 3D clip box.
+ */
+export class ClipPanel {
+  private _container: HTMLElement;
+  private _callbacks: ClipPanelCallbacks;
+
+  // UI elements
+  private _polygonButton?: HTMLButtonElement;
+  private _rectangleButton?: HTMLButtonElement;
+  private _modeSelect?: HTMLSelectElement;
+  private _regionsList?: HTMLElement;
+  private _clearButton?: HTMLButtonElement;
+  private _exportButton?: HTMLButtonElement;
+  private _boxContainer?: HTMLElement;
+
+  private _drawing: ClipShape | null = null;
+
+  /**
+   * Creates a new ClipPanel instance.
+   *
+   * @param callbacks - Panel callbacks
+   */
+  constructor(callbacks: ClipPanelCallbacks) {
+    this._callbacks = callbacks;
+
+    this._container = document.createElement('div');
+    this._container.className = 'lidar-clip-panel';
+
+    this._build();
+  }
+
+  /**
+   * Renders the panel element.
+   *
+   * @returns Container element
+   */
+  render(): HTMLElement {
+    return this._container;
+  }
+
+  /**
+   * Sets the drawing state.
+   *
+   * @param shape - Shape being drawn, or null if not drawing
+   */
+  setDrawing(shape: ClipShape | null): void {
+    this._drawing = shape;
+    if (this._polygonButton) {
+      this._polygonButton.textContent = shape === 'polygon' ? 'Cancel' : 'Draw Polygon';
+      this._polygonButton.classList.toggle('active', shape === 'polygon');
+    }
+    if (this._rectangleButton) {
+      this._rectangleButton.textContent = shape === 'rectangle' ? 'Cancel' : 'Draw Rectangle';
+      this._rectangleButton.classList.toggle('active', shape === 'rectangle');
+    }
+  }
+
+  /**
+   * Updates the list of clip regions.
+   *
+   * @param regions - Clip regions
+   */
+  setRegions(regions: ClipRegion[]): void {
+    if (this._clearButton) this._clearButton.disabled = regions.length === 0;
+    if (this._exportButton) this._exportButton.disabled = regions.length === 0;
+    if (!this._regionsList) return;
+
+    this._regionsList.innerHTML = '';
+    if (regions.length === 0) {
+      const empty = document.createElement('div');
+      empty.className = 'lidar-clip-empty';
+      empty.textContent = 'No clip regions';
+      this._regionsList.appendChild(empty);
+      return;
+    }
+    for (const region of regions) {
+      this._regionsList.appendChild(this._buildRegionItem(region));
+    }
+  }
+
+  /**
+   * Updates the 3D clip box controls.
+   *
+   * @param box - Clip box, or null if there is none
+   * @param editing - Whether the box is being edited with handles
+   */
+  setBox(box: ClipBox | null, editing: boolean): void {
+    if (!this._boxContainer) return;
+
+    this._boxContainer.innerHTML = '';
+    if (!box) {
+      const addButton = document.createElement('button');
+      addButton.type = 'button';
+      addButton.className = 'lidar-control-button';
+      addButton.textContent = 'Add 3D Box';
+      addButton.title = 'Add a box with handles to move, rotate and resize it';
+      addButton.addEventListener('click', (e) => {
+        e.stopPropagation();
+        this._callbacks.onBoxAdd((this._modeSelect?.value as ClipMode) ?? 'inside');
+      });
+      const controls = document.createElement('div');
+      controls.className = 'lidar-clip-controls';
+      controls.appendChild(addButton);
+      this._boxContainer.appendChild(controls);
+      return;
+    }
+
+    const item = document.createElement('div');
+    item.className = 'lidar-clip-region';
+
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.checked = box.enabled;
+    checkbox.title = 'Enable clipping by the box';
+    checkbox.addEventListener('change', (e) => {
+      e.stopPropagation();
+      this._callbacks.onBoxToggle(checkbox.checked);
+    });
+
+    const name = document.createElement('span');
+    name.className = 'lidar-clip-region-name';
+    name.textContent = `3D Box (${box.minZ.toFixed(1)} - ${box.maxZ.toFixed(1)} m)`;
+
+    const modeSelect = this._buildModeSelect(box.mode);
+    modeSelect.classList.add('lidar-clip-region-mode');
+    modeSelect.addEventListener('change', (e) => {
+      e.stopPropagation();
+      this._callbacks.onBoxModeChange(modeSelect.value as ClipMode);
+    });
+
+    const removeBtn = document.createElement('button');
+    removeBtn.type = 'button';
+    removeBtn.className = 'lidar-pointcloud-action remove';
+    removeBtn.innerHTML = '&times;';
+    removeBtn.title = 'Remove box';
+    removeBtn.addEventListener('click', (e) => {
+      e.stopPropagation(); // Prevent click-outside handler from collapsing panel
+      this._callbacks.onBoxRemove();
+    });
+
+    item.appendChild(checkbox);
+    item.appendChild(name);
+    item.appendChild(modeSelect);
+    item.appendChild(removeBtn);
+    this._boxContainer.appendChild(item);
+
+    const editButton = document.createElement('button');
+    editButton.type = 'button';
+    editButton.className = 'lidar-control-button lidar-clip-draw';
+    editButton.classList.toggle('active', editing);
+    editButton.textContent = editing ? 'Done' : 'Edit Handles';
+    editButton.title = 'Drag the handles to move (white), rotate (yellow) and resize (blue) the box, or to raise its top and bottom (green)';
+    editButton.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this._callbacks.onBoxEditToggle(!editing);
+    });
+    const controls = document.createElement('div');
+    controls.className = 'lidar-clip-controls';
+    controls.appendChild(editButton);
+    this._boxContainer.appendChild(controls);
+  }
+
+  /**
+   * Builds the panel UI.
+   */
+  private _build(): void {
+    // Mode of new regions
+    const modeGroup = document.createElement('div');
+    modeGroup.className = 'lidar-control-group';
+
+    const modeLabel = document.createElement('label');
+    modeLabel.className = 'lidar-control-label';
+    modeLabel.textContent = 'New Regions';
+    modeGroup.appendChild(modeLabel);
+
+    this._modeSelect = this._buildModeSelect('inside');
+    modeGroup.appendChild(this._modeSelect);
+    this._container.appendChild(modeGroup);
+
+    // Draw buttons
+    const controls = document.createElement('div');
+    controls.className = 'lidar-clip-controls';
+
+    this._polygonButton = this._buildDrawButton('polygon', 'Draw Polygon');
+    this._rectangleButton = this._buildDrawButton('rectangle', 'Draw Rectangle');
+    controls.appendChild(this._polygonButton);
+    controls.appendChild(this._rectangleButton);
+    this._container.appendChild(controls);
+
+    // Regions list
+    this._regionsList = document.createElement('div');
+    this._regionsList.className = 'lidar-clip-regions';
+    this._container.appendChild(this._regionsList);
+
+    // Clear and export buttons
+    const actions = document.createElement('div');
+    actions.className = 'lidar-clip-controls';
+
+    this._clearButton = document.createElement('button');
+    this._clearButton.type = 'button';
+    this._clearButton.className = 'lidar-control-button secondary';
+    this._clearButton.textContent = 'Clear All';
+    this._clearButton.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this._callbacks.onClear();
+    });
+    actions.appendChild(this._clearButton);
+
+    this._exportButton = document.createElement('button');
+    this._exportButton.type = 'button';
+    this._exportButton.className = 'lidar-control-button secondary';
+    this._exportButton.textContent = 'GeoJSON';
+    this._exportButton.title = 'Download clip regions as GeoJSON';
+    this._exportButton.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this._callbacks.onExport();
+    });
+    actions.appendChild(this._exportButton);
+    this._container.appendChild(actions);
+
+    // 3D clip box
+    const boxLabel = document.createElement('label');
+    boxLabel.className = 'lidar-control-label';
+    boxLabel.textContent = '3D Box';
+    this._container.appendChild(boxLabel);
+
+    this._boxContainer = document.createElement('div');
+    this._boxContainer.className = 'lidar-clip-box';
+    this._container.appendChild(this._boxContainer);
+
+    this.setRegions([]);
+    this.setBox(null, false);
+  }
+
+  /**
+   * Builds a button that toggles drawing a shape.
+   *
+   * @param shape - Shape drawn by the button
+   * @param text - Button text
+   * @returns Button element
+   */
+  private _buildDrawButton(shape: ClipShape, text: string): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'lidar-control-button lidar-clip-draw';
+    button.textContent = text;
+    button.addEventListener('click', (e) => {
+      e.stopPropagation();
+      const next = this._drawing === shape ? null : shape;
+      this.setDrawing(next);
+      this._callbacks.onDrawToggle(next, (this._modeSelect?.value as ClipMode) ?? 'inside');
+    });
+    return button;
+  }
+
+  /**
+   * Builds a select of the clip modes.
+   *
+   * @param mode - Selected mode
+   * @returns Select element
+   */
+  private _buildModeSelect(mode: ClipMode): HTMLSelectElement {
+    const select = document.createElement('select');
+    select.className = 'lidar-control-select';
+    for (const [value, label] of Object.entries(MODE_LABELS)) {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = label;
+      select.appendChild(option);
+    }
+    select.value = mode;
+    return select;
+  }
+
+  /**
+   * Builds the list item of a clip region.
+   *
+   * @param region - Clip region
+   * @returns List item element
+   */
+  private _buildRegionItem(region: ClipRegion): HTMLElement {
+    const item = document.createElement('div');
+    item.className = 'lidar-clip-region';
+
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.checked = region.enabled;
+    checkbox.title = 'Enable clipping by this region';
+    checkbox.addEventListener('change', (e) => {
+      e.stopPropagation();
+      this._callbacks.onRegionToggle(region.id, checkbox.checked);
+    });
+
+    const name = document.createElement('span');
+    name.className = 'lidar-clip-region-name';
+    name.textContent = region.name;
+    name.title = region.name;
+
+    const modeSelect = this._buildModeSelect(region.mode);
+    modeSelect.classList.add('lidar-clip-region-mode');
+    modeSelect.addEventListener('change', (e) => {
+      e.stopPropagation();
+      this._callbacks.onRegionModeChange(region.id, modeSelect.value as ClipMode);
+    });
+
+    const removeBtn = document.createElement('button');
+    removeBtn.type = 'button';
+    removeBtn.className = 'lidar-pointcloud-action remove';
+    removeBtn.innerHTML = '&times;';
+    removeBtn.title = 'Remove region';
+    removeBtn.addEventListener('click', (e) => {
+      e.stopPropagation(); // Prevent click-outside handler from collapsing panel
+      this._callbacks.onRegionRemove(region.id);
+    });
+
+    item.appendChild(checkbox);
+    item.appendChild(name);
+    item.appendChild(modeSelect);
+    item.appendChild(removeBtn);
+    return item;
+  }
+}
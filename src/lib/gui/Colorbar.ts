@@ -1,4 +1,5 @@
 import type { ColormapName } from '../core/types';
+import type { ColorRamp } from '../colorizers/types';
 import { COLORMAPS } from '../colorizers/Colormaps';
 
 /**
@@ -13,6 +14,10 @@ export interface ColorbarOptions {
   maxValue: number;
   /** Label for the colorbar (e.g., "Elevation (m)") */
   label?: string;
+  /** Custom color ramp, drawn instead of the colormap when set */
+  ramp?: ColorRamp;
+  /** Formats the min/max value labels (e.g., as dates), instead of numbers with range-based precision */
+  formatValue?: (value: number) => string;
 }
 
 /**
@@ -22,6 +27,7 @@ export interface ColorbarOptions {
 export class Colorbar {
   private _options: ColorbarOptions;
   private _canvas?: HTMLCanvasElement;
+  private _label?: HTMLElement;
   private _minLabel?: HTMLElement;
   private _maxLabel?: HTMLElement;
 
@@ -44,12 +50,10 @@ export class Colorbar {
     container.className = 'lidar-colorbar';
 
     // Optional label
-    if (this._options.label) {
-      const label = document.createElement('div');
-      label.className = 'lidar-colorbar-label';
-      label.textContent = this._options.label;
-      container.appendChild(label);
-    }
+    const label = document.createElement('div');
+    label.className = 'lidar-colorbar-label';
+    this._label = label;
+    container.appendChild(label);
 
     // Canvas for gradient
     const canvas = document.createElement('canvas');
@@ -78,6 +82,7 @@ export class Colorbar {
     // Draw the gradient and update labels
     this._drawGradient();
     this._updateLabels();
+    this._updateTitle();
 
     return container;
   }
@@ -100,9 +105,16 @@ export class Colorbar {
     if (options.label !== undefined) {
       this._options.label = options.label;
     }
+    if ('ramp' in options) {
+      this._options.ramp = options.ramp;
+    }
+    if ('formatValue' in options) {
+      this._options.formatValue = options.formatValue;
+    }
 
     this._drawGradient();
     this._updateLabels();
+    this._updateTitle();
   }
 
   /**
@@ -115,6 +127,36 @@ export class Colorbar {
     this._drawGradient();
   }
 
+  /**
+   * Sets a custom color ramp, or clears it to draw the colormap again.
+   *
+   * @param ramp - Custom color ramp, or undefined to use the colormap
+   */
+  setRamp(ramp: ColorRamp | undefined): void {
+    this._options.ramp = ramp;
+    this._drawGradient();
+  }
+
+  /**
+   * Sets the formatter of the min/max value labels, or clears it to format them as numbers.
+   *
+   * @param formatValue - Value formatter, or undefined for the default number formatting
+   */
+  setFormatter(formatValue: ((value: number) => string) | undefined): void {
+    this._options.formatValue = formatValue;
+    this._updateLabels();
+  }
+
+  /**
+   * Sets the label shown above the colorbar.
+   *
+   * @param label - Label text (empty string hides the label)
+   */
+  setLabel(label: string): void {
+    this._options.label = label;
+    this._updateTitle();
+  }
+
   /**
    * Sets the value range.
    *
@@ -159,7 +201,7 @@ export class Colorbar {
 
     const width = this._canvas.width;
     const height = this._canvas.height;
-    const ramp = COLORMAPS[this._options.colormap] || COLORMAPS.viridis;
+    const ramp = this._options.ramp || COLORMAPS[this._options.colormap] || COLORMAPS.viridis;
 
     // Create gradient
     const gradient = ctx.createLinearGradient(0, 0, width, 0);
@@ -176,6 +218,15 @@ export class Colorbar {
     ctx.fillRect(0, 0, width, height);
   }
 
+  /**
+   * Updates the label shown above the colorbar.
+   */
+  private _updateTitle(): void {
+    if (!this._label) return;
+    this._label.textContent = this._options.label ?? '';
+    this._label.style.display = this._options.label ? 'block' : 'none';
+  }
+
   /**
    * Updates the min/max value labels.
    */
@@ -198,6 +249,9 @@ export class Colorbar {
     if (!Number.isFinite(value)) {
       return '—';
     }
+    if (this._options.formatValue) {
+      return this._options.formatValue(value);
+    }
     // Use appropriate precision based on the range
     const range = Math.abs(this._options.maxValue - this._options.minValue);
     if (range < 1) {
@@ -151,6 +151,25 @@ export class MetadataPanel {
       }
     }
 
+    if (meta.type === '3dtiles' && meta.tiles3d) {
+      rows.push({ label: '3D Tiles Version', value: meta.tiles3d.version });
+      if (meta.tiles3d.tilesetVersion) {
+        rows.push({ label: 'Tileset Version', value: meta.tiles3d.tilesetVersion });
+      }
+      rows.push({ label: 'Geometric Error', value: meta.tiles3d.geometricError.toFixed(2) + ' m' });
+      rows.push({ label: 'Refinement', value: meta.tiles3d.refine });
+      rows.push({ label: 'Tiles Discovered', value: this._formatNumber(meta.tiles3d.discoveredTiles) });
+    }
+
+    if (meta.type === 'potree' && meta.potree) {
+      rows.push({ label: 'Potree Version', value: meta.potree.version });
+      rows.push({ label: 'Encoding', value: meta.potree.encoding });
+      rows.push({ label: 'Root Spacing', value: meta.potree.spacing.toFixed(2) });
+      if (meta.potree.projection) {
+        rows.push({ label: 'Projection', value: meta.potree.projection });
+      }
+    }
+
     for (const row of rows) {
       body.appendChild(this._createRow(row.label, row.value));
     }
@@ -329,6 +348,10 @@ export class MetadataPanel {
       dimensions = meta.copc.dimensions;
     } else if (meta.type === 'ept' && meta.ept?.dimensions) {
       dimensions = meta.ept.dimensions;
+    } else if (meta.type === '3dtiles' && meta.tiles3d?.dimensions) {
+      dimensions = meta.tiles3d.dimensions;
+    } else if (meta.type === 'potree' && meta.potree?.dimensions) {
+      dimensions = meta.potree.dimensions;
     }
 
     if (dimensions.length > 0) {
@@ -1,12 +1,29 @@
-import type { LidarState, ColorScheme, PointCloudInfo, ColormapName, ColorRangeConfig } from '../core/types';
+import type {
+  LidarState,
+  ColorScheme,
+  ColorSchemeConfig,
+  PointCloudInfo,
+  ColormapName,
+  ColorRangeConfig,
+  AttributeRange,
+  PointSizeMode,
+  AttributeColorSchemeType,
+} from '../core/types';
 import { FileInput } from './FileInput';
 import { RangeSlider } from './RangeSlider';
 import { DualRangeSlider } from './DualRangeSlider';
 import { ClassificationLegend } from './ClassificationLegend';
+import { CategoryLegend } from './CategoryLegend';
 import { Colorbar } from './Colorbar';
 import { PercentileRangeControl } from './PercentileRangeControl';
-import { formatNumber } from '../utils/helpers';
+import { formatNumber, formatGpsTime } from '../utils/helpers';
 import { COLORMAP_NAMES, COLORMAP_LABELS } from '../colorizers/Colormaps';
+import {
+  parseHexColor,
+  getAvailableAttributeColorSchemes,
+  getColorSchemeConfig,
+  INTENSITY_BLEND_COLOR_SCHEMES,
+} from '../colorizers/ColorScheme';
 
 /**
  * Callbacks for panel interactions
@@ -15,15 +32,28 @@ export interface PanelBuilderCallbacks {
   onFileSelect: (file: File) => void;
   onUrlSubmit: (url: string) => void;
   onPointSizeChange: (size: number) => void;
+  onPointSizeModeChange?: (mode: PointSizeMode) => void;
+  onPointSizePixelRangeChange?: (minPixels: number, maxPixels: number) => void;
   onOpacityChange: (opacity: number) => void;
   onColorSchemeChange: (scheme: ColorScheme) => void;
   onColormapChange: (colormap: ColormapName) => void;
   onColorRangeChange: (config: ColorRangeConfig) => void;
   onUsePercentileChange: (usePercentile: boolean) => void;
+  onIntensityBlendChange?: (weight: number) => void;
   onElevationRangeChange: (range: [number, number] | null) => void;
+  onAttributeFilterChange?: (name: string, range: [number, number] | null) => void;
+  getAttributeRange?: (name: string) => AttributeRange | null;
+  onGpsTimeWindowChange?: (window: [number, number] | null) => void;
+  onGpsTimePlayingChange?: (playing: boolean) => void;
+  onGpsTimeSpeedChange?: (speed: number) => void;
+  onFilterExpressionChange?: (expression: string | null) => void;
   onPickableChange: (pickable: boolean) => void;
   onZOffsetEnabledChange: (enabled: boolean) => void;
   onZOffsetChange: (offset: number) => void;
+  onNormalShadingChange?: (enabled: boolean) => void;
+  onEdlEnabledChange?: (enabled: boolean) => void;
+  onEdlStrengthChange?: (strength: number) => void;
+  onEdlRadiusChange?: (radius: number) => void;
   onTerrainChange: (enabled: boolean) => void;
   onUnload: (id: string) => void;
   onZoomTo: (id: string) => void;
@@ -31,9 +61,29 @@ export interface PanelBuilderCallbacks {
   onClassificationShowAll: () => void;
   onClassificationHideAll: () => void;
   onShowMetadata?: (id: string) => void;
+  onExport?: (id: string) => void;
+  onCancelLoad?: () => void;
   onCrossSectionPanel?: () => HTMLElement | null;
+  onClipPanel?: () => HTMLElement | null;
+  onStyleTargetChange?: (id: string | null) => void;
 }
 
+/**
+ * Labels of the attribute color schemes in the color scheme selector
+ */
+const ATTRIBUTE_COLOR_SCHEME_LABELS: Record<AttributeColorSchemeType, string> = {
+  returnNumber: 'Return Number',
+  numberOfReturns: 'Number of Returns',
+  scanAngle: 'Scan Angle',
+  pointSourceId: 'Point Source ID',
+  gpsTime: 'GPS Time',
+};
+
+/**
+ * Speeds of the GPS time animation in the speed selector
+ */
+const GPS_TIME_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
 /**
  * Builds and manages the LiDAR control panel UI.
  */
@@ -46,33 +96,67 @@ export class PanelBuilder {
   private _fileInput?: FileInput;
   private _urlInput?: HTMLInputElement;
   private _loadButton?: HTMLButtonElement;
+  private _styleTargetSelect?: HTMLSelectElement;
+  private _styleTargetGroup?: HTMLElement;
+  private _styleTargetOptionsKey: string = '';
   private _colorSelect?: HTMLSelectElement;
+  private _customSchemeOption?: HTMLOptionElement;
+  private _customScheme?: ColorSchemeConfig;
+  private _attributeSchemeOptions: Map<AttributeColorSchemeType, HTMLOptionElement> = new Map();
   private _colormapSelect?: HTMLSelectElement;
   private _colormapGroup?: HTMLElement;
   private _colorbar?: Colorbar;
   private _colorbarContainer?: HTMLElement;
   private _colorRangeControl?: PercentileRangeControl;
   private _colorRangeContainer?: HTMLElement;
+  private _intensityBlendSlider?: RangeSlider;
+  private _intensityBlendContainer?: HTMLElement;
   private _percentileCheckbox?: HTMLInputElement;
   private _percentileGroup?: HTMLElement;
   private _pointSizeSlider?: RangeSlider;
+  private _pointSizeModeSelect?: HTMLSelectElement;
+  private _pointSizeRangeContainer?: HTMLElement;
+  private _pointSizeRangeSlider?: DualRangeSlider;
   private _opacitySlider?: RangeSlider;
   private _pointCloudsList?: HTMLElement;
   private _pickableCheckbox?: HTMLInputElement;
   private _elevationSlider?: DualRangeSlider;
   private _elevationCheckbox?: HTMLInputElement;
+  private _elevationSliderContainer?: HTMLElement;
+  private _attributeFilterGroup?: HTMLElement;
+  private _attributeSelect?: HTMLSelectElement;
+  private _attributeFilterList?: HTMLElement;
+  private _attributeFilterSliders: Map<string, DualRangeSlider> = new Map();
+  private _attributeFilterKey: string = '';
+  private _gpsTimeGroup?: HTMLElement;
+  private _gpsTimeCheckbox?: HTMLInputElement;
+  private _gpsTimeContainer?: HTMLElement;
+  private _gpsTimeStartSlider?: RangeSlider;
+  private _gpsTimeWidthSlider?: RangeSlider;
+  private _gpsTimePlayButton?: HTMLButtonElement;
+  private _gpsTimeSpeedSelect?: HTMLSelectElement;
+  private _gpsTimeRangeKey: string = '';
+  private _filterExpressionInput?: HTMLInputElement;
+  private _filterExpressionError?: HTMLElement;
   private _zOffsetCheckbox?: HTMLInputElement;
   private _zOffsetSlider?: RangeSlider;
   private _zOffsetSliderContainer?: HTMLElement;
+  private _normalShadingCheckbox?: HTMLInputElement;
+  private _edlCheckbox?: HTMLInputElement;
+  private _edlSliderContainer?: HTMLElement;
+  private _edlStrengthSlider?: RangeSlider;
+  private _edlRadiusSlider?: RangeSlider;
   private _terrainCheckbox?: HTMLInputElement;
   private _loadingIndicator?: HTMLElement;
   private _errorMessage?: HTMLElement;
   private _classificationLegend?: ClassificationLegend;
   private _classificationLegendContainer?: HTMLElement;
+  private _categoryLegend?: CategoryLegend;
+  private _categoryLegendContainer?: HTMLElement;
 
   constructor(callbacks: PanelBuilderCallbacks, initialState: LidarState) {
     this._callbacks = callbacks;
-    this._state = initialState;
+    this._state = this._withTargetStyle(initialState);
   }
 
   /**
@@ -104,6 +188,12 @@ export class PanelBuilder {
       content.appendChild(crossSectionPanel);
     }
 
+    // Clipping panel (if callback provided)
+    const clipPanel = this._buildClipSection();
+    if (clipPanel) {
+      content.appendChild(clipPanel);
+    }
+
     // Loading indicator
     content.appendChild(this._buildLoadingIndicator());
 
@@ -119,6 +209,8 @@ export class PanelBuilder {
    * @param state - New state
    */
   updateState(state: LidarState): void {
+    const styleTargetChanged = state.styleTargetId !== this._state.styleTargetId;
+    state = this._withTargetStyle(state);
     this._state = state;
 
     // Update max height if changed
@@ -148,18 +240,31 @@ export class PanelBuilder {
     // Update point clouds list
     this._updatePointCloudsList();
 
+    // Update the point cloud whose style is edited
+    this._updateStyleTargetSelect();
+
     // Update sliders
     if (this._pointSizeSlider) {
       this._pointSizeSlider.setValue(state.pointSize);
     }
+    if (this._pointSizeModeSelect) {
+      this._pointSizeModeSelect.value = state.pointSizeMode;
+    }
+    if (this._pointSizeRangeContainer) {
+      this._pointSizeRangeContainer.style.display = state.pointSizeMode === 'pixels' ? 'none' : 'block';
+    }
+    this._pointSizeRangeSlider?.setRange(state.pointSizeMinPixels, state.pointSizeMaxPixels);
     if (this._opacitySlider) {
       this._opacitySlider.setValue(state.opacity);
     }
 
     // Update color scheme
-    if (this._colorSelect && typeof state.colorScheme === 'string') {
-      this._colorSelect.value = state.colorScheme;
-      this._updatePercentileVisibility(state.colorScheme);
+    if (this._colorSelect) {
+      this._syncCustomSchemeOption(state.colorScheme);
+      this._syncAttributeSchemeOptions(state.colorScheme);
+      const schemeKey = typeof state.colorScheme === 'string' ? state.colorScheme : 'custom';
+      this._colorSelect.value = schemeKey;
+      this._updatePercentileVisibility(schemeKey);
     }
 
     // Update colormap selector
@@ -175,6 +280,21 @@ export class PanelBuilder {
       if (state.computedColorBounds) {
         this._colorbar.setRange(state.computedColorBounds.min, state.computedColorBounds.max);
       }
+      // Custom and attribute gradients draw their own ramp and show the attribute name
+      const config = getColorSchemeConfig(state.colorScheme);
+      const gradient = config?.type === 'gradient' ? config : null;
+      this._colorbar.setRamp(
+        gradient?.colors && gradient.colors.length >= 2 ? gradient.colors.map(parseHexColor) : undefined
+      );
+      this._colorbar.setLabel(gradient ? gradient.attribute : '');
+      // GPS times are shown as dates
+      this._colorbar.setFormatter(gradient?.attribute === 'GpsTime' ? formatGpsTime : undefined);
+    }
+
+    // Update category legend
+    if (this._categoryLegend) {
+      const attribute = getColorSchemeConfig(state.colorScheme)?.attribute ?? '';
+      this._categoryLegend.setCategories(state.computedColorCategories || [], attribute);
     }
 
     // Update color range control
@@ -189,6 +309,9 @@ export class PanelBuilder {
       }
     }
 
+    // Update intensity blend slider
+    this._intensityBlendSlider?.setValue(state.intensityBlend);
+
     // Update percentile checkbox (legacy)
     if (this._percentileCheckbox) {
       this._percentileCheckbox.checked = state.usePercentile ?? true;
@@ -217,11 +340,36 @@ export class PanelBuilder {
       this._zOffsetSlider.setValue(state.zOffset ?? 0);
     }
 
+    // Update normal shading checkbox
+    if (this._normalShadingCheckbox) {
+      this._normalShadingCheckbox.checked = state.normalShading;
+    }
+
+    // Update Eye-Dome Lighting controls
+    if (this._edlCheckbox) {
+      this._edlCheckbox.checked = state.edlEnabled;
+    }
+    if (this._edlSliderContainer) {
+      this._edlSliderContainer.style.display = state.edlEnabled ? 'block' : 'none';
+    }
+    this._edlStrengthSlider?.setValue(state.edlStrength);
+    this._edlRadiusSlider?.setValue(state.edlRadius);
+
     // Update terrain checkbox
     if (this._terrainCheckbox) {
       this._terrainCheckbox.checked = state.terrainEnabled ?? false;
     }
 
+    // Show the elevation filter of the point cloud whose style is edited
+    if (styleTargetChanged && this._elevationCheckbox && this._elevationSliderContainer) {
+      const range = state.elevationRange;
+      this._elevationCheckbox.checked = range !== null;
+      this._elevationSliderContainer.style.display = range ? 'block' : 'none';
+      if (range) {
+        this._elevationSlider?.setRange(range[0], range[1]);
+      }
+    }
+
     // Update elevation slider bounds when point clouds change
     if (this._elevationSlider && state.pointClouds.length > 0) {
       const bounds = this._getElevationBounds();
@@ -232,6 +380,22 @@ export class PanelBuilder {
       }
     }
 
+    // Update attribute filters
+    this._updateAttributeFilters();
+
+    // Update GPS time window
+    this._updateGpsTimeControl();
+
+    // Update filter expression
+    if (this._filterExpressionInput && document.activeElement !== this._filterExpressionInput &&
+        !state.filterExpressionError) {
+      this._filterExpressionInput.value = state.filterExpression ?? '';
+    }
+    if (this._filterExpressionError) {
+      this._filterExpressionError.textContent = state.filterExpressionError ?? '';
+      this._filterExpressionError.style.display = state.filterExpressionError ? 'block' : 'none';
+    }
+
     // Update classification legend
     if (this._classificationLegend && state.availableClassifications) {
       this._classificationLegend.setClassifications(
@@ -268,6 +432,18 @@ export class PanelBuilder {
     }
   }
 
+  /**
+   * Moves the GPS time window sliders to a window, without updating the rest of the panel
+   * (called on every frame of the GPS time animation).
+   *
+   * @param window - GPS time window [start, end], or null if there is none
+   */
+  updateGpsTimeWindow(window: [number, number] | null): void {
+    if (!window) return;
+    this._gpsTimeStartSlider?.setValue(window[0]);
+    this._gpsTimeWidthSlider?.setValue(window[1] - window[0]);
+  }
+
   /**
    * Builds the file input section.
    */
@@ -277,7 +453,8 @@ export class PanelBuilder {
 
     // File upload
     this._fileInput = new FileInput({
-      accept: '.las,.laz',
+      accept: '.las,.laz,.ply,.xyz,.csv,.txt,.pts',
+      label: 'Drop LAS/LAZ/PLY/XYZ/PTS file here or click to browse',
       onChange: (file) => this._callbacks.onFileSelect(file),
     });
     section.appendChild(this._fileInput.render());
@@ -343,6 +520,9 @@ export class PanelBuilder {
     header.textContent = 'Styling';
     section.appendChild(header);
 
+    // Point cloud whose style is edited (shown when several are loaded)
+    section.appendChild(this._buildStyleTargetSelector());
+
     // Color scheme selector
     const colorGroup = document.createElement('div');
     colorGroup.className = 'lidar-control-group';
@@ -359,14 +539,26 @@ export class PanelBuilder {
       <option value="intensity">Intensity</option>
       <option value="classification">Classification</option>
       <option value="rgb">RGB (if available)</option>
+      <option value="rgbIntensity">RGB × Intensity</option>
+      <option value="elevationIntensity">Elevation × Intensity</option>
+      <option value="classificationIntensity">Classification × Intensity</option>
+      <option value="normal">Normal</option>
+      <option value="slope">Slope</option>
+      <option value="aspect">Aspect</option>
     `;
-    colorSelect.value = typeof this._state.colorScheme === 'string' ? this._state.colorScheme : 'elevation';
+    this._colorSelect = colorSelect;
+    this._syncCustomSchemeOption(this._state.colorScheme);
+    this._syncAttributeSchemeOptions(this._state.colorScheme);
+    colorSelect.value = typeof this._state.colorScheme === 'string' ? this._state.colorScheme : 'custom';
     colorSelect.addEventListener('change', () => {
-      this._callbacks.onColorSchemeChange(colorSelect.value as ColorScheme);
+      if (colorSelect.value === 'custom' && this._customScheme) {
+        this._callbacks.onColorSchemeChange(this._customScheme);
+      } else {
+        this._callbacks.onColorSchemeChange(colorSelect.value as ColorScheme);
+      }
       // Show/hide percentile option based on color scheme
       this._updatePercentileVisibility(colorSelect.value);
     });
-    this._colorSelect = colorSelect;
     colorGroup.appendChild(colorSelect);
     section.appendChild(colorGroup);
 
@@ -379,9 +571,15 @@ export class PanelBuilder {
     // Classification legend (shown only when classification scheme is selected)
     section.appendChild(this._buildClassificationLegend());
 
+    // Category legend (shown only for categorical custom and attribute schemes)
+    section.appendChild(this._buildCategoryLegend());
+
     // Color range control (replaces percentile checkbox)
     section.appendChild(this._buildColorRangeControl());
 
+    // Intensity blend weight (shown only for intensity-blended schemes)
+    section.appendChild(this._buildIntensityBlendControl());
+
     // Point size slider
     this._pointSizeSlider = new RangeSlider({
       label: 'Point Size',
@@ -393,6 +591,11 @@ export class PanelBuilder {
     });
     section.appendChild(this._pointSizeSlider.render());
 
+    // Point size units (if callback provided)
+    if (this._callbacks.onPointSizeModeChange) {
+      section.appendChild(this._buildPointSizeModeControl());
+    }
+
     // Opacity slider
     this._opacitySlider = new RangeSlider({
       label: 'Opacity',
@@ -413,12 +616,105 @@ export class PanelBuilder {
     // Elevation filter (collapsible)
     section.appendChild(this._buildElevationFilter());
 
+    // Attribute range filters (shown when point clouds have filterable attributes)
+    section.appendChild(this._buildAttributeFilters());
+
+    // GPS time window (shown when point clouds have GPS times, if callback provided)
+    if (this._callbacks.onGpsTimeWindowChange) {
+      section.appendChild(this._buildGpsTimeControl());
+    }
+
+    // Filter expression (if callback provided)
+    if (this._callbacks.onFilterExpressionChange) {
+      section.appendChild(this._buildFilterExpression());
+    }
+
     // Z offset control (collapsible)
     section.appendChild(this._buildZOffsetControl());
 
+    // Normal shading (if callback provided)
+    if (this._callbacks.onNormalShadingChange) {
+      section.appendChild(this._buildNormalShadingCheckbox());
+    }
+
+    // Eye-Dome Lighting (if callback provided)
+    if (this._callbacks.onEdlEnabledChange) {
+      section.appendChild(this._buildEdlControl());
+    }
+
+    // Apply initial visibility now that all color controls exist (handles custom schemes)
+    this._updatePercentileVisibility(colorSelect.value);
+
     return section;
   }
 
+  /**
+   * Builds the selector of the point cloud whose style the styling controls edit.
+   */
+  private _buildStyleTargetSelector(): HTMLElement {
+    const group = document.createElement('div');
+    group.className = 'lidar-control-group';
+    this._styleTargetGroup = group;
+
+    const label = document.createElement('label');
+    label.className = 'lidar-control-label';
+    label.textContent = 'Apply Style To';
+    group.appendChild(label);
+
+    const select = document.createElement('select');
+    select.className = 'lidar-control-select';
+    this._styleTargetSelect = select;
+    select.addEventListener('change', () => {
+      this._callbacks.onStyleTargetChange?.(select.value || null);
+    });
+    group.appendChild(select);
+
+    this._updateStyleTargetSelect();
+    return group;
+  }
+
+  /**
+   * Updates the options of the style target selector from the loaded point clouds.
+   */
+  private _updateStyleTargetSelect(): void {
+    if (!this._styleTargetSelect || !this._styleTargetGroup) return;
+
+    const pointClouds = this._state.pointClouds;
+    this._styleTargetGroup.style.display =
+      this._callbacks.onStyleTargetChange && pointClouds.length > 1 ? 'block' : 'none';
+
+    // Only rebuild the options when the point clouds change
+    const optionsKey = pointClouds.map((pc) => `${pc.id}:${pc.name}`).join('|');
+    if (optionsKey !== this._styleTargetOptionsKey) {
+      this._styleTargetOptionsKey = optionsKey;
+      this._styleTargetSelect.innerHTML = '';
+      const allOption = document.createElement('option');
+      allOption.value = '';
+      allOption.textContent = 'All point clouds';
+      this._styleTargetSelect.appendChild(allOption);
+
+      for (const pc of pointClouds) {
+        const option = document.createElement('option');
+        option.value = pc.id;
+        option.textContent = pc.name;
+        this._styleTargetSelect.appendChild(option);
+      }
+    }
+    this._styleTargetSelect.value = this._state.styleTargetId ?? '';
+  }
+
+  /**
+   * Applies the style overrides of the point cloud being edited to the state,
+   * so the styling controls show that point cloud's style.
+   *
+   * @param state - Control state
+   * @returns State with the edited point cloud's style
+   */
+  private _withTargetStyle(state: LidarState): LidarState {
+    const style = state.styleTargetId ? state.pointCloudStyles?.[state.styleTargetId] : undefined;
+    return style ? { ...state, ...style } : state;
+  }
+
   /**
    * Builds the elevation filter controls with checkbox and dual slider.
    */
@@ -452,6 +748,7 @@ export class PanelBuilder {
     const sliderContainer = document.createElement('div');
     sliderContainer.style.display = 'none';
     sliderContainer.style.marginTop = '8px';
+    this._elevationSliderContainer = sliderContainer;
 
     // Get elevation bounds from loaded point clouds
     const bounds = this._getElevationBounds();
@@ -496,6 +793,339 @@ export class PanelBuilder {
     return group;
   }
 
+  /**
+   * Builds the attribute filter controls: an attribute selector to add filters
+   * and a dual slider per filtered attribute.
+   */
+  private _buildAttributeFilters(): HTMLElement {
+    const group = document.createElement('div');
+    group.className = 'lidar-control-group';
+    this._attributeFilterGroup = group;
+
+    const label = document.createElement('label');
+    label.className = 'lidar-control-label';
+    label.textContent = 'Attribute Filters';
+    group.appendChild(label);
+
+    const row = document.createElement('div');
+    row.className = 'lidar-control-flex';
+
+    const select = document.createElement('select');
+    select.className = 'lidar-control-select';
+    select.style.flex = '1';
+    this._attributeSelect = select;
+
+    const addBtn = document.createElement('button');
+    addBtn.type = 'button';
+    addBtn.className = 'lidar-control-button';
+    addBtn.textContent = 'Add';
+    addBtn.addEventListener('click', () => {
+      const range = select.value ? this._callbacks.getAttributeRange?.(select.value) : null;
+      if (range) {
+        this._callbacks.onAttributeFilterChange?.(select.value, [range.min, range.max]);
+      }
+    });
+
+    row.appendChild(select);
+    row.appendChild(addBtn);
+    group.appendChild(row);
+
+    const list = document.createElement('div');
+    this._attributeFilterList = list;
+    group.appendChild(list);
+
+    this._updateAttributeFilters();
+    return group;
+  }
+
+  /**
+   * Updates the attribute filter controls from the available attributes and the filters.
+   */
+  private _updateAttributeFilters(): void {
+    if (!this._attributeFilterGroup || !this._attributeSelect || !this._attributeFilterList) return;
+
+    const available = this._state.availableAttributes ?? [];
+    const filters = this._state.attributeFilters ?? {};
+    this._attributeFilterGroup.style.display =
+      this._callbacks.onAttributeFilterChange && available.length > 0 ? 'block' : 'none';
+
+    // Only rebuild the controls when the attributes or the filtered attributes change
+    const filterKey = `${available.join(',')}|${Object.keys(filters).join(',')}|${this._state.styleTargetId ?? ''}`;
+    if (filterKey !== this._attributeFilterKey) {
+      this._attributeFilterKey = filterKey;
+
+      this._attributeSelect.innerHTML = '';
+      for (const name of available.filter((name) => !filters[name])) {
+        const option = document.createElement('option');
+        option.value = name;
+        option.textContent = name;
+        this._attributeSelect.appendChild(option);
+      }
+
+      this._attributeFilterList.innerHTML = '';
+      this._attributeFilterSliders.clear();
+      for (const name of Object.keys(filters)) {
+        this._attributeFilterList.appendChild(this._buildAttributeFilterRow(name, filters[name]));
+      }
+    }
+
+    for (const [name, slider] of this._attributeFilterSliders) {
+      const range = filters[name];
+      if (range) {
+        slider.setRange(range[0], range[1]);
+      }
+    }
+  }
+
+  /**
+   * Builds the dual slider and remove button of an attribute filter.
+   *
+   * @param name - Attribute name
+   * @param range - Current filter range
+   */
+  private _buildAttributeFilterRow(name: string, range: [number, number]): HTMLElement {
+    const row = document.createElement('div');
+    row.className = 'lidar-control-flex';
+    row.style.alignItems = 'flex-end';
+    row.style.marginTop = '8px';
+
+    const bounds = this._callbacks.getAttributeRange?.(name) ?? { min: range[0], max: range[1], integer: false };
+    const min = Math.min(bounds.min, range[0]);
+    const max = Math.max(bounds.max, range[1]);
+    const slider = new DualRangeSlider({
+      label: name,
+      min,
+      max,
+      step: bounds.integer ? 1 : (max - min) / 100 || 1,
+      valueLow: range[0],
+      valueHigh: range[1],
+      onChange: (low, high) => this._callbacks.onAttributeFilterChange?.(name, [low, high]),
+      formatValue: (v) => v.toFixed(bounds.integer ? 0 : 2),
+    });
+    this._attributeFilterSliders.set(name, slider);
+
+    const sliderElement = slider.render();
+    sliderElement.style.flex = '1';
+    sliderElement.style.marginBottom = '0';
+
+    const removeBtn = document.createElement('button');
+    removeBtn.type = 'button';
+    removeBtn.className = 'lidar-pointcloud-action remove';
+    removeBtn.innerHTML = '&times;';
+    removeBtn.title = `Remove ${name} filter`;
+    removeBtn.addEventListener('click', (e) => {
+      e.stopPropagation(); // Prevent click-outside handler from collapsing panel
+      this._callbacks.onAttributeFilterChange?.(name, null);
+    });
+
+    row.appendChild(sliderElement);
+    row.appendChild(removeBtn);
+    return row;
+  }
+
+  /**
+   * Builds the GPS time window controls: sliders of the start and width of the window of
+   * GPS times shown, and play/pause and speed controls moving the window through time.
+   */
+  private _buildGpsTimeControl(): HTMLElement {
+    const group = document.createElement('div');
+    group.className = 'lidar-control-group';
+    this._gpsTimeGroup = group;
+
+    // Checkbox row
+    const labelRow = document.createElement('div');
+    labelRow.className = 'lidar-control-label-row';
+    labelRow.style.cursor = 'pointer';
+
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.id = 'lidar-gps-time-checkbox';
+    checkbox.style.marginRight = '6px';
+    this._gpsTimeCheckbox = checkbox;
+
+    const label = document.createElement('label');
+    label.className = 'lidar-control-label';
+    label.htmlFor = 'lidar-gps-time-checkbox';
+    label.style.display = 'inline';
+    label.style.cursor = 'pointer';
+    label.textContent = 'GPS Time Window';
+    label.title = 'Show the points acquired within a window of time, e.g. a single flight line';
+
+    labelRow.appendChild(checkbox);
+    labelRow.appendChild(label);
+    group.appendChild(labelRow);
+
+    // Slider container (hidden without a window)
+    const container = document.createElement('div');
+    container.style.display = 'none';
+    container.style.marginTop = '8px';
+    this._gpsTimeContainer = container;
+
+    // Bounds are set from the GPS times of the loaded point clouds
+    const getWindow = (): [number, number] => {
+      const start = this._gpsTimeStartSlider?.getValue() ?? 0;
+      return [start, start + (this._gpsTimeWidthSlider?.getValue() ?? 0)];
+    };
+    this._gpsTimeStartSlider = new RangeSlider({
+      label: 'Start',
+      min: 0,
+      max: 1,
+      step: 1,
+      value: 0,
+      onChange: () => this._callbacks.onGpsTimeWindowChange?.(getWindow()),
+      formatValue: formatGpsTime,
+    });
+    container.appendChild(this._gpsTimeStartSlider.render());
+
+    this._gpsTimeWidthSlider = new RangeSlider({
+      label: 'Width (s)',
+      min: 0,
+      max: 1,
+      step: 1,
+      value: 0,
+      onChange: () => this._callbacks.onGpsTimeWindowChange?.(getWindow()),
+    });
+    container.appendChild(this._gpsTimeWidthSlider.render());
+
+    // Play/pause and speed of the animation
+    const row = document.createElement('div');
+    row.className = 'lidar-control-flex';
+
+    const playBtn = document.createElement('button');
+    playBtn.type = 'button';
+    playBtn.className = 'lidar-control-button';
+    playBtn.textContent = 'Play';
+    playBtn.addEventListener('click', () => {
+      this._callbacks.onGpsTimePlayingChange?.(!this._state.gpsTimePlaying);
+    });
+    this._gpsTimePlayButton = playBtn;
+
+    const speedSelect = document.createElement('select');
+    speedSelect.className = 'lidar-control-select';
+    speedSelect.style.flex = '1';
+    speedSelect.title = 'Animation speed (at 1×, the window crosses the GPS times in 30 seconds)';
+    for (const speed of GPS_TIME_SPEEDS) {
+      const option = document.createElement('option');
+      option.value = String(speed);
+      option.textContent = `${speed}×`;
+      speedSelect.appendChild(option);
+    }
+    speedSelect.addEventListener('change', () => {
+      this._callbacks.onGpsTimeSpeedChange?.(parseFloat(speedSelect.value));
+    });
+    this._gpsTimeSpeedSelect = speedSelect;
+
+    row.appendChild(playBtn);
+    row.appendChild(speedSelect);
+    container.appendChild(row);
+    group.appendChild(container);
+
+    checkbox.addEventListener('change', () => {
+      container.style.display = checkbox.checked ? 'block' : 'none';
+      this._callbacks.onGpsTimeWindowChange?.(checkbox.checked ? getWindow() : null);
+    });
+
+    this._updateGpsTimeControl();
+    return group;
+  }
+
+  /**
+   * Updates the GPS time window controls from the GPS times of the loaded point clouds
+   * and the window.
+   */
+  private _updateGpsTimeControl(): void {
+    if (!this._gpsTimeGroup || !this._gpsTimeStartSlider || !this._gpsTimeWidthSlider) return;
+
+    const available = (this._state.availableAttributes ?? []).includes('GpsTime');
+    this._gpsTimeGroup.style.display = available ? 'block' : 'none';
+
+    // Only scan the GPS times again when the loaded points change
+    const rangeKey = `${this._state.pointClouds.map(({ id, pointCount }) => `${id}:${pointCount}`).join(',')}|${this._state.styleTargetId ?? ''}`;
+    if (available && rangeKey !== this._gpsTimeRangeKey) {
+      this._gpsTimeRangeKey = rangeKey;
+      const range = this._callbacks.getAttributeRange?.('GpsTime');
+      if (range) {
+        const span = range.max - range.min;
+        const step = span / 1000 || 1;
+        this._gpsTimeStartSlider.setStep(step);
+        this._gpsTimeStartSlider.setBounds(range.min, range.max);
+        this._gpsTimeWidthSlider.setStep(step);
+        this._gpsTimeWidthSlider.setBounds(step, span || 1);
+        if (!this._state.gpsTimeWindow) {
+          // The window first covers a tenth of the GPS times
+          this._gpsTimeStartSlider.setValue(range.min);
+          this._gpsTimeWidthSlider.setValue(span / 10 || 1);
+        }
+      }
+    }
+
+    const window = this._state.gpsTimeWindow;
+    if (this._gpsTimeCheckbox) {
+      this._gpsTimeCheckbox.checked = window !== null;
+    }
+    if (this._gpsTimeContainer) {
+      this._gpsTimeContainer.style.display = window ? 'block' : 'none';
+    }
+    this.updateGpsTimeWindow(window);
+    if (this._gpsTimePlayButton) {
+      this._gpsTimePlayButton.textContent = this._state.gpsTimePlaying ? 'Pause' : 'Play';
+    }
+    if (this._gpsTimeSpeedSelect) {
+      this._gpsTimeSpeedSelect.value = String(this._state.gpsTimeSpeed);
+    }
+  }
+
+  /**
+   * Builds the filter expression text box with its error message.
+   */
+  private _buildFilterExpression(): HTMLElement {
+    const group = document.createElement('div');
+    group.className = 'lidar-control-group';
+
+    const label = document.createElement('label');
+    label.className = 'lidar-control-label';
+    label.textContent = 'Filter Expression';
+    group.appendChild(label);
+
+    const row = document.createElement('div');
+    row.className = 'lidar-control-flex';
+
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.className = 'lidar-control-input';
+    input.placeholder = 'Classification == 2 && Intensity > 0.3';
+    input.style.flex = '1';
+    input.value = this._state.filterExpression ?? '';
+    this._filterExpressionInput = input;
+
+    const applyBtn = document.createElement('button');
+    applyBtn.type = 'button';
+    applyBtn.className = 'lidar-control-button';
+    applyBtn.textContent = 'Apply';
+    applyBtn.addEventListener('click', () => {
+      this._callbacks.onFilterExpressionChange?.(input.value.trim() || null);
+    });
+
+    // Allow Enter key to apply
+    input.addEventListener('keypress', (e) => {
+      if (e.key === 'Enter') {
+        applyBtn.click();
+      }
+    });
+
+    row.appendChild(input);
+    row.appendChild(applyBtn);
+    group.appendChild(row);
+
+    const error = document.createElement('div');
+    error.className = 'lidar-error';
+    error.style.display = 'none';
+    this._filterExpressionError = error;
+    group.appendChild(error);
+
+    return group;
+  }
+
   /**
    * Builds the Z offset control with checkbox and slider.
    */
@@ -566,6 +1196,166 @@ export class PanelBuilder {
     return group;
   }
 
+  /**
+   * Builds the point size units selector and the pixel range of points sized in meters.
+   */
+  private _buildPointSizeModeControl(): HTMLElement {
+    const group = document.createElement('div');
+    group.className = 'lidar-control-group';
+
+    const label = document.createElement('label');
+    label.className = 'lidar-control-label';
+    label.textContent = 'Point Size Units';
+    group.appendChild(label);
+
+    const select = document.createElement('select');
+    select.className = 'lidar-control-select';
+    const modes: [PointSizeMode, string, string][] = [
+      ['pixels', 'Pixels', 'Same size on screen at any zoom'],
+      ['meters', 'Meters (point spacing)', 'Sized by the point spacing of the dataset'],
+      ['adaptive', 'Adaptive (octree level)', 'Sized by the point spacing of each streamed node'],
+    ];
+    for (const [value, text, title] of modes) {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = text;
+      option.title = title;
+      select.appendChild(option);
+    }
+    select.value = this._state.pointSizeMode;
+    this._pointSizeModeSelect = select;
+    group.appendChild(select);
+
+    // Pixel range (hidden for pixel sizes)
+    const rangeContainer = document.createElement('div');
+    rangeContainer.style.display = this._state.pointSizeMode === 'pixels' ? 'none' : 'block';
+    rangeContainer.style.marginTop = '8px';
+    this._pointSizeRangeContainer = rangeContainer;
+
+    this._pointSizeRangeSlider = new DualRangeSlider({
+      label: 'Radius Range (px)',
+      min: 0,
+      max: 50,
+      step: 0.5,
+      valueLow: this._state.pointSizeMinPixels,
+      valueHigh: this._state.pointSizeMaxPixels,
+      onChange: (low, high) => this._callbacks.onPointSizePixelRangeChange?.(low, high),
+    });
+    rangeContainer.appendChild(this._pointSizeRangeSlider.render());
+    group.appendChild(rangeContainer);
+
+    select.addEventListener('change', () => {
+      const mode = select.value as PointSizeMode;
+      rangeContainer.style.display = mode === 'pixels' ? 'none' : 'block';
+      this._callbacks.onPointSizeModeChange?.(mode);
+    });
+
+    return group;
+  }
+
+  /**
+   * Builds the normal shading checkbox.
+   */
+  private _buildNormalShadingCheckbox(): HTMLElement {
+    const group = document.createElement('div');
+    group.className = 'lidar-control-group';
+
+    const labelRow = document.createElement('div');
+    labelRow.className = 'lidar-control-label-row';
+    labelRow.style.cursor = 'pointer';
+
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.id = 'lidar-normal-shading-checkbox';
+    checkbox.checked = this._state.normalShading;
+    checkbox.style.marginRight = '6px';
+    this._normalShadingCheckbox = checkbox;
+
+    const label = document.createElement('label');
+    label.className = 'lidar-control-label';
+    label.htmlFor = 'lidar-normal-shading-checkbox';
+    label.style.display = 'inline';
+    label.style.cursor = 'pointer';
+    label.textContent = 'Normal Shading';
+    label.title = 'Shade points by the direction of their surface (estimates point normals)';
+
+    checkbox.addEventListener('change', () => {
+      this._callbacks.onNormalShadingChange?.(checkbox.checked);
+    });
+
+    labelRow.appendChild(checkbox);
+    labelRow.appendChild(label);
+    group.appendChild(labelRow);
+
+    return group;
+  }
+
+  /**
+   * Builds the Eye-Dome Lighting control with checkbox and strength and radius sliders.
+   */
+  private _buildEdlControl(): HTMLElement {
+    const group = document.createElement('div');
+    group.className = 'lidar-control-group';
+
+    // Checkbox row
+    const labelRow = document.createElement('div');
+    labelRow.className = 'lidar-control-label-row';
+    labelRow.style.cursor = 'pointer';
+
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.id = 'lidar-edl-checkbox';
+    checkbox.checked = this._state.edlEnabled;
+    checkbox.style.marginRight = '6px';
+    this._edlCheckbox = checkbox;
+
+    const label = document.createElement('label');
+    label.className = 'lidar-control-label';
+    label.htmlFor = 'lidar-edl-checkbox';
+    label.style.display = 'inline';
+    label.style.cursor = 'pointer';
+    label.textContent = 'Eye-Dome Lighting';
+    label.title = 'Darken points behind their neighbors to bring out edges and relief';
+
+    labelRow.appendChild(checkbox);
+    labelRow.appendChild(label);
+    group.appendChild(labelRow);
+
+    // Slider container (hidden while disabled)
+    const sliderContainer = document.createElement('div');
+    sliderContainer.style.display = this._state.edlEnabled ? 'block' : 'none';
+    sliderContainer.style.marginTop = '8px';
+    this._edlSliderContainer = sliderContainer;
+
+    this._edlStrengthSlider = new RangeSlider({
+      label: 'Strength',
+      min: 0,
+      max: 5,
+      step: 0.1,
+      value: this._state.edlStrength,
+      onChange: (v) => this._callbacks.onEdlStrengthChange?.(v),
+    });
+    sliderContainer.appendChild(this._edlStrengthSlider.render());
+
+    this._edlRadiusSlider = new RangeSlider({
+      label: 'Radius (px)',
+      min: 0.5,
+      max: 4,
+      step: 0.1,
+      value: this._state.edlRadius,
+      onChange: (v) => this._callbacks.onEdlRadiusChange?.(v),
+    });
+    sliderContainer.appendChild(this._edlRadiusSlider.render());
+    group.appendChild(sliderContainer);
+
+    checkbox.addEventListener('change', () => {
+      sliderContainer.style.display = checkbox.checked ? 'block' : 'none';
+      this._callbacks.onEdlEnabledChange?.(checkbox.checked);
+    });
+
+    return group;
+  }
+
   /**
    * Builds the 3D terrain toggle checkbox.
    */
@@ -709,6 +1499,25 @@ export class PanelBuilder {
     return container;
   }
 
+  /**
+   * Builds the slider of the weight of the intensity shading of intensity-blended schemes.
+   */
+  private _buildIntensityBlendControl(): HTMLElement {
+    const container = document.createElement('div');
+    this._intensityBlendContainer = container;
+
+    this._intensityBlendSlider = new RangeSlider({
+      label: 'Intensity Blend',
+      min: 0,
+      max: 1,
+      step: 0.05,
+      value: this._state.intensityBlend,
+      onChange: (v) => this._callbacks.onIntensityBlendChange?.(v),
+    });
+    container.appendChild(this._intensityBlendSlider.render());
+    return container;
+  }
+
   /**
    * Builds the color range control (replaces percentile checkbox).
    */
@@ -745,20 +1554,31 @@ export class PanelBuilder {
 
   /**
    * Updates the visibility of color-related controls based on color scheme.
-   * Shows colormap/colorbar/range for elevation and intensity.
-   * Shows classification legend for classification.
+   * Shows colormap/colorbar/range for elevation and intensity, and colormap/colorbar for slope.
+   * Shows classification legend for classification, and the intensity blend slider for
+   * intensity-blended schemes, with the controls of the scheme they shade.
+   * Shows colorbar (and colormap without custom colors) for custom and attribute gradients,
+   * and the category legend for categorical custom and attribute schemes.
    */
   private _updatePercentileVisibility(colorScheme: string): void {
-    const showColorControls = colorScheme === 'elevation' || colorScheme === 'intensity';
+    const showColorControls = colorScheme === 'elevation' || colorScheme === 'intensity' ||
+      colorScheme === 'elevationIntensity';
+    const isSlope = colorScheme === 'slope';
+    const isClassification = colorScheme === 'classification' || colorScheme === 'classificationIntensity';
+    const config = colorScheme === 'custom' ? this._customScheme : getColorSchemeConfig(colorScheme as ColorScheme);
+    const isGradient = config?.type === 'gradient';
+    const hasCustomRamp = !!config?.colors && config.colors.length >= 2;
 
     // Show/hide colormap selector
     if (this._colormapGroup) {
-      this._colormapGroup.style.display = showColorControls ? 'block' : 'none';
+      const showColormap = showColorControls || isSlope || (isGradient && !hasCustomRamp);
+      this._colormapGroup.style.display = showColormap ? 'block' : 'none';
     }
 
     // Show/hide colorbar
     if (this._colorbarContainer) {
-      this._colorbarContainer.style.display = showColorControls && this._state.showColorbar ? 'block' : 'none';
+      const showColorbar = (showColorControls || isSlope || isGradient) && this._state.showColorbar;
+      this._colorbarContainer.style.display = showColorbar ? 'block' : 'none';
     }
 
     // Show/hide color range control and update bounds for the new scheme
@@ -778,9 +1598,84 @@ export class PanelBuilder {
 
     // Show/hide classification legend
     if (this._classificationLegendContainer) {
-      this._classificationLegendContainer.style.display =
-        colorScheme === 'classification' ? 'block' : 'none';
+      this._classificationLegendContainer.style.display = isClassification ? 'block' : 'none';
+    }
+
+    // Show/hide intensity blend slider
+    if (this._intensityBlendContainer) {
+      this._intensityBlendContainer.style.display =
+        INTENSITY_BLEND_COLOR_SCHEMES.includes(colorScheme as ColorScheme) ? 'block' : 'none';
+    }
+
+    // Show/hide category legend
+    if (this._categoryLegendContainer) {
+      this._categoryLegendContainer.style.display =
+        config?.type === 'categorical' ? 'block' : 'none';
+    }
+  }
+
+  /**
+   * Adds or updates the "Custom" color scheme option when a custom
+   * configuration is active, so it can be re-selected after switching away.
+   *
+   * @param scheme - Current color scheme
+   */
+  private _syncCustomSchemeOption(scheme: ColorScheme): void {
+    if (!this._colorSelect || typeof scheme === 'string') return;
+
+    this._customScheme = scheme;
+    if (!this._customSchemeOption) {
+      const option = document.createElement('option');
+      option.value = 'custom';
+      this._colorSelect.appendChild(option);
+      this._customSchemeOption = option;
     }
+    this._customSchemeOption.textContent = `Custom (${scheme.attribute})`;
+  }
+
+  /**
+   * Shows the attribute color schemes whose attribute the loaded point clouds have in
+   * the color scheme selector, and the selected one.
+   *
+   * @param scheme - Current color scheme
+   */
+  private _syncAttributeSchemeOptions(scheme: ColorScheme): void {
+    if (!this._colorSelect) return;
+
+    const available = getAvailableAttributeColorSchemes(this._state.availableAttributes ?? []);
+    const entries = Object.entries(ATTRIBUTE_COLOR_SCHEME_LABELS) as [AttributeColorSchemeType, string][];
+    for (const [value, label] of entries) {
+      let option = this._attributeSchemeOptions.get(value);
+      if (!option) {
+        option = document.createElement('option');
+        option.value = value;
+        option.textContent = label;
+        this._attributeSchemeOptions.set(value, option);
+      }
+      // Re-inserted in order before the custom scheme option
+      option.remove();
+      if (available.includes(value) || scheme === value) {
+        this._colorSelect.insertBefore(option, this._customSchemeOption ?? null);
+      }
+    }
+  }
+
+  /**
+   * Builds the category legend component for categorical custom and attribute schemes.
+   */
+  private _buildCategoryLegend(): HTMLElement {
+    const container = document.createElement('div');
+    container.className = 'lidar-control-group';
+    container.style.display = 'none';
+    this._categoryLegendContainer = container;
+
+    this._categoryLegend = new CategoryLegend({
+      categories: this._state.computedColorCategories || [],
+      title: getColorSchemeConfig(this._state.colorScheme)?.attribute,
+    });
+
+    container.appendChild(this._categoryLegend.render());
+    return container;
   }
 
   /**
@@ -944,6 +1839,21 @@ export class PanelBuilder {
     });
 
     actions.appendChild(zoomBtn);
+
+    // Export button (applies the current elevation and classification filters)
+    if (this._callbacks.onExport) {
+      const exportBtn = document.createElement('button');
+      exportBtn.type = 'button';
+      exportBtn.className = 'lidar-pointcloud-action';
+      exportBtn.textContent = 'LAS';
+      exportBtn.title = 'Export visible points as uncompressed LAS (LAZ export is not supported)';
+      exportBtn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        this._callbacks.onExport!(pc.id);
+      });
+      actions.appendChild(exportBtn);
+    }
+
     actions.appendChild(removeBtn);
 
     item.appendChild(info);
@@ -966,6 +1876,21 @@ export class PanelBuilder {
         <div class="lidar-loading-bar-fill"></div>
       </div>
     `;
+
+    // Cancel button
+    if (this._callbacks.onCancelLoad) {
+      const cancelBtn = document.createElement('button');
+      cancelBtn.type = 'button';
+      cancelBtn.className = 'lidar-loading-cancel';
+      cancelBtn.textContent = 'Cancel';
+      cancelBtn.title = 'Cancel loading';
+      cancelBtn.addEventListener('click', (e) => {
+        e.stopPropagation(); // Prevent click-outside handler from collapsing panel
+        this._callbacks.onCancelLoad!();
+      });
+      loading.appendChild(cancelBtn);
+    }
+
     this._loadingIndicator = loading;
     return loading;
   }
@@ -992,12 +1917,37 @@ export class PanelBuilder {
     const panel = this._callbacks.onCrossSectionPanel();
     if (!panel) return null;
 
+    return this._buildCollapsibleSection('Cross-Section', panel);
+  }
+
+  /**
+   * Builds the clipping section if callback is provided.
+   *
+   * @returns Clipping section or null if not available
+   */
+  private _buildClipSection(): HTMLElement | null {
+    if (!this._callbacks.onClipPanel) return null;
+
+    const panel = this._callbacks.onClipPanel();
+    if (!panel) return null;
+
+    return this._buildCollapsibleSection('Clipping', panel);
+  }
+
+  /**
+   * Builds a section with a header that expands and collapses its content.
+   *
+   * @param title - Section title
+   * @param panel - Section content
+   * @returns Section element
+   */
+  private _buildCollapsibleSection(title: string, panel: HTMLElement): HTMLElement {
     const section = document.createElement('div');
     section.className = 'lidar-control-section lidar-crosssection-section';
 
     const header = document.createElement('div');
     header.className = 'lidar-control-section-header lidar-section-collapsible';
-    header.innerHTML = '<span class="lidar-section-toggle">▶</span> Cross-Section';
+    header.innerHTML = `<span class="lidar-section-toggle">▶</span> ${title}`;
     header.style.cursor = 'pointer';
 
     const body = document.createElement('div');
@@ -119,6 +119,18 @@ export class RangeSlider {
     }
   }
 
+  /**
+   * Updates the step value of the slider.
+   *
+   * @param step - New step value
+   */
+  setStep(step: number): void {
+    this._options.step = step;
+    if (this._slider) {
+      this._slider.step = String(step);
+    }
+  }
+
   /**
    * Formats the value for display.
    */
@@ -6,6 +6,8 @@ export { FileInput } from './FileInput';
 export type { FileInputOptions } from './FileInput';
 export { ClassificationLegend } from './ClassificationLegend';
 export type { ClassificationLegendOptions } from './ClassificationLegend';
+export { CategoryLegend } from './CategoryLegend';
+export type { CategoryLegendOptions } from './CategoryLegend';
 export { Colorbar } from './Colorbar';
 export type { ColorbarOptions } from './Colorbar';
 export { PercentileRangeControl } from './PercentileRangeControl';
@@ -10,7 +10,12 @@ const DEFAULT_STATE: LidarState = {
   panelMaxHeight: 600,
   pointClouds: [],
   activePointCloudId: null,
+  pointCloudStyles: {},
+  styleTargetId: null,
   pointSize: 2,
+  pointSizeMode: 'pixels',
+  pointSizeMinPixels: 1,
+  pointSizeMaxPixels: 16,
   opacity: 1.0,
   colorScheme: 'elevation',
   colormap: 'viridis',
@@ -19,6 +24,7 @@ const DEFAULT_STATE: LidarState = {
     percentileLow: 2,
     percentileHigh: 98,
   },
+  intensityBlend: 0.5,
   showColorbar: true,
   usePercentile: true,
   elevationRange: null,
@@ -28,8 +34,21 @@ const DEFAULT_STATE: LidarState = {
   error: null,
   zOffsetEnabled: false,
   zOffset: 0,
+  normalShading: false,
+  edlEnabled: false,
+  edlStrength: 1,
+  edlRadius: 1.4,
   hiddenClassifications: new Set(),
   availableClassifications: new Set(),
+  attributeFilters: {},
+  availableAttributes: [],
+  filterExpression: null,
+  filterExpressionError: null,
+  gpsTimeWindow: null,
+  gpsTimePlaying: false,
+  gpsTimeSpeed: 1,
+  clipRegions: [],
+  clipBox: null,
   terrainEnabled: false,
 };
 
@@ -0,0 +1,186 @@
+import { PostProcessEffect, _LayersPass as LayersPass } from '@deck.gl/core';
+import type { EffectContext, Layer, PreRenderOptions } from '@deck.gl/core';
+import { PointCloudLayer } from '@deck.gl/layers';
+
+type Device = EffectContext['device'];
+type Framebuffer = ReturnType<Device['createFramebuffer']>;
+type ShaderPass = ConstructorParameters<typeof PostProcessEffect>[0];
+
+/**
+ * Eye-Dome Lighting settings
+ */
+export interface EyeDomeLightingOptions {
+  /**
+   * Darkening of points that are behind their neighbors on screen
+   * @default 1
+   */
+  strength?: number;
+  /**
+   * Distance in pixels to the neighbors compared with each point
+   * @default 1.4
+   */
+  radius?: number;
+}
+
+/**
+ * Default Eye-Dome Lighting settings
+ */
+export const DEFAULT_EDL_OPTIONS: Required<EyeDomeLightingOptions> = {
+  strength: 1,
+  radius: 1.4,
+};
+
+const fs = /* glsl */ `\
+uniform edlUniforms {
+  float strength;
+  float radius;
+  vec2 depthParams;
+} edl;
+
+uniform sampler2D depthTexture;
+
+const int EDL_NEIGHBOR_COUNT = 8;
+
+// Log2 of the distance to the camera of a depth buffer value (linearized with the projection)
+float edl_getLogDepth(float depth) {
+  return log2(edl.depthParams.y / (depth * 2.0 - 1.0 + edl.depthParams.x));
+}
+
+vec4 edl_sampleColor(sampler2D source, vec2 texSize, vec2 texCoord) {
+  vec4 color = texture(source, texCoord);
+  float depth = texture(depthTexture, texCoord).r;
+  // Pixels without points are left as they are
+  if (depth >= 1.0) {
+    return color;
+  }
+
+  float logDepth = edl_getLogDepth(depth);
+  float sum = 0.0;
+  for (int i = 0; i < EDL_NEIGHBOR_COUNT; i++) {
+    float angle = float(i) * 6.28318530718 / float(EDL_NEIGHBOR_COUNT);
+    vec2 offset = vec2(cos(angle), sin(angle)) * edl.radius / texSize;
+    float neighborDepth = texture(depthTexture, texCoord + offset).r;
+    if (neighborDepth < 1.0) {
+      sum += max(0.0, logDepth - edl_getLogDepth(neighborDepth));
+    }
+  }
+
+  float shade = exp(-sum / float(EDL_NEIGHBOR_COUNT) * 300.0 * edl.strength);
+  return vec4(color.rgb * shade, color.a);
+}
+`;
+
+const edl: ShaderPass = {
+  name: 'edl',
+  fs,
+  uniformTypes: {
+    strength: 'f32',
+    radius: 'f32',
+    depthParams: 'vec2<f32>',
+  },
+  passes: [{ sampler: true }],
+};
+
+/**
+ * Renders the depth of the point cloud layers.
+ */
+class PointCloudDepthPass extends LayersPass {
+  /**
+   * Only point cloud layers are shaded.
+   *
+   * @param layer - Layer to draw
+   * @returns True if the layer is a point cloud layer
+   */
+  shouldDrawLayer(layer: Layer): boolean {
+    return layer instanceof PointCloudLayer;
+  }
+}
+
+/**
+ * Eye-Dome Lighting (EDL) post-processing effect for deck.gl.
+ * Points are darkened by how far behind their neighbors on screen they are, which outlines
+ * building edges and terrain relief for every color scheme. The depth of the point cloud
+ * layers is rendered in a separate pass before the layers are drawn.
+ *
+ * To change the settings, pass a new instance with the same ID to deck.gl, which updates
+ * the props of the instance in use and redraws.
+ */
+export class EyeDomeLightingEffect extends PostProcessEffect<ShaderPass> {
+  private _device?: Device;
+  private _depthPass?: PointCloudDepthPass;
+  private _depthBuffer?: Framebuffer;
+
+  /**
+   * Creates a new EyeDomeLightingEffect instance.
+   *
+   * @param options - EDL settings
+   */
+  constructor(options: EyeDomeLightingOptions = {}) {
+    super(edl, { ...DEFAULT_EDL_OPTIONS, ...options, depthParams: [0, 1], depthTexture: null });
+  }
+
+  /**
+   * Creates the depth pass when the effect is added to deck.gl.
+   *
+   * @param context - Effect context
+   */
+  setup(context: EffectContext): void {
+    super.setup(context);
+    const { device } = context;
+    this._device = device;
+    this._depthPass = new PointCloudDepthPass(device, { id: 'lidar-edl-depth' });
+    this._depthBuffer = device.createFramebuffer({
+      id: 'lidar-edl-depth',
+      width: 1,
+      height: 1,
+      colorAttachments: [device.createTexture({ format: 'rgba8unorm', width: 1, height: 1 })],
+      // Depth is sampled without filtering
+      depthStencilAttachment: device.createTexture({
+        format: 'depth32float',
+        width: 1,
+        height: 1,
+        sampler: { minFilter: 'nearest', magFilter: 'nearest' },
+      }),
+    });
+  }
+
+  /**
+   * Renders the depth of the point cloud layers before the layers are drawn.
+   *
+   * @param options - Render options
+   */
+  preRender(options?: PreRenderOptions): void {
+    if (!options || !this._device || !this._depthPass || !this._depthBuffer) return;
+
+    const size = this._device.canvasContext?.getDrawingBufferSize();
+    if (!size) return;
+    const [width, height] = size;
+    if (width !== this._depthBuffer.width || height !== this._depthBuffer.height) {
+      this._depthBuffer.resize({ width, height });
+    }
+
+    this._depthPass.render({
+      ...options,
+      target: this._depthBuffer,
+      pass: 'edl-depth',
+      clearColor: [0, 0, 0, 0],
+    });
+
+    // Terms of the projection matrix that linearize depth values
+    const projection = options.viewports[0]?.projectionMatrix;
+    const depthParams: [number, number] = projection ? [projection[10], projection[14]] : [0, 1];
+    this.setProps({ ...this.props, depthParams, depthTexture: this._depthBuffer.depthStencilAttachment });
+  }
+
+  /**
+   * Releases the depth pass when the effect is removed from deck.gl.
+   */
+  cleanup(): void {
+    super.cleanup();
+    this._depthPass?.cleanup();
+    this._depthBuffer?.destroy();
+    this._depthPass = undefined;
+    this._depthBuffer = undefined;
+    this._device = undefined;
+  }
+}
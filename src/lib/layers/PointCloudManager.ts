@@ -1,11 +1,131 @@
 import { PointCloudLayer } from '@deck.gl/layers';
 import { COORDINATE_SYSTEM } from '@deck.gl/core';
-import type { PickingInfo } from '@deck.gl/core';
+import { DataFilterExtension } from '@deck.gl/extensions';
+import type { DataFilterExtensionProps } from '@deck.gl/extensions';
+import type { LayerExtension, Material, PickingInfo } from '@deck.gl/core';
 import type { DeckOverlay } from '../core/DeckOverlay';
-import type { PointCloudData } from '../loaders/types';
-import type { ColorScheme, PointCloudBounds, ColormapName, ColorRangeConfig } from '../core/types';
+import type { PointCloudData, ExtraPointAttributes, AttributeArray } from '../loaders/types';
+import type {
+  ColorScheme,
+  PointCloudBounds,
+  ColormapName,
+  ColorRangeConfig,
+  ColorCategory,
+  PointCloudStyle,
+  ClipRegion,
+  ClipBox,
+  PointSizeMode,
+} from '../core/types';
 import type { PointCloudLayerOptions, PickedPointInfo } from './types';
-import { ColorSchemeProcessor } from '../colorizers/ColorScheme';
+import { PointSizeExtension } from './PointSizeExtension';
+import type { PointSizeExtensionProps } from './PointSizeExtension';
+import { ColorSchemeProcessor, NORMAL_COLOR_SCHEMES, DEFAULT_INTENSITY_BLEND } from '../colorizers/ColorScheme';
+import type { ColorResult } from '../colorizers/ColorScheme';
+import { getAttributeNames, getAttributeValues, getPointSpacing, subsetPointCloudData } from '../utils/pointcloud';
+import { compileFilterExpression } from '../utils/expression';
+import { createClipTest, createClipBoxTest } from '../utils/clip';
+
+// Points per layer, to stay within WebGL buffer limits
+const CHUNK_SIZE = 1000000;
+
+// Maximum number of attributes the GPU data filter can filter by
+const MAX_FILTER_SIZE = 4;
+
+/**
+ * An attribute the GPU data filter filters points by
+ */
+interface FilterChannel {
+  /** What the channel filters by ('elevation', 'intensity', 'attribute:' and an attribute name, ...) */
+  name: string;
+  /** [min, max] range of values shown */
+  range: [number, number];
+  /** Gets the array holding the values, called when the filter values are built */
+  getSource: () => ArrayLike<number>;
+  /** Number of array elements per point */
+  stride: number;
+  /** Index of the value within the elements of a point */
+  offset: number;
+}
+
+/**
+ * Binary data of a chunk layer
+ */
+interface ChunkData {
+  length: number;
+  attributes: Record<string, { value: Float32Array | Uint8Array; size: number }>;
+}
+
+/**
+ * Layer data of a chunk of a point cloud. It is kept between style changes so
+ * that filtering and z offset only update uniforms instead of reallocating buffers.
+ */
+interface PointCloudChunk {
+  /** Index of the first point of the chunk */
+  start: number;
+  /** Number of points in the chunk */
+  length: number;
+  /** Layer data (views into the point cloud's positions and colors) */
+  data: ChunkData;
+  /** Names of the channels the filter values of the layer data were built from */
+  filterKey: string;
+  /**
+   * Values subtracted from the filter values of each channel, so that large values
+   * (e.g., GPS time) keep their precision as 32-bit floats
+   */
+  filterBases: number[];
+  /** Classification codes present in the chunk, computed when first filtered by classification */
+  classifications?: number[];
+}
+
+// Style properties that require recomputing point colors
+const COLOR_STYLE_KEYS: (keyof PointCloudStyle)[] = [
+  'colorScheme',
+  'colormap',
+  'colorRange',
+  'usePercentile',
+  'intensityBlend',
+];
+
+// Extensions are shared between layers so that deck.gl only recompiles shaders when the filter layout changes
+const dataFilterExtensions = new Map<string, DataFilterExtension>();
+
+/**
+ * Gets the data filter extension filtering by the given number of values and categories.
+ */
+function getDataFilterExtension(filterSize: number, categorySize: number): DataFilterExtension {
+  const key = `${filterSize}-${categorySize}`;
+  let extension = dataFilterExtensions.get(key);
+  if (!extension) {
+    extension = new DataFilterExtension({
+      filterSize: filterSize as 0 | 1 | 2 | 3 | 4,
+      categorySize: categorySize as 0 | 1,
+    });
+    dataFilterExtensions.set(key, extension);
+  }
+  return extension;
+}
+
+// Shared so that layers sized in meters keep their shaders
+const pointSizeExtension = new PointSizeExtension();
+
+// Lambertian material for points shaded by their normals (diffuse light without highlights)
+const NORMAL_SHADING_MATERIAL: Material = {
+  ambient: 0.35,
+  diffuse: 0.65,
+  shininess: 1,
+  specularColor: [0, 0, 0],
+};
+
+/**
+ * Size of the points of a point cloud layer
+ */
+interface PointSizing {
+  /** Point radius in the size units */
+  pointSize: number;
+  sizeUnits: 'pixels' | 'meters';
+  /** Whether points are scaled by the octree level of their node */
+  adaptive: boolean;
+}
 
 /**
  * Internal point cloud data with computed colors
@@ -17,8 +137,14 @@ interface ManagedPointCloud {
   coordinateOrigin: [number, number, number]; // [lng, lat, 0] center point
   /** Per-layer visibility (default: true) */
   visible: boolean;
-  /** Per-layer opacity override (null means use global) */
-  opacityOverride: number | null;
+  /** Chunk layer data, rebuilt when the data or colors change */
+  chunks: PointCloudChunk[];
+  /** Color bounds computed for the point cloud */
+  colorBounds?: { min: number; max: number };
+  /** Categories computed for the point cloud by a categorical color scheme */
+  colorCategories?: ColorCategory[];
+  /** Point size factors of the octree levels of the points, computed when first sized adaptively */
+  pointScales?: Float32Array;
 }
 
 /**
@@ -28,21 +154,36 @@ export class PointCloudManager {
   private _deckOverlay: DeckOverlay;
   private _pointClouds: Map<string, ManagedPointCloud>;
   private _options: PointCloudLayerOptions;
+  /** Per-point-cloud style overrides, kept for point clouds that are not added yet */
+  private _styles: Map<string, Partial<PointCloudStyle>>;
   private _colorProcessor: ColorSchemeProcessor;
   private _lastComputedBounds?: { min: number; max: number };
+  private _lastComputedCategories?: ColorCategory[];
 
   constructor(deckOverlay: DeckOverlay, options: Partial<PointCloudLayerOptions> = {}) {
     this._deckOverlay = deckOverlay;
     this._pointClouds = new Map();
+    this._styles = new Map();
     this._colorProcessor = new ColorSchemeProcessor();
     this._options = {
       pointSize: options.pointSize ?? 2,
+      pointSizeMode: options.pointSizeMode ?? 'pixels',
+      pointSizeMinPixels: options.pointSizeMinPixels ?? 1,
+      pointSizeMaxPixels: options.pointSizeMaxPixels ?? 16,
+      normalShading: options.normalShading ?? false,
       opacity: options.opacity ?? 1.0,
       colorScheme: options.colorScheme ?? 'elevation',
       usePercentile: options.usePercentile ?? true,
       colormap: options.colormap ?? 'viridis',
       colorRange: options.colorRange,
+      intensityBlend: options.intensityBlend ?? DEFAULT_INTENSITY_BLEND,
       elevationRange: options.elevationRange ?? null,
+      intensityRange: options.intensityRange ?? null,
+      attributeFilters: options.attributeFilters,
+      gpsTimeWindow: options.gpsTimeWindow ?? null,
+      filterExpression: options.filterExpression ?? null,
+      clipRegions: options.clipRegions ?? [],
+      clipBox: options.clipBox ?? null,
       pickable: options.pickable ?? false,
       zOffset: options.zOffset ?? 0,
       onHover: options.onHover,
@@ -65,17 +206,7 @@ export class PointCloudManager {
    * @param data - Point cloud data (positions are already offsets from coordinateOrigin)
    */
   addPointCloud(id: string, data: PointCloudData): void {
-    const result = this._colorProcessor.getColorsWithBounds(data, this._options.colorScheme, {
-      usePercentile: this._options.usePercentile,
-      colormap: this._options.colormap,
-      colorRange: this._options.colorRange,
-      hiddenClassifications: this._options.hiddenClassifications,
-    });
-
-    // Store the computed bounds for colorbar display
-    if (result.bounds) {
-      this._lastComputedBounds = result.bounds;
-    }
+    const result = this._computeColors(data, this._getStyle(id));
 
     // Use the coordinate origin from the data - positions are already stored as offsets
     const coordinateOrigin = data.coordinateOrigin;
@@ -86,7 +217,9 @@ export class PointCloudManager {
       colors: result.colors,
       coordinateOrigin,
       visible: true,
-      opacityOverride: null,
+      chunks: [],
+      colorBounds: result.bounds,
+      colorCategories: result.categories,
     });
     this._createLayer(id);
   }
@@ -108,17 +241,7 @@ export class PointCloudManager {
 
     if (existing) {
       // Recalculate colors for new data
-      const result = this._colorProcessor.getColorsWithBounds(data, this._options.colorScheme, {
-        usePercentile: this._options.usePercentile,
-        colormap: this._options.colormap,
-        colorRange: this._options.colorRange,
-        hiddenClassifications: this._options.hiddenClassifications,
-      });
-
-      // Store the computed bounds for colorbar display
-      if (result.bounds) {
-        this._lastComputedBounds = result.bounds;
-      }
+      const result = this._computeColors(data, this._getStyle(id));
 
       this._pointClouds.set(id, {
         id,
@@ -126,7 +249,9 @@ export class PointCloudManager {
         colors: result.colors,
         coordinateOrigin: data.coordinateOrigin,
         visible: existing.visible,
-        opacityOverride: existing.opacityOverride,
+        chunks: [],
+        colorBounds: result.bounds,
+        colorCategories: result.categories,
       });
 
       // Recreate layers with new data
@@ -156,13 +281,13 @@ export class PointCloudManager {
     const pc = this._pointClouds.get(id);
     if (pc) {
       // Remove all chunk layers
-      const CHUNK_SIZE = 1000000;
       const numChunks = Math.ceil(pc.data.pointCount / CHUNK_SIZE);
       for (let chunk = 0; chunk < numChunks; chunk++) {
         this._deckOverlay.removeLayer(`pointcloud-${id}-chunk${chunk}`);
       }
     }
     this._pointClouds.delete(id);
+    this._styles.delete(id);
   }
 
   /**
@@ -207,32 +332,16 @@ export class PointCloudManager {
     const colormapChanged = options.colormap !== undefined &&
       options.colormap !== this._options.colormap;
     const colorRangeChanged = options.colorRange !== undefined;
-    const hiddenClassificationsChanged = options.hiddenClassifications !== undefined;
+    const intensityBlendChanged = options.intensityBlend !== undefined &&
+      options.intensityBlend !== this._options.intensityBlend;
 
     this._options = { ...this._options, ...options };
 
     // If color-related settings changed, recompute colors
-    if (colorSchemeChanged || percentileChanged || colormapChanged || colorRangeChanged || hiddenClassificationsChanged) {
-      for (const [id, pc] of this._pointClouds) {
-        const result = this._colorProcessor.getColorsWithBounds(pc.data, this._options.colorScheme, {
-          usePercentile: this._options.usePercentile,
-          colormap: this._options.colormap,
-          colorRange: this._options.colorRange,
-          hiddenClassifications: this._options.hiddenClassifications,
-        });
-
-        // Store the computed bounds for colorbar display
-        if (result.bounds) {
-          this._lastComputedBounds = result.bounds;
-        }
-
-        this._pointClouds.set(id, {
-          ...pc,
-          colors: result.colors,
-          coordinateOrigin: pc.coordinateOrigin,
-          visible: pc.visible,
-          opacityOverride: pc.opacityOverride,
-        });
+    // (filters and z offset are applied on the GPU and keep the layer data)
+    if (colorSchemeChanged || percentileChanged || colormapChanged || colorRangeChanged || intensityBlendChanged) {
+      for (const id of this._pointClouds.keys()) {
+        this._recomputeColors(id);
       }
     }
 
@@ -243,12 +352,62 @@ export class PointCloudManager {
   /**
    * Sets the point size.
    *
-   * @param size - Point size in pixels
+   * @param size - Point size in pixels, or relative to the point spacing when sized in meters
    */
   setPointSize(size: number): void {
     this.updateStyle({ pointSize: size });
   }
 
+  /**
+   * Sets the units of the point size.
+   *
+   * @param mode - 'pixels', 'meters' or 'adaptive'
+   */
+  setPointSizeMode(mode: PointSizeMode): void {
+    this.updateStyle({ pointSizeMode: mode });
+  }
+
+  /**
+   * Sets the range of the point radius in pixels when points are sized in meters.
+   *
+   * @param minPixels - Minimum point radius in pixels
+   * @param maxPixels - Maximum point radius in pixels
+   */
+  setPointSizePixelRange(minPixels: number, maxPixels: number): void {
+    this.updateStyle({ pointSizeMinPixels: minPixels, pointSizeMaxPixels: maxPixels });
+  }
+
+  /**
+   * Enables or disables shading points by their estimated normals.
+   * Point clouds without normals are drawn unshaded.
+   *
+   * @param enabled - Whether points are shaded by their normals
+   */
+  setNormalShading(enabled: boolean): void {
+    this.updateStyle({ normalShading: enabled });
+  }
+
+  /**
+   * Sets the estimated normals of a point cloud, for shading and the normal color schemes.
+   *
+   * @param id - Point cloud ID
+   * @param normals - Unit normals [east, north, up, ...] (length = pointCount * 3)
+   */
+  setPointCloudNormals(id: string, normals: Float32Array): void {
+    const pc = this._pointClouds.get(id);
+    if (!pc) return;
+    if (normals.length !== pc.data.pointCount * 3) {
+      throw new Error(`Expected ${pc.data.pointCount * 3} normal values for point cloud ${id}, got ${normals.length}`);
+    }
+
+    pc.data = { ...pc.data, normals };
+    pc.chunks = [];
+    if (NORMAL_COLOR_SCHEMES.includes(this._getStyle(id).colorScheme)) {
+      this._recomputeColors(id);
+    }
+    this._createLayer(id);
+  }
+
   /**
    * Sets the global opacity for all point clouds.
    * This also clears any per-layer opacity overrides so the global value takes effect.
@@ -257,10 +416,8 @@ export class PointCloudManager {
    */
   setOpacity(opacity: number): void {
     // Clear all per-layer opacity overrides so global opacity takes effect
-    for (const [id, pc] of this._pointClouds) {
-      if (pc.opacityOverride !== null) {
-        this._pointClouds.set(id, { ...pc, opacityOverride: null });
-      }
+    for (const style of this._styles.values()) {
+      delete style.opacity;
     }
     this.updateStyle({ opacity });
   }
@@ -301,6 +458,15 @@ export class PointCloudManager {
     this.updateStyle({ colorRange });
   }
 
+  /**
+   * Sets the weight of the intensity shading of the intensity-blended color schemes.
+   *
+   * @param weight - Weight (0 keeps the colors, 1 scales them by the intensity)
+   */
+  setIntensityBlend(weight: number): void {
+    this.updateStyle({ intensityBlend: weight });
+  }
+
   /**
    * Sets the elevation range filter.
    *
@@ -310,6 +476,62 @@ export class PointCloudManager {
     this.updateStyle({ elevationRange: range });
   }
 
+  /**
+   * Sets the intensity range filter.
+   *
+   * @param range - [min, max] intensity (0-1) or null to disable
+   */
+  setIntensityRange(range: [number, number] | null): void {
+    this.updateStyle({ intensityRange: range });
+  }
+
+  /**
+   * Sets the range filters on point attributes. Points are shown if all
+   * their filtered attributes are within range.
+   *
+   * @param filters - [min, max] range by attribute name, or undefined to disable
+   */
+  setAttributeFilters(filters: Record<string, [number, number]> | undefined): void {
+    this.updateStyle({ attributeFilters: filters });
+  }
+
+  /**
+   * Sets the window of GPS times of the points shown. Moving the window only updates the
+   * GPU filter range, so it can be animated.
+   *
+   * @param window - GPS time window [start, end], or null to show all points
+   */
+  setGpsTimeWindow(window: [number, number] | null): void {
+    this.updateStyle({ gpsTimeWindow: window });
+  }
+
+  /**
+   * Sets the filter expression points must pass to be shown (see parseFilterExpression()).
+   *
+   * @param expression - Filter expression, or null to disable
+   */
+  setFilterExpression(expression: string | null): void {
+    this.updateStyle({ filterExpression: expression });
+  }
+
+  /**
+   * Sets the regions of the map that clip rendered points.
+   *
+   * @param regions - Clip regions
+   */
+  setClipRegions(regions: ClipRegion[]): void {
+    this.updateStyle({ clipRegions: regions });
+  }
+
+  /**
+   * Sets the oriented 3D box that clips rendered points.
+   *
+   * @param box - Clip box, or null to disable
+   */
+  setClipBox(box: ClipBox | null): void {
+    this.updateStyle({ clipBox: box });
+  }
+
   /**
    * Sets whether points are pickable (enables hover/click interactions).
    *
@@ -370,7 +592,13 @@ export class PointCloudManager {
   setPointCloudOpacity(id: string, opacity: number | null): void {
     const pc = this._pointClouds.get(id);
     if (pc) {
-      this._pointClouds.set(id, { ...pc, opacityOverride: opacity });
+      const style = { ...this._styles.get(id) };
+      if (opacity === null) {
+        delete style.opacity;
+      } else {
+        style.opacity = opacity;
+      }
+      this._styles.set(id, style);
       this._createLayer(id);
     }
   }
@@ -384,7 +612,92 @@ export class PointCloudManager {
   getPointCloudOpacity(id: string): number | undefined {
     const pc = this._pointClouds.get(id);
     if (!pc) return undefined;
-    return pc.opacityOverride ?? this._options.opacity;
+    return this._getStyle(id).opacity;
+  }
+
+  /**
+   * Sets style overrides for a specific point cloud. Properties that are not
+   * overridden follow the global style. Overrides set before the point cloud
+   * is added are applied when it is added.
+   *
+   * @param id - Point cloud ID
+   * @param style - Style properties to override
+   */
+  setPointCloudStyle(id: string, style: Partial<PointCloudStyle>): void {
+    this._styles.set(id, { ...this._styles.get(id), ...style });
+    if (!this._pointClouds.has(id)) return;
+
+    if (COLOR_STYLE_KEYS.some((key) => style[key] !== undefined)) {
+      this._recomputeColors(id);
+    }
+    this._createLayer(id);
+  }
+
+  /**
+   * Clears the style overrides of a point cloud so it follows the global style.
+   *
+   * @param id - Point cloud ID
+   */
+  clearPointCloudStyle(id: string): void {
+    this._styles.delete(id);
+    if (!this._pointClouds.has(id)) return;
+
+    this._recomputeColors(id);
+    this._createLayer(id);
+  }
+
+  /**
+   * Gets the style of a specific point cloud, with its overrides applied to the global style.
+   *
+   * @param id - Point cloud ID
+   * @returns The point cloud style
+   */
+  getPointCloudStyle(id: string): PointCloudStyle {
+    const {
+      pointSize,
+      opacity,
+      colorScheme,
+      colormap,
+      colorRange,
+      usePercentile,
+      intensityBlend,
+      elevationRange,
+      zOffset,
+      attributeFilters,
+    } = this._getStyle(id);
+    return {
+      pointSize,
+      opacity,
+      colorScheme,
+      colormap: colormap ?? 'viridis',
+      colorRange: colorRange ?? { mode: 'percentile', percentileLow: 2, percentileHigh: 98 },
+      usePercentile,
+      intensityBlend: intensityBlend ?? DEFAULT_INTENSITY_BLEND,
+      elevationRange,
+      zOffset,
+      attributeFilters: attributeFilters ?? {},
+    };
+  }
+
+  /**
+   * Gets the color bounds computed for a specific point cloud.
+   * Used for displaying the colorbar of a point cloud with its own style.
+   *
+   * @param id - Point cloud ID
+   * @returns Color bounds, or undefined if not found or the color scheme has none
+   */
+  getPointCloudColorBounds(id: string): { min: number; max: number } | undefined {
+    return this._pointClouds.get(id)?.colorBounds;
+  }
+
+  /**
+   * Gets the categories computed for a specific point cloud by a categorical color scheme.
+   *
+   * @param id - Point cloud ID
+   * @returns Categories, or undefined if not found or the color scheme is not categorical
+   */
+  getPointCloudColorCategories(id: string): ColorCategory[] | undefined {
+    return this._pointClouds.get(id)?.colorCategories;
   }
 
   /**
@@ -393,13 +706,13 @@ export class PointCloudManager {
   clear(): void {
     for (const [id, pc] of this._pointClouds) {
       // Remove all chunk layers
-      const CHUNK_SIZE = 1000000;
       const numChunks = Math.ceil(pc.data.pointCount / CHUNK_SIZE);
       for (let chunk = 0; chunk < numChunks; chunk++) {
         this._deckOverlay.removeLayer(`pointcloud-${id}-chunk${chunk}`);
       }
     }
     this._pointClouds.clear();
+    this._styles.clear();
   }
 
   /**
@@ -417,32 +730,81 @@ export class PointCloudManager {
     return this._lastComputedBounds;
   }
 
+  /**
+   * Gets the categories from the last categorical color scheme.
+   * Used for displaying the category legend.
+   */
+  getLastComputedCategories(): ColorCategory[] | undefined {
+    return this._lastComputedCategories;
+  }
+
+  /**
+   * Gets the data of a single point cloud.
+   *
+   * @param id - Point cloud ID
+   * @returns Point cloud data, or undefined if not found
+   */
+  getPointCloudData(id: string): PointCloudData | undefined {
+    return this._pointClouds.get(id)?.data;
+  }
+
   /**
    * Gets merged point cloud data from all loaded point clouds.
-   * Used for cross-section profile extraction.
+   * Used for cross-section profile extraction and export.
+   * RGB colors and extra attributes missing from some clouds are zero-filled.
+   * The WKT is that of the point clouds, or undefined if their source CRSs differ.
    *
+   * @param filters - Filter expression, clip regions and clip box the merged points must pass
+   * @param selectPoints - Selects the points of each point cloud to merge (e.g., with the
+   *   style of the point cloud), before the filters apply. Returns null to keep all points.
    * @returns Merged point cloud data or null if no data loaded
    */
-  getMergedPointCloudData(): PointCloudData | null {
+  getMergedPointCloudData(
+    filters: Pick<PointCloudLayerOptions, 'filterExpression' | 'clipRegions' | 'clipBox'> = {},
+    selectPoints?: (id: string, data: PointCloudData) => ArrayLike<number> | null
+  ): PointCloudData | null {
     if (this._pointClouds.size === 0) return null;
 
+    const { filterExpression, clipRegions = [], clipBox = null } = filters;
+    const inClipRegions = createClipTest(clipRegions);
+    const inClipBox = createClipBoxTest(clipBox);
+
+    const pointClouds = Array.from(this._pointClouds.entries(), ([id, pc]) => {
+      const selected = selectPoints?.(id, pc.data) ?? null;
+      if (!selected && !filterExpression && !inClipRegions && !inClipBox) return pc;
+      const passes = filterExpression ? compileFilterExpression(filterExpression, pc.data) : null;
+      const { positions } = pc.data;
+      const [originLng, originLat] = pc.coordinateOrigin;
+      const count = selected ? selected.length : pc.data.pointCount;
+      const indices: number[] = [];
+      for (let j = 0; j < count; j++) {
+        const i = selected ? selected[j] : j;
+        const lng = positions[i * 3] + originLng;
+        const lat = positions[i * 3 + 1] + originLat;
+        if (passes && !passes(i)) continue;
+        if (inClipRegions && !inClipRegions(lng, lat)) continue;
+        if (inClipBox && !inClipBox(lng, lat, positions[i * 3 + 2])) continue;
+        indices.push(i);
+      }
+      return { data: subsetPointCloudData(pc.data, indices), coordinateOrigin: pc.coordinateOrigin };
+    });
+
     // If only one point cloud, return it directly
-    if (this._pointClouds.size === 1) {
-      const [first] = this._pointClouds.values();
-      return first.data;
+    if (pointClouds.length === 1) {
+      return pointClouds[0].data;
     }
 
     // Merge multiple point clouds
     // Calculate total point count
     let totalPoints = 0;
-    for (const pc of this._pointClouds.values()) {
+    for (const pc of pointClouds) {
       totalPoints += pc.data.pointCount;
     }
 
     if (totalPoints === 0) return null;
 
     // Use the first point cloud's coordinate origin
-    const [firstPc] = this._pointClouds.values();
+    const [firstPc] = pointClouds;
     const originLng = firstPc.coordinateOrigin[0];
     const originLat = firstPc.coordinateOrigin[1];
 
@@ -450,9 +812,21 @@ export class PointCloudManager {
     const positions = new Float32Array(totalPoints * 3);
     const intensities = new Float32Array(totalPoints);
     const classifications = new Uint8Array(totalPoints);
+    let hasRGB = false;
+    const extraAttributes: ExtraPointAttributes = {};
+    for (const pc of pointClouds) {
+      hasRGB = hasRGB || (pc.data.hasRGB && !!pc.data.colors);
+      for (const [name, arr] of Object.entries(pc.data.extraAttributes ?? {})) {
+        if (!extraAttributes[name]) {
+          const ArrayType = arr.constructor as new (length: number) => AttributeArray;
+          extraAttributes[name] = new ArrayType(totalPoints);
+        }
+      }
+    }
+    const colors = hasRGB ? new Uint8Array(totalPoints * 4) : undefined;
 
     let offset = 0;
-    for (const pc of this._pointClouds.values()) {
+    for (const pc of pointClouds) {
       const data = pc.data;
       const count = data.pointCount;
 
@@ -474,19 +848,34 @@ export class PointCloudManager {
         classifications.set(data.classifications.subarray(0, count), offset);
       }
 
+      if (colors && data.hasRGB && data.colors) {
+        colors.set(data.colors.subarray(0, count * 4), offset * 4);
+      }
+
+      for (const [name, arr] of Object.entries(data.extraAttributes ?? {})) {
+        const target = extraAttributes[name];
+        for (let i = 0; i < count; i++) {
+          target[offset + i] = arr[i];
+        }
+      }
+
       offset += count;
     }
 
     return {
       positions,
       coordinateOrigin: [originLng, originLat, 0],
+      colors,
       intensities,
       classifications,
+      extraAttributes: Object.keys(extraAttributes).length > 0 ? extraAttributes : undefined,
       pointCount: totalPoints,
       bounds: firstPc.data.bounds,
-      hasRGB: firstPc.data.hasRGB,
+      hasRGB,
       hasIntensity: true,
       hasClassification: true,
+      // Positions are WGS84, so point clouds in different source CRSs have no common one
+      wkt: pointClouds.every((pc) => pc.data.wkt === firstPc.data.wkt) ? firstPc.data.wkt : undefined,
     };
   }
 
@@ -494,19 +883,19 @@ export class PointCloudManager {
    * Creates a deck.gl layer for a point cloud.
    * Chunks large point clouds into multiple layers to avoid WebGL buffer limits.
    * Uses coordinateOrigin + LNGLAT_OFFSETS to maintain Float32 precision.
-   * Applies elevation filter if set.
+   * Filters are applied on the GPU with the DataFilterExtension and the Z offset
+   * with the model matrix, so changing them does not rebuild the layer data.
    */
   private _createLayer(id: string): void {
     const pc = this._pointClouds.get(id);
     if (!pc) return;
 
-    const { data, colors, coordinateOrigin, visible, opacityOverride } = pc;
-    const elevationRange = this._options.elevationRange;
-    const zOffset = this._options.zOffset ?? 0;
-    const layerOpacity = opacityOverride ?? this._options.opacity;
+    const { data, coordinateOrigin, visible } = pc;
+    const style = this._getStyle(id);
+    const zOffset = style.zOffset ?? 0;
 
     // Remove existing chunk layers first (use a generous upper bound)
-    const maxPossibleChunks = Math.ceil(data.pointCount / 1000000) + 1;
+    const maxPossibleChunks = Math.ceil(data.pointCount / CHUNK_SIZE) + 1;
     for (let chunk = 0; chunk < maxPossibleChunks; chunk++) {
       this._deckOverlay.removeLayer(`pointcloud-${id}-chunk${chunk}`);
     }
@@ -516,61 +905,43 @@ export class PointCloudManager {
       return;
     }
 
-    // Build filtered indices list
-    const filteredIndices: number[] = [];
-
-    for (let i = 0; i < data.pointCount; i++) {
-      const elevation = data.positions[i * 3 + 2];
-      if (elevationRange === null ||
-          (elevation >= elevationRange[0] && elevation <= elevationRange[1])) {
-        filteredIndices.push(i);
-      }
-    }
-
-    // If no points pass the filter, don't create any layers
-    if (filteredIndices.length === 0) {
-      return;
+    const channels = this._getFilterChannels(data, style);
+    const hiddenClassifications = style.hiddenClassifications;
+    const filterClassifications =
+      (style.colorScheme === 'classification' || style.colorScheme === 'classificationIntensity') &&
+      !!data.classifications && !!hiddenClassifications && hiddenClassifications.size > 0;
+    const sizing = this._getPointSizing(data, style);
+    const shaded = !!style.normalShading && !!data.normals;
+    const extensions: LayerExtension[] = channels.length > 0 || filterClassifications
+      ? [getDataFilterExtension(channels.length, filterClassifications ? 1 : 0)]
+      : [];
+    if (sizing.sizeUnits === 'meters') {
+      extensions.push(pointSizeExtension);
     }
-
-    // Chunk size - 1 million points per layer to stay within WebGL limits
-    const CHUNK_SIZE = 1000000;
-    const numChunks = Math.ceil(filteredIndices.length / CHUNK_SIZE);
-
-    for (let chunk = 0; chunk < numChunks; chunk++) {
-      const chunkStart = chunk * CHUNK_SIZE;
-      const chunkEnd = Math.min(chunkStart + CHUNK_SIZE, filteredIndices.length);
-      const chunkSize = chunkEnd - chunkStart;
-
-      const chunkPositions = new Float32Array(chunkSize * 3);
-      const chunkColors = new Uint8Array(chunkSize * 4);
-      const originalIndices: number[] = [];
-
-      for (let i = 0; i < chunkSize; i++) {
-        const srcIdx = filteredIndices[chunkStart + i];
-        originalIndices.push(srcIdx);
-
-        chunkPositions[i * 3] = data.positions[srcIdx * 3];
-        chunkPositions[i * 3 + 1] = data.positions[srcIdx * 3 + 1];
-        // Apply Z offset to elevation
-        chunkPositions[i * 3 + 2] = data.positions[srcIdx * 3 + 2] + zOffset;
-
-        chunkColors[i * 4] = colors[srcIdx * 4];
-        chunkColors[i * 4 + 1] = colors[srcIdx * 4 + 1];
-        chunkColors[i * 4 + 2] = colors[srcIdx * 4 + 2];
-        chunkColors[i * 4 + 3] = colors[srcIdx * 4 + 3];
-      }
+    const modelMatrix = zOffset !== 0
+      ? new Float32Array([1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, zOffset, 1])
+      : null;
+
+    const chunks = this._getChunks(pc, channels, sizing.adaptive, shaded);
+    chunks.forEach((chunkData, chunk) => {
+      const { start, filterBases } = chunkData;
+      const ranges = channels.map(({ range }, c): [number, number] => [
+        range[0] - filterBases[c],
+        range[1] - filterBases[c],
+      ]);
+      const filterRange = ranges.length === 1 ? ranges[0] : ranges;
 
       // Create hover handler for this chunk
       const handleHover = (info: PickingInfo) => {
         if (!this._options.onHover) return;
 
-        if (info.index >= 0 && info.picked && info.index < originalIndices.length) {
-          const originalIndex = originalIndices[info.index];
+        if (info.index >= 0 && info.picked && info.index < chunkData.length) {
+          const originalIndex = start + info.index;
           const pointInfo: PickedPointInfo = {
             index: originalIndex,
-            longitude: coordinateOrigin[0] + chunkPositions[info.index * 3],
-            latitude: coordinateOrigin[1] + chunkPositions[info.index * 3 + 1],
-            elevation: chunkPositions[info.index * 3 + 2],
+            longitude: coordinateOrigin[0] + data.positions[originalIndex * 3],
+            latitude: coordinateOrigin[1] + data.positions[originalIndex * 3 + 1],
+            elevation: data.positions[originalIndex * 3 + 2] + zOffset,
             x: info.x,
             y: info.y,
           };
@@ -609,38 +980,368 @@ export class PointCloudManager {
         }
       };
 
-      // Create a unique data fingerprint to force deck.gl to update
-      const elevationKey = elevationRange ? `${elevationRange[0]}-${elevationRange[1]}` : 'none';
-      const zOffsetKey = zOffset;
-
-      const layer = new PointCloudLayer({
+      const classifications = data.classifications;
+      const layer = new PointCloudLayer<unknown, DataFilterExtensionProps & PointSizeExtensionProps>({
         id: `pointcloud-${id}-chunk${chunk}`,
         coordinateSystem: COORDINATE_SYSTEM.LNGLAT_OFFSETS,
         coordinateOrigin: coordinateOrigin,
-        data: {
-          length: chunkSize,
-          attributes: {
-            getPosition: { value: chunkPositions, size: 3 },
-            getColor: { value: chunkColors, size: 4 },
-          },
-        },
-        pointSize: this._options.pointSize,
-        sizeUnits: 'pixels',
-        opacity: layerOpacity,
+        modelMatrix,
+        data: chunkData.data,
+        pointSize: sizing.pointSize,
+        sizeUnits: sizing.sizeUnits,
+        pointSizeMinPixels: style.pointSizeMinPixels,
+        pointSizeMaxPixels: style.pointSizeMaxPixels,
+        opacity: style.opacity,
+        // Shaded chunks take the normals from their getNormal attribute
         getNormal: [0, 0, 1],
+        material: shaded ? NORMAL_SHADING_MATERIAL : true,
         pickable: this._options.pickable,
         onHover: this._options.pickable ? handleHover : undefined,
         autoHighlight: this._options.pickable,
         highlightColor: [255, 255, 0, 200],
-        // Force update when these values change
-        updateTriggers: {
-          getPosition: [elevationKey, zOffsetKey, chunkSize],
-          getColor: [elevationKey, chunkSize],
-        },
+        extensions,
+        filterRange,
+        getFilterCategory: filterClassifications && classifications
+          ? (_: unknown, { index }: { index: number }) => classifications[start + index]
+          : 0,
+        filterCategories: filterClassifications
+          ? this._getChunkClassifications(chunkData, data).filter((code) => !hiddenClassifications?.has(code))
+          : [],
       });
 
       this._deckOverlay.addLayer(`pointcloud-${id}-chunk${chunk}`, layer);
+    });
+  }
+
+  /**
+   * Gets the channels the GPU data filter filters a point cloud by: elevation, intensity,
+   * the GPS time window, the attribute filters that apply to the point cloud, and the filter expression, clip
+   * regions and clip box, which are evaluated on the CPU into channels of points passing them. When there
+   * are more filters than the GPU can take, the last ones are combined on the CPU into a single
+   * channel of points passing them (which is rebuilt when their ranges change).
+   *
+   * @param data - Point cloud data
+   * @param style - Style of the point cloud
+   * @returns Filter channels, at most MAX_FILTER_SIZE
+   */
+  private _getFilterChannels(data: PointCloudData, style: PointCloudLayerOptions): FilterChannel[] {
+    const channels: FilterChannel[] = [];
+    const {
+      elevationRange,
+      intensityRange,
+      attributeFilters,
+      gpsTimeWindow,
+      filterExpression,
+      clipRegions,
+      clipBox,
+    } = style;
+
+    if (elevationRange) {
+      channels.push({
+        name: 'elevation',
+        range: elevationRange,
+        getSource: () => data.positions,
+        stride: 3,
+        offset: 2,
+      });
+    }
+    if (intensityRange && data.intensities) {
+      const intensities = data.intensities;
+      channels.push({ name: 'intensity', range: intensityRange, getSource: () => intensities, stride: 1, offset: 0 });
+    }
+    // Before the other filters, so that the animated window stays on the GPU
+    const gpsTimes = gpsTimeWindow ? getAttributeValues(data, 'GpsTime') : undefined;
+    if (gpsTimeWindow && gpsTimes) {
+      channels.push({ name: 'gpstime', range: gpsTimeWindow, getSource: () => gpsTimes, stride: 1, offset: 0 });
+    }
+    const attributeNames = getAttributeNames(data);
+    for (const [name, range] of Object.entries(attributeFilters ?? {})) {
+      if (attributeNames.includes(name)) {
+        channels.push({
+          name: `attribute:${name}`,
+          range,
+          getSource: () => getAttributeValues(data, name)!,
+          stride: 1,
+          offset: 0,
+        });
+      }
+    }
+
+    if (filterExpression) {
+      channels.push({
+        name: `expression:${filterExpression}`,
+        range: [1, 1],
+        getSource: () => {
+          const passes = compileFilterExpression(filterExpression, data);
+          const passed = new Uint8Array(data.pointCount);
+          for (let i = 0; i < data.pointCount; i++) {
+            passed[i] = passes(i) ? 1 : 0;
+          }
+          return passed;
+        },
+        stride: 1,
+        offset: 0,
+      });
+    }
+
+    const enabledRegions = clipRegions?.filter((region) => region.enabled) ?? [];
+    if (enabledRegions.length > 0) {
+      channels.push({
+        name: `clip:${JSON.stringify(enabledRegions.map(({ mode, geometry }) => [mode, geometry.coordinates]))}`,
+        range: [1, 1],
+        getSource: () => {
+          const inRegions = createClipTest(enabledRegions)!;
+          const [originLng, originLat] = data.coordinateOrigin;
+          const passed = new Uint8Array(data.pointCount);
+          for (let i = 0; i < data.pointCount; i++) {
+            passed[i] = inRegions(data.positions[i * 3] + originLng, data.positions[i * 3 + 1] + originLat) ? 1 : 0;
+          }
+          return passed;
+        },
+        stride: 1,
+        offset: 0,
+      });
+    }
+
+    const inClipBox = createClipBoxTest(clipBox ?? null);
+    if (inClipBox) {
+      channels.push({
+        name: `clipbox:${JSON.stringify(clipBox)}`,
+        range: [1, 1],
+        getSource: () => {
+          const [originLng, originLat] = data.coordinateOrigin;
+          const passed = new Uint8Array(data.pointCount);
+          for (let i = 0; i < data.pointCount; i++) {
+            const z = data.positions[i * 3 + 2];
+            passed[i] = inClipBox(data.positions[i * 3] + originLng, data.positions[i * 3 + 1] + originLat, z) ? 1 : 0;
+          }
+          return passed;
+        },
+        stride: 1,
+        offset: 0,
+      });
     }
+
+    if (channels.length > MAX_FILTER_SIZE) {
+      const combined = channels.splice(MAX_FILTER_SIZE - 1);
+      channels.push({
+        name: combined.map(({ name, range }) => `${name}[${range.join(',')}]`).join('&'),
+        range: [1, 1],
+        getSource: () => {
+          const sources = combined.map((channel) => channel.getSource());
+          const passed = new Uint8Array(data.pointCount);
+          for (let i = 0; i < data.pointCount; i++) {
+            passed[i] = combined.every(({ range, stride, offset }, c) => {
+              const value = sources[c][i * stride + offset];
+              return value >= range[0] && value <= range[1];
+            }) ? 1 : 0;
+          }
+          return passed;
+        },
+        stride: 1,
+        offset: 0,
+      });
+    }
+
+    return channels;
+  }
+
+  /**
+   * Gets the size of the points of a point cloud in the units of its point size mode.
+   * Point clouds without octree levels are sized by their spacing in 'adaptive' mode.
+   *
+   * @param data - Point cloud data
+   * @param style - Style of the point cloud
+   * @returns Point sizing of the layers
+   */
+  private _getPointSizing(data: PointCloudData, style: PointCloudLayerOptions): PointSizing {
+    const mode = style.pointSizeMode ?? 'pixels';
+    if (mode === 'pixels') {
+      return { pointSize: style.pointSize, sizeUnits: 'pixels', adaptive: false };
+    }
+    if (mode === 'adaptive' && data.nodeDepths && data.rootSpacing) {
+      return { pointSize: (style.pointSize * data.rootSpacing) / 2, sizeUnits: 'meters', adaptive: true };
+    }
+    return { pointSize: (style.pointSize * getPointSpacing(data)) / 2, sizeUnits: 'meters', adaptive: false };
+  }
+
+  /**
+   * Gets the chunk layer data of a point cloud, building it on first use and
+   * rebuilding the filter values of chunks filtered by other attributes.
+   *
+   * @param pc - Managed point cloud
+   * @param channels - Filtered attributes
+   * @param adaptive - Whether the points are scaled by the octree level of their node
+   * @param shaded - Whether the points are shaded by their normals
+   * @returns Chunks of the point cloud
+   */
+  private _getChunks(
+    pc: ManagedPointCloud,
+    channels: FilterChannel[],
+    adaptive: boolean,
+    shaded: boolean
+  ): PointCloudChunk[] {
+    const { data, colors } = pc;
+
+    if (pc.chunks.length === 0) {
+      for (let start = 0; start < data.pointCount; start += CHUNK_SIZE) {
+        const length = Math.min(CHUNK_SIZE, data.pointCount - start);
+        pc.chunks.push({
+          start,
+          length,
+          data: {
+            length,
+            attributes: {
+              getPosition: { value: data.positions.subarray(start * 3, (start + length) * 3), size: 3 },
+              getColor: { value: colors.subarray(start * 4, (start + length) * 4), size: 4 },
+            },
+          },
+          filterKey: '',
+          filterBases: [],
+        });
+      }
+    }
+
+    // Points of nodes one level deeper are half as far apart
+    if (adaptive && data.nodeDepths && !pc.pointScales) {
+      const { nodeDepths } = data;
+      pc.pointScales = new Float32Array(data.pointCount);
+      for (let i = 0; i < data.pointCount; i++) {
+        pc.pointScales[i] = 2 ** -nodeDepths[i];
+      }
+    }
+    const { pointScales } = pc;
+    if (pointScales) {
+      for (const chunk of pc.chunks) {
+        if (chunk.data.attributes.getPointScale) continue;
+        chunk.data = {
+          length: chunk.length,
+          attributes: {
+            ...chunk.data.attributes,
+            getPointScale: { value: pointScales.subarray(chunk.start, chunk.start + chunk.length), size: 1 },
+          },
+        };
+      }
+    }
+
+    const { normals } = data;
+    for (const chunk of pc.chunks) {
+      if (!!chunk.data.attributes.getNormal === shaded) continue;
+      const attributes = { ...chunk.data.attributes };
+      delete attributes.getNormal;
+      if (shaded && normals) {
+        attributes.getNormal = { value: normals.subarray(chunk.start * 3, (chunk.start + chunk.length) * 3), size: 3 };
+      }
+      chunk.data = { length: chunk.length, attributes };
+    }
+
+    const filterKey = channels.map((channel) => channel.name).join('|');
+    if (pc.chunks.every((chunk) => chunk.filterKey === filterKey)) {
+      return pc.chunks;
+    }
+
+    const sources = channels.map((channel) => channel.getSource());
+    const filterBases = channels.map(({ offset }, c) =>
+      sources[c] instanceof Float64Array && data.pointCount > 0 ? sources[c][offset] : 0
+    );
+    for (const chunk of pc.chunks) {
+      const { getPosition, getColor, getPointScale, getNormal } = chunk.data.attributes;
+      const attributes: ChunkData['attributes'] = { getPosition, getColor };
+      if (getPointScale) attributes.getPointScale = getPointScale;
+      if (getNormal) attributes.getNormal = getNormal;
+      if (channels.length > 0) {
+        // Interleaved values of the filtered attributes
+        const size = channels.length;
+        const values = new Float32Array(chunk.length * size);
+        channels.forEach(({ stride, offset }, c) => {
+          const source = sources[c];
+          const base = filterBases[c];
+          for (let i = 0; i < chunk.length; i++) {
+            values[i * size + c] = source[(chunk.start + i) * stride + offset] - base;
+          }
+        });
+        attributes.getFilterValue = { value: values, size };
+      }
+
+      // New data object so deck.gl picks up the new attribute
+      chunk.data = { length: chunk.length, attributes };
+      chunk.filterKey = filterKey;
+      chunk.filterBases = filterBases;
+    }
+
+    return pc.chunks;
+  }
+
+  /**
+   * Gets the classification codes present in a chunk.
+   *
+   * @param chunk - Chunk of the point cloud
+   * @param data - Point cloud data
+   * @returns Classification codes
+   */
+  private _getChunkClassifications(chunk: PointCloudChunk, data: PointCloudData): number[] {
+    if (!chunk.classifications) {
+      const present = new Set<number>();
+      const classifications = data.classifications;
+      if (classifications) {
+        for (let i = chunk.start; i < chunk.start + chunk.length; i++) {
+          present.add(classifications[i]);
+        }
+      }
+      chunk.classifications = Array.from(present);
+    }
+    return chunk.classifications;
+  }
+
+  /**
+   * Gets the options a point cloud is rendered with: the global options with its style overrides.
+   *
+   * @param id - Point cloud ID
+   * @returns Layer options of the point cloud
+   */
+  private _getStyle(id: string): PointCloudLayerOptions {
+    return { ...this._options, ...this._styles.get(id) };
+  }
+
+  /**
+   * Computes point colors, storing the computed bounds for colorbar display.
+   *
+   * @param data - Point cloud data
+   * @param style - Style to color the points with
+   * @returns Colors and computed bounds
+   */
+  private _computeColors(data: PointCloudData, style: PointCloudLayerOptions): ColorResult {
+    const result = this._colorProcessor.getColorsWithBounds(data, style.colorScheme, {
+      usePercentile: style.usePercentile,
+      colormap: style.colormap,
+      colorRange: style.colorRange,
+      intensityBlend: style.intensityBlend,
+    });
+
+    if (result.bounds) {
+      this._lastComputedBounds = result.bounds;
+    }
+    this._lastComputedCategories = result.categories;
+    return result;
+  }
+
+  /**
+   * Recomputes the colors of a point cloud after a color style change.
+   *
+   * @param id - Point cloud ID
+   */
+  private _recomputeColors(id: string): void {
+    const pc = this._pointClouds.get(id);
+    if (!pc) return;
+
+    const result = this._computeColors(pc.data, this._getStyle(id));
+    this._pointClouds.set(id, {
+      ...pc,
+      colors: result.colors,
+      chunks: [],
+      colorBounds: result.bounds,
+      colorCategories: result.categories,
+    });
   }
 
   /**
@@ -0,0 +1,111 @@
+import { LayerExtension } from '@deck.gl/core';
+import type { Accessor, Layer, LayerContext } from '@deck.gl/core';
+
+/**
+ * Props added to point cloud layers by the PointSizeExtension
+ */
+export interface PointSizeExtensionProps<DataT = unknown> {
+  /**
+   * Factor the point size of each point is multiplied by
+   * @default 1
+   */
+  getPointScale?: Accessor<DataT, number>;
+  /**
+   * Minimum point radius in pixels
+   * @default 0
+   */
+  pointSizeMinPixels?: number;
+  /**
+   * Maximum point radius in pixels
+   * @default Number.MAX_SAFE_INTEGER
+   */
+  pointSizeMaxPixels?: number;
+}
+
+const uniformBlock = /* glsl */ `\
+uniform pointSizeUniforms {
+  float minPixels;
+  float maxPixels;
+} pointSize;
+`;
+
+const vs = /* glsl */ `\
+${uniformBlock}
+in float instancePointScales;
+`;
+
+const inject = {
+  // The corners of the point geometry are its unit positions times the radius in pixels
+  'vs:DECKGL_FILTER_SIZE': /* glsl */ `
+    float pointSize_radius = length(size.xy) / length(geometry.uv);
+    if (pointSize_radius > 0.0) {
+      float pointSize_clamped = clamp(pointSize_radius * instancePointScales, pointSize.minPixels, pointSize.maxPixels);
+      size.xy *= pointSize_clamped / pointSize_radius;
+    }
+  `,
+};
+
+const pointSizeModule = {
+  name: 'pointSize',
+  vs,
+  inject,
+  uniformTypes: {
+    minPixels: 'f32',
+    maxPixels: 'f32',
+  },
+};
+
+const defaultProps = {
+  getPointScale: { type: 'accessor', value: 1 },
+  pointSizeMinPixels: 0,
+  pointSizeMaxPixels: Number.MAX_SAFE_INTEGER,
+};
+
+/**
+ * Scales the points of a PointCloudLayer individually and clamps their radius in pixels.
+ * Point clouds sized in meters use it to keep points visible when zoomed out and to stop
+ * them from covering the map when zoomed in, and to size the points of each streamed
+ * octree node by the spacing of its level.
+ */
+export class PointSizeExtension extends LayerExtension {
+  static defaultProps = defaultProps;
+  static extensionName = 'PointSizeExtension';
+
+  /**
+   * Adds the point size shader module.
+   *
+   * @returns Shaders of the extension
+   */
+  getShaders(): { modules: unknown[] } {
+    return { modules: [pointSizeModule] };
+  }
+
+  /**
+   * Adds the point scale attribute.
+   *
+   * @param _context - Layer context
+   * @param _extension - This extension
+   */
+  initializeState(this: Layer<PointSizeExtensionProps>, _context: LayerContext, _extension: this): void {
+    this.getAttributeManager()?.addInstanced({
+      instancePointScales: {
+        size: 1,
+        accessor: 'getPointScale',
+        defaultValue: 1,
+      },
+    });
+  }
+
+  /**
+   * Sets the pixel clamps of the points.
+   *
+   * @param _params - Draw parameters
+   * @param _extension - This extension
+   */
+  draw(this: Layer<PointSizeExtensionProps>, _params: unknown, _extension: this): void {
+    const { pointSizeMinPixels = 0, pointSizeMaxPixels = Number.MAX_SAFE_INTEGER } = this.props;
+    this.setShaderModuleProps({
+      pointSize: { minPixels: pointSizeMinPixels, maxPixels: pointSizeMaxPixels },
+    });
+  }
+}
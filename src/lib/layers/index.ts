@@ -1,2 +1,6 @@
 export { PointCloudManager } from './PointCloudManager';
 export type { PointCloudLayerOptions } from './types';
+export { EyeDomeLightingEffect, DEFAULT_EDL_OPTIONS } from './EyeDomeLightingEffect';
+export type { EyeDomeLightingOptions } from './EyeDomeLightingEffect';
+export { PointSizeExtension } from './PointSizeExtension';
+export type { PointSizeExtensionProps } from './PointSizeExtension';
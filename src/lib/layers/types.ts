@@ -1,4 +1,11 @@
-import type { ColorScheme, ColormapName, ColorRangeConfig } from '../core/types';
+import type {
+  ColorScheme,
+  ColormapName,
+  ColorRangeConfig,
+  ClipRegion,
+  ClipBox,
+  PointSizeMode,
+} from '../core/types';
 
 /**
  * Information about a picked point
@@ -35,10 +42,37 @@ export interface PickedPointInfo {
  */
 export interface PointCloudLayerOptions {
   /**
-   * Point size in pixels
+   * Point size in pixels, or relative to the point spacing when sized in meters
+   * (at 1, the points of a uniformly spaced cloud touch)
    */
   pointSize: number;
 
+  /**
+   * Units of the point size. In 'meters' mode the point radius is pointSize times half the
+   * spacing of the dataset (see getPointSpacing()); in 'adaptive' mode, times half the
+   * spacing of the octree level of each point's node, for streamed point clouds
+   * @default 'pixels'
+   */
+  pointSizeMode?: PointSizeMode;
+
+  /**
+   * Minimum point radius in pixels when sized in meters
+   * @default 1
+   */
+  pointSizeMinPixels?: number;
+
+  /**
+   * Maximum point radius in pixels when sized in meters
+   * @default 16
+   */
+  pointSizeMaxPixels?: number;
+
+  /**
+   * Whether points with estimated normals are shaded by the scene lights (Lambertian shading)
+   * @default false
+   */
+  normalShading?: boolean;
+
   /**
    * Opacity (0-1)
    */
@@ -67,11 +101,57 @@ export interface PointCloudLayerOptions {
    */
   colorRange?: ColorRangeConfig;
 
+  /**
+   * Weight (0-1) of the intensity shading of the 'rgbIntensity', 'elevationIntensity'
+   * and 'classificationIntensity' color schemes
+   * @default 0.5
+   */
+  intensityBlend?: number;
+
   /**
    * Elevation range filter [min, max] or null for no filter
    */
   elevationRange: [number, number] | null;
 
+  /**
+   * Intensity range filter [min, max] (0-1) or null for no filter
+   * @default null
+   */
+  intensityRange?: [number, number] | null;
+
+  /**
+   * Range filters [min, max] on point attributes, by attribute name (see getAttributeNames()).
+   * Points are shown if all filtered attributes are within range. Filters on attributes
+   * a point cloud does not have are ignored.
+   */
+  attributeFilters?: Record<string, [number, number]>;
+
+  /**
+   * Window [start, end] of GPS times of the points shown, or null for no window.
+   * Point clouds without GpsTime are not filtered.
+   * @default null
+   */
+  gpsTimeWindow?: [number, number] | null;
+
+  /**
+   * Filter expression points must pass to be shown, e.g. `Classification == 2 && Intensity > 0.3`
+   * (see parseFilterExpression()), or null for no filter
+   * @default null
+   */
+  filterExpression?: string | null;
+
+  /**
+   * Regions of the map that clip rendered points
+   * @default []
+   */
+  clipRegions?: ClipRegion[];
+
+  /**
+   * Oriented 3D box that clips rendered points, or null for no box
+   * @default null
+   */
+  clipBox?: ClipBox | null;
+
   /**
    * Whether points are pickable (enables hover/click interactions)
    * @default false
@@ -85,7 +165,8 @@ export interface PointCloudLayerOptions {
   zOffset: number;
 
   /**
-   * Set of classification codes to hide (only applies when colorScheme is 'classification')
+   * Set of classification codes to hide (only applies when colorScheme is 'classification'
+   * or 'classificationIntensity')
    */
   hiddenClassifications?: Set<number>;
 
@@ -1,7 +1,9 @@
 import { Copc, Hierarchy, Getter } from 'copc';
 import type { Copc as CopcType } from 'copc';
-import { createLazPerf, type LazPerf } from 'laz-perf';
 import proj4 from 'proj4';
+import { WorkerPool } from '../workers/WorkerPool';
+import { decodePoints } from '../workers/PointDecoder';
+import type { PointDecodeTask, DecodedPoints } from '../workers/types';
 
 // Register common projected coordinate systems that might not have WKT in files
 // EPSG:2180 - ETRS89 / Poland CS92 (commonly used in Poland)
@@ -11,12 +13,28 @@ import type {
   CachedNode,
   StreamingLoaderOptions,
   ViewportInfo,
+  ViewportCamera,
   StreamingProgressEvent,
   StreamingLoaderEvent,
   StreamingLoaderEventHandler,
+  FailedNodeInfo,
+  PointColorizer,
 } from './streaming-types';
-import type { PointCloudData, ExtraPointAttributes, AttributeArray } from './types';
+import type {
+  PointCloudData,
+  ExtraPointAttributes,
+  AttributeArray,
+  RequestKind,
+  RequestTransformFunction,
+} from './types';
 import type { PointCloudBounds } from '../core/types';
+import { fetchWithTransform } from '../utils/request';
+import { getRetryDelay, wait } from '../utils/helpers';
+import { getResponseValidator } from '../cache/PersistentNodeCache';
+import { computeScreenSpaceError, boundsIntersectsFootprint } from '../utils/lod';
+import { NodeColorizer } from './NodeColorizer';
+import { NodeRetrier } from './NodeRetrier';
+import { compactNodeBuffers, selectNodesToEvict } from './NodeBuffers';
 
 /**
  * Source type for streaming loader - can be URL, File, or ArrayBuffer
@@ -36,6 +54,32 @@ function createBufferGetter(buffer: ArrayBuffer): Getter {
   };
 }
 
+/**
+ * Creates a getter function for copc.js that reads byte ranges from a URL,
+ * applying the request transform and aborting its requests with the given signal.
+ * The optional callback receives each successful response (e.g., to read its headers).
+ */
+function createUrlGetter(
+  url: string,
+  kind: RequestKind,
+  signal: AbortSignal,
+  transformRequest: RequestTransformFunction | null,
+  onResponse?: (response: Response) => void
+): Getter {
+  return async (begin: number, end: number): Promise<Uint8Array> => {
+    if (begin < 0 || end < 0 || begin > end) throw new Error('Invalid range');
+    const response = await fetchWithTransform(url, kind, {
+      headers: { Range: `bytes=${begin}-${end - 1}` },
+      signal,
+    }, transformRequest);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${kind} range: ${response.status} ${response.statusText}`);
+    }
+    onResponse?.(response);
+    return new Uint8Array(await response.arrayBuffer());
+  };
+}
+
 /**
  * Configuration for attribute storage types
  */
@@ -66,16 +110,6 @@ const DIMENSION_CONFIGS: Record<string, AttributeConfig> = {
   'NearInfrared': { arrayType: 'uint16' },
 };
 
-/**
- * Core dimensions that are handled separately
- */
-const CORE_DIMENSIONS = new Set([
-  'X', 'Y', 'Z',
-  'Intensity',
-  'Classification',
-  'Red', 'Green', 'Blue',
-]);
-
 /**
  * Creates a typed array of the appropriate type
  */
@@ -93,24 +127,6 @@ function createAttributeArray(type: AttributeConfig['arrayType'], length: number
   }
 }
 
-// LazPerf instance for COPC decompression
-let lazPerfInstance: LazPerf | null = null;
-
-async function getLazPerf(): Promise<LazPerf> {
-  if (!lazPerfInstance) {
-    lazPerfInstance = await createLazPerf({
-      locateFile: (path: string) => {
-        // Load WASM from CDN for reliable loading in all environments
-        if (path.endsWith('.wasm')) {
-          return 'https://unpkg.com/laz-perf@0.0.7/lib/web/laz-perf.wasm';
-        }
-        return path;
-      },
-    });
-  }
-  return lazPerfInstance;
-}
-
 /**
  * Extracts the PROJCS section from a WKT string (handles COMPD_CS)
  */
@@ -218,6 +234,14 @@ const DEFAULT_OPTIONS: Required<StreamingLoaderOptions> = {
   minDetailZoom: 10,
   maxOctreeDepth: 20,
   maxSubtreesPerViewport: 60, // Not used by COPC, but required by interface
+  workerUrl: null,
+  workerCount: 0,
+  transformRequest: null,
+  maxRetries: 3,
+  retryDelayMs: 1000,
+  retryFailedOnView: false,
+  persistentCache: null,
+  screenSpaceErrorThreshold: 2,
 };
 
 /**
@@ -227,10 +251,11 @@ const DEFAULT_OPTIONS: Required<StreamingLoaderOptions> = {
  */
 export class CopcStreamingLoader {
   private _originalSource: StreamingSource;
-  private _source: string | Getter | null = null; // URL string or Getter for buffer
+  private _source: Getter | null = null; // Range getter for point data (URL or buffer)
+  private _hierarchySource: Getter | null = null; // Range getter for hierarchy pages
   private _copc: CopcType | null = null;
-  private _lazPerf: LazPerf | null = null;
   private _options: Required<StreamingLoaderOptions>;
+  private _cacheValidator: string | null = null; // ETag or Last-Modified of the file, validates cached nodes
 
   // Hierarchy cache - loaded on-demand per page
   private _hierarchyPages: Map<string, Hierarchy.Subtree> = new Map();
@@ -245,6 +270,7 @@ export class CopcStreamingLoader {
   private _colors: Uint8Array | null = null;
   private _intensities: Float32Array | null = null;
   private _classifications: Uint8Array | null = null;
+  private _nodeDepths: Uint8Array | null = null;
   private _extraAttributes: ExtraPointAttributes = {};
   private _coordinateOrigin: [number, number, number] = [0, 0, 0];
   private _bounds: PointCloudBounds | null = null;
@@ -254,10 +280,13 @@ export class CopcStreamingLoader {
   private _activeRequests: number = 0;
   private _totalLoadedPoints: number = 0;
   private _totalLoadedNodes: number = 0;
+  // Whether failed loads left gaps between the ranges of loaded nodes
+  private _hasBufferGaps: boolean = false;
   private _isInitialized: boolean = false;
 
   // Coordinate transformation
   private _transformer: ((coord: [number, number]) => [number, number]) | null = null;
+  private _projection: string | null = null; // proj4 source definition passed to the decoder
   private _verticalUnitFactor: number = 1.0;
   private _needsTransform: boolean = false;
 
@@ -279,6 +308,41 @@ export class CopcStreamingLoader {
   private _updateBatchTimeout: ReturnType<typeof setTimeout> | null = null;
   private _onPointsLoaded?: (data: PointCloudData) => void;
 
+  // Aborts in-flight range requests on destroy
+  private _abortController: AbortController = new AbortController();
+
+  // Colors points with a colorizer set by setColorizer()
+  private _nodeColorizer: NodeColorizer = new NodeColorizer({
+    getPositions: () => this._positions,
+    getColors: () => {
+      if (!this._colors) {
+        this._colors = new Uint8Array(this._options.pointBudget * 4);
+      }
+      return this._colors;
+    },
+    getCoordinateOrigin: () => this._coordinateOrigin,
+    signal: this._abortController.signal,
+  });
+
+  // Decodes nodes off the main thread when a worker URL is configured
+  private _workerPool: WorkerPool | null = null;
+
+  // Retries of failed requests
+  private _nodeRetrier: NodeRetrier<CachedNode> = new NodeRetrier<CachedNode>({
+    getOptions: () => this._options,
+    nodeLabel: 'node',
+    retry: (node) => {
+      if (!this._lastViewport || !this._boundsIntersectsViewport(node.boundsWgs84, this._lastViewport)) return;
+      this.queueNode(node);
+      this.loadQueuedNodes();
+    },
+    onFailed: (node) => this._emit('nodefailed', node),
+  });
+  private _lastViewport: ViewportInfo | null = null;
+
+  // Time of the last viewport selection, nodes visible in it are not evicted
+  private _lastSelectionAt: number = 0;
+
   /**
    * Creates a new CopcStreamingLoader instance.
    *
@@ -288,6 +352,9 @@ export class CopcStreamingLoader {
   constructor(source: StreamingSource, options?: StreamingLoaderOptions) {
     this._originalSource = source;
     this._options = { ...DEFAULT_OPTIONS, ...options };
+    if (this._options.workerUrl) {
+      this._workerPool = new WorkerPool(this._options.workerUrl, this._options.workerCount);
+    }
   }
 
   /**
@@ -302,21 +369,24 @@ export class CopcStreamingLoader {
     hasRGB: boolean;
     spacing: number;
   }> {
-    // Initialize LazPerf for decompression
-    this._lazPerf = await getLazPerf();
-
     // Setup source - URL string or Getter for local files
     if (typeof this._originalSource === 'string') {
-      // URL source
-      this._source = this._originalSource;
+      // URL source - separate getters so requests can be transformed per kind
+      const url = this._originalSource;
+      const { signal } = this._abortController;
+      const { transformRequest } = this._options;
+      this._source = createUrlGetter(url, 'data', signal, transformRequest);
+      this._hierarchySource = createUrlGetter(url, 'hierarchy', signal, transformRequest);
       try {
-        this._copc = await Copc.create(this._source);
+        this._copc = await Copc.create(createUrlGetter(url, 'metadata', signal, transformRequest, (response) => {
+          this._cacheValidator = getResponseValidator(response);
+        }));
       } catch (error) {
         // Check if this is likely a CORS error
         if (error instanceof TypeError && error.message === 'Failed to fetch') {
           throw new Error(
             `Failed to fetch from URL. This is likely a CORS (Cross-Origin Resource Sharing) error. ` +
-            `The server at "${new URL(this._source).hostname}" doesn't allow requests from this origin. ` +
+            `The server at "${new URL(this._originalSource).hostname}" doesn't allow requests from this origin. ` +
             `Solutions: (1) Download the file locally and load it as a file, ` +
             `(2) Use a CORS proxy, or (3) Host the file on a CORS-enabled server.`
           );
@@ -327,10 +397,12 @@ export class CopcStreamingLoader {
       // File source - read into buffer first
       const buffer = await this._originalSource.arrayBuffer();
       this._source = createBufferGetter(buffer);
+      this._hierarchySource = this._source;
       this._copc = await Copc.create(this._source);
     } else {
       // ArrayBuffer source
       this._source = createBufferGetter(this._originalSource);
+      this._hierarchySource = this._source;
       this._copc = await Copc.create(this._source);
     }
 
@@ -354,6 +426,7 @@ export class CopcStreamingLoader {
         this._transformer = (coord: [number, number]) =>
           projConverter.forward(coord) as [number, number];
         this._needsTransform = true;
+        this._projection = wktToUse;
         this._verticalUnitFactor = getVerticalUnitConversionFactor(this._copc.wkt);
       } catch (e) {
         console.warn('Failed to setup coordinate transformation:', e);
@@ -381,6 +454,7 @@ export class CopcStreamingLoader {
           this._transformer = (coord: [number, number]) =>
             projConverter.forward(coord) as [number, number];
           this._needsTransform = true;
+          this._projection = detectedEPSG;
         } catch (e) {
           console.warn(`Failed to setup coordinate transformation from ${detectedEPSG}:`, e);
         }
@@ -430,7 +504,7 @@ export class CopcStreamingLoader {
     return {
       bounds: this._bounds,
       totalPoints: this._totalPointsInFile,
-      hasRGB: this._hasColor,
+      hasRGB: this._hasColor || this._nodeColorizer.isActive(),
       spacing: this._spacing,
     };
   }
@@ -443,6 +517,7 @@ export class CopcStreamingLoader {
     this._positions = new Float32Array(budget * 3);
     this._intensities = new Float32Array(budget);
     this._classifications = new Uint8Array(budget);
+    this._nodeDepths = new Uint8Array(budget);
     if (this._hasColor) {
       this._colors = new Uint8Array(budget * 4);
     }
@@ -563,6 +638,26 @@ export class CopcStreamingLoader {
     );
   }
 
+  /**
+   * Checks whether a node is needed for the viewport by screen-space error: it must be
+   * in the visible map area and refine a parent whose points are further apart on screen
+   * than the error threshold.
+   *
+   * @param node - Node to check
+   * @param camera - Camera of the viewport
+   * @returns True if the node should be loaded
+   */
+  private _isNodeNeededForCamera(node: CachedNode, camera: ViewportCamera): boolean {
+    const depth = node.keyArray[0];
+    if (depth > this._options.maxOctreeDepth) return false;
+    if (!boundsIntersectsFootprint(node.boundsWgs84, camera.footprint)) return false;
+    if (depth === 0) return true;
+
+    // The parent's points are twice as far apart as the node's
+    const parentError = 2 * computeScreenSpaceError(node.boundsWgs84, (this._octreeCube[3] - this._octreeCube[0]) / this._spacing, camera);
+    return parentError > this._options.screenSpaceErrorThreshold;
+  }
+
   /**
    * Calculates node priority based on distance from viewport center.
    * Lower values = higher priority (closer to center).
@@ -600,13 +695,31 @@ export class CopcStreamingLoader {
     }
   }
 
+  /**
+   * Loads a hierarchy page, retrying failed requests with exponential backoff.
+   *
+   * @param page - Hierarchy page to load
+   * @returns Nodes and sub-pages of the page
+   */
+  private async _loadHierarchyPage(page: Hierarchy.Page): Promise<Hierarchy.Subtree> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await Hierarchy.load(this._hierarchySource!, page);
+      } catch (error) {
+        if (attempt > this._options.maxRetries || this._abortController.signal.aborted) throw error;
+        // Aborted when the loader is destroyed
+        await wait(getRetryDelay(attempt, this._options.retryDelayMs), this._abortController.signal);
+      }
+    }
+  }
+
   /**
    * Recursively loads hierarchy pages.
    *
    * @param page - Hierarchy page to load
    */
   private async _loadHierarchyRecursive(page: Hierarchy.Page): Promise<void> {
-    const subtree = await Hierarchy.load(this._source!, page);
+    const subtree = await this._loadHierarchyPage(page);
 
     // Store all nodes from this page
     for (const [key, node] of Object.entries(subtree.nodes)) {
@@ -657,19 +770,25 @@ export class CopcStreamingLoader {
 
     const nodesToLoad: CachedNode[] = [];
     const targetDepth = viewport.targetDepth;
+    const camera = this._options.screenSpaceErrorThreshold > 0 ? viewport.camera : undefined;
+    const now = Date.now();
+    this._lastViewport = viewport;
+    this._lastSelectionAt = now;
 
-    // Load ALL nodes that intersect viewport, from depth 0 up to targetDepth + 1
+    // Load ALL nodes that intersect viewport, from depth 0 up to the needed detail
+    // (targetDepth + 1, or by screen-space error when the viewport has a camera)
     // This ensures parent nodes provide coverage where child nodes don't exist
     for (const [, node] of this._nodeCache) {
       const depth = node.keyArray[0];
 
-      // Skip nodes deeper than we need
-      if (depth > targetDepth + 1) continue;
+      // Skip nodes deeper than we need and nodes outside the viewport
+      const inView = camera
+        ? this._isNodeNeededForCamera(node, camera)
+        : depth <= targetDepth + 1 && this._boundsIntersectsViewport(node.boundsWgs84, viewport);
+      if (inView) node.lastVisibleAt = now;
 
-      // Check viewport intersection
-      if (!this._boundsIntersectsViewport(node.boundsWgs84, viewport)) {
-        continue;
-      }
+      // Skip failed nodes until they can be retried
+      if (!this._nodeRetrier.canRetry(node, inView, now) || !inView) continue;
 
       // Add to load list if not already loaded/loading
       if (node.state !== 'loaded' && node.state !== 'loading') {
@@ -711,15 +830,21 @@ export class CopcStreamingLoader {
   async loadQueuedNodes(): Promise<void> {
     while (
       this._loadingQueue.length > 0 &&
-      this._activeRequests < this._options.maxConcurrentRequests &&
-      this._totalLoadedPoints < this._options.pointBudget
+      this._activeRequests < this._options.maxConcurrentRequests
     ) {
       const node = this._loadingQueue.shift()!;
 
       // Check if loading this node would exceed budget
       if (this._totalLoadedPoints + node.pointCount > this._options.pointBudget) {
-        this._emit('budgetreached', this._getProgressEvent());
-        break;
+        // Evict nodes that are no longer visible once the loads in progress have finished
+        if (this._activeRequests > 0) {
+          this._loadingQueue.unshift(node);
+          break;
+        }
+        if (!this._evictNodes(node.pointCount)) {
+          this._emit('budgetreached', this._getProgressEvent());
+          break;
+        }
       }
 
       // Start loading node (don't await, let multiple load in parallel)
@@ -751,31 +876,41 @@ export class CopcStreamingLoader {
         pointDataLength: node.pointDataLength,
       };
 
-      const view = await Copc.loadPointDataView(
-        this._source!,
-        this._copc!,
-        hierarchyNode,
-        { lazPerf: this._lazPerf! }
-      );
+      const buffer = await this._loadNodeBuffer(node.key, hierarchyNode);
+      const decoded = await this._decode({
+        type: 'copc-chunk',
+        buffer,
+        header: this._copc!.header,
+        eb: this._copc!.eb,
+        pointCount: node.pointCount,
+        hasColor: this._hasColor,
+        dimensions: this._dimensionsDetected ? [...this._availableDimensions] : undefined,
+        projection: this._needsTransform ? this._projection : null,
+        verticalUnitFactor: this._verticalUnitFactor,
+        coordinateOrigin: this._coordinateOrigin,
+        clampCoordinates: true,
+      });
+
+      // Buffers are released when the loader is destroyed during decoding
+      if (!this._positions) return;
 
       // Detect dimensions on first node
       if (!this._dimensionsDetected) {
-        const allDimensions = Object.keys(view.dimensions || {});
-        for (const dimName of allDimensions) {
-          if (!CORE_DIMENSIONS.has(dimName)) {
-            this._availableDimensions.add(dimName);
-            const config = DIMENSION_CONFIGS[dimName] || { arrayType: 'float32' };
-            this._extraAttributes[dimName] = createAttributeArray(
-              config.arrayType,
-              this._options.pointBudget
-            );
-          }
+        for (const dimName of decoded.dimensions) {
+          this._availableDimensions.add(dimName);
+          const config = DIMENSION_CONFIGS[dimName] || { arrayType: 'float32' };
+          this._extraAttributes[dimName] = createAttributeArray(
+            config.arrayType,
+            this._options.pointBudget
+          );
         }
         this._dimensionsDetected = true;
       }
 
-      // Extract point data into buffers (using pre-reserved startIndex)
-      await this._extractPointData(view, node, startIndex);
+      // Copy decoded points into buffers (using pre-reserved startIndex)
+      this._storeDecodedPoints(decoded, startIndex);
+      this._nodeDepths!.fill(node.keyArray[0], startIndex, startIndex + node.pointCount);
+      await this._nodeColorizer.colorizeNode(node);
 
       node.state = 'loaded';
       this._totalLoadedNodes++;
@@ -786,94 +921,132 @@ export class CopcStreamingLoader {
       // Schedule batched layer update
       this._scheduleLayerUpdate();
     } catch (error) {
-      node.state = 'error';
-      node.error = error instanceof Error ? error.message : String(error);
-      console.warn(`Failed to load node ${node.key}:`, error);
+      // Requests aborted by destroy() are not failures
+      if (this._abortController.signal.aborted) return;
+
+      // Release the reserved buffer space on failure. Only the last reservation can be
+      // released: nodes reserved after this one keep their ranges, and the gap is closed
+      // by compaction once no nodes are loading
+      if (startIndex + node.pointCount === this._totalLoadedPoints) {
+        this._totalLoadedPoints = startIndex;
+      } else {
+        this._hasBufferGaps = true;
+      }
+      node.bufferStartIndex = undefined;
+
+      this._nodeRetrier.handleFailure(node, error);
       this._emit('error', error as Error);
     } finally {
       this._activeRequests--;
+      if (this._activeRequests === 0 && this._hasBufferGaps) {
+        this._compactBuffers();
+        this._scheduleLayerUpdate();
+      }
       // Continue loading more nodes
       this.loadQueuedNodes();
     }
   }
 
   /**
-   * Extracts point data from a view into the buffers.
+   * Gets the nodes that failed to load after all retries.
    *
-   * @param view - Point data view from copc.js
-   * @param node - Node being loaded
-   * @param startIndex - Starting index in buffers
+   * @returns Failed nodes
    */
-  private async _extractPointData(
-    view: Awaited<ReturnType<typeof Copc.loadPointDataView>>,
-    node: CachedNode,
-    startIndex: number
-  ): Promise<void> {
-    const xGetter = view.getter('X');
-    const yGetter = view.getter('Y');
-    const zGetter = view.getter('Z');
-    const intensityGetter = view.getter('Intensity');
-    const classGetter = view.getter('Classification');
-    const redGetter = this._hasColor ? view.getter('Red') : null;
-    const greenGetter = this._hasColor ? view.getter('Green') : null;
-    const blueGetter = this._hasColor ? view.getter('Blue') : null;
-
-    // Build getters for extra dimensions
-    const extraGetters: Map<string, (i: number) => number> = new Map();
-    for (const dimName of this._availableDimensions) {
-      try {
-        const getter = view.getter(dimName);
-        if (getter) {
-          extraGetters.set(dimName, getter);
-        }
-      } catch {
-        // Dimension not available in this node
-      }
+  getFailedNodes(): FailedNodeInfo[] {
+    return this._nodeRetrier.getFailedNodes(this._nodeCache.values());
+  }
+
+  /**
+   * Gets a node's compressed point data from the persistent cache,
+   * or downloads it and adds it to the cache.
+   *
+   * @param key - Node key
+   * @param hierarchyNode - Hierarchy entry of the node
+   * @returns Compressed point data
+   */
+  private async _loadNodeBuffer(key: string, hierarchyNode: Hierarchy.Node): Promise<Uint8Array> {
+    const cache = this._options.persistentCache;
+    if (!cache || typeof this._originalSource !== 'string') {
+      return Copc.loadCompressedPointDataBuffer(this._source!, hierarchyNode);
     }
 
-    for (let i = 0; i < node.pointCount; i++) {
-      const pointIndex = startIndex + i;
-
-      const x = xGetter(i);
-      const y = yGetter(i);
-      const z = zGetter(i);
-
-      // Transform coordinates to WGS84 if needed
-      if (this._needsTransform && this._transformer) {
-        const [rawLng, rawLat] = this._transformer([x, y]);
-        // Clamp to valid WGS84 range (silently - no logging for individual points to avoid console spam)
-        const [lng, lat] = clampLatLng(rawLng, rawLat, '');
-        this._positions![pointIndex * 3] = lng - this._coordinateOrigin[0];
-        this._positions![pointIndex * 3 + 1] = lat - this._coordinateOrigin[1];
-        this._positions![pointIndex * 3 + 2] = z * this._verticalUnitFactor;
-      } else {
-        this._positions![pointIndex * 3] = x - this._coordinateOrigin[0];
-        this._positions![pointIndex * 3 + 1] = y - this._coordinateOrigin[1];
-        this._positions![pointIndex * 3 + 2] = z;
-      }
+    const url = this._originalSource;
+    const cached = await cache.get(url, key, this._cacheValidator);
+    if (cached) return new Uint8Array(cached);
 
-      // Intensity (normalize to 0-1)
-      this._intensities![pointIndex] = intensityGetter(i) / 65535;
+    const buffer = await Copc.loadCompressedPointDataBuffer(this._source!, hierarchyNode);
+    // Written in the background; a failed write only means the node is downloaded again next time
+    cache.put(url, key, this._cacheValidator, buffer.slice().buffer);
+    return buffer;
+  }
 
-      // Classification
-      this._classifications![pointIndex] = classGetter(i);
+  /**
+   * Decodes a node on the worker pool, or on the main thread without one.
+   *
+   * @param task - Decode task
+   * @returns Decoded points
+   */
+  private _decode(task: PointDecodeTask): Promise<DecodedPoints> {
+    return this._workerPool ? this._workerPool.decode(task) : decodePoints(task);
+  }
 
-      // Color (if available)
-      if (this._colors && redGetter && greenGetter && blueGetter) {
-        this._colors[pointIndex * 4] = redGetter(i) >> 8;
-        this._colors[pointIndex * 4 + 1] = greenGetter(i) >> 8;
-        this._colors[pointIndex * 4 + 2] = blueGetter(i) >> 8;
-        this._colors[pointIndex * 4 + 3] = 255;
-      }
+  /**
+   * Copies decoded points into the buffers.
+   *
+   * @param decoded - Decoded points (positions are offsets from the coordinate origin)
+   * @param startIndex - Starting index in buffers
+   */
+  private _storeDecodedPoints(decoded: DecodedPoints, startIndex: number): void {
+    this._positions!.set(decoded.positions, startIndex * 3);
+    this._intensities!.set(decoded.intensities, startIndex);
+    this._classifications!.set(decoded.classifications, startIndex);
+    if (this._colors && decoded.colors) {
+      this._colors.set(decoded.colors, startIndex * 4);
+    }
 
-      // Extra attributes
-      for (const [dimName, getter] of extraGetters) {
-        const arr = this._extraAttributes[dimName];
-        if (arr) {
-          arr[pointIndex] = getter(i);
-        }
-      }
+    for (const [dimName, values] of Object.entries(decoded.extraAttributes)) {
+      this._extraAttributes[dimName]?.set(values, startIndex);
+    }
+  }
+
+  /**
+   * Evicts the least recently visible loaded nodes to make room for new points and
+   * compacts the point buffers. Nodes visible in the last selected viewport are kept.
+   * Must not run while nodes are loading, as they write into their reserved buffer ranges.
+   *
+   * @param requiredPoints - Number of points to make room for
+   * @returns True if there is room for the points
+   */
+  private _evictNodes(requiredPoints: number): boolean {
+    const pointsToFree = this._totalLoadedPoints + requiredPoints - this._options.pointBudget;
+    const evicted = selectNodesToEvict(this._nodeCache.values(), pointsToFree, this._lastSelectionAt);
+    if (!evicted) return false;
+
+    for (const node of evicted) {
+      node.state = 'pending';
+      node.bufferStartIndex = undefined;
     }
+    this._compactBuffers();
+    this._scheduleLayerUpdate();
+    return true;
+  }
+
+  /**
+   * Moves the points of loaded nodes to the start of the buffers, closing the gaps left by
+   * evicted nodes and failed loads.
+   */
+  private _compactBuffers(): void {
+    this._hasBufferGaps = false;
+    const { pointCount, nodeCount } = compactNodeBuffers(this._nodeCache.values(), {
+      positions: this._positions,
+      colors: this._colors,
+      intensities: this._intensities,
+      classifications: this._classifications,
+      nodeDepths: this._nodeDepths,
+      extraAttributes: this._extraAttributes,
+    });
+    this._totalLoadedPoints = pointCount;
+    this._totalLoadedNodes = nodeCount;
   }
 
   /**
@@ -901,6 +1074,18 @@ export class CopcStreamingLoader {
     }
   }
 
+  /**
+   * Sets the colorizer computing the point colors (e.g., from a raster), replacing the
+   * colors of the dataset. Loaded nodes are colorized again, new nodes as they load.
+   *
+   * @param colorizer - Point colorizer
+   * @returns Promise that resolves when the loaded nodes are colorized
+   */
+  async setColorizer(colorizer: PointColorizer): Promise<void> {
+    await this._nodeColorizer.setColorizer(colorizer, this._nodeCache.values());
+    this._scheduleLayerUpdate();
+  }
+
   /**
    * Sets the callback for when points are loaded.
    *
@@ -936,10 +1121,13 @@ export class CopcStreamingLoader {
           : undefined,
       pointCount,
       bounds: this._bounds!,
-      hasRGB: this._hasColor,
+      hasRGB: this._hasColor || this._nodeColorizer.isActive(),
       hasIntensity: true,
       hasClassification: true,
       wkt: this._copc?.wkt,
+      spacing: this._calculateNominalSpacing(this._copc!.header) || undefined,
+      rootSpacing: this._spacing * this._verticalUnitFactor,
+      nodeDepths: this._nodeDepths!.subarray(0, pointCount),
     };
   }
 
@@ -1118,11 +1306,19 @@ export class CopcStreamingLoader {
    * Destroys the streaming loader and cleans up resources.
    */
   destroy(): void {
+    // Abort in-flight requests and stop decoding
+    this._abortController.abort();
+    this._workerPool?.destroy();
+    this._workerPool = null;
+
     // Clear timeout
     if (this._updateBatchTimeout) {
       clearTimeout(this._updateBatchTimeout);
     }
 
+    // Cancel scheduled retries
+    this._nodeRetrier.destroy();
+
     // Clear all state
     this._loadingQueue = [];
     this._nodeCache.clear();
@@ -1135,6 +1331,7 @@ export class CopcStreamingLoader {
     this._colors = null;
     this._intensities = null;
     this._classifications = null;
+    this._nodeDepths = null;
     this._extraAttributes = {};
   }
 }
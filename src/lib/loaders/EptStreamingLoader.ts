@@ -1,13 +1,18 @@
-import { load } from '@loaders.gl/core';
-import { LASLoader } from '@loaders.gl/las';
 import proj4 from 'proj4';
+import { WorkerPool } from '../workers/WorkerPool';
+import { decodePoints } from '../workers/PointDecoder';
+import type { PointDecodeTask, DecodedPoints } from '../workers/types';
 import type {
   NodeKey,
   StreamingLoaderOptions,
   ViewportInfo,
+  ViewportCamera,
   StreamingProgressEvent,
   StreamingLoaderEvent,
   StreamingLoaderEventHandler,
+  FailedNodeInfo,
+  RetryState,
+  PointColorizer,
 } from './streaming-types';
 import type {
   EptMetadata,
@@ -16,8 +21,15 @@ import type {
   EptCachedNode,
   ParsedDimension,
 } from './ept-types';
-import type { PointCloudData, ExtraPointAttributes, AttributeArray } from './types';
+import type { PointCloudData, ExtraPointAttributes, AttributeArray, RequestKind } from './types';
 import type { PointCloudBounds } from '../core/types';
+import { fetchWithTransform } from '../utils/request';
+import { getRetryDelay } from '../utils/helpers';
+import { getResponseValidator } from '../cache/PersistentNodeCache';
+import { computeScreenSpaceError, boundsIntersectsFootprint } from '../utils/lod';
+import { NodeColorizer } from './NodeColorizer';
+import { NodeRetrier } from './NodeRetrier';
+import { compactNodeBuffers, selectNodesToEvict } from './NodeBuffers';
 
 /**
  * Configuration for attribute storage types
@@ -184,6 +196,14 @@ const DEFAULT_OPTIONS: Required<StreamingLoaderOptions> = {
   minDetailZoom: 10,
   maxOctreeDepth: 20,
   maxSubtreesPerViewport: 60,
+  workerUrl: null,
+  workerCount: 0,
+  transformRequest: null,
+  maxRetries: 3,
+  retryDelayMs: 1000,
+  retryFailedOnView: false,
+  persistentCache: null,
+  screenSpaceErrorThreshold: 2,
 };
 
 /**
@@ -199,11 +219,12 @@ export class EptStreamingLoader {
   private _baseUrl: string;
   private _options: Required<StreamingLoaderOptions>;
   private _metadata: EptMetadata | null = null;
+  private _cacheValidator: string | null = null; // ETag or Last-Modified of ept.json, validates cached nodes
 
   // Hierarchy cache
   private _hierarchyCache: Map<string, EptHierarchy> = new Map();
   private _hierarchyLoading: Set<string> = new Set();
-  private _hierarchyFailures: Map<string, number> = new Map();
+  private _hierarchyFailures: Map<string, RetryState> = new Map();
   private _subtreeRoots: Set<string> = new Set();
   private _rootHierarchyLoaded: boolean = false;
 
@@ -215,6 +236,7 @@ export class EptStreamingLoader {
   private _colors: Uint8Array | null = null;
   private _intensities: Float32Array | null = null;
   private _classifications: Uint8Array | null = null;
+  private _nodeDepths: Uint8Array | null = null;
   private _extraAttributes: ExtraPointAttributes = {};
   private _coordinateOrigin: [number, number, number] = [0, 0, 0];
   private _bounds: PointCloudBounds | null = null;
@@ -224,10 +246,13 @@ export class EptStreamingLoader {
   private _activeRequests: number = 0;
   private _totalLoadedPoints: number = 0;
   private _totalLoadedNodes: number = 0;
+  // Whether failed loads left gaps between the ranges of loaded nodes
+  private _hasBufferGaps: boolean = false;
   private _isInitialized: boolean = false;
 
   // Coordinate transformation
   private _transformer: ((coord: [number, number]) => [number, number]) | null = null;
+  private _projection: string | null = null; // proj4 source definition passed to the decoder
   private _verticalUnitFactor: number = 1.0;
   private _needsTransform: boolean = false;
 
@@ -249,8 +274,43 @@ export class EptStreamingLoader {
   private _pendingLayerUpdate: boolean = false;
   private _updateBatchTimeout: ReturnType<typeof setTimeout> | null = null;
   private _onPointsLoaded?: (data: PointCloudData) => void;
+
+  // Aborts in-flight requests on destroy
+  private _abortController: AbortController = new AbortController();
   private _isResetting: boolean = false;
 
+  // Colors points with a colorizer set by setColorizer()
+  private _nodeColorizer: NodeColorizer = new NodeColorizer({
+    getPositions: () => this._positions,
+    getColors: () => {
+      if (!this._colors) {
+        this._colors = new Uint8Array(this._options.pointBudget * 4);
+      }
+      return this._colors;
+    },
+    getCoordinateOrigin: () => this._coordinateOrigin,
+    signal: this._abortController.signal,
+  });
+
+  // Decodes LAZ nodes off the main thread when a worker URL is configured
+  private _workerPool: WorkerPool | null = null;
+
+  // Retries of failed requests
+  private _nodeRetrier: NodeRetrier<EptCachedNode> = new NodeRetrier<EptCachedNode>({
+    getOptions: () => this._options,
+    nodeLabel: 'EPT node',
+    retry: (node) => {
+      if (!this._lastViewport || !this._boundsIntersectsViewport(node.boundsWgs84, this._lastViewport)) return;
+      this.queueNode(node);
+      this.loadQueuedNodes();
+    },
+    onFailed: (node) => this._emit('nodefailed', node),
+  });
+  private _lastViewport: ViewportInfo | null = null;
+
+  // Time of the last viewport selection, nodes visible in it are not evicted
+  private _lastSelectionAt: number = 0;
+
   /**
    * Creates a new EptStreamingLoader instance.
    *
@@ -263,6 +323,9 @@ export class EptStreamingLoader {
       ? eptUrl.slice(0, -9)
       : eptUrl.replace(/\/$/, '');
     this._options = { ...DEFAULT_OPTIONS, ...options };
+    if (this._options.workerUrl) {
+      this._workerPool = new WorkerPool(this._options.workerUrl, this._options.workerCount);
+    }
   }
 
   /**
@@ -279,10 +342,11 @@ export class EptStreamingLoader {
   }> {
     // Fetch and parse ept.json
     try {
-      const response = await fetch(`${this._baseUrl}/ept.json`);
+      const response = await this._fetch(`${this._baseUrl}/ept.json`, 'metadata');
       if (!response.ok) {
         throw new Error(`Failed to fetch ept.json: ${response.status} ${response.statusText}`);
       }
+      this._cacheValidator = getResponseValidator(response);
       this._metadata = await response.json() as EptMetadata;
     } catch (error) {
       if (error instanceof TypeError && error.message === 'Failed to fetch') {
@@ -313,6 +377,7 @@ export class EptStreamingLoader {
         this._transformer = (coord: [number, number]) =>
           projConverter.forward(coord) as [number, number];
         this._needsTransform = true;
+        this._projection = wktToUse;
         this._verticalUnitFactor = getVerticalUnitConversionFactor(this._metadata.srs.wkt);
       } catch (e) {
         console.warn('Failed to setup EPT coordinate transformation:', e);
@@ -337,6 +402,7 @@ export class EptStreamingLoader {
         this._bounds = { minX, minY, minZ, maxX, maxY, maxZ };
         this._needsTransform = false;
         this._transformer = null;
+        this._projection = null;
       } else {
         // Clamp transformed coordinates to valid WGS84 range
         const [minLng, minLat] = clampLatLng(rawMinLng, rawMinLat, 'header bounds min');
@@ -374,7 +440,7 @@ export class EptStreamingLoader {
     return {
       bounds: this._bounds,
       totalPoints: this._totalPointsInFile,
-      hasRGB: this._hasColor,
+      hasRGB: this._hasColor || this._nodeColorizer.isActive(),
       spacing,
     };
   }
@@ -462,6 +528,7 @@ export class EptStreamingLoader {
     this._positions = new Float32Array(budget * 3);
     this._intensities = new Float32Array(budget);
     this._classifications = new Uint8Array(budget);
+    this._nodeDepths = new Uint8Array(budget);
     if (this._hasColor) {
       this._colors = new Uint8Array(budget * 4);
     }
@@ -577,6 +644,26 @@ export class EptStreamingLoader {
     );
   }
 
+  /**
+   * Checks whether a node is needed for the viewport by screen-space error: it must be
+   * in the visible map area and refine a parent whose points are further apart on screen
+   * than the error threshold.
+   *
+   * @param node - Node to check
+   * @param camera - Camera of the viewport
+   * @returns True if the node should be loaded
+   */
+  private _isNodeNeededForCamera(node: EptCachedNode, camera: ViewportCamera): boolean {
+    const depth = node.keyArray[0];
+    if (depth > this._options.maxOctreeDepth) return false;
+    if (!boundsIntersectsFootprint(node.boundsWgs84, camera.footprint)) return false;
+    if (depth === 0) return true;
+
+    // The parent's points are twice as far apart as the node's
+    const parentError = 2 * computeScreenSpaceError(node.boundsWgs84, this._metadata!.span, camera);
+    return parentError > this._options.screenSpaceErrorThreshold;
+  }
+
   /**
    * Calculates node priority based on distance from viewport center.
    *
@@ -608,9 +695,9 @@ export class EptStreamingLoader {
     const url = `${this._baseUrl}/ept-hierarchy/${key}.json`;
     this._hierarchyLoading.add(key);
     try {
-      const response = await fetch(url);
+      const response = await this._fetch(url, 'hierarchy');
       if (!response.ok) {
-        this._hierarchyFailures.set(key, Date.now());
+        this._recordHierarchyFailure(key);
         console.warn(`Failed to load hierarchy ${key}: ${response.status}`);
         return;
       }
@@ -659,13 +746,39 @@ export class EptStreamingLoader {
         }
       }
     } catch (error) {
-      this._hierarchyFailures.set(key, Date.now());
+      if (this._abortController.signal.aborted) return;
+      this._recordHierarchyFailure(key);
       console.warn(`Error loading hierarchy ${key}:`, error);
     } finally {
       this._hierarchyLoading.delete(key);
     }
   }
 
+  /**
+   * Records a failed hierarchy request for retrying with backoff.
+   *
+   * @param key - Hierarchy key
+   */
+  private _recordHierarchyFailure(key: string): void {
+    const attempts = (this._hierarchyFailures.get(key)?.attempts ?? 0) + 1;
+    this._hierarchyFailures.set(key, { attempts, lastFailedAt: Date.now() });
+  }
+
+  /**
+   * Checks whether a hierarchy can be requested: it has not failed, or its backoff
+   * delay has passed and it has retries left.
+   *
+   * @param key - Hierarchy key
+   * @param now - Current timestamp
+   * @returns True if the hierarchy can be requested
+   */
+  private _canRetryHierarchy(key: string, now: number): boolean {
+    const failure = this._hierarchyFailures.get(key);
+    if (!failure) return true;
+    if (failure.attempts > this._options.maxRetries) return false;
+    return now - failure.lastFailedAt >= getRetryDelay(failure.attempts, this._options.retryDelayMs);
+  }
+
   /**
    * Ensures root hierarchy is loaded.
    * Subtree hierarchies are loaded on-demand in selectNodesForViewport.
@@ -694,6 +807,7 @@ export class EptStreamingLoader {
     await this._ensureHierarchyLoaded();
 
     const targetDepth = viewport.targetDepth;
+    const camera = this._options.screenSpaceErrorThreshold > 0 ? viewport.camera : undefined;
 
     // Load subtree hierarchies in multiple passes to discover nested subtrees
     // Each pass may reveal new subtrees that need to be loaded
@@ -701,7 +815,8 @@ export class EptStreamingLoader {
     const loadedSubtrees = new Set<string>();
     const maxPasses = 3;
     const now = Date.now();
-    const hierarchyRetryCooldownMs = 5000;
+    this._lastViewport = viewport;
+    this._lastSelectionAt = now;
 
     for (let pass = 0; pass < maxPasses; pass++) {
       // Find subtrees that intersect viewport and haven't been loaded yet
@@ -709,17 +824,18 @@ export class EptStreamingLoader {
       for (const [, node] of this._nodeCache) {
         const depth = node.keyArray[0];
 
-        // Only check subtrees within our target depth range
-        if (depth > targetDepth + 3) continue;
+        // Only check subtrees within our target depth range (or needed by screen-space error)
+        const inView = camera
+          ? this._isNodeNeededForCamera(node, camera)
+          : depth <= targetDepth + 3 && this._boundsIntersectsViewport(node.boundsWgs84, viewport);
+        if (!inView) continue;
 
-        // Check if this subtree intersects viewport and hasn't been processed
-        const lastFailure = this._hierarchyFailures.get(node.key);
+        // Check if this subtree hasn't been processed
         if (node.state === 'subtree' &&
             !this._hierarchyCache.has(node.key) &&
             !this._hierarchyLoading.has(node.key) &&
             !loadedSubtrees.has(node.key) &&
-            (!lastFailure || (now - lastFailure) >= hierarchyRetryCooldownMs) &&
-            this._boundsIntersectsViewport(node.boundsWgs84, viewport)) {
+            this._canRetryHierarchy(node.key, now)) {
           const priority = this._calculateNodePriority(node.boundsWgs84, viewport);
           subtreeCandidates.push({ key: node.key, priority });
         }
@@ -743,7 +859,6 @@ export class EptStreamingLoader {
 
     // Second pass: collect loadable nodes
     const nodesToLoad: EptCachedNode[] = [];
-    const retryCooldownMs = 5000; // Wait 5 seconds before retrying failed nodes
 
     for (const [, node] of this._nodeCache) {
       const depth = node.keyArray[0];
@@ -751,22 +866,15 @@ export class EptStreamingLoader {
       // Skip subtree placeholders (they have no point data)
       if (node.state === 'subtree') continue;
 
-      // Skip permanently failed nodes
-      if (node.state === 'error') continue;
-
-      // Skip nodes that recently failed (cooldown period)
-      if (node.lastFailedAt && (now - node.lastFailedAt) < retryCooldownMs) {
-        continue;
-      }
-
-      // Skip nodes deeper than we need
+      // Skip nodes deeper than we need and nodes outside the viewport
       // Use +2 to allow loading slightly more detailed nodes for better coverage
-      if (depth > targetDepth + 2) continue;
+      const inView = camera
+        ? this._isNodeNeededForCamera(node, camera)
+        : depth <= targetDepth + 2 && this._boundsIntersectsViewport(node.boundsWgs84, viewport);
+      if (inView) node.lastVisibleAt = now;
 
-      // Check viewport intersection
-      if (!this._boundsIntersectsViewport(node.boundsWgs84, viewport)) {
-        continue;
-      }
+      // Skip failed nodes until they can be retried
+      if (!this._nodeRetrier.canRetry(node, inView, now) || !inView) continue;
 
       // Add to load list if not already loaded/loading
       if (node.state !== 'loaded' && node.state !== 'loading') {
@@ -801,14 +909,20 @@ export class EptStreamingLoader {
   async loadQueuedNodes(): Promise<void> {
     while (
       this._loadingQueue.length > 0 &&
-      this._activeRequests < this._options.maxConcurrentRequests &&
-      this._totalLoadedPoints < this._options.pointBudget
+      this._activeRequests < this._options.maxConcurrentRequests
     ) {
       const node = this._loadingQueue.shift()!;
 
       if (this._totalLoadedPoints + node.pointCount > this._options.pointBudget) {
-        this._emit('budgetreached', this._getProgressEvent());
-        break;
+        // Evict nodes that are no longer visible once the loads in progress have finished
+        if (this._activeRequests > 0) {
+          this._loadingQueue.unshift(node);
+          break;
+        }
+        if (!this._evictNodes(node.pointCount)) {
+          this._emit('budgetreached', this._getProgressEvent());
+          break;
+        }
       }
 
       this._loadNode(node);
@@ -847,12 +961,14 @@ export class EptStreamingLoader {
       const dataUrl = this._getDataUrl(node.key);
 
       if (this._metadata?.dataType === 'laszip') {
-        // Use @loaders.gl/las to load and decompress LAZ files
+        // Decompress LAZ files with @loaders.gl/las (on the worker pool if configured)
         await this._loadLazNode(dataUrl, node, startIndex);
       } else {
         // Binary format - load and parse directly
         await this._loadBinaryNode(dataUrl, node, startIndex);
       }
+      this._nodeDepths?.fill(node.keyArray[0], startIndex, startIndex + node.pointCount);
+      await this._nodeColorizer.colorizeNode(node);
 
       node.state = 'loaded';
       this._totalLoadedNodes++;
@@ -862,78 +978,60 @@ export class EptStreamingLoader {
 
       this._scheduleLayerUpdate();
     } catch (error) {
-      // Release the reserved buffer space on failure
-      this._totalLoadedPoints -= reservedPoints;
-      node.bufferStartIndex = undefined;
-
-      // Track retry count and set cooldown timestamp
-      node.retryCount = (node.retryCount || 0) + 1;
-      node.lastFailedAt = Date.now();
-      const maxRetries = 3;
-
-      if (node.retryCount < maxRetries) {
-        // Mark as pending to allow retry after cooldown
-        node.state = 'pending';
-        node.error = error instanceof Error ? error.message : String(error);
-
-        // Only log first failure
-        if (node.retryCount === 1) {
-          console.warn(`Failed to load EPT node ${node.key} (will retry): ${node.error}`);
-        }
+      // Requests aborted by destroy() are not failures
+      if (this._abortController.signal.aborted) return;
+
+      // Release the reserved buffer space on failure. Only the last reservation can be
+      // released: nodes reserved after this one keep their ranges, and the gap is closed
+      // by compaction once no nodes are loading
+      if (startIndex + reservedPoints === this._totalLoadedPoints) {
+        this._totalLoadedPoints = startIndex;
       } else {
-        // Max retries reached, mark as permanently failed
-        node.state = 'error';
-        node.error = error instanceof Error ? error.message : String(error);
-        console.warn(`Failed to load EPT node ${node.key} after ${maxRetries} attempts: ${node.error}`);
+        this._hasBufferGaps = true;
       }
+      node.bufferStartIndex = undefined;
+
+      this._nodeRetrier.handleFailure(node, error);
     } finally {
       this._activeRequests--;
+      if (this._activeRequests === 0 && this._hasBufferGaps) {
+        this._compactBuffers();
+        this._scheduleLayerUpdate();
+      }
       this.loadQueuedNodes();
     }
   }
 
   /**
-   * Loads a LAZ node using @loaders.gl/las.
+   * Loads a LAZ node, decoding it with @loaders.gl/las.
    *
    * @param url - URL to the LAZ file
-   * @param _node - Node being loaded (unused, point count from file)
+   * @param node - Node being loaded (point count from file)
    * @param startIndex - Starting index in buffers
    */
   private async _loadLazNode(
     url: string,
-    _node: EptCachedNode,
+    node: EptCachedNode,
     startIndex: number
   ): Promise<void> {
-    // Load LAZ file using loaders.gl
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const data = await load(url, LASLoader, {
-      las: {
-        shape: 'mesh',
-        fp64: false,
-      },
-      worker: false,
-    }) as any;
-
-    // Get point data from the loaded result (loaders.gl mesh format)
-    const positionAttr = data.attributes?.POSITION || data.attributes?.positions;
-    const positions = positionAttr?.value as Float64Array | Float32Array | undefined;
-    const colorAttr = data.attributes?.COLOR_0 || data.attributes?.colors;
-    const colors = colorAttr?.value as Uint8Array | undefined;
-
-    // loaderData contains additional attributes
-    const loaderData = data.loaderData || {};
-
-    if (!positions) {
-      throw new Error('No position data in LAZ file');
-    }
+    const buffer = new Uint8Array(await this._fetchNodeData(url, node.key));
 
-    const actualPointCount = positions.length / 3;
+    const decoded = await this._decode({
+      type: 'laz-file',
+      buffer,
+      projection: this._needsTransform ? this._projection : null,
+      verticalUnitFactor: this._verticalUnitFactor,
+      coordinateOrigin: this._coordinateOrigin,
+      clampCoordinates: true,
+    });
+
+    // Buffers are released when the loader is destroyed during decoding
+    if (!this._positions) return;
 
     // Detect extra dimensions on first node
     if (!this._dimensionsDetected) {
-      const availableDims = Object.keys(data.attributes || {});
-      for (const dimName of availableDims) {
-        if (!CORE_DIMENSIONS.has(dimName) && dimName !== 'POSITION' && dimName !== 'COLOR_0' && dimName !== 'positions' && dimName !== 'colors') {
+      for (const dimName of decoded.dimensions) {
+        if (!CORE_DIMENSIONS.has(dimName)) {
           this._availableDimensions.add(dimName);
           const config = DIMENSION_CONFIGS[dimName] || { arrayType: 'float32' };
           this._extraAttributes[dimName] = createAttributeArray(
@@ -945,56 +1043,57 @@ export class EptStreamingLoader {
       this._dimensionsDetected = true;
     }
 
-    // Get intensity and classification arrays if available
-    const intensityAttr = data.attributes?.intensity || loaderData.intensity;
-    const intensity = intensityAttr?.value as Uint16Array | undefined;
-    const classificationAttr = data.attributes?.classification || loaderData.classification;
-    const classification = classificationAttr?.value as Uint8Array | undefined;
-
-    // Copy point data to our buffers
-    for (let i = 0; i < actualPointCount; i++) {
-      const pointIndex = startIndex + i;
-      if (pointIndex >= this._options.pointBudget) break;
+    // Copy decoded points to our buffers, stopping at the point budget
+    const count = Math.min(decoded.pointCount, this._options.pointBudget - startIndex);
+    if (count <= 0) return;
 
-      const x = positions[i * 3];
-      const y = positions[i * 3 + 1];
-      const z = positions[i * 3 + 2];
-
-      // Transform coordinates to WGS84 if needed
-      if (this._needsTransform && this._transformer) {
-        const [rawLng, rawLat] = this._transformer([x, y]);
-        // Clamp to valid WGS84 range (silently - no logging for individual points to avoid console spam)
-        const [lng, lat] = clampLatLng(rawLng, rawLat, '');
-        this._positions![pointIndex * 3] = lng - this._coordinateOrigin[0];
-        this._positions![pointIndex * 3 + 1] = lat - this._coordinateOrigin[1];
-        this._positions![pointIndex * 3 + 2] = z * this._verticalUnitFactor;
-      } else {
-        this._positions![pointIndex * 3] = x - this._coordinateOrigin[0];
-        this._positions![pointIndex * 3 + 1] = y - this._coordinateOrigin[1];
-        this._positions![pointIndex * 3 + 2] = z;
-      }
+    this._positions.set(decoded.positions.subarray(0, count * 3), startIndex * 3);
+    this._intensities!.set(decoded.intensities.subarray(0, count), startIndex);
+    this._classifications!.set(decoded.classifications.subarray(0, count), startIndex);
+    if (this._colors && decoded.colors) {
+      this._colors.set(decoded.colors.subarray(0, count * 4), startIndex * 4);
+    }
+  }
 
-      // Intensity (normalize to 0-1)
-      if (intensity) {
-        this._intensities![pointIndex] = intensity[i] / 65535;
-      }
+  /**
+   * Gets the nodes that failed to load after all retries.
+   *
+   * @returns Failed nodes
+   */
+  getFailedNodes(): FailedNodeInfo[] {
+    return this._nodeRetrier.getFailedNodes(this._nodeCache.values());
+  }
 
-      // Classification
-      if (classification) {
-        this._classifications![pointIndex] = classification[i];
-      }
+  /**
+   * Gets a node's data file from the persistent cache, or downloads it and adds it to the cache.
+   *
+   * @param url - URL to the data file
+   * @param key - Node key
+   * @returns File contents
+   */
+  private async _fetchNodeData(url: string, key: string): Promise<ArrayBuffer> {
+    const cache = this._options.persistentCache;
+    const cached = await cache?.get(this._baseUrl, key, this._cacheValidator);
+    if (cached) return cached;
 
-      // Colors
-      if (this._colors && colors) {
-        // loaders.gl returns RGBA colors
-        const colorStride = colors.length / actualPointCount;
-        const colorOffset = i * colorStride;
-        this._colors[pointIndex * 4] = colors[colorOffset];
-        this._colors[pointIndex * 4 + 1] = colors[colorOffset + 1];
-        this._colors[pointIndex * 4 + 2] = colors[colorOffset + 2];
-        this._colors[pointIndex * 4 + 3] = 255;
-      }
+    const response = await this._fetch(url, 'data');
+    if (!response.ok) {
+      throw new Error(`Failed to fetch node data: ${response.status}`);
     }
+    const buffer = await response.arrayBuffer();
+    // Written in the background; a failed write only means the node is downloaded again next time
+    cache?.put(this._baseUrl, key, this._cacheValidator, buffer);
+    return buffer;
+  }
+
+  /**
+   * Decodes a node on the worker pool, or on the main thread without one.
+   *
+   * @param task - Decode task
+   * @returns Decoded points
+   */
+  private _decode(task: PointDecodeTask): Promise<DecodedPoints> {
+    return this._workerPool ? this._workerPool.decode(task) : decodePoints(task);
   }
 
   /**
@@ -1009,12 +1108,7 @@ export class EptStreamingLoader {
     node: EptCachedNode,
     startIndex: number
   ): Promise<void> {
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch binary data: ${response.status}`);
-    }
-
-    const buffer = await response.arrayBuffer();
+    const buffer = await this._fetchNodeData(url, node.key);
     const dataView = new DataView(buffer);
 
     // Find dimension getters
@@ -1118,6 +1212,46 @@ export class EptStreamingLoader {
     }
   }
 
+  /**
+   * Evicts the least recently visible loaded nodes to make room for new points and
+   * compacts the point buffers. Nodes visible in the last selected viewport are kept.
+   * Must not run while nodes are loading, as they write into their reserved buffer ranges.
+   *
+   * @param requiredPoints - Number of points to make room for
+   * @returns True if there is room for the points
+   */
+  private _evictNodes(requiredPoints: number): boolean {
+    const pointsToFree = this._totalLoadedPoints + requiredPoints - this._options.pointBudget;
+    const evicted = selectNodesToEvict(this._nodeCache.values(), pointsToFree, this._lastSelectionAt);
+    if (!evicted) return false;
+
+    for (const node of evicted) {
+      node.state = 'pending';
+      node.bufferStartIndex = undefined;
+    }
+    this._compactBuffers();
+    this._scheduleLayerUpdate();
+    return true;
+  }
+
+  /**
+   * Moves the points of loaded nodes to the start of the buffers, closing the gaps left by
+   * evicted nodes and failed loads.
+   */
+  private _compactBuffers(): void {
+    this._hasBufferGaps = false;
+    const { pointCount, nodeCount } = compactNodeBuffers(this._nodeCache.values(), {
+      positions: this._positions,
+      colors: this._colors,
+      intensities: this._intensities,
+      classifications: this._classifications,
+      nodeDepths: this._nodeDepths,
+      extraAttributes: this._extraAttributes,
+    });
+    this._totalLoadedPoints = pointCount;
+    this._totalLoadedNodes = nodeCount;
+  }
+
   /**
    * Schedules a batched layer update.
    */
@@ -1142,6 +1276,18 @@ export class EptStreamingLoader {
     }
   }
 
+  /**
+   * Sets the colorizer computing the point colors (e.g., from a raster), replacing the
+   * colors of the dataset. Loaded nodes are colorized again, new nodes as they load.
+   *
+   * @param colorizer - Point colorizer
+   * @returns Promise that resolves when the loaded nodes are colorized
+   */
+  async setColorizer(colorizer: PointColorizer): Promise<void> {
+    await this._nodeColorizer.setColorizer(colorizer, this._nodeCache.values());
+    this._scheduleLayerUpdate();
+  }
+
   /**
    * Sets the callback for when points are loaded.
    *
@@ -1177,10 +1323,13 @@ export class EptStreamingLoader {
           : undefined,
       pointCount,
       bounds: this._bounds!,
-      hasRGB: this._hasColor,
+      hasRGB: this._hasColor || this._nodeColorizer.isActive(),
       hasIntensity: this._hasIntensity,
       hasClassification: true,
       wkt: this._metadata?.srs?.wkt,
+      spacing: this._calculateNominalSpacing(),
+      rootSpacing: this.getSpacing() * this._verticalUnitFactor,
+      nodeDepths: this._nodeDepths!.subarray(0, pointCount),
     };
   }
 
@@ -1194,21 +1343,21 @@ export class EptStreamingLoader {
     if (!this._isInitialized) return false;
 
     const targetDepth = viewport.targetDepth;
+    const camera = this._options.screenSpaceErrorThreshold > 0 ? viewport.camera : undefined;
     const now = Date.now();
-    const hierarchyRetryCooldownMs = 5000;
 
     for (const [, node] of this._nodeCache) {
-      const depth = node.keyArray[0];
-      if (depth > targetDepth + 3) continue;
-
-      const lastFailure = this._hierarchyFailures.get(node.key);
-      if (node.state === 'subtree' &&
-          !this._hierarchyCache.has(node.key) &&
-          !this._hierarchyLoading.has(node.key) &&
-          (!lastFailure || (now - lastFailure) >= hierarchyRetryCooldownMs) &&
-          this._boundsIntersectsViewport(node.boundsWgs84, viewport)) {
-        return true;
+      if (node.state !== 'subtree' ||
+          this._hierarchyCache.has(node.key) ||
+          this._hierarchyLoading.has(node.key) ||
+          !this._canRetryHierarchy(node.key, now)) {
+        continue;
       }
+
+      const inView = camera
+        ? this._isNodeNeededForCamera(node, camera)
+        : node.keyArray[0] <= targetDepth + 3 && this._boundsIntersectsViewport(node.boundsWgs84, viewport);
+      if (inView) return true;
     }
 
     return false;
@@ -1401,6 +1550,7 @@ export class EptStreamingLoader {
         node.lastFailedAt = undefined;
       }
     }
+    this._nodeRetrier.reset();
 
     // Force a render update so old points are cleared.
     this._scheduleLayerUpdate();
@@ -1440,17 +1590,7 @@ export class EptStreamingLoader {
       }
     }
 
-    // Calculate nominal point spacing from bbox area: sqrt(area / pointCount)
-    let pointSpacing: number | undefined;
-    if (meta.bounds && meta.bounds.length >= 6 && this._totalPointsInFile > 0) {
-      const width = meta.bounds[3] - meta.bounds[0];
-      const height = meta.bounds[4] - meta.bounds[1];
-      const area = width * height;
-      if (area > 0) {
-        const spacingInSourceUnits = Math.sqrt(area / this._totalPointsInFile);
-        pointSpacing = spacingInSourceUnits * this._verticalUnitFactor;
-      }
-    }
+    const pointSpacing = this._calculateNominalSpacing();
 
     return {
       version: meta.version || '1.0',
@@ -1469,14 +1609,59 @@ export class EptStreamingLoader {
     };
   }
 
+  /**
+   * Calculates the nominal point spacing from bounding box area.
+   * Uses formula: sqrt(area / pointCount) * unitFactor
+   *
+   * @returns Estimated point spacing in meters, or undefined without bounds
+   */
+  private _calculateNominalSpacing(): number | undefined {
+    const bounds = this._metadata?.bounds;
+    if (!bounds || bounds.length < 6 || this._totalPointsInFile <= 0) {
+      return undefined;
+    }
+
+    const area = (bounds[3] - bounds[0]) * (bounds[4] - bounds[1]);
+    if (area <= 0) {
+      return undefined;
+    }
+
+    const spacingInSourceUnits = Math.sqrt(area / this._totalPointsInFile);
+    return spacingInSourceUnits * this._verticalUnitFactor;
+  }
+
+  /**
+   * Fetches a resource, applying the request transform. Requests are aborted on destroy.
+   *
+   * @param url - Resource URL
+   * @param kind - Kind of resource requested
+   * @param headers - Optional request headers
+   * @returns Fetch response
+   */
+  private _fetch(url: string, kind: RequestKind, headers?: Record<string, string>): Promise<Response> {
+    return fetchWithTransform(
+      url,
+      kind,
+      { headers, signal: this._abortController.signal },
+      this._options.transformRequest
+    );
+  }
+
   /**
    * Destroys the streaming loader and cleans up resources.
    */
   destroy(): void {
+    this._abortController.abort();
+    this._workerPool?.destroy();
+    this._workerPool = null;
+
     if (this._updateBatchTimeout) {
       clearTimeout(this._updateBatchTimeout);
     }
 
+    // Cancel scheduled retries
+    this._nodeRetrier.destroy();
+
     this._loadingQueue = [];
     this._nodeCache.clear();
     this._hierarchyCache.clear();
@@ -1489,6 +1674,7 @@ export class EptStreamingLoader {
     this._colors = null;
     this._intensities = null;
     this._classifications = null;
+    this._nodeDepths = null;
     this._extraAttributes = {};
   }
 }
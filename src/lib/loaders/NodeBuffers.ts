@@ -0,0 +1,99 @@
+import type { ExtraPointAttributes } from './types';
+import type { NodeState } from './streaming-types';
+
+/**
+ * Fields of a streamed node used to manage its range of the point buffers
+ */
+interface BufferedNode {
+  state: NodeState;
+  pointCount: number;
+  bufferStartIndex?: number;
+  lastVisibleAt?: number;
+}
+
+/**
+ * Point buffers of a streaming loader, preallocated for its point budget.
+ * Nodes reserve a range of points in them when they start loading.
+ */
+export interface NodePointBuffers {
+  positions: Float32Array | null;
+  colors: Uint8Array | null;
+  intensities: Float32Array | null;
+  classifications: Uint8Array | null;
+  nodeDepths: Uint8Array | null;
+  extraAttributes: ExtraPointAttributes;
+}
+
+/**
+ * Moves the points of loaded nodes to the start of the point buffers of a streaming loader,
+ * closing the gaps left by evicted nodes and failed loads. Must not run while nodes are
+ * loading, as they write into their reserved buffer ranges. Shared by the streaming loaders.
+ *
+ * @param nodes - Nodes of the loader
+ * @param buffers - Point buffers of the loader
+ * @returns Number of points and loaded nodes left in the buffers
+ */
+export function compactNodeBuffers(
+  nodes: Iterable<BufferedNode>,
+  buffers: NodePointBuffers
+): { pointCount: number; nodeCount: number } {
+  const loadedNodes: BufferedNode[] = [];
+  for (const node of nodes) {
+    if (node.state === 'loaded' && node.bufferStartIndex !== undefined) {
+      loadedNodes.push(node);
+    }
+  }
+  loadedNodes.sort((a, b) => a.bufferStartIndex! - b.bufferStartIndex!);
+
+  let writeIndex = 0;
+  for (const node of loadedNodes) {
+    const start = node.bufferStartIndex!;
+    if (start !== writeIndex) {
+      const end = start + node.pointCount;
+      buffers.positions?.copyWithin(writeIndex * 3, start * 3, end * 3);
+      buffers.colors?.copyWithin(writeIndex * 4, start * 4, end * 4);
+      buffers.intensities?.copyWithin(writeIndex, start, end);
+      buffers.classifications?.copyWithin(writeIndex, start, end);
+      buffers.nodeDepths?.copyWithin(writeIndex, start, end);
+      for (const values of Object.values(buffers.extraAttributes)) {
+        values.copyWithin(writeIndex, start, end);
+      }
+      node.bufferStartIndex = writeIndex;
+    }
+    writeIndex += node.pointCount;
+  }
+
+  return { pointCount: writeIndex, nodeCount: loadedNodes.length };
+}
+
+/**
+ * Selects the least recently visible loaded nodes to evict to make room for new points.
+ * Nodes visible in the last selected viewport are kept.
+ *
+ * @param nodes - Nodes of the loader
+ * @param pointsToFree - Number of points to free
+ * @param lastSelectionAt - Time of the last viewport selection
+ * @returns Nodes to evict, or null if evicting all nodes that can be evicted frees too few points
+ */
+export function selectNodesToEvict<T extends BufferedNode>(
+  nodes: Iterable<T>,
+  pointsToFree: number,
+  lastSelectionAt: number
+): T[] | null {
+  const candidates: T[] = [];
+  for (const node of nodes) {
+    if (node.state === 'loaded' && (node.lastVisibleAt ?? 0) < lastSelectionAt) {
+      candidates.push(node);
+    }
+  }
+  candidates.sort((a, b) => (a.lastVisibleAt ?? 0) - (b.lastVisibleAt ?? 0));
+
+  const evicted: T[] = [];
+  let freedPoints = 0;
+  for (const node of candidates) {
+    if (freedPoints >= pointsToFree) break;
+    evicted.push(node);
+    freedPoints += node.pointCount;
+  }
+  return freedPoints >= pointsToFree ? evicted : null;
+}
@@ -0,0 +1,92 @@
+import type { NodeState, PointColorizer } from './streaming-types';
+
+/**
+ * Fields of a streamed node used to colorize its points
+ */
+interface ColorizableNode {
+  key: string;
+  state: NodeState;
+  pointCount: number;
+  bufferStartIndex?: number;
+}
+
+/**
+ * Point buffers of a streaming loader. They are read through functions because
+ * loaders allocate the color buffer on demand and release all buffers when destroyed.
+ */
+export interface NodeColorizerBuffers {
+  /** Gets the position buffer, or null once the loader is destroyed */
+  getPositions(): Float32Array | null;
+  /** Gets the color buffer, allocating it if the dataset has no colors */
+  getColors(): Uint8Array;
+  /** Gets the origin that positions are offsets from */
+  getCoordinateOrigin(): [number, number, number];
+  /** Signal aborted when the loader is destroyed */
+  signal: AbortSignal;
+}
+
+/**
+ * Colors the points of streamed nodes with a point colorizer (e.g., from a raster),
+ * replacing the colors of the dataset. Shared by the streaming loaders.
+ */
+export class NodeColorizer {
+  private _buffers: NodeColorizerBuffers;
+  private _colorizer: PointColorizer | null = null;
+
+  /**
+   * Creates a new NodeColorizer instance.
+   *
+   * @param buffers - Point buffers of the loader
+   */
+  constructor(buffers: NodeColorizerBuffers) {
+    this._buffers = buffers;
+  }
+
+  /**
+   * Checks whether a colorizer is set.
+   *
+   * @returns True if node colors come from the colorizer
+   */
+  isActive(): boolean {
+    return this._colorizer !== null;
+  }
+
+  /**
+   * Sets the colorizer and colorizes the loaded nodes again.
+   *
+   * @param colorizer - Point colorizer
+   * @param nodes - Nodes of the loader (only loaded nodes are colorized)
+   * @returns Promise that resolves when the loaded nodes are colorized
+   */
+  async setColorizer(colorizer: PointColorizer, nodes: Iterable<ColorizableNode>): Promise<void> {
+    this._colorizer = colorizer;
+    const loadedNodes = Array.from(nodes).filter((node) => node.state === 'loaded');
+    await Promise.all(loadedNodes.map((node) => this.colorizeNode(node)));
+  }
+
+  /**
+   * Colors the points of a node with the colorizer, if one is set.
+   * Failures are logged, leaving the node with its previous colors.
+   *
+   * @param node - Node with points in the buffers
+   */
+  async colorizeNode(node: ColorizableNode): Promise<void> {
+    const colorizer = this._colorizer;
+    const positions = this._buffers.getPositions();
+    const start = node.bufferStartIndex;
+    if (!colorizer || !positions || start === undefined) return;
+
+    const { signal } = this._buffers;
+    try {
+      const nodePositions = positions.slice(start * 3, (start + node.pointCount) * 3);
+      const colors = await colorizer.colorize(nodePositions, this._buffers.getCoordinateOrigin(), signal);
+      // The node may have been evicted or moved, or the loader destroyed, while colorizing
+      if (this._colorizer !== colorizer || !this._buffers.getPositions() || node.bufferStartIndex === undefined) return;
+      this._buffers.getColors().set(colors, node.bufferStartIndex * 4);
+    } catch (error) {
+      if (!signal.aborted) {
+        console.warn(`Failed to colorize node ${node.key}:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,161 @@
+import { getRetryDelay } from '../utils/helpers';
+import type { FailedNodeInfo, NodeState, StreamingLoaderOptions } from './streaming-types';
+
+/**
+ * Fields of a streamed node used to retry failed loads
+ */
+interface RetryableNode {
+  key: string;
+  state: NodeState;
+  error?: string;
+  retryCount?: number;
+  lastFailedAt?: number;
+}
+
+/**
+ * Retry settings and callbacks of a streaming loader. Options are read through a function
+ * because loaders set them in their constructor, after their fields are initialized.
+ */
+export interface NodeRetrierCallbacks<T extends RetryableNode> {
+  /** Gets the retry options of the loader */
+  getOptions(): Required<Pick<StreamingLoaderOptions, 'maxRetries' | 'retryDelayMs' | 'retryFailedOnView'>>;
+  /** Name of the nodes in warnings (e.g., 'EPT node') */
+  nodeLabel: string;
+  /** Queues a node again once its backoff delay has passed, if it is still in view */
+  retry(node: T): void;
+  /** Called when a node failed after all retries */
+  onFailed(node: T): void;
+}
+
+/**
+ * Retries failed node loads of a streaming loader with exponential backoff,
+ * and optionally when nodes that failed after all retries come back into view.
+ * Shared by the streaming loaders.
+ */
+export class NodeRetrier<T extends RetryableNode> {
+  private _callbacks: NodeRetrierCallbacks<T>;
+  private _timeouts: Set<ReturnType<typeof setTimeout>> = new Set();
+  private _failedNodesOutOfView: Set<string> = new Set();
+
+  /**
+   * Creates a new NodeRetrier instance.
+   *
+   * @param callbacks - Retry settings and callbacks of the loader
+   */
+  constructor(callbacks: NodeRetrierCallbacks<T>) {
+    this._callbacks = callbacks;
+  }
+
+  /**
+   * Records a failed node load. The node is retried with exponential backoff until
+   * maxRetries is reached, then marked as failed and reported with onFailed.
+   *
+   * @param node - Node that failed to load
+   * @param error - Load error
+   */
+  handleFailure(node: T, error: unknown): void {
+    const { nodeLabel } = this._callbacks;
+    node.retryCount = (node.retryCount || 0) + 1;
+    node.lastFailedAt = Date.now();
+    node.error = error instanceof Error ? error.message : String(error);
+
+    if (node.retryCount <= this._callbacks.getOptions().maxRetries) {
+      // Mark as pending and retry after the backoff delay
+      node.state = 'pending';
+      this._scheduleRetry(node);
+
+      // Only log first failure
+      if (node.retryCount === 1) {
+        console.warn(`Failed to load ${nodeLabel} ${node.key} (will retry): ${node.error}`);
+      }
+    } else {
+      // Max retries reached, mark as permanently failed
+      node.state = 'error';
+      console.warn(`Failed to load ${nodeLabel} ${node.key} after ${node.retryCount} attempts: ${node.error}`);
+      this._callbacks.onFailed(node);
+    }
+  }
+
+  /**
+   * Checks whether a node that failed before can be requested again.
+   * Pending nodes wait for their backoff delay. Nodes that exhausted their retries are
+   * reset when they come back into view if retryFailedOnView is enabled.
+   *
+   * @param node - Node to check
+   * @param inView - Whether the node is in the current viewport
+   * @param now - Current timestamp
+   * @returns True if the node can be loaded
+   */
+  canRetry(node: T, inView: boolean, now: number): boolean {
+    const { retryFailedOnView, retryDelayMs } = this._callbacks.getOptions();
+    if (node.state === 'error') {
+      if (!retryFailedOnView) return false;
+      if (!inView) {
+        this._failedNodesOutOfView.add(node.key);
+        return false;
+      }
+      if (!this._failedNodesOutOfView.delete(node.key)) return false;
+
+      // Back in view - start over with a fresh set of retries
+      node.state = 'pending';
+      node.error = undefined;
+      node.retryCount = undefined;
+      node.lastFailedAt = undefined;
+      return true;
+    }
+
+    if (node.lastFailedAt && node.retryCount) {
+      return now - node.lastFailedAt >= getRetryDelay(node.retryCount, retryDelayMs);
+    }
+    return true;
+  }
+
+  /**
+   * Gets the nodes that failed to load after all retries.
+   *
+   * @param nodes - Nodes of the loader
+   * @returns Failed nodes
+   */
+  getFailedNodes(nodes: Iterable<T>): FailedNodeInfo[] {
+    const failed: FailedNodeInfo[] = [];
+    for (const node of nodes) {
+      if (node.state === 'error') {
+        failed.push({ key: node.key, error: node.error, attempts: node.retryCount ?? 1 });
+      }
+    }
+    return failed;
+  }
+
+  /**
+   * Forgets which failed nodes left the viewport, e.g. when node states are reset.
+   */
+  reset(): void {
+    this._failedNodesOutOfView.clear();
+  }
+
+  /**
+   * Cancels the scheduled retries and forgets the failed nodes.
+   */
+  destroy(): void {
+    for (const timeout of this._timeouts) {
+      clearTimeout(timeout);
+    }
+    this._timeouts.clear();
+    this._failedNodesOutOfView.clear();
+  }
+
+  /**
+   * Retries a failed node once its backoff delay has passed, if it is still pending.
+   *
+   * @param node - Node to retry
+   */
+  private _scheduleRetry(node: T): void {
+    const delay = getRetryDelay(node.retryCount || 1, this._callbacks.getOptions().retryDelayMs);
+    const timeout = setTimeout(() => {
+      this._timeouts.delete(timeout);
+      if (node.state !== 'pending') return;
+      this._callbacks.retry(node);
+    }, delay);
+    this._timeouts.add(timeout);
+  }
+}
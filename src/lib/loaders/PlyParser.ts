@@ -0,0 +1,280 @@
+import type { AttributeArray, ParsedPointColumns } from './types';
+
+/**
+ * PLY scalar property types and their storage
+ */
+type PlyScalarType = 'int8' | 'uint8' | 'int16' | 'uint16' | 'int32' | 'uint32' | 'float32' | 'float64';
+
+/**
+ * A property of a PLY element
+ */
+interface PlyProperty {
+  name: string;
+  type: PlyScalarType;
+  /** For list properties, the type of the item count */
+  countType?: PlyScalarType;
+}
+
+/**
+ * An element declared in a PLY header
+ */
+interface PlyElement {
+  name: string;
+  count: number;
+  properties: PlyProperty[];
+}
+
+/**
+ * Maps PLY type names (both legacy and sized spellings) to scalar types
+ */
+const PLY_TYPES: Record<string, PlyScalarType> = {
+  char: 'int8', int8: 'int8',
+  uchar: 'uint8', uint8: 'uint8',
+  short: 'int16', int16: 'int16',
+  ushort: 'uint16', uint16: 'uint16',
+  int: 'int32', int32: 'int32',
+  uint: 'uint32', uint32: 'uint32',
+  float: 'float32', float32: 'float32',
+  double: 'float64', float64: 'float64',
+};
+
+/**
+ * Byte size of each scalar type
+ */
+const TYPE_SIZES: Record<PlyScalarType, number> = {
+  int8: 1, uint8: 1, int16: 2, uint16: 2, int32: 4, uint32: 4, float32: 4, float64: 8,
+};
+
+/**
+ * Creates a typed array matching a PLY scalar type
+ */
+function createArray(type: PlyScalarType, length: number): AttributeArray {
+  switch (type) {
+    case 'int8': return new Int8Array(length);
+    case 'uint8': return new Uint8Array(length);
+    case 'int16': return new Int16Array(length);
+    case 'uint16': return new Uint16Array(length);
+    case 'int32': return new Int32Array(length);
+    case 'uint32': return new Uint32Array(length);
+    case 'float32': return new Float32Array(length);
+    case 'float64': return new Float64Array(length);
+  }
+}
+
+/**
+ * Reads a scalar value from a DataView
+ */
+function readScalar(view: DataView, offset: number, type: PlyScalarType, littleEndian: boolean): number {
+  switch (type) {
+    case 'int8': return view.getInt8(offset);
+    case 'uint8': return view.getUint8(offset);
+    case 'int16': return view.getInt16(offset, littleEndian);
+    case 'uint16': return view.getUint16(offset, littleEndian);
+    case 'int32': return view.getInt32(offset, littleEndian);
+    case 'uint32': return view.getUint32(offset, littleEndian);
+    case 'float32': return view.getFloat32(offset, littleEndian);
+    case 'float64': return view.getFloat64(offset, littleEndian);
+  }
+}
+
+/**
+ * Parses the vertex element of PLY files (ASCII, binary little endian and binary big endian).
+ * Scalar vertex properties become columns; list properties and other elements
+ * (e.g. faces) are skipped.
+ */
+export class PlyParser {
+  /**
+   * Checks whether a buffer starts with the PLY magic bytes.
+   *
+   * @param buffer - File contents
+   * @returns True if the buffer looks like a PLY file
+   */
+  static isPly(buffer: ArrayBuffer): boolean {
+    if (buffer.byteLength < 4) return false;
+    const bytes = new Uint8Array(buffer, 0, 4);
+    // "ply" followed by a line break
+    return bytes[0] === 0x70 && bytes[1] === 0x6c && bytes[2] === 0x79 && (bytes[3] === 0x0a || bytes[3] === 0x0d);
+  }
+
+  /**
+   * Parses the vertex element of a PLY file.
+   *
+   * @param buffer - File contents
+   * @returns Parsed vertex columns
+   */
+  parse(buffer: ArrayBuffer): ParsedPointColumns {
+    const { format, elements, dataOffset } = this._parseHeader(buffer);
+
+    const vertexIndex = elements.findIndex((el) => el.name === 'vertex');
+    if (vertexIndex === -1) {
+      throw new Error('PLY file has no vertex element');
+    }
+    const vertex = elements[vertexIndex];
+    const scalarProps = vertex.properties.filter((p) => !p.countType);
+
+    const columns: Record<string, AttributeArray> = {};
+    for (const prop of scalarProps) {
+      columns[prop.name] = createArray(prop.type, vertex.count);
+    }
+
+    if (format === 'ascii') {
+      this._readAscii(buffer, dataOffset, elements, vertexIndex, columns);
+    } else {
+      this._readBinary(buffer, dataOffset, elements, vertexIndex, columns, format === 'binary_little_endian');
+    }
+
+    return {
+      pointCount: vertex.count,
+      names: scalarProps.map((p) => p.name),
+      columns,
+    };
+  }
+
+  /**
+   * Parses the PLY header.
+   *
+   * @param buffer - File contents
+   * @returns Format, declared elements and the byte offset of the body
+   */
+  private _parseHeader(buffer: ArrayBuffer): { format: string; elements: PlyElement[]; dataOffset: number } {
+    // Headers are ASCII; search the first 64KB for the end marker
+    const headBytes = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 65536));
+    const head = new TextDecoder('latin1').decode(headBytes);
+    const endMatch = /end_header\r?\n/.exec(head);
+    if (!endMatch) {
+      throw new Error('Invalid PLY file: end_header not found');
+    }
+    const dataOffset = endMatch.index + endMatch[0].length;
+
+    let format = '';
+    const elements: PlyElement[] = [];
+    for (const rawLine of head.slice(0, endMatch.index).split(/\r?\n/)) {
+      const tokens = rawLine.trim().split(/\s+/);
+      switch (tokens[0]) {
+        case 'format':
+          format = tokens[1];
+          break;
+        case 'element':
+          elements.push({ name: tokens[1], count: parseInt(tokens[2], 10), properties: [] });
+          break;
+        case 'property': {
+          const element = elements[elements.length - 1];
+          if (!element) break;
+          if (tokens[1] === 'list') {
+            element.properties.push({
+              name: tokens[4],
+              countType: PLY_TYPES[tokens[2]],
+              type: PLY_TYPES[tokens[3]],
+            });
+          } else {
+            const type = PLY_TYPES[tokens[1]];
+            if (!type) {
+              throw new Error(`Unsupported PLY property type: ${tokens[1]}`);
+            }
+            element.properties.push({ name: tokens[2], type });
+          }
+          break;
+        }
+      }
+    }
+
+    if (format !== 'ascii' && format !== 'binary_little_endian' && format !== 'binary_big_endian') {
+      throw new Error(`Unsupported PLY format: ${format || 'unknown'}`);
+    }
+
+    return { format, elements, dataOffset };
+  }
+
+  /**
+   * Reads the vertex element from an ASCII body.
+   */
+  private _readAscii(
+    buffer: ArrayBuffer,
+    dataOffset: number,
+    elements: PlyElement[],
+    vertexIndex: number,
+    columns: Record<string, AttributeArray>
+  ): void {
+    const body = new TextDecoder().decode(new Uint8Array(buffer, dataOffset));
+    const lines = body.split(/\r?\n/);
+
+    // Every element instance occupies one line; skip elements declared before the vertices
+    let line = 0;
+    for (let e = 0; e < vertexIndex; e++) {
+      line += elements[e].count;
+    }
+
+    const vertex = elements[vertexIndex];
+    for (let i = 0; i < vertex.count; i++) {
+      const tokens = lines[line + i]?.trim().split(/\s+/) ?? [];
+      let t = 0;
+      for (const prop of vertex.properties) {
+        if (prop.countType) {
+          // Skip list values
+          const n = parseInt(tokens[t], 10) || 0;
+          t += 1 + n;
+        } else {
+          columns[prop.name][i] = parseFloat(tokens[t++]) || 0;
+        }
+      }
+    }
+  }
+
+  /**
+   * Reads the vertex element from a binary body.
+   */
+  private _readBinary(
+    buffer: ArrayBuffer,
+    dataOffset: number,
+    elements: PlyElement[],
+    vertexIndex: number,
+    columns: Record<string, AttributeArray>,
+    littleEndian: boolean
+  ): void {
+    const view = new DataView(buffer);
+    let offset = dataOffset;
+
+    // Skip elements declared before the vertices
+    for (let e = 0; e < vertexIndex; e++) {
+      offset = this._skipElement(view, offset, elements[e], littleEndian);
+    }
+
+    const vertex = elements[vertexIndex];
+    for (let i = 0; i < vertex.count; i++) {
+      for (const prop of vertex.properties) {
+        if (prop.countType) {
+          const n = readScalar(view, offset, prop.countType, littleEndian);
+          offset += TYPE_SIZES[prop.countType] + n * TYPE_SIZES[prop.type];
+        } else {
+          columns[prop.name][i] = readScalar(view, offset, prop.type, littleEndian);
+          offset += TYPE_SIZES[prop.type];
+        }
+      }
+    }
+  }
+
+  /**
+   * Skips over all instances of a binary element.
+   *
+   * @returns Byte offset after the element
+   */
+  private _skipElement(view: DataView, offset: number, element: PlyElement, littleEndian: boolean): number {
+    const hasLists = element.properties.some((p) => p.countType);
+    if (!hasLists) {
+      const stride = element.properties.reduce((sum, p) => sum + TYPE_SIZES[p.type], 0);
+      return offset + stride * element.count;
+    }
+
+    for (let i = 0; i < element.count; i++) {
+      for (const prop of element.properties) {
+        if (prop.countType) {
+          const n = readScalar(view, offset, prop.countType, littleEndian);
+          offset += TYPE_SIZES[prop.countType] + n * TYPE_SIZES[prop.type];
+        } else {
+          offset += TYPE_SIZES[prop.type];
+        }
+      }
+    }
+    return offset;
+  }
+}
@@ -0,0 +1,316 @@
+import type { PntsTileData } from './tiles3d-types';
+import type { AttributeArray, ExtraPointAttributes } from './types';
+
+/**
+ * Reference to data in a feature/batch table binary body
+ */
+interface BinaryBodyReference {
+  byteOffset: number;
+  componentType?: string;
+  type?: string;
+}
+
+/**
+ * Component sizes and typed array constructors for batch table component types
+ */
+const COMPONENT_TYPES: Record<string, { size: number; create: (buffer: ArrayBuffer) => AttributeArray }> = {
+  BYTE: { size: 1, create: (b) => new Int8Array(b) },
+  UNSIGNED_BYTE: { size: 1, create: (b) => new Uint8Array(b) },
+  SHORT: { size: 2, create: (b) => new Int16Array(b) },
+  UNSIGNED_SHORT: { size: 2, create: (b) => new Uint16Array(b) },
+  INT: { size: 4, create: (b) => new Int32Array(b) },
+  UNSIGNED_INT: { size: 4, create: (b) => new Uint32Array(b) },
+  FLOAT: { size: 4, create: (b) => new Float32Array(b) },
+  DOUBLE: { size: 8, create: (b) => new Float64Array(b) },
+};
+
+/**
+ * Size of the pnts header in bytes
+ */
+const PNTS_HEADER_LENGTH = 28;
+
+/**
+ * Decodes 3D Tiles Point Cloud (pnts) tiles.
+ * Reads positions (float or quantized, with RTC_CENTER), colors (RGBA, RGB, RGB565
+ * or CONSTANT_RGBA) and scalar batch table properties. Intensity and classification
+ * properties are mapped to the standard attributes; other properties become extra attributes.
+ */
+export class PntsParser {
+  /**
+   * Checks whether a buffer starts with the pnts magic bytes.
+   *
+   * @param buffer - Tile contents
+   * @returns True if the buffer is a pnts tile
+   */
+  static isPnts(buffer: ArrayBuffer): boolean {
+    if (buffer.byteLength < 4) return false;
+    return String.fromCharCode(...new Uint8Array(buffer, 0, 4)) === 'pnts';
+  }
+
+  /**
+   * Parses a pnts tile.
+   *
+   * @param buffer - Tile contents
+   * @returns Decoded points in tile coordinates
+   */
+  parse(buffer: ArrayBuffer): PntsTileData {
+    if (!PntsParser.isPnts(buffer)) {
+      const magic = String.fromCharCode(...new Uint8Array(buffer, 0, Math.min(4, buffer.byteLength)));
+      throw new Error(`Unsupported tile content "${magic}": only pnts point cloud tiles are supported`);
+    }
+
+    const view = new DataView(buffer);
+    const featureTableJsonLength = view.getUint32(12, true);
+    const featureTableBinaryLength = view.getUint32(16, true);
+    const batchTableJsonLength = view.getUint32(20, true);
+    const batchTableBinaryLength = view.getUint32(24, true);
+
+    let offset = PNTS_HEADER_LENGTH;
+    const featureTable = this._parseJson(buffer, offset, featureTableJsonLength);
+    offset += featureTableJsonLength;
+    const featureBinaryStart = offset;
+    offset += featureTableBinaryLength;
+    const batchTable = this._parseJson(buffer, offset, batchTableJsonLength);
+    offset += batchTableJsonLength;
+    const batchBinaryStart = offset;
+
+    const extensions = featureTable.extensions as Record<string, unknown> | undefined;
+    if (extensions?.['3DTILES_draco_point_compression']) {
+      throw new Error('Draco-compressed pnts tiles are not supported');
+    }
+
+    const pointCount = this._readGlobalScalar(buffer, featureBinaryStart, featureTable.POINTS_LENGTH);
+    const positions = this._readPositions(buffer, featureBinaryStart, featureTable, pointCount);
+    const colors = this._readColors(buffer, featureBinaryStart, featureTable, pointCount);
+
+    // Batch table properties are per point, or per batch when BATCH_ID is present
+    let batchIds: AttributeArray | undefined;
+    const batchIdRef = featureTable.BATCH_ID as BinaryBodyReference | undefined;
+    if (batchIdRef) {
+      batchIds = this._readBinary(
+        buffer,
+        featureBinaryStart,
+        batchIdRef.byteOffset,
+        batchIdRef.componentType ?? 'UNSIGNED_SHORT',
+        pointCount
+      );
+    }
+
+    let intensities: Float32Array | undefined;
+    let classifications: Uint8Array | undefined;
+    const extraAttributes: ExtraPointAttributes = {};
+
+    if (batchTableBinaryLength > 0 || batchTableJsonLength > 0) {
+      const batchLength = batchIds ? this._readGlobalScalar(buffer, featureBinaryStart, featureTable.BATCH_LENGTH) : pointCount;
+      for (const [name, value] of Object.entries(batchTable)) {
+        if (name === 'extensions' || name === 'extras') continue;
+
+        const values = this._readBatchProperty(buffer, batchBinaryStart, value, batchLength);
+        if (!values) continue;
+        const perPoint = batchIds ? this._expandBatchValues(values, batchIds, pointCount) : values;
+
+        const lowerName = name.toLowerCase();
+        if (lowerName === 'intensity' && !intensities) {
+          intensities = this._normalizeIntensity(perPoint);
+        } else if (lowerName === 'classification' && !classifications) {
+          classifications = perPoint instanceof Uint8Array ? perPoint : Uint8Array.from(perPoint);
+        } else {
+          extraAttributes[name] = perPoint;
+        }
+      }
+    }
+
+    return { pointCount, positions, colors, intensities, classifications, extraAttributes };
+  }
+
+  /**
+   * Parses a JSON chunk of the tile (padded with spaces).
+   */
+  private _parseJson(buffer: ArrayBuffer, offset: number, length: number): Record<string, unknown> {
+    if (length === 0) return {};
+    const text = new TextDecoder().decode(new Uint8Array(buffer, offset, length));
+    return JSON.parse(text) as Record<string, unknown>;
+  }
+
+  /**
+   * Reads a global uint32 feature table value given inline or by binary reference.
+   */
+  private _readGlobalScalar(buffer: ArrayBuffer, binaryStart: number, value: unknown): number {
+    if (typeof value === 'number') return value;
+    if (value && typeof value === 'object' && 'byteOffset' in value) {
+      return new DataView(buffer).getUint32(binaryStart + (value as BinaryBodyReference).byteOffset, true);
+    }
+    throw new Error('Invalid pnts tile: POINTS_LENGTH missing');
+  }
+
+  /**
+   * Reads a global vec3 feature table value given inline.
+   */
+  private _readVec3(value: unknown): [number, number, number] | undefined {
+    if (Array.isArray(value) && value.length >= 3) {
+      return [value[0], value[1], value[2]];
+    }
+    return undefined;
+  }
+
+  /**
+   * Copies typed values out of a binary body (copying avoids alignment restrictions).
+   */
+  private _readBinary(
+    buffer: ArrayBuffer,
+    binaryStart: number,
+    byteOffset: number,
+    componentType: string,
+    count: number
+  ): AttributeArray {
+    const component = COMPONENT_TYPES[componentType];
+    if (!component) {
+      throw new Error(`Unsupported component type: ${componentType}`);
+    }
+    const start = binaryStart + byteOffset;
+    return component.create(buffer.slice(start, start + count * component.size));
+  }
+
+  /**
+   * Reads point positions (float or quantized) and applies RTC_CENTER.
+   */
+  private _readPositions(
+    buffer: ArrayBuffer,
+    binaryStart: number,
+    featureTable: Record<string, unknown>,
+    pointCount: number
+  ): Float64Array {
+    const positions = new Float64Array(pointCount * 3);
+    const rtc = this._readVec3(featureTable.RTC_CENTER) ?? [0, 0, 0];
+
+    const positionRef = featureTable.POSITION as BinaryBodyReference | undefined;
+    const quantizedRef = featureTable.POSITION_QUANTIZED as BinaryBodyReference | undefined;
+
+    if (positionRef) {
+      const values = this._readBinary(buffer, binaryStart, positionRef.byteOffset, 'FLOAT', pointCount * 3);
+      for (let i = 0; i < pointCount; i++) {
+        positions[i * 3] = values[i * 3] + rtc[0];
+        positions[i * 3 + 1] = values[i * 3 + 1] + rtc[1];
+        positions[i * 3 + 2] = values[i * 3 + 2] + rtc[2];
+      }
+    } else if (quantizedRef) {
+      const scale = this._readVec3(featureTable.QUANTIZED_VOLUME_SCALE);
+      const offset = this._readVec3(featureTable.QUANTIZED_VOLUME_OFFSET);
+      if (!scale || !offset) {
+        throw new Error('Invalid pnts tile: quantized positions require QUANTIZED_VOLUME_SCALE and QUANTIZED_VOLUME_OFFSET');
+      }
+      const values = this._readBinary(buffer, binaryStart, quantizedRef.byteOffset, 'UNSIGNED_SHORT', pointCount * 3);
+      for (let i = 0; i < pointCount; i++) {
+        for (let c = 0; c < 3; c++) {
+          positions[i * 3 + c] = (values[i * 3 + c] / 65535) * scale[c] + offset[c] + rtc[c];
+        }
+      }
+    } else {
+      throw new Error('Invalid pnts tile: no POSITION or POSITION_QUANTIZED');
+    }
+
+    return positions;
+  }
+
+  /**
+   * Reads point colors as RGBA, if present.
+   */
+  private _readColors(
+    buffer: ArrayBuffer,
+    binaryStart: number,
+    featureTable: Record<string, unknown>,
+    pointCount: number
+  ): Uint8Array | undefined {
+    const rgbaRef = featureTable.RGBA as BinaryBodyReference | undefined;
+    const rgbRef = featureTable.RGB as BinaryBodyReference | undefined;
+    const rgb565Ref = featureTable.RGB565 as BinaryBodyReference | undefined;
+    const constant = featureTable.CONSTANT_RGBA;
+
+    if (rgbaRef) {
+      return this._readBinary(buffer, binaryStart, rgbaRef.byteOffset, 'UNSIGNED_BYTE', pointCount * 4) as Uint8Array;
+    }
+
+    const colors = new Uint8Array(pointCount * 4);
+    if (rgbRef) {
+      const values = this._readBinary(buffer, binaryStart, rgbRef.byteOffset, 'UNSIGNED_BYTE', pointCount * 3);
+      for (let i = 0; i < pointCount; i++) {
+        colors[i * 4] = values[i * 3];
+        colors[i * 4 + 1] = values[i * 3 + 1];
+        colors[i * 4 + 2] = values[i * 3 + 2];
+        colors[i * 4 + 3] = 255;
+      }
+      return colors;
+    }
+    if (rgb565Ref) {
+      const values = this._readBinary(buffer, binaryStart, rgb565Ref.byteOffset, 'UNSIGNED_SHORT', pointCount);
+      for (let i = 0; i < pointCount; i++) {
+        const v = values[i];
+        colors[i * 4] = Math.round((((v >> 11) & 0x1f) * 255) / 31);
+        colors[i * 4 + 1] = Math.round((((v >> 5) & 0x3f) * 255) / 63);
+        colors[i * 4 + 2] = Math.round(((v & 0x1f) * 255) / 31);
+        colors[i * 4 + 3] = 255;
+      }
+      return colors;
+    }
+    if (Array.isArray(constant) && constant.length >= 4) {
+      for (let i = 0; i < pointCount; i++) {
+        colors.set(constant.slice(0, 4) as number[], i * 4);
+      }
+      return colors;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Reads a scalar batch table property from JSON values or the binary body.
+   *
+   * @returns Values, or undefined for non-scalar or non-numeric properties
+   */
+  private _readBatchProperty(
+    buffer: ArrayBuffer,
+    binaryStart: number,
+    value: unknown,
+    count: number
+  ): AttributeArray | undefined {
+    if (Array.isArray(value)) {
+      if (value.length < count || typeof value[0] !== 'number') return undefined;
+      return Float64Array.from(value.slice(0, count) as number[]);
+    }
+    if (value && typeof value === 'object' && 'byteOffset' in value) {
+      const ref = value as BinaryBodyReference;
+      if (ref.type && ref.type !== 'SCALAR') return undefined;
+      if (!ref.componentType || !COMPONENT_TYPES[ref.componentType]) return undefined;
+      return this._readBinary(buffer, binaryStart, ref.byteOffset, ref.componentType, count);
+    }
+    return undefined;
+  }
+
+  /**
+   * Expands per-batch values to per-point values using BATCH_ID.
+   */
+  private _expandBatchValues(values: AttributeArray, batchIds: AttributeArray, pointCount: number): AttributeArray {
+    const ArrayType = values.constructor as new (length: number) => AttributeArray;
+    const result = new ArrayType(pointCount);
+    for (let i = 0; i < pointCount; i++) {
+      result[i] = values[batchIds[i]] ?? 0;
+    }
+    return result;
+  }
+
+  /**
+   * Normalizes intensity to 0-1 based on its value range (0-1, 8-bit or 16-bit).
+   */
+  private _normalizeIntensity(values: AttributeArray): Float32Array {
+    let max = 0;
+    for (let i = 0; i < values.length; i++) {
+      if (values[i] > max) max = values[i];
+    }
+    const scale = max <= 1 ? 1 : max <= 255 ? 1 / 255 : 1 / 65535;
+    const result = new Float32Array(values.length);
+    for (let i = 0; i < values.length; i++) {
+      result[i] = values[i] * scale;
+    }
+    return result;
+  }
+}
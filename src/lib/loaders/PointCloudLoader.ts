@@ -4,8 +4,26 @@ import { createLazPerf, type LazPerf } from 'laz-perf';
 import { load } from '@loaders.gl/core';
 import { LASLoader } from '@loaders.gl/las';
 import proj4 from 'proj4';
-import type { PointCloudData, ExtraPointAttributes, AttributeArray } from './types';
+import { PlyParser } from './PlyParser';
+import { TextPointParser } from './TextPointParser';
+import { WorkerPool } from '../workers/WorkerPool';
+import { decodePoints } from '../workers/PointDecoder';
+import type { PointDecodeTask, DecodedPoints } from '../workers/types';
+import type {
+  PointCloudData,
+  ExtraPointAttributes,
+  AttributeArray,
+  ColumnMapping,
+  ParsedPointColumns,
+  PointCloudFileFormat,
+  PointCloudLoadOptions,
+  LoaderOptions,
+  RequestKind,
+  RequestTransformFunction,
+} from './types';
 import type { PointCloudBounds } from '../core/types';
+import { getFilename, isAbortError, throwIfAborted } from '../utils/helpers';
+import { fetchWithTransform } from '../utils/request';
 
 /**
  * Configuration for attribute storage types
@@ -42,16 +60,6 @@ const DIMENSION_CONFIGS: Record<string, AttributeConfig> = {
   'NearInfrared': { arrayType: 'uint16' },
 };
 
-/**
- * Core dimensions that are handled separately (not as extra attributes)
- */
-const CORE_DIMENSIONS = new Set([
-  'X', 'Y', 'Z',
-  'Intensity',
-  'Classification',
-  'Red', 'Green', 'Blue',
-]);
-
 /**
  * Creates a typed array of the appropriate type for an attribute
  */
@@ -97,6 +105,29 @@ function createBufferGetter(buffer: ArrayBuffer): Getter {
   };
 }
 
+/**
+ * Creates a getter function for copc.js that reads byte ranges from a URL,
+ * applying the request transform and aborting its requests with the given signal.
+ */
+function createUrlGetter(
+  url: string,
+  kind: RequestKind,
+  signal?: AbortSignal,
+  transformRequest?: RequestTransformFunction | null
+): Getter {
+  return async (begin: number, end: number): Promise<Uint8Array> => {
+    if (begin < 0 || end < 0 || begin > end) throw new Error('Invalid range');
+    const response = await fetchWithTransform(url, kind, {
+      headers: { Range: `bytes=${begin}-${end - 1}` },
+      signal,
+    }, transformRequest);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${kind} range: ${response.status} ${response.statusText}`);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+  };
+}
+
 /**
  * Extracts the PROJCS section from a WKT string (handles COMPD_CS)
  */
@@ -162,52 +193,380 @@ function getVerticalUnitConversionFactor(wkt: string): number {
 }
 
 /**
- * Loads and parses LiDAR point cloud files (LAS, LAZ, COPC).
+ * File extensions mapped to point cloud formats
+ */
+const EXTENSION_FORMATS: Record<string, PointCloudFileFormat> = {
+  las: 'las',
+  laz: 'las',
+  ply: 'ply',
+  xyz: 'xyz',
+  csv: 'xyz',
+  txt: 'xyz',
+  asc: 'xyz',
+  pts: 'pts',
+};
+
+/**
+ * Gets the point cloud format from a file name or URL extension
+ */
+function getFormatFromName(name: string): PointCloudFileFormat | undefined {
+  const match = /\.([a-z0-9]+)$/i.exec(getFilename(name));
+  return match ? EXTENSION_FORMATS[match[1].toLowerCase()] : undefined;
+}
+
+/**
+ * Detects the point cloud format from the magic bytes of a buffer.
+ * Falls back to LAS, which is handled by the COPC/LAS/loaders.gl chain.
+ */
+function detectFormatFromBytes(buffer: ArrayBuffer): PointCloudFileFormat {
+  if (buffer.byteLength >= 4) {
+    const magic = new Uint8Array(buffer, 0, 4);
+    if (String.fromCharCode(...magic) === 'LASF') return 'las';
+  }
+  if (PlyParser.isPly(buffer)) return 'ply';
+  if (TextPointParser.isText(buffer)) return 'xyz';
+  return 'las';
+}
+
+/**
+ * Column names recognized for each attribute when no mapping is given (lowercase)
+ */
+const COLUMN_ALIASES: Record<keyof ColumnMapping, string[]> = {
+  x: ['x', 'easting', 'lon', 'lng', 'longitude'],
+  y: ['y', 'northing', 'lat', 'latitude'],
+  z: ['z', 'elevation', 'height', 'alt', 'altitude'],
+  intensity: ['intensity', 'scalar_intensity', 'inten', 'i'],
+  red: ['red', 'r', 'diffuse_red'],
+  green: ['green', 'g', 'diffuse_green'],
+  blue: ['blue', 'b', 'diffuse_blue'],
+  classification: ['classification', 'class', 'scalar_classification', 'label'],
+};
+
+/**
+ * Resolves a column from a mapping entry (name or index) or from known aliases
+ */
+function resolveColumn(
+  names: string[],
+  mapping: string | number | undefined,
+  aliases: string[]
+): string | undefined {
+  if (typeof mapping === 'number') {
+    if (mapping < 0 || mapping >= names.length) {
+      throw new Error(`Column index ${mapping} is out of range (${names.length} columns)`);
+    }
+    return names[mapping];
+  }
+  if (typeof mapping === 'string') {
+    const found = names.find((n) => n.toLowerCase() === mapping.toLowerCase());
+    if (!found) {
+      throw new Error(`Column "${mapping}" not found (available: ${names.join(', ')})`);
+    }
+    return found;
+  }
+  return names.find((n) => aliases.includes(n.toLowerCase()));
+}
+
+/**
+ * Computes the min and max of an attribute array
+ */
+function getRange(values: AttributeArray): [number, number] {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] < min) min = values[i];
+    if (values[i] > max) max = values[i];
+  }
+  return [min, max];
+}
+
+/**
+ * Loads and parses point cloud files (LAS, LAZ, COPC, PLY, XYZ/CSV, PTS).
  * Uses copc.js for COPC/LAZ files with LAS 1.4 support.
  */
 export class PointCloudLoader {
+  private _onProgress?: (progress: number, message: string) => void;
+  private _signal?: AbortSignal;
+  private _workerPool: WorkerPool | null = null;
+  private _transformRequest: RequestTransformFunction | null;
+
   /**
    * Creates a new PointCloudLoader instance.
+   *
+   * @param options - Optional loader options (workerUrl enables decoding on a worker pool,
+   *   transformRequest customizes requests to authenticated hosts)
    */
-  constructor() {
-    // Reserved for future options
+  constructor(options: LoaderOptions = {}) {
+    this._transformRequest = options.transformRequest ?? null;
+    if (options.workerUrl) {
+      this._workerPool = new WorkerPool(options.workerUrl, options.workerCount);
+    }
   }
 
-  private _onProgress?: (progress: number, message: string) => void;
+  /**
+   * Terminates the decode workers.
+   */
+  destroy(): void {
+    this._workerPool?.destroy();
+    this._workerPool = null;
+  }
 
   /**
    * Loads a point cloud from a URL, File, or ArrayBuffer.
+   * LAS/LAZ/COPC, PLY and delimited text (XYZ, CSV, PTS) files are supported;
+   * the format is detected from the file extension or magic bytes unless given.
    *
    * @param source - URL string, File object, or ArrayBuffer
    * @param onProgress - Optional progress callback (progress: 0-100, message: string)
+   * @param options - Optional format, column mapping, CRS hint and abort signal
    * @returns Normalized point cloud data
    */
   async load(
     source: string | File | ArrayBuffer,
-    onProgress?: (progress: number, message: string) => void
+    onProgress?: (progress: number, message: string) => void,
+    options: PointCloudLoadOptions = {}
   ): Promise<PointCloudData> {
     this._onProgress = onProgress;
+    this._signal = options.signal;
+    throwIfAborted(this._signal);
+
+    const name = typeof source === 'string' ? source : source instanceof File ? source.name : undefined;
+    const format = options.format ?? (name ? getFormatFromName(name) : undefined);
 
     if (typeof source === 'string') {
       // URL - check if it's HTTP(S) for remote loading
-      if (source.startsWith('http://') || source.startsWith('https://')) {
+      if ((source.startsWith('http://') || source.startsWith('https://')) && (!format || format === 'las')) {
         return await this._loadCopcFromUrl(source);
       } else {
-        // Local file path or data URL - fetch and load as buffer
+        // Local file path, data URL or non-LAS format - fetch and load as buffer
         this._reportProgress(5, 'Fetching file...');
-        const response = await fetch(source);
+        const response = await fetchWithTransform(source, 'data', { signal: this._signal }, this._transformRequest);
         const buffer = await response.arrayBuffer();
-        return await this._loadCopcFromBuffer(buffer);
+        return await this._loadFromBuffer(buffer, format, options);
       }
     } else if (source instanceof File) {
       // File object - read as ArrayBuffer
       this._reportProgress(5, 'Reading file...');
       const buffer = await source.arrayBuffer();
-      return await this._loadCopcFromBuffer(buffer);
+      throwIfAborted(this._signal);
+      return await this._loadFromBuffer(buffer, format, options);
     } else {
       // ArrayBuffer directly
-      return await this._loadCopcFromBuffer(source);
+      return await this._loadFromBuffer(source, format, options);
+    }
+  }
+
+  /**
+   * Loads a buffer using the parser for its format.
+   *
+   * @param buffer - File contents
+   * @param format - Known format, or undefined to detect from magic bytes
+   * @param options - Load options
+   * @returns Normalized point cloud data
+   */
+  private async _loadFromBuffer(
+    buffer: ArrayBuffer,
+    format: PointCloudFileFormat | undefined,
+    options: PointCloudLoadOptions
+  ): Promise<PointCloudData> {
+    const resolvedFormat = format ?? detectFormatFromBytes(buffer);
+
+    switch (resolvedFormat) {
+      case 'ply': {
+        this._reportProgress(20, 'Parsing PLY file...');
+        await this._yieldToUI();
+        return await this._loadFromColumns(new PlyParser().parse(buffer), options);
+      }
+      case 'xyz':
+      case 'pts': {
+        this._reportProgress(20, 'Parsing text point file...');
+        await this._yieldToUI();
+        const parsed = new TextPointParser().parse(buffer, { delimiter: options.delimiter });
+        return await this._loadFromColumns(parsed, options);
+      }
+      default:
+        return await this._loadCopcFromBuffer(buffer);
+    }
+  }
+
+  /**
+   * Builds normalized point cloud data from parsed PLY or text columns.
+   * Applies the column mapping, scales intensity to 0-1 and colors to 8-bit,
+   * reprojects using the CRS hint and keeps unmapped columns as extra attributes.
+   *
+   * @param parsed - Parsed columns
+   * @param options - Load options with column mapping and CRS hint
+   * @returns Normalized point cloud data
+   */
+  private async _loadFromColumns(
+    parsed: ParsedPointColumns,
+    options: PointCloudLoadOptions
+  ): Promise<PointCloudData> {
+    const { pointCount, names, columns } = parsed;
+
+    // Resolve attribute columns
+    const resolved: Partial<Record<keyof ColumnMapping, string>> = {};
+    for (const key of Object.keys(COLUMN_ALIASES) as (keyof ColumnMapping)[]) {
+      const column = resolveColumn(names, options.columns?.[key], COLUMN_ALIASES[key]);
+      if (column) resolved[key] = column;
+    }
+    if (!resolved.x || !resolved.y || !resolved.z) {
+      throw new Error(
+        `Could not find x/y/z columns (available: ${names.join(', ')}). Use the columns option to map them.`
+      );
+    }
+
+    const xs = columns[resolved.x];
+    const ys = columns[resolved.y];
+    const zs = columns[resolved.z];
+
+    // Set up coordinate transformation from the CRS hint
+    let transformer: ((coord: [number, number]) => [number, number]) | null = null;
+    let verticalUnitFactor = 1.0;
+    let wkt: string | undefined;
+    if (options.crs) {
+      const isWkt = /^\s*(PROJCS|GEOGCS|COMPD_CS|PROJCRS|GEOGCRS|COMPOUNDCRS)\s*\[/i.test(options.crs);
+      const crsToUse = isWkt ? extractProjcsFromWkt(options.crs) : options.crs;
+      const projConverter = proj4(crsToUse, 'EPSG:4326');
+      transformer = (coord: [number, number]) => projConverter.forward(coord) as [number, number];
+      if (isWkt) {
+        wkt = options.crs;
+        verticalUnitFactor = getVerticalUnitConversionFactor(options.crs);
+      }
+    } else {
+      // Without a hint, only coordinates within lon/lat range can be placed on the map
+      let isGeographic = true;
+      for (let i = 0; i < pointCount; i++) {
+        if (Math.abs(xs[i]) > 180 || Math.abs(ys[i]) > 90) {
+          isGeographic = false;
+          break;
+        }
+      }
+      if (!isGeographic) {
+        console.warn('Coordinates are not in longitude/latitude range and no CRS was given; using them as-is');
+      }
+    }
+
+    this._reportProgress(60, `Processing ${pointCount.toLocaleString()} points...`);
+    await this._yieldToUI();
+
+    // Transform coordinates and compute bounds
+    const lngLat = new Float64Array(pointCount * 2);
+    const bounds: PointCloudBounds = {
+      minX: Infinity, minY: Infinity, minZ: Infinity,
+      maxX: -Infinity, maxY: -Infinity, maxZ: -Infinity,
+    };
+    for (let i = 0; i < pointCount; i++) {
+      let lng = xs[i];
+      let lat = ys[i];
+      if (transformer) {
+        [lng, lat] = transformer([lng, lat]);
+      }
+      const z = zs[i] * verticalUnitFactor;
+      lngLat[i * 2] = lng;
+      lngLat[i * 2 + 1] = lat;
+
+      if (lng < bounds.minX) bounds.minX = lng;
+      if (lng > bounds.maxX) bounds.maxX = lng;
+      if (lat < bounds.minY) bounds.minY = lat;
+      if (lat > bounds.maxY) bounds.maxY = lat;
+      if (z < bounds.minZ) bounds.minZ = z;
+      if (z > bounds.maxZ) bounds.maxZ = z;
+
+      if (i % 100000 === 0 && i > 0) {
+        const progress = 60 + (i / pointCount) * 30;
+        this._reportProgress(progress, `Processing points... ${i.toLocaleString()} / ${pointCount.toLocaleString()}`);
+        await this._yieldToUI();
+      }
+    }
+
+    const coordinateOrigin: [number, number, number] = [
+      (bounds.minX + bounds.maxX) / 2,
+      (bounds.minY + bounds.maxY) / 2,
+      0,
+    ];
+
+    const positions = new Float32Array(pointCount * 3);
+    for (let i = 0; i < pointCount; i++) {
+      positions[i * 3] = lngLat[i * 2] - coordinateOrigin[0];
+      positions[i * 3 + 1] = lngLat[i * 2 + 1] - coordinateOrigin[1];
+      positions[i * 3 + 2] = zs[i] * verticalUnitFactor;
+    }
+
+    this._reportProgress(90, 'Processing attributes...');
+    await this._yieldToUI();
+
+    // Intensity, normalized to 0-1 like LAS intensity / 65535
+    let intensities: Float32Array | undefined;
+    if (resolved.intensity) {
+      const source = columns[resolved.intensity];
+      const [min, max] = getRange(source);
+      let offset = 0;
+      let scale = 1;
+      if (min < 0 || max > 65535) {
+        offset = min;
+        scale = max > min ? 1 / (max - min) : 0;
+      } else if (max > 255) {
+        scale = 1 / 65535;
+      } else if (max > 1) {
+        scale = 1 / 255;
+      }
+      intensities = new Float32Array(pointCount);
+      for (let i = 0; i < pointCount; i++) {
+        intensities[i] = (source[i] - offset) * scale;
+      }
     }
+
+    // Classification
+    let classifications: Uint8Array | undefined;
+    if (resolved.classification) {
+      const source = columns[resolved.classification];
+      classifications = new Uint8Array(pointCount);
+      for (let i = 0; i < pointCount; i++) {
+        classifications[i] = Math.max(0, Math.min(255, Math.round(source[i])));
+      }
+    }
+
+    // RGB, scaled to 8-bit from 0-1 floats or 16-bit values
+    let colors: Uint8Array | undefined;
+    if (resolved.red && resolved.green && resolved.blue) {
+      const channels = [columns[resolved.red], columns[resolved.green], columns[resolved.blue]];
+      const maxValue = Math.max(...channels.map((c) => getRange(c)[1]));
+      const isFloat = channels.some((c) => c instanceof Float32Array || c instanceof Float64Array);
+      const scale = maxValue > 255 ? 1 / 257 : isFloat && maxValue <= 1 ? 255 : 1;
+      colors = new Uint8Array(pointCount * 4);
+      for (let i = 0; i < pointCount; i++) {
+        for (let c = 0; c < 3; c++) {
+          colors[i * 4 + c] = Math.max(0, Math.min(255, Math.round(channels[c][i] * scale)));
+        }
+        colors[i * 4 + 3] = 255;
+      }
+    }
+
+    // Keep remaining columns as extra attributes
+    const mappedColumns = new Set(Object.values(resolved));
+    const extraAttributes: ExtraPointAttributes = {};
+    for (const name of names) {
+      if (!mappedColumns.has(name)) {
+        extraAttributes[name] = columns[name];
+      }
+    }
+
+    this._reportProgress(95, 'Finalizing...');
+
+    return {
+      positions,
+      intensities,
+      classifications,
+      colors,
+      extraAttributes: Object.keys(extraAttributes).length > 0 ? extraAttributes : undefined,
+      pointCount,
+      bounds,
+      hasRGB: !!colors,
+      hasIntensity: !!intensities,
+      hasClassification: !!classifications,
+      coordinateOrigin,
+      wkt,
+    };
   }
 
   /**
@@ -219,11 +578,36 @@ export class PointCloudLoader {
     }
   }
 
+  /**
+   * Decodes point data on the worker pool, or on the main thread without one.
+   *
+   * @param task - Decode task
+   * @returns Decoded points
+   */
+  private _decode(task: PointDecodeTask): Promise<DecodedPoints> {
+    return this._workerPool ? this._workerPool.decode(task) : decodePoints(task);
+  }
+
   /**
    * Yields to the event loop to allow UI updates.
+   * Throws an AbortError if the current load has been cancelled.
    */
   private async _yieldToUI(): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, 0));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    throwIfAborted(this._signal);
+  }
+
+  /**
+   * Creates a copc.js source reading a kind of resource from a URL.
+   * Byte ranges are read through a getter when requests can be aborted or transformed.
+   *
+   * @param url - URL of the COPC file
+   * @param kind - Kind of resource read through the source
+   * @returns URL string or Getter function
+   */
+  private _createUrlSource(url: string, kind: RequestKind): string | Getter {
+    if (!this._signal && !this._transformRequest) return url;
+    return createUrlGetter(url, kind, this._signal, this._transformRequest);
   }
 
   /**
@@ -231,19 +615,13 @@ export class PointCloudLoader {
    * Falls back to loaders.gl for unsupported LAS versions (e.g., 1.3).
    */
   private async _loadCopcFromUrl(url: string): Promise<PointCloudData> {
-    this._reportProgress(5, 'Initializing decoder...');
-    await this._yieldToUI();
-
-    // Initialize LazPerf for decompression
-    const lazPerf = await getLazPerf();
-
     this._reportProgress(10, 'Reading file header...');
     await this._yieldToUI();
 
     // Parse COPC header and metadata
     let copc;
     try {
-      copc = await Copc.create(url);
+      copc = await Copc.create(this._createUrlSource(url, 'metadata'));
     } catch (error) {
       // Check if this is likely a CORS error
       if (error instanceof TypeError && error.message === 'Failed to fetch') {
@@ -272,9 +650,9 @@ export class PointCloudLoader {
     await this._yieldToUI();
 
     // Load the full hierarchy using URL as source
-    const hierarchy = await this._loadFullHierarchy(url, copc.info);
+    const hierarchy = await this._loadFullHierarchy(this._createUrlSource(url, 'hierarchy'), copc.info);
 
-    return await this._processCopcData(url, copc, hierarchy, lazPerf);
+    return await this._processCopcData(this._createUrlSource(url, 'data'), copc, hierarchy);
   }
 
   /**
@@ -304,7 +682,7 @@ export class PointCloudLoader {
       // Load the full hierarchy (all pages recursively)
       const hierarchy = await this._loadFullHierarchy(getter, copc.info);
 
-      return await this._processCopcData(getter, copc, hierarchy, lazPerf);
+      return await this._processCopcData(getter, copc, hierarchy);
     } catch (error) {
       // Check if this is an error that requires fallback:
       // - "Invalid version" - LAS version not supported by copc.js (only 1.2 and 1.4)
@@ -740,7 +1118,7 @@ export class PointCloudLoader {
     await this._yieldToUI();
 
     // Fetch the file
-    const response = await fetch(url);
+    const response = await fetchWithTransform(url, 'data', { signal: this._signal }, this._transformRequest);
     if (!response.ok) {
       throw new Error(`Failed to fetch: ${response.status} ${response.statusText}`);
     }
@@ -785,18 +1163,19 @@ export class PointCloudLoader {
 
   /**
    * Process COPC data and extract point cloud information.
+   * Nodes are decoded on the worker pool when one is configured.
    */
   private async _processCopcData(
     source: string | Getter,
     copc: CopcType,
-    hierarchy: Hierarchy.Subtree,
-    lazPerf: LazPerf
+    hierarchy: Hierarchy.Subtree
   ): Promise<PointCloudData> {
     const { header } = copc;
 
     // Setup coordinate transformation if WKT is available
     let transformer: ((coord: [number, number]) => [number, number]) | null = null;
     let needsTransform = false;
+    let projection: string | null = null;
     let verticalUnitFactor = 1.0; // Conversion factor for elevation (feet to meters)
 
     if (copc.wkt) {
@@ -808,6 +1187,7 @@ export class PointCloudLoader {
         const projConverter = proj4(wktToUse, 'EPSG:4326');
         transformer = (coord: [number, number]) => projConverter.forward(coord) as [number, number];
         needsTransform = true;
+        projection = wktToUse;
 
         // Detect if vertical units are in feet and need conversion to meters
         verticalUnitFactor = getVerticalUnitConversionFactor(copc.wkt);
@@ -890,117 +1270,77 @@ export class PointCloudLoader {
     // First pass flag - we'll detect dimensions on first node
     let dimensionsDetected = false;
 
-    let pointIndex = 0;
-    let lastYieldTime = Date.now();
-    const YIELD_INTERVAL_MS = 50; // Yield every 50ms to keep UI responsive
+    const getter = Getter.create(source);
+    const decodeNode = async (node: Hierarchy.Node): Promise<DecodedPoints | null> => {
+      try {
+        const buffer = await Copc.loadCompressedPointDataBuffer(getter, node);
+        return await this._decode({
+          type: 'copc-chunk',
+          buffer,
+          header,
+          eb: copc.eb,
+          pointCount: node.pointCount,
+          hasColor,
+          projection,
+          verticalUnitFactor,
+          coordinateOrigin,
+          clampCoordinates: false,
+        });
+      } catch (e) {
+        if (isAbortError(e)) throw e;
+        console.warn(`Failed to load node: ${e}`);
+        return null;
+      }
+    };
 
-    // Load point data from each node
-    for (let nodeIdx = 0; nodeIdx < nodesToLoad.length; nodeIdx++) {
-      const { node } = nodesToLoad[nodeIdx];
+    // Decode nodes in batches - in parallel when a worker pool is available
+    const batchSize = this._workerPool?.isAvailable() ? this._workerPool.size : 1;
+    let pointIndex = 0;
 
+    for (let batchStart = 0; batchStart < nodesToLoad.length; batchStart += batchSize) {
       // Report progress (25-90% range for point loading)
-      const loadProgress = 25 + (nodeIdx / nodesToLoad.length) * 65;
+      const loadProgress = 25 + (batchStart / nodesToLoad.length) * 65;
       const pointsLoaded = pointIndex.toLocaleString();
       this._reportProgress(loadProgress, `Loading points... ${pointsLoaded} / ${totalPoints.toLocaleString()}`);
 
-      try {
-        const view = await Copc.loadPointDataView(source, copc, node, { lazPerf });
+      const batch = nodesToLoad.slice(batchStart, batchStart + batchSize);
+      const decodedNodes = await Promise.all(batch.map(({ node }) => decodeNode(node)));
+
+      for (const decoded of decodedNodes) {
+        if (!decoded) continue;
 
         // On first node, detect all available dimensions
         if (!dimensionsDetected) {
-          // Get all dimension names from the view
-          const allDimensions = Object.keys(view.dimensions || {});
-          for (const dimName of allDimensions) {
-            if (!CORE_DIMENSIONS.has(dimName)) {
-              availableDimensions.add(dimName);
-              // Allocate array for this dimension
-              const config = DIMENSION_CONFIGS[dimName] || { arrayType: 'float32' };
-              extraAttributes[dimName] = createAttributeArray(config.arrayType, totalPoints);
-            }
+          for (const dimName of decoded.dimensions) {
+            availableDimensions.add(dimName);
+            // Allocate array for this dimension
+            const config = DIMENSION_CONFIGS[dimName] || { arrayType: 'float32' };
+            extraAttributes[dimName] = createAttributeArray(config.arrayType, totalPoints);
           }
           dimensionsDetected = true;
         }
 
-        // Get dimensions - core attributes
-        const xGetter = view.getter('X');
-        const yGetter = view.getter('Y');
-        const zGetter = view.getter('Z');
-        const intensityGetter = view.getter('Intensity');
-        const classGetter = view.getter('Classification');
-        const redGetter = hasColor ? view.getter('Red') : null;
-        const greenGetter = hasColor ? view.getter('Green') : null;
-        const blueGetter = hasColor ? view.getter('Blue') : null;
-
-        // Build getters for all available extra dimensions
-        const extraGetters: Map<string, (i: number) => number> = new Map();
-        for (const dimName of availableDimensions) {
-          try {
-            const getter = view.getter(dimName);
-            if (getter) {
-              extraGetters.set(dimName, getter);
-            }
-          } catch {
-            // Dimension not available in this node, skip
-          }
+        // Positions are already stored as offsets from coordinateOrigin by the decoder
+        positions.set(decoded.positions, pointIndex * 3);
+        intensities.set(decoded.intensities, pointIndex);
+        classifications.set(decoded.classifications, pointIndex);
+        if (colors && decoded.colors) {
+          colors.set(decoded.colors, pointIndex * 4);
         }
 
-        for (let i = 0; i < node.pointCount; i++) {
-          // copc.js getters already return scaled/offset coordinates, NOT raw integers
-          const x = xGetter(i);
-          const y = yGetter(i);
-          const z = zGetter(i);
-
-          // Transform coordinates to WGS84 if needed
-          if (needsTransform && transformer) {
-            const [lng, lat] = transformer([x, y]);
-
-            // Store as OFFSET from coordinateOrigin - these small values maintain Float32 precision
-            positions[pointIndex * 3] = lng - coordinateOrigin[0];
-            positions[pointIndex * 3 + 1] = lat - coordinateOrigin[1];
-            positions[pointIndex * 3 + 2] = z * verticalUnitFactor; // elevation in meters
-          } else {
-            positions[pointIndex * 3] = x - coordinateOrigin[0];
-            positions[pointIndex * 3 + 1] = y - coordinateOrigin[1];
-            positions[pointIndex * 3 + 2] = z;
-          }
-
-          // Intensity (normalize to 0-1)
-          intensities[pointIndex] = intensityGetter(i) / 65535;
-
-          // Classification
-          classifications[pointIndex] = classGetter(i);
-
-          // Color (if available)
-          if (colors && redGetter && greenGetter && blueGetter) {
-            // LAS colors are 16-bit, convert to 8-bit
-            colors[pointIndex * 4] = redGetter(i) >> 8;
-            colors[pointIndex * 4 + 1] = greenGetter(i) >> 8;
-            colors[pointIndex * 4 + 2] = blueGetter(i) >> 8;
-            colors[pointIndex * 4 + 3] = 255;
-          }
-
-          // Extra attributes - dynamically loaded based on available dimensions
-          for (const [dimName, getter] of extraGetters) {
-            const arr = extraAttributes[dimName];
-            if (arr) {
-              arr[pointIndex] = getter(i);
-            }
-          }
-
-          pointIndex++;
-
-          // Periodically yield to the UI thread
-          if (i % 50000 === 0) {
-            const now = Date.now();
-            if (now - lastYieldTime > YIELD_INTERVAL_MS) {
-              await this._yieldToUI();
-              lastYieldTime = now;
-            }
+        // Extra attributes - dynamically loaded based on available dimensions
+        for (const dimName of availableDimensions) {
+          const values = decoded.extraAttributes[dimName];
+          if (values) {
+            extraAttributes[dimName].set(values, pointIndex);
           }
         }
-      } catch (e) {
-        console.warn(`Failed to load node: ${e}`);
+
+        pointIndex += decoded.pointCount;
       }
+
+      // Yield to the UI thread between batches
+      await this._yieldToUI();
     }
 
     this._reportProgress(92, 'Processing complete, preparing visualization...');
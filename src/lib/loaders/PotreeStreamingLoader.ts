@@ -0,0 +1,1684 @@
+import { parse } from '@loaders.gl/core';
+import { LASLoader } from '@loaders.gl/las';
+import proj4 from 'proj4';
+import type {
+  NodeKey,
+  ViewportInfo,
+  StreamingProgressEvent,
+  StreamingLoaderEvent,
+  StreamingLoaderEventHandler,
+  FailedNodeInfo,
+  RetryState,
+  PointColorizer,
+} from './streaming-types';
+import type {
+  PotreeStreamingLoaderOptions,
+  Potree1Metadata,
+  Potree2Metadata,
+  PotreeCachedNode,
+  PotreeParsedAttribute,
+} from './potree-types';
+import type { PointCloudData, ExtraPointAttributes, AttributeArray, RequestKind } from './types';
+import type { PointCloudBounds, DimensionInfo, PotreeExtendedMetadata } from '../core/types';
+import { fetchWithTransform } from '../utils/request';
+import { getRetryDelay } from '../utils/helpers';
+import { NodeColorizer } from './NodeColorizer';
+import { NodeRetrier } from './NodeRetrier';
+import { compactNodeBuffers } from './NodeBuffers';
+
+/**
+ * Potree 2.0 attribute names mapped to the names used by the other loaders
+ */
+const POTREE2_ATTRIBUTE_NAMES: Record<string, string> = {
+  'position': 'position',
+  'rgb': 'rgb',
+  'rgba': 'rgba',
+  'intensity': 'intensity',
+  'classification': 'classification',
+  'return number': 'ReturnNumber',
+  'number of returns': 'NumberOfReturns',
+  'gps-time': 'GpsTime',
+  'point source id': 'PointSourceId',
+  'scan angle rank': 'ScanAngleRank',
+  'scan angle': 'ScanAngle',
+  'user data': 'UserData',
+  'classification flags': 'ClassFlags',
+  'scanner channel': 'ScannerChannel',
+  'scan direction flag': 'ScanDirectionFlag',
+  'edge of flight line': 'EdgeOfFlightLine',
+};
+
+/**
+ * Potree 1.x point attribute layouts. Attributes with an empty name are skipped.
+ */
+const POTREE1_ATTRIBUTES: Record<string, Omit<PotreeParsedAttribute, 'byteOffset'>> = {
+  POSITION_CARTESIAN: { name: 'position', numElements: 3, type: 'uint32', elementSize: 4 },
+  COLOR_PACKED: { name: 'rgba', numElements: 4, type: 'uint8', elementSize: 1 },
+  RGBA_PACKED: { name: 'rgba', numElements: 4, type: 'uint8', elementSize: 1 },
+  RGB_PACKED: { name: 'rgb', numElements: 3, type: 'uint8', elementSize: 1 },
+  INTENSITY: { name: 'intensity', numElements: 1, type: 'uint16', elementSize: 2 },
+  CLASSIFICATION: { name: 'classification', numElements: 1, type: 'uint8', elementSize: 1 },
+  RETURN_NUMBER: { name: 'ReturnNumber', numElements: 1, type: 'uint8', elementSize: 1 },
+  NUMBER_OF_RETURNS: { name: 'NumberOfReturns', numElements: 1, type: 'uint8', elementSize: 1 },
+  SOURCE_ID: { name: 'PointSourceId', numElements: 1, type: 'uint16', elementSize: 2 },
+  GPS_TIME: { name: 'GpsTime', numElements: 1, type: 'double', elementSize: 8 },
+  NORMAL_SPHEREMAPPED: { name: '', numElements: 2, type: 'uint8', elementSize: 1 },
+  NORMAL_OCT16: { name: '', numElements: 2, type: 'uint8', elementSize: 1 },
+  NORMAL: { name: '', numElements: 3, type: 'float', elementSize: 4 },
+  SPACING: { name: '', numElements: 1, type: 'float', elementSize: 4 },
+  INDICES: { name: '', numElements: 1, type: 'uint32', elementSize: 4 },
+  FILLER_1B: { name: '', numElements: 1, type: 'uint8', elementSize: 1 },
+};
+
+/**
+ * Attributes that are copied into the core buffers rather than extra attributes
+ */
+const CORE_ATTRIBUTES = new Set(['position', 'rgb', 'rgba', 'intensity', 'classification']);
+
+/**
+ * Size in bytes of a Potree 2.0 hierarchy record
+ */
+const POTREE2_HIERARCHY_RECORD_SIZE = 22;
+
+/**
+ * Size in bytes of a Potree 1.x .hrc record
+ */
+const POTREE1_HIERARCHY_RECORD_SIZE = 5;
+
+/**
+ * Reads a little-endian value of a Potree element type
+ */
+function readValue(view: DataView, offset: number, type: string): number {
+  switch (type) {
+    case 'int8': return view.getInt8(offset);
+    case 'uint8': return view.getUint8(offset);
+    case 'int16': return view.getInt16(offset, true);
+    case 'uint16': return view.getUint16(offset, true);
+    case 'int32': return view.getInt32(offset, true);
+    case 'uint32': return view.getUint32(offset, true);
+    case 'int64': return Number(view.getBigInt64(offset, true));
+    case 'uint64': return Number(view.getBigUint64(offset, true));
+    case 'float': return view.getFloat32(offset, true);
+    case 'double': return view.getFloat64(offset, true);
+    default: return 0;
+  }
+}
+
+/**
+ * Creates a typed array able to hold values of a Potree element type
+ */
+function createAttributeArray(type: string, length: number): AttributeArray {
+  switch (type) {
+    case 'int8': return new Int8Array(length);
+    case 'uint8': return new Uint8Array(length);
+    case 'int16': return new Int16Array(length);
+    case 'uint16': return new Uint16Array(length);
+    case 'int32': return new Int32Array(length);
+    case 'uint32': return new Uint32Array(length);
+    case 'double':
+    case 'int64':
+    case 'uint64': return new Float64Array(length);
+    default: return new Float32Array(length);
+  }
+}
+
+/**
+ * Resolves a path against the URL of the metadata file that references it
+ */
+function resolveUrl(uri: string, baseUrl: string): string {
+  try {
+    const base = typeof window !== 'undefined' ? new URL(baseUrl, window.location.href) : new URL(baseUrl);
+    return new URL(uri, base).href;
+  } catch {
+    if (/^[a-z]+:\/\//i.test(uri) || uri.startsWith('/')) return uri;
+    return baseUrl.slice(0, baseUrl.lastIndexOf('/') + 1) + uri;
+  }
+}
+
+/**
+ * Clamps latitude and longitude values to valid WGS84 ranges.
+ * Logs a warning if clamping occurs and a context is given.
+ *
+ * @param lng - Longitude value
+ * @param lat - Latitude value
+ * @param context - Context string for logging (e.g., "header bounds", "node bounds")
+ * @returns Clamped [lng, lat] tuple
+ */
+function clampLatLng(lng: number, lat: number, context: string = ''): [number, number] {
+  const clampedLng = Math.max(-180, Math.min(180, lng));
+  const clampedLat = Math.max(-90, Math.min(90, lat));
+
+  if ((clampedLng !== lng || clampedLat !== lat) && context) {
+    console.warn(
+      `Potree: Clamped transformed coordinates to valid WGS84 range (${context}):`,
+      `[${lng.toFixed(6)}, ${lat.toFixed(6)}] -> [${clampedLng.toFixed(6)}, ${clampedLat.toFixed(6)}]`
+    );
+  }
+
+  return [clampedLng, clampedLat];
+}
+
+/**
+ * Extracts the PROJCS section from a WKT string (handles COMPD_CS)
+ */
+function extractProjcsFromWkt(wkt: string): string {
+  if (wkt.startsWith('COMPD_CS[')) {
+    const projcsStart = wkt.indexOf('PROJCS[');
+    if (projcsStart === -1) return wkt;
+
+    let depth = 0;
+    let projcsEnd = projcsStart;
+    for (let i = projcsStart; i < wkt.length; i++) {
+      if (wkt[i] === '[') depth++;
+      if (wkt[i] === ']') {
+        depth--;
+        if (depth === 0) {
+          projcsEnd = i + 1;
+          break;
+        }
+      }
+    }
+    return wkt.substring(projcsStart, projcsEnd);
+  }
+  return wkt;
+}
+
+/**
+ * Detects if the projection uses feet as the linear unit.
+ * Potree converters write either a proj4 string or WKT.
+ */
+function getVerticalUnitConversionFactor(projection: string): number {
+  const FEET_TO_METERS = 0.3048;
+  const US_SURVEY_FEET_TO_METERS = 0.3048006096012192;
+
+  const toMeter = projection.match(/\+to_meter=([\d.]+)/);
+  if (toMeter) {
+    return parseFloat(toMeter[1]) || 1.0;
+  }
+
+  const lower = projection.toLowerCase();
+
+  if (lower.includes('+units=us-ft') ||
+      lower.includes('us survey foot') ||
+      lower.includes('us_survey_foot') ||
+      lower.includes('foot_us')) {
+    return US_SURVEY_FEET_TO_METERS;
+  }
+
+  const footPatterns = [
+    /\+units=ft\b/i,
+    /unit\s*\[\s*"foot/i,
+    /unit\s*\[\s*"international foot/i,
+    /,\s*foot\s*\]/i,
+    /"ft"/i,
+  ];
+
+  for (const pattern of footPatterns) {
+    if (pattern.test(projection)) {
+      return FEET_TO_METERS;
+    }
+  }
+
+  return 1.0;
+}
+
+/**
+ * Default options for the Potree streaming loader
+ */
+const DEFAULT_OPTIONS: Required<PotreeStreamingLoaderOptions> = {
+  pointBudget: 5_000_000,
+  maxConcurrentRequests: 8,
+  viewportDebounceMs: 100,
+  minDetailZoom: 10,
+  maxOctreeDepth: 20,
+  maxSubtreesPerViewport: 60,
+  projection: '',
+  workerUrl: null, // Not used by Potree, but required by interface
+  workerCount: 0,
+  transformRequest: null,
+  maxRetries: 3,
+  retryDelayMs: 1000,
+  retryFailedOnView: false,
+  persistentCache: null, // Not used by Potree, but required by interface
+  screenSpaceErrorThreshold: 2, // Not used by Potree, but required by interface
+};
+
+/**
+ * Streams Potree octrees on-demand based on viewport.
+ * Implements center-first priority loading and respects point budget.
+ *
+ * Supported layouts:
+ * - Potree 2.0: metadata.json, hierarchy.bin and octree.bin (DEFAULT encoding),
+ *   read with HTTP range requests
+ * - Potree 1.x: cloud.js with per-node .hrc hierarchy files and .bin, .las or .laz point files
+ *
+ * Node names follow the Potree convention ("r" for the root followed by one
+ * child index per level). Hierarchy chunks are loaded on demand when they
+ * intersect the viewport.
+ */
+export class PotreeStreamingLoader {
+  private _url: string;
+  private _options: Required<PotreeStreamingLoaderOptions>;
+  private _metadata: Potree1Metadata | Potree2Metadata | null = null;
+  private _majorVersion: number = 2;
+  private _encoding: string = 'DEFAULT';
+
+  // Octree layout
+  private _octreeMin: [number, number, number] = [0, 0, 0];
+  private _octreeSize: [number, number, number] = [0, 0, 0];
+  private _scale: [number, number, number] = [1, 1, 1];
+  private _offset: [number, number, number] = [0, 0, 0];
+  private _spacing: number = 1;
+  private _attributes: PotreeParsedAttribute[] = [];
+  private _pointByteLength: number = 0;
+  private _colorShift: number = 0;
+
+  // Hierarchy loading
+  private _hierarchyLoading: Set<string> = new Set();
+  private _hierarchyFailures: Map<string, RetryState> = new Map();
+
+  // Node cache
+  private _nodeCache: Map<string, PotreeCachedNode> = new Map();
+
+  // Point data buffers
+  private _positions: Float32Array | null = null;
+  private _colors: Uint8Array | null = null;
+  private _intensities: Float32Array | null = null;
+  private _classifications: Uint8Array | null = null;
+  private _nodeDepths: Uint8Array | null = null;
+  private _extraAttributes: ExtraPointAttributes = {};
+  private _coordinateOrigin: [number, number, number] = [0, 0, 0];
+  private _bounds: PointCloudBounds | null = null;
+
+  // Loading state
+  private _loadingQueue: PotreeCachedNode[] = [];
+  private _activeRequests: number = 0;
+  private _totalLoadedPoints: number = 0;
+  private _totalLoadedNodes: number = 0;
+  // Whether failed loads left gaps between the ranges of loaded nodes
+  private _hasBufferGaps: boolean = false;
+  private _isInitialized: boolean = false;
+
+  // Coordinate transformation
+  private _projection: string | undefined;
+  private _transformer: ((coord: [number, number]) => [number, number]) | null = null;
+  private _verticalUnitFactor: number = 1.0;
+  private _needsTransform: boolean = false;
+
+  // Point format info
+  private _hasColor: boolean = false;
+  private _hasIntensity: boolean = false;
+  private _hasClassification: boolean = false;
+
+  // Events
+  private _eventHandlers: Map<StreamingLoaderEvent, Set<StreamingLoaderEventHandler>> = new Map();
+
+  // Batched layer update
+  private _pendingLayerUpdate: boolean = false;
+  private _updateBatchTimeout: ReturnType<typeof setTimeout> | null = null;
+  private _onPointsLoaded?: (data: PointCloudData) => void;
+
+  // Aborts in-flight requests on destroy
+  private _abortController: AbortController = new AbortController();
+
+  // Colors points with a colorizer set by setColorizer()
+  private _nodeColorizer: NodeColorizer = new NodeColorizer({
+    getPositions: () => this._positions,
+    getColors: () => {
+      if (!this._colors) {
+        this._colors = new Uint8Array(this._options.pointBudget * 4);
+      }
+      return this._colors;
+    },
+    getCoordinateOrigin: () => this._coordinateOrigin,
+    signal: this._abortController.signal,
+  });
+
+  // Retries of failed requests
+  private _nodeRetrier: NodeRetrier<PotreeCachedNode> = new NodeRetrier<PotreeCachedNode>({
+    getOptions: () => this._options,
+    nodeLabel: 'Potree node',
+    retry: (node) => {
+      if (!this._lastViewport || !this._boundsIntersectsViewport(node.boundsWgs84, this._lastViewport)) return;
+      this.queueNode(node);
+      this.loadQueuedNodes();
+    },
+    onFailed: (node) => this._emit('nodefailed', node),
+  });
+  private _lastViewport: ViewportInfo | null = null;
+
+  private _isResetting: boolean = false;
+
+  /**
+   * Creates a new PotreeStreamingLoader instance.
+   *
+   * @param url - URL to metadata.json (Potree 2.0) or cloud.js (Potree 1.x)
+   * @param options - Streaming options
+   */
+  constructor(url: string, options?: PotreeStreamingLoaderOptions) {
+    this._url = url;
+    this._options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Initializes the Potree dataset - reads metadata and sets up the root node.
+   * Must be called before any loading operations.
+   *
+   * @returns Initial info about the point cloud
+   */
+  async initialize(): Promise<{
+    bounds: PointCloudBounds;
+    totalPoints: number;
+    hasRGB: boolean;
+    hasIntensity: boolean;
+    hasClassification: boolean;
+    spacing: number;
+  }> {
+    let json: Record<string, unknown>;
+    try {
+      const response = await this._fetch(this._url, 'metadata');
+      if (!response.ok) {
+        throw new Error(`Failed to fetch Potree metadata: ${response.status} ${response.statusText}`);
+      }
+      json = await response.json();
+    } catch (error) {
+      if (error instanceof TypeError && error.message === 'Failed to fetch') {
+        throw new Error(
+          `Failed to fetch from URL. This is likely a CORS (Cross-Origin Resource Sharing) error. ` +
+          `The server doesn't allow requests from this origin. ` +
+          `Solutions: (1) Use a CORS proxy, or (2) Host the Potree data on a CORS-enabled server.`
+        );
+      }
+      throw error;
+    }
+
+    let tightBounds: number[];
+    if ('octreeDir' in json) {
+      tightBounds = this._initializePotree1(json as unknown as Potree1Metadata);
+    } else if ('hierarchy' in json && 'attributes' in json) {
+      tightBounds = this._initializePotree2(json as unknown as Potree2Metadata);
+    } else {
+      throw new Error('Unrecognized Potree metadata: expected cloud.js (1.x) or metadata.json (2.0)');
+    }
+
+    this._hasColor = this._attributes.some(a => a.name === 'rgb' || a.name === 'rgba');
+    this._hasIntensity = this._attributes.some(a => a.name === 'intensity');
+    this._hasClassification = this._attributes.some(a => a.name === 'classification');
+
+    // Setup coordinate transformation
+    this._projection = this._metadata!.projection || this._options.projection || undefined;
+    if (this._projection) {
+      try {
+        const wkt = this.getWkt();
+        const source = wkt ? extractProjcsFromWkt(wkt) : this._projection;
+        const projConverter = proj4(source, 'EPSG:4326');
+        this._transformer = (coord: [number, number]) =>
+          projConverter.forward(coord) as [number, number];
+        this._needsTransform = true;
+        this._verticalUnitFactor = getVerticalUnitConversionFactor(this._projection);
+      } catch (e) {
+        console.warn('Failed to setup Potree coordinate transformation:', e);
+      }
+    }
+
+    const [minX, minY, minZ, maxX, maxY, maxZ] = tightBounds;
+
+    if (this._needsTransform && this._transformer) {
+      const [rawMinLng, rawMinLat] = this._transformer([minX, minY]);
+      const [rawMaxLng, rawMaxLat] = this._transformer([maxX, maxY]);
+
+      if (!isFinite(rawMinLng) || !isFinite(rawMinLat) || !isFinite(rawMaxLng) || !isFinite(rawMaxLat)) {
+        console.error('Potree coordinate transformation produced invalid bounds:', {
+          input: { minX, minY, maxX, maxY },
+          output: { rawMinLng, rawMinLat, rawMaxLng, rawMaxLat }
+        });
+        // Fall back to source coordinates
+        this._bounds = { minX, minY, minZ, maxX, maxY, maxZ };
+        this._needsTransform = false;
+        this._transformer = null;
+      } else {
+        const [minLng, minLat] = clampLatLng(rawMinLng, rawMinLat, 'header bounds min');
+        const [maxLng, maxLat] = clampLatLng(rawMaxLng, rawMaxLat, 'header bounds max');
+
+        this._bounds = {
+          minX: Math.min(minLng, maxLng),
+          minY: Math.min(minLat, maxLat),
+          minZ: minZ * this._verticalUnitFactor,
+          maxX: Math.max(minLng, maxLng),
+          maxY: Math.max(minLat, maxLat),
+          maxZ: maxZ * this._verticalUnitFactor,
+        };
+      }
+    } else {
+      if (Math.abs(minX) > 180 || Math.abs(maxX) > 180 || Math.abs(minY) > 90 || Math.abs(maxY) > 90) {
+        console.warn(
+          'Potree dataset has no projection and coordinates are outside the longitude/latitude range. ' +
+          'Pass the projection option to place it on the map.'
+        );
+      }
+      this._bounds = { minX, minY, minZ, maxX, maxY, maxZ };
+    }
+
+    // Coordinate origin is the center of the bounding box
+    this._coordinateOrigin = [
+      (this._bounds.minX + this._bounds.maxX) / 2,
+      (this._bounds.minY + this._bounds.maxY) / 2,
+      0,
+    ];
+
+    // The root's hierarchy is loaded on the first viewport selection
+    const root = this._createNode('r');
+    if (this._majorVersion >= 2) {
+      const meta = this._metadata as Potree2Metadata;
+      root.hierarchyByteOffset = 0;
+      root.hierarchyByteSize = meta.hierarchy.firstChunkSize;
+    }
+    this._nodeCache.set(root.key, root);
+
+    // Pre-allocate buffers
+    this._allocateBuffers();
+
+    this._isInitialized = true;
+
+    return {
+      bounds: this._bounds,
+      totalPoints: this._metadata!.points ?? 0,
+      hasRGB: this._hasColor || this._nodeColorizer.isActive(),
+      hasIntensity: this._hasIntensity,
+      hasClassification: this._hasClassification,
+      spacing: this._spacing,
+    };
+  }
+
+  /**
+   * Reads the octree layout and attributes of a Potree 2.0 metadata.json.
+   *
+   * @param meta - Parsed metadata.json
+   * @returns Tight bounds in source CRS [minX, minY, minZ, maxX, maxY, maxZ]
+   */
+  private _initializePotree2(meta: Potree2Metadata): number[] {
+    this._metadata = meta;
+    this._majorVersion = parseInt(meta.version, 10) || 2;
+    this._encoding = meta.encoding || 'DEFAULT';
+
+    if (this._encoding !== 'DEFAULT') {
+      throw new Error(
+        `Potree 2.0 ${this._encoding} encoding is not supported. ` +
+        `Convert the dataset with PotreeConverter --encoding DEFAULT.`
+      );
+    }
+
+    const { min, max } = meta.boundingBox;
+    this._octreeMin = [min[0], min[1], min[2]];
+    this._octreeSize = [max[0] - min[0], max[1] - min[1], max[2] - min[2]];
+    this._scale = meta.scale;
+    this._offset = meta.offset;
+    this._spacing = meta.spacing;
+
+    let byteOffset = 0;
+    this._attributes = [];
+    for (const attr of meta.attributes) {
+      this._attributes.push({
+        name: POTREE2_ATTRIBUTE_NAMES[attr.name.toLowerCase()] ?? attr.name,
+        byteOffset,
+        numElements: attr.numElements,
+        type: attr.type,
+        elementSize: attr.elementSize,
+      });
+      byteOffset += attr.size;
+    }
+    this._pointByteLength = byteOffset;
+
+    // 16-bit colors are only rescaled when the data actually uses the 16-bit range
+    const rgb = meta.attributes.find(a => a.name.toLowerCase() === 'rgb');
+    if (rgb && rgb.elementSize === 2) {
+      this._colorShift = rgb.max && rgb.max.every(v => v <= 255) ? 0 : 8;
+    }
+
+    // Prefer the position attribute's min/max (tight bounds) over the cubic octree bounds
+    const position = meta.attributes.find(a => a.name === 'position');
+    if (position?.min && position.max && position.min.length >= 3 && position.max.length >= 3) {
+      return [...position.min.slice(0, 3), ...position.max.slice(0, 3)];
+    }
+    return [...min, ...max];
+  }
+
+  /**
+   * Reads the octree layout and attributes of a Potree 1.x cloud.js.
+   *
+   * @param meta - Parsed cloud.js
+   * @returns Tight bounds in source CRS [minX, minY, minZ, maxX, maxY, maxZ]
+   */
+  private _initializePotree1(meta: Potree1Metadata): number[] {
+    this._metadata = meta;
+    this._majorVersion = 1;
+
+    const bbox = meta.boundingBox;
+    this._octreeMin = [bbox.lx, bbox.ly, bbox.lz];
+    this._octreeSize = [bbox.ux - bbox.lx, bbox.uy - bbox.ly, bbox.uz - bbox.lz];
+    this._scale = [meta.scale, meta.scale, meta.scale];
+    this._spacing = meta.spacing;
+
+    this._attributes = [];
+    if (typeof meta.pointAttributes === 'string') {
+      // Nodes are stored as LAS/LAZ files with absolute coordinates
+      this._encoding = meta.pointAttributes;
+    } else {
+      this._encoding = 'BINARY';
+      let byteOffset = 0;
+      for (const name of meta.pointAttributes) {
+        const layout = POTREE1_ATTRIBUTES[name];
+        if (!layout) {
+          throw new Error(`Unsupported Potree point attribute: ${name}`);
+        }
+        this._attributes.push({ ...layout, byteOffset });
+        byteOffset += layout.numElements * layout.elementSize;
+      }
+      this._pointByteLength = byteOffset;
+    }
+
+    const tight = meta.tightBoundingBox ?? bbox;
+    return [tight.lx, tight.ly, tight.lz, tight.ux, tight.uy, tight.uz];
+  }
+
+  /**
+   * Pre-allocates buffers for the point budget.
+   */
+  private _allocateBuffers(): void {
+    const budget = this._options.pointBudget;
+    this._positions = new Float32Array(budget * 3);
+    this._intensities = new Float32Array(budget);
+    this._classifications = new Uint8Array(budget);
+    this._nodeDepths = new Uint8Array(budget);
+    if (this._hasColor) {
+      this._colors = new Uint8Array(budget * 4);
+    }
+    for (const attr of this._attributes) {
+      if (attr.name && !CORE_ATTRIBUTES.has(attr.name) && attr.numElements === 1) {
+        this._extraAttributes[attr.name] = createAttributeArray(attr.type, budget);
+      }
+    }
+  }
+
+  /**
+   * Gets the octree spacing value.
+   */
+  getSpacing(): number {
+    return this._spacing;
+  }
+
+  /**
+   * Creates a cache entry for a node from its name.
+   *
+   * @param name - Potree node name (e.g., "r024")
+   * @returns New node in 'subtree' state (no hierarchy record loaded yet)
+   */
+  private _createNode(name: string): PotreeCachedNode {
+    const keyArray = this._parseNodeName(name);
+    const { bounds, boundsWgs84 } = this._calculateNodeBounds(keyArray);
+    return {
+      key: name,
+      keyArray,
+      state: 'subtree',
+      pointCount: 0,
+      bounds,
+      boundsWgs84,
+      hierarchyPending: true,
+    };
+  }
+
+  /**
+   * Converts a Potree node name to an octree key.
+   * Each child index encodes x in bit 2, y in bit 1 and z in bit 0.
+   *
+   * @param name - Potree node name (e.g., "r024")
+   * @returns NodeKey array [depth, x, y, z]
+   */
+  private _parseNodeName(name: string): NodeKey {
+    let x = 0;
+    let y = 0;
+    let z = 0;
+    for (let i = 1; i < name.length; i++) {
+      const index = name.charCodeAt(i) - 48;
+      x = x * 2 + ((index & 4) >> 2);
+      y = y * 2 + ((index & 2) >> 1);
+      z = z * 2 + (index & 1);
+    }
+    return [name.length - 1, x, y, z];
+  }
+
+  /**
+   * Calculates the bounding box of an octree node.
+   *
+   * @param key - Node key [depth, x, y, z]
+   * @returns Node bounds in source CRS and WGS84
+   */
+  private _calculateNodeBounds(key: NodeKey): {
+    bounds: PointCloudBounds;
+    boundsWgs84: PointCloudBounds;
+  } {
+    const [depth, x, y, z] = key;
+    const scale = 1 / Math.pow(2, depth);
+    const sizeX = this._octreeSize[0] * scale;
+    const sizeY = this._octreeSize[1] * scale;
+    const sizeZ = this._octreeSize[2] * scale;
+
+    const minX = this._octreeMin[0] + x * sizeX;
+    const minY = this._octreeMin[1] + y * sizeY;
+    const minZ = this._octreeMin[2] + z * sizeZ;
+
+    const bounds: PointCloudBounds = {
+      minX,
+      minY,
+      minZ,
+      maxX: minX + sizeX,
+      maxY: minY + sizeY,
+      maxZ: minZ + sizeZ,
+    };
+
+    // Transform to WGS84 for viewport intersection
+    let boundsWgs84 = bounds;
+    if (this._needsTransform && this._transformer) {
+      const [rawSwLng, rawSwLat] = this._transformer([minX, minY]);
+      const [rawNeLng, rawNeLat] = this._transformer([minX + sizeX, minY + sizeY]);
+
+      const [swLng, swLat] = clampLatLng(rawSwLng, rawSwLat, 'node bounds SW');
+      const [neLng, neLat] = clampLatLng(rawNeLng, rawNeLat, 'node bounds NE');
+
+      boundsWgs84 = {
+        minX: Math.min(swLng, neLng),
+        minY: Math.min(swLat, neLat),
+        minZ: minZ * this._verticalUnitFactor,
+        maxX: Math.max(swLng, neLng),
+        maxY: Math.max(swLat, neLat),
+        maxZ: (minZ + sizeZ) * this._verticalUnitFactor,
+      };
+    }
+
+    return { bounds, boundsWgs84 };
+  }
+
+  /**
+   * Checks if a node's bounds intersect the viewport.
+   *
+   * @param nodeBounds - Node bounds in WGS84
+   * @param viewport - Current viewport info
+   * @returns True if bounds intersect
+   */
+  private _boundsIntersectsViewport(
+    nodeBounds: PointCloudBounds,
+    viewport: ViewportInfo
+  ): boolean {
+    const [west, south, east, north] = viewport.bounds;
+
+    // Add 20% buffer around viewport
+    const bufferX = (east - west) * 0.2;
+    const bufferY = (north - south) * 0.2;
+
+    return !(
+      nodeBounds.maxX < west - bufferX ||
+      nodeBounds.minX > east + bufferX ||
+      nodeBounds.maxY < south - bufferY ||
+      nodeBounds.minY > north + bufferY
+    );
+  }
+
+  /**
+   * Calculates node priority based on distance from viewport center.
+   *
+   * @param nodeBounds - Node bounds in WGS84
+   * @param viewport - Current viewport info
+   * @returns Priority value (lower = higher priority)
+   */
+  private _calculateNodePriority(
+    nodeBounds: PointCloudBounds,
+    viewport: ViewportInfo
+  ): number {
+    const dx = (nodeBounds.minX + nodeBounds.maxX) / 2 - viewport.center[0];
+    const dy = (nodeBounds.minY + nodeBounds.maxY) / 2 - viewport.center[1];
+    return Math.sqrt(dx * dx + dy * dy);
+  }
+
+  /**
+   * Gets the URL of a Potree 1.x node file.
+   * Files are grouped in directories of hierarchyStepSize levels since version 1.5.
+   *
+   * @param name - Node name
+   * @param extension - File extension (hrc, bin, las or laz)
+   * @returns Absolute URL
+   */
+  private _getPotree1NodeUrl(name: string, extension: string): string {
+    const meta = this._metadata as Potree1Metadata;
+    let path = '';
+    if (parseFloat(meta.version) >= 1.5) {
+      const stepSize = meta.hierarchyStepSize;
+      const indices = name.substring(1);
+      const parts = ['r'];
+      for (let i = 0; i < Math.floor(indices.length / stepSize); i++) {
+        parts.push(indices.substring(i * stepSize, (i + 1) * stepSize));
+      }
+      path = parts.join('/') + '/';
+    }
+    return resolveUrl(`${meta.octreeDir}/${path}${name}.${extension}`, this._url);
+  }
+
+  /**
+   * Fetches a byte range of a file.
+   *
+   * @param url - File URL
+   * @param kind - Kind of resource requested
+   * @param byteOffset - First byte
+   * @param byteSize - Number of bytes
+   * @returns The requested bytes
+   */
+  private async _fetchRange(
+    url: string,
+    kind: RequestKind,
+    byteOffset: number,
+    byteSize: number
+  ): Promise<ArrayBuffer> {
+    const response = await this._fetch(url, kind, {
+      Range: `bytes=${byteOffset}-${byteOffset + byteSize - 1}`,
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${url}: ${response.status}`);
+    }
+    const buffer = await response.arrayBuffer();
+    // Servers that ignore the Range header return the whole file
+    if (response.status === 200 && buffer.byteLength > byteSize) {
+      return buffer.slice(byteOffset, byteOffset + byteSize);
+    }
+    return buffer;
+  }
+
+  /**
+   * Loads the hierarchy chunk rooted at a node.
+   *
+   * @param node - Node whose descendants are pending
+   */
+  private async _loadHierarchy(node: PotreeCachedNode): Promise<void> {
+    if (!node.hierarchyPending || this._hierarchyLoading.has(node.key)) return;
+
+    this._hierarchyLoading.add(node.key);
+    try {
+      if (this._majorVersion >= 2) {
+        const buffer = await this._fetchRange(
+          resolveUrl('hierarchy.bin', this._url),
+          'hierarchy',
+          node.hierarchyByteOffset ?? 0,
+          node.hierarchyByteSize ?? 0
+        );
+        this._parsePotree2Hierarchy(buffer, node);
+      } else {
+        const response = await this._fetch(this._getPotree1NodeUrl(node.key, 'hrc'), 'hierarchy');
+        if (!response.ok) {
+          throw new Error(`${response.status} ${response.statusText}`);
+        }
+        this._parsePotree1Hierarchy(await response.arrayBuffer(), node);
+      }
+      this._hierarchyFailures.delete(node.key);
+    } catch (error) {
+      if (this._abortController.signal.aborted) return;
+      const attempts = (this._hierarchyFailures.get(node.key)?.attempts ?? 0) + 1;
+      this._hierarchyFailures.set(node.key, { attempts, lastFailedAt: Date.now() });
+      console.warn(`Error loading Potree hierarchy ${node.key}:`, error);
+    } finally {
+      this._hierarchyLoading.delete(node.key);
+    }
+  }
+
+  /**
+   * Parses a Potree 2.0 hierarchy chunk. Records are stored breadth-first,
+   * starting with the chunk's root. Proxy records (type 2) point to the
+   * chunk holding the node's own record and its descendants.
+   *
+   * @param buffer - Chunk bytes
+   * @param root - Node the chunk belongs to
+   */
+  private _parsePotree2Hierarchy(buffer: ArrayBuffer, root: PotreeCachedNode): void {
+    const view = new DataView(buffer);
+    const recordCount = Math.floor(buffer.byteLength / POTREE2_HIERARCHY_RECORD_SIZE);
+    const nodes: PotreeCachedNode[] = [root];
+
+    for (let i = 0; i < recordCount && i < nodes.length; i++) {
+      const node = nodes[i];
+      const offset = i * POTREE2_HIERARCHY_RECORD_SIZE;
+      const type = view.getUint8(offset);
+      const childMask = view.getUint8(offset + 1);
+      const pointCount = view.getUint32(offset + 2, true);
+      const byteOffset = Number(view.getBigUint64(offset + 6, true));
+      const byteSize = Number(view.getBigUint64(offset + 14, true));
+
+      if (type === 2) {
+        node.hierarchyByteOffset = byteOffset;
+        node.hierarchyByteSize = byteSize;
+        node.hierarchyPending = true;
+        continue;
+      }
+
+      node.pointCount = byteSize > 0 ? pointCount : 0;
+      node.byteOffset = byteOffset;
+      node.byteSize = byteSize;
+      node.hierarchyPending = false;
+      if (node.state === 'subtree') node.state = 'pending';
+
+      for (let childIndex = 0; childIndex < 8; childIndex++) {
+        if ((childMask & (1 << childIndex)) === 0) continue;
+        const childName = `${node.key}${childIndex}`;
+        let child = this._nodeCache.get(childName);
+        if (!child) {
+          child = this._createNode(childName);
+          this._nodeCache.set(childName, child);
+        }
+        nodes.push(child);
+      }
+    }
+  }
+
+  /**
+   * Parses a Potree 1.x .hrc file. Records are stored breadth-first, starting
+   * with the file's root and ending hierarchyStepSize levels below it; nodes on
+   * that last level list their descendants in their own .hrc file.
+   *
+   * @param buffer - File bytes
+   * @param root - Node the file belongs to
+   */
+  private _parsePotree1Hierarchy(buffer: ArrayBuffer, root: PotreeCachedNode): void {
+    const view = new DataView(buffer);
+    const recordCount = Math.floor(buffer.byteLength / POTREE1_HIERARCHY_RECORD_SIZE);
+    const lastLevel = root.keyArray[0] + (this._metadata as Potree1Metadata).hierarchyStepSize;
+    const names: string[] = [root.key];
+
+    for (let i = 0; i < recordCount && i < names.length; i++) {
+      const offset = i * POTREE1_HIERARCHY_RECORD_SIZE;
+      const childMask = view.getUint8(offset);
+      const pointCount = view.getUint32(offset + 1, true);
+
+      let node = this._nodeCache.get(names[i]);
+      if (!node) {
+        node = this._createNode(names[i]);
+        this._nodeCache.set(node.key, node);
+      }
+      node.pointCount = pointCount;
+      if (node.state === 'subtree') node.state = 'pending';
+
+      if (node !== root && node.keyArray[0] >= lastLevel) {
+        node.hierarchyPending = childMask !== 0;
+        continue;
+      }
+      node.hierarchyPending = false;
+
+      for (let childIndex = 0; childIndex < 8; childIndex++) {
+        if ((childMask & (1 << childIndex)) !== 0) {
+          names.push(`${node.key}${childIndex}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Checks whether a node's hierarchy chunk should be loaded for the viewport.
+   *
+   * @param node - Node to check
+   * @param viewport - Current viewport information
+   * @param now - Current timestamp
+   * @returns True if the hierarchy is pending, in view and not waiting for a retry
+   */
+  private _needsHierarchy(node: PotreeCachedNode, viewport: ViewportInfo, now: number): boolean {
+    const failure = this._hierarchyFailures.get(node.key);
+    const canRetry = !failure || (
+      failure.attempts <= this._options.maxRetries &&
+      now - failure.lastFailedAt >= getRetryDelay(failure.attempts, this._options.retryDelayMs)
+    );
+    return node.hierarchyPending &&
+      node.keyArray[0] <= viewport.targetDepth + 2 &&
+      !this._hierarchyLoading.has(node.key) &&
+      canRetry &&
+      this._boundsIntersectsViewport(node.boundsWgs84, viewport);
+  }
+
+  /**
+   * Finds nodes that intersect the viewport and should be loaded.
+   * Pending hierarchy chunks in view are loaded first.
+   *
+   * @param viewport - Current viewport information
+   * @returns Sorted array of nodes to load (by priority)
+   */
+  async selectNodesForViewport(viewport: ViewportInfo): Promise<PotreeCachedNode[]> {
+    if (!this._isInitialized) {
+      throw new Error('PotreeStreamingLoader not initialized. Call initialize() first.');
+    }
+
+    const targetDepth = viewport.targetDepth;
+
+    // Load hierarchy chunks in multiple passes to discover nested chunks
+    const maxChunksToLoad = Math.max(1, this._options.maxSubtreesPerViewport);
+    const maxPasses = 3;
+    const now = Date.now();
+    let loadedChunks = 0;
+    this._lastViewport = viewport;
+
+    for (let pass = 0; pass < maxPasses; pass++) {
+      const candidates: PotreeCachedNode[] = [];
+      for (const [, node] of this._nodeCache) {
+        if (this._needsHierarchy(node, viewport, now)) {
+          node.priority = this._calculateNodePriority(node.boundsWgs84, viewport);
+          candidates.push(node);
+        }
+      }
+
+      if (candidates.length === 0) break;
+
+      candidates.sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0));
+      const perPassLimit = Math.ceil(maxChunksToLoad / maxPasses);
+      const chunksToProcess = candidates.slice(0, perPassLimit);
+
+      await Promise.all(chunksToProcess.map(node => this._loadHierarchy(node)));
+      loadedChunks += chunksToProcess.length;
+
+      if (loadedChunks >= maxChunksToLoad) break;
+    }
+
+    // Collect loadable nodes
+    const nodesToLoad: PotreeCachedNode[] = [];
+
+    for (const [, node] of this._nodeCache) {
+      const depth = node.keyArray[0];
+
+      // Skip proxies (no point data known yet), empty, loading and loaded nodes
+      if ((node.state !== 'pending' && node.state !== 'error') || node.pointCount === 0) continue;
+
+      // Use +2 to allow loading slightly more detailed nodes for better coverage
+      const inView = depth <= targetDepth + 2 && this._boundsIntersectsViewport(node.boundsWgs84, viewport);
+
+      // Skip failed nodes until they can be retried
+      if (!this._nodeRetrier.canRetry(node, inView, now) || !inView) continue;
+
+      const distPriority = this._calculateNodePriority(node.boundsWgs84, viewport);
+      node.priority = distPriority - (depth * 0.0001);
+      nodesToLoad.push(node);
+    }
+
+    // Sort by priority (center-first)
+    nodesToLoad.sort((a, b) => (a.priority || Infinity) - (b.priority || Infinity));
+
+    return nodesToLoad;
+  }
+
+  /**
+   * Queues a node for loading.
+   *
+   * @param node - Node to queue
+   */
+  queueNode(node: PotreeCachedNode): void {
+    if (node.state !== 'pending') return;
+    if (this._loadingQueue.find((n) => n.key === node.key)) return;
+
+    this._loadingQueue.push(node);
+    this._loadingQueue.sort((a, b) => (a.priority || Infinity) - (b.priority || Infinity));
+  }
+
+  /**
+   * Loads nodes from the queue, respecting point budget and concurrency limits.
+   */
+  async loadQueuedNodes(): Promise<void> {
+    while (
+      this._loadingQueue.length > 0 &&
+      this._activeRequests < this._options.maxConcurrentRequests &&
+      this._totalLoadedPoints < this._options.pointBudget
+    ) {
+      const node = this._loadingQueue.shift()!;
+
+      if (this._totalLoadedPoints + node.pointCount > this._options.pointBudget) {
+        this._emit('budgetreached', this._getProgressEvent());
+        break;
+      }
+
+      this._loadNode(node);
+    }
+  }
+
+  /**
+   * Loads a single node's point data.
+   *
+   * @param node - Node to load
+   */
+  private async _loadNode(node: PotreeCachedNode): Promise<void> {
+    if (node.state !== 'pending') return;
+
+    node.state = 'loading';
+    this._activeRequests++;
+
+    // Reserve buffer space before async operations
+    const startIndex = this._totalLoadedPoints;
+    node.bufferStartIndex = startIndex;
+    const reservedPoints = node.pointCount;
+    this._totalLoadedPoints += reservedPoints;
+
+    try {
+      if (this._encoding === 'LAS' || this._encoding === 'LAZ') {
+        await this._loadLasNode(this._getPotree1NodeUrl(node.key, this._encoding.toLowerCase()), node, startIndex);
+      } else {
+        const buffer = this._majorVersion >= 2
+          ? await this._fetchRange(resolveUrl('octree.bin', this._url), 'data', node.byteOffset ?? 0, node.byteSize ?? 0)
+          : await this._fetchNodeFile(this._getPotree1NodeUrl(node.key, 'bin'));
+        this._decodeBinaryNode(buffer, node, startIndex);
+      }
+      this._nodeDepths?.fill(node.keyArray[0], startIndex, startIndex + node.pointCount);
+      await this._nodeColorizer.colorizeNode(node);
+
+      node.state = 'loaded';
+      this._totalLoadedNodes++;
+
+      this._emit('nodeloaded', node);
+      this._emit('progress', this._getProgressEvent());
+
+      this._scheduleLayerUpdate();
+    } catch (error) {
+      // Requests aborted by destroy() are not failures
+      if (this._abortController.signal.aborted) return;
+
+      // Release the reserved buffer space on failure. Only the last reservation can be
+      // released: nodes reserved after this one keep their ranges, and the gap is closed
+      // by compaction once no nodes are loading
+      if (startIndex + reservedPoints === this._totalLoadedPoints) {
+        this._totalLoadedPoints = startIndex;
+      } else {
+        this._hasBufferGaps = true;
+      }
+      node.bufferStartIndex = undefined;
+
+      this._nodeRetrier.handleFailure(node, error);
+    } finally {
+      this._activeRequests--;
+      if (this._activeRequests === 0 && this._hasBufferGaps) {
+        this._compactBuffers();
+        this._scheduleLayerUpdate();
+      }
+      this.loadQueuedNodes();
+    }
+  }
+
+  /**
+   * Gets the nodes that failed to load after all retries.
+   *
+   * @returns Failed nodes
+   */
+  getFailedNodes(): FailedNodeInfo[] {
+    return this._nodeRetrier.getFailedNodes(this._nodeCache.values());
+  }
+
+  /**
+   * Fetches a whole node file.
+   *
+   * @param url - File URL
+   * @returns File bytes
+   */
+  private async _fetchNodeFile(url: string): Promise<ArrayBuffer> {
+    const response = await this._fetch(url, 'data');
+    if (!response.ok) {
+      throw new Error(`Failed to fetch binary data: ${response.status}`);
+    }
+    return response.arrayBuffer();
+  }
+
+  /**
+   * Decodes interleaved point records (Potree 2.0 DEFAULT or Potree 1.x BINARY).
+   * Potree 2.0 positions are relative to the dataset offset, Potree 1.x
+   * positions to the node's bounding box minimum.
+   *
+   * @param buffer - Point records
+   * @param node - Node being loaded
+   * @param startIndex - Starting index in buffers
+   */
+  private _decodeBinaryNode(buffer: ArrayBuffer, node: PotreeCachedNode, startIndex: number): void {
+    const view = new DataView(buffer);
+    const pointCount = Math.min(node.pointCount, Math.floor(buffer.byteLength / this._pointByteLength));
+    const positionOffset = this._majorVersion >= 2
+      ? this._offset
+      : [node.bounds.minX, node.bounds.minY, node.bounds.minZ];
+
+    if (!this._attributes.some(a => a.name === 'position')) {
+      throw new Error('Missing position attribute in Potree metadata');
+    }
+
+    for (let i = 0; i < pointCount; i++) {
+      const pointIndex = startIndex + i;
+      if (pointIndex >= this._options.pointBudget) break;
+
+      const recordOffset = i * this._pointByteLength;
+
+      for (const attr of this._attributes) {
+        const offset = recordOffset + attr.byteOffset;
+
+        switch (attr.name) {
+          case 'position': {
+            const x = readValue(view, offset, attr.type) * this._scale[0] + positionOffset[0];
+            const y = readValue(view, offset + attr.elementSize, attr.type) * this._scale[1] + positionOffset[1];
+            const z = readValue(view, offset + attr.elementSize * 2, attr.type) * this._scale[2] + positionOffset[2];
+            this._writePosition(pointIndex, x, y, z);
+            break;
+          }
+          case 'rgb':
+          case 'rgba': {
+            if (!this._colors) break;
+            for (let c = 0; c < 3; c++) {
+              const value = readValue(view, offset + c * attr.elementSize, attr.type);
+              this._colors[pointIndex * 4 + c] = value >> this._colorShift;
+            }
+            this._colors[pointIndex * 4 + 3] = 255;
+            break;
+          }
+          case 'intensity':
+            this._intensities![pointIndex] = readValue(view, offset, attr.type) / 65535;
+            break;
+          case 'classification':
+            this._classifications![pointIndex] = readValue(view, offset, attr.type);
+            break;
+          default: {
+            const arr = this._extraAttributes[attr.name];
+            if (arr) {
+              arr[pointIndex] = readValue(view, offset, attr.type);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Loads a Potree 1.x LAS/LAZ node using @loaders.gl/las.
+   *
+   * @param url - URL to the LAS or LAZ file
+   * @param _node - Node being loaded (unused, point count from file)
+   * @param startIndex - Starting index in buffers
+   */
+  private async _loadLasNode(
+    url: string,
+    _node: PotreeCachedNode,
+    startIndex: number
+  ): Promise<void> {
+    const buffer = await this._fetchNodeFile(url);
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const data = await parse(buffer, LASLoader, {
+      las: {
+        shape: 'mesh',
+        fp64: false,
+      },
+      worker: false,
+    }) as any;
+
+    const positionAttr = data.attributes?.POSITION || data.attributes?.positions;
+    const positions = positionAttr?.value as Float64Array | Float32Array | undefined;
+    const colorAttr = data.attributes?.COLOR_0 || data.attributes?.colors;
+    const colors = colorAttr?.value as Uint8Array | undefined;
+    const loaderData = data.loaderData || {};
+
+    if (!positions) {
+      throw new Error('No position data in LAS file');
+    }
+
+    const intensity = (data.attributes?.intensity || loaderData.intensity)?.value as Uint16Array | undefined;
+    const classification = (data.attributes?.classification || loaderData.classification)?.value as Uint8Array | undefined;
+
+    // Attribute availability is only known once the first node is decoded
+    if (colors && !this._colors) {
+      this._colors = new Uint8Array(this._options.pointBudget * 4);
+      this._hasColor = true;
+    }
+    if (intensity) this._hasIntensity = true;
+    if (classification) this._hasClassification = true;
+
+    const actualPointCount = positions.length / 3;
+    for (let i = 0; i < actualPointCount; i++) {
+      const pointIndex = startIndex + i;
+      if (pointIndex >= this._options.pointBudget) break;
+
+      this._writePosition(pointIndex, positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]);
+
+      if (intensity) {
+        this._intensities![pointIndex] = intensity[i] / 65535;
+      }
+
+      if (classification) {
+        this._classifications![pointIndex] = classification[i];
+      }
+
+      if (this._colors && colors) {
+        // loaders.gl returns RGBA colors
+        const colorStride = colors.length / actualPointCount;
+        const colorOffset = i * colorStride;
+        this._colors[pointIndex * 4] = colors[colorOffset];
+        this._colors[pointIndex * 4 + 1] = colors[colorOffset + 1];
+        this._colors[pointIndex * 4 + 2] = colors[colorOffset + 2];
+        this._colors[pointIndex * 4 + 3] = 255;
+      }
+    }
+  }
+
+  /**
+   * Transforms a source CRS position to WGS84 (if needed) and stores it
+   * relative to the coordinate origin.
+   *
+   * @param pointIndex - Index in the position buffer
+   * @param x - X in source CRS
+   * @param y - Y in source CRS
+   * @param z - Z in source units
+   */
+  private _writePosition(pointIndex: number, x: number, y: number, z: number): void {
+    if (this._needsTransform && this._transformer) {
+      const [rawLng, rawLat] = this._transformer([x, y]);
+      // Clamp to valid WGS84 range (silently - no logging for individual points to avoid console spam)
+      const [lng, lat] = clampLatLng(rawLng, rawLat);
+      this._positions![pointIndex * 3] = lng - this._coordinateOrigin[0];
+      this._positions![pointIndex * 3 + 1] = lat - this._coordinateOrigin[1];
+      this._positions![pointIndex * 3 + 2] = z * this._verticalUnitFactor;
+    } else {
+      this._positions![pointIndex * 3] = x - this._coordinateOrigin[0];
+      this._positions![pointIndex * 3 + 1] = y - this._coordinateOrigin[1];
+      this._positions![pointIndex * 3 + 2] = z;
+    }
+  }
+
+  /**
+   * Moves the points of loaded nodes to the start of the buffers, closing the gaps left by failed loads.
+   */
+  private _compactBuffers(): void {
+    this._hasBufferGaps = false;
+    const { pointCount, nodeCount } = compactNodeBuffers(this._nodeCache.values(), {
+      positions: this._positions,
+      colors: this._colors,
+      intensities: this._intensities,
+      classifications: this._classifications,
+      nodeDepths: this._nodeDepths,
+      extraAttributes: this._extraAttributes,
+    });
+    this._totalLoadedPoints = pointCount;
+    this._totalLoadedNodes = nodeCount;
+  }
+
+  /**
+   * Schedules a batched layer update.
+   */
+  private _scheduleLayerUpdate(): void {
+    if (this._pendingLayerUpdate) return;
+    this._pendingLayerUpdate = true;
+
+    this._updateBatchTimeout = setTimeout(() => {
+      this._performLayerUpdate();
+      this._pendingLayerUpdate = false;
+      this._updateBatchTimeout = null;
+    }, 100);
+  }
+
+  /**
+   * Performs the layer update callback.
+   */
+  private _performLayerUpdate(): void {
+    if (this._onPointsLoaded && this._positions) {
+      this._onPointsLoaded(this.getLoadedPointCloudData());
+    }
+  }
+
+  /**
+   * Sets the colorizer computing the point colors (e.g., from a raster), replacing the
+   * colors of the dataset. Loaded nodes are colorized again, new nodes as they load.
+   *
+   * @param colorizer - Point colorizer
+   * @returns Promise that resolves when the loaded nodes are colorized
+   */
+  async setColorizer(colorizer: PointColorizer): Promise<void> {
+    await this._nodeColorizer.setColorizer(colorizer, this._nodeCache.values());
+    this._scheduleLayerUpdate();
+  }
+
+  /**
+   * Sets the callback for when points are loaded.
+   *
+   * @param callback - Function to call with updated point cloud data
+   */
+  setOnPointsLoaded(callback: (data: PointCloudData) => void): void {
+    this._onPointsLoaded = callback;
+  }
+
+  /**
+   * Gets the current loaded point cloud data for rendering.
+   *
+   * @returns Current loaded data
+   */
+  getLoadedPointCloudData(): PointCloudData {
+    const pointCount = this._totalLoadedPoints;
+
+    const trimmedExtraAttributes: ExtraPointAttributes = {};
+    for (const [name, arr] of Object.entries(this._extraAttributes)) {
+      trimmedExtraAttributes[name] = arr.subarray(0, pointCount) as AttributeArray;
+    }
+
+    return {
+      positions: this._positions!.subarray(0, pointCount * 3),
+      coordinateOrigin: this._coordinateOrigin,
+      colors: this._colors?.subarray(0, pointCount * 4),
+      intensities: this._intensities!.subarray(0, pointCount),
+      classifications: this._classifications!.subarray(0, pointCount),
+      extraAttributes:
+        Object.keys(trimmedExtraAttributes).length > 0
+          ? trimmedExtraAttributes
+          : undefined,
+      pointCount,
+      bounds: this._bounds!,
+      hasRGB: this._hasColor || this._nodeColorizer.isActive(),
+      hasIntensity: this._hasIntensity,
+      hasClassification: this._hasClassification,
+      wkt: this.getWkt(),
+      rootSpacing: this._spacing * this._verticalUnitFactor,
+      nodeDepths: this._nodeDepths!.subarray(0, pointCount),
+    };
+  }
+
+  /**
+   * Checks whether there are hierarchy chunks still pending for the viewport.
+   *
+   * @param viewport - Current viewport information
+   * @returns True if more hierarchy chunks should be loaded
+   */
+  hasPendingSubtrees(viewport: ViewportInfo): boolean {
+    if (!this._isInitialized) return false;
+
+    const now = Date.now();
+    for (const [, node] of this._nodeCache) {
+      if (this._needsHierarchy(node, viewport, now)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Gets the current streaming progress.
+   */
+  private _getProgressEvent(): StreamingProgressEvent {
+    return {
+      totalNodesInView: this._nodeCache.size,
+      loadedNodes: this._totalLoadedNodes,
+      loadedPoints: this._totalLoadedPoints,
+      pointBudget: this._options.pointBudget,
+      isLoading: this._activeRequests > 0 || this._loadingQueue.length > 0,
+      queueSize: this._loadingQueue.length,
+    };
+  }
+
+  /**
+   * Registers an event handler.
+   *
+   * @param event - Event type
+   * @param handler - Handler function
+   */
+  on(event: StreamingLoaderEvent, handler: StreamingLoaderEventHandler): void {
+    if (!this._eventHandlers.has(event)) {
+      this._eventHandlers.set(event, new Set());
+    }
+    this._eventHandlers.get(event)!.add(handler);
+  }
+
+  /**
+   * Removes an event handler.
+   *
+   * @param event - Event type
+   * @param handler - Handler function
+   */
+  off(event: StreamingLoaderEvent, handler: StreamingLoaderEventHandler): void {
+    this._eventHandlers.get(event)?.delete(handler);
+  }
+
+  /**
+   * Emits an event to all registered handlers.
+   *
+   * @param event - Event type
+   * @param data - Event data
+   */
+  private _emit(
+    event: StreamingLoaderEvent,
+    data: StreamingProgressEvent | PotreeCachedNode | Error
+  ): void {
+    const handlers = this._eventHandlers.get(event);
+    if (handlers) {
+      for (const handler of handlers) {
+        handler(event, data as Parameters<StreamingLoaderEventHandler>[1]);
+      }
+    }
+  }
+
+  /**
+   * Gets the total number of loaded points.
+   */
+  getLoadedPointCount(): number {
+    return this._totalLoadedPoints;
+  }
+
+  /**
+   * Gets the current point budget.
+   */
+  getPointBudget(): number {
+    return this._options.pointBudget;
+  }
+
+  /**
+   * Checks if any nodes intersecting the viewport have already been loaded.
+   *
+   * @param viewport - Current viewport information
+   * @param minDepth - Minimum octree depth to consider
+   * @returns True if viewport has loaded coverage
+   */
+  hasLoadedNodesInViewport(viewport: ViewportInfo, minDepth: number = 0): boolean {
+    for (const [, node] of this._nodeCache) {
+      if (node.state !== 'loaded') continue;
+      if (node.keyArray[0] < minDepth) continue;
+      if (this._boundsIntersectsViewport(node.boundsWgs84, viewport)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Estimates viewport coverage ratio by loaded nodes.
+   *
+   * @param viewport - Current viewport information
+   * @param minDepth - Minimum octree depth to consider
+   * @returns Coverage ratio (0-1)
+   */
+  getViewportCoverageRatio(viewport: ViewportInfo, minDepth: number = 0): number {
+    const [west, south, east, north] = viewport.bounds;
+    const viewportArea = (east - west) * (north - south);
+    if (viewportArea <= 0) return 0;
+
+    let coveredArea = 0;
+
+    for (const [, node] of this._nodeCache) {
+      if (node.state !== 'loaded') continue;
+      if (node.keyArray[0] < minDepth) continue;
+
+      const intersectWest = Math.max(west, node.boundsWgs84.minX);
+      const intersectEast = Math.min(east, node.boundsWgs84.maxX);
+      const intersectSouth = Math.max(south, node.boundsWgs84.minY);
+      const intersectNorth = Math.min(north, node.boundsWgs84.maxY);
+
+      if (intersectWest < intersectEast && intersectSouth < intersectNorth) {
+        coveredArea += (intersectEast - intersectWest) * (intersectNorth - intersectSouth);
+      }
+    }
+
+    // Cap at 1.0 (overlapping nodes can cause > 1)
+    return Math.min(1.0, coveredArea / viewportArea);
+  }
+
+  /**
+   * Gets the total number of loaded nodes.
+   */
+  getLoadedNodeCount(): number {
+    return this._totalLoadedNodes;
+  }
+
+  /**
+   * Checks if the loader is currently loading.
+   */
+  isLoading(): boolean {
+    return this._activeRequests > 0 || this._loadingQueue.length > 0;
+  }
+
+  /**
+   * Removes queued nodes that are outside the current viewport and re-sorts priorities.
+   *
+   * @param viewport - Current viewport information
+   */
+  pruneQueueForViewport(viewport: ViewportInfo): void {
+    if (this._loadingQueue.length === 0) return;
+
+    this._loadingQueue = this._loadingQueue.filter((node) =>
+      this._boundsIntersectsViewport(node.boundsWgs84, viewport)
+    );
+
+    for (const node of this._loadingQueue) {
+      const distPriority = this._calculateNodePriority(node.boundsWgs84, viewport);
+      node.priority = distPriority - (node.keyArray[0] * 0.0001);
+    }
+
+    this._loadingQueue.sort((a, b) => (a.priority || Infinity) - (b.priority || Infinity));
+  }
+
+  /**
+   * Resets loaded node data to allow loading a new area.
+   * Keeps the hierarchy intact but clears loaded points and node states.
+   *
+   * @returns True if reset occurred
+   */
+  resetLoadedData(): boolean {
+    if (this._activeRequests > 0 || this._isResetting) return false;
+    this._isResetting = true;
+
+    this._loadingQueue = [];
+    this._totalLoadedPoints = 0;
+    this._totalLoadedNodes = 0;
+
+    for (const [, node] of this._nodeCache) {
+      if (node.state === 'loaded' || node.state === 'loading' || node.state === 'error') {
+        node.state = 'pending';
+        node.bufferStartIndex = undefined;
+        node.error = undefined;
+        node.retryCount = undefined;
+        node.lastFailedAt = undefined;
+      }
+    }
+    this._nodeRetrier.reset();
+
+    // Force a render update so old points are cleared.
+    this._scheduleLayerUpdate();
+
+    this._isResetting = false;
+    return true;
+  }
+
+  /**
+   * Gets the Potree metadata (metadata.json or cloud.js contents).
+   */
+  getMetadata(): Potree1Metadata | Potree2Metadata | null {
+    return this._metadata;
+  }
+
+  /**
+   * Gets the projection WKT, if the dataset's projection is WKT.
+   */
+  getWkt(): string | undefined {
+    const projection = this._projection?.trim();
+    return projection && /^(COMPD_CS|PROJCS|GEOGCS)\[/.test(projection) ? projection : undefined;
+  }
+
+  /**
+   * Gets the extended Potree metadata for the metadata panel.
+   *
+   * @returns Extended Potree metadata or undefined if not initialized
+   */
+  getExtendedMetadata(): PotreeExtendedMetadata | undefined {
+    if (!this._metadata) return undefined;
+
+    const dimensions: DimensionInfo[] = [];
+    if (this._majorVersion >= 2) {
+      for (const attr of (this._metadata as Potree2Metadata).attributes) {
+        dimensions.push({
+          name: attr.name,
+          type: attr.type,
+          size: attr.size,
+        });
+      }
+    } else {
+      const pointAttributes = (this._metadata as Potree1Metadata).pointAttributes;
+      for (const name of typeof pointAttributes === 'string' ? [] : pointAttributes) {
+        const layout = POTREE1_ATTRIBUTES[name];
+        dimensions.push({
+          name,
+          type: layout.type,
+          size: layout.numElements * layout.elementSize,
+        });
+      }
+    }
+
+    return {
+      version: this._metadata.version,
+      encoding: this._encoding,
+      spacing: this._spacing,
+      scale: this._scale,
+      offset: this._offset,
+      nativeBounds: [
+        ...this._octreeMin,
+        this._octreeMin[0] + this._octreeSize[0],
+        this._octreeMin[1] + this._octreeSize[1],
+        this._octreeMin[2] + this._octreeSize[2],
+      ],
+      projection: this._projection,
+      dimensions,
+    };
+  }
+
+  /**
+   * Fetches a resource, applying the request transform. Requests are aborted on destroy.
+   *
+   * @param url - Resource URL
+   * @param kind - Kind of resource requested
+   * @param headers - Optional request headers
+   * @returns Fetch response
+   */
+  private _fetch(url: string, kind: RequestKind, headers?: Record<string, string>): Promise<Response> {
+    return fetchWithTransform(
+      url,
+      kind,
+      { headers, signal: this._abortController.signal },
+      this._options.transformRequest
+    );
+  }
+
+  /**
+   * Destroys the streaming loader and cleans up resources.
+   */
+  destroy(): void {
+    this._abortController.abort();
+
+    if (this._updateBatchTimeout) {
+      clearTimeout(this._updateBatchTimeout);
+    }
+
+    // Cancel scheduled retries
+    this._nodeRetrier.destroy();
+
+    this._loadingQueue = [];
+    this._nodeCache.clear();
+    this._hierarchyLoading.clear();
+    this._hierarchyFailures.clear();
+    this._eventHandlers.clear();
+
+    this._positions = null;
+    this._colors = null;
+    this._intensities = null;
+    this._classifications = null;
+    this._nodeDepths = null;
+    this._extraAttributes = {};
+  }
+}
@@ -0,0 +1,162 @@
+import type { AttributeArray, ParsedPointColumns } from './types';
+
+/**
+ * Options for parsing delimited text point files
+ */
+export interface TextPointParserOptions {
+  /**
+   * Column delimiter. Detected from the first data line when omitted
+   * (comma, semicolon, tab, otherwise whitespace).
+   */
+  delimiter?: string;
+}
+
+/**
+ * Size of the chunks decoded at a time (bytes)
+ */
+const DECODE_CHUNK_SIZE = 8 * 1024 * 1024;
+
+/**
+ * Default column names for headerless files, keyed by column count.
+ * Covers the common XYZ, XYZI, XYZRGB and PTS (XYZIRGB) layouts.
+ */
+const DEFAULT_COLUMN_NAMES: Record<number, string[]> = {
+  3: ['x', 'y', 'z'],
+  4: ['x', 'y', 'z', 'intensity'],
+  6: ['x', 'y', 'z', 'red', 'green', 'blue'],
+  7: ['x', 'y', 'z', 'intensity', 'red', 'green', 'blue'],
+};
+
+/**
+ * Growable Float64Array column used while the point count is unknown
+ */
+class GrowableColumn {
+  data = new Float64Array(65536);
+
+  /**
+   * Sets a value, growing the storage if needed.
+   *
+   * @param index - Point index
+   * @param value - Value to store
+   */
+  set(index: number, value: number): void {
+    if (index >= this.data.length) {
+      const grown = new Float64Array(Math.max(this.data.length * 2, index + 1));
+      grown.set(this.data);
+      this.data = grown;
+    }
+    this.data[index] = value;
+  }
+}
+
+/**
+ * Parses delimited text point files (XYZ, CSV, TXT and Leica PTS).
+ * An optional header row provides column names; otherwise names are
+ * inferred from the column count. PTS point count lines are skipped.
+ */
+export class TextPointParser {
+  /**
+   * Checks whether the start of a buffer looks like delimited numeric text.
+   *
+   * @param buffer - File contents
+   * @returns True if the first bytes are printable text containing digits
+   */
+  static isText(buffer: ArrayBuffer): boolean {
+    const bytes = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 1024));
+    if (bytes.length === 0) return false;
+    let hasDigit = false;
+    for (const b of bytes) {
+      // Allow tab, LF, CR and printable ASCII only
+      if (b !== 0x09 && b !== 0x0a && b !== 0x0d && (b < 0x20 || b > 0x7e)) {
+        return false;
+      }
+      if (b >= 0x30 && b <= 0x39) hasDigit = true;
+    }
+    return hasDigit;
+  }
+
+  /**
+   * Parses a delimited text point file.
+   *
+   * @param buffer - File contents
+   * @param options - Parser options
+   * @returns Parsed columns as Float64Arrays
+   */
+  parse(buffer: ArrayBuffer, options: TextPointParserOptions = {}): ParsedPointColumns {
+    const decoder = new TextDecoder();
+    const bytes = new Uint8Array(buffer);
+
+    let delimiter: string | RegExp | undefined = options.delimiter;
+    let names: string[] | undefined;
+    let columns: GrowableColumn[] = [];
+    let pointCount = 0;
+
+    const processLine = (rawLine: string): void => {
+      const line = rawLine.trim();
+      if (!line || line.startsWith('#') || line.startsWith('//')) return;
+
+      if (delimiter === undefined) {
+        delimiter = this._detectDelimiter(line);
+      }
+      const tokens = line.split(delimiter).map((t) => t.trim()).filter((t) => t.length > 0);
+
+      // PTS files contain point count lines (one per scan)
+      if (tokens.length === 1 && /^\d+$/.test(tokens[0])) return;
+
+      if (!names) {
+        const isHeader = tokens.some((t) => isNaN(Number(t)));
+        if (isHeader) {
+          names = tokens.map((t) => t.replace(/^["']|["']$/g, ''));
+          columns = names.map(() => new GrowableColumn());
+          return;
+        }
+        names = DEFAULT_COLUMN_NAMES[tokens.length] ??
+          tokens.map((_, i) => DEFAULT_COLUMN_NAMES[3][i] ?? `column${i}`);
+        columns = names.map(() => new GrowableColumn());
+      }
+
+      for (let c = 0; c < columns.length; c++) {
+        const value = c < tokens.length ? Number(tokens[c]) : 0;
+        columns[c].set(pointCount, Number.isFinite(value) ? value : 0);
+      }
+      pointCount++;
+    };
+
+    // Decode in chunks so large files don't need one huge string
+    let remainder = '';
+    for (let offset = 0; offset < bytes.length; offset += DECODE_CHUNK_SIZE) {
+      const chunk = bytes.subarray(offset, Math.min(offset + DECODE_CHUNK_SIZE, bytes.length));
+      const text = remainder + decoder.decode(chunk, { stream: offset + DECODE_CHUNK_SIZE < bytes.length });
+      const lines = text.split('\n');
+      remainder = lines.pop() ?? '';
+      for (const line of lines) {
+        processLine(line);
+      }
+    }
+    processLine(remainder);
+
+    if (!names || pointCount === 0) {
+      throw new Error('No points found in text file');
+    }
+
+    const result: Record<string, AttributeArray> = {};
+    names.forEach((name, i) => {
+      result[name] = columns[i].data.slice(0, pointCount);
+    });
+
+    return { pointCount, names, columns: result };
+  }
+
+  /**
+   * Detects the delimiter of a data line.
+   *
+   * @param line - First non-comment line
+   * @returns Delimiter string, or a whitespace pattern
+   */
+  private _detectDelimiter(line: string): string | RegExp {
+    if (line.includes(',')) return ',';
+    if (line.includes(';')) return ';';
+    if (line.includes('\t')) return '\t';
+    return /\s+/;
+  }
+}
@@ -0,0 +1,1157 @@
+import type {
+  ViewportInfo,
+  StreamingProgressEvent,
+  StreamingLoaderEvent,
+  StreamingLoaderEventHandler,
+  FailedNodeInfo,
+  RetryState,
+  PointColorizer,
+} from './streaming-types';
+import type {
+  Tiles3DTileset,
+  Tiles3DTile,
+  Tiles3DBoundingVolume,
+  Tiles3DCachedNode,
+  Tiles3DStreamingLoaderOptions,
+  PntsTileData,
+} from './tiles3d-types';
+import type { PointCloudData, ExtraPointAttributes, AttributeArray, RequestKind } from './types';
+import type { PointCloudBounds, DimensionInfo, Tiles3DExtendedMetadata } from '../core/types';
+import { fetchWithTransform } from '../utils/request';
+import { getRetryDelay } from '../utils/helpers';
+import { PntsParser } from './PntsParser';
+import { NodeColorizer } from './NodeColorizer';
+import { NodeRetrier } from './NodeRetrier';
+
+/**
+ * Default options for the 3D Tiles streaming loader
+ */
+const DEFAULT_OPTIONS: Required<Tiles3DStreamingLoaderOptions> = {
+  pointBudget: 5_000_000,
+  maxConcurrentRequests: 8,
+  viewportDebounceMs: 100,
+  minDetailZoom: 10,
+  maxOctreeDepth: 20,
+  maxSubtreesPerViewport: 60,
+  maximumScreenSpaceError: 16,
+  workerUrl: null, // Not used by 3D Tiles, but required by interface
+  workerCount: 0,
+  transformRequest: null,
+  maxRetries: 3,
+  retryDelayMs: 1000,
+  retryFailedOnView: false,
+  persistentCache: null, // Not used by 3D Tiles, but required by interface
+  screenSpaceErrorThreshold: 2, // Not used by 3D Tiles, but required by interface
+};
+
+/**
+ * Column-major 4x4 identity matrix
+ */
+const IDENTITY_MATRIX = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+/**
+ * WGS84 ellipsoid parameters
+ */
+const WGS84_A = 6378137.0;
+const WGS84_F = 1 / 298.257223563;
+const WGS84_B = WGS84_A * (1 - WGS84_F);
+const WGS84_E2 = WGS84_F * (2 - WGS84_F);
+const WGS84_EP2 = (WGS84_A * WGS84_A - WGS84_B * WGS84_B) / (WGS84_B * WGS84_B);
+
+/**
+ * Earth circumference at the equator in meters
+ */
+const EARTH_CIRCUMFERENCE_M = 40075016.686;
+
+/**
+ * Multiplies two column-major 4x4 matrices (a * b)
+ */
+function multiplyMatrices(a: number[], b: number[]): number[] {
+  const out = new Array<number>(16);
+  for (let col = 0; col < 4; col++) {
+    for (let row = 0; row < 4; row++) {
+      let sum = 0;
+      for (let k = 0; k < 4; k++) {
+        sum += a[k * 4 + row] * b[col * 4 + k];
+      }
+      out[col * 4 + row] = sum;
+    }
+  }
+  return out;
+}
+
+/**
+ * Transforms a point by a column-major 4x4 matrix
+ */
+function transformPoint(m: number[], x: number, y: number, z: number): [number, number, number] {
+  return [
+    m[0] * x + m[4] * y + m[8] * z + m[12],
+    m[1] * x + m[5] * y + m[9] * z + m[13],
+    m[2] * x + m[6] * y + m[10] * z + m[14],
+  ];
+}
+
+/**
+ * Converts Earth-centered, Earth-fixed coordinates to WGS84 geodetic coordinates
+ * using Bowring's method.
+ *
+ * @returns [longitude (deg), latitude (deg), ellipsoidal height (m)]
+ */
+function ecefToGeodetic(x: number, y: number, z: number): [number, number, number] {
+  const p = Math.sqrt(x * x + y * y);
+  const theta = Math.atan2(z * WGS84_A, p * WGS84_B);
+  const sinTheta = Math.sin(theta);
+  const cosTheta = Math.cos(theta);
+
+  const lng = Math.atan2(y, x);
+  const lat = Math.atan2(
+    z + WGS84_EP2 * WGS84_B * sinTheta * sinTheta * sinTheta,
+    p - WGS84_E2 * WGS84_A * cosTheta * cosTheta * cosTheta
+  );
+  const sinLat = Math.sin(lat);
+  const n = WGS84_A / Math.sqrt(1 - WGS84_E2 * sinLat * sinLat);
+  // Near the poles p / cos(lat) is unstable; use the z-based formula instead
+  const height = Math.abs(lat) < Math.PI / 4
+    ? p / Math.cos(lat) - n
+    : z / sinLat - n * (1 - WGS84_E2);
+
+  return [(lng * 180) / Math.PI, (lat * 180) / Math.PI, height];
+}
+
+/**
+ * Resolves a content URI against the URL of the tileset JSON that references it
+ */
+function resolveUrl(uri: string, baseUrl: string): string {
+  try {
+    const base = typeof window !== 'undefined' ? new URL(baseUrl, window.location.href) : new URL(baseUrl);
+    return new URL(uri, base).href;
+  } catch {
+    if (/^[a-z]+:\/\//i.test(uri) || uri.startsWith('/')) return uri;
+    return baseUrl.slice(0, baseUrl.lastIndexOf('/') + 1) + uri;
+  }
+}
+
+/**
+ * Describes a typed array as a dimension entry for the metadata panel
+ */
+function describeArray(name: string, array: AttributeArray): DimensionInfo {
+  const type = array instanceof Float32Array || array instanceof Float64Array
+    ? 'float'
+    : array instanceof Int8Array || array instanceof Int16Array || array instanceof Int32Array
+      ? 'signed'
+      : 'unsigned';
+  return { name, type, size: array.BYTES_PER_ELEMENT };
+}
+
+/**
+ * Streams Cesium 3D Tiles point cloud tilesets (tileset.json + pnts tiles)
+ * on-demand based on viewport.
+ *
+ * The tile tree is walked from the root; a tile is refined into its children
+ * when its geometric error, projected to screen pixels at the current zoom,
+ * exceeds the maximum screen-space error. External tilesets are loaded when
+ * traversal reaches them. Tiles with ADD refinement keep their parent's points;
+ * with REPLACE refinement refined parents are skipped.
+ * Tile coordinates are assumed to be ECEF, as required by the 3D Tiles specification.
+ */
+export class Tiles3DStreamingLoader {
+  private _tilesetUrl: string;
+  private _options: Required<Tiles3DStreamingLoaderOptions>;
+  private _tileset: Tiles3DTileset | null = null;
+
+  // Tile cache
+  private _nodeCache: Map<string, Tiles3DCachedNode> = new Map();
+  private _externalLoading: Set<string> = new Set();
+  private _externalFailures: Map<string, RetryState> = new Map();
+
+  // Point data buffers
+  private _positions: Float32Array | null = null;
+  private _colors: Uint8Array | null = null;
+  private _intensities: Float32Array | null = null;
+  private _classifications: Uint8Array | null = null;
+  private _extraAttributes: ExtraPointAttributes = {};
+  private _coordinateOrigin: [number, number, number] = [0, 0, 0];
+  private _bounds: PointCloudBounds | null = null;
+
+  // Loading state
+  private _loadingQueue: Tiles3DCachedNode[] = [];
+  private _activeRequests: number = 0;
+  private _totalLoadedPoints: number = 0;
+  private _totalLoadedNodes: number = 0;
+  private _isInitialized: boolean = false;
+
+  // Attribute availability (known once tiles are loaded)
+  private _hasColor: boolean = false;
+  private _hasIntensity: boolean = false;
+  private _hasClassification: boolean = false;
+
+  // Events
+  private _eventHandlers: Map<StreamingLoaderEvent, Set<StreamingLoaderEventHandler>> = new Map();
+
+  // Batched layer update
+  private _pendingLayerUpdate: boolean = false;
+  private _updateBatchTimeout: ReturnType<typeof setTimeout> | null = null;
+  private _onPointsLoaded?: (data: PointCloudData) => void;
+
+  // Aborts in-flight requests on destroy
+  private _abortController: AbortController = new AbortController();
+
+  // Colors points with a colorizer set by setColorizer()
+  private _nodeColorizer: NodeColorizer = new NodeColorizer({
+    getPositions: () => this._positions,
+    getColors: () => {
+      if (!this._colors) {
+        this._colors = new Uint8Array(this._options.pointBudget * 4);
+      }
+      return this._colors;
+    },
+    getCoordinateOrigin: () => this._coordinateOrigin,
+    signal: this._abortController.signal,
+  });
+
+  // Retries of failed requests
+  private _nodeRetrier: NodeRetrier<Tiles3DCachedNode> = new NodeRetrier<Tiles3DCachedNode>({
+    getOptions: () => this._options,
+    nodeLabel: '3D Tiles tile',
+    retry: (node) => {
+      if (!this._lastViewport || !this._boundsIntersectsViewport(node.boundsWgs84, this._lastViewport)) return;
+      this.queueNode(node);
+      this.loadQueuedNodes();
+    },
+    onFailed: (node) => this._emit('nodefailed', node),
+  });
+  private _lastViewport: ViewportInfo | null = null;
+  private _isResetting: boolean = false;
+
+  /**
+   * Creates a new Tiles3DStreamingLoader instance.
+   *
+   * @param tilesetUrl - URL to tileset.json
+   * @param options - Streaming options
+   */
+  constructor(tilesetUrl: string, options?: Tiles3DStreamingLoaderOptions) {
+    this._tilesetUrl = tilesetUrl;
+    this._options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Initializes the tileset - reads tileset.json and sets up the root tile.
+   * Must be called before any loading operations.
+   *
+   * @returns Initial info about the point cloud
+   */
+  async initialize(): Promise<{
+    bounds: PointCloudBounds;
+    hasRGB: boolean;
+    geometricError: number;
+  }> {
+    try {
+      const response = await this._fetch(this._tilesetUrl, 'metadata');
+      if (!response.ok) {
+        throw new Error(`Failed to fetch tileset.json: ${response.status} ${response.statusText}`);
+      }
+      this._tileset = await response.json() as Tiles3DTileset;
+    } catch (error) {
+      if (error instanceof TypeError && error.message === 'Failed to fetch') {
+        throw new Error(
+          `Failed to fetch from URL. This is likely a CORS (Cross-Origin Resource Sharing) error. ` +
+          `The server doesn't allow requests from this origin. ` +
+          `Solutions: (1) Use a CORS proxy, or (2) Host the tileset on a CORS-enabled server.`
+        );
+      }
+      throw error;
+    }
+
+    if (!this._tileset?.root) {
+      throw new Error('Invalid tileset.json: missing root tile');
+    }
+
+    const root = this._createNode(this._tileset.root, '0', 0, IDENTITY_MATRIX, 'REPLACE', this._tilesetUrl);
+    this._nodeCache.set(root.key, root);
+
+    this._bounds = { ...root.boundsWgs84 };
+
+    // Coordinate origin is the center of the bounding box
+    this._coordinateOrigin = [
+      (this._bounds.minX + this._bounds.maxX) / 2,
+      (this._bounds.minY + this._bounds.maxY) / 2,
+      0,
+    ];
+
+    // Pre-allocate buffers (colors are allocated when the first colored tile arrives)
+    const budget = this._options.pointBudget;
+    this._positions = new Float32Array(budget * 3);
+    this._intensities = new Float32Array(budget);
+    this._classifications = new Uint8Array(budget);
+
+    this._isInitialized = true;
+
+    return {
+      bounds: this._bounds,
+      hasRGB: this._hasColor || this._nodeColorizer.isActive(),
+      geometricError: this._tileset.geometricError,
+    };
+  }
+
+  /**
+   * Creates a cache entry for a tile.
+   *
+   * @param tile - Tile definition
+   * @param key - Node key
+   * @param depth - Depth in the tile tree
+   * @param parentTransform - Accumulated transform of the parent
+   * @param parentRefine - Refinement strategy of the parent
+   * @param baseUrl - URL of the tileset JSON containing the tile
+   * @param parent - Parent node key
+   * @returns The new node
+   */
+  private _createNode(
+    tile: Tiles3DTile,
+    key: string,
+    depth: number,
+    parentTransform: number[],
+    parentRefine: 'ADD' | 'REPLACE',
+    baseUrl: string,
+    parent?: string
+  ): Tiles3DCachedNode {
+    const transform = tile.transform?.length === 16
+      ? multiplyMatrices(parentTransform, tile.transform)
+      : parentTransform;
+    const refine = tile.refine ? (tile.refine.toUpperCase() as 'ADD' | 'REPLACE') : parentRefine;
+
+    const content = tile.content ?? tile.contents?.[0];
+    const uri = content?.uri ?? content?.url;
+    const contentUrl = uri ? resolveUrl(uri, baseUrl) : undefined;
+    const isExternalTileset = !!contentUrl && /\.json($|\?)/i.test(contentUrl);
+
+    return {
+      key,
+      depth,
+      // Tiles without point content are placeholders, like EPT subtree roots
+      state: contentUrl && !isExternalTileset ? 'pending' : 'subtree',
+      pointCount: 0,
+      geometricError: tile.geometricError ?? 0,
+      refine,
+      transform,
+      contentUrl,
+      isExternalTileset,
+      boundsWgs84: this._computeBoundsWgs84(tile.boundingVolume, transform),
+      children: [],
+      parent,
+      expanded: !tile.children?.length,
+      childTiles: tile.children,
+      baseUrl,
+    };
+  }
+
+  /**
+   * Adds the children of a tile to the cache.
+   *
+   * @param node - Node to expand
+   */
+  private _expandNode(node: Tiles3DCachedNode): void {
+    if (node.expanded || !node.childTiles) return;
+
+    node.childTiles.forEach((childTile, i) => {
+      const child = this._createNode(
+        childTile,
+        `${node.key}-${i}`,
+        node.depth + 1,
+        node.transform,
+        node.refine,
+        node.baseUrl,
+        node.key
+      );
+      this._nodeCache.set(child.key, child);
+      node.children.push(child.key);
+    });
+
+    node.expanded = true;
+    node.childTiles = undefined;
+  }
+
+  /**
+   * Records a failed external tileset request for retrying with backoff.
+   *
+   * @param key - Key of the tile referencing the external tileset
+   */
+  private _recordExternalFailure(key: string): void {
+    const attempts = (this._externalFailures.get(key)?.attempts ?? 0) + 1;
+    this._externalFailures.set(key, { attempts, lastFailedAt: Date.now() });
+  }
+
+  /**
+   * Checks whether an external tileset can be requested: it has not failed, or its
+   * backoff delay has passed and it has retries left.
+   *
+   * @param key - Key of the tile referencing the external tileset
+   * @param now - Current timestamp
+   * @returns True if the external tileset can be requested
+   */
+  private _canRetryExternal(key: string, now: number): boolean {
+    const failure = this._externalFailures.get(key);
+    if (!failure) return true;
+    if (failure.attempts > this._options.maxRetries) return false;
+    return now - failure.lastFailedAt >= getRetryDelay(failure.attempts, this._options.retryDelayMs);
+  }
+
+  /**
+   * Loads an external tileset referenced by a tile and grafts its root as the tile's child.
+   *
+   * @param node - Tile referencing the external tileset
+   */
+  private async _loadExternalTileset(node: Tiles3DCachedNode): Promise<void> {
+    if (!node.contentUrl || node.expanded || this._externalLoading.has(node.key)) return;
+
+    this._externalLoading.add(node.key);
+    try {
+      const response = await this._fetch(node.contentUrl, 'hierarchy');
+      if (!response.ok) {
+        this._recordExternalFailure(node.key);
+        console.warn(`Failed to load external tileset ${node.contentUrl}: ${response.status}`);
+        return;
+      }
+
+      const tileset = await response.json() as Tiles3DTileset;
+      node.baseUrl = node.contentUrl;
+      node.childTiles = [tileset.root];
+      node.expanded = false;
+      this._expandNode(node);
+      this._externalFailures.delete(node.key);
+    } catch (error) {
+      if (this._abortController.signal.aborted) return;
+      this._recordExternalFailure(node.key);
+      console.warn(`Error loading external tileset ${node.contentUrl}:`, error);
+    } finally {
+      this._externalLoading.delete(node.key);
+    }
+  }
+
+  /**
+   * Computes the WGS84 bounding box of a bounding volume.
+   *
+   * @param volume - Bounding volume
+   * @param transform - Accumulated tile transform (ignored for regions)
+   * @returns Bounds in degrees and meters
+   */
+  private _computeBoundsWgs84(volume: Tiles3DBoundingVolume, transform: number[]): PointCloudBounds {
+    if (volume.region) {
+      const [west, south, east, north, minHeight, maxHeight] = volume.region;
+      const toDeg = 180 / Math.PI;
+      return {
+        minX: west * toDeg,
+        minY: south * toDeg,
+        minZ: minHeight,
+        maxX: east * toDeg,
+        maxY: north * toDeg,
+        maxZ: maxHeight,
+      };
+    }
+
+    const bounds: PointCloudBounds = {
+      minX: Infinity, minY: Infinity, minZ: Infinity,
+      maxX: -Infinity, maxY: -Infinity, maxZ: -Infinity,
+    };
+    const extend = (x: number, y: number, z: number) => {
+      const [lng, lat, h] = ecefToGeodetic(...transformPoint(transform, x, y, z));
+      bounds.minX = Math.min(bounds.minX, lng);
+      bounds.maxX = Math.max(bounds.maxX, lng);
+      bounds.minY = Math.min(bounds.minY, lat);
+      bounds.maxY = Math.max(bounds.maxY, lat);
+      bounds.minZ = Math.min(bounds.minZ, h);
+      bounds.maxZ = Math.max(bounds.maxZ, h);
+    };
+
+    if (volume.box) {
+      const b = volume.box;
+      for (const sx of [-1, 1]) {
+        for (const sy of [-1, 1]) {
+          for (const sz of [-1, 1]) {
+            extend(
+              b[0] + sx * b[3] + sy * b[6] + sz * b[9],
+              b[1] + sx * b[4] + sy * b[7] + sz * b[10],
+              b[2] + sx * b[5] + sy * b[8] + sz * b[11]
+            );
+          }
+        }
+      }
+      return bounds;
+    }
+
+    if (volume.sphere) {
+      const [cx, cy, cz, r] = volume.sphere;
+      // Account for scale in the transform
+      const scale = Math.hypot(transform[0], transform[1], transform[2]);
+      const radius = r * scale;
+      const [lng, lat, h] = ecefToGeodetic(...transformPoint(transform, cx, cy, cz));
+      const dLat = (radius / EARTH_CIRCUMFERENCE_M) * 360;
+      const dLng = dLat / Math.max(0.01, Math.cos((lat * Math.PI) / 180));
+      return {
+        minX: lng - dLng,
+        minY: lat - dLat,
+        minZ: h - radius,
+        maxX: lng + dLng,
+        maxY: lat + dLat,
+        maxZ: h + radius,
+      };
+    }
+
+    throw new Error('Tile has no supported bounding volume (box, region or sphere)');
+  }
+
+  /**
+   * Checks if a node's bounds intersect the viewport.
+   *
+   * @param nodeBounds - Node bounds in WGS84
+   * @param viewport - Current viewport info
+   * @returns True if bounds intersect
+   */
+  private _boundsIntersectsViewport(
+    nodeBounds: PointCloudBounds,
+    viewport: ViewportInfo
+  ): boolean {
+    const [west, south, east, north] = viewport.bounds;
+
+    // Add 20% buffer around viewport
+    const bufferX = (east - west) * 0.2;
+    const bufferY = (north - south) * 0.2;
+
+    return !(
+      nodeBounds.maxX < west - bufferX ||
+      nodeBounds.minX > east + bufferX ||
+      nodeBounds.maxY < south - bufferY ||
+      nodeBounds.minY > north + bufferY
+    );
+  }
+
+  /**
+   * Calculates node priority based on distance from viewport center.
+   *
+   * @param nodeBounds - Node bounds in WGS84
+   * @param viewport - Current viewport info
+   * @returns Priority value (lower = higher priority)
+   */
+  private _calculateNodePriority(
+    nodeBounds: PointCloudBounds,
+    viewport: ViewportInfo
+  ): number {
+    const dx = (nodeBounds.minX + nodeBounds.maxX) / 2 - viewport.center[0];
+    const dy = (nodeBounds.minY + nodeBounds.maxY) / 2 - viewport.center[1];
+    return Math.sqrt(dx * dx + dy * dy);
+  }
+
+  /**
+   * Gets the ground size of a screen pixel for the viewport.
+   * Tilted views show distant tiles at lower resolution, so the pixel size
+   * grows with pitch.
+   *
+   * @param viewport - Current viewport info
+   * @returns Meters per pixel
+   */
+  private _getMetersPerPixel(viewport: ViewportInfo): number {
+    const latRadians = (viewport.center[1] * Math.PI) / 180;
+    // MapLibre uses 512px tiles
+    const metersPerPixel = (EARTH_CIRCUMFERENCE_M * Math.cos(latRadians)) / (512 * Math.pow(2, viewport.zoom));
+    const pitchFactor = Math.max(0.25, Math.cos((viewport.pitch * Math.PI) / 180));
+    return metersPerPixel / pitchFactor;
+  }
+
+  /**
+   * Walks the tile tree for the viewport.
+   *
+   * @param viewport - Current viewport info
+   * @returns Tiles to load and external tilesets that need to be fetched to continue
+   */
+  private _traverse(viewport: ViewportInfo): {
+    nodes: Tiles3DCachedNode[];
+    externals: Tiles3DCachedNode[];
+  } {
+    const nodes: Tiles3DCachedNode[] = [];
+    const externals: Tiles3DCachedNode[] = [];
+    const metersPerPixel = this._getMetersPerPixel(viewport);
+    const now = Date.now();
+    this._lastViewport = viewport;
+
+    // Failed tiles outside the viewport can be retried when they come back into view
+    if (this._options.retryFailedOnView) {
+      for (const [, node] of this._nodeCache) {
+        if (node.state === 'error' && !this._boundsIntersectsViewport(node.boundsWgs84, viewport)) {
+          this._nodeRetrier.canRetry(node, false, now);
+        }
+      }
+    }
+
+    const root = this._nodeCache.get('0');
+    const stack = root ? [root] : [];
+
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (!this._boundsIntersectsViewport(node.boundsWgs84, viewport)) continue;
+
+      const pushChildren = () => {
+        for (const childKey of node.children) {
+          const child = this._nodeCache.get(childKey);
+          if (child) stack.push(child);
+        }
+      };
+
+      // External tilesets only contain more tiles; always descend into them
+      if (node.isExternalTileset) {
+        if (node.expanded) {
+          pushChildren();
+        } else {
+          if (!this._externalLoading.has(node.key) && this._canRetryExternal(node.key, now)) {
+            node.priority = this._calculateNodePriority(node.boundsWgs84, viewport);
+            externals.push(node);
+          }
+        }
+        continue;
+      }
+
+      const hasChildren = node.children.length > 0 || (node.childTiles?.length ?? 0) > 0;
+      const screenSpaceError = node.geometricError / metersPerPixel;
+      const refine = hasChildren &&
+        screenSpaceError > this._options.maximumScreenSpaceError &&
+        node.depth < this._options.maxOctreeDepth;
+
+      if (refine) {
+        this._expandNode(node);
+      }
+
+      // With REPLACE refinement, refined tiles are replaced by their children
+      const loadable = node.state === 'pending' || node.state === 'error';
+      if (loadable && (!refine || node.refine === 'ADD')) {
+        // Skip failed tiles until they can be retried
+        if (this._nodeRetrier.canRetry(node, true, now)) {
+          const distPriority = this._calculateNodePriority(node.boundsWgs84, viewport);
+          node.priority = distPriority - (node.depth * 0.0001);
+          nodes.push(node);
+        }
+      }
+
+      if (refine) {
+        pushChildren();
+      }
+    }
+
+    return { nodes, externals };
+  }
+
+  /**
+   * Finds tiles that intersect the viewport and should be loaded.
+   * External tilesets reached during traversal are fetched (up to
+   * maxSubtreesPerViewport) and traversal is repeated.
+   *
+   * @param viewport - Current viewport information
+   * @returns Sorted array of nodes to load (by priority)
+   */
+  async selectNodesForViewport(viewport: ViewportInfo): Promise<Tiles3DCachedNode[]> {
+    if (!this._isInitialized) {
+      throw new Error('Tiles3DStreamingLoader not initialized. Call initialize() first.');
+    }
+
+    const maxExternals = Math.max(1, this._options.maxSubtreesPerViewport);
+    const maxPasses = 3;
+    let loadedExternals = 0;
+    let result = this._traverse(viewport);
+
+    for (let pass = 0; pass < maxPasses && result.externals.length > 0 && loadedExternals < maxExternals; pass++) {
+      const externals = result.externals
+        .sort((a, b) => (a.priority ?? Infinity) - (b.priority ?? Infinity))
+        .slice(0, maxExternals - loadedExternals);
+
+      await Promise.all(externals.map((node) => this._loadExternalTileset(node)));
+      loadedExternals += externals.length;
+      result = this._traverse(viewport);
+    }
+
+    return result.nodes.sort((a, b) => (a.priority || Infinity) - (b.priority || Infinity));
+  }
+
+  /**
+   * Checks whether there are external tilesets still pending for the viewport.
+   *
+   * @param viewport - Current viewport information
+   * @returns True if more external tilesets should be loaded
+   */
+  hasPendingSubtrees(viewport: ViewportInfo): boolean {
+    if (!this._isInitialized) return false;
+    return this._traverse(viewport).externals.length > 0;
+  }
+
+  /**
+   * Queues a node for loading.
+   *
+   * @param node - Node to queue
+   */
+  queueNode(node: Tiles3DCachedNode): void {
+    if (node.state !== 'pending') return;
+    if (this._loadingQueue.find((n) => n.key === node.key)) return;
+
+    this._loadingQueue.push(node);
+    this._loadingQueue.sort((a, b) => (a.priority || Infinity) - (b.priority || Infinity));
+  }
+
+  /**
+   * Loads nodes from the queue, respecting point budget and concurrency limits.
+   */
+  async loadQueuedNodes(): Promise<void> {
+    while (
+      this._loadingQueue.length > 0 &&
+      this._activeRequests < this._options.maxConcurrentRequests
+    ) {
+      if (this._totalLoadedPoints >= this._options.pointBudget) {
+        this._emit('budgetreached', this._getProgressEvent());
+        break;
+      }
+
+      const node = this._loadingQueue.shift()!;
+      this._loadNode(node);
+    }
+  }
+
+  /**
+   * Loads a single tile's point data.
+   * Point counts are only known once a tile is decoded, so buffer space is
+   * reserved after parsing and tiles are truncated at the point budget.
+   *
+   * @param node - Node to load
+   */
+  private async _loadNode(node: Tiles3DCachedNode): Promise<void> {
+    if (node.state !== 'pending' || !node.contentUrl) return;
+
+    node.state = 'loading';
+    this._activeRequests++;
+
+    try {
+      const response = await this._fetch(node.contentUrl, 'data');
+      if (!response.ok) {
+        throw new Error(`Failed to fetch tile: ${response.status}`);
+      }
+      const tile = new PntsParser().parse(await response.arrayBuffer());
+
+      // The layer may have been destroyed while the request was in flight
+      if (!this._positions) return;
+
+      const available = this._options.pointBudget - this._totalLoadedPoints;
+      if (available <= 0) {
+        node.state = 'pending';
+        this._emit('budgetreached', this._getProgressEvent());
+        return;
+      }
+
+      // Reserve buffer space (no awaits between reservation and copy)
+      const count = Math.min(tile.pointCount, available);
+      const startIndex = this._totalLoadedPoints;
+      this._totalLoadedPoints += count;
+      node.bufferStartIndex = startIndex;
+      node.pointCount = count;
+
+      this._copyTileData(tile, node, startIndex, count);
+      await this._nodeColorizer.colorizeNode(node);
+
+      node.state = 'loaded';
+      this._totalLoadedNodes++;
+
+      this._emit('nodeloaded', node);
+      this._emit('progress', this._getProgressEvent());
+      if (count < tile.pointCount) {
+        this._emit('budgetreached', this._getProgressEvent());
+      }
+
+      this._scheduleLayerUpdate();
+    } catch (error) {
+      // Requests aborted by destroy() are not failures
+      if (this._abortController.signal.aborted) return;
+
+      this._nodeRetrier.handleFailure(node, error);
+    } finally {
+      this._activeRequests--;
+      this.loadQueuedNodes();
+    }
+  }
+
+  /**
+   * Gets the nodes that failed to load after all retries.
+   *
+   * @returns Failed nodes
+   */
+  getFailedNodes(): FailedNodeInfo[] {
+    return this._nodeRetrier.getFailedNodes(this._nodeCache.values());
+  }
+
+  /**
+   * Transforms decoded tile points to WGS84 and copies them into the buffers.
+   *
+   * @param tile - Decoded tile data
+   * @param node - Tile node (provides the transform)
+   * @param startIndex - Starting index in buffers
+   * @param count - Number of points to copy
+   */
+  private _copyTileData(tile: PntsTileData, node: Tiles3DCachedNode, startIndex: number, count: number): void {
+    const budget = this._options.pointBudget;
+
+    if (tile.colors && !this._colors) {
+      this._colors = new Uint8Array(budget * 4);
+      this._hasColor = true;
+    }
+    if (tile.intensities) this._hasIntensity = true;
+    if (tile.classifications) this._hasClassification = true;
+
+    for (const [name, values] of Object.entries(tile.extraAttributes)) {
+      if (!this._extraAttributes[name]) {
+        const ArrayType = values.constructor as new (length: number) => AttributeArray;
+        this._extraAttributes[name] = new ArrayType(budget);
+      }
+    }
+
+    const { positions, colors, intensities, classifications } = tile;
+    const transform = node.transform;
+
+    for (let i = 0; i < count; i++) {
+      const pointIndex = startIndex + i;
+
+      const [x, y, z] = transformPoint(transform, positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]);
+      const [lng, lat, height] = ecefToGeodetic(x, y, z);
+      this._positions![pointIndex * 3] = lng - this._coordinateOrigin[0];
+      this._positions![pointIndex * 3 + 1] = lat - this._coordinateOrigin[1];
+      this._positions![pointIndex * 3 + 2] = height;
+
+      this._intensities![pointIndex] = intensities ? intensities[i] : 0;
+      this._classifications![pointIndex] = classifications ? classifications[i] : 0;
+
+      if (this._colors) {
+        if (colors) {
+          this._colors[pointIndex * 4] = colors[i * 4];
+          this._colors[pointIndex * 4 + 1] = colors[i * 4 + 1];
+          this._colors[pointIndex * 4 + 2] = colors[i * 4 + 2];
+          this._colors[pointIndex * 4 + 3] = colors[i * 4 + 3];
+        } else {
+          // Tiles without colors are shown white
+          this._colors.fill(255, pointIndex * 4, pointIndex * 4 + 4);
+        }
+      }
+    }
+
+    for (const [name, values] of Object.entries(tile.extraAttributes)) {
+      this._extraAttributes[name].set(values.subarray(0, count), startIndex);
+    }
+  }
+
+  /**
+   * Schedules a batched layer update.
+   */
+  private _scheduleLayerUpdate(): void {
+    if (this._pendingLayerUpdate) return;
+    this._pendingLayerUpdate = true;
+
+    this._updateBatchTimeout = setTimeout(() => {
+      this._performLayerUpdate();
+      this._pendingLayerUpdate = false;
+      this._updateBatchTimeout = null;
+    }, 100);
+  }
+
+  /**
+   * Performs the layer update callback.
+   */
+  private _performLayerUpdate(): void {
+    if (this._onPointsLoaded && this._positions) {
+      this._onPointsLoaded(this.getLoadedPointCloudData());
+    }
+  }
+
+  /**
+   * Sets the colorizer computing the point colors (e.g., from a raster), replacing the
+   * colors of the dataset. Loaded nodes are colorized again, new nodes as they load.
+   *
+   * @param colorizer - Point colorizer
+   * @returns Promise that resolves when the loaded nodes are colorized
+   */
+  async setColorizer(colorizer: PointColorizer): Promise<void> {
+    await this._nodeColorizer.setColorizer(colorizer, this._nodeCache.values());
+    this._scheduleLayerUpdate();
+  }
+
+  /**
+   * Sets the callback for when points are loaded.
+   *
+   * @param callback - Function to call with updated point cloud data
+   */
+  setOnPointsLoaded(callback: (data: PointCloudData) => void): void {
+    this._onPointsLoaded = callback;
+  }
+
+  /**
+   * Gets the current loaded point cloud data for rendering.
+   *
+   * @returns Current loaded data
+   */
+  getLoadedPointCloudData(): PointCloudData {
+    const pointCount = this._totalLoadedPoints;
+
+    const trimmedExtraAttributes: ExtraPointAttributes = {};
+    for (const [name, arr] of Object.entries(this._extraAttributes)) {
+      trimmedExtraAttributes[name] = arr.subarray(0, pointCount) as AttributeArray;
+    }
+
+    return {
+      positions: this._positions!.subarray(0, pointCount * 3),
+      coordinateOrigin: this._coordinateOrigin,
+      colors: this._colors?.subarray(0, pointCount * 4),
+      intensities: this._intensities!.subarray(0, pointCount),
+      classifications: this._classifications!.subarray(0, pointCount),
+      extraAttributes:
+        Object.keys(trimmedExtraAttributes).length > 0
+          ? trimmedExtraAttributes
+          : undefined,
+      pointCount,
+      bounds: this._bounds!,
+      hasRGB: this._hasColor || this._nodeColorizer.isActive(),
+      hasIntensity: this._hasIntensity,
+      hasClassification: this._hasClassification,
+    };
+  }
+
+  /**
+   * Gets the current streaming progress.
+   */
+  private _getProgressEvent(): StreamingProgressEvent {
+    return {
+      totalNodesInView: this._nodeCache.size,
+      loadedNodes: this._totalLoadedNodes,
+      loadedPoints: this._totalLoadedPoints,
+      pointBudget: this._options.pointBudget,
+      isLoading: this._activeRequests > 0 || this._loadingQueue.length > 0,
+      queueSize: this._loadingQueue.length,
+    };
+  }
+
+  /**
+   * Registers an event handler.
+   *
+   * @param event - Event type
+   * @param handler - Handler function
+   */
+  on(event: StreamingLoaderEvent, handler: StreamingLoaderEventHandler): void {
+    if (!this._eventHandlers.has(event)) {
+      this._eventHandlers.set(event, new Set());
+    }
+    this._eventHandlers.get(event)!.add(handler);
+  }
+
+  /**
+   * Removes an event handler.
+   *
+   * @param event - Event type
+   * @param handler - Handler function
+   */
+  off(event: StreamingLoaderEvent, handler: StreamingLoaderEventHandler): void {
+    this._eventHandlers.get(event)?.delete(handler);
+  }
+
+  /**
+   * Emits an event to all registered handlers.
+   *
+   * @param event - Event type
+   * @param data - Event data
+   */
+  private _emit(
+    event: StreamingLoaderEvent,
+    data: StreamingProgressEvent | Tiles3DCachedNode | Error
+  ): void {
+    const handlers = this._eventHandlers.get(event);
+    if (handlers) {
+      for (const handler of handlers) {
+        // Handlers don't use COPC-specific node fields
+        handler(event, data as Parameters<StreamingLoaderEventHandler>[1]);
+      }
+    }
+  }
+
+  /**
+   * Gets the total number of loaded points.
+   */
+  getLoadedPointCount(): number {
+    return this._totalLoadedPoints;
+  }
+
+  /**
+   * Gets the current point budget.
+   */
+  getPointBudget(): number {
+    return this._options.pointBudget;
+  }
+
+  /**
+   * Gets the total number of loaded tiles.
+   */
+  getLoadedNodeCount(): number {
+    return this._totalLoadedNodes;
+  }
+
+  /**
+   * Checks if the loader is currently loading.
+   */
+  isLoading(): boolean {
+    return this._activeRequests > 0 || this._loadingQueue.length > 0;
+  }
+
+  /**
+   * Estimates viewport coverage ratio by loaded tiles.
+   *
+   * @param viewport - Current viewport information
+   * @param minDepth - Minimum tile depth to consider
+   * @returns Coverage ratio (0-1)
+   */
+  getViewportCoverageRatio(viewport: ViewportInfo, minDepth: number = 0): number {
+    const [west, south, east, north] = viewport.bounds;
+    const viewportArea = (east - west) * (north - south);
+    if (viewportArea <= 0) return 0;
+
+    let coveredArea = 0;
+    for (const [, node] of this._nodeCache) {
+      if (node.state !== 'loaded' || node.depth < minDepth) continue;
+
+      const intersectWest = Math.max(west, node.boundsWgs84.minX);
+      const intersectEast = Math.min(east, node.boundsWgs84.maxX);
+      const intersectSouth = Math.max(south, node.boundsWgs84.minY);
+      const intersectNorth = Math.min(north, node.boundsWgs84.maxY);
+
+      if (intersectWest < intersectEast && intersectSouth < intersectNorth) {
+        coveredArea += (intersectEast - intersectWest) * (intersectNorth - intersectSouth);
+      }
+    }
+
+    // Cap at 1.0 (overlapping tiles can cause > 1)
+    return Math.min(1.0, coveredArea / viewportArea);
+  }
+
+  /**
+   * Removes queued nodes that are outside the current viewport and re-sorts priorities.
+   *
+   * @param viewport - Current viewport information
+   */
+  pruneQueueForViewport(viewport: ViewportInfo): void {
+    if (this._loadingQueue.length === 0) return;
+
+    this._loadingQueue = this._loadingQueue.filter((node) =>
+      this._boundsIntersectsViewport(node.boundsWgs84, viewport)
+    );
+
+    for (const node of this._loadingQueue) {
+      const distPriority = this._calculateNodePriority(node.boundsWgs84, viewport);
+      node.priority = distPriority - (node.depth * 0.0001);
+    }
+
+    this._loadingQueue.sort((a, b) => (a.priority || Infinity) - (b.priority || Infinity));
+  }
+
+  /**
+   * Resets loaded tile data to allow loading a new area.
+   * Keeps the tile tree intact but clears loaded points and tile states.
+   *
+   * @returns True if reset occurred
+   */
+  resetLoadedData(): boolean {
+    if (this._activeRequests > 0 || this._isResetting) return false;
+    this._isResetting = true;
+
+    this._loadingQueue = [];
+    this._totalLoadedPoints = 0;
+    this._totalLoadedNodes = 0;
+
+    for (const [, node] of this._nodeCache) {
+      if (node.state === 'loaded' || node.state === 'loading' || node.state === 'error') {
+        node.state = 'pending';
+        node.bufferStartIndex = undefined;
+        node.error = undefined;
+        node.retryCount = undefined;
+        node.lastFailedAt = undefined;
+      }
+    }
+    this._nodeRetrier.reset();
+
+    // Force a render update so old points are cleared.
+    this._scheduleLayerUpdate();
+
+    this._isResetting = false;
+    return true;
+  }
+
+  /**
+   * Gets the tileset JSON.
+   */
+  getTileset(): Tiles3DTileset | null {
+    return this._tileset;
+  }
+
+  /**
+   * Gets the extended 3D Tiles metadata for the metadata panel.
+   *
+   * @returns Extended metadata or undefined if not initialized
+   */
+  getExtendedMetadata(): Tiles3DExtendedMetadata | undefined {
+    if (!this._tileset) return undefined;
+
+    const dimensions: DimensionInfo[] = [{ name: 'POSITION', type: 'float', size: 4 }];
+    if (this._hasColor) dimensions.push({ name: 'RGBA', type: 'unsigned', size: 1 });
+    if (this._hasIntensity) dimensions.push({ name: 'Intensity', type: 'float', size: 4 });
+    if (this._hasClassification) dimensions.push({ name: 'Classification', type: 'unsigned', size: 1 });
+    for (const [name, arr] of Object.entries(this._extraAttributes)) {
+      dimensions.push(describeArray(name, arr));
+    }
+
+    return {
+      version: this._tileset.asset?.version ?? '1.0',
+      tilesetVersion: this._tileset.asset?.tilesetVersion,
+      geometricError: this._tileset.geometricError,
+      refine: this._nodeCache.get('0')?.refine ?? 'REPLACE',
+      discoveredTiles: this._nodeCache.size,
+      dimensions,
+    };
+  }
+
+  /**
+   * Fetches a resource, applying the request transform. Requests are aborted on destroy.
+   *
+   * @param url - Resource URL
+   * @param kind - Kind of resource requested
+   * @param headers - Optional request headers
+   * @returns Fetch response
+   */
+  private _fetch(url: string, kind: RequestKind, headers?: Record<string, string>): Promise<Response> {
+    return fetchWithTransform(
+      url,
+      kind,
+      { headers, signal: this._abortController.signal },
+      this._options.transformRequest
+    );
+  }
+
+  /**
+   * Destroys the streaming loader and cleans up resources.
+   */
+  destroy(): void {
+    this._abortController.abort();
+
+    if (this._updateBatchTimeout) {
+      clearTimeout(this._updateBatchTimeout);
+    }
+
+    // Cancel scheduled retries
+    this._nodeRetrier.destroy();
+
+    this._loadingQueue = [];
+    this._nodeCache.clear();
+    this._externalLoading.clear();
+    this._externalFailures.clear();
+    this._eventHandlers.clear();
+
+    this._positions = null;
+    this._colors = null;
+    this._intensities = null;
+    this._classifications = null;
+    this._extraAttributes = {};
+  }
+}
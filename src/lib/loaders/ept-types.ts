@@ -88,6 +88,8 @@ export interface EptCachedNode {
   retryCount?: number;
   /** Timestamp of last failed attempt (for retry cooldown) */
   lastFailedAt?: number;
+  /** Timestamp of the last viewport selection the node was visible in (for LRU eviction) */
+  lastVisibleAt?: number;
 }
 
 /**
@@ -1,18 +1,33 @@
 export { PointCloudLoader } from './PointCloudLoader';
 export { CopcStreamingLoader } from './CopcStreamingLoader';
 export { EptStreamingLoader } from './EptStreamingLoader';
-export type { PointCloudData, LoaderOptions } from './types';
+export { Tiles3DStreamingLoader } from './Tiles3DStreamingLoader';
+export { PotreeStreamingLoader } from './PotreeStreamingLoader';
+export type {
+  PointCloudData,
+  LoaderOptions,
+  PointCloudFileFormat,
+  ColumnMapping,
+  ParsedPointColumns,
+  PointCloudLoadOptions,
+  RequestKind,
+  RequestParameters,
+  RequestTransformFunction,
+} from './types';
 export type {
   CopcLoadingMode,
   StreamingLoaderOptions,
   StreamingProgressEvent,
   ViewportInfo,
+  ViewportCamera,
   CachedNode,
   NodeKey,
   NodeState,
   StreamingLoaderEvent,
   StreamingLoaderEventHandler,
   StreamingLoadOptions,
+  FailedNodeInfo,
+  PointColorizer,
 } from './streaming-types';
 export type {
   EptMetadata,
@@ -21,3 +36,19 @@ export type {
   EptHierarchy,
   EptCachedNode,
 } from './ept-types';
+export type {
+  Tiles3DStreamingLoaderOptions,
+  Tiles3DTileset,
+  Tiles3DTile,
+  Tiles3DBoundingVolume,
+  Tiles3DContent,
+  Tiles3DCachedNode,
+  PntsTileData,
+} from './tiles3d-types';
+export type {
+  PotreeStreamingLoaderOptions,
+  Potree1Metadata,
+  Potree2Metadata,
+  Potree2Attribute,
+  PotreeCachedNode,
+} from './potree-types';
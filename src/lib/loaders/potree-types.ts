@@ -0,0 +1,162 @@
+import type { PointCloudBounds } from '../core/types';
+import type { NodeKey, NodeState, StreamingLoaderOptions } from './streaming-types';
+
+/**
+ * Options for the Potree streaming loader
+ */
+export interface PotreeStreamingLoaderOptions extends StreamingLoaderOptions {
+  /**
+   * Source CRS (proj4 string or WKT) used when the dataset has no projection.
+   * Coordinates are used as longitude/latitude when neither is available.
+   */
+  projection?: string;
+}
+
+/**
+ * Attribute definition in a Potree 2.0 metadata.json
+ */
+export interface Potree2Attribute {
+  /** Attribute name (e.g., "position", "rgb", "intensity", "gps-time") */
+  name: string;
+  /** Description */
+  description?: string;
+  /** Total size in bytes */
+  size: number;
+  /** Number of elements (e.g., 3 for position) */
+  numElements: number;
+  /** Size of each element in bytes */
+  elementSize: number;
+  /** Element type (e.g., "int32", "uint16", "double") */
+  type: string;
+  /** Minimum value(s) */
+  min?: number[];
+  /** Maximum value(s) */
+  max?: number[];
+}
+
+/**
+ * Potree 2.0 metadata.json
+ */
+export interface Potree2Metadata {
+  /** Format version ("2.0") */
+  version: string;
+  /** Dataset name */
+  name?: string;
+  /** Total number of points */
+  points: number;
+  /** Projection (proj4 string or WKT), may be empty */
+  projection?: string;
+  /** Hierarchy layout */
+  hierarchy: {
+    /** Size of the root hierarchy chunk in bytes */
+    firstChunkSize: number;
+    /** Levels per hierarchy chunk */
+    stepSize: number;
+    /** Octree depth */
+    depth: number;
+  };
+  /** Offset added to scaled integer coordinates */
+  offset: [number, number, number];
+  /** Scale applied to integer coordinates */
+  scale: [number, number, number];
+  /** Point spacing at the root level */
+  spacing: number;
+  /** Cubic octree bounding box */
+  boundingBox: { min: [number, number, number]; max: [number, number, number] };
+  /** Point data encoding */
+  encoding: 'DEFAULT' | 'BROTLI' | string;
+  /** Point attributes in record order */
+  attributes: Potree2Attribute[];
+}
+
+/**
+ * Potree 1.x bounding box as stored in cloud.js
+ */
+export interface Potree1BoundingBox {
+  lx: number;
+  ly: number;
+  lz: number;
+  ux: number;
+  uy: number;
+  uz: number;
+}
+
+/**
+ * Potree 1.x cloud.js
+ */
+export interface Potree1Metadata {
+  /** Format version (e.g., "1.7") */
+  version: string;
+  /** Directory holding hierarchy and point files, relative to cloud.js */
+  octreeDir: string;
+  /** Projection (proj4 string or WKT), may be empty */
+  projection?: string;
+  /** Total number of points */
+  points: number;
+  /** Cubic octree bounding box */
+  boundingBox: Potree1BoundingBox;
+  /** Bounding box of the actual points */
+  tightBoundingBox?: Potree1BoundingBox;
+  /** Attribute names in record order, or "LAS"/"LAZ" for LAS-encoded nodes */
+  pointAttributes: string[] | 'LAS' | 'LAZ';
+  /** Point spacing at the root level */
+  spacing: number;
+  /** Scale applied to integer coordinates */
+  scale: number;
+  /** Levels per hierarchy (.hrc) file */
+  hierarchyStepSize: number;
+}
+
+/**
+ * Attribute of a point record with its byte layout
+ */
+export interface PotreeParsedAttribute {
+  /** Normalized attribute name ("position", "rgb", "rgba", "intensity", "classification" or an extra attribute name) */
+  name: string;
+  /** Byte offset within a point record */
+  byteOffset: number;
+  /** Number of elements */
+  numElements: number;
+  /** Element type (e.g., "int32", "uint16", "double") */
+  type: string;
+  /** Size of each element in bytes */
+  elementSize: number;
+}
+
+/**
+ * Cached Potree node with loading state
+ */
+export interface PotreeCachedNode {
+  /** Potree node name, e.g. "r", "r04" */
+  key: string;
+  /** Octree key [depth, x, y, z] */
+  keyArray: NodeKey;
+  /** Current state of the node ('subtree' = Potree 2.0 proxy whose hierarchy is not loaded) */
+  state: NodeState;
+  /** Number of points in this node */
+  pointCount: number;
+  /** Bounding box in source CRS */
+  bounds: PointCloudBounds;
+  /** Bounding box in WGS84 (for viewport intersection) */
+  boundsWgs84: PointCloudBounds;
+  /** Whether the node's descendants are defined in a hierarchy chunk that is not loaded yet */
+  hierarchyPending: boolean;
+  /** Potree 2.0: byte offset of the point data in octree.bin */
+  byteOffset?: number;
+  /** Potree 2.0: byte size of the point data in octree.bin */
+  byteSize?: number;
+  /** Potree 2.0: byte offset of the node's hierarchy chunk in hierarchy.bin */
+  hierarchyByteOffset?: number;
+  /** Potree 2.0: byte size of the node's hierarchy chunk in hierarchy.bin */
+  hierarchyByteSize?: number;
+  /** Distance from viewport center (for priority queue) */
+  priority?: number;
+  /** Points array slice start index in the main buffer */
+  bufferStartIndex?: number;
+  /** Error message if state is 'error' */
+  error?: string;
+  /** Number of load retry attempts */
+  retryCount?: number;
+  /** Timestamp of last failed attempt (for retry cooldown) */
+  lastFailedAt?: number;
+}
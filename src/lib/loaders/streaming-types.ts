@@ -1,4 +1,6 @@
 import type { PointCloudBounds } from '../core/types';
+import type { RequestTransformFunction } from './types';
+import type { PersistentNodeCache } from '../cache/PersistentNodeCache';
 
 /**
  * COPC loading mode options
@@ -51,6 +53,59 @@ export interface StreamingLoaderOptions {
    * @default 60
    */
   maxSubtreesPerViewport?: number;
+
+  /**
+   * URL of the decode worker script (the package's `maplibre-gl-lidar/worker` entry).
+   * When set, LAZ nodes are decoded and reprojected on a Web Worker pool (COPC and EPT only)
+   * @default null
+   */
+  workerUrl?: string | null;
+
+  /**
+   * Number of decode workers, 0 for one less than the available cores (at most 4)
+   * @default 0
+   */
+  workerCount?: number;
+
+  /**
+   * Customizes metadata, hierarchy and data requests (headers, credentials or signed URLs).
+   * Called again with the failed response on 401/403 so tokens can be refreshed
+   * @default null
+   */
+  transformRequest?: RequestTransformFunction | null;
+
+  /**
+   * Number of times a failed node or hierarchy request is retried
+   * @default 3
+   */
+  maxRetries?: number;
+
+  /**
+   * Delay before the first retry in ms, doubled after each failed attempt (at most 60 s)
+   * @default 1000
+   */
+  retryDelayMs?: number;
+
+  /**
+   * Whether nodes that failed after all retries are tried again when they leave
+   * the viewport and come back into view
+   * @default false
+   */
+  retryFailedOnView?: boolean;
+  /**
+   * IndexedDB cache checked before downloading node data (COPC and EPT URLs only)
+   * @default null
+   */
+  persistentCache?: PersistentNodeCache | null;
+
+  /**
+   * Maximum distance in pixels between points on screen (COPC and EPT only). Nodes are selected
+   * by screen-space error: each node's point spacing divided by its distance to the camera, so
+   * pitched views load more detail in the foreground than near the horizon.
+   * Set to 0 to select nodes by the viewport's target depth instead.
+   * @default 2
+   */
+  screenSpaceErrorThreshold?: number;
 }
 
 /**
@@ -84,6 +139,34 @@ export interface CachedNode {
   bufferStartIndex?: number;
   /** Error message if state is 'error' */
   error?: string;
+  /** Number of failed load attempts */
+  retryCount?: number;
+  /** Timestamp of last failed attempt (for retry backoff) */
+  lastFailedAt?: number;
+  /** Timestamp of the last viewport selection the node was visible in (for LRU eviction) */
+  lastVisibleAt?: number;
+}
+
+/**
+ * A node that failed to load after all retries
+ */
+export interface FailedNodeInfo {
+  /** Node key */
+  key: string;
+  /** Error message of the last attempt */
+  error?: string;
+  /** Number of failed attempts */
+  attempts: number;
+}
+
+/**
+ * Failed attempts of a hierarchy request retried with backoff
+ */
+export interface RetryState {
+  /** Number of failed attempts */
+  attempts: number;
+  /** Timestamp of the last failed attempt */
+  lastFailedAt: number;
 }
 
 /**
@@ -100,6 +183,20 @@ export interface ViewportInfo {
   pitch: number;
   /** Target octree depth based on zoom and pitch */
   targetDepth: number;
+  /** Camera information for screen-space error based node selection */
+  camera?: ViewportCamera;
+}
+
+/**
+ * Camera of a viewport, used to project node sizes to the screen
+ */
+export interface ViewportCamera {
+  /** Camera position [lng, lat, altitude above the map plane in meters] */
+  position: [number, number, number];
+  /** Map area visible on screen: the [lng, lat] positions of the viewport corners */
+  footprint: [number, number][];
+  /** Viewport height divided by 2 * tan(fov / 2): size in pixels of 1 meter at 1 meter from the camera */
+  projectionFactor: number;
 }
 
 /**
@@ -128,6 +225,7 @@ export type StreamingLoaderEvent =
   | 'nodeloaded'
   | 'viewportchange'
   | 'budgetreached'
+  | 'nodefailed'
   | 'error';
 
 /**
@@ -148,3 +246,23 @@ export interface StreamingLoadOptions extends StreamingLoaderOptions {
    */
   loadingMode?: CopcLoadingMode;
 }
+
+/**
+ * Computes point colors, e.g., by sampling a raster at the point positions.
+ * Streaming loaders colorize each node with it as the node loads
+ */
+export interface PointColorizer {
+  /**
+   * Computes the colors of points.
+   *
+   * @param positions - XYZ positions as offsets from the coordinate origin
+   * @param coordinateOrigin - Coordinate origin [lng, lat, 0]
+   * @param signal - Optional abort signal
+   * @returns RGBA colors (length = pointCount * 4)
+   */
+  colorize(
+    positions: Float32Array,
+    coordinateOrigin: [number, number, number],
+    signal?: AbortSignal
+  ): Promise<Uint8Array>;
+}
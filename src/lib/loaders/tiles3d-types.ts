@@ -0,0 +1,144 @@
+import type { PointCloudBounds } from '../core/types';
+import type { NodeState, StreamingLoaderOptions } from './streaming-types';
+import type { ExtraPointAttributes } from './types';
+
+/**
+ * Options for the 3D Tiles streaming loader
+ */
+export interface Tiles3DStreamingLoaderOptions extends StreamingLoaderOptions {
+  /**
+   * Screen-space error in pixels above which a tile is refined into its children.
+   * Lower values load more detail.
+   * @default 16
+   */
+  maximumScreenSpaceError?: number;
+}
+
+/**
+ * 3D Tiles bounding volume. Exactly one of box, region or sphere is set.
+ */
+export interface Tiles3DBoundingVolume {
+  /** Oriented box: center (3) followed by the x, y and z half-axes (3 each) */
+  box?: number[];
+  /** Geographic region in radians/meters: [west, south, east, north, minHeight, maxHeight] */
+  region?: number[];
+  /** Sphere: center (3) and radius */
+  sphere?: number[];
+}
+
+/**
+ * Tile content reference
+ */
+export interface Tiles3DContent {
+  /** Content URI, relative to the tileset JSON */
+  uri?: string;
+  /** Legacy (pre-1.0) name of uri */
+  url?: string;
+  /** Optional tighter bounding volume of the content */
+  boundingVolume?: Tiles3DBoundingVolume;
+}
+
+/**
+ * Tile entry of a tileset JSON
+ */
+export interface Tiles3DTile {
+  /** Bounding volume enclosing the tile and its descendants */
+  boundingVolume: Tiles3DBoundingVolume;
+  /** Error in meters introduced if this tile is rendered and its children are not */
+  geometricError: number;
+  /** Refinement strategy; inherited from the parent when omitted */
+  refine?: 'ADD' | 'REPLACE' | 'add' | 'replace';
+  /** Column-major 4x4 transform from tile to parent coordinates */
+  transform?: number[];
+  /** Tile content */
+  content?: Tiles3DContent;
+  /** 3D Tiles 1.1 multiple contents */
+  contents?: Tiles3DContent[];
+  /** Child tiles */
+  children?: Tiles3DTile[];
+}
+
+/**
+ * Tileset JSON (tileset.json)
+ */
+export interface Tiles3DTileset {
+  /** Asset information */
+  asset: {
+    /** 3D Tiles version (e.g., "1.0") */
+    version: string;
+    /** Application-specific tileset version */
+    tilesetVersion?: string;
+    /** Up axis of glTF content (unused for pnts) */
+    gltfUpAxis?: string;
+  };
+  /** Error in meters when the tileset is not rendered */
+  geometricError: number;
+  /** Root tile */
+  root: Tiles3DTile;
+  /** Metadata about per-feature properties */
+  properties?: Record<string, { minimum?: number; maximum?: number }>;
+}
+
+/**
+ * Cached 3D Tiles node with loading state
+ */
+export interface Tiles3DCachedNode {
+  /** Path of child indices from the root, e.g. "0-2-1" */
+  key: string;
+  /** Depth in the tile tree (root = 0) */
+  depth: number;
+  /** Current state of the node */
+  state: NodeState;
+  /** Number of points (known once loaded) */
+  pointCount: number;
+  /** Geometric error of the tile in meters */
+  geometricError: number;
+  /** Effective refinement strategy */
+  refine: 'ADD' | 'REPLACE';
+  /** Accumulated column-major 4x4 transform to ECEF */
+  transform: number[];
+  /** Absolute content URL, if the tile has content */
+  contentUrl?: string;
+  /** Whether the content is an external tileset */
+  isExternalTileset: boolean;
+  /** Bounding box in WGS84 (for viewport intersection) */
+  boundsWgs84: PointCloudBounds;
+  /** Child node keys (populated when the tile, or its external tileset, is expanded) */
+  children: string[];
+  /** Parent node key */
+  parent?: string;
+  /** Whether children of this tile have been added to the cache */
+  expanded: boolean;
+  /** Child tile definitions waiting to be expanded */
+  childTiles?: Tiles3DTile[];
+  /** Base URL for resolving child content URIs */
+  baseUrl: string;
+  /** Distance from viewport center (for priority queue) */
+  priority?: number;
+  /** Points array slice start index in the main buffer */
+  bufferStartIndex?: number;
+  /** Error message if state is 'error' */
+  error?: string;
+  /** Number of load retry attempts */
+  retryCount?: number;
+  /** Timestamp of last failed attempt (for retry cooldown) */
+  lastFailedAt?: number;
+}
+
+/**
+ * Points decoded from a pnts tile, in tile coordinates
+ */
+export interface PntsTileData {
+  /** Number of points */
+  pointCount: number;
+  /** XYZ positions in tile coordinates (RTC_CENTER and quantization applied) */
+  positions: Float64Array;
+  /** RGBA colors, if present */
+  colors?: Uint8Array;
+  /** Intensity normalized to 0-1, if present in the batch table */
+  intensities?: Float32Array;
+  /** Classification, if present in the batch table */
+  classifications?: Uint8Array;
+  /** Other per-point batch table properties */
+  extraAttributes: ExtraPointAttributes;
+}
@@ -76,17 +76,88 @@ export interface PointCloudData {
    * WKT string describing the coordinate reference system
    */
   wkt?: string;
+
+  /**
+   * Nominal distance in meters between neighboring points of the full dataset, used to size
+   * points in meters. Estimated from the bounds and point count when not set
+   */
+  spacing?: number;
+
+  /**
+   * Distance in meters between the points of the octree root node (streamed datasets).
+   * Points of nodes at depth d are rootSpacing / 2^d apart
+   */
+  rootSpacing?: number;
+
+  /**
+   * Octree depth of the node of each point (streamed datasets, length = pointCount)
+   */
+  nodeDepths?: Uint8Array;
+
+  /**
+   * Estimated unit normals in meters [east, north, up] (length = pointCount * 3)
+   */
+  normals?: Float32Array;
 }
 
+/**
+ * Kind of resource requested by a loader:
+ * - 'metadata': file headers and dataset descriptions (COPC header, ept.json, tileset.json, Potree metadata)
+ * - 'hierarchy': octree hierarchy pages
+ * - 'data': point data (COPC chunks, EPT/Potree nodes, 3D Tiles content, whole files)
+ * - 'raster': raster tiles and GeoTIFFs sampled to colorize points
+ */
+export type RequestKind = 'metadata' | 'hierarchy' | 'data' | 'raster';
+
+/**
+ * Request parameters returned by a request transform
+ */
+export interface RequestParameters {
+  /** URL to request, e.g. with a query-string signature */
+  url: string;
+  /** Headers added to the request */
+  headers?: Record<string, string>;
+  /** Credentials mode of the request */
+  credentials?: RequestCredentials;
+}
+
+/**
+ * Customizes loader requests, similar to MapLibre's transformRequest.
+ * When a request is rejected with 401 or 403 the transform is called again with the
+ * failed response, so credentials can be refreshed, and the request is retried once.
+ *
+ * @param url - URL the loader requests
+ * @param kind - Kind of resource requested
+ * @param failedResponse - Response of the rejected request when retrying after a 401/403
+ * @returns Request parameters, or undefined to send the request unchanged
+ */
+export type RequestTransformFunction = (
+  url: string,
+  kind: RequestKind,
+  failedResponse?: Response
+) => RequestParameters | undefined | Promise<RequestParameters | undefined>;
+
 /**
  * Options for the point cloud loader
  */
 export interface LoaderOptions {
   /**
-   * URL of the worker script (null for main thread)
+   * URL of the point decode worker script (the package's `maplibre-gl-lidar/worker` entry).
+   * LAZ decompression and reprojection run on the main thread when null or when workers are unavailable.
    */
   workerUrl?: string | null;
 
+  /**
+   * Maximum number of decode workers (0 for one less than the available cores, at most 4)
+   * @default 0
+   */
+  workerCount?: number;
+
+  /**
+   * Customizes requests (headers, credentials or signed URLs) for authenticated hosts
+   */
+  transformRequest?: RequestTransformFunction | null;
+
   /**
    * Progress callback
    */
@@ -97,3 +168,69 @@ export interface LoaderOptions {
    */
   pointBudget?: number;
 }
+
+/**
+ * Point cloud file formats understood by PointCloudLoader
+ */
+export type PointCloudFileFormat = 'las' | 'ply' | 'xyz' | 'pts';
+
+/**
+ * Maps point attributes to source columns of PLY or delimited text files.
+ * Each entry is a column/property name (case-insensitive) or a zero-based column index.
+ * Unmapped attributes are detected from common column names.
+ */
+export interface ColumnMapping {
+  x?: string | number;
+  y?: string | number;
+  z?: string | number;
+  intensity?: string | number;
+  red?: string | number;
+  green?: string | number;
+  blue?: string | number;
+  classification?: string | number;
+}
+
+/**
+ * Columns parsed from a PLY or delimited text file
+ */
+export interface ParsedPointColumns {
+  /** Number of points */
+  pointCount: number;
+  /** Column names in file order */
+  names: string[];
+  /** Column values keyed by name (length = pointCount) */
+  columns: Record<string, AttributeArray>;
+}
+
+/**
+ * Options for PointCloudLoader.load
+ */
+export interface PointCloudLoadOptions {
+  /**
+   * File format. Detected from the file extension or magic bytes when omitted.
+   */
+  format?: PointCloudFileFormat;
+
+  /**
+   * Column mapping for PLY and delimited text formats
+   */
+  columns?: ColumnMapping;
+
+  /**
+   * CRS of the source coordinates for formats without embedded CRS information:
+   * WKT, a proj4 definition or a code registered with proj4 (e.g. 'EPSG:4326').
+   * Coordinates within longitude/latitude range are assumed to be WGS84 when omitted.
+   */
+  crs?: string;
+
+  /**
+   * Column delimiter for delimited text formats. Detected from the first data line when omitted.
+   */
+  delimiter?: string;
+
+  /**
+   * Signal that cancels the load. Pending requests are aborted and decoding stops
+   * at the next chunk boundary; the returned promise rejects with an AbortError.
+   */
+  signal?: AbortSignal;
+}
@@ -0,0 +1,378 @@
+import type { Map as MapLibreMap, MapMouseEvent } from 'maplibre-gl';
+import type { ClipBox } from '../core/types';
+import type { DeckOverlay } from '../core/DeckOverlay';
+import { PolygonLayer, ScatterplotLayer } from '@deck.gl/layers';
+import { clipBoxLocalToLngLat, getClipBoxFootprint, lngLatToClipBoxLocal } from '../utils/clip';
+
+// Picking radius of the handles in pixels
+const HANDLE_PICK_RADIUS_PX = 6;
+
+// Minimum size and height of the box in meters
+const MIN_BOX_SIZE = 0.1;
+
+// Distance of the rotation handle beyond the box, as a fraction of its length
+const ROTATE_HANDLE_OFFSET = 0.25;
+
+/**
+ * Handle that edits a part of the clip box
+ */
+type ClipBoxHandle = 'move' | 'rotate' | 'resize' | 'top' | 'bottom';
+
+/**
+ * Handle displayed on the map
+ */
+interface HandleDatum {
+  handle: ClipBoxHandle;
+  position: [number, number, number];
+  color: [number, number, number];
+}
+
+/**
+ * State of a handle being dragged
+ */
+interface ClipBoxDrag {
+  handle: ClipBoxHandle;
+  /** Box when the drag started */
+  box: ClipBox;
+  /** Cursor position when the drag started */
+  lngLat: [number, number];
+  /** Screen Y of the cursor when the drag started */
+  y: number;
+}
+
+const HANDLE_COLORS: Record<ClipBoxHandle, [number, number, number]> = {
+  move: [255, 255, 255],
+  rotate: [255, 204, 0],
+  resize: [51, 136, 255],
+  top: [0, 200, 120],
+  bottom: [0, 200, 120],
+};
+
+/**
+ * Clip box editing tool for MapLibre.
+ * Displays the clip box and, when enabled, handles to drag its position (center), rotation,
+ * size (corner) and the elevations of its top and bottom (dragged up and down on screen).
+ */
+export class ClipBoxTool {
+  private _map: MapLibreMap;
+  private _deckOverlay: DeckOverlay;
+  private _box: ClipBox | null = null;
+  private _zOffset: number = 0;
+  private _enabled: boolean = false;
+  private _drag: ClipBoxDrag | null = null;
+
+  // deck.gl layer IDs
+  private readonly BOX_LAYER_ID = 'lidar-clip-box-layer';
+  private readonly HANDLES_LAYER_ID = 'lidar-clip-box-handles-layer';
+
+  // Event callbacks
+  private _onChange?: (box: ClipBox) => void;
+
+  // Bound event handlers
+  private _handleMouseDownBound: (e: MapMouseEvent) => void;
+  private _handleMouseMoveBound: (e: MapMouseEvent) => void;
+  private _handleMouseUpBound: (e: MapMouseEvent) => void;
+
+  /**
+   * Creates a new ClipBoxTool instance.
+   *
+   * @param map - MapLibre map instance
+   * @param deckOverlay - DeckOverlay instance for rendering
+   */
+  constructor(map: MapLibreMap, deckOverlay: DeckOverlay) {
+    this._map = map;
+    this._deckOverlay = deckOverlay;
+    this._handleMouseDownBound = this._handleMouseDown.bind(this);
+    this._handleMouseMoveBound = this._handleMouseMove.bind(this);
+    this._handleMouseUpBound = this._handleMouseUp.bind(this);
+  }
+
+  /**
+   * Enables editing the box with handles.
+   */
+  enable(): void {
+    if (this._enabled) return;
+
+    this._enabled = true;
+    this._map.on('mousedown', this._handleMouseDownBound);
+    this._map.on('mousemove', this._handleMouseMoveBound);
+    this._map.on('mouseup', this._handleMouseUpBound);
+    this._updateVisualization();
+  }
+
+  /**
+   * Disables editing the box. The box stays displayed.
+   */
+  disable(): void {
+    if (!this._enabled) return;
+
+    this._enabled = false;
+    this._drag = null;
+    this._map.off('mousedown', this._handleMouseDownBound);
+    this._map.off('mousemove', this._handleMouseMoveBound);
+    this._map.off('mouseup', this._handleMouseUpBound);
+    this._map.getCanvas().style.cursor = '';
+    this._updateVisualization();
+  }
+
+  /**
+   * Checks if editing is enabled.
+   *
+   * @returns True if enabled
+   */
+  isEnabled(): boolean {
+    return this._enabled;
+  }
+
+  /**
+   * Sets the clip box to display.
+   *
+   * @param box - Clip box, or null to remove it
+   */
+  setBox(box: ClipBox | null): void {
+    this._box = box;
+    this._drag = null;
+    this._updateVisualization();
+  }
+
+  /**
+   * Sets the Z offset of the rendered points, so the box is displayed where they are.
+   *
+   * @param offset - Z offset in meters
+   */
+  setZOffset(offset: number): void {
+    this._zOffset = offset;
+    this._updateVisualization();
+  }
+
+  /**
+   * Sets the callback for boxes edited with the handles, called when a drag ends.
+   *
+   * @param callback - Callback function receiving the edited box
+   */
+  setOnChange(callback: (box: ClipBox) => void): void {
+    this._onChange = callback;
+  }
+
+  /**
+   * Destroys the tool and cleans up resources.
+   */
+  destroy(): void {
+    this.disable();
+    this._box = null;
+    this._removeDeckLayers();
+  }
+
+  /**
+   * Removes deck.gl layers.
+   */
+  private _removeDeckLayers(): void {
+    for (const id of [this.BOX_LAYER_ID, this.HANDLES_LAYER_ID]) {
+      if (this._deckOverlay.hasLayer(id)) {
+        this._deckOverlay.removeLayer(id);
+      }
+    }
+  }
+
+  /**
+   * Handles mouse down events: starts dragging the handle under the cursor.
+   *
+   * @param e - Map mouse event
+   */
+  private _handleMouseDown(e: MapMouseEvent): void {
+    if (!this._box) return;
+
+    const handle = this._pickHandle(e);
+    if (!handle) return;
+
+    // Prevents the map from panning or rotating during the drag
+    e.preventDefault();
+    this._drag = { handle, box: this._box, lngLat: [e.lngLat.lng, e.lngLat.lat], y: e.point.y };
+  }
+
+  /**
+   * Handles mouse move events: updates the dragged box, or the cursor over handles.
+   *
+   * @param e - Map mouse event
+   */
+  private _handleMouseMove(e: MapMouseEvent): void {
+    if (!this._drag) {
+      this._map.getCanvas().style.cursor = this._box && this._pickHandle(e) ? 'grab' : '';
+      return;
+    }
+
+    this._map.getCanvas().style.cursor = 'grabbing';
+    this._box = this._getDraggedBox(this._drag, e);
+    this._updateVisualization();
+  }
+
+  /**
+   * Handles mouse up events: ends the drag and notifies listeners.
+   */
+  private _handleMouseUp(): void {
+    if (!this._drag) return;
+
+    this._drag = null;
+    this._map.getCanvas().style.cursor = 'grab';
+    if (this._box) this._onChange?.(this._box);
+  }
+
+  /**
+   * Gets the handle under the cursor.
+   *
+   * @param e - Map mouse event
+   * @returns Handle, or null if there is none
+   */
+  private _pickHandle(e: MapMouseEvent): ClipBoxHandle | null {
+    if (!this._deckOverlay.hasLayer(this.HANDLES_LAYER_ID)) return null;
+    const info = this._deckOverlay.pickObject(e.point.x, e.point.y, [this.HANDLES_LAYER_ID], HANDLE_PICK_RADIUS_PX);
+    return (info?.object as HandleDatum | undefined)?.handle ?? null;
+  }
+
+  /**
+   * Gets the box being dragged at the cursor position.
+   *
+   * @param drag - Drag state
+   * @param e - Map mouse event
+   * @returns Edited box
+   */
+  private _getDraggedBox(drag: ClipBoxDrag, e: MapMouseEvent): ClipBox {
+    const { box } = drag;
+    const { lng, lat } = e.lngLat;
+
+    switch (drag.handle) {
+      case 'move':
+        return { ...box, center: [box.center[0] + lng - drag.lngLat[0], box.center[1] + lat - drag.lngLat[1]] };
+      case 'rotate': {
+        // Bearing of the cursor from the center, in the box frame without rotation
+        const [east, north] = lngLatToClipBoxLocal({ ...box, rotation: 0 }, lng, lat);
+        const rotation = (Math.atan2(east, north) * 180) / Math.PI;
+        return { ...box, rotation: (rotation + 360) % 360 };
+      }
+      case 'resize': {
+        const [u, v] = lngLatToClipBoxLocal(box, lng, lat);
+        return { ...box, width: Math.max(MIN_BOX_SIZE, Math.abs(u) * 2), length: Math.max(MIN_BOX_SIZE, Math.abs(v) * 2) };
+      }
+      case 'top':
+      case 'bottom': {
+        // Dragging up raises the top or bottom by the ground distance of the dragged pixels
+        const dz = (drag.y - e.point.y) * this._getMetersPerPixel(box.center[1]);
+        return drag.handle === 'top'
+          ? { ...box, maxZ: Math.max(box.minZ + MIN_BOX_SIZE, box.maxZ + dz) }
+          : { ...box, minZ: Math.min(box.maxZ - MIN_BOX_SIZE, box.minZ + dz) };
+      }
+    }
+  }
+
+  /**
+   * Gets the ground resolution of the map at a latitude.
+   *
+   * @param lat - Latitude
+   * @returns Meters per pixel
+   */
+  private _getMetersPerPixel(lat: number): number {
+    return (40075016.686 * Math.cos((lat * Math.PI) / 180)) / (512 * Math.pow(2, this._map.getZoom()));
+  }
+
+  /**
+   * Gets the handles of the box.
+   *
+   * @param box - Clip box
+   * @returns Handles at their positions
+   */
+  private _getHandles(box: ClipBox): HandleDatum[] {
+    const minZ = box.minZ + this._zOffset;
+    const maxZ = box.maxZ + this._zOffset;
+    const halfWidth = box.width / 2;
+    const halfLength = box.length / 2;
+    const handles: [ClipBoxHandle, number, number, number][] = [
+      ['move', 0, 0, minZ],
+      ['rotate', 0, halfLength + box.length * ROTATE_HANDLE_OFFSET, minZ],
+      ['resize', halfWidth, halfLength, minZ],
+      // Top and bottom are on opposite sides so they can be told apart from above
+      ['top', -halfWidth, 0, maxZ],
+      ['bottom', halfWidth, 0, minZ],
+    ];
+    return handles.map(([handle, u, v, z]) => ({
+      handle,
+      position: [...clipBoxLocalToLngLat(box, u, v), z],
+      color: HANDLE_COLORS[handle],
+    }));
+  }
+
+  /**
+   * Updates the visualization on the map using deck.gl.
+   */
+  private _updateVisualization(): void {
+    const box = this._box;
+    if (!box) {
+      this._removeDeckLayers();
+      return;
+    }
+
+    const minZ = box.minZ + this._zOffset;
+    const footprint = getClipBoxFootprint(box).map(([lng, lat]) => [lng, lat, minZ]);
+    const color: [number, number, number] = box.mode === 'inside' ? [51, 136, 255] : [255, 51, 51];
+    const alpha = box.enabled ? 1 : 0.35;
+
+    const boxLayer = new PolygonLayer({
+      id: this.BOX_LAYER_ID,
+      data: [{ polygon: footprint }],
+      pickable: false,
+      extruded: true,
+      wireframe: true,
+      getPolygon: (d: { polygon: number[][] }) => d.polygon,
+      getElevation: box.maxZ - box.minZ,
+      getFillColor: [...color, Math.round(30 * alpha)],
+      getLineColor: [...color, Math.round(255 * alpha)],
+      material: false,
+      // Translucent faces should not hide the points behind them
+      parameters: {
+        depthWriteEnabled: false,
+      },
+      updateTriggers: {
+        getFillColor: [box.mode, box.enabled],
+        getLineColor: [box.mode, box.enabled],
+      },
+    });
+
+    if (this._deckOverlay.hasLayer(this.BOX_LAYER_ID)) {
+      this._deckOverlay.updateLayer(this.BOX_LAYER_ID, boxLayer);
+    } else {
+      this._deckOverlay.addLayer(this.BOX_LAYER_ID, boxLayer);
+    }
+
+    if (!this._enabled) {
+      if (this._deckOverlay.hasLayer(this.HANDLES_LAYER_ID)) {
+        this._deckOverlay.removeLayer(this.HANDLES_LAYER_ID);
+      }
+      return;
+    }
+
+    // Always pass the depth test so handles render on top of point clouds
+    const handlesLayer = new ScatterplotLayer<HandleDatum>({
+      id: this.HANDLES_LAYER_ID,
+      data: this._getHandles(box),
+      pickable: true,
+      stroked: true,
+      filled: true,
+      parameters: {
+        depthCompare: 'always',
+        depthWriteEnabled: false,
+      },
+      getPosition: (d) => d.position,
+      getFillColor: (d) => d.color,
+      getLineColor: [0, 0, 0, 255],
+      getRadius: 6,
+      radiusUnits: 'pixels',
+      getLineWidth: 1,
+      lineWidthUnits: 'pixels',
+    });
+
+    if (this._deckOverlay.hasLayer(this.HANDLES_LAYER_ID)) {
+      this._deckOverlay.updateLayer(this.HANDLES_LAYER_ID, handlesLayer);
+    } else {
+      this._deckOverlay.addLayer(this.HANDLES_LAYER_ID, handlesLayer);
+    }
+  }
+}
@@ -0,0 +1,357 @@
+import type { Map as MapLibreMap, MapMouseEvent } from 'maplibre-gl';
+import type { ClipRegion, ClipShape } from '../core/types';
+import type { DeckOverlay } from '../core/DeckOverlay';
+import { GeoJsonLayer } from '@deck.gl/layers';
+
+// Distance in pixels within which a click closes a polygon on its first vertex
+const CLOSE_DISTANCE_PX = 10;
+
+/**
+ * Clip region drawing tool for MapLibre.
+ * Allows users to draw polygons or rectangles on the map and displays the clip regions.
+ */
+export class ClipTool {
+  private _map: MapLibreMap;
+  private _deckOverlay: DeckOverlay;
+  private _shape: ClipShape | null = null;
+  private _vertices: [number, number][] = [];
+  private _cursor: [number, number] | null = null;
+  private _regions: ClipRegion[] = [];
+  private _doubleClickZoom: boolean = false;
+
+  // deck.gl layer ID
+  private readonly LAYER_ID = 'lidar-clip-layer';
+
+  // Event callbacks
+  private _onDraw?: (geometry: GeoJSON.Polygon) => void;
+
+  // Bound event handlers
+  private _handleClickBound: (e: MapMouseEvent) => void;
+  private _handleDoubleClickBound: (e: MapMouseEvent) => void;
+  private _handleMouseMoveBound: (e: MapMouseEvent) => void;
+  private _handleKeyDownBound: (e: KeyboardEvent) => void;
+
+  /**
+   * Creates a new ClipTool instance.
+   *
+   * @param map - MapLibre map instance
+   * @param deckOverlay - DeckOverlay instance for rendering
+   */
+  constructor(map: MapLibreMap, deckOverlay: DeckOverlay) {
+    this._map = map;
+    this._deckOverlay = deckOverlay;
+    this._handleClickBound = this._handleClick.bind(this);
+    this._handleDoubleClickBound = this._handleDoubleClick.bind(this);
+    this._handleMouseMoveBound = this._handleMouseMove.bind(this);
+    this._handleKeyDownBound = this._handleKeyDown.bind(this);
+  }
+
+  /**
+   * Enables drawing mode. Polygons are drawn by clicking their vertices and closed by
+   * double-clicking or clicking the first vertex; rectangles by clicking two opposite corners.
+   * Escape cancels the drawing.
+   *
+   * @param shape - Shape to draw
+   */
+  enable(shape: ClipShape): void {
+    if (this._shape) this.disable();
+
+    this._shape = shape;
+    this._vertices = [];
+    this._cursor = null;
+    this._addEventListeners();
+    // Double-clicks close polygons instead of zooming
+    this._doubleClickZoom = this._map.doubleClickZoom.isEnabled();
+    this._map.doubleClickZoom.disable();
+    this._map.getCanvas().style.cursor = 'crosshair';
+  }
+
+  /**
+   * Disables drawing mode and discards the shape being drawn.
+   */
+  disable(): void {
+    if (!this._shape) return;
+
+    this._shape = null;
+    this._vertices = [];
+    this._cursor = null;
+    this._removeEventListeners();
+    if (this._doubleClickZoom) {
+      this._map.doubleClickZoom.enable();
+    }
+    this._map.getCanvas().style.cursor = '';
+    this._updateVisualization();
+  }
+
+  /**
+   * Checks if the tool is enabled.
+   *
+   * @returns True if enabled
+   */
+  isEnabled(): boolean {
+    return this._shape !== null;
+  }
+
+  /**
+   * Gets the shape being drawn.
+   *
+   * @returns Shape, or null if the tool is disabled
+   */
+  getShape(): ClipShape | null {
+    return this._shape;
+  }
+
+  /**
+   * Sets the clip regions to display.
+   *
+   * @param regions - Clip regions
+   */
+  setRegions(regions: ClipRegion[]): void {
+    this._regions = regions;
+    this._updateVisualization();
+  }
+
+  /**
+   * Sets the callback for drawn shapes.
+   *
+   * @param callback - Callback function receiving the drawn polygon
+   */
+  setOnDraw(callback: (geometry: GeoJSON.Polygon) => void): void {
+    this._onDraw = callback;
+  }
+
+  /**
+   * Destroys the tool and cleans up resources.
+   */
+  destroy(): void {
+    this.disable();
+    this._regions = [];
+    this._removeDeckLayers();
+  }
+
+  /**
+   * Removes deck.gl layers.
+   */
+  private _removeDeckLayers(): void {
+    if (this._deckOverlay.hasLayer(this.LAYER_ID)) {
+      this._deckOverlay.removeLayer(this.LAYER_ID);
+    }
+  }
+
+  /**
+   * Adds event listeners for drawing.
+   */
+  private _addEventListeners(): void {
+    this._map.on('click', this._handleClickBound);
+    this._map.on('dblclick', this._handleDoubleClickBound);
+    this._map.on('mousemove', this._handleMouseMoveBound);
+    document.addEventListener('keydown', this._handleKeyDownBound);
+  }
+
+  /**
+   * Removes event listeners.
+   */
+  private _removeEventListeners(): void {
+    this._map.off('click', this._handleClickBound);
+    this._map.off('dblclick', this._handleDoubleClickBound);
+    this._map.off('mousemove', this._handleMouseMoveBound);
+    document.removeEventListener('keydown', this._handleKeyDownBound);
+  }
+
+  /**
+   * Handles map click events.
+   *
+   * @param e - Map mouse event
+   */
+  private _handleClick(e: MapMouseEvent): void {
+    const vertex: [number, number] = [e.lngLat.lng, e.lngLat.lat];
+
+    if (this._shape === 'rectangle') {
+      if (this._vertices.length === 0) {
+        this._vertices = [vertex];
+      } else {
+        const [[lng1, lat1]] = this._vertices;
+        const [lng2, lat2] = vertex;
+        this._finish([[lng1, lat1], [lng2, lat1], [lng2, lat2], [lng1, lat2]]);
+        return;
+      }
+    } else if (this._vertices.length > 0) {
+      // Clicking the first vertex (or the last one again, as in a double-click) closes the polygon
+      if (this._vertices.length >= 3 && this._isNear(this._vertices[0], e)) {
+        this._finish(this._vertices);
+        return;
+      }
+      if (!this._isNear(this._vertices[this._vertices.length - 1], e)) {
+        this._vertices.push(vertex);
+      }
+    } else {
+      this._vertices = [vertex];
+    }
+
+    this._updateVisualization();
+  }
+
+  /**
+   * Handles map double-click events, which close polygons.
+   *
+   * @param e - Map mouse event
+   */
+  private _handleDoubleClick(e: MapMouseEvent): void {
+    e.preventDefault();
+    if (this._shape === 'polygon' && this._vertices.length >= 3) {
+      this._finish(this._vertices);
+    }
+  }
+
+  /**
+   * Handles mouse move events for preview.
+   *
+   * @param e - Map mouse event
+   */
+  private _handleMouseMove(e: MapMouseEvent): void {
+    if (this._vertices.length === 0) return;
+
+    this._cursor = [e.lngLat.lng, e.lngLat.lat];
+    this._updateVisualization();
+  }
+
+  /**
+   * Handles key events: Escape cancels the shape being drawn.
+   *
+   * @param e - Keyboard event
+   */
+  private _handleKeyDown(e: KeyboardEvent): void {
+    if (e.key === 'Escape' && this._vertices.length > 0) {
+      this._vertices = [];
+      this._cursor = null;
+      this._updateVisualization();
+    }
+  }
+
+  /**
+   * Checks whether a mouse event is within the closing distance of a vertex on screen.
+   *
+   * @param vertex - Vertex [lng, lat]
+   * @param e - Map mouse event
+   * @returns True if the event is near the vertex
+   */
+  private _isNear(vertex: [number, number], e: MapMouseEvent): boolean {
+    const point = this._map.project(vertex);
+    return Math.hypot(point.x - e.point.x, point.y - e.point.y) <= CLOSE_DISTANCE_PX;
+  }
+
+  /**
+   * Completes the shape being drawn and notifies listeners.
+   *
+   * @param vertices - Vertices of the shape
+   */
+  private _finish(vertices: [number, number][]): void {
+    const geometry: GeoJSON.Polygon = {
+      type: 'Polygon',
+      coordinates: [[...vertices, vertices[0]]],
+    };
+    this._vertices = [];
+    this._cursor = null;
+    this._updateVisualization();
+    this._onDraw?.(geometry);
+  }
+
+  /**
+   * Gets the outline of the shape being drawn, up to the cursor.
+   *
+   * @returns Outline positions
+   */
+  private _getDrawingOutline(): [number, number][] {
+    if (this._vertices.length === 0) return [];
+    if (this._shape === 'rectangle') {
+      if (!this._cursor) return this._vertices;
+      const [[lng1, lat1]] = this._vertices;
+      const [lng2, lat2] = this._cursor;
+      return [[lng1, lat1], [lng2, lat1], [lng2, lat2], [lng1, lat2], [lng1, lat1]];
+    }
+    return this._cursor ? [...this._vertices, this._cursor] : this._vertices;
+  }
+
+  /**
+   * Updates the visualization on the map using deck.gl.
+   */
+  private _updateVisualization(): void {
+    const features: GeoJSON.Feature[] = this._regions.map((region) => ({
+      type: 'Feature',
+      properties: { type: 'region', mode: region.mode, enabled: region.enabled },
+      geometry: region.geometry,
+    }));
+
+    // Shape being drawn
+    const outline = this._getDrawingOutline();
+    for (const vertex of this._vertices) {
+      features.push({
+        type: 'Feature',
+        properties: { type: 'vertex' },
+        geometry: { type: 'Point', coordinates: vertex },
+      });
+    }
+    if (outline.length >= 2) {
+      features.push({
+        type: 'Feature',
+        properties: { type: 'outline' },
+        geometry: { type: 'LineString', coordinates: outline },
+      });
+    }
+
+    if (features.length === 0) {
+      this._removeDeckLayers();
+      return;
+    }
+
+    // Use parameters.depthTest: false to ensure it renders on top of point clouds
+    const layer = new GeoJsonLayer({
+      id: this.LAYER_ID,
+      data: { type: 'FeatureCollection', features } as GeoJSON.FeatureCollection,
+      pickable: false,
+      stroked: true,
+      filled: true,
+      parameters: {
+        depthTest: false,
+        depthMask: false,
+      },
+      // Regions that keep their points are blue, regions that remove them are red
+      getFillColor: (f: GeoJSON.Feature) => {
+        if (f.properties?.type === 'vertex') {
+          return [255, 51, 51, 255]; // #ff3333
+        }
+        if (f.properties?.type === 'region' && f.properties.enabled) {
+          return f.properties.mode === 'inside' ? [51, 136, 255, 25] : [255, 51, 51, 25];
+        }
+        return [0, 0, 0, 0];
+      },
+      getLineColor: (f: GeoJSON.Feature) => {
+        if (f.properties?.type === 'region') {
+          const alpha = f.properties.enabled ? 255 : 90;
+          return f.properties.mode === 'inside' ? [51, 136, 255, alpha] : [255, 51, 51, alpha];
+        }
+        if (f.properties?.type === 'vertex') {
+          return [255, 255, 255, 255]; // White stroke for vertices
+        }
+        return [51, 136, 255, 255]; // #3388ff
+      },
+      getLineWidth: (f: GeoJSON.Feature) => (f.properties?.type === 'vertex' ? 1 : 2),
+      lineWidthUnits: 'pixels',
+      // Vertex styling
+      pointType: 'circle',
+      getPointRadius: 5,
+      pointRadiusUnits: 'pixels',
+      updateTriggers: {
+        getFillColor: this._regions,
+        getLineColor: this._regions,
+      },
+    });
+
+    // Add or update the layer
+    if (this._deckOverlay.hasLayer(this.LAYER_ID)) {
+      this._deckOverlay.updateLayer(this.LAYER_ID, layer);
+    } else {
+      this._deckOverlay.addLayer(this.LAYER_ID, layer);
+    }
+  }
+}
@@ -78,6 +78,29 @@ export class ElevationProfileExtractor {
     };
   }
 
+  /**
+   * Creates a test function that checks whether a point lies within the
+   * buffer distance of a cross-section line.
+   *
+   * @param line - The cross-section line definition
+   * @returns Function returning true if a [lng, lat] point is inside the buffer
+   */
+  static createBufferTest(line: CrossSectionLine): (point: [number, number]) => boolean {
+    const totalDistance = this.haversineDistance(line.start, line.end);
+    const dx = line.end[0] - line.start[0];
+    const dy = line.end[1] - line.start[1];
+    const lineLengthSq = dx * dx + dy * dy;
+
+    if (lineLengthSq === 0) {
+      return (point) => this.haversineDistance(point, line.start) <= line.bufferDistance;
+    }
+
+    return (point) => {
+      const { offset } = this.pointToLineDistance(point, line.start, line.end, lineLengthSq, totalDistance);
+      return offset <= line.bufferDistance;
+    };
+  }
+
   /**
    * Calculates the Haversine distance between two WGS84 points.
    *
@@ -1,2 +1,4 @@
 export { CrossSectionTool } from './CrossSectionTool';
 export { ElevationProfileExtractor } from './ElevationProfileExtractor';
+export { ClipTool } from './ClipTool';
+export { ClipBoxTool } from './ClipBoxTool';
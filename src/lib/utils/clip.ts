@@ -0,0 +1,176 @@
+import type { ClipBox, ClipRegion } from '../core/types';
+
+// Meters per degree of latitude (and of longitude at the equator)
+const METERS_PER_DEGREE = 111319.49;
+
+/**
+ * Checks whether a point is inside a polygon, using the even-odd rule so holes are excluded.
+ *
+ * @param rings - Polygon rings of [lng, lat] positions (outer ring then holes)
+ * @param lng - Point longitude
+ * @param lat - Point latitude
+ * @returns True if the point is inside the polygon
+ */
+export function polygonContains(rings: GeoJSON.Position[][], lng: number, lat: number): boolean {
+  let inside = false;
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+        inside = !inside;
+      }
+    }
+  }
+  return inside;
+}
+
+/**
+ * Creates a test of whether a position is inside a Polygon or MultiPolygon.
+ * Positions outside the geometry's bounding box are rejected without testing the rings.
+ *
+ * @param geometry - Polygon or MultiPolygon in [lng, lat] coordinates
+ * @returns Test of a position
+ */
+export function createGeometryTest(
+  geometry: GeoJSON.Polygon | GeoJSON.MultiPolygon
+): (lng: number, lat: number) => boolean {
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  const boxes = polygons.map((rings) => {
+    const lngs = rings[0]?.map(([lng]) => lng) ?? [];
+    const lats = rings[0]?.map(([, lat]) => lat) ?? [];
+    return [Math.min(...lngs), Math.min(...lats), Math.max(...lngs), Math.max(...lats)];
+  });
+
+  return (lng, lat) => polygons.some((rings, p) => {
+    const [minLng, minLat, maxLng, maxLat] = boxes[p];
+    return lng >= minLng && lng <= maxLng && lat >= minLat && lat <= maxLat && polygonContains(rings, lng, lat);
+  });
+}
+
+/**
+ * Creates a test of whether a position passes clip regions: inside one of the enabled
+ * 'inside' regions (when there are any) and outside all the enabled 'outside' regions.
+ *
+ * @param regions - Clip regions
+ * @returns Test of a position, or null if no region is enabled
+ */
+export function createClipTest(regions: ClipRegion[]): ((lng: number, lat: number) => boolean) | null {
+  const enabled = regions.filter((region) => region.enabled);
+  if (enabled.length === 0) return null;
+
+  const inside = enabled.filter((region) => region.mode === 'inside').map((region) => createGeometryTest(region.geometry));
+  const outside = enabled.filter((region) => region.mode === 'outside').map((region) => createGeometryTest(region.geometry));
+
+  return (lng, lat) =>
+    (inside.length === 0 || inside.some((test) => test(lng, lat))) &&
+    !outside.some((test) => test(lng, lat));
+}
+
+/**
+ * Gets clip regions as a GeoJSON FeatureCollection, with their id, name, mode and
+ * enabled state as feature properties.
+ *
+ * @param regions - Clip regions
+ * @returns Feature collection of the regions
+ */
+export function clipRegionsToGeoJSON(regions: ClipRegion[]): GeoJSON.FeatureCollection<GeoJSON.Polygon | GeoJSON.MultiPolygon> {
+  return {
+    type: 'FeatureCollection',
+    features: regions.map(({ id, name, mode, enabled, geometry }) => ({
+      type: 'Feature',
+      id,
+      properties: { name, mode, enabled },
+      geometry,
+    })),
+  };
+}
+
+/**
+ * Creates a conversion of positions to the local frame of a clip box: meters across (u) and
+ * along (v) the box from its center. The frame is an equirectangular approximation around the
+ * center, which is accurate for boxes up to a few kilometers.
+ *
+ * @param box - Clip box
+ * @returns Conversion of a position to [u, v] in meters
+ */
+function createClipBoxProjection(box: ClipBox): (lng: number, lat: number) => [number, number] {
+  const [centerLng, centerLat] = box.center;
+  const metersPerLng = METERS_PER_DEGREE * Math.cos((centerLat * Math.PI) / 180);
+  const rotation = (box.rotation * Math.PI) / 180;
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+
+  return (lng, lat) => {
+    const east = (lng - centerLng) * metersPerLng;
+    const north = (lat - centerLat) * METERS_PER_DEGREE;
+    return [east * cos - north * sin, east * sin + north * cos];
+  };
+}
+
+/**
+ * Converts a position to the local frame of a clip box.
+ *
+ * @param box - Clip box
+ * @param lng - Longitude
+ * @param lat - Latitude
+ * @returns [u, v] in meters across and along the box from its center
+ */
+export function lngLatToClipBoxLocal(box: ClipBox, lng: number, lat: number): [number, number] {
+  return createClipBoxProjection(box)(lng, lat);
+}
+
+/**
+ * Converts a position in the local frame of a clip box to longitude and latitude.
+ *
+ * @param box - Clip box
+ * @param u - Meters across the box from its center
+ * @param v - Meters along the box from its center
+ * @returns [lng, lat]
+ */
+export function clipBoxLocalToLngLat(box: ClipBox, u: number, v: number): [number, number] {
+  const [centerLng, centerLat] = box.center;
+  const rotation = (box.rotation * Math.PI) / 180;
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  const east = u * cos + v * sin;
+  const north = -u * sin + v * cos;
+  return [
+    centerLng + east / (METERS_PER_DEGREE * Math.cos((centerLat * Math.PI) / 180)),
+    centerLat + north / METERS_PER_DEGREE,
+  ];
+}
+
+/**
+ * Gets the footprint of a clip box on the map.
+ *
+ * @param box - Clip box
+ * @returns Closed ring of the box corners in [lng, lat]
+ */
+export function getClipBoxFootprint(box: ClipBox): [number, number][] {
+  const u = box.width / 2;
+  const v = box.length / 2;
+  return [[-u, -v], [u, -v], [u, v], [-u, v], [-u, -v]].map(([cu, cv]) => clipBoxLocalToLngLat(box, cu, cv));
+}
+
+/**
+ * Creates a test of whether a position passes a clip box: inside it in 'inside' mode,
+ * or outside it in 'outside' mode.
+ *
+ * @param box - Clip box
+ * @returns Test of a position, or null if the box is disabled
+ */
+export function createClipBoxTest(box: ClipBox | null): ((lng: number, lat: number, z: number) => boolean) | null {
+  if (!box?.enabled) return null;
+
+  const halfWidth = box.width / 2;
+  const halfLength = box.length / 2;
+  const inside = box.mode === 'inside';
+  const toLocal = createClipBoxProjection(box);
+
+  return (lng, lat, z) => {
+    if (z < box.minZ || z > box.maxZ) return !inside;
+    const [u, v] = toLocal(lng, lat);
+    return (Math.abs(u) <= halfWidth && Math.abs(v) <= halfLength) === inside;
+  };
+}
@@ -0,0 +1,262 @@
+import type { PointCloudData } from '../loaders/types';
+import { getAttributeValues } from './pointcloud';
+
+/**
+ * Node of a parsed filter expression
+ */
+export type FilterExpressionNode =
+  | { type: 'number'; value: number }
+  | { type: 'attribute'; name: string }
+  | { type: 'unary'; operator: '!' | '-'; operand: FilterExpressionNode }
+  | { type: 'binary'; operator: BinaryOperator; left: FilterExpressionNode; right: FilterExpressionNode };
+
+type BinaryOperator = '||' | '&&' | '==' | '!=' | '<' | '<=' | '>' | '>=' | '+' | '-' | '*' | '/' | '%';
+
+interface Token {
+  type: 'number' | 'identifier' | 'operator' | 'end';
+  text: string;
+  position: number;
+}
+
+/**
+ * Attributes of filter expressions in addition to those of getAttributeNames():
+ * the coordinates (longitude, latitude, elevation) and RGB channels of the points
+ */
+export const EXPRESSION_POINT_ATTRIBUTES = ['X', 'Y', 'Z', 'Red', 'Green', 'Blue'];
+
+// Binary operators by precedence, from lowest to highest
+const PRECEDENCE: BinaryOperator[][] = [
+  ['||'],
+  ['&&'],
+  ['==', '!='],
+  ['<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+const OPERATORS = ['||', '&&', '==', '!=', '<=', '>=', '<', '>', '+', '-', '*', '/', '%', '!', '(', ')'];
+
+/**
+ * Splits a filter expression into tokens.
+ *
+ * @param expression - Filter expression
+ * @returns Tokens, ending with an end token
+ */
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(expression.slice(i));
+    if (number) {
+      tokens.push({ type: 'number', text: number[0], position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_][A-Za-z0-9_]*/.exec(expression.slice(i));
+    if (identifier) {
+      tokens.push({ type: 'identifier', text: identifier[0], position: i });
+      i += identifier[0].length;
+      continue;
+    }
+
+    // Backtick-quoted attribute names, for names that are not identifiers (e.g. LAS extra bytes)
+    if (char === '`') {
+      const end = expression.indexOf('`', i + 1);
+      if (end < 0) {
+        throw new Error(`Unterminated attribute name at position ${i + 1}`);
+      }
+      tokens.push({ type: 'identifier', text: expression.slice(i + 1, end), position: i });
+      i = end + 1;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => expression.startsWith(op, i));
+    if (!operator) {
+      throw new Error(`Unexpected character "${char}" at position ${i + 1}`);
+    }
+    tokens.push({ type: 'operator', text: operator, position: i });
+    i += operator.length;
+  }
+
+  tokens.push({ type: 'end', text: '', position: expression.length });
+  return tokens;
+}
+
+/**
+ * Parses a filter expression, e.g. `Classification == 2 && Intensity > 0.3`.
+ * Expressions combine point attributes and numbers with arithmetic (`+ - * / %`),
+ * comparison (`== != < <= > >=`) and logical (`&& || !`) operators and parentheses.
+ * Attribute names are the names of getAttributeNames() and EXPRESSION_POINT_ATTRIBUTES;
+ * names that are not identifiers are quoted with backticks.
+ *
+ * @param expression - Filter expression
+ * @returns Expression tree
+ * @throws Error with the position of the syntax error
+ */
+export function parseFilterExpression(expression: string): FilterExpressionNode {
+  const tokens = tokenize(expression);
+  let current = 0;
+
+  const peek = () => tokens[current];
+  const describe = (token: Token) => (token.type === 'end' ? 'end of expression' : `"${token.text}"`);
+  const fail = (token: Token): never => {
+    throw new Error(`Unexpected ${describe(token)} at position ${token.position + 1}`);
+  };
+
+  const parseBinary = (level: number): FilterExpressionNode => {
+    if (level === PRECEDENCE.length) return parseUnary();
+
+    let left = parseBinary(level + 1);
+    while (peek().type === 'operator' && (PRECEDENCE[level] as string[]).includes(peek().text)) {
+      const operator = tokens[current++].text as BinaryOperator;
+      left = { type: 'binary', operator, left, right: parseBinary(level + 1) };
+    }
+    return left;
+  };
+
+  const parseUnary = (): FilterExpressionNode => {
+    const token = peek();
+    if (token.type === 'operator' && (token.text === '!' || token.text === '-')) {
+      current++;
+      return { type: 'unary', operator: token.text, operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): FilterExpressionNode => {
+    const token = tokens[current++];
+    if (token.type === 'number') {
+      return { type: 'number', value: parseFloat(token.text) };
+    }
+    if (token.type === 'identifier') {
+      return { type: 'attribute', name: token.text };
+    }
+    if (token.type === 'operator' && token.text === '(') {
+      const node = parseBinary(0);
+      if (peek().text !== ')' || peek().type !== 'operator') fail(peek());
+      current++;
+      return node;
+    }
+    return fail(token);
+  };
+
+  if (peek().type === 'end') {
+    throw new Error('Empty expression');
+  }
+  const node = parseBinary(0);
+  if (peek().type !== 'end') fail(peek());
+  return node;
+}
+
+/**
+ * Gets the names of the attributes a filter expression uses.
+ *
+ * @param node - Parsed filter expression
+ * @returns Attribute names, without duplicates
+ */
+export function getExpressionAttributes(node: FilterExpressionNode): string[] {
+  const names = new Set<string>();
+  const visit = (n: FilterExpressionNode): void => {
+    if (n.type === 'attribute') {
+      names.add(n.name);
+    } else if (n.type === 'unary') {
+      visit(n.operand);
+    } else if (n.type === 'binary') {
+      visit(n.left);
+      visit(n.right);
+    }
+  };
+  visit(node);
+  return Array.from(names);
+}
+
+/**
+ * Gets the value of a named attribute of the points, including the coordinates
+ * and RGB channels that are not in getAttributeNames().
+ *
+ * @param data - Point cloud data
+ * @param name - Attribute name
+ * @returns Value of a point index, or undefined if the point cloud does not have the attribute
+ */
+function getAttributeAccessor(data: PointCloudData, name: string): ((index: number) => number) | undefined {
+  const { positions, coordinateOrigin, colors } = data;
+  switch (name) {
+    case 'X':
+      return (i) => positions[i * 3] + coordinateOrigin[0];
+    case 'Y':
+      return (i) => positions[i * 3 + 1] + coordinateOrigin[1];
+    case 'Z':
+      return (i) => positions[i * 3 + 2];
+  }
+
+  const channel = ['Red', 'Green', 'Blue'].indexOf(name);
+  if (channel >= 0) {
+    return colors && data.hasRGB ? (i) => colors[i * 4 + channel] : undefined;
+  }
+
+  const values = getAttributeValues(data, name);
+  return values ? (i) => values[i] : undefined;
+}
+
+/**
+ * Compiles a filter expression against the attributes of a point cloud (see parseFilterExpression()).
+ * Attributes the point cloud does not have evaluate to NaN, so comparisons with them are false.
+ *
+ * @param expression - Filter expression or parsed expression
+ * @param data - Point cloud data
+ * @returns Test of whether a point index passes the filter
+ * @throws Error if the expression is invalid
+ */
+export function compileFilterExpression(
+  expression: string | FilterExpressionNode,
+  data: PointCloudData
+): (index: number) => boolean {
+  const compile = (node: FilterExpressionNode): ((index: number) => number) => {
+    switch (node.type) {
+      case 'number': {
+        const { value } = node;
+        return () => value;
+      }
+      case 'attribute':
+        return getAttributeAccessor(data, node.name) ?? (() => NaN);
+      case 'unary': {
+        const operand = compile(node.operand);
+        return node.operator === '!' ? (i) => (operand(i) ? 0 : 1) : (i) => -operand(i);
+      }
+      case 'binary': {
+        const left = compile(node.left);
+        const right = compile(node.right);
+        switch (node.operator) {
+          case '||': return (i) => (left(i) || right(i) ? 1 : 0);
+          case '&&': return (i) => (left(i) && right(i) ? 1 : 0);
+          case '==': return (i) => (left(i) === right(i) ? 1 : 0);
+          case '!=': return (i) => (left(i) !== right(i) ? 1 : 0);
+          case '<': return (i) => (left(i) < right(i) ? 1 : 0);
+          case '<=': return (i) => (left(i) <= right(i) ? 1 : 0);
+          case '>': return (i) => (left(i) > right(i) ? 1 : 0);
+          case '>=': return (i) => (left(i) >= right(i) ? 1 : 0);
+          case '+': return (i) => left(i) + right(i);
+          case '-': return (i) => left(i) - right(i);
+          case '*': return (i) => left(i) * right(i);
+          case '/': return (i) => left(i) / right(i);
+          case '%': return (i) => left(i) % right(i);
+        }
+      }
+    }
+  };
+
+  const evaluate = compile(typeof expression === 'string' ? parseFilterExpression(expression) : expression);
+  // NaN (e.g. a missing attribute) does not pass
+  return (index) => {
+    const value = evaluate(index);
+    return value !== 0 && !Number.isNaN(value);
+  };
+}
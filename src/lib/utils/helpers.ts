@@ -119,6 +119,28 @@ export function formatBytes(bytes: number): string {
   return `${parseFloat((bytes / Math.pow(k, i)).toFixed(1))} ${sizes[i]}`;
 }
 
+/**
+ * Formats a GPS time value (GPS Week Seconds) to a readable string.
+ *
+ * @param gpsTime - GPS time in seconds
+ * @returns UTC date and time for adjusted standard GPS times, or the seconds otherwise
+ */
+export function formatGpsTime(gpsTime: number): string {
+  // GPS epoch is January 6, 1980
+  // GPS time is typically in seconds since GPS epoch or week seconds
+  // We'll detect based on magnitude
+  if (gpsTime > 1e9) {
+    // Likely GPS seconds since epoch - convert to date
+    const gpsEpoch = Date.UTC(1980, 0, 6, 0, 0, 0);
+    const leapSeconds = 18; // Current leap seconds offset (as of 2024)
+    const utcTime = gpsEpoch + (gpsTime - leapSeconds) * 1000;
+    const date = new Date(utcTime);
+    return date.toISOString().replace('T', ' ').slice(0, 19);
+  }
+  // Otherwise return as raw seconds (week seconds format)
+  return gpsTime.toFixed(6);
+}
+
 /**
  * Extracts filename from a path or URL.
  *
@@ -131,6 +153,61 @@ export function getFilename(path: string): string {
   return normalized.split('/').pop()?.split('?')[0] || 'unknown';
 }
 
+/**
+ * Throws an AbortError if the signal has been aborted.
+ *
+ * @param signal - Optional abort signal to check
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new DOMException('The operation was aborted.', 'AbortError');
+  }
+}
+
+/**
+ * Checks whether an error was caused by an aborted operation.
+ *
+ * @param error - The error to check
+ * @returns True if the error is an AbortError
+ */
+export function isAbortError(error: unknown): boolean {
+  return (error as { name?: string } | null)?.name === 'AbortError';
+}
+
+/**
+ * Gets the delay before retrying a failed request, doubling after each failed attempt.
+ *
+ * @param attempt - Number of failed attempts so far (1 after the first failure)
+ * @param baseDelayMs - Delay after the first failure
+ * @param maxDelayMs - Maximum delay (default: 60000)
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(attempt: number, baseDelayMs: number, maxDelayMs: number = 60_000): number {
+  return Math.min(maxDelayMs, baseDelayMs * 2 ** Math.max(0, attempt - 1));
+}
+
+/**
+ * Waits for a delay, rejecting with an AbortError as soon as the signal is aborted.
+ *
+ * @param delayMs - Delay in milliseconds
+ * @param signal - Optional abort signal that cancels the wait
+ * @returns Promise that resolves after the delay
+ */
+export function wait(delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    throwIfAborted(signal);
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
 /**
  * Computes the percentile value of a Float32Array using the linear interpolation method.
  * Uses sampling for large arrays to improve performance.
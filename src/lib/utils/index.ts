@@ -7,5 +7,37 @@ export {
   classNames,
   formatNumber,
   formatBytes,
+  formatGpsTime,
   getFilename,
+  throwIfAborted,
+  isAbortError,
+  getRetryDelay,
+  wait,
 } from './helpers';
+export {
+  subsetPointCloudData,
+  getPointSpacing,
+  getAttributeNames,
+  getAttributeValues,
+  createAttributeFilterTest,
+  LAST_RETURN_ATTRIBUTE,
+} from './pointcloud';
+export {
+  parseFilterExpression,
+  getExpressionAttributes,
+  compileFilterExpression,
+  EXPRESSION_POINT_ATTRIBUTES,
+} from './expression';
+export type { FilterExpressionNode } from './expression';
+export {
+  polygonContains,
+  createGeometryTest,
+  createClipTest,
+  clipRegionsToGeoJSON,
+  lngLatToClipBoxLocal,
+  clipBoxLocalToLngLat,
+  getClipBoxFootprint,
+  createClipBoxTest,
+} from './clip';
+export { fetchWithTransform } from './request';
+export { computeScreenSpaceError, boundsIntersectsFootprint } from './lod';
@@ -0,0 +1,80 @@
+import type { PointCloudBounds } from '../core/types';
+import type { ViewportCamera } from '../loaders/streaming-types';
+
+// Meters per degree of latitude (and of longitude at the equator) on the web mercator sphere
+const METERS_PER_DEGREE = 40_075_016.686 / 360;
+
+/**
+ * Computes the screen-space error of an octree node: the distance in pixels between
+ * its points on screen, from its point spacing and its distance to the camera.
+ * The distance is measured to the node's footprint on the map plane.
+ *
+ * @param bounds - Node bounds in WGS84
+ * @param resolution - Number of point spacings across a node (octree cube size / root spacing)
+ * @param camera - Camera of the viewport
+ * @returns Screen-space error in pixels
+ */
+export function computeScreenSpaceError(
+  bounds: PointCloudBounds,
+  resolution: number,
+  camera: ViewportCamera
+): number {
+  const [cameraLng, cameraLat, altitude] = camera.position;
+  const metersPerDegreeLng = METERS_PER_DEGREE * Math.cos((cameraLat * Math.PI) / 180);
+
+  // Point spacing of the node from its size
+  const width = (bounds.maxX - bounds.minX) * metersPerDegreeLng;
+  const height = (bounds.maxY - bounds.minY) * METERS_PER_DEGREE;
+  const spacing = Math.max(width, height) / resolution;
+
+  // Distance from the camera to the closest point of the node footprint
+  const dx = (Math.min(Math.max(cameraLng, bounds.minX), bounds.maxX) - cameraLng) * metersPerDegreeLng;
+  const dy = (Math.min(Math.max(cameraLat, bounds.minY), bounds.maxY) - cameraLat) * METERS_PER_DEGREE;
+  const distance = Math.max(1, Math.sqrt(dx * dx + dy * dy + altitude * altitude));
+
+  return (spacing * camera.projectionFactor) / distance;
+}
+
+/**
+ * Checks whether bounds intersect the map area visible on screen (the camera frustum
+ * on the map plane), using the separating axis test between the bounds and the footprint polygon.
+ *
+ * @param bounds - Bounds in WGS84
+ * @param footprint - Convex polygon of [lng, lat] corners
+ * @returns True if the bounds intersect the footprint
+ */
+export function boundsIntersectsFootprint(
+  bounds: PointCloudBounds,
+  footprint: [number, number][]
+): boolean {
+  if (footprint.length < 3) return true;
+
+  // Bounds axes
+  const lngs = footprint.map(([lng]) => lng);
+  const lats = footprint.map(([, lat]) => lat);
+  if (Math.max(...lngs) < bounds.minX || Math.min(...lngs) > bounds.maxX) return false;
+  if (Math.max(...lats) < bounds.minY || Math.min(...lats) > bounds.maxY) return false;
+
+  // Footprint edge normals
+  const corners: [number, number][] = [
+    [bounds.minX, bounds.minY],
+    [bounds.maxX, bounds.minY],
+    [bounds.maxX, bounds.maxY],
+    [bounds.minX, bounds.maxY],
+  ];
+  for (let i = 0; i < footprint.length; i++) {
+    const [x1, y1] = footprint[i];
+    const [x2, y2] = footprint[(i + 1) % footprint.length];
+    const normal: [number, number] = [y2 - y1, x1 - x2];
+    if (normal[0] === 0 && normal[1] === 0) continue;
+
+    const project = ([x, y]: [number, number]) => x * normal[0] + y * normal[1];
+    const polygonProjections = footprint.map(project);
+    const boundsProjections = corners.map(project);
+    if (Math.max(...boundsProjections) < Math.min(...polygonProjections) ||
+        Math.min(...boundsProjections) > Math.max(...polygonProjections)) {
+      return false;
+    }
+  }
+  return true;
+}
@@ -0,0 +1,194 @@
+import type { PointCloudData, ExtraPointAttributes, AttributeArray } from '../loaders/types';
+
+// Meters per degree of latitude
+const METERS_PER_DEGREE = 111319.49;
+
+/**
+ * Creates a new PointCloudData containing only the points at the given indices.
+ * All per-point arrays (positions, colors, intensities, classifications, node depths
+ * and extra attributes) are copied; bounds are recomputed from the selected points.
+ *
+ * @param data - Source point cloud data
+ * @param indices - Indices of the points to keep
+ * @returns Point cloud data with the selected points
+ */
+export function subsetPointCloudData(data: PointCloudData, indices: ArrayLike<number>): PointCloudData {
+  const count = indices.length;
+  const positions = new Float32Array(count * 3);
+  const colors = data.colors ? new Uint8Array(count * 4) : undefined;
+  const intensities = data.intensities ? new Float32Array(count) : undefined;
+  const classifications = data.classifications ? new Uint8Array(count) : undefined;
+  const nodeDepths = data.nodeDepths ? new Uint8Array(count) : undefined;
+  const normals = data.normals ? new Float32Array(count * 3) : undefined;
+
+  let extraAttributes: ExtraPointAttributes | undefined;
+  if (data.extraAttributes) {
+    extraAttributes = {};
+    for (const [name, arr] of Object.entries(data.extraAttributes)) {
+      const ArrayType = arr.constructor as new (length: number) => AttributeArray;
+      extraAttributes[name] = new ArrayType(count);
+    }
+  }
+
+  let minX = Infinity, minY = Infinity, minZ = Infinity;
+  let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+
+  for (let j = 0; j < count; j++) {
+    const i = indices[j];
+    const x = data.positions[i * 3];
+    const y = data.positions[i * 3 + 1];
+    const z = data.positions[i * 3 + 2];
+    positions[j * 3] = x;
+    positions[j * 3 + 1] = y;
+    positions[j * 3 + 2] = z;
+
+    if (x < minX) minX = x;
+    if (x > maxX) maxX = x;
+    if (y < minY) minY = y;
+    if (y > maxY) maxY = y;
+    if (z < minZ) minZ = z;
+    if (z > maxZ) maxZ = z;
+
+    if (colors && data.colors) {
+      colors[j * 4] = data.colors[i * 4];
+      colors[j * 4 + 1] = data.colors[i * 4 + 1];
+      colors[j * 4 + 2] = data.colors[i * 4 + 2];
+      colors[j * 4 + 3] = data.colors[i * 4 + 3];
+    }
+    if (intensities && data.intensities) intensities[j] = data.intensities[i];
+    if (classifications && data.classifications) classifications[j] = data.classifications[i];
+    if (nodeDepths && data.nodeDepths) nodeDepths[j] = data.nodeDepths[i];
+    if (normals && data.normals) {
+      normals[j * 3] = data.normals[i * 3];
+      normals[j * 3 + 1] = data.normals[i * 3 + 1];
+      normals[j * 3 + 2] = data.normals[i * 3 + 2];
+    }
+    if (extraAttributes && data.extraAttributes) {
+      for (const name in extraAttributes) {
+        extraAttributes[name][j] = data.extraAttributes[name][i];
+      }
+    }
+  }
+
+  const [originX, originY, originZ] = data.coordinateOrigin;
+  return {
+    ...data,
+    positions,
+    colors,
+    intensities,
+    classifications,
+    nodeDepths,
+    normals,
+    extraAttributes,
+    pointCount: count,
+    bounds: count > 0
+      ? {
+          minX: minX + originX,
+          maxX: maxX + originX,
+          minY: minY + originY,
+          maxY: maxY + originY,
+          minZ: minZ + originZ,
+          maxZ: maxZ + originZ,
+        }
+      : data.bounds,
+  };
+}
+
+/**
+ * Gets the nominal distance in meters between neighboring points: the spacing reported by the
+ * loader, or an estimate from the area of the bounds and the point count.
+ *
+ * @param data - Point cloud data
+ * @returns Point spacing in meters
+ */
+export function getPointSpacing(data: PointCloudData): number {
+  if (data.spacing && data.spacing > 0) return data.spacing;
+
+  const { minX, maxX, minY, maxY } = data.bounds;
+  const centerLat = (minY + maxY) / 2;
+  const width = (maxX - minX) * METERS_PER_DEGREE * Math.cos((centerLat * Math.PI) / 180);
+  const height = (maxY - minY) * METERS_PER_DEGREE;
+  const area = width * height;
+  if (!(area > 0) || data.pointCount <= 0) return 1;
+  return Math.sqrt(area / data.pointCount);
+}
+
+/**
+ * Name of the derived attribute that is 1 for the last return of a pulse
+ * (ReturnNumber equals NumberOfReturns) and 0 for other returns
+ */
+export const LAST_RETURN_ATTRIBUTE = 'LastReturn';
+
+/**
+ * Gets the names of the point attributes of a point cloud: 'Intensity', 'Classification',
+ * its extra attributes and the derived LastReturn attribute if it has return numbers.
+ *
+ * @param data - Point cloud data
+ * @returns Attribute names
+ */
+export function getAttributeNames(data: PointCloudData): string[] {
+  const names: string[] = [];
+  if (data.hasIntensity && data.intensities) names.push('Intensity');
+  if (data.hasClassification && data.classifications) names.push('Classification');
+  names.push(...Object.keys(data.extraAttributes ?? {}));
+  if (data.extraAttributes?.ReturnNumber && data.extraAttributes?.NumberOfReturns) {
+    names.push(LAST_RETURN_ATTRIBUTE);
+  }
+  return names;
+}
+
+/**
+ * Gets the values of a point attribute by name (see getAttributeNames()).
+ *
+ * @param data - Point cloud data
+ * @param name - Attribute name
+ * @returns Values by point index, or undefined if the point cloud does not have the attribute
+ */
+export function getAttributeValues(data: PointCloudData, name: string): ArrayLike<number> | undefined {
+  const extra = data.extraAttributes?.[name];
+  if (extra) return extra;
+
+  switch (name) {
+    case 'Intensity':
+      return data.intensities;
+    case 'Classification':
+      return data.classifications;
+    case LAST_RETURN_ATTRIBUTE: {
+      const returnNumbers = data.extraAttributes?.ReturnNumber;
+      const numberOfReturns = data.extraAttributes?.NumberOfReturns;
+      if (!returnNumbers || !numberOfReturns) return undefined;
+
+      const values = new Uint8Array(data.pointCount);
+      for (let i = 0; i < data.pointCount; i++) {
+        values[i] = returnNumbers[i] === numberOfReturns[i] ? 1 : 0;
+      }
+      return values;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Checks whether points pass attribute range filters (all ranges inclusive, combined with AND).
+ * Filters on attributes the point cloud does not have are ignored.
+ *
+ * @param data - Point cloud data
+ * @param filters - [min, max] range by attribute name
+ * @returns Test of a point index, or null if no filter applies to the point cloud
+ */
+export function createAttributeFilterTest(
+  data: PointCloudData,
+  filters: Record<string, [number, number]>
+): ((index: number) => boolean) | null {
+  const tests: { values: ArrayLike<number>; min: number; max: number }[] = [];
+  for (const [name, [min, max]] of Object.entries(filters)) {
+    const values = getAttributeValues(data, name);
+    if (values) {
+      tests.push({ values, min, max });
+    }
+  }
+  if (tests.length === 0) return null;
+
+  return (index) => tests.every(({ values, min, max }) => values[index] >= min && values[index] <= max);
+}
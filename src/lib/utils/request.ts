@@ -0,0 +1,38 @@
+import type { RequestKind, RequestTransformFunction } from '../loaders/types';
+
+/**
+ * Fetches a resource for a loader, applying the request transform if given.
+ * Requests rejected with 401 or 403 are retried once after calling the transform
+ * again with the failed response (e.g., to refresh an expired token).
+ *
+ * @param url - URL of the resource
+ * @param kind - Kind of resource requested
+ * @param init - Fetch options (e.g., Range header and abort signal)
+ * @param transformRequest - Optional request transform
+ * @returns Fetch response
+ */
+export async function fetchWithTransform(
+  url: string,
+  kind: RequestKind,
+  init: RequestInit & { headers?: Record<string, string> } = {},
+  transformRequest?: RequestTransformFunction | null
+): Promise<Response> {
+  if (!transformRequest) {
+    return fetch(url, init);
+  }
+
+  const send = async (failedResponse?: Response): Promise<Response> => {
+    const params = await transformRequest(url, kind, failedResponse);
+    return fetch(params?.url ?? url, {
+      ...init,
+      headers: { ...init.headers, ...params?.headers },
+      credentials: params?.credentials ?? init.credentials,
+    });
+  };
+
+  const response = await send();
+  if (response.status === 401 || response.status === 403) {
+    return send(response);
+  }
+  return response;
+}
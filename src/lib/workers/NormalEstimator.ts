@@ -0,0 +1,285 @@
+import type { NormalEstimationTask } from './types';
+
+// Meters per degree of latitude
+const METERS_PER_DEGREE = 111319.49;
+
+// Shells of grid cells searched around a point's cell for its nearest neighbors
+const MAX_SEARCH_SHELLS = 2;
+
+/**
+ * Grid of the points of a cloud, in cells of equal size
+ */
+interface PointGrid {
+  /** Cell size in meters */
+  cellSize: number;
+  /** Number of cells along x and y */
+  size: [number, number];
+  /** Minimum corner of the grid */
+  min: [number, number, number];
+  /** Cell index by cell key */
+  cells: Map<number, number>;
+  /** Start of the points of each cell in `points` (one more entry than cells) */
+  starts: Uint32Array;
+  /** Point indices, grouped by cell */
+  points: Uint32Array;
+}
+
+/**
+ * Estimates the normal of each point by principal component analysis of its nearest
+ * neighbors: the normal is the direction in which the neighbors vary least. Normals are
+ * unit vectors in meters [east, north, up], oriented upwards; points with fewer than three
+ * neighbors or without a defined plane get an upward normal.
+ *
+ * @param task - Normal estimation task
+ * @returns Normals (length = positions.length)
+ */
+export function estimateNormals(task: NormalEstimationTask): Float32Array {
+  const pointCount = Math.floor(task.positions.length / 3);
+  const normals = new Float32Array(pointCount * 3);
+  if (pointCount === 0) return normals;
+
+  const xyz = toLocalMeters(task.positions, task.coordinateOrigin);
+  const neighborCount = Math.max(3, Math.min(Math.round(task.neighborCount), pointCount));
+  const grid = createPointGrid(xyz, neighborCount);
+
+  const neighbors = new Int32Array(neighborCount);
+  const distances = new Float64Array(neighborCount);
+  const normal: [number, number, number] = [0, 0, 1];
+  for (let i = 0; i < pointCount; i++) {
+    const found = findNearestNeighbors(xyz, grid, i, neighbors, distances);
+    if (found < 3 || !fitPlaneNormal(xyz, neighbors, found, normal)) {
+      normal[0] = 0;
+      normal[1] = 0;
+      normal[2] = 1;
+    }
+    normals[i * 3] = normal[0];
+    normals[i * 3 + 1] = normal[1];
+    normals[i * 3 + 2] = normal[2];
+  }
+
+  return normals;
+}
+
+/**
+ * Converts positions in degrees from an origin into meters [east, north, up].
+ */
+function toLocalMeters(positions: Float32Array, origin: [number, number, number]): Float32Array {
+  const metersPerLng = METERS_PER_DEGREE * Math.cos((origin[1] * Math.PI) / 180);
+  const xyz = new Float32Array(positions.length);
+  for (let i = 0; i < positions.length; i += 3) {
+    xyz[i] = positions[i] * metersPerLng;
+    xyz[i + 1] = positions[i + 1] * METERS_PER_DEGREE;
+    xyz[i + 2] = positions[i + 2];
+  }
+  return xyz;
+}
+
+/**
+ * Groups points into grid cells sized so that the cells around a point on a surface
+ * usually hold its nearest neighbors.
+ */
+function createPointGrid(xyz: Float32Array, neighborCount: number): PointGrid {
+  const pointCount = xyz.length / 3;
+  const min: [number, number, number] = [Infinity, Infinity, Infinity];
+  const max: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < xyz.length; i += 3) {
+    for (let axis = 0; axis < 3; axis++) {
+      const value = xyz[i + axis];
+      if (value < min[axis]) min[axis] = value;
+      if (value > max[axis]) max[axis] = value;
+    }
+  }
+
+  // Lidar points lie on surfaces, so the spacing is estimated from the horizontal area
+  const width = max[0] - min[0];
+  const height = max[1] - min[1];
+  const extent = Math.max(width * height, width * (max[2] - min[2]), height * (max[2] - min[2]));
+  const spacing = extent > 0 ? Math.sqrt(extent / pointCount) : 1;
+  const cellSize = spacing * Math.sqrt(neighborCount) * 0.75 || 1;
+  const size: [number, number] = [
+    Math.floor(width / cellSize) + 1,
+    Math.floor(height / cellSize) + 1,
+  ];
+
+  const cells = new Map<number, number>();
+  const counts: number[] = [];
+  const pointCells = new Uint32Array(pointCount);
+  for (let i = 0; i < pointCount; i++) {
+    const key = getCellKey(
+      Math.floor((xyz[i * 3] - min[0]) / cellSize),
+      Math.floor((xyz[i * 3 + 1] - min[1]) / cellSize),
+      Math.floor((xyz[i * 3 + 2] - min[2]) / cellSize),
+      size
+    );
+    let cell = cells.get(key);
+    if (cell === undefined) {
+      cell = counts.length;
+      cells.set(key, cell);
+      counts.push(0);
+    }
+    pointCells[i] = cell;
+    counts[cell]++;
+  }
+
+  const starts = new Uint32Array(counts.length + 1);
+  for (let cell = 0; cell < counts.length; cell++) {
+    starts[cell + 1] = starts[cell] + counts[cell];
+  }
+  const cursors = starts.slice(0, counts.length);
+  const points = new Uint32Array(pointCount);
+  for (let i = 0; i < pointCount; i++) {
+    points[cursors[pointCells[i]]++] = i;
+  }
+
+  return { cellSize, size, min, cells, starts, points };
+}
+
+/**
+ * Gets the key of a grid cell.
+ */
+function getCellKey(x: number, y: number, z: number, size: [number, number]): number {
+  return x + size[0] * (y + size[1] * z);
+}
+
+/**
+ * Finds the nearest neighbors of a point (including the point itself), searching the
+ * cells around its cell in shells until no closer points can be found.
+ *
+ * @returns Number of neighbors found
+ */
+function findNearestNeighbors(
+  xyz: Float32Array,
+  grid: PointGrid,
+  index: number,
+  neighbors: Int32Array,
+  distances: Float64Array
+): number {
+  const { cellSize, size, min, cells, starts, points } = grid;
+  const x = xyz[index * 3];
+  const y = xyz[index * 3 + 1];
+  const z = xyz[index * 3 + 2];
+  const cx = Math.floor((x - min[0]) / cellSize);
+  const cy = Math.floor((y - min[1]) / cellSize);
+  const cz = Math.floor((z - min[2]) / cellSize);
+  const k = neighbors.length;
+  let found = 0;
+
+  for (let shell = 1; shell <= MAX_SEARCH_SHELLS; shell++) {
+    for (let dz = -shell; dz <= shell; dz++) {
+      for (let dy = -shell; dy <= shell; dy++) {
+        for (let dx = -shell; dx <= shell; dx++) {
+          // Cells of inner shells were searched before
+          if (shell > 1 && Math.max(Math.abs(dx), Math.abs(dy), Math.abs(dz)) < shell) continue;
+          const gx = cx + dx;
+          const gy = cy + dy;
+          const gz = cz + dz;
+          if (gx < 0 || gy < 0 || gz < 0 || gx >= size[0] || gy >= size[1]) continue;
+          const cell = cells.get(getCellKey(gx, gy, gz, size));
+          if (cell === undefined) continue;
+
+          for (let p = starts[cell]; p < starts[cell + 1]; p++) {
+            const j = points[p];
+            const ex = xyz[j * 3] - x;
+            const ey = xyz[j * 3 + 1] - y;
+            const ez = xyz[j * 3 + 2] - z;
+            const distance = ex * ex + ey * ey + ez * ez;
+            if (found === k && distance >= distances[k - 1]) continue;
+
+            // Insert into the neighbors sorted by distance
+            let slot = found < k ? found++ : k - 1;
+            while (slot > 0 && distances[slot - 1] > distance) {
+              distances[slot] = distances[slot - 1];
+              neighbors[slot] = neighbors[slot - 1];
+              slot--;
+            }
+            distances[slot] = distance;
+            neighbors[slot] = j;
+          }
+        }
+      }
+    }
+
+    // Points outside the searched cells are at least shell cells away
+    const searched = shell * cellSize;
+    if (found === k && distances[k - 1] <= searched * searched) break;
+  }
+
+  return found;
+}
+
+/**
+ * Fits a plane to points and gets its normal: the eigenvector of the smallest eigenvalue
+ * of the covariance matrix of the points, oriented upwards.
+ *
+ * @returns False if the points do not define a plane
+ */
+function fitPlaneNormal(
+  xyz: Float32Array,
+  indices: Int32Array,
+  count: number,
+  normal: [number, number, number]
+): boolean {
+  let mx = 0, my = 0, mz = 0;
+  for (let n = 0; n < count; n++) {
+    const i = indices[n] * 3;
+    mx += xyz[i];
+    my += xyz[i + 1];
+    mz += xyz[i + 2];
+  }
+  mx /= count;
+  my /= count;
+  mz /= count;
+
+  let xx = 0, xy = 0, xz = 0, yy = 0, yz = 0, zz = 0;
+  for (let n = 0; n < count; n++) {
+    const i = indices[n] * 3;
+    const dx = xyz[i] - mx;
+    const dy = xyz[i + 1] - my;
+    const dz = xyz[i + 2] - mz;
+    xx += dx * dx;
+    xy += dx * dy;
+    xz += dx * dz;
+    yy += dy * dy;
+    yz += dy * dz;
+    zz += dz * dz;
+  }
+
+  // Smallest eigenvalue of the symmetric matrix (trigonometric solution of the characteristic equation)
+  const offDiagonal = xy * xy + xz * xz + yz * yz;
+  const q = (xx + yy + zz) / 3;
+  const p = Math.sqrt(((xx - q) ** 2 + (yy - q) ** 2 + (zz - q) ** 2 + 2 * offDiagonal) / 6);
+  if (p === 0) return false;
+
+  const bxx = (xx - q) / p, byy = (yy - q) / p, bzz = (zz - q) / p;
+  const bxy = xy / p, bxz = xz / p, byz = yz / p;
+  const det = bxx * (byy * bzz - byz * byz) - bxy * (bxy * bzz - byz * bxz) + bxz * (bxy * byz - byy * bxz);
+  const phi = Math.acos(Math.min(1, Math.max(-1, det / 2))) / 3;
+  const smallest = q + 2 * p * Math.cos(phi + (2 * Math.PI) / 3);
+
+  // The eigenvector is orthogonal to the rows of (A - smallest * I): take the largest cross product of two rows
+  const r0: [number, number, number] = [xx - smallest, xy, xz];
+  const r1: [number, number, number] = [xy, yy - smallest, yz];
+  const r2: [number, number, number] = [xz, yz, zz - smallest];
+  let best: [number, number, number] = [0, 0, 0];
+  let bestLength = 0;
+  for (const [a, b] of [[r0, r1], [r0, r2], [r1, r2]]) {
+    const c: [number, number, number] = [
+      a[1] * b[2] - a[2] * b[1],
+      a[2] * b[0] - a[0] * b[2],
+      a[0] * b[1] - a[1] * b[0],
+    ];
+    const length = Math.hypot(c[0], c[1], c[2]);
+    if (length > bestLength) {
+      best = c;
+      bestLength = length;
+    }
+  }
+  if (!(bestLength > 0)) return false;
+
+  // Aerial scans see surfaces from above
+  const sign = best[2] < 0 ? -1 : 1;
+  normal[0] = (best[0] / bestLength) * sign;
+  normal[1] = (best[1] / bestLength) * sign;
+  normal[2] = (best[2] / bestLength) * sign;
+  return true;
+}
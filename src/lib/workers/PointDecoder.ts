@@ -0,0 +1,276 @@
+import { Las } from 'copc';
+import { createLazPerf, type LazPerf } from 'laz-perf';
+import { parse } from '@loaders.gl/core';
+import { LASLoader } from '@loaders.gl/las';
+import proj4 from 'proj4';
+import type {
+  PointDecodeTask,
+  CopcChunkDecodeTask,
+  LazFileDecodeTask,
+  DecodedPoints,
+} from './types';
+
+// Register common projected coordinate systems that might not have WKT in files
+// EPSG:2180 - ETRS89 / Poland CS92 (commonly used in Poland)
+proj4.defs('EPSG:2180', '+proj=tmerc +lat_0=0 +lon_0=19 +k=0.9993 +x_0=500000 +y_0=-5300000 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs +type=crs');
+
+/**
+ * Core COPC dimensions that are always decoded into dedicated arrays
+ */
+const CORE_DIMENSIONS = new Set([
+  'X', 'Y', 'Z',
+  'Intensity',
+  'Classification',
+  'Red', 'Green', 'Blue',
+]);
+
+/**
+ * loaders.gl attributes that are decoded into dedicated arrays
+ */
+const LOADERS_GL_CORE_ATTRIBUTES = new Set([
+  'POSITION', 'positions',
+  'COLOR_0', 'colors',
+  'intensity',
+  'classification',
+]);
+
+// LazPerf instance for COPC decompression
+let lazPerfInstance: LazPerf | null = null;
+
+async function getLazPerf(): Promise<LazPerf> {
+  if (!lazPerfInstance) {
+    lazPerfInstance = await createLazPerf({
+      locateFile: (path: string) => {
+        // Load WASM from CDN for reliable loading in all environments
+        if (path.endsWith('.wasm')) {
+          return 'https://unpkg.com/laz-perf@0.0.7/lib/web/laz-perf.wasm';
+        }
+        return path;
+      },
+    });
+  }
+  return lazPerfInstance;
+}
+
+// proj4 converters by source definition (parsing WKT for every node is expensive)
+const converters: Map<string, proj4.Converter> = new Map();
+
+/**
+ * Creates a function writing a point's position into a positions array,
+ * reprojecting to WGS84 when the task has a projection.
+ */
+function createPositionWriter(
+  task: PointDecodeTask,
+  positions: Float32Array
+): (index: number, x: number, y: number, z: number) => void {
+  const [originX, originY] = task.coordinateOrigin;
+
+  if (!task.projection) {
+    return (index, x, y, z) => {
+      positions[index * 3] = x - originX;
+      positions[index * 3 + 1] = y - originY;
+      positions[index * 3 + 2] = z;
+    };
+  }
+
+  let converter = converters.get(task.projection);
+  if (!converter) {
+    converter = proj4(task.projection, 'EPSG:4326');
+    converters.set(task.projection, converter);
+  }
+  const forward = converter.forward.bind(converter);
+  const { verticalUnitFactor, clampCoordinates } = task;
+
+  return (index, x, y, z) => {
+    let [lng, lat] = forward([x, y]) as [number, number];
+    if (clampCoordinates) {
+      lng = Math.max(-180, Math.min(180, lng));
+      lat = Math.max(-90, Math.min(90, lat));
+    }
+    positions[index * 3] = lng - originX;
+    positions[index * 3 + 1] = lat - originY;
+    positions[index * 3 + 2] = z * verticalUnitFactor;
+  };
+}
+
+/**
+ * Decodes a LAZ-compressed COPC chunk.
+ *
+ * @param task - COPC chunk task
+ * @returns Decoded points
+ */
+async function decodeCopcChunk(task: CopcChunkDecodeTask): Promise<DecodedPoints> {
+  const lazPerf = await getLazPerf();
+  const { header, eb, pointCount } = task;
+
+  const buffer = await Las.PointData.decompressChunk(
+    task.buffer,
+    {
+      pointCount,
+      pointDataRecordFormat: header.pointDataRecordFormat,
+      pointDataRecordLength: header.pointDataRecordLength,
+    },
+    lazPerf
+  );
+  const view = Las.View.create(buffer, header, eb);
+
+  const dimensions = Object.keys(view.dimensions || {}).filter((name) => !CORE_DIMENSIONS.has(name));
+
+  const positions = new Float32Array(pointCount * 3);
+  const intensities = new Float32Array(pointCount);
+  const classifications = new Uint8Array(pointCount);
+  const colors = task.hasColor ? new Uint8Array(pointCount * 4) : undefined;
+  const writePosition = createPositionWriter(task, positions);
+
+  const xGetter = view.getter('X');
+  const yGetter = view.getter('Y');
+  const zGetter = view.getter('Z');
+  const intensityGetter = view.getter('Intensity');
+  const classGetter = view.getter('Classification');
+  const redGetter = colors ? view.getter('Red') : null;
+  const greenGetter = colors ? view.getter('Green') : null;
+  const blueGetter = colors ? view.getter('Blue') : null;
+
+  // Build getters for the requested extra dimensions
+  const extraAttributes: Record<string, Float64Array> = {};
+  const extraGetters: Map<string, (i: number) => number> = new Map();
+  for (const dimName of task.dimensions ?? dimensions) {
+    try {
+      const getter = view.getter(dimName);
+      if (getter) {
+        extraGetters.set(dimName, getter);
+        extraAttributes[dimName] = new Float64Array(pointCount);
+      }
+    } catch {
+      // Dimension not available in this chunk
+    }
+  }
+
+  for (let i = 0; i < pointCount; i++) {
+    writePosition(i, xGetter(i), yGetter(i), zGetter(i));
+
+    // Intensity (normalize to 0-1)
+    intensities[i] = intensityGetter(i) / 65535;
+    classifications[i] = classGetter(i);
+
+    // LAS colors are 16-bit, convert to 8-bit
+    if (colors && redGetter && greenGetter && blueGetter) {
+      colors[i * 4] = redGetter(i) >> 8;
+      colors[i * 4 + 1] = greenGetter(i) >> 8;
+      colors[i * 4 + 2] = blueGetter(i) >> 8;
+      colors[i * 4 + 3] = 255;
+    }
+
+    for (const [dimName, getter] of extraGetters) {
+      extraAttributes[dimName][i] = getter(i);
+    }
+  }
+
+  return { pointCount, positions, intensities, classifications, colors, extraAttributes, dimensions };
+}
+
+/**
+ * Decodes a complete LAS/LAZ file using loaders.gl.
+ *
+ * @param task - LAZ file task
+ * @returns Decoded points
+ */
+async function decodeLazFile(task: LazFileDecodeTask): Promise<DecodedPoints> {
+  const { buffer } = task;
+  const arrayBuffer = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const data = await parse(arrayBuffer, LASLoader, {
+    las: {
+      shape: 'mesh',
+      fp64: false,
+    },
+    worker: false,
+  }) as any;
+
+  // Get point data from the loaded result (loaders.gl mesh format)
+  const positionAttr = data.attributes?.POSITION || data.attributes?.positions;
+  const sourcePositions = positionAttr?.value as Float64Array | Float32Array | undefined;
+  const colorAttr = data.attributes?.COLOR_0 || data.attributes?.colors;
+  const sourceColors = colorAttr?.value as Uint8Array | undefined;
+
+  // loaderData contains additional attributes
+  const loaderData = data.loaderData || {};
+
+  if (!sourcePositions) {
+    throw new Error('No position data in LAZ file');
+  }
+
+  const pointCount = sourcePositions.length / 3;
+  const dimensions = Object.keys(data.attributes || {}).filter(
+    (name) => !LOADERS_GL_CORE_ATTRIBUTES.has(name)
+  );
+
+  const intensityAttr = data.attributes?.intensity || loaderData.intensity;
+  const sourceIntensities = intensityAttr?.value as Uint16Array | undefined;
+  const classificationAttr = data.attributes?.classification || loaderData.classification;
+  const sourceClassifications = classificationAttr?.value as Uint8Array | undefined;
+
+  const positions = new Float32Array(pointCount * 3);
+  const intensities = new Float32Array(pointCount);
+  const classifications = new Uint8Array(pointCount);
+  const colors = sourceColors ? new Uint8Array(pointCount * 4) : undefined;
+  const colorStride = sourceColors ? sourceColors.length / pointCount : 0;
+  const writePosition = createPositionWriter(task, positions);
+
+  for (let i = 0; i < pointCount; i++) {
+    writePosition(i, sourcePositions[i * 3], sourcePositions[i * 3 + 1], sourcePositions[i * 3 + 2]);
+
+    // Intensity (normalize to 0-1)
+    if (sourceIntensities) {
+      intensities[i] = sourceIntensities[i] / 65535;
+    }
+    if (sourceClassifications) {
+      classifications[i] = sourceClassifications[i];
+    }
+
+    // loaders.gl returns RGBA colors
+    if (colors && sourceColors) {
+      const colorOffset = i * colorStride;
+      colors[i * 4] = sourceColors[colorOffset];
+      colors[i * 4 + 1] = sourceColors[colorOffset + 1];
+      colors[i * 4 + 2] = sourceColors[colorOffset + 2];
+      colors[i * 4 + 3] = 255;
+    }
+  }
+
+  return { pointCount, positions, intensities, classifications, colors, extraAttributes: {}, dimensions };
+}
+
+/**
+ * Decodes compressed point data: decompresses, reprojects to WGS84 and normalizes
+ * attributes. Runs in decode workers and on the main thread when workers are unavailable.
+ *
+ * @param task - Decode task
+ * @returns Decoded points
+ */
+export async function decodePoints(task: PointDecodeTask): Promise<DecodedPoints> {
+  switch (task.type) {
+    case 'copc-chunk':
+      return decodeCopcChunk(task);
+    case 'laz-file':
+      return decodeLazFile(task);
+  }
+}
+
+/**
+ * Gets the buffers of decoded points that can be transferred between threads.
+ *
+ * @param points - Decoded points
+ * @returns Transferable buffers
+ */
+export function getDecodedTransferables(points: DecodedPoints): ArrayBuffer[] {
+  const arrays = [
+    points.positions,
+    points.intensities,
+    points.classifications,
+    points.colors,
+    ...Object.values(points.extraAttributes),
+  ];
+  return arrays.filter((array) => array !== undefined).map((array) => array!.buffer as ArrayBuffer);
+}
@@ -0,0 +1,236 @@
+import { decodePoints } from './PointDecoder';
+import { estimateNormals } from './NormalEstimator';
+import type {
+  PointDecodeTask,
+  DecodedPoints,
+  NormalEstimationTask,
+  WorkerTask,
+  PointDecodeRequest,
+  PointDecodeResponse,
+} from './types';
+
+/**
+ * Task waiting for or running on a worker
+ */
+interface PoolJob {
+  id: number;
+  task: WorkerTask;
+  /** Settles the task with the worker's response */
+  settle: (response: PointDecodeResponse) => void;
+  /** Runs the task on the main thread and settles it */
+  runOnMainThread: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Gets the default number of workers: one less than the available cores, at most 4.
+ */
+function getDefaultWorkerCount(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(4, cores - 1));
+}
+
+/**
+ * Pool of Web Workers decoding point data and estimating normals off the main thread.
+ * Resulting typed arrays are transferred back without copying. Tasks fall back to
+ * running on the main thread when workers are unavailable or the worker script fails.
+ */
+export class WorkerPool {
+  private _workerUrl: string;
+  private _size: number;
+  private _workers: Worker[] = [];
+  private _idleWorkers: Worker[] = [];
+  private _queue: PoolJob[] = [];
+  private _running: Map<Worker, PoolJob> = new Map();
+  private _nextId: number = 0;
+  private _failed: boolean = false;
+  private _destroyed: boolean = false;
+
+  /**
+   * Creates a new WorkerPool instance. Workers are started on demand.
+   *
+   * @param workerUrl - URL of the decode worker script (the package's `worker` entry)
+   * @param size - Maximum number of workers (0 for one less than the available cores, at most 4)
+   */
+  constructor(workerUrl: string, size: number = 0) {
+    this._workerUrl = workerUrl;
+    this._size = size > 0 ? size : getDefaultWorkerCount();
+    this._failed = typeof Worker === 'undefined';
+  }
+
+  /**
+   * Gets the maximum number of workers.
+   *
+   * @returns Number of workers
+   */
+  get size(): number {
+    return this._size;
+  }
+
+  /**
+   * Checks whether tasks run on workers (false after falling back to the main thread).
+   *
+   * @returns True if workers are available
+   */
+  isAvailable(): boolean {
+    return !this._failed && !this._destroyed;
+  }
+
+  /**
+   * Decodes point data on a worker, or on the main thread when workers are unavailable.
+   *
+   * @param task - Decode task
+   * @returns Decoded points
+   */
+  decode(task: PointDecodeTask): Promise<DecodedPoints> {
+    if (!this.isAvailable()) {
+      return decodePoints(task);
+    }
+
+    return new Promise((resolve, reject) => {
+      this._queue.push({
+        id: this._nextId++,
+        task,
+        settle: ({ result, error }) => {
+          if (result) {
+            resolve(result);
+          } else {
+            reject(new Error(error ?? 'Point decode worker failed'));
+          }
+        },
+        runOnMainThread: () => {
+          decodePoints(task).then(resolve, reject);
+        },
+        reject,
+      });
+      this._runQueued();
+    });
+  }
+
+  /**
+   * Estimates point normals on a worker, or on the main thread when workers are unavailable.
+   *
+   * @param task - Normal estimation task
+   * @returns Normals [nx, ny, nz, ...]
+   */
+  estimateNormals(task: NormalEstimationTask): Promise<Float32Array> {
+    const runOnMainThread = (): Promise<Float32Array> =>
+      new Promise((resolve) => resolve(estimateNormals(task)));
+    if (!this.isAvailable()) {
+      return runOnMainThread();
+    }
+
+    return new Promise((resolve, reject) => {
+      this._queue.push({
+        id: this._nextId++,
+        task,
+        settle: ({ normals, error }) => {
+          if (normals) {
+            resolve(normals);
+          } else {
+            reject(new Error(error ?? 'Normal estimation worker failed'));
+          }
+        },
+        runOnMainThread: () => {
+          runOnMainThread().then(resolve, reject);
+        },
+        reject,
+      });
+      this._runQueued();
+    });
+  }
+
+  /**
+   * Terminates all workers. Pending tasks are rejected with an AbortError.
+   */
+  destroy(): void {
+    this._destroyed = true;
+    for (const job of this._terminateWorkers()) {
+      job.reject(new DOMException('The operation was aborted.', 'AbortError'));
+    }
+  }
+
+  /**
+   * Starts queued tasks on idle workers, starting new workers up to the pool size.
+   */
+  private _runQueued(): void {
+    while (this._queue.length > 0) {
+      const worker = this._idleWorkers.pop() ?? this._startWorker();
+      if (!worker) return;
+
+      const job = this._queue.shift()!;
+      this._running.set(worker, job);
+      // The input buffer is copied (not transferred) so the task can still fall back to the main thread
+      const request: PointDecodeRequest = { id: job.id, task: job.task };
+      worker.postMessage(request);
+    }
+  }
+
+  /**
+   * Starts a new worker if the pool is not full.
+   *
+   * @returns The new worker, or null if the pool is full or workers failed
+   */
+  private _startWorker(): Worker | null {
+    if (this._workers.length >= this._size || !this.isAvailable()) return null;
+
+    let worker: Worker;
+    try {
+      worker = new Worker(this._workerUrl, { type: 'module' });
+    } catch (error) {
+      this._fallBackToMainThread(error);
+      return null;
+    }
+
+    worker.onmessage = (event: MessageEvent<PointDecodeResponse>) => {
+      const job = this._running.get(worker);
+      this._running.delete(worker);
+      if (job) {
+        job.settle(event.data);
+      }
+      this._idleWorkers.push(worker);
+      this._runQueued();
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      // The worker script could not be loaded or crashed
+      event.preventDefault();
+      this._fallBackToMainThread(event.message || 'Point decode worker failed to start');
+    };
+
+    this._workers.push(worker);
+    return worker;
+  }
+
+  /**
+   * Terminates the workers and runs running and queued tasks on the main thread.
+   *
+   * @param reason - Error that caused the fallback
+   */
+  private _fallBackToMainThread(reason: unknown): void {
+    if (this._failed) return;
+    this._failed = true;
+    console.warn('Point workers unavailable, running tasks on the main thread:', reason);
+
+    for (const job of this._terminateWorkers()) {
+      job.runOnMainThread();
+    }
+  }
+
+  /**
+   * Terminates all workers and clears the queue.
+   *
+   * @returns Running and queued tasks that have not finished
+   */
+  private _terminateWorkers(): PoolJob[] {
+    const jobs = [...this._running.values(), ...this._queue];
+    for (const worker of this._workers) {
+      worker.terminate();
+    }
+    this._workers = [];
+    this._idleWorkers = [];
+    this._running.clear();
+    this._queue = [];
+    return jobs;
+  }
+}
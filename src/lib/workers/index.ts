@@ -0,0 +1,13 @@
+export { WorkerPool } from './WorkerPool';
+export { decodePoints, getDecodedTransferables } from './PointDecoder';
+export { estimateNormals } from './NormalEstimator';
+export type {
+  PointDecodeTask,
+  CopcChunkDecodeTask,
+  LazFileDecodeTask,
+  NormalEstimationTask,
+  WorkerTask,
+  DecodedPoints,
+  PointDecodeRequest,
+  PointDecodeResponse,
+} from './types';
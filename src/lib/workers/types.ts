@@ -0,0 +1,104 @@
+import type { Las } from 'copc';
+
+/**
+ * Fields shared by all point decode tasks
+ */
+interface PointDecodeTaskBase {
+  /** Compressed point data */
+  buffer: Uint8Array;
+  /** proj4 source definition (projection WKT or proj4 string) to reproject to WGS84, null to keep source coordinates */
+  projection: string | null;
+  /** Factor converting elevations to meters (applied when reprojecting) */
+  verticalUnitFactor: number;
+  /** Origin subtracted from positions to keep Float32 precision */
+  coordinateOrigin: [number, number, number];
+  /** Whether reprojected coordinates are clamped to the valid WGS84 range */
+  clampCoordinates: boolean;
+}
+
+/**
+ * Decodes a LAZ-compressed COPC chunk (one octree node)
+ */
+export interface CopcChunkDecodeTask extends PointDecodeTaskBase {
+  type: 'copc-chunk';
+  /** LAS header of the COPC file */
+  header: Las.Header;
+  /** Extra bytes definitions of the COPC file */
+  eb: Las.ExtraBytes[];
+  /** Number of points in the chunk */
+  pointCount: number;
+  /** Whether RGB colors are decoded */
+  hasColor: boolean;
+  /** Extra dimensions to decode, all non-core dimensions when omitted */
+  dimensions?: string[];
+}
+
+/**
+ * Decodes a complete LAS/LAZ file (e.g., an EPT laszip node)
+ */
+export interface LazFileDecodeTask extends PointDecodeTaskBase {
+  type: 'laz-file';
+}
+
+/**
+ * Task sent to the point decoder (in a worker or on the main thread)
+ */
+export type PointDecodeTask = CopcChunkDecodeTask | LazFileDecodeTask;
+
+/**
+ * Estimates point normals from the nearest neighbors of each point
+ */
+export interface NormalEstimationTask {
+  type: 'normals';
+  /** Positions as offsets from the coordinate origin [deltaLng, deltaLat, elevation, ...] */
+  positions: Float32Array;
+  /** Coordinate origin [lng, lat, 0] the positions are relative to */
+  coordinateOrigin: [number, number, number];
+  /** Number of nearest neighbors a plane is fitted to for each point */
+  neighborCount: number;
+}
+
+/**
+ * Task sent to a worker
+ */
+export type WorkerTask = PointDecodeTask | NormalEstimationTask;
+
+/**
+ * Decoded points, normalized the same way as PointCloudData
+ */
+export interface DecodedPoints {
+  /** Number of decoded points */
+  pointCount: number;
+  /** Positions as offsets from the task's coordinate origin [x, y, z, ...] */
+  positions: Float32Array;
+  /** Intensities normalized to 0-1 */
+  intensities: Float32Array;
+  /** Classification codes */
+  classifications: Uint8Array;
+  /** RGBA colors, when decoded */
+  colors?: Uint8Array;
+  /** Decoded extra dimensions */
+  extraAttributes: Record<string, Float64Array>;
+  /** Names of all extra dimensions available in the data */
+  dimensions: string[];
+}
+
+/**
+ * Message posted to a worker
+ */
+export interface PointDecodeRequest {
+  id: number;
+  task: WorkerTask;
+}
+
+/**
+ * Message posted back by a worker
+ */
+export interface PointDecodeResponse {
+  id: number;
+  /** Decoded points of a decode task */
+  result?: DecodedPoints;
+  /** Normals of a normal estimation task [nx, ny, nz, ...] */
+  normals?: Float32Array;
+  error?: string;
+}
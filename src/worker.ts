@@ -0,0 +1,26 @@
+// Point decode worker entry point
+// Pass the URL of this script as the `workerUrl` option to decode nodes off the main thread.
+// The worker also estimates point normals.
+import { decodePoints, getDecodedTransferables } from './lib/workers/PointDecoder';
+import { estimateNormals } from './lib/workers/NormalEstimator';
+import type { PointDecodeRequest, PointDecodeResponse } from './lib/workers/types';
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<PointDecodeRequest>) => void) | null;
+  postMessage: (message: PointDecodeResponse, transfer?: Transferable[]) => void;
+};
+
+scope.onmessage = async (event) => {
+  const { id, task } = event.data;
+  try {
+    if (task.type === 'normals') {
+      const normals = estimateNormals(task);
+      scope.postMessage({ id, normals }, [normals.buffer]);
+      return;
+    }
+    const result = await decodePoints(task);
+    scope.postMessage({ id, result }, getDecodedTransferables(result));
+  } catch (error) {
+    scope.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
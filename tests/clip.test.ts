@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createGeometryTest,
+  createClipTest,
+  clipRegionsToGeoJSON,
+  createClipBoxTest,
+  lngLatToClipBoxLocal,
+  clipBoxLocalToLngLat,
+} from '../src/lib/utils/clip';
+import type { ClipRegion, ClipBox } from '../src/lib/core/types';
+
+// 0..10 square with a 4..6 hole
+const parcel: GeoJSON.Polygon = {
+  type: 'Polygon',
+  coordinates: [
+    [[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]],
+    [[4, 4], [6, 4], [6, 6], [4, 6], [4, 4]],
+  ],
+};
+
+/**
+ * Creates a square clip region.
+ */
+function square(id: string, min: number, max: number, mode: ClipRegion['mode'], enabled = true): ClipRegion {
+  return {
+    id,
+    name: id,
+    mode,
+    enabled,
+    geometry: { type: 'Polygon', coordinates: [[[min, min], [max, min], [max, max], [min, max], [min, min]]] },
+  };
+}
+
+describe('createGeometryTest', () => {
+  it('should exclude polygon holes', () => {
+    const inParcel = createGeometryTest(parcel);
+    expect(inParcel(1, 1)).toBe(true);
+    expect(inParcel(5, 5)).toBe(false);
+    expect(inParcel(11, 5)).toBe(false);
+  });
+
+  it('should test each polygon of a MultiPolygon', () => {
+    const inRegion = createGeometryTest({
+      type: 'MultiPolygon',
+      coordinates: [parcel.coordinates, [[[20, 0], [30, 0], [25, 10], [20, 0]]]],
+    });
+    expect(inRegion(25, 2)).toBe(true);
+    expect(inRegion(5, 5)).toBe(false);
+    expect(inRegion(15, 2)).toBe(false);
+  });
+});
+
+describe('createClipTest', () => {
+  it('should keep points inside any inside region and outside all outside regions', () => {
+    const inRegions = createClipTest([
+      square('a', 0, 10, 'inside'),
+      square('b', 20, 30, 'inside'),
+      square('c', 8, 22, 'outside'),
+      square('d', 0, 5, 'outside', false),
+    ])!;
+    expect(inRegions(1, 1)).toBe(true);
+    expect(inRegions(25, 25)).toBe(true);
+    expect(inRegions(9, 9)).toBe(false);
+    expect(inRegions(15, 15)).toBe(false);
+  });
+
+  it('should keep all points outside the regions that remove points', () => {
+    const inRegions = createClipTest([square('a', 0, 10, 'outside')])!;
+    expect(inRegions(5, 5)).toBe(false);
+    expect(inRegions(15, 15)).toBe(true);
+    expect(createClipTest([square('a', 0, 10, 'inside', false)])).toBeNull();
+  });
+
+  it('should export regions as GeoJSON features', () => {
+    const geojson = clipRegionsToGeoJSON([square('a', 0, 10, 'outside', false)]);
+    expect(geojson.features[0]).toMatchObject({
+      id: 'a',
+      properties: { name: 'a', mode: 'outside', enabled: false },
+      geometry: { type: 'Polygon' },
+    });
+  });
+});
+
+// 10 m wide, 100 m long box along the equator
+const box: ClipBox = {
+  center: [0, 0],
+  width: 10,
+  length: 100,
+  rotation: 90,
+  minZ: 0,
+  maxZ: 20,
+  mode: 'inside',
+  enabled: true,
+};
+
+// Degrees per meter at the equator
+const DEGREES_PER_METER = 1 / 111319.49;
+
+describe('createClipBoxTest', () => {
+  it('should convert positions to and from the rotated box frame', () => {
+    const [u, v] = lngLatToClipBoxLocal(box, 40 * DEGREES_PER_METER, 3 * DEGREES_PER_METER);
+    expect(u).toBeCloseTo(-3);
+    expect(v).toBeCloseTo(40);
+
+    const [lng, lat] = clipBoxLocalToLngLat({ ...box, center: [10, 50], rotation: 30 }, 4, -25);
+    const local = lngLatToClipBoxLocal({ ...box, center: [10, 50], rotation: 30 }, lng, lat);
+    expect(local[0]).toBeCloseTo(4);
+    expect(local[1]).toBeCloseTo(-25);
+  });
+
+  it('should keep points inside or outside the box by its mode', () => {
+    const inBox = createClipBoxTest(box)!;
+    expect(inBox(40 * DEGREES_PER_METER, 0, 10)).toBe(true);
+    expect(inBox(0, 40 * DEGREES_PER_METER, 10)).toBe(false);
+    expect(inBox(0, 0, 25)).toBe(false);
+
+    const outsideBox = createClipBoxTest({ ...box, mode: 'outside' })!;
+    expect(outsideBox(40 * DEGREES_PER_METER, 0, 10)).toBe(false);
+    expect(outsideBox(0, 0, 25)).toBe(true);
+    expect(createClipBoxTest({ ...box, enabled: false })).toBeNull();
+  });
+});
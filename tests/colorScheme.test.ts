@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ColorSchemeProcessor,
+  parseHexColor,
+  getAvailableAttributeColorSchemes,
+} from '../src/lib/colorizers/ColorScheme';
+import type { PointCloudData } from '../src/lib/loaders/types';
+
+function createData(extraAttributes: PointCloudData['extraAttributes']): PointCloudData {
+  return {
+    positions: new Float32Array([0, 0, 1, 0, 0, 2, 0, 0, 3]),
+    coordinateOrigin: [0, 0, 0],
+    extraAttributes,
+    pointCount: 3,
+    bounds: { minX: 0, maxX: 0, minY: 0, maxY: 0, minZ: 1, maxZ: 3 },
+    hasRGB: false,
+    hasIntensity: false,
+    hasClassification: false,
+  };
+}
+
+describe('parseHexColor', () => {
+  it('should parse long and short hex colors', () => {
+    expect(parseHexColor('#ff8000')).toEqual([255, 128, 0]);
+    expect(parseHexColor('0f0')).toEqual([0, 255, 0]);
+  });
+
+  it('should return gray for invalid colors', () => {
+    expect(parseHexColor('not-a-color')).toEqual([128, 128, 128]);
+  });
+});
+
+describe('ColorSchemeProcessor custom schemes', () => {
+  it('should map a gradient over the configured colors and domain', () => {
+    const processor = new ColorSchemeProcessor();
+    const data = createData({ GpsTime: new Float64Array([1e9, 1e9 + 5, 1e9 + 10]) });
+    const result = processor.getColorsWithBounds(data, {
+      type: 'gradient',
+      attribute: 'GpsTime',
+      colors: ['#000000', '#ffffff'],
+      domain: [1e9, 1e9 + 10],
+    });
+
+    expect(result.bounds).toEqual({ min: 1e9, max: 1e9 + 10 });
+    expect(Array.from(result.colors.slice(0, 4))).toEqual([0, 0, 0, 255]);
+    expect(result.colors[4]).toBe(128);
+    expect(Array.from(result.colors.slice(8, 12))).toEqual([255, 255, 255, 255]);
+  });
+
+  it('should assign one color per distinct value for categorical schemes', () => {
+    const processor = new ColorSchemeProcessor();
+    const data = createData({ PointSourceId: new Uint16Array([7, 3, 7]) });
+    const result = processor.getColorsWithBounds(data, {
+      type: 'categorical',
+      attribute: 'pointsourceid',
+      colors: ['#ff0000', '#0000ff'],
+      categoryLabels: { 7: 'Flight 7' },
+    });
+
+    expect(result.categories).toEqual([
+      { value: 3, color: [255, 0, 0], label: '3' },
+      { value: 7, color: [0, 0, 255], label: 'Flight 7' },
+    ]);
+    expect(Array.from(result.colors.slice(0, 4))).toEqual([0, 0, 255, 255]);
+    expect(Array.from(result.colors.slice(4, 8))).toEqual([255, 0, 0, 255]);
+    expect(processor.getLastComputedCategories()).toBe(result.categories);
+  });
+
+  it('should color points by return number and scan angle with preset palettes', () => {
+    const processor = new ColorSchemeProcessor();
+    const data = createData({
+      ReturnNumber: new Uint8Array([1, 3, 1]),
+      ScanAngleRank: new Int8Array([-5, 10, 0]),
+    });
+
+    const returns = processor.getColorsWithBounds(data, 'returnNumber');
+    expect(returns.categories).toEqual([
+      { value: 1, color: [228, 26, 28], label: 'First' },
+      { value: 3, color: [77, 175, 74], label: 'Third' },
+    ]);
+
+    // Scan angles are centered on nadir (white)
+    const angles = processor.getColorsWithBounds(data, 'scanAngle');
+    expect(angles.bounds).toEqual({ min: -10, max: 10 });
+    expect(Array.from(angles.colors.slice(8, 11))).toEqual([247, 247, 247]);
+
+    // Point clouds without the attribute are colored by elevation
+    expect(processor.getColors(data, 'pointSourceId')).toEqual(processor.getColors(data, 'elevation'));
+
+    expect(getAvailableAttributeColorSchemes(['Intensity', 'ReturnNumber', 'ScanAngleRank', 'GpsTime'])).toEqual([
+      'returnNumber',
+      'scanAngle',
+      'gpsTime',
+    ]);
+  });
+
+  it('should shade RGB, elevation and classification colors by intensity', () => {
+    const processor = new ColorSchemeProcessor();
+    const data: PointCloudData = {
+      ...createData(undefined),
+      colors: new Uint8Array([200, 100, 50, 255, 200, 100, 50, 255, 200, 100, 50, 255]),
+      intensities: new Float32Array([0, 0.5, 1]),
+      classifications: new Uint8Array([2, 2, 6]),
+      hasRGB: true,
+      hasIntensity: true,
+      hasClassification: true,
+    };
+
+    const shaded = processor.getColors(data, 'rgbIntensity', { intensityBlend: 1 });
+    expect(Array.from(shaded)).toEqual([0, 0, 0, 255, 100, 50, 25, 255, 200, 100, 50, 255]);
+    const blended = processor.getColors(data, 'rgbIntensity', { intensityBlend: 0.5 });
+    expect(Array.from(blended.slice(0, 3))).toEqual([100, 50, 25]);
+    expect(processor.getColors(data, 'rgbIntensity', { intensityBlend: 0 })).toEqual(processor.getColors(data, 'rgb'));
+
+    // Elevation keeps its bounds for the colorbar, and hidden classes stay hidden (with the default blend)
+    const elevation = processor.getColorsWithBounds(data, 'elevationIntensity', {
+      colorRange: { mode: 'absolute', percentileLow: 2, percentileHigh: 98, absoluteMin: 1, absoluteMax: 3 },
+    });
+    expect(elevation.bounds).toEqual({ min: 1, max: 3 });
+    const classes = processor.getColors(data, 'classificationIntensity', { hiddenClassifications: new Set([6]) });
+    expect(classes[11]).toBe(0);
+    const ground = processor.getColors(data, 'classification').slice(0, 3);
+    expect(Array.from(classes.slice(0, 3))).toEqual(Array.from(ground, (c) => Math.round(c * 0.5)));
+  });
+
+  it('should color points by their normals, slope and aspect', () => {
+    const processor = new ColorSchemeProcessor();
+    // Flat, vertical facing east, and 45 degrees facing north
+    const data = {
+      ...createData(undefined),
+      normals: new Float32Array([0, 0, 1, 1, 0, 0, 0, Math.SQRT1_2, Math.SQRT1_2]),
+    };
+
+    const normal = processor.getColors(data, 'normal');
+    expect(Array.from(normal.slice(0, 4))).toEqual([128, 128, 255, 255]);
+    expect(Array.from(normal.slice(4, 8))).toEqual([255, 128, 128, 255]);
+
+    const slope = processor.getColorsWithBounds(data, 'slope', { colormap: 'gray' });
+    expect(slope.bounds).toEqual({ min: 0, max: 90 });
+    expect(Array.from(slope.colors.slice(0, 3))).toEqual([0, 0, 0]);
+    expect(Array.from(slope.colors.slice(4, 7))).toEqual([255, 255, 255]);
+
+    // Flat points face no direction and are gray; north-facing points are red
+    const aspect = processor.getColors(data, 'aspect');
+    expect(aspect[0]).toBe(aspect[1]);
+    expect(aspect[0]).toBe(aspect[2]);
+    expect(aspect[8]).toBeGreaterThan(aspect[9]);
+    expect(aspect[9]).toBe(aspect[10]);
+
+    // Without normals the points are colored by elevation
+    expect(processor.getColors(createData(undefined), 'slope')).toEqual(
+      processor.getColors(createData(undefined), 'elevation')
+    );
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Copc, Hierarchy } from 'copc';
+import { CopcStreamingLoader } from '../src/lib/loaders/CopcStreamingLoader';
+import { decodePoints } from '../src/lib/workers/PointDecoder';
+import type { ViewportInfo } from '../src/lib/loaders/streaming-types';
+import type { DecodedPoints } from '../src/lib/workers/types';
+
+vi.mock('copc', () => ({
+  Copc: {
+    create: vi.fn(),
+    loadCompressedPointDataBuffer: vi.fn(),
+  },
+  Hierarchy: {
+    load: vi.fn(),
+  },
+}));
+
+vi.mock('../src/lib/workers/PointDecoder', () => ({
+  decodePoints: vi.fn(),
+}));
+
+/**
+ * Creates decoded points with positions counting up from the given value.
+ */
+function decodedPoints(pointCount: number, firstValue: number): DecodedPoints {
+  return {
+    pointCount,
+    positions: new Float32Array(pointCount * 3).map((_, i) => firstValue + i),
+    intensities: new Float32Array(pointCount),
+    classifications: new Uint8Array(pointCount),
+    extraAttributes: {},
+    dimensions: [],
+  };
+}
+
+/**
+ * Creates a hierarchy entry with the given number of points.
+ */
+function hierarchyNode(pointCount: number): Hierarchy.Node {
+  return { pointCount, pointDataOffset: 0, pointDataLength: 0 };
+}
+
+describe('CopcStreamingLoader', () => {
+  afterEach(() => {
+    vi.mocked(decodePoints).mockReset();
+    vi.mocked(Hierarchy.load).mockReset();
+    vi.restoreAllMocks();
+  });
+
+  it('should keep the buffer ranges of other nodes when a node fails while they load', async () => {
+    vi.mocked(Copc.create).mockResolvedValue({
+      header: { pointDataRecordFormat: 0, min: [0, 0, 0], max: [1, 1, 1], pointCount: 6 },
+      info: { rootHierarchyPage: { pageOffset: 0, pageLength: 0 }, cube: [0, 0, 0, 1, 1, 1], spacing: 1 },
+      eb: [],
+    } as unknown as Copc);
+    vi.mocked(Copc.loadCompressedPointDataBuffer).mockResolvedValue(new Uint8Array(0));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    vi.mocked(Hierarchy.load).mockResolvedValue({
+      nodes: { '0-0-0-0': hierarchyNode(1), '1-0-0-0': hierarchyNode(2), '1-1-1-1': hierarchyNode(3) },
+      pages: {},
+    });
+
+    // The first node fails after the other two have loaded
+    let failFirst: (error: Error) => void = () => {};
+    vi.mocked(decodePoints).mockImplementation((task) => {
+      if (task.pointCount === 2) return new Promise((_, reject) => { failFirst = reject; });
+      return Promise.resolve(decodedPoints(task.pointCount, task.pointCount === 3 ? 1 : 10));
+    });
+
+    const loader = new CopcStreamingLoader(new ArrayBuffer(0), { maxRetries: 0 });
+    await loader.initialize();
+    const viewport: ViewportInfo = { bounds: [0, 0, 1, 1], center: [0.5, 0.5], zoom: 18, pitch: 0, targetDepth: 1 };
+    (await loader.selectNodesForViewport(viewport)).forEach((node) => loader.queueNode(node));
+    await loader.loadQueuedNodes();
+    await vi.waitFor(() => expect(loader.getLoadedNodeCount()).toBe(2));
+
+    failFirst(new Error('Network error'));
+    await vi.waitFor(() => expect(loader.isLoading()).toBe(false));
+
+    // The points of the loaded nodes are moved into the range of the failed node
+    const data = loader.getLoadedPointCloudData();
+    expect(data.pointCount).toBe(4);
+    expect(Array.from(data.positions)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+    loader.destroy();
+  });
+
+  it('should stop waiting to retry the hierarchy when destroyed', async () => {
+    vi.mocked(Copc.create).mockResolvedValue({
+      header: { pointDataRecordFormat: 0, min: [0, 0, 0], max: [1, 1, 1], pointCount: 1 },
+      info: { rootHierarchyPage: { pageOffset: 0, pageLength: 0 }, cube: [0, 0, 0, 1, 1, 1], spacing: 1 },
+      eb: [],
+    } as unknown as Copc);
+    vi.mocked(Hierarchy.load).mockRejectedValue(new Error('Network error'));
+
+    const loader = new CopcStreamingLoader(new ArrayBuffer(0), { retryDelayMs: 60_000 });
+    await loader.initialize();
+    const viewport: ViewportInfo = { bounds: [0, 0, 1, 1], center: [0.5, 0.5], zoom: 18, pitch: 0, targetDepth: 1 };
+    const selected = loader.selectNodesForViewport(viewport);
+    await vi.waitFor(() => expect(Hierarchy.load).toHaveBeenCalled());
+    loader.destroy();
+
+    await expect(selected).rejects.toMatchObject({ name: 'AbortError' });
+    expect(Hierarchy.load).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Map as MapLibreMap } from 'maplibre-gl';
+import { EyeDomeLightingEffect, DEFAULT_EDL_OPTIONS } from '../src/lib/layers/EyeDomeLightingEffect';
+import { LidarControl } from '../src/lib/core/LidarControl';
+
+// Props of the deck.gl overlays created by the control
+const overlayProps = vi.hoisted(() => [] as Array<Record<string, unknown>>);
+
+vi.mock('@deck.gl/mapbox', () => ({
+  MapboxOverlay: class {
+    props: Record<string, unknown>;
+
+    constructor(props: Record<string, unknown>) {
+      this.props = { ...props };
+      overlayProps.push(this.props);
+    }
+
+    setProps(props: Record<string, unknown>): void {
+      Object.assign(this.props, props);
+    }
+
+    finalize(): void {}
+  },
+}));
+
+/**
+ * Adds a control to a minimal map stand-in and returns the effects of its deck.gl overlay.
+ */
+function addToMap(control: LidarControl): () => unknown[] | undefined {
+  const map = {
+    getContainer: () => document.createElement('div'),
+    addControl: vi.fn(),
+    removeControl: vi.fn(),
+    on: vi.fn(),
+    off: vi.fn(),
+    triggerRepaint: vi.fn(),
+  };
+  control.onAdd(map as unknown as MapLibreMap);
+  const props = overlayProps[overlayProps.length - 1];
+  return () => props.effects as unknown[] | undefined;
+}
+
+describe('EyeDomeLightingEffect', () => {
+  it('should pass its settings to the shader module', () => {
+    const effect = new EyeDomeLightingEffect({ strength: 2 });
+    expect(effect.id).toBe('edl-pass');
+    expect(effect.props).toMatchObject({ strength: 2, radius: DEFAULT_EDL_OPTIONS.radius });
+    expect(effect.module.uniformTypes).toMatchObject({ strength: 'f32', radius: 'f32', depthParams: 'vec2<f32>' });
+  });
+
+  it('should not render depth before it is set up', () => {
+    const effect = new EyeDomeLightingEffect();
+    expect(() => effect.preRender({ layers: [], viewports: [], onViewportActive: () => {}, views: {}, effects: [] })).not.toThrow();
+    expect(effect.props.depthTexture).toBeNull();
+  });
+});
+
+describe('LidarControl Eye-Dome Lighting', () => {
+  beforeEach(() => {
+    // jsdom has neither ResizeObserver nor 2D canvas contexts, which the panel uses
+    vi.stubGlobal('ResizeObserver', class {
+      observe(): void {}
+      disconnect(): void {}
+    });
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    document.body.innerHTML = '';
+  });
+
+  it('should add and remove the effect on the deck.gl overlay', () => {
+    const control = new LidarControl();
+    const getEffects = addToMap(control);
+    expect(getEffects()).toBeUndefined();
+
+    control.setEdlEnabled(true);
+    expect(getEffects()).toHaveLength(1);
+    expect(getEffects()![0]).toBeInstanceOf(EyeDomeLightingEffect);
+    expect(control.getEdl().enabled).toBe(true);
+
+    control.setEdlEnabled(false);
+    expect(getEffects()).toEqual([]);
+    control.onRemove();
+  });
+
+  it('should add the effect when the control is added with EDL enabled', () => {
+    const control = new LidarControl({ edlEnabled: true, edlStrength: 3 });
+    const getEffects = addToMap(control);
+    expect((getEffects()![0] as EyeDomeLightingEffect).props).toMatchObject({ strength: 3 });
+    control.onRemove();
+  });
+
+  it('should pass strength and radius changes to the effect', () => {
+    const control = new LidarControl({ edlEnabled: true });
+    const getEffects = addToMap(control);
+
+    control.setEdlStrength(2.5);
+    control.setEdlRadius(4);
+    expect((getEffects()![0] as EyeDomeLightingEffect).props).toMatchObject({ strength: 2.5, radius: 4 });
+
+    // Negative values are clamped
+    control.setEdlRadius(-1);
+    expect((getEffects()![0] as EyeDomeLightingEffect).props).toMatchObject({ strength: 2.5, radius: 0 });
+
+    // Settings changed while disabled are applied when EDL is enabled again
+    control.setEdlEnabled(false);
+    control.setEdlStrength(0.5);
+    expect(getEffects()).toEqual([]);
+    control.setEdlEnabled(true);
+    expect((getEffects()![0] as EyeDomeLightingEffect).props).toMatchObject({ strength: 0.5, radius: 0 });
+    control.onRemove();
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { EptStreamingLoader } from '../src/lib/loaders/EptStreamingLoader';
+import type { ViewportInfo } from '../src/lib/loaders/streaming-types';
+
+/**
+ * Creates the binary data of a single point.
+ */
+function pointData(x: number, y: number): ArrayBuffer {
+  const buffer = new ArrayBuffer(12);
+  const view = new DataView(buffer);
+  view.setInt32(0, x, true);
+  view.setInt32(4, y, true);
+  return buffer;
+}
+
+/**
+ * Creates a viewport over the given bounds.
+ */
+function viewportFor(bounds: [number, number, number, number]): ViewportInfo {
+  return {
+    bounds,
+    center: [(bounds[0] + bounds[2]) / 2, (bounds[1] + bounds[3]) / 2],
+    zoom: 18,
+    pitch: 0,
+    targetDepth: 1,
+  };
+}
+
+describe('EptStreamingLoader eviction', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should evict nodes that are no longer visible when the point budget is reached', async () => {
+    const files: Record<string, ArrayBuffer | object> = {
+      'https://example.com/ept/ept.json': {
+        bounds: [0, 0, 0, 0.002, 0.002, 0.002],
+        boundsConforming: [0, 0, 0, 0.002, 0.002, 0.002],
+        dataType: 'binary',
+        hierarchyType: 'json',
+        numPoints: 3,
+        schema: [
+          { name: 'X', type: 'signed', size: 4, scale: 0.000001, offset: 0 },
+          { name: 'Y', type: 'signed', size: 4, scale: 0.000001, offset: 0 },
+          { name: 'Z', type: 'signed', size: 4, scale: 0.000001, offset: 0 },
+        ],
+        span: 128,
+        srs: {},
+        version: '1.0.0',
+      },
+      'https://example.com/ept/ept-hierarchy/0-0-0-0.json': { '0-0-0-0': 1, '1-0-0-0': 1, '1-1-1-0': 1 },
+      'https://example.com/ept/ept-data/0-0-0-0.bin': pointData(1000, 1000),
+      'https://example.com/ept/ept-data/1-0-0-0.bin': pointData(500, 500),
+      'https://example.com/ept/ept-data/1-1-1-0.bin': pointData(1500, 1500),
+    };
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      const file = files[url];
+      if (!file) return new Response(null, { status: 404 });
+      return new Response(file instanceof ArrayBuffer ? file : JSON.stringify(file));
+    }));
+
+    const loader = new EptStreamingLoader('https://example.com/ept/ept.json', {
+      pointBudget: 2,
+      screenSpaceErrorThreshold: 0,
+    });
+    const onBudgetReached = vi.fn();
+    loader.on('budgetreached', onBudgetReached);
+    await loader.initialize();
+
+    const load = async (viewport: ViewportInfo) => {
+      (await loader.selectNodesForViewport(viewport)).forEach((node) => loader.queueNode(node));
+      await loader.loadQueuedNodes();
+      await vi.waitFor(() => expect(loader.isLoading()).toBe(false));
+    };
+
+    // South-west quadrant: root and south-west child fill the budget
+    await load(viewportFor([0, 0, 0.0005, 0.0005]));
+    expect(loader.getLoadedPointCount()).toBe(2);
+
+    // North-east quadrant: the south-west child is evicted to make room
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await load(viewportFor([0.0015, 0.0015, 0.002, 0.002]));
+
+    const data = loader.getLoadedPointCloudData();
+    const xs = [0, 1].map((i) => Math.round((data.positions[i * 3] + data.coordinateOrigin[0]) * 1e6));
+    expect(data.pointCount).toBe(2);
+    expect(loader.getLoadedNodeCount()).toBe(2);
+    expect(xs.sort()).toEqual([1000, 1500]);
+    // Octree levels of the points move with them when the buffers are compacted
+    expect(Array.from(data.nodeDepths!)).toEqual([0, 1]);
+    expect(onBudgetReached).not.toHaveBeenCalled();
+    loader.destroy();
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { parseFilterExpression, getExpressionAttributes, compileFilterExpression } from '../src/lib/utils/expression';
+import type { PointCloudData } from '../src/lib/loaders/types';
+
+const data: PointCloudData = {
+  positions: new Float32Array([0, 0, 10, 0, 0, 20, 0, 0, 30, 0, 0, 40]),
+  coordinateOrigin: [10, 50, 0],
+  intensities: new Float32Array([0.1, 0.5, 0.9, 0.4]),
+  classifications: new Uint8Array([2, 2, 6, 2]),
+  extraAttributes: {
+    ReturnNumber: new Uint8Array([1, 2, 1, 1]),
+    NumberOfReturns: new Uint8Array([1, 2, 1, 2]),
+    'Echo Width': new Float32Array([1, 2, 3, 4]),
+  },
+  pointCount: 4,
+  bounds: { minX: 10, minY: 50, minZ: 10, maxX: 10, maxY: 50, maxZ: 40 },
+  hasRGB: false,
+  hasIntensity: true,
+  hasClassification: true,
+};
+
+/**
+ * Gets the indices of the points passing an expression.
+ */
+function passing(expression: string): number[] {
+  const passes = compileFilterExpression(expression, data);
+  return [0, 1, 2, 3].filter((i) => passes(i));
+}
+
+describe('parseFilterExpression', () => {
+  it('should parse operators by precedence', () => {
+    const node = parseFilterExpression('A == 1 || B > 2 * -C && !D');
+    expect(node).toMatchObject({
+      type: 'binary',
+      operator: '||',
+      right: {
+        operator: '&&',
+        left: { operator: '>', right: { operator: '*', right: { type: 'unary', operator: '-' } } },
+        right: { type: 'unary', operator: '!' },
+      },
+    });
+    expect(getExpressionAttributes(node)).toEqual(['A', 'B', 'C', 'D']);
+  });
+
+  it('should report the position of syntax errors', () => {
+    expect(() => parseFilterExpression('Classification == ')).toThrow('Unexpected end of expression at position 19');
+    expect(() => parseFilterExpression('(Intensity > 0.3')).toThrow('at position 17');
+    expect(() => parseFilterExpression('Intensity = 1')).toThrow('Unexpected character "=" at position 11');
+    expect(() => parseFilterExpression('Intensity; alert(1)')).toThrow('position 10');
+    expect(() => parseFilterExpression('  ')).toThrow('Empty expression');
+  });
+});
+
+describe('compileFilterExpression', () => {
+  it('should filter points by their attributes', () => {
+    expect(passing('Classification == 2 && ReturnNumber == NumberOfReturns && Intensity > 0.3')).toEqual([1]);
+    expect(passing('LastReturn || Z >= 40')).toEqual([0, 1, 2, 3]);
+    expect(passing('!(Z > 15 && Z < 35) && `Echo Width` % 2 == 0')).toEqual([3]);
+    expect(passing('X == 10 && Y == 50 && Z - 10 * 2 == 0')).toEqual([1]);
+  });
+
+  it('should not pass points on attributes the point cloud does not have', () => {
+    expect(passing('GpsTime > 0')).toEqual([]);
+    expect(passing('Red >= 0 || Classification == 6')).toEqual([2]);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { LidarControl } from '../src/lib/core/LidarControl';
+import type { LidarControlEvent } from '../src/lib/core/types';
+
+describe('LidarControl GPS time playback', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should throttle style and state events while the window plays', () => {
+    const frames: FrameRequestCallback[] = [];
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => frames.push(callback));
+    vi.stubGlobal('cancelAnimationFrame', () => {});
+
+    const control = new LidarControl();
+    vi.spyOn(control, 'getAttributeRange').mockReturnValue({ min: 0, max: 300 });
+    control.setGpsTimeWindow(0, 30);
+
+    const counts: Partial<Record<LidarControlEvent, number>> = {};
+    for (const event of ['gpstimechange', 'stylechange', 'statechange'] as const) {
+      control.on(event, () => {
+        counts[event] = (counts[event] ?? 0) + 1;
+      });
+    }
+
+    // One second of frames at 60 frames per second
+    control.playGpsTime();
+    counts.statechange = 0;
+    for (let frame = 0; frame < 60; frame++) {
+      frames.shift()!(frame * (1000 / 60));
+    }
+    expect(counts).toEqual({ gpstimechange: 60, stylechange: 4, statechange: 4 });
+    // At speed 1, the window crosses the GPS times in 30 seconds
+    expect(control.getGpsTimeWindow()![0]).toBeCloseTo(10 * (59 / 60), 6);
+
+    // Pausing reports where the window stopped
+    control.pauseGpsTime();
+    expect(counts).toEqual({ gpstimechange: 60, stylechange: 5, statechange: 5 });
+  });
+});
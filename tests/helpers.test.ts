@@ -6,7 +6,10 @@ import {
   classNames,
   formatNumber,
   formatBytes,
+  formatGpsTime,
   getFilename,
+  getRetryDelay,
+  wait,
 } from '../src/lib/utils/helpers';
 
 describe('clamp', () => {
@@ -110,6 +113,16 @@ describe('formatBytes', () => {
   });
 });
 
+describe('formatGpsTime', () => {
+  it('should format GPS seconds since the GPS epoch as UTC dates', () => {
+    expect(formatGpsTime(1388102418)).toBe('2024-01-01 00:00:00');
+  });
+
+  it('should format GPS week seconds as seconds', () => {
+    expect(formatGpsTime(403200.5)).toBe('403200.500000');
+  });
+});
+
 describe('getFilename', () => {
   it('should extract filename from path', () => {
     expect(getFilename('/path/to/file.laz')).toBe('file.laz');
@@ -125,3 +138,26 @@ describe('getFilename', () => {
     expect(getFilename('file.laz')).toBe('file.laz');
   });
 });
+
+describe('getRetryDelay', () => {
+  it('should double the delay after each attempt', () => {
+    expect(getRetryDelay(1, 1000)).toBe(1000);
+    expect(getRetryDelay(2, 1000)).toBe(2000);
+    expect(getRetryDelay(4, 1000)).toBe(8000);
+  });
+
+  it('should cap the delay', () => {
+    expect(getRetryDelay(20, 1000)).toBe(60000);
+    expect(getRetryDelay(5, 1000, 5000)).toBe(5000);
+  });
+});
+
+describe('wait', () => {
+  it('should reject when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const waiting = wait(60_000, controller.signal);
+    controller.abort();
+    await expect(waiting).rejects.toMatchObject({ name: 'AbortError' });
+    await expect(wait(0, controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
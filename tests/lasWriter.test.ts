@@ -0,0 +1,231 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Map as MapLibreMap } from 'maplibre-gl';
+import { Las } from 'copc';
+import { LasWriter, WGS84_WKT } from '../src/lib/exporters/LasWriter';
+import { LidarControl } from '../src/lib/core/LidarControl';
+import type { PointCloudData } from '../src/lib/loaders/types';
+
+const UTM_33N_WKT =
+  'PROJCS["WGS 84 / UTM zone 33N",GEOGCS["WGS 84",DATUM["WGS_1984",SPHEROID["WGS 84",6378137,298.257223563]],' +
+  'PRIMEM["Greenwich",0],UNIT["degree",0.0174532925199433]],PROJECTION["Transverse_Mercator"],' +
+  'PARAMETER["latitude_of_origin",0],PARAMETER["central_meridian",15],PARAMETER["scale_factor",0.9996],' +
+  'PARAMETER["false_easting",500000],PARAMETER["false_northing",0],UNIT["metre",1],AUTHORITY["EPSG","32633"]]';
+
+vi.mock('@deck.gl/mapbox', () => ({
+  MapboxOverlay: class {
+    setProps(): void {}
+    finalize(): void {}
+  },
+}));
+
+function createData(): PointCloudData {
+  return {
+    positions: new Float32Array([0, 0, 10, 1.5, -2.25, 20]),
+    coordinateOrigin: [500000, 4000000, 0],
+    colors: new Uint8Array([255, 0, 0, 255, 0, 128, 255, 255]),
+    intensities: new Float32Array([0, 1]),
+    classifications: new Uint8Array([2, 6]),
+    extraAttributes: {
+      GpsTime: new Float64Array([1000.5, 1001.25]),
+      ReturnNumber: new Uint8Array([1, 2]),
+      NumberOfReturns: new Uint8Array([2, 2]),
+      Reflectance: new Float32Array([0.25, 0.75]),
+    },
+    pointCount: 2,
+    bounds: { minX: 500000, maxX: 500001.5, minY: 3999997.75, maxY: 4000000, minZ: 10, maxZ: 20 },
+    hasRGB: true,
+    hasIntensity: true,
+    hasClassification: true,
+  };
+}
+
+/**
+ * Reads the contents of a Blob.
+ */
+function readBlob(blob: Blob): Promise<ArrayBuffer> {
+  // jsdom blobs have no arrayBuffer()
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+/**
+ * Reads the header of a LAS file.
+ */
+async function readHeader(blob: Blob): Promise<Las.Header> {
+  const bytes = new Uint8Array(await readBlob(blob));
+  return Las.Header.parse(bytes.subarray(0, Las.Constants.minHeaderLength));
+}
+
+/**
+ * Reads the points and the WKT of a LAS file.
+ */
+async function readLas(buffer: ArrayBuffer): Promise<{ header: Las.Header; view: Las.View; wkt: string | undefined }> {
+  const bytes = new Uint8Array(buffer);
+  const header = Las.Header.parse(bytes.subarray(0, Las.Constants.minHeaderLength));
+  const view = Las.View.create(bytes.subarray(header.pointDataOffset), header);
+  const vlrs = await Las.Vlr.walk(async (begin, end) => bytes.subarray(begin, end), header);
+  const wktVlr = Las.Vlr.find(vlrs, 'LASF_Projection', 2112);
+  const wkt = wktVlr
+    ? new TextDecoder().decode(bytes.subarray(wktVlr.contentOffset, wktVlr.contentOffset + wktVlr.contentLength - 1))
+    : undefined;
+  return { header, view, wkt };
+}
+
+/**
+ * Adds a control to a minimal map stand-in.
+ */
+function addToMap(control: LidarControl): void {
+  const map = {
+    getContainer: () => document.createElement('div'),
+    addControl: vi.fn(),
+    removeControl: vi.fn(),
+    on: vi.fn(),
+    off: vi.fn(),
+    triggerRepaint: vi.fn(),
+  };
+  control.onAdd(map as unknown as MapLibreMap);
+}
+
+/**
+ * Loads a delimited text point cloud into a control.
+ */
+async function loadText(control: LidarControl, text: string): Promise<string> {
+  const info = await control.loadPointCloud(new TextEncoder().encode(text).buffer, { format: 'xyz' });
+  return info.id;
+}
+
+describe('LasWriter', () => {
+  it('should write a LAS 1.4 header with point format 7 when RGB is present', () => {
+    const buffer = new LasWriter().write(createData());
+    const header = Las.Header.parse(new Uint8Array(buffer, 0, Las.Constants.minHeaderLength));
+
+    expect(header.majorVersion).toBe(1);
+    expect(header.minorVersion).toBe(4);
+    expect(header.pointDataRecordFormat).toBe(7);
+    // 36 bytes for format 7 plus 4 extra bytes for the Float32 attribute
+    expect(header.pointDataRecordLength).toBe(40);
+    expect(header.pointCount).toBe(2);
+    expect(header.vlrCount).toBe(1);
+    expect(header.pointCountByReturn.slice(0, 2)).toEqual([1, 1]);
+    expect(header.min).toEqual([500000, 3999997.75, 10]);
+    expect(header.max).toEqual([500001.5, 4000000, 20]);
+  });
+
+  it('should round-trip point attributes', () => {
+    const buffer = new LasWriter().write(createData());
+    const bytes = new Uint8Array(buffer);
+    const header = Las.Header.parse(bytes.subarray(0, Las.Constants.minHeaderLength));
+    const view = Las.View.create(bytes.subarray(header.pointDataOffset), header);
+
+    expect(view.getter('X')(1)).toBeCloseTo(500001.5, 3);
+    expect(view.getter('Y')(1)).toBeCloseTo(3999997.75, 3);
+    expect(view.getter('Z')(1)).toBeCloseTo(20, 3);
+    expect(view.getter('Intensity')(1)).toBe(65535);
+    expect(view.getter('Classification')(0)).toBe(2);
+    expect(view.getter('Classification')(1)).toBe(6);
+    expect(view.getter('ReturnNumber')(1)).toBe(2);
+    expect(view.getter('NumberOfReturns')(1)).toBe(2);
+    expect(view.getter('GpsTime')(0)).toBe(1000.5);
+    expect(view.getter('Red')(0)).toBe(65535);
+    expect(view.getter('Green')(1)).toBe(128 * 257);
+  });
+
+  it('should reproject positions to a projected CRS', async () => {
+    const data: PointCloudData = {
+      ...createData(),
+      positions: new Float32Array([0, 0, 10, 0.01, 0.01, 20]),
+      coordinateOrigin: [15, 52, 0],
+      bounds: { minX: 15, maxX: 15.01, minY: 52, maxY: 52.01, minZ: 10, maxZ: 20 },
+      wkt: UTM_33N_WKT,
+    };
+    const { header, view, wkt } = await readLas(new LasWriter().write(data));
+
+    expect(wkt).toBe(UTM_33N_WKT);
+    expect(header.scale).toEqual([0.001, 0.001, 0.001]);
+    // 15°E is the central meridian of the zone
+    expect(view.getter('X')(0)).toBeCloseTo(500000, 2);
+    expect(view.getter('Y')(0)).toBeCloseTo(5761038.213, 2);
+    expect(view.getter('X')(1)).toBeCloseTo(500686.352, 1);
+    expect(view.getter('Y')(1)).toBeCloseTo(5762150.489, 1);
+    expect(view.getter('Z')(1)).toBeCloseTo(20, 3);
+  });
+});
+
+describe('LidarControl export', () => {
+  beforeEach(() => {
+    // jsdom has neither ResizeObserver nor 2D canvas contexts, which the panel uses
+    vi.stubGlobal('ResizeObserver', class {
+      observe(): void {}
+      disconnect(): void {}
+    });
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should reject LAZ filenames', () => {
+    const control = new LidarControl();
+    expect(() => control.downloadPointCloud({}, 'clip.LAZ')).toThrow(/LAZ export is not supported/);
+  });
+
+  it('should filter each point cloud by its own elevation range', async () => {
+    const control = new LidarControl({ autoZoom: false });
+    addToMap(control);
+    const points = 'x,y,z\n10,50,10\n10.001,50,20\n10.002,50,30\n';
+    const first = await loadText(control, points);
+    const second = await loadText(control, points);
+    control.setElevationRange(0, 25);
+    control.setPointCloudStyle(second, { elevationRange: [15, 35] });
+
+    expect((await readHeader(control.exportPointCloud({ id: first, applyFilters: true }))).pointCount).toBe(2);
+    const secondHeader = await readHeader(control.exportPointCloud({ id: second, applyFilters: true }));
+    expect(secondHeader.pointCount).toBe(2);
+    expect(secondHeader.min[2]).toBeCloseTo(20, 3);
+
+    // Merged exports apply the style of each point cloud before merging
+    const merged = await readHeader(control.exportPointCloud({ applyFilters: true }));
+    expect(merged.pointCount).toBe(4);
+    expect(merged.min[2]).toBeCloseTo(10, 3);
+    expect(merged.max[2]).toBeCloseTo(30, 3);
+    expect((await readHeader(control.exportPointCloud())).pointCount).toBe(6);
+  });
+
+  it('should write merged point clouds in different CRSs in WGS84', async () => {
+    const control = new LidarControl({ autoZoom: false });
+    addToMap(control);
+    await control.loadPointCloud(new TextEncoder().encode('x,y,z\n500000,5761038.213,10\n').buffer, {
+      format: 'xyz',
+      crs: UTM_33N_WKT,
+    });
+    await loadText(control, 'x,y,z\n15.01,52.01,20\n');
+
+    const { header, view, wkt } = await readLas(await readBlob(control.exportPointCloud()));
+    expect(wkt).toBe(WGS84_WKT);
+    expect(header.scale).toEqual([1e-7, 1e-7, 0.001]);
+    expect(view.getter('X')(0)).toBeCloseTo(15, 6);
+    expect(view.getter('Y')(0)).toBeCloseTo(52, 6);
+    expect(view.getter('X')(1)).toBeCloseTo(15.01, 6);
+    expect(view.getter('Y')(1)).toBeCloseTo(52.01, 6);
+  });
+
+  it('should ignore attribute filters for point clouds without the attribute when merging', async () => {
+    const control = new LidarControl({ autoZoom: false });
+    addToMap(control);
+    await loadText(control, 'x,y,z,ScanAngle\n10,50,10,-20\n10.001,50,20,0\n10.002,50,30,20\n');
+    await loadText(control, 'x,y,z\n11,50,10\n11.001,50,20\n');
+    control.setAttributeFilter('ScanAngle', [10, 30]);
+
+    // Merging zero-fills ScanAngle for the second point cloud, whose points must be kept
+    const merged = await readHeader(control.exportPointCloud({ applyFilters: true }));
+    expect(merged.pointCount).toBe(3);
+    expect(merged.min[0]).toBeCloseTo(10.002, 6);
+    expect(merged.max[0]).toBeCloseTo(11.001, 6);
+  });
+});
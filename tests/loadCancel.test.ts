@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { PointCloudLoader } from '../src/lib/loaders/PointCloudLoader';
+import { PotreeStreamingLoader } from '../src/lib/loaders/PotreeStreamingLoader';
+import { LidarControl } from '../src/lib/core/LidarControl';
+import { isAbortError } from '../src/lib/utils/helpers';
+import type { Map as MapLibreMap } from 'maplibre-gl';
+
+function encode(text: string): ArrayBuffer {
+  return new TextEncoder().encode(text).buffer as ArrayBuffer;
+}
+
+describe('Load cancellation', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    document.body.innerHTML = '';
+  });
+
+  it('should reject with an AbortError when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const error = await new PointCloudLoader()
+      .load('https://example.com/points.xyz', undefined, { signal: controller.signal })
+      .catch((err) => err);
+    expect(isAbortError(error)).toBe(true);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should stop decoding at the next chunk when aborted during a load', async () => {
+    const controller = new AbortController();
+    const onProgress = vi.fn();
+
+    const promise = new PointCloudLoader().load(
+      encode('x y z\n-122.5 45.5 10\n-122.4 45.6 20\n'),
+      onProgress,
+      { format: 'xyz', signal: controller.signal }
+    );
+    controller.abort();
+
+    const error = await promise.catch((err) => err);
+    expect(isAbortError(error)).toBe(true);
+    expect(onProgress).not.toHaveBeenCalledWith(100, expect.anything());
+  });
+
+  it('should abort pending streaming requests when the loader is destroyed', async () => {
+    vi.stubGlobal('fetch', vi.fn((_url: string, init?: RequestInit) => new Promise((_, reject) => {
+      init?.signal?.addEventListener('abort', () => {
+        reject(new DOMException('The operation was aborted.', 'AbortError'));
+      });
+    })));
+
+    const loader = new PotreeStreamingLoader('https://example.com/pc/metadata.json');
+    const promise = loader.initialize();
+    loader.destroy();
+
+    const error = await promise.catch((err) => err);
+    expect(isAbortError(error)).toBe(true);
+  });
+
+  it('should not leave unhandled rejections when a load started in the panel is cancelled', async () => {
+    // jsdom has neither ResizeObserver nor 2D canvas contexts, which the panel uses
+    vi.stubGlobal('ResizeObserver', class {
+      observe(): void {}
+      disconnect(): void {}
+    });
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+    vi.stubGlobal('fetch', vi.fn((_url: string, init?: RequestInit) => new Promise((_, reject) => {
+      init?.signal?.addEventListener('abort', () => {
+        reject(new DOMException('The operation was aborted.', 'AbortError'));
+      });
+    })));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const unhandled = vi.fn();
+    process.on('unhandledRejection', unhandled);
+
+    const control = new LidarControl({ collapsed: false });
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    const map = {
+      getContainer: () => container,
+      addControl: vi.fn(),
+      removeControl: vi.fn(),
+      on: vi.fn(),
+      off: vi.fn(),
+      triggerRepaint: vi.fn(),
+    };
+    control.onAdd(map as unknown as MapLibreMap);
+    const onCancel = vi.fn();
+    control.on('loadcancel', onCancel);
+
+    const urlInput = container.querySelector<HTMLInputElement>('input.lidar-control-input[type="text"]')!;
+    urlInput.value = 'https://example.com/points.las';
+    container.querySelector<HTMLButtonElement>('button.lidar-control-button')!.click();
+    await vi.waitFor(() => expect(container.querySelector('.lidar-loading-cancel')).not.toBeNull());
+    container.querySelector<HTMLButtonElement>('.lidar-loading-cancel')!.click();
+
+    await vi.waitFor(() => expect(onCancel).toHaveBeenCalledTimes(1));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    process.off('unhandledRejection', unhandled);
+    expect(unhandled).not.toHaveBeenCalled();
+    expect(warn).not.toHaveBeenCalledWith('Failed to load point cloud:', expect.anything());
+    expect(control.getState().loading).toBe(false);
+    control.onRemove();
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { computeScreenSpaceError, boundsIntersectsFootprint } from '../src/lib/utils/lod';
+import { EptStreamingLoader } from '../src/lib/loaders/EptStreamingLoader';
+import type { ViewportCamera, ViewportInfo } from '../src/lib/loaders/streaming-types';
+
+const bounds = { minX: 0, minY: 0, minZ: 0, maxX: 0.001, maxY: 0.001, maxZ: 0 };
+
+describe('computeScreenSpaceError', () => {
+  it('should decrease with the distance to the camera', () => {
+    const near: ViewportCamera = { position: [0, 0, 100], footprint: [], projectionFactor: 1000 };
+    const far: ViewportCamera = { position: [0, 0, 1000], footprint: [], projectionFactor: 1000 };
+
+    // ~111 m node with 100 spacings across: ~1.1 m spacing
+    expect(computeScreenSpaceError(bounds, 100, near)).toBeCloseTo(11.13, 1);
+    expect(computeScreenSpaceError(bounds, 100, far)).toBeCloseTo(1.113, 2);
+  });
+
+  it('should measure the distance to the closest point of the node', () => {
+    const camera: ViewportCamera = { position: [0.002, 0.0005, 0], footprint: [], projectionFactor: 1000 };
+    // The camera is ~111 m east of the node's east edge
+    expect(computeScreenSpaceError(bounds, 100, camera)).toBeCloseTo(10, 0);
+  });
+});
+
+describe('boundsIntersectsFootprint', () => {
+  // Pitched view: a trapezoid that is wider far from the camera
+  const footprint: [number, number][] = [[-0.01, 0.01], [0.01, 0.01], [0.002, 0], [-0.002, 0]];
+
+  it('should accept bounds inside the footprint', () => {
+    expect(boundsIntersectsFootprint(bounds, footprint)).toBe(true);
+  });
+
+  it('should reject bounds outside the footprint but inside its bounding box', () => {
+    const corner = { ...bounds, minX: 0.008, maxX: 0.009, minY: 0, maxY: 0.001 };
+    expect(boundsIntersectsFootprint(corner, footprint)).toBe(false);
+  });
+});
+
+describe('EptStreamingLoader screen-space error selection', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should load more detail close to the camera', async () => {
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      if (url.endsWith('ept.json')) {
+        return new Response(JSON.stringify({
+          bounds: [0, 0, 0, 0.002, 0.002, 0.002],
+          boundsConforming: [0, 0, 0, 0.002, 0.002, 0.002],
+          dataType: 'binary',
+          hierarchyType: 'json',
+          numPoints: 3,
+          schema: [
+            { name: 'X', type: 'signed', size: 4, scale: 0.000001, offset: 0 },
+            { name: 'Y', type: 'signed', size: 4, scale: 0.000001, offset: 0 },
+            { name: 'Z', type: 'signed', size: 4, scale: 0.000001, offset: 0 },
+          ],
+          span: 128,
+          srs: {},
+          version: '1.0.0',
+        }));
+      }
+      return new Response(JSON.stringify({ '0-0-0-0': 1, '1-0-0-0': 1, '1-1-1-0': 1 }));
+    }));
+
+    const loader = new EptStreamingLoader('https://example.com/ept/ept.json', { screenSpaceErrorThreshold: 1.2 });
+    await loader.initialize();
+
+    // Camera 100 m above the south-west corner: the south-west child is close, the north-east one is not
+    const viewport: ViewportInfo = {
+      bounds: [0, 0, 0.002, 0.002],
+      center: [0.001, 0.001],
+      zoom: 18,
+      pitch: 60,
+      targetDepth: 0,
+      camera: {
+        position: [0, 0, 100],
+        footprint: [[0, 0], [0.002, 0], [0.002, 0.002], [0, 0.002]],
+        projectionFactor: 100,
+      },
+    };
+    const nodes = await loader.selectNodesForViewport(viewport);
+    expect(nodes.map((node) => node.key).sort()).toEqual(['0-0-0-0', '1-0-0-0']);
+
+    // Without a camera, nodes are selected by target depth
+    const depthNodes = await loader.selectNodesForViewport({ ...viewport, camera: undefined });
+    expect(depthNodes.map((node) => node.key).sort()).toEqual(['0-0-0-0', '1-0-0-0', '1-1-1-0']);
+    loader.destroy();
+  });
+});
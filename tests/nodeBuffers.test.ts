@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { compactNodeBuffers, selectNodesToEvict } from '../src/lib/loaders/NodeBuffers';
+import type { NodePointBuffers } from '../src/lib/loaders/NodeBuffers';
+import type { NodeState } from '../src/lib/loaders/streaming-types';
+
+interface TestNode {
+  key: string;
+  state: NodeState;
+  pointCount: number;
+  bufferStartIndex?: number;
+  lastVisibleAt?: number;
+}
+
+/**
+ * Creates buffers for 6 points whose values are their indices.
+ */
+function createBuffers(): NodePointBuffers {
+  return {
+    positions: new Float32Array(18).map((_, i) => Math.floor(i / 3)),
+    colors: new Uint8Array(24).map((_, i) => Math.floor(i / 4)),
+    intensities: new Float32Array([0, 1, 2, 3, 4, 5]),
+    classifications: new Uint8Array([0, 1, 2, 3, 4, 5]),
+    nodeDepths: new Uint8Array([0, 1, 2, 3, 4, 5]),
+    extraAttributes: { GpsTime: new Float64Array([0, 1, 2, 3, 4, 5]) },
+  };
+}
+
+describe('compactNodeBuffers', () => {
+  it('should move the points of loaded nodes into the gaps before them', () => {
+    const buffers = createBuffers();
+    // Points 0-1 were evicted and point 4 belongs to a failed node
+    const nodes: TestNode[] = [
+      { key: 'a', state: 'pending', pointCount: 2 },
+      { key: 'c', state: 'loaded', pointCount: 1, bufferStartIndex: 5 },
+      { key: 'b', state: 'loaded', pointCount: 2, bufferStartIndex: 2 },
+    ];
+
+    expect(compactNodeBuffers(nodes, buffers)).toEqual({ pointCount: 3, nodeCount: 2 });
+    expect(nodes.map((node) => node.bufferStartIndex)).toEqual([undefined, 2, 0]);
+    expect(Array.from(buffers.positions!.subarray(0, 9))).toEqual([2, 2, 2, 3, 3, 3, 5, 5, 5]);
+    expect(Array.from(buffers.colors!.subarray(0, 12))).toEqual([2, 2, 2, 2, 3, 3, 3, 3, 5, 5, 5, 5]);
+    for (const values of [buffers.intensities!, buffers.classifications!, buffers.nodeDepths!, buffers.extraAttributes.GpsTime]) {
+      expect(Array.from(values.subarray(0, 3))).toEqual([2, 3, 5]);
+    }
+  });
+
+  it('should leave buffers without gaps unchanged', () => {
+    const buffers = { ...createBuffers(), colors: null };
+    const nodes: TestNode[] = [
+      { key: 'a', state: 'loaded', pointCount: 2, bufferStartIndex: 0 },
+      { key: 'b', state: 'loaded', pointCount: 4, bufferStartIndex: 2 },
+    ];
+
+    expect(compactNodeBuffers(nodes, buffers)).toEqual({ pointCount: 6, nodeCount: 2 });
+    expect(buffers.positions).toEqual(createBuffers().positions);
+  });
+});
+
+describe('selectNodesToEvict', () => {
+  const nodes: TestNode[] = [
+    { key: 'visible', state: 'loaded', pointCount: 10, lastVisibleAt: 30 },
+    { key: 'recent', state: 'loaded', pointCount: 2, lastVisibleAt: 20 },
+    { key: 'oldest', state: 'loaded', pointCount: 2, lastVisibleAt: 10 },
+    { key: 'loading', state: 'loading', pointCount: 10 },
+  ];
+
+  it('should evict the least recently visible loaded nodes first', () => {
+    expect(selectNodesToEvict(nodes, 1, 30)?.map((node) => node.key)).toEqual(['oldest']);
+    expect(selectNodesToEvict(nodes, 3, 30)?.map((node) => node.key)).toEqual(['oldest', 'recent']);
+  });
+
+  it('should not evict nodes visible in the last selected viewport', () => {
+    expect(selectNodesToEvict(nodes, 5, 30)).toBeNull();
+    expect(selectNodesToEvict(nodes, 5, 31)?.map((node) => node.key)).toEqual(['oldest', 'recent', 'visible']);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { NodeRetrier } from '../src/lib/loaders/NodeRetrier';
+import type { NodeState } from '../src/lib/loaders/streaming-types';
+
+interface TestNode {
+  key: string;
+  state: NodeState;
+  error?: string;
+  retryCount?: number;
+  lastFailedAt?: number;
+}
+
+/**
+ * Creates a retrier with spied callbacks.
+ */
+function createRetrier(retryFailedOnView = false) {
+  const retry = vi.fn();
+  const onFailed = vi.fn();
+  const retrier = new NodeRetrier<TestNode>({
+    getOptions: () => ({ maxRetries: 2, retryDelayMs: 1000, retryFailedOnView }),
+    nodeLabel: 'node',
+    retry,
+    onFailed,
+  });
+  return { retrier, retry, onFailed };
+}
+
+describe('NodeRetrier', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should retry with backoff until maxRetries is reached', () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { retrier, retry, onFailed } = createRetrier();
+    const node: TestNode = { key: '0-0-0-0', state: 'loading' };
+
+    retrier.handleFailure(node, new Error('Network error'));
+    expect(node).toMatchObject({ state: 'pending', retryCount: 1, error: 'Network error' });
+    expect(retrier.canRetry(node, true, node.lastFailedAt! + 999)).toBe(false);
+    vi.advanceTimersByTime(1000);
+    expect(retry).toHaveBeenCalledWith(node);
+
+    // The delay doubles after the second failure
+    retrier.handleFailure(node, new Error('Network error'));
+    expect(retrier.canRetry(node, true, node.lastFailedAt! + 1999)).toBe(false);
+    expect(retrier.canRetry(node, true, node.lastFailedAt! + 2000)).toBe(true);
+
+    retrier.handleFailure(node, new Error('Network error'));
+    expect(node.state).toBe('error');
+    expect(onFailed).toHaveBeenCalledWith(node);
+    expect(retrier.getFailedNodes([node])).toEqual([{ key: '0-0-0-0', error: 'Network error', attempts: 3 }]);
+  });
+
+  it('should cancel scheduled retries when destroyed', () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { retrier, retry } = createRetrier();
+    retrier.handleFailure({ key: '0-0-0-0', state: 'loading' }, new Error('Network error'));
+
+    retrier.destroy();
+    vi.advanceTimersByTime(60_000);
+    expect(retry).not.toHaveBeenCalled();
+  });
+
+  it('should reset failed nodes that come back into view with retryFailedOnView', () => {
+    const { retrier } = createRetrier(true);
+    const node: TestNode = { key: '0-0-0-0', state: 'error', error: 'Network error', retryCount: 3, lastFailedAt: 0 };
+
+    expect(retrier.canRetry(node, true, 0)).toBe(false);
+    expect(retrier.canRetry(node, false, 0)).toBe(false);
+    expect(retrier.canRetry(node, true, 0)).toBe(true);
+    expect(node).toMatchObject({ state: 'pending', error: undefined, retryCount: undefined });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { estimateNormals } from '../src/lib/workers/NormalEstimator';
+import { getNormalAngles } from '../src/lib/colorizers/ColorScheme';
+
+// Degrees per meter at the equator
+const DEGREES_PER_METER = 1 / 111319.49;
+
+/**
+ * Creates a grid of points on a plane rising by `rise` meters per meter towards `direction`.
+ */
+function createSlope(rise: number, direction: [number, number], size = 20): Float32Array {
+  const positions = new Float32Array(size * size * 3);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const i = (y * size + x) * 3;
+      positions[i] = x * DEGREES_PER_METER;
+      positions[i + 1] = y * DEGREES_PER_METER;
+      positions[i + 2] = (x * direction[0] + y * direction[1]) * rise;
+    }
+  }
+  return positions;
+}
+
+describe('estimateNormals', () => {
+  it('should estimate upward normals of flat ground', () => {
+    const normals = estimateNormals({
+      type: 'normals',
+      positions: createSlope(0, [1, 0]),
+      coordinateOrigin: [0, 0, 0],
+      neighborCount: 16,
+    });
+
+    expect(normals).toHaveLength(20 * 20 * 3);
+    for (let i = 0; i < normals.length; i += 3) {
+      expect(normals[i + 2]).toBeCloseTo(1);
+    }
+  });
+
+  it('should estimate normals of a slope facing away from its rise', () => {
+    // Rises 1 m per meter to the east, so it faces west at 45 degrees
+    const normals = estimateNormals({
+      type: 'normals',
+      positions: createSlope(1, [1, 0]),
+      coordinateOrigin: [0, 0, 0],
+      neighborCount: 12,
+    });
+
+    const center = (10 * 20 + 10) * 3;
+    expect(normals[center]).toBeCloseTo(-Math.SQRT1_2);
+    expect(normals[center + 1]).toBeCloseTo(0);
+    expect(normals[center + 2]).toBeCloseTo(Math.SQRT1_2);
+
+    const slopes = getNormalAngles(normals, 400, 'slope');
+    const aspects = getNormalAngles(normals, 400, 'aspect');
+    expect(slopes[210]).toBeCloseTo(45, 1);
+    expect(aspects[210]).toBeCloseTo(270, 1);
+  });
+
+  it('should give points without enough neighbors upward normals', () => {
+    const normals = estimateNormals({
+      type: 'normals',
+      positions: new Float32Array([0, 0, 0, DEGREES_PER_METER, 0, 5]),
+      coordinateOrigin: [0, 0, 0],
+      neighborCount: 16,
+    });
+
+    expect(Array.from(normals)).toEqual([0, 0, 1, 0, 0, 1]);
+  });
+});
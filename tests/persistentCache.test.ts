@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { PersistentNodeCache } from '../src/lib/cache/PersistentNodeCache';
+import { EptStreamingLoader } from '../src/lib/loaders/EptStreamingLoader';
+import type { ViewportInfo } from '../src/lib/loaders/streaming-types';
+
+const viewport: ViewportInfo = {
+  bounds: [0, 0, 0.002, 0.002],
+  center: [0.001, 0.001],
+  zoom: 18,
+  pitch: 0,
+  targetDepth: 5,
+};
+
+const eptJson = {
+  bounds: [0, 0, 0, 0.002, 0.002, 0.002],
+  boundsConforming: [0, 0, 0, 0.002, 0.002, 0.002],
+  dataType: 'binary',
+  hierarchyType: 'json',
+  numPoints: 1,
+  schema: [
+    { name: 'X', type: 'signed', size: 4, scale: 0.000001, offset: 0 },
+    { name: 'Y', type: 'signed', size: 4, scale: 0.000001, offset: 0 },
+    { name: 'Z', type: 'signed', size: 4, scale: 0.000001, offset: 0 },
+  ],
+  span: 128,
+  srs: {},
+  version: '1.0.0',
+};
+
+/**
+ * Creates the binary data of a single point.
+ */
+function pointData(x: number, y: number, z: number): ArrayBuffer {
+  const buffer = new ArrayBuffer(12);
+  const view = new DataView(buffer);
+  view.setInt32(0, x, true);
+  view.setInt32(4, y, true);
+  view.setInt32(8, z, true);
+  return buffer;
+}
+
+describe('PersistentNodeCache', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should behave as an empty cache when IndexedDB is unavailable', async () => {
+    vi.stubGlobal('indexedDB', undefined);
+    const cache = new PersistentNodeCache({ maxSizeBytes: 1000 });
+
+    expect(cache.isAvailable()).toBe(false);
+    await cache.put('https://example.com/pc.copc.laz', '0-0-0-0', null, new ArrayBuffer(8));
+    await expect(cache.get('https://example.com/pc.copc.laz', '0-0-0-0', null)).resolves.toBeNull();
+    await expect(cache.getUsage()).resolves.toEqual({ entries: 0, sizeBytes: 0, maxSizeBytes: 1000 });
+  });
+
+  it('should let EPT nodes be read from the cache and cache downloaded nodes', async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url.endsWith('ept.json')) {
+        return new Response(JSON.stringify(eptJson), { headers: { ETag: '"v1"' } });
+      }
+      if (url.endsWith('ept-hierarchy/0-0-0-0.json')) {
+        return new Response(JSON.stringify({ '0-0-0-0': 1 }));
+      }
+      return new Response(pointData(1000, 1000, 0));
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const cached = pointData(500, 500, 0);
+    const cache = new PersistentNodeCache();
+    const get = vi.spyOn(cache, 'get').mockResolvedValueOnce(null).mockResolvedValueOnce(cached);
+    const put = vi.spyOn(cache, 'put').mockResolvedValue();
+
+    // First session downloads the node and caches it under the dataset's ETag
+    const first = new EptStreamingLoader('https://example.com/ept/ept.json', { persistentCache: cache });
+    await first.initialize();
+    (await first.selectNodesForViewport(viewport)).forEach((node) => first.queueNode(node));
+    await first.loadQueuedNodes();
+    await vi.waitFor(() => expect(first.getLoadedNodeCount()).toBe(1));
+    expect(put).toHaveBeenCalledWith('https://example.com/ept', '0-0-0-0', '"v1"', expect.any(ArrayBuffer));
+    first.destroy();
+
+    // Second session reads it from the cache
+    fetchMock.mockClear();
+    const second = new EptStreamingLoader('https://example.com/ept/ept.json', { persistentCache: cache });
+    await second.initialize();
+    (await second.selectNodesForViewport(viewport)).forEach((node) => second.queueNode(node));
+    await second.loadQueuedNodes();
+    await vi.waitFor(() => expect(second.getLoadedNodeCount()).toBe(1));
+
+    expect(get).toHaveBeenLastCalledWith('https://example.com/ept', '0-0-0-0', '"v1"');
+    expect(fetchMock.mock.calls.some(([url]) => String(url).includes('ept-data'))).toBe(false);
+    const data = second.getLoadedPointCloudData();
+    expect(data.positions[0] + data.coordinateOrigin[0]).toBeCloseTo(0.0005, 9);
+    second.destroy();
+  });
+
+  it('should not cache nodes of datasets without a validator', async () => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    const dataset = 'https://example.com/pc.copc.laz';
+    const cache = new PersistentNodeCache();
+
+    // Changes of the dataset could not be detected, so its nodes would be served forever
+    await cache.put(dataset, '0-0-0-0', null, new ArrayBuffer(8));
+    await expect(cache.get(dataset, '0-0-0-0', null)).resolves.toBeNull();
+    await expect(cache.getUsage()).resolves.toMatchObject({ entries: 0, sizeBytes: 0 });
+  });
+
+  it('should evict the least recently used nodes when the quota is exceeded', async () => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    let now = 0;
+    vi.spyOn(Date, 'now').mockImplementation(() => ++now);
+    const dataset = 'https://example.com/pc.copc.laz';
+    const cache = new PersistentNodeCache({ maxSizeBytes: 20 });
+
+    await cache.put(dataset, '0-0-0-0', '"v1"', new ArrayBuffer(8));
+    await cache.put(dataset, '1-0-0-0', '"v1"', new ArrayBuffer(8));
+    // Reading the first node makes the second one the least recently used
+    await expect(cache.get(dataset, '0-0-0-0', '"v1"')).resolves.toHaveProperty('byteLength', 8);
+    await cache.put(dataset, '1-1-0-0', '"v1"', new ArrayBuffer(8));
+
+    await expect(cache.getUsage()).resolves.toEqual({ entries: 2, sizeBytes: 16, maxSizeBytes: 20 });
+    await expect(cache.get(dataset, '1-0-0-0', '"v1"')).resolves.toBeNull();
+    await expect(cache.get(dataset, '0-0-0-0', '"v1"')).resolves.not.toBeNull();
+    await expect(cache.get(dataset, '1-1-0-0', '"v1"')).resolves.not.toBeNull();
+
+    // The usage is read back from the database in a new session
+    cache.close();
+    await expect(new PersistentNodeCache({ maxSizeBytes: 20 }).getUsage()).resolves.toEqual({
+      entries: 2,
+      sizeBytes: 16,
+      maxSizeBytes: 20,
+    });
+  });
+
+  it('should download nodes again when the dataset changed between sessions', async () => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    let lastModified = 'Mon, 01 Jun 2026 00:00:00 GMT';
+    let x = 1000;
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url.endsWith('ept.json')) {
+        return new Response(JSON.stringify(eptJson), { headers: { 'Last-Modified': lastModified } });
+      }
+      if (url.endsWith('ept-hierarchy/0-0-0-0.json')) {
+        return new Response(JSON.stringify({ '0-0-0-0': 1 }));
+      }
+      return new Response(pointData(x, 1000, 0));
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    // Loads the root node in a new session with its own cache instance
+    const loadSession = async () => {
+      const cache = new PersistentNodeCache();
+      const loader = new EptStreamingLoader('https://example.com/ept/ept.json', { persistentCache: cache });
+      await loader.initialize();
+      (await loader.selectNodesForViewport(viewport)).forEach((node) => loader.queueNode(node));
+      await loader.loadQueuedNodes();
+      await vi.waitFor(() => expect(loader.getLoadedNodeCount()).toBe(1));
+      // Downloaded nodes are written in the background
+      await vi.waitFor(async () => expect((await cache.getUsage()).entries).toBe(1));
+      const data = loader.getLoadedPointCloudData();
+      loader.destroy();
+      cache.close();
+      return data.positions[0] + data.coordinateOrigin[0];
+    };
+    const nodeDownloads = () => fetchMock.mock.calls.filter(([url]) => String(url).includes('ept-data')).length;
+
+    expect(await loadSession()).toBeCloseTo(0.001, 9);
+    expect(nodeDownloads()).toBe(1);
+
+    // Same version: the node is read from the cache
+    expect(await loadSession()).toBeCloseTo(0.001, 9);
+    expect(nodeDownloads()).toBe(1);
+
+    // The dataset was modified: the cached node is discarded and downloaded again
+    lastModified = 'Tue, 02 Jun 2026 00:00:00 GMT';
+    x = 1500;
+    expect(await loadSession()).toBeCloseTo(0.0015, 9);
+    expect(nodeDownloads()).toBe(2);
+  });
+});
@@ -0,0 +1,259 @@
+import { describe, it, expect } from 'vitest';
+import type { Layer } from '@deck.gl/core';
+import { PointCloudManager } from '../src/lib/layers/PointCloudManager';
+import type { DeckOverlay } from '../src/lib/core/DeckOverlay';
+import type { PointCloudData } from '../src/lib/loaders/types';
+import type { ClipBox } from '../src/lib/core/types';
+
+/**
+ * Creates a deck overlay that records the layers added to it.
+ */
+function createOverlay(): { overlay: DeckOverlay; layers: Map<string, Layer> } {
+  const layers = new Map<string, Layer>();
+  const overlay = {
+    addLayer: (id: string, layer: Layer) => layers.set(id, layer),
+    removeLayer: (id: string) => layers.delete(id),
+  } as unknown as DeckOverlay;
+  return { overlay, layers };
+}
+
+const data: PointCloudData = {
+  positions: new Float32Array([0, 0, 10, 0.001, 0, 20, 0, 0.001, 30]),
+  coordinateOrigin: [10, 50, 0],
+  intensities: new Float32Array([0.1, 0.5, 0.9]),
+  classifications: new Uint8Array([2, 6, 2]),
+  extraAttributes: { ReturnNumber: new Uint8Array([1, 2, 1]) },
+  pointCount: 3,
+  bounds: { minX: 10, minY: 50, minZ: 10, maxX: 10.001, maxY: 50.001, maxZ: 30 },
+  hasRGB: false,
+  hasIntensity: true,
+  hasClassification: true,
+};
+
+describe('PointCloudManager', () => {
+  it('should filter points on the GPU without rebuilding the layer data', () => {
+    const { overlay, layers } = createOverlay();
+    const manager = new PointCloudManager(overlay);
+    manager.addPointCloud('pc', data);
+
+    const layerData = layers.get('pointcloud-pc-chunk0')?.props.data;
+    expect(layers.get('pointcloud-pc-chunk0')?.props.extensions).toHaveLength(0);
+
+    // Filtering by the same attributes only changes the filter range
+    manager.setElevationRange([15, 35]);
+    const filtered = layers.get('pointcloud-pc-chunk0')!;
+    expect(filtered.props.extensions).toHaveLength(1);
+    expect(filtered.props.filterRange).toEqual([15, 35]);
+    expect(filtered.props.data.attributes.getFilterValue.value).toEqual(new Float32Array([10, 20, 30]));
+    expect(filtered.props.data.attributes.getPosition).toBe(layerData.attributes.getPosition);
+
+    manager.setElevationRange([5, 25]);
+    expect(layers.get('pointcloud-pc-chunk0')?.props.data).toBe(filtered.props.data);
+
+    // Z offset is applied by the model matrix
+    manager.setZOffset(5);
+    expect(layers.get('pointcloud-pc-chunk0')?.props.data).toBe(filtered.props.data);
+    expect(Array.from(layers.get('pointcloud-pc-chunk0')!.props.modelMatrix!).slice(12)).toEqual([0, 0, 5, 1]);
+  });
+
+  it('should combine elevation, intensity and attribute ranges', () => {
+    const { overlay, layers } = createOverlay();
+    const manager = new PointCloudManager(overlay, {
+      elevationRange: [0, 100],
+      intensityRange: [0.2, 1],
+      attributeFilters: { ReturnNumber: [1, 1], Missing: [0, 1] },
+    });
+    manager.addPointCloud('pc', data);
+
+    const layer = layers.get('pointcloud-pc-chunk0')!;
+    expect(layer.props.filterRange).toEqual([[0, 100], [0.2, 1], [1, 1]]);
+    expect(layer.props.data.attributes.getFilterValue).toEqual({
+      value: new Float32Array([10, 0.1, 1, 20, 0.5, 2, 30, 0.9, 1].map(Math.fround)),
+      size: 3,
+    });
+  });
+
+  it('should combine attribute filters beyond the GPU filter size on the CPU', () => {
+    const { overlay, layers } = createOverlay();
+    const manager = new PointCloudManager(overlay, {
+      elevationRange: [0, 100],
+      intensityRange: [0, 1],
+      attributeFilters: { GpsTime: [1e9 + 0.5, 1e9 + 2], LastReturn: [1, 1], Classification: [2, 2] },
+    });
+    manager.addPointCloud('pc', {
+      ...data,
+      extraAttributes: {
+        ReturnNumber: new Uint8Array([1, 2, 1]),
+        NumberOfReturns: new Uint8Array([1, 2, 2]),
+        GpsTime: new Float64Array([1e9, 1e9 + 1, 1e9 + 2]),
+      },
+    });
+
+    // GPS times keep their precision relative to the first point's
+    const layer = layers.get('pointcloud-pc-chunk0')!;
+    expect(layer.props.filterRange).toEqual([[0, 100], [0, 1], [0.5, 2], [1, 1]]);
+    const values = layer.props.data.attributes.getFilterValue.value as Float32Array;
+    expect([2, 6, 10].map((i) => values[i])).toEqual([0, 1, 2]);
+
+    // The second point is not classified 2 and the third is not a last return
+    expect([3, 7, 11].map((i) => values[i])).toEqual([1, 0, 0]);
+  });
+
+  it('should filter points by a moving GPS time window on the GPU', () => {
+    const { overlay, layers } = createOverlay();
+    const manager = new PointCloudManager(overlay);
+    manager.addPointCloud('pc', { ...data, extraAttributes: { GpsTime: new Float64Array([1e9, 1e9 + 1, 1e9 + 2]) } });
+    manager.addPointCloud('other', data);
+    manager.setGpsTimeWindow([1e9 + 0.5, 1e9 + 1.5]);
+
+    // GPS times are filtered relative to the first point's to keep their precision
+    const layer = layers.get('pointcloud-pc-chunk0')!;
+    expect(layer.props.filterRange).toEqual([0.5, 1.5]);
+    expect(layer.props.data.attributes.getFilterValue.value).toEqual(new Float32Array([0, 1, 2]));
+    expect(layers.get('pointcloud-other-chunk0')?.props.extensions).toHaveLength(0);
+
+    // Moving the window keeps the layer data
+    manager.setGpsTimeWindow([1e9 + 1.5, 1e9 + 2.5]);
+    expect(layers.get('pointcloud-pc-chunk0')?.props.filterRange).toEqual([1.5, 2.5]);
+    expect(layers.get('pointcloud-pc-chunk0')?.props.data).toBe(layer.props.data);
+  });
+
+  it('should filter points by expression on the GPU and in merged data', () => {
+    const { overlay, layers } = createOverlay();
+    const manager = new PointCloudManager(overlay);
+    manager.addPointCloud('a', data);
+    manager.addPointCloud('b', data);
+    manager.setFilterExpression('Classification == 2 && Intensity > 0.3');
+
+    const layer = layers.get('pointcloud-a-chunk0')!;
+    expect(layer.props.filterRange).toEqual([1, 1]);
+    expect(layer.props.data.attributes.getFilterValue.value).toEqual(new Float32Array([0, 0, 1]));
+
+    const merged = manager.getMergedPointCloudData({ filterExpression: 'Classification == 2 && Intensity > 0.3' })!;
+    expect(merged.pointCount).toBe(2);
+    expect(Array.from(merged.positions.filter((_, i) => i % 3 === 2))).toEqual([30, 30]);
+    expect(manager.getMergedPointCloudData()!.pointCount).toBe(6);
+  });
+
+  it('should clip points by a 3D box on the GPU and in merged data', () => {
+    const { overlay, layers } = createOverlay();
+    const manager = new PointCloudManager(overlay);
+    manager.addPointCloud('pc', data);
+    const clipBox: ClipBox = {
+      center: [10, 50],
+      width: 200,
+      length: 100,
+      rotation: 0,
+      minZ: 15,
+      maxZ: 35,
+      mode: 'inside',
+      enabled: true,
+    };
+    manager.setClipBox(clipBox);
+
+    // The first point is below the box and the third is about 111 m north of its center
+    const layer = layers.get('pointcloud-pc-chunk0')!;
+    expect(layer.props.filterRange).toEqual([1, 1]);
+    expect(layer.props.data.attributes.getFilterValue.value).toEqual(new Float32Array([0, 1, 0]));
+
+    const merged = manager.getMergedPointCloudData({ clipBox })!;
+    expect(merged.pointCount).toBe(1);
+    expect(merged.positions[2]).toBe(20);
+  });
+
+  it('should hide classifications with the category filter', () => {
+    const { overlay, layers } = createOverlay();
+    const manager = new PointCloudManager(overlay, { colorScheme: 'classification' });
+    manager.addPointCloud('pc', data);
+    manager.setHiddenClassifications(new Set([6]));
+
+    const layer = layers.get('pointcloud-pc-chunk0')!;
+    expect(layer.props.extensions).toHaveLength(1);
+    expect(layer.props.filterCategories).toEqual([2]);
+
+    manager.setColorScheme('classificationIntensity');
+    expect(layers.get('pointcloud-pc-chunk0')?.props.filterCategories).toEqual([2]);
+  });
+
+  it('should style point clouds individually', () => {
+    const { overlay, layers } = createOverlay();
+    const manager = new PointCloudManager(overlay, { pointSize: 2 });
+    manager.setPointCloudStyle('b', { colorScheme: 'intensity', colormap: 'gray', zOffset: 10 });
+    manager.addPointCloud('a', data);
+    manager.addPointCloud('b', data);
+
+    manager.setPointSize(4);
+    const a = layers.get('pointcloud-a-chunk0')!;
+    const b = layers.get('pointcloud-b-chunk0')!;
+    expect(a.props.pointSize).toBe(4);
+    expect(b.props.pointSize).toBe(4);
+    expect(a.props.modelMatrix).toBeNull();
+    expect(Array.from(b.props.modelMatrix!).slice(12)).toEqual([0, 0, 10, 1]);
+    expect(a.props.data.attributes.getColor.value).not.toEqual(b.props.data.attributes.getColor.value);
+    expect(manager.getPointCloudStyle('b')).toMatchObject({ colorScheme: 'intensity', pointSize: 4, zOffset: 10 });
+
+    manager.clearPointCloudStyle('b');
+    expect(layers.get('pointcloud-b-chunk0')!.props.data.attributes.getColor.value)
+      .toEqual(a.props.data.attributes.getColor.value);
+  });
+
+  it('should size points in meters by the point spacing or the octree level of their node', () => {
+    const { overlay, layers } = createOverlay();
+    const manager = new PointCloudManager(overlay, { pointSize: 2, pointSizeMode: 'meters' });
+    manager.addPointCloud('pc', { ...data, spacing: 0.5, rootSpacing: 8, nodeDepths: new Uint8Array([0, 1, 3]) });
+
+    const layer = layers.get('pointcloud-pc-chunk0')!;
+    expect(layer.props.sizeUnits).toBe('meters');
+    expect(layer.props.pointSize).toBe(0.5);
+    expect(layer.props.extensions).toHaveLength(1);
+    expect(layer.props.pointSizeMinPixels).toBe(1);
+    expect(layer.props.pointSizeMaxPixels).toBe(16);
+
+    manager.setPointSizeMode('adaptive');
+    manager.setPointSizePixelRange(2, 8);
+    const adaptive = layers.get('pointcloud-pc-chunk0')!;
+    expect(adaptive.props.pointSize).toBe(8);
+    expect(adaptive.props.pointSizeMinPixels).toBe(2);
+    expect(adaptive.props.data.attributes.getPointScale.value).toEqual(new Float32Array([1, 0.5, 0.125]));
+
+    // Point clouds without octree levels are sized by their spacing
+    manager.addPointCloud('full', data);
+    const full = layers.get('pointcloud-full-chunk0')!;
+    expect(full.props.sizeUnits).toBe('meters');
+    expect(full.props.pointSize).toBeCloseTo(Math.sqrt((111.31949 * Math.cos((50.0005 * Math.PI) / 180) * 111.31949) / 3));
+
+    manager.setPointSizeMode('pixels');
+    expect(layers.get('pointcloud-pc-chunk0')!.props.sizeUnits).toBe('pixels');
+    expect(layers.get('pointcloud-pc-chunk0')!.props.pointSize).toBe(2);
+    expect(layers.get('pointcloud-pc-chunk0')!.props.extensions).toHaveLength(0);
+  });
+
+  it('should shade points by their normals and color them by slope', () => {
+    const { overlay, layers } = createOverlay();
+    const manager = new PointCloudManager(overlay, { colorScheme: 'slope', normalShading: true });
+    manager.addPointCloud('pc', data);
+
+    // Points without normals are drawn unshaded and colored by elevation
+    const unshaded = layers.get('pointcloud-pc-chunk0')!;
+    expect(unshaded.props.data.attributes.getNormal).toBeUndefined();
+    expect(unshaded.props.material).toBe(true);
+    expect(manager.getPointCloudColorBounds('pc')).not.toEqual({ min: 0, max: 90 });
+
+    const normals = new Float32Array([0, 0, 1, 1, 0, 0, 0, 0, 1]);
+    manager.setPointCloudNormals('pc', normals);
+    const shaded = layers.get('pointcloud-pc-chunk0')!;
+    expect(shaded.props.data.attributes.getNormal.value).toEqual(normals);
+    expect(shaded.props.material).toMatchObject({ specularColor: [0, 0, 0] });
+    expect(manager.getPointCloudColorBounds('pc')).toEqual({ min: 0, max: 90 });
+    expect(manager.getPointCloudData('pc')?.normals).toBe(normals);
+
+    // The normals are kept when filtering and dropped from the layer without shading
+    manager.setElevationRange([0, 25]);
+    expect(layers.get('pointcloud-pc-chunk0')!.props.data.attributes.getNormal.value).toEqual(normals);
+    manager.setNormalShading(false);
+    expect(layers.get('pointcloud-pc-chunk0')!.props.data.attributes.getNormal).toBeUndefined();
+    expect(layers.get('pointcloud-pc-chunk0')!.props.data.attributes.getFilterValue).toBeDefined();
+
+    expect(() => manager.setPointCloudNormals('pc', new Float32Array(3))).toThrow();
+  });
+});
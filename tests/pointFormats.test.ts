@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { PointCloudLoader } from '../src/lib/loaders/PointCloudLoader';
+import { PlyParser } from '../src/lib/loaders/PlyParser';
+import { TextPointParser } from '../src/lib/loaders/TextPointParser';
+
+function encode(text: string): ArrayBuffer {
+  return new TextEncoder().encode(text).buffer as ArrayBuffer;
+}
+
+function createBinaryPly(): ArrayBuffer {
+  const header =
+    'ply\nformat binary_little_endian 1.0\n' +
+    'element vertex 2\nproperty float x\nproperty float y\nproperty float z\n' +
+    'property uchar red\nproperty uchar green\nproperty uchar blue\n' +
+    'element face 1\nproperty list uchar int vertex_indices\nend_header\n';
+  const headerBytes = new TextEncoder().encode(header);
+  const stride = 15;
+  const buffer = new ArrayBuffer(headerBytes.length + stride * 2 + 13);
+  new Uint8Array(buffer).set(headerBytes);
+  const view = new DataView(buffer);
+  const vertices = [[-122.5, 45.5, 10, 255, 0, 0], [-122.4, 45.6, 20, 0, 0, 255]];
+  vertices.forEach(([x, y, z, r, g, b], i) => {
+    const offset = headerBytes.length + i * stride;
+    view.setFloat32(offset, x, true);
+    view.setFloat32(offset + 4, y, true);
+    view.setFloat32(offset + 8, z, true);
+    view.setUint8(offset + 12, r);
+    view.setUint8(offset + 13, g);
+    view.setUint8(offset + 14, b);
+  });
+  return buffer;
+}
+
+describe('PlyParser', () => {
+  it('should parse binary vertex properties and skip faces', () => {
+    const parsed = new PlyParser().parse(createBinaryPly());
+    expect(parsed.pointCount).toBe(2);
+    expect(parsed.names).toEqual(['x', 'y', 'z', 'red', 'green', 'blue']);
+    expect(parsed.columns.z[1]).toBe(20);
+    expect(parsed.columns.blue[1]).toBe(255);
+  });
+
+  it('should parse ASCII PLY files', () => {
+    const ply = 'ply\nformat ascii 1.0\nelement vertex 2\nproperty double x\nproperty double y\n' +
+      'property double z\nend_header\n1 2 3\n4 5 6\n';
+    const parsed = new PlyParser().parse(encode(ply));
+    expect(Array.from(parsed.columns.x)).toEqual([1, 4]);
+    expect(Array.from(parsed.columns.z)).toEqual([3, 6]);
+  });
+});
+
+describe('TextPointParser', () => {
+  it('should read header names and detect the delimiter', () => {
+    const parsed = new TextPointParser().parse(encode('X,Y,Z,Intensity\n1,2,3,100\n4,5,6,200\n'));
+    expect(parsed.names).toEqual(['X', 'Y', 'Z', 'Intensity']);
+    expect(Array.from(parsed.columns.Intensity)).toEqual([100, 200]);
+  });
+
+  it('should skip PTS count lines and name headerless columns', () => {
+    const parsed = new TextPointParser().parse(encode('2\n1 2 3 -500 10 20 30\n4 5 6 500 40 50 60\n'));
+    expect(parsed.pointCount).toBe(2);
+    expect(parsed.names).toEqual(['x', 'y', 'z', 'intensity', 'red', 'green', 'blue']);
+  });
+});
+
+describe('PointCloudLoader with PLY and text formats', () => {
+  it('should detect PLY from magic bytes and load colors', async () => {
+    const data = await new PointCloudLoader().load(createBinaryPly());
+    expect(data.pointCount).toBe(2);
+    expect(data.hasRGB).toBe(true);
+    expect(data.hasIntensity).toBe(false);
+    expect(Array.from(data.colors!.slice(0, 4))).toEqual([255, 0, 0, 255]);
+    expect(data.bounds.minZ).toBe(10);
+    expect(data.positions[0] + data.coordinateOrigin[0]).toBeCloseTo(-122.5, 4);
+  });
+
+  it('should apply column mapping, normalize intensity and keep extra columns', async () => {
+    const csv = 'E;N;H;amp;return\n-122.5;45.5;10;0;1\n-122.4;45.6;20;65535;2\n';
+    const data = await new PointCloudLoader().load(encode(csv), undefined, {
+      format: 'xyz',
+      columns: { x: 'e', y: 'n', z: 'h', intensity: 3 },
+    });
+    expect(data.hasIntensity).toBe(true);
+    expect(Array.from(data.intensities!)).toEqual([0, 1]);
+    expect(Array.from(data.extraAttributes!.return)).toEqual([1, 2]);
+  });
+
+  it('should reproject coordinates using the CRS hint', async () => {
+    const data = await new PointCloudLoader().load(encode('0 0 5\n111319.49 0 6\n'), undefined, {
+      crs: 'EPSG:3857',
+    });
+    expect(data.bounds.minX).toBeCloseTo(0, 5);
+    expect(data.bounds.maxX).toBeCloseTo(1, 5);
+  });
+});
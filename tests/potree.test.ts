@@ -0,0 +1,310 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { PotreeStreamingLoader } from '../src/lib/loaders/PotreeStreamingLoader';
+import type { ViewportInfo } from '../src/lib/loaders/streaming-types';
+
+const viewport: ViewportInfo = {
+  bounds: [0, 0, 0.002, 0.002],
+  center: [0.001, 0.001],
+  zoom: 18,
+  pitch: 0,
+  targetDepth: 5,
+};
+
+/**
+ * Stubs fetch with a set of files, honoring Range headers with 206 responses.
+ */
+function stubFiles(files: Record<string, ArrayBuffer | object>): void {
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+    const file = files[url];
+    if (!file) return new Response(null, { status: 404 });
+    if (!(file instanceof ArrayBuffer)) return new Response(JSON.stringify(file));
+
+    const range = (init?.headers as Record<string, string> | undefined)?.Range;
+    const match = range?.match(/bytes=(\d+)-(\d+)/);
+    if (match) {
+      return new Response(file.slice(Number(match[1]), Number(match[2]) + 1), { status: 206 });
+    }
+    return new Response(file);
+  }));
+}
+
+function hierarchy2Record(
+  view: DataView,
+  index: number,
+  type: number,
+  childMask: number,
+  numPoints: number,
+  byteOffset: number,
+  byteSize: number
+): void {
+  const offset = index * 22;
+  view.setUint8(offset, type);
+  view.setUint8(offset + 1, childMask);
+  view.setUint32(offset + 2, numPoints, true);
+  view.setBigUint64(offset + 6, BigInt(byteOffset), true);
+  view.setBigUint64(offset + 14, BigInt(byteSize), true);
+}
+
+describe('PotreeStreamingLoader', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should stream Potree 2.0 nodes, following proxy hierarchy chunks', async () => {
+    // position (int32 x3), intensity (uint16), classification (uint8), rgb (uint16 x3)
+    const pointSize = 21;
+    const octree = new ArrayBuffer(pointSize * 3);
+    const octreeView = new DataView(octree);
+    const points = [[1000, 1000, 5000, 65535, 2], [2000, 2000, 0, 0, 6], [500, 500, 0, 0, 2]];
+    points.forEach(([x, y, z, intensity, cls], i) => {
+      const o = i * pointSize;
+      octreeView.setInt32(o, x, true);
+      octreeView.setInt32(o + 4, y, true);
+      octreeView.setInt32(o + 8, z, true);
+      octreeView.setUint16(o + 12, intensity, true);
+      octreeView.setUint8(o + 14, cls);
+      for (let c = 0; c < 3; c++) octreeView.setUint16(o + 15 + c * 2, 65535, true);
+    });
+
+    // Root chunk: "r" with child "r0" as a proxy pointing at the second chunk
+    const hierarchy = new ArrayBuffer(66);
+    const hierarchyView = new DataView(hierarchy);
+    hierarchy2Record(hierarchyView, 0, 0, 0b1, 2, 0, pointSize * 2);
+    hierarchy2Record(hierarchyView, 1, 2, 0, 1, 44, 22);
+    hierarchy2Record(hierarchyView, 2, 1, 0, 1, pointSize * 2, pointSize);
+
+    stubFiles({
+      'https://example.com/pc/metadata.json': {
+        version: '2.0',
+        points: 3,
+        projection: '',
+        hierarchy: { firstChunkSize: 44, stepSize: 4, depth: 1 },
+        offset: [0, 0, 0],
+        scale: [0.000001, 0.000001, 0.000001],
+        spacing: 0.0001,
+        boundingBox: { min: [0, 0, 0], max: [0.002, 0.002, 0.002] },
+        encoding: 'DEFAULT',
+        attributes: [
+          { name: 'position', size: 12, numElements: 3, elementSize: 4, type: 'int32' },
+          { name: 'intensity', size: 2, numElements: 1, elementSize: 2, type: 'uint16' },
+          { name: 'classification', size: 1, numElements: 1, elementSize: 1, type: 'uint8' },
+          { name: 'rgb', size: 6, numElements: 3, elementSize: 2, type: 'uint16' },
+        ],
+      },
+      'https://example.com/pc/hierarchy.bin': hierarchy,
+      'https://example.com/pc/octree.bin': octree,
+    });
+
+    const loader = new PotreeStreamingLoader('https://example.com/pc/metadata.json', { pointBudget: 100 });
+    const info = await loader.initialize();
+    expect(info.totalPoints).toBe(3);
+    expect(info.hasRGB).toBe(true);
+
+    const nodes = await loader.selectNodesForViewport(viewport);
+    expect(nodes.map((n) => n.key).sort()).toEqual(['r', 'r0']);
+
+    nodes.forEach((node) => loader.queueNode(node));
+    await loader.loadQueuedNodes();
+    await vi.waitFor(() => expect(loader.getLoadedNodeCount()).toBe(2));
+
+    const data = loader.getLoadedPointCloudData();
+    const index = nodes.find((n) => n.key === 'r')!.bufferStartIndex!;
+    expect(data.pointCount).toBe(3);
+    expect(data.positions[index * 3] + data.coordinateOrigin[0]).toBeCloseTo(0.001, 9);
+    expect(data.positions[index * 3 + 2]).toBeCloseTo(0.005, 6);
+    expect(data.intensities![index]).toBe(1);
+    expect(Array.from(data.classifications!).sort()).toEqual([2, 2, 6]);
+    expect(Array.from(data.colors!.subarray(index * 4, index * 4 + 4))).toEqual([255, 255, 255, 255]);
+    loader.destroy();
+  });
+
+  it('should stream Potree 1.x nodes with node-relative positions and nested .hrc files', async () => {
+    // Each hrc record: childMask (uint8), numPoints (uint32)
+    const hrc = (records: Array<[number, number]>): ArrayBuffer => {
+      const buffer = new ArrayBuffer(records.length * 5);
+      const view = new DataView(buffer);
+      records.forEach(([mask, count], i) => {
+        view.setUint8(i * 5, mask);
+        view.setUint32(i * 5 + 1, count, true);
+      });
+      return buffer;
+    };
+    // POSITION_CARTESIAN (uint32 x3), COLOR_PACKED (uint8 x4), CLASSIFICATION (uint8)
+    const bin = (position: number, classification: number): ArrayBuffer => {
+      const buffer = new ArrayBuffer(17);
+      const view = new DataView(buffer);
+      for (let i = 0; i < 3; i++) view.setUint32(i * 4, position, true);
+      new Uint8Array(buffer).set([10, 20, 30, 255, classification], 12);
+      return buffer;
+    };
+
+    stubFiles({
+      'https://example.com/pc/cloud.js': {
+        version: '1.7',
+        octreeDir: 'data',
+        projection: '',
+        points: 3,
+        boundingBox: { lx: 0, ly: 0, lz: 0, ux: 0.002, uy: 0.002, uz: 0.002 },
+        pointAttributes: ['POSITION_CARTESIAN', 'COLOR_PACKED', 'CLASSIFICATION'],
+        spacing: 0.0001,
+        scale: 0.000001,
+        hierarchyStepSize: 1,
+      },
+      'https://example.com/pc/data/r/r.hrc': hrc([[0b10000000, 1], [0b1, 1]]),
+      'https://example.com/pc/data/r/7/r7.hrc': hrc([[0b1, 1], [0, 1]]),
+      'https://example.com/pc/data/r/r.bin': bin(0, 1),
+      'https://example.com/pc/data/r/7/r7.bin': bin(500, 2),
+      'https://example.com/pc/data/r/7/0/r70.bin': bin(0, 3),
+    });
+
+    const loader = new PotreeStreamingLoader('https://example.com/pc/cloud.js', { pointBudget: 100 });
+    await loader.initialize();
+
+    const nodes = await loader.selectNodesForViewport(viewport);
+    expect(nodes.map((n) => n.key).sort()).toEqual(['r', 'r7', 'r70']);
+
+    nodes.forEach((node) => loader.queueNode(node));
+    await loader.loadQueuedNodes();
+    await vi.waitFor(() => expect(loader.getLoadedNodeCount()).toBe(3));
+
+    const data = loader.getLoadedPointCloudData();
+    const r7 = nodes.find((n) => n.key === 'r7')!;
+    const index = r7.bufferStartIndex!;
+    // r7 is the upper octant, so its positions are offset by the octant minimum (0.001)
+    expect(data.positions[index * 3] + data.coordinateOrigin[0]).toBeCloseTo(0.0015, 9);
+    expect(data.positions[index * 3 + 2]).toBeCloseTo(0.0015, 9);
+    expect(data.classifications![index]).toBe(2);
+    expect(Array.from(data.colors!.subarray(index * 4, index * 4 + 4))).toEqual([10, 20, 30, 255]);
+    loader.destroy();
+  });
+
+  it('should retry failed nodes and report them after the last attempt', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const hierarchy = new ArrayBuffer(22);
+    hierarchy2Record(new DataView(hierarchy), 0, 0, 0, 1, 0, 12);
+
+    // octree.bin is missing, so every node request fails with 404
+    stubFiles({
+      'https://example.com/pc/metadata.json': {
+        version: '2.0',
+        points: 1,
+        projection: '',
+        hierarchy: { firstChunkSize: 22, stepSize: 4, depth: 0 },
+        offset: [0, 0, 0],
+        scale: [0.000001, 0.000001, 0.000001],
+        spacing: 0.0001,
+        boundingBox: { min: [0, 0, 0], max: [0.002, 0.002, 0.002] },
+        encoding: 'DEFAULT',
+        attributes: [
+          { name: 'position', size: 12, numElements: 3, elementSize: 4, type: 'int32' },
+        ],
+      },
+      'https://example.com/pc/hierarchy.bin': hierarchy,
+    });
+
+    const loader = new PotreeStreamingLoader('https://example.com/pc/metadata.json', {
+      maxRetries: 2,
+      retryDelayMs: 1,
+    });
+    const onFailed = vi.fn();
+    loader.on('nodefailed', onFailed);
+    await loader.initialize();
+
+    const nodes = await loader.selectNodesForViewport(viewport);
+    nodes.forEach((node) => loader.queueNode(node));
+    await loader.loadQueuedNodes();
+
+    await vi.waitFor(() => expect(onFailed).toHaveBeenCalledTimes(1));
+    const octreeRequests = vi.mocked(fetch).mock.calls.filter(([url]) => String(url).endsWith('octree.bin'));
+    expect(octreeRequests).toHaveLength(3);
+    expect(loader.getFailedNodes()).toEqual([{ key: 'r', error: expect.stringContaining('404'), attempts: 3 }]);
+    loader.destroy();
+  });
+
+  it('should keep the buffer ranges of other nodes when a node fails while they load', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    // Root "r" with the children "r0" and "r1", one point each at different heights
+    const octree = new ArrayBuffer(36);
+    const octreeView = new DataView(octree);
+    [500, 1000, 1500].forEach((z, i) => {
+      octreeView.setInt32(i * 12, 1000, true);
+      octreeView.setInt32(i * 12 + 4, 1000, true);
+      octreeView.setInt32(i * 12 + 8, z, true);
+    });
+    const hierarchy = new ArrayBuffer(66);
+    const hierarchyView = new DataView(hierarchy);
+    hierarchy2Record(hierarchyView, 0, 0, 0b11, 1, 0, 12);
+    hierarchy2Record(hierarchyView, 1, 1, 0, 1, 12, 12);
+    hierarchy2Record(hierarchyView, 2, 1, 0, 1, 24, 12);
+
+    stubFiles({
+      'https://example.com/pc/metadata.json': {
+        version: '2.0',
+        points: 3,
+        projection: '',
+        hierarchy: { firstChunkSize: 66, stepSize: 4, depth: 1 },
+        offset: [0, 0, 0],
+        scale: [0.000001, 0.000001, 0.000001],
+        spacing: 0.0001,
+        boundingBox: { min: [0, 0, 0], max: [0.002, 0.002, 0.002] },
+        encoding: 'DEFAULT',
+        attributes: [
+          { name: 'position', size: 12, numElements: 3, elementSize: 4, type: 'int32' },
+        ],
+      },
+      'https://example.com/pc/hierarchy.bin': hierarchy,
+      'https://example.com/pc/octree.bin': octree,
+    });
+
+    // The first node request fails after the other nodes have loaded
+    const serveFile = vi.mocked(fetch).getMockImplementation()!;
+    let failFirst: () => void = () => {};
+    let nodeRequests = 0;
+    vi.mocked(fetch).mockImplementation((url, init) => {
+      if (String(url).endsWith('octree.bin') && nodeRequests++ === 0) {
+        return new Promise((resolve) => { failFirst = () => resolve(new Response(null, { status: 500 })); });
+      }
+      return serveFile(url, init);
+    });
+
+    const loader = new PotreeStreamingLoader('https://example.com/pc/metadata.json', { maxRetries: 0 });
+    await loader.initialize();
+    const nodes = await loader.selectNodesForViewport(viewport);
+    nodes.forEach((node) => loader.queueNode(node));
+    await loader.loadQueuedNodes();
+    await vi.waitFor(() => expect(loader.getLoadedNodeCount()).toBe(2));
+
+    failFirst();
+    await vi.waitFor(() => expect(loader.isLoading()).toBe(false));
+
+    // The points of the loaded nodes are moved into the range of the failed node
+    const data = loader.getLoadedPointCloudData();
+    const loadedNodes = nodes.filter((node) => node.state === 'loaded');
+    expect(data.pointCount).toBe(2);
+    expect(loadedNodes.map((node) => node.bufferStartIndex).sort()).toEqual([0, 1]);
+    for (const node of loadedNodes) {
+      const z = { r: 0.0005, r0: 0.001, r1: 0.0015 }[node.key]!;
+      expect(data.positions[node.bufferStartIndex! * 3 + 2]).toBeCloseTo(z, 9);
+    }
+    loader.destroy();
+  });
+
+  it('should reject BROTLI-encoded Potree 2.0 datasets', async () => {
+    stubFiles({
+      'https://example.com/pc/metadata.json': {
+        version: '2.0',
+        points: 0,
+        hierarchy: { firstChunkSize: 22, stepSize: 4, depth: 0 },
+        offset: [0, 0, 0],
+        scale: [1, 1, 1],
+        spacing: 1,
+        boundingBox: { min: [0, 0, 0], max: [1, 1, 1] },
+        encoding: 'BROTLI',
+        attributes: [],
+      },
+    });
+
+    const loader = new PotreeStreamingLoader('https://example.com/pc/metadata.json');
+    await expect(loader.initialize()).rejects.toThrow(/BROTLI/);
+  });
+});
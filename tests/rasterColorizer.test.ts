@@ -0,0 +1,253 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import proj4 from 'proj4';
+import { RasterColorizer } from '../src/lib/colorizers/RasterColorizer';
+import { GeoTiffReader } from '../src/lib/colorizers/GeoTiffReader';
+import { EptStreamingLoader } from '../src/lib/loaders/EptStreamingLoader';
+import type { PointColorizer } from '../src/lib/loaders/streaming-types';
+
+interface TiffTag {
+  tag: number;
+  type: 3 | 4 | 12;
+  values: number[];
+}
+
+/**
+ * Creates a little-endian TIFF with one image directory. Offsets of the strips
+ * or tiles (tag 273 or 324) are filled in from the chunk contents.
+ */
+function createTiff(tags: TiffTag[], chunks: Uint8Array[], offsetTag: number): ArrayBuffer {
+  const sizes = { 3: 2, 4: 4, 12: 8 };
+  const allTags = [...tags, { tag: offsetTag, type: 4 as const, values: chunks.map(() => 0) }]
+    .sort((a, b) => a.tag - b.tag);
+  const directorySize = 2 + allTags.length * 12 + 4;
+  let valuesSize = 0;
+  for (const tag of allTags) {
+    const size = sizes[tag.type] * tag.values.length;
+    if (size > 4) valuesSize += size;
+  }
+  const chunkStart = 8 + directorySize + valuesSize;
+  let chunkOffset = chunkStart;
+  allTags.find((tag) => tag.tag === offsetTag)!.values = chunks.map((chunk) => {
+    const offset = chunkOffset;
+    chunkOffset += chunk.length;
+    return offset;
+  });
+
+  const buffer = new ArrayBuffer(chunkOffset);
+  const view = new DataView(buffer);
+  view.setUint16(0, 0x4949);
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+  view.setUint16(8, allTags.length, true);
+  let valueOffset = 8 + directorySize;
+  allTags.forEach((tag, i) => {
+    const entry = 10 + i * 12;
+    const size = sizes[tag.type];
+    view.setUint16(entry, tag.tag, true);
+    view.setUint16(entry + 2, tag.type, true);
+    view.setUint32(entry + 4, tag.values.length, true);
+    let target = entry + 8;
+    if (size * tag.values.length > 4) {
+      view.setUint32(entry + 8, valueOffset, true);
+      target = valueOffset;
+      valueOffset += size * tag.values.length;
+    }
+    tag.values.forEach((value, j) => {
+      if (tag.type === 3) view.setUint16(target + j * 2, value, true);
+      else if (tag.type === 4) view.setUint32(target + j * 4, value, true);
+      else view.setFloat64(target + j * 8, value, true);
+    });
+  });
+  chunks.reduce((offset, chunk) => {
+    new Uint8Array(buffer, offset, chunk.length).set(chunk);
+    return offset + chunk.length;
+  }, chunkStart);
+  return buffer;
+}
+
+/**
+ * Encodes bytes as TIFF LZW literal codes (9 bits), clearing the table before it grows.
+ */
+function encodeLzwLiterals(bytes: Uint8Array): Uint8Array {
+  const codes: number[] = [256];
+  bytes.forEach((byte, i) => {
+    if (i > 0 && i % 200 === 0) codes.push(256);
+    codes.push(byte);
+  });
+  codes.push(257);
+  const output = new Uint8Array(Math.ceil((codes.length * 9) / 8));
+  codes.forEach((code, i) => {
+    for (let bit = 0; bit < 9; bit++) {
+      if ((code >> (8 - bit)) & 1) {
+        const position = i * 9 + bit;
+        output[position >> 3] |= 0x80 >> (position & 7);
+      }
+    }
+  });
+  return output;
+}
+
+/**
+ * Creates point positions as offsets from the origin.
+ */
+function createPositions(coordinates: [number, number][], origin: [number, number]): Float32Array {
+  return new Float32Array(coordinates.flatMap(([lng, lat]) => [lng - origin[0], lat - origin[1], 0]));
+}
+
+describe('RasterColorizer', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should color points from an uncompressed WGS84 GeoTIFF', async () => {
+    // 4 x 2 RGB pixels of 0.5 degrees from (10, 50)
+    const pixels = new Uint8Array([
+      255, 0, 0, 0, 255, 0, 0, 0, 255, 255, 255, 0,
+      0, 255, 255, 255, 0, 255, 10, 20, 30, 40, 50, 60,
+    ]);
+    const tiff = createTiff([
+      { tag: 256, type: 3, values: [4] },
+      { tag: 257, type: 3, values: [2] },
+      { tag: 258, type: 3, values: [8, 8, 8] },
+      { tag: 262, type: 3, values: [2] },
+      { tag: 277, type: 3, values: [3] },
+      { tag: 278, type: 3, values: [2] },
+      { tag: 279, type: 4, values: [pixels.length] },
+      { tag: 33550, type: 12, values: [0.5, 0.5, 0] },
+      { tag: 33922, type: 12, values: [0, 0, 0, 10, 50, 0] },
+      { tag: 34735, type: 3, values: [1, 1, 0, 1, 2048, 0, 1, 4326] },
+    ], [pixels], 273);
+    expect(GeoTiffReader.isTiff(tiff)).toBe(true);
+
+    const colorizer = new RasterColorizer({ type: 'geotiff', data: tiff }, { noDataColor: '#000000' });
+    const origin: [number, number] = [11, 49.5];
+    const data = await colorizer.colorizePointCloud({
+      positions: createPositions([[10.25, 49.75], [11.75, 49.25], [12.5, 49.5]], origin),
+      coordinateOrigin: [origin[0], origin[1], 0],
+      pointCount: 3,
+      bounds: { minX: 10.25, maxX: 12.5, minY: 49.25, maxY: 49.75, minZ: 0, maxZ: 0 },
+      hasRGB: false,
+      hasIntensity: false,
+      hasClassification: false,
+    });
+
+    expect(data.hasRGB).toBe(true);
+    expect(Array.from(data.colors!)).toEqual([255, 0, 0, 255, 40, 50, 60, 255, 0, 0, 0, 255]);
+  });
+
+  it('should decode tiled LZW GeoTIFFs with horizontal differencing in UTM', async () => {
+    // 4 x 2 gray pixels in two 2 x 2 tiles, 10 m pixels from (500000, 5500000) in UTM zone 33N
+    const tiles = [new Uint8Array([10, 10, 20, 10]), new Uint8Array([100, 50, 200, 1])];
+    const tiff = createTiff([
+      { tag: 256, type: 3, values: [4] },
+      { tag: 257, type: 3, values: [2] },
+      { tag: 258, type: 3, values: [8] },
+      { tag: 259, type: 3, values: [5] },
+      { tag: 262, type: 3, values: [1] },
+      { tag: 277, type: 3, values: [1] },
+      { tag: 317, type: 3, values: [2] },
+      { tag: 322, type: 3, values: [2] },
+      { tag: 323, type: 3, values: [2] },
+      { tag: 325, type: 4, values: tiles.map((tile) => encodeLzwLiterals(tile).length) },
+      { tag: 33550, type: 12, values: [10, 10, 0] },
+      { tag: 33922, type: 12, values: [0, 0, 0, 500000, 5500000, 0] },
+      { tag: 34735, type: 3, values: [1, 1, 0, 1, 3072, 0, 1, 32633] },
+    ], tiles.map(encodeLzwLiterals), 324);
+
+    const reader = new GeoTiffReader(tiff);
+    expect(reader.epsg).toBe(32633);
+    expect(Array.from((await reader.readChunk(1)).data.slice(0, 8))).toEqual([100, 100, 100, 255, 150, 150, 150, 255]);
+
+    // Points at the centers of pixels (3, 0) and (0, 1)
+    const colorizer = new RasterColorizer({ type: 'geotiff', data: tiff });
+    const utm = proj4('+proj=utm +zone=33 +datum=WGS84 +units=m +no_defs', 'EPSG:4326');
+    const coordinates = [utm.forward([500035, 5499995]), utm.forward([500005, 5499985])] as [number, number][];
+    const origin = coordinates[0];
+    const colors = await colorizer.colorize(createPositions(coordinates, origin), [origin[0], origin[1], 0]);
+    expect(Array.from(colors)).toEqual([150, 150, 150, 255, 20, 20, 20, 255]);
+  });
+
+  it('should request the tiles of a tile source at the zoom level covering the points', async () => {
+    const fetchMock = vi.fn(async () => new Response(null, { status: 404 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const colorizer = new RasterColorizer({
+      type: 'tiles',
+      tiles: ['https://tiles.example.com/{z}/{x}/{y}.png'],
+      maxzoom: 19,
+    });
+    const colors = await colorizer.colorize(new Float32Array([0.0001, 0.0001, 0]), [0, 0, 0]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe('https://tiles.example.com/19/262144/262143.png');
+    // Points on missing tiles get the no data color
+    expect(Array.from(colors)).toEqual([128, 128, 128, 255]);
+  });
+
+  it('should colorize the loaded and new nodes of streaming loaders', async () => {
+    const pointData = (x: number, y: number): ArrayBuffer => {
+      const buffer = new ArrayBuffer(12);
+      const view = new DataView(buffer);
+      view.setInt32(0, x, true);
+      view.setInt32(4, y, true);
+      return buffer;
+    };
+    const files: Record<string, ArrayBuffer | object> = {
+      'https://example.com/ept/ept.json': {
+        bounds: [0, 0, 0, 0.002, 0.002, 0.002],
+        boundsConforming: [0, 0, 0, 0.002, 0.002, 0.002],
+        dataType: 'binary',
+        hierarchyType: 'json',
+        numPoints: 2,
+        schema: [
+          { name: 'X', type: 'signed', size: 4, scale: 0.000001, offset: 0 },
+          { name: 'Y', type: 'signed', size: 4, scale: 0.000001, offset: 0 },
+          { name: 'Z', type: 'signed', size: 4, scale: 0.000001, offset: 0 },
+        ],
+        span: 128,
+        srs: {},
+        version: '1.0.0',
+      },
+      'https://example.com/ept/ept-hierarchy/0-0-0-0.json': { '0-0-0-0': 1, '1-1-1-0': 1 },
+      'https://example.com/ept/ept-data/0-0-0-0.bin': pointData(1000, 1000),
+      'https://example.com/ept/ept-data/1-1-1-0.bin': pointData(1500, 1500),
+    };
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      const file = files[url];
+      if (!file) return new Response(null, { status: 404 });
+      return new Response(file instanceof ArrayBuffer ? file : JSON.stringify(file));
+    }));
+
+    // Colors points east of 0.0012 red, others blue
+    const colorizer: PointColorizer = {
+      colorize: vi.fn(async (positions: Float32Array, origin: [number, number, number]) => {
+        const colors = new Uint8Array((positions.length / 3) * 4);
+        for (let i = 0; i < positions.length / 3; i++) {
+          colors.set(origin[0] + positions[i * 3] > 0.0012 ? [255, 0, 0, 255] : [0, 0, 255, 255], i * 4);
+        }
+        return colors;
+      }),
+    };
+
+    const loader = new EptStreamingLoader('https://example.com/ept/ept.json', { screenSpaceErrorThreshold: 0 });
+    await loader.initialize();
+    const load = async (bounds: [number, number, number, number], targetDepth: number) => {
+      const viewport = { bounds, center: [bounds[0], bounds[1]] as [number, number], zoom: 18, pitch: 0, targetDepth };
+      (await loader.selectNodesForViewport(viewport)).forEach((node) => loader.queueNode(node));
+      await loader.loadQueuedNodes();
+      await vi.waitFor(() => expect(loader.isLoading()).toBe(false));
+    };
+
+    await load([0, 0, 0.002, 0.002], 0);
+    expect(loader.getLoadedPointCloudData().hasRGB).toBe(false);
+
+    await loader.setColorizer(colorizer);
+    await load([0.001, 0.001, 0.002, 0.002], 1);
+
+    const data = loader.getLoadedPointCloudData();
+    expect(data.hasRGB).toBe(true);
+    expect(Array.from(data.colors!)).toEqual([0, 0, 255, 255, 255, 0, 0, 255]);
+    loader.destroy();
+  });
+});
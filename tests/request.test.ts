@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { fetchWithTransform } from '../src/lib/utils/request';
+import { EptStreamingLoader } from '../src/lib/loaders/EptStreamingLoader';
+
+describe('fetchWithTransform', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should apply the transformed URL, headers and credentials', async () => {
+    const fetchMock = vi.fn(async () => new Response('ok'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await fetchWithTransform(
+      'https://example.com/pc.copc.laz',
+      'data',
+      { headers: { Range: 'bytes=0-99' } },
+      (url) => ({ url: `${url}?sig=abc`, headers: { Authorization: 'Bearer t1' }, credentials: 'include' })
+    );
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://example.com/pc.copc.laz?sig=abc');
+    expect(init.headers).toEqual({ Range: 'bytes=0-99', Authorization: 'Bearer t1' });
+    expect(init.credentials).toBe('include');
+  });
+
+  it('should refresh credentials and retry once after a 401', async () => {
+    const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+      const authorized = (init?.headers as Record<string, string>).Authorization === 'Bearer fresh';
+      return new Response(authorized ? 'ok' : null, { status: authorized ? 200 : 401 });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const transform = vi.fn((url: string, _kind: string, failedResponse?: Response) => ({
+      url,
+      headers: { Authorization: failedResponse ? 'Bearer fresh' : 'Bearer expired' },
+    }));
+
+    const response = await fetchWithTransform('https://example.com/ept.json', 'metadata', {}, transform);
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(transform).toHaveBeenLastCalledWith('https://example.com/ept.json', 'metadata', expect.any(Response));
+  });
+
+  it('should pass the resource kind of loader requests to the transform', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 404, statusText: 'Not Found' })));
+    const transform = vi.fn(() => undefined);
+
+    const loader = new EptStreamingLoader('https://example.com/ept/ept.json', { transformRequest: transform });
+    await expect(loader.initialize()).rejects.toThrow('404');
+    expect(transform).toHaveBeenCalledWith('https://example.com/ept/ept.json', 'metadata', undefined);
+  });
+});
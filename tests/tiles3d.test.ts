@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { PntsParser } from '../src/lib/loaders/PntsParser';
+import { Tiles3DStreamingLoader } from '../src/lib/loaders/Tiles3DStreamingLoader';
+import type { ViewportInfo } from '../src/lib/loaders/streaming-types';
+
+/** ECEF coordinates of lng 0, lat 0, height 0 */
+const EQUATOR_ECEF: [number, number, number] = [6378137, 0, 0];
+
+function padJson(json: object): Uint8Array {
+  let text = JSON.stringify(json);
+  while ((28 + text.length) % 8 !== 0) text += ' ';
+  return new TextEncoder().encode(text);
+}
+
+function createPnts(): ArrayBuffer {
+  const featureTable = padJson({
+    POINTS_LENGTH: 2,
+    RTC_CENTER: EQUATOR_ECEF,
+    POSITION: { byteOffset: 0 },
+    RGB: { byteOffset: 24 },
+  });
+  const featureBinary = new Uint8Array(32);
+  new Float32Array(featureBinary.buffer, 0, 6).set([0, 0, 0, 10, 0, 0]);
+  featureBinary.set([255, 0, 0, 0, 255, 0], 24);
+
+  const batchTable = new TextEncoder().encode(JSON.stringify({
+    Intensity: { byteOffset: 0, componentType: 'UNSIGNED_SHORT', type: 'SCALAR' },
+    Classification: { byteOffset: 4, componentType: 'UNSIGNED_BYTE', type: 'SCALAR' },
+  }));
+  const batchBinary = new Uint8Array(8);
+  new Uint16Array(batchBinary.buffer, 0, 2).set([0, 65535]);
+  batchBinary.set([2, 6], 4);
+
+  const total = 28 + featureTable.length + featureBinary.length + batchTable.length + batchBinary.length;
+  const buffer = new ArrayBuffer(total);
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  bytes.set(new TextEncoder().encode('pnts'), 0);
+  view.setUint32(4, 1, true);
+  view.setUint32(8, total, true);
+  view.setUint32(12, featureTable.length, true);
+  view.setUint32(16, featureBinary.length, true);
+  view.setUint32(20, batchTable.length, true);
+  view.setUint32(24, batchBinary.length, true);
+  let offset = 28;
+  for (const part of [featureTable, featureBinary, batchTable, batchBinary]) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return buffer;
+}
+
+const viewport: ViewportInfo = {
+  bounds: [-0.01, -0.01, 0.01, 0.01],
+  center: [0, 0],
+  zoom: 16,
+  pitch: 0,
+  targetDepth: 5,
+};
+
+describe('PntsParser', () => {
+  it('should decode positions, colors and batch table attributes', () => {
+    const tile = new PntsParser().parse(createPnts());
+    expect(tile.pointCount).toBe(2);
+    expect(tile.positions[3]).toBeCloseTo(EQUATOR_ECEF[0] + 10, 3);
+    expect(Array.from(tile.colors!)).toEqual([255, 0, 0, 255, 0, 255, 0, 255]);
+    expect(Array.from(tile.intensities!)).toEqual([0, 1]);
+    expect(Array.from(tile.classifications!)).toEqual([2, 6]);
+  });
+
+  it('should reject non-pnts content', () => {
+    const buffer = new TextEncoder().encode('b3dm0000').buffer as ArrayBuffer;
+    expect(() => new PntsParser().parse(buffer)).toThrow(/only pnts/);
+  });
+});
+
+describe('Tiles3DStreamingLoader', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should refine by geometric error and load pnts tiles as WGS84 points', async () => {
+    const tileset = {
+      asset: { version: '1.0' },
+      geometricError: 100,
+      root: {
+        boundingVolume: { region: [-0.001, -0.001, 0.001, 0.001, -10, 20] },
+        geometricError: 50,
+        refine: 'ADD',
+        content: { uri: 'r.pnts' },
+        children: [{
+          boundingVolume: { region: [-0.001, -0.001, 0.001, 0.001, -10, 20] },
+          geometricError: 0,
+          content: { uri: 'r0.pnts' },
+        }],
+      },
+    };
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url.endsWith('tileset.json')) {
+        return new Response(JSON.stringify(tileset));
+      }
+      return new Response(createPnts());
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const loader = new Tiles3DStreamingLoader('https://example.com/pc/tileset.json', { pointBudget: 100 });
+    const { bounds } = await loader.initialize();
+    expect(bounds.maxZ).toBe(20);
+
+    // At zoom 16 a geometric error of 50 m exceeds 16 px, so both tiles are selected (ADD refinement)
+    const nodes = await loader.selectNodesForViewport(viewport);
+    expect(nodes.map((n) => n.contentUrl).sort()).toEqual([
+      'https://example.com/pc/r.pnts',
+      'https://example.com/pc/r0.pnts',
+    ]);
+
+    // When zoomed out the root is not refined
+    const coarse = await loader.selectNodesForViewport({ ...viewport, zoom: 4 });
+    expect(coarse.map((n) => n.key)).toEqual(['0']);
+
+    loader.queueNode(coarse[0]);
+    await loader.loadQueuedNodes();
+    await vi.waitFor(() => expect(loader.getLoadedPointCount()).toBe(2));
+
+    const data = loader.getLoadedPointCloudData();
+    expect(data.hasRGB).toBe(true);
+    expect(data.hasClassification).toBe(true);
+    expect(data.positions[0] + data.coordinateOrigin[0]).toBeCloseTo(0, 6);
+    expect(data.positions[4] + data.coordinateOrigin[1]).toBeCloseTo(0, 6);
+    expect(data.positions[5]).toBeCloseTo(10, 2);
+    loader.destroy();
+  });
+});
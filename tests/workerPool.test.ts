@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { WorkerPool } from '../src/lib/workers/WorkerPool';
+import { decodePoints } from '../src/lib/workers/PointDecoder';
+import { isAbortError } from '../src/lib/utils/helpers';
+import type {
+  DecodedPoints,
+  LazFileDecodeTask,
+  NormalEstimationTask,
+  PointDecodeRequest,
+} from '../src/lib/workers/types';
+
+vi.mock('../src/lib/workers/PointDecoder', () => ({
+  decodePoints: vi.fn(),
+}));
+
+const task: LazFileDecodeTask = {
+  type: 'laz-file',
+  buffer: new Uint8Array(4),
+  projection: null,
+  verticalUnitFactor: 1,
+  coordinateOrigin: [0, 0, 0],
+  clampCoordinates: false,
+};
+
+const decoded: DecodedPoints = {
+  pointCount: 1,
+  positions: new Float32Array([1, 2, 3]),
+  intensities: new Float32Array([0.5]),
+  classifications: new Uint8Array([2]),
+  extraAttributes: {},
+  dimensions: [],
+};
+
+/**
+ * Minimal Worker stand-in; behavior is set per test.
+ */
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  static respond: (worker: FakeWorker, request: PointDecodeRequest) => void = () => {};
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  terminated = false;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(request: PointDecodeRequest): void {
+    setTimeout(() => FakeWorker.respond(this, request), 0);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+}
+
+describe('WorkerPool', () => {
+  afterEach(() => {
+    FakeWorker.instances = [];
+    vi.unstubAllGlobals();
+    vi.mocked(decodePoints).mockReset();
+  });
+
+  it('should decode on the main thread when workers are unavailable', async () => {
+    vi.stubGlobal('Worker', undefined);
+    vi.mocked(decodePoints).mockResolvedValue(decoded);
+
+    const pool = new WorkerPool('/worker.mjs');
+    expect(pool.isAvailable()).toBe(false);
+    await expect(pool.decode(task)).resolves.toBe(decoded);
+    expect(decodePoints).toHaveBeenCalledWith(task);
+  });
+
+  it('should resolve tasks with the results posted by workers', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    FakeWorker.respond = (worker, { id }) => {
+      worker.onmessage?.({ data: { id, result: decoded } } as MessageEvent);
+    };
+
+    const pool = new WorkerPool('/worker.mjs', 2);
+    const results = await Promise.all([pool.decode(task), pool.decode(task), pool.decode(task)]);
+
+    expect(results).toEqual([decoded, decoded, decoded]);
+    expect(FakeWorker.instances).toHaveLength(2);
+    expect(decodePoints).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the main thread when the worker script fails', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(decodePoints).mockResolvedValue(decoded);
+    FakeWorker.respond = (worker) => {
+      worker.onerror?.({ message: 'Failed to load', preventDefault: () => {} } as ErrorEvent);
+    };
+
+    const pool = new WorkerPool('/missing.mjs', 1);
+    await expect(pool.decode(task)).resolves.toBe(decoded);
+    expect(pool.isAvailable()).toBe(false);
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+  });
+
+  it('should estimate normals on workers and on the main thread', async () => {
+    const normalsTask: NormalEstimationTask = {
+      type: 'normals',
+      positions: new Float32Array([0, 0, 0, 0.00001, 0, 0, 0, 0.00001, 0]),
+      coordinateOrigin: [0, 0, 0],
+      neighborCount: 3,
+    };
+    const normals = new Float32Array([0, 0, 1, 0, 0, 1, 0, 0, 1]);
+    vi.stubGlobal('Worker', FakeWorker);
+    FakeWorker.respond = (worker, { id, task }) => {
+      worker.onmessage?.({ data: task.type === 'normals' ? { id, normals } : { id, result: decoded } } as MessageEvent);
+    };
+
+    const pool = new WorkerPool('/worker.mjs', 1);
+    const [estimated, points] = await Promise.all([pool.estimateNormals(normalsTask), pool.decode(task)]);
+    expect(estimated).toBe(normals);
+    expect(points).toBe(decoded);
+
+    vi.stubGlobal('Worker', undefined);
+    const fallback = await new WorkerPool('/worker.mjs').estimateNormals(normalsTask);
+    expect(Array.from(fallback, Math.abs)).toEqual(Array.from(normals));
+  });
+
+  it('should reject pending tasks with an AbortError when destroyed', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    FakeWorker.respond = () => {};
+
+    const pool = new WorkerPool('/worker.mjs', 1);
+    const promise = pool.decode(task);
+    pool.destroy();
+
+    const error = await promise.catch((err) => err);
+    expect(isAbortError(error)).toBe(true);
+  });
+});
@@ -25,6 +25,7 @@ export default defineConfig({
       entry: {
         index: resolve(__dirname, 'src/index.ts'),
         react: resolve(__dirname, 'src/react.ts'),
+        worker: resolve(__dirname, 'src/worker.ts'),
       },
       name: 'MapLibreLidar',
       formats: ['es', 'cjs'],